@@ -10,6 +10,7 @@ import "../interfaces/ITalismanAccount.sol";
  * @title TalismanAccount
  * @dev ERC-4337 compliant smart account for Talisman game players
  * Allows gasless transactions through account abstraction
+ * Validates operations from an EntryPoint v0.6 or v0.7, whichever it was deployed for
  */
 contract TalismanAccount is ITalismanAccount, Initializable {
     using ECDSA for bytes32;
@@ -71,7 +72,23 @@ contract TalismanAccount is ITalismanAccount, Initializable {
         bytes32 userOpHash,
         uint256 missingAccountFunds
     ) external override onlyEntryPoint returns (uint256 validationData) {
-        validationData = _validateSignature(userOp, userOpHash);
+        validationData = _validateSignature(userOp.signature, userOpHash);
+        _payPrefund(missingAccountFunds);
+    }
+
+    /**
+     * @dev Validate a user operation signature from an EntryPoint v0.7
+     * @param userOp The packed user operation
+     * @param userOpHash The hash of the user operation
+     * @param missingAccountFunds Funds to pay for gas
+     * @return validationData 0 for success, 1 for failure
+     */
+    function validateUserOp(
+        PackedUserOperation calldata userOp,
+        bytes32 userOpHash,
+        uint256 missingAccountFunds
+    ) external override onlyEntryPoint returns (uint256 validationData) {
+        validationData = _validateSignature(userOp.signature, userOpHash);
         _payPrefund(missingAccountFunds);
     }
 
@@ -137,15 +154,17 @@ contract TalismanAccount is ITalismanAccount, Initializable {
 
     /**
      * @dev Validate the signature of a user operation
+     * A malformed signature fails validation instead of reverting, as ERC-4337 asks,
+     * so estimating with a placeholder signature still simulates
      */
     function _validateSignature(
-        IEntryPoint.UserOperation calldata userOp,
+        bytes calldata signature,
         bytes32 userOpHash
     ) internal view returns (uint256 validationData) {
         bytes32 hash = ECDSA.toEthSignedMessageHash(userOpHash);
-        address signer = ECDSA.recover(hash, userOp.signature);
+        (address signer, ECDSA.RecoverError error) = ECDSA.tryRecover(hash, signature);
 
-        if (signer != _owner) {
+        if (error != ECDSA.RecoverError.NoError || signer != _owner) {
             return 1; // SIG_VALIDATION_FAILED
         }
         return 0; // SIG_VALIDATION_SUCCESS
@@ -3,21 +3,32 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "../interfaces/IEntryPoint.sol";
-import "../interfaces/ITalismanGame.sol";
+import "../interfaces/PackedUserOperation.sol";
 
 /**
  * @title TalismanPaymaster
  * @dev Paymaster that sponsors gas for Talisman game transactions
- * Implements ERC-4337 paymaster interface
+ * Implements the ERC-4337 paymaster interface of EntryPoint v0.6 and v0.7
+ * Only calls to allowed (target, selector) pairs are sponsored, e.g. (game, startSession) or (token, approve)
+ * Alternatively an operation can carry a voucher from the verifying signer, which sponsors it regardless of the pairs:
+ * paymasterAndData = paymaster (20 bytes) | abi.encode(uint48 validUntil, uint48 validAfter) | signature (65 bytes)
+ * Players can also pay gas in the gas token (TLSM) at an owner-set rate, with no allowlist or daily limit:
+ * paymasterAndData = paymaster (20 bytes) | abi.encode(uint256 maxTokenCost)
+ * The worst-case token cost is pre-charged in validation and the difference refunded in postOp
+ * Under v0.7 the data follows the paymaster's gas limits instead of its address:
+ * paymasterAndData = paymaster (20 bytes) | verificationGasLimit (16 bytes) | postOpGasLimit (16 bytes) | data
  */
 contract TalismanPaymaster is Ownable, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
     /// @dev The EntryPoint contract
     IEntryPoint public immutable entryPoint;
 
-    /// @dev The game contract address
-    address public gameContract;
-
     /// @dev Maximum gas cost per user operation
     uint256 public maxCostPerUserOp;
 
@@ -30,14 +41,77 @@ contract TalismanPaymaster is Ownable, ReentrancyGuard {
     /// @dev Mapping of user to last reset timestamp
     mapping(address => uint256) public lastSponsorshipReset;
 
-    /// @dev Allowed function selectors for sponsorship
-    mapping(bytes4 => bool) public allowedSelectors;
+    /// @dev A sponsored call: a function selector on a target contract
+    struct AllowedCall {
+        address target;
+        bytes4 selector;
+    }
+
+    /// @dev Allowed (target, selector) pairs, enumerable for tooling
+    AllowedCall[] private _allowedCalls;
+
+    /// @dev 1-based position of each allowed pair in _allowedCalls (0 = not allowed)
+    mapping(address => mapping(bytes4 => uint256)) private _allowedCallIndex;
+
+    /// @dev Signer of sponsorship vouchers (zero disables vouchers)
+    address public verifyingSigner;
+
+    /// @dev Where the paymaster's data starts in a v0.6 paymasterAndData, after its address
+    uint256 private constant PAYMASTER_DATA_OFFSET = 20;
+
+    /// @dev Where it starts in a v0.7 paymasterAndData, after its address and gas limits
+    uint256 private constant PAYMASTER_DATA_OFFSET_V07 = 52;
+
+    /// @dev Where the voucher's signature starts in the paymaster's data, after its validity window
+    uint256 private constant SIGNATURE_OFFSET = 64;
+
+    /// @dev Token players can pay gas in (zero until configured)
+    IERC20 public gasToken;
+
+    /// @dev Gas token units charged per 1 ETH of gas (zero disables token gas)
+    uint256 public tokensPerEth;
+
+    /// @dev Paymaster data length when paying gas in the gas token
+    uint256 private constant TOKEN_PAYMENT_LENGTH = 32;
+
+    /// @dev Gas charged for postOp's refund, which the EntryPoint's actualGasCost doesn't include
+    uint256 public constant COST_OF_POST = 40000;
+
+    /// @dev How an operation's gas is paid, first field of the postOp context
+    enum GasPayment {
+        Sponsored,
+        Token
+    }
+
+    /// @dev The UserOperation fields validation reads, unpacked from either EntryPoint version
+    struct UserOpFields {
+        address sender;
+        uint256 nonce;
+        bytes32 initCodeHash;
+        bytes32 callDataHash;
+        uint256 callGasLimit;
+        uint256 verificationGasLimit;
+        uint256 preVerificationGas;
+        uint256 maxFeePerGas;
+        uint256 maxPriorityFeePerGas;
+        uint256 paymasterVerificationGasLimit;
+        uint256 paymasterPostOpGasLimit;
+    }
 
     /// @dev Emitted when gas is sponsored
     event GasSponsored(address indexed user, uint256 amount);
 
-    /// @dev Emitted when game contract is updated
-    event GameContractUpdated(address indexed newGameContract);
+    /// @dev Emitted when a (target, selector) pair is allowed or disallowed
+    event AllowedCallUpdated(address indexed target, bytes4 indexed selector, bool allowed);
+
+    /// @dev Emitted when the voucher signer is updated
+    event VerifyingSignerUpdated(address indexed signer);
+
+    /// @dev Emitted when an operation's gas is paid in the gas token
+    event GasPaidInToken(address indexed user, uint256 tokenAmount, uint256 gasCost);
+
+    /// @dev Emitted when the gas token or its rate is updated
+    event GasTokenUpdated(address indexed token, uint256 tokensPerEth);
 
     /// @dev Emitted when limits are updated
     event LimitsUpdated(uint256 maxCostPerUserOp, uint256 dailyLimitPerUser);
@@ -55,15 +129,13 @@ contract TalismanPaymaster is Ownable, ReentrancyGuard {
         entryPoint = entryPoint_;
         maxCostPerUserOp = 0.001 ether; // 0.001 ETH max per operation
         dailyLimitPerUser = 0.01 ether; // 0.01 ETH daily limit
-
-        // Allow game function selectors
-        allowedSelectors[ITalismanGame.startSession.selector] = true;
-        allowedSelectors[ITalismanGame.endSession.selector] = true;
-        allowedSelectors[ITalismanGame.claimRewards.selector] = true;
     }
 
     /**
-     * @dev Validate a paymaster user operation
+     * @dev Validate a paymaster user operation from an EntryPoint v0.6
+     * With a voucher, a bad signature is reported as sigFailed (not a revert) and the
+     * voucher's validity window is packed into validationData for the EntryPoint to enforce
+     * Paying in the gas token pre-charges the worst-case token cost from the sender
      * @param userOp The user operation
      * @param userOpHash The hash of the user operation
      * @param maxCost The maximum cost of the operation
@@ -80,30 +152,44 @@ contract TalismanPaymaster is Ownable, ReentrancyGuard {
         // Suppress unused variable warning
         userOpHash;
 
-        // Check max cost
-        require(maxCost <= maxCostPerUserOp, "TalismanPaymaster: cost too high");
-
-        // Check daily limit
-        address sender = userOp.sender;
-        _resetDailyLimitIfNeeded(sender);
-        require(
-            dailySponsorshipUsed[sender] + maxCost <= dailyLimitPerUser,
-            "TalismanPaymaster: daily limit exceeded"
+        return _validatePaymasterUserOp(
+            _unpack(userOp),
+            userOp.callData,
+            userOp.paymasterAndData[PAYMASTER_DATA_OFFSET:],
+            maxCost
         );
+    }
 
-        // Validate the call is to the game contract
-        require(_validateGameCall(userOp.callData), "TalismanPaymaster: invalid call");
+    /**
+     * @dev Validate a paymaster user operation from an EntryPoint v0.7
+     * Same checks as under v0.6, on the data after the paymaster's gas limits
+     * @param userOp The packed user operation
+     * @param userOpHash The hash of the user operation
+     * @param maxCost The maximum cost of the operation
+     * @return context Context to pass to postOp
+     * @return validationData Validation result
+     */
+    function validatePaymasterUserOp(
+        PackedUserOperation calldata userOp,
+        bytes32 userOpHash,
+        uint256 maxCost
+    ) external returns (bytes memory context, uint256 validationData) {
+        require(msg.sender == address(entryPoint), "TalismanPaymaster: not EntryPoint");
 
-        // Update sponsorship used
-        dailySponsorshipUsed[sender] += maxCost;
+        // Suppress unused variable warning
+        userOpHash;
 
-        // Return context with sender for postOp
-        context = abi.encode(sender, maxCost);
-        validationData = 0; // Valid
+        return _validatePaymasterUserOp(
+            _unpack(userOp),
+            userOp.callData,
+            userOp.paymasterAndData[PAYMASTER_DATA_OFFSET_V07:],
+            maxCost
+        );
     }
 
     /**
-     * @dev Post-operation handler
+     * @dev Post-operation handler of an EntryPoint v0.6
+     * Releases unused sponsorship allowance, or refunds the unused part of a token pre-charge
      * @param mode The post-op mode
      * @param context Context from validatePaymasterUserOp
      * @param actualGasCost The actual gas cost
@@ -114,19 +200,24 @@ contract TalismanPaymaster is Ownable, ReentrancyGuard {
         uint256 actualGasCost
     ) external {
         require(msg.sender == address(entryPoint), "TalismanPaymaster: not EntryPoint");
+        _postOp(mode, context, actualGasCost, _getTokenPaymentGasPrice(context));
+    }
 
-        // Suppress unused variable warning
-        mode;
-
-        (address sender, uint256 maxCost) = abi.decode(context, (address, uint256));
-
-        // Refund unused gas allocation
-        if (actualGasCost < maxCost) {
-            uint256 refund = maxCost - actualGasCost;
-            dailySponsorshipUsed[sender] -= refund;
-        }
-
-        emit GasSponsored(sender, actualGasCost);
+    /**
+     * @dev Post-operation handler of an EntryPoint v0.7
+     * @param mode The post-op mode
+     * @param context Context from validatePaymasterUserOp
+     * @param actualGasCost The actual gas cost
+     * @param actualUserOpFeePerGas The gas price the EntryPoint charged, which the token refund is priced at
+     */
+    function postOp(
+        PostOpMode mode,
+        bytes calldata context,
+        uint256 actualGasCost,
+        uint256 actualUserOpFeePerGas
+    ) external {
+        require(msg.sender == address(entryPoint), "TalismanPaymaster: not EntryPoint");
+        _postOp(mode, context, actualGasCost, actualUserOpFeePerGas);
     }
 
     /**
@@ -146,13 +237,33 @@ contract TalismanPaymaster is Ownable, ReentrancyGuard {
     }
 
     /**
-     * @dev Set the game contract address
-     * @param gameContract_ The new game contract address
+     * @dev Withdraw gas token payments
+     * @param to Address to withdraw to
+     * @param amount Amount to withdraw
+     */
+    function withdrawTokens(address to, uint256 amount) external onlyOwner {
+        gasToken.safeTransfer(to, amount);
+    }
+
+    /**
+     * @dev Set the token players can pay gas in and its exchange rate
+     * @param token The gas token
+     * @param tokensPerEth_ Token units charged per 1 ETH of gas (zero stops accepting token payments)
+     */
+    function setGasToken(IERC20 token, uint256 tokensPerEth_) external onlyOwner {
+        require(address(token) != address(0), "TalismanPaymaster: zero address");
+        gasToken = token;
+        tokensPerEth = tokensPerEth_;
+        emit GasTokenUpdated(address(token), tokensPerEth_);
+    }
+
+    /**
+     * @dev Set the signer of sponsorship vouchers
+     * @param signer The signer address (zero stops accepting vouchers)
      */
-    function setGameContract(address gameContract_) external onlyOwner {
-        require(gameContract_ != address(0), "TalismanPaymaster: zero address");
-        gameContract = gameContract_;
-        emit GameContractUpdated(gameContract_);
+    function setVerifyingSigner(address signer) external onlyOwner {
+        verifyingSigner = signer;
+        emit VerifyingSignerUpdated(signer);
     }
 
     /**
@@ -170,12 +281,128 @@ contract TalismanPaymaster is Ownable, ReentrancyGuard {
     }
 
     /**
-     * @dev Add or remove an allowed function selector
-     * @param selector The function selector
+     * @dev Allow or disallow sponsoring calls to some functions of a target contract
+     * @param target The contract called by the smart account
+     * @param selectors The function selectors on the target
      * @param allowed Whether to allow or disallow
      */
-    function setAllowedSelector(bytes4 selector, bool allowed) external onlyOwner {
-        allowedSelectors[selector] = allowed;
+    function setAllowedCalls(address target, bytes4[] calldata selectors, bool allowed) external onlyOwner {
+        require(target != address(0), "TalismanPaymaster: zero address");
+
+        for (uint256 i = 0; i < selectors.length; i++) {
+            bytes4 selector = selectors[i];
+            uint256 index = _allowedCallIndex[target][selector];
+            if (allowed == (index != 0)) continue;
+
+            if (allowed) {
+                _allowedCalls.push(AllowedCall(target, selector));
+                _allowedCallIndex[target][selector] = _allowedCalls.length;
+            } else {
+                // Swap and pop, keeping the moved pair's index current
+                AllowedCall memory last = _allowedCalls[_allowedCalls.length - 1];
+                _allowedCalls[index - 1] = last;
+                _allowedCallIndex[last.target][last.selector] = index;
+                _allowedCalls.pop();
+                delete _allowedCallIndex[target][selector];
+            }
+
+            emit AllowedCallUpdated(target, selector, allowed);
+        }
+    }
+
+    /**
+     * @dev Check whether calls to a function of a target contract are sponsored
+     * @param target The contract called by the smart account
+     * @param selector The function selector
+     */
+    function isAllowedCall(address target, bytes4 selector) public view returns (bool) {
+        return _allowedCallIndex[target][selector] != 0;
+    }
+
+    /**
+     * @dev Get every allowed (target, selector) pair
+     */
+    function getAllowedCalls() external view returns (AllowedCall[] memory) {
+        return _allowedCalls;
+    }
+
+    /**
+     * @dev Check whether a user operation would be sponsored, without spending any allowance
+     * Lets clients fall back to self-paid gas instead of sending an op the paymaster rejects
+     * @param sender The smart account
+     * @param callData The user operation's callData
+     * @param maxCost The user operation's maximum gas cost
+     * @return sponsored Whether validatePaymasterUserOp would accept the operation
+     * @return reason The revert reason when it would not
+     */
+    function checkSponsorship(
+        address sender,
+        bytes calldata callData,
+        uint256 maxCost
+    ) external view returns (bool sponsored, string memory reason) {
+        reason = _checkSponsorship(sender, callData, maxCost);
+        sponsored = bytes(reason).length == 0;
+    }
+
+    /**
+     * @dev Convert a gas cost to the gas token, rounding up
+     * Includes COST_OF_POST at the given gas price, as the pre-charge and final charge do
+     * @param gasCost Gas cost in wei
+     * @param gasPrice Gas price the postOp overhead is charged at
+     */
+    function getTokenCost(uint256 gasCost, uint256 gasPrice) public view returns (uint256) {
+        require(tokensPerEth != 0, "TalismanPaymaster: token gas disabled");
+        return Math.mulDiv(gasCost + COST_OF_POST * gasPrice, tokensPerEth, 1 ether, Math.Rounding.Up);
+    }
+
+    /**
+     * @dev Check whether a user operation could pay its gas in the gas token
+     * @param sender The smart account
+     * @param maxCost The user operation's maximum gas cost
+     * @param maxFeePerGas The user operation's maxFeePerGas
+     * @return tokenCost The token amount pre-charged in validation (the maxTokenCost to put in paymasterAndData)
+     * @return reason Why validatePaymasterUserOp would reject the payment (empty if it would not)
+     */
+    function checkTokenPayment(
+        address sender,
+        uint256 maxCost,
+        uint256 maxFeePerGas
+    ) external view returns (uint256 tokenCost, string memory reason) {
+        if (tokensPerEth == 0) return (0, "TalismanPaymaster: token gas disabled");
+
+        tokenCost = getTokenCost(maxCost, maxFeePerGas);
+        if (gasToken.allowance(sender, address(this)) < tokenCost) {
+            reason = "TalismanPaymaster: insufficient token allowance";
+        } else if (gasToken.balanceOf(sender) < tokenCost) {
+            reason = "TalismanPaymaster: insufficient token balance";
+        }
+    }
+
+    /**
+     * @dev Hash signed (as an Ethereum signed message) by the verifying signer for a voucher
+     * Covers every UserOperation field except paymasterAndData and signature, plus the chain and this paymaster
+     * Under v0.7 it also covers the paymaster's gas limits from paymasterAndData, zero under v0.6
+     * @param userOp The user operation
+     * @param validUntil Last timestamp the voucher is valid (0 = no expiry)
+     * @param validAfter First timestamp the voucher is valid
+     */
+    function getVoucherHash(
+        IEntryPoint.UserOperation calldata userOp,
+        uint48 validUntil,
+        uint48 validAfter
+    ) public view returns (bytes32) {
+        return _getVoucherHash(_unpack(userOp), validUntil, validAfter);
+    }
+
+    /**
+     * @dev Split a voucher out of a v0.6 paymasterAndData
+     * @param paymasterAndData The user operation's paymasterAndData
+     */
+    function parseVoucher(
+        bytes calldata paymasterAndData
+    ) public pure returns (uint48 validUntil, uint48 validAfter, bytes calldata signature) {
+        require(paymasterAndData.length >= PAYMASTER_DATA_OFFSET, "TalismanPaymaster: invalid voucher");
+        return _parseVoucher(paymasterAndData[PAYMASTER_DATA_OFFSET:]);
     }
 
     /**
@@ -188,6 +415,7 @@ contract TalismanPaymaster is Ownable, ReentrancyGuard {
 
     /**
      * @dev Get remaining daily allowance for a user
+     * Zero when the daily limit was lowered below what the user already used today
      * @param user The user address
      * @return The remaining allowance
      */
@@ -195,35 +423,303 @@ contract TalismanPaymaster is Ownable, ReentrancyGuard {
         if (_shouldResetDailyLimit(user)) {
             return dailyLimitPerUser;
         }
-        return dailyLimitPerUser - dailySponsorshipUsed[user];
+        uint256 used = dailySponsorshipUsed[user];
+        return used >= dailyLimitPerUser ? 0 : dailyLimitPerUser - used;
+    }
+
+    /**
+     * @dev Validate an operation from either EntryPoint version
+     * The paymaster's data selects the payment: none for the allowlist, a voucher, or a token payment
+     */
+    function _validatePaymasterUserOp(
+        UserOpFields memory userOp,
+        bytes calldata callData,
+        bytes calldata paymasterData,
+        uint256 maxCost
+    ) internal returns (bytes memory context, uint256 validationData) {
+        address sender = userOp.sender;
+        if (paymasterData.length == TOKEN_PAYMENT_LENGTH) {
+            return (_chargeTokenPayment(userOp, paymasterData, maxCost), 0);
+        }
+
+        _resetDailyLimitIfNeeded(sender);
+
+        if (paymasterData.length > 0) {
+            // Voucher: the signer vouches for the calls, cost and daily limit still apply
+            string memory limitReason = _checkLimits(sender, maxCost);
+            require(bytes(limitReason).length == 0, limitReason);
+            validationData = _validateVoucher(userOp, paymasterData);
+        } else {
+            // Check cost, daily limit and that every call is an allowed pair
+            string memory reason = _checkSponsorship(sender, callData, maxCost);
+            require(bytes(reason).length == 0, reason);
+        }
+
+        // Update sponsorship used
+        dailySponsorshipUsed[sender] += maxCost;
+
+        // Return context with sender for postOp
+        context = abi.encode(GasPayment.Sponsored, sender, maxCost);
     }
 
     /**
-     * @dev Validate that the call is a valid game call
+     * @dev Settle an operation for either EntryPoint version
+     * @param gasPrice Gas price the EntryPoint charged, for pricing a token payment's postOp overhead
      */
-    function _validateGameCall(bytes calldata callData) internal view returns (bool) {
+    function _postOp(PostOpMode mode, bytes calldata context, uint256 actualGasCost, uint256 gasPrice) internal {
+        if (abi.decode(context[:32], (GasPayment)) == GasPayment.Token) {
+            _refundTokenPayment(mode, context, actualGasCost, gasPrice);
+            return;
+        }
+
+        (, address sender, uint256 maxCost) = abi.decode(context, (GasPayment, address, uint256));
+
+        // Refund unused gas allocation
+        if (actualGasCost < maxCost) {
+            uint256 refund = maxCost - actualGasCost;
+            dailySponsorshipUsed[sender] -= refund;
+        }
+
+        emit GasSponsored(sender, actualGasCost);
+    }
+
+    /**
+     * @dev Fields of a v0.6 user operation
+     */
+    function _unpack(IEntryPoint.UserOperation calldata userOp) internal pure returns (UserOpFields memory) {
+        return UserOpFields({
+            sender: userOp.sender,
+            nonce: userOp.nonce,
+            initCodeHash: keccak256(userOp.initCode),
+            callDataHash: keccak256(userOp.callData),
+            callGasLimit: userOp.callGasLimit,
+            verificationGasLimit: userOp.verificationGasLimit,
+            preVerificationGas: userOp.preVerificationGas,
+            maxFeePerGas: userOp.maxFeePerGas,
+            maxPriorityFeePerGas: userOp.maxPriorityFeePerGas,
+            paymasterVerificationGasLimit: 0,
+            paymasterPostOpGasLimit: 0
+        });
+    }
+
+    /**
+     * @dev Fields of a v0.7 user operation, with its gas limits and fees unpacked
+     * The EntryPoint only calls the paymaster when paymasterAndData holds its address and gas limits
+     */
+    function _unpack(PackedUserOperation calldata userOp) internal pure returns (UserOpFields memory) {
+        uint256 accountGasLimits = uint256(userOp.accountGasLimits);
+        uint256 gasFees = uint256(userOp.gasFees);
+        return UserOpFields({
+            sender: userOp.sender,
+            nonce: userOp.nonce,
+            initCodeHash: keccak256(userOp.initCode),
+            callDataHash: keccak256(userOp.callData),
+            callGasLimit: uint128(accountGasLimits),
+            verificationGasLimit: accountGasLimits >> 128,
+            preVerificationGas: userOp.preVerificationGas,
+            maxFeePerGas: uint128(gasFees),
+            maxPriorityFeePerGas: gasFees >> 128,
+            paymasterVerificationGasLimit: uint128(bytes16(userOp.paymasterAndData[20:36])),
+            paymasterPostOpGasLimit: uint128(bytes16(userOp.paymasterAndData[36:PAYMASTER_DATA_OFFSET_V07]))
+        });
+    }
+
+    /**
+     * @dev Voucher hash over the unpacked fields, the same for both EntryPoint versions
+     * (v0.6 operations have no paymaster gas limits, so theirs are zero)
+     */
+    function _getVoucherHash(
+        UserOpFields memory userOp,
+        uint48 validUntil,
+        uint48 validAfter
+    ) internal view returns (bytes32) {
+        return keccak256(
+            abi.encode(
+                userOp.sender,
+                userOp.nonce,
+                userOp.initCodeHash,
+                userOp.callDataHash,
+                userOp.callGasLimit,
+                userOp.verificationGasLimit,
+                userOp.preVerificationGas,
+                userOp.maxFeePerGas,
+                userOp.maxPriorityFeePerGas,
+                userOp.paymasterVerificationGasLimit,
+                userOp.paymasterPostOpGasLimit,
+                block.chainid,
+                address(this),
+                validUntil,
+                validAfter
+            )
+        );
+    }
+
+    /**
+     * @dev Split a voucher out of the paymaster's data
+     */
+    function _parseVoucher(
+        bytes calldata paymasterData
+    ) internal pure returns (uint48 validUntil, uint48 validAfter, bytes calldata signature) {
+        require(paymasterData.length >= SIGNATURE_OFFSET, "TalismanPaymaster: invalid voucher");
+        (validUntil, validAfter) = abi.decode(paymasterData[:SIGNATURE_OFFSET], (uint48, uint48));
+        signature = paymasterData[SIGNATURE_OFFSET:];
+    }
+
+    /**
+     * @dev Get why a user operation would not be sponsored (empty if it would be)
+     */
+    function _checkSponsorship(
+        address sender,
+        bytes calldata callData,
+        uint256 maxCost
+    ) internal view returns (string memory) {
+        string memory reason = _checkLimits(sender, maxCost);
+        if (bytes(reason).length != 0) return reason;
+
+        if (!_validateCalls(callData)) return "TalismanPaymaster: invalid call";
+        return "";
+    }
+
+    /**
+     * @dev Get why an operation's cost is over the per-operation cap or the sender's daily limit
+     */
+    function _checkLimits(address sender, uint256 maxCost) internal view returns (string memory) {
+        if (maxCost > maxCostPerUserOp) return "TalismanPaymaster: cost too high";
+
+        uint256 used = _shouldResetDailyLimit(sender) ? 0 : dailySponsorshipUsed[sender];
+        if (used + maxCost > dailyLimitPerUser) return "TalismanPaymaster: daily limit exceeded";
+        return "";
+    }
+
+    /**
+     * @dev Pre-charge the worst-case token cost of an operation
+     * The rate goes into the context so postOp charges at the same rate, and the fees for a v0.6 postOp's gas price
+     */
+    function _chargeTokenPayment(
+        UserOpFields memory userOp,
+        bytes calldata paymasterData,
+        uint256 maxCost
+    ) internal returns (bytes memory context) {
+        uint256 maxTokenCost = abi.decode(paymasterData, (uint256));
+        uint256 tokenCost = getTokenCost(maxCost, userOp.maxFeePerGas);
+        require(tokenCost <= maxTokenCost, "TalismanPaymaster: token cost too high");
+
+        gasToken.safeTransferFrom(userOp.sender, address(this), tokenCost);
+
+        context = abi.encode(
+            GasPayment.Token,
+            userOp.sender,
+            tokenCost,
+            tokensPerEth,
+            userOp.maxFeePerGas,
+            userOp.maxPriorityFeePerGas
+        );
+    }
+
+    /**
+     * @dev Gas price a v0.6 EntryPoint charges a token payment, from the fees in its context
+     * v0.6 doesn't pass the gas price to postOp; sponsored operations don't need one
+     */
+    function _getTokenPaymentGasPrice(bytes calldata context) internal view returns (uint256) {
+        if (abi.decode(context[:32], (GasPayment)) != GasPayment.Token) return 0;
+
+        (, , , , uint256 maxFeePerGas, uint256 maxPriorityFeePerGas) = abi.decode(
+            context,
+            (GasPayment, address, uint256, uint256, uint256, uint256)
+        );
+        return Math.min(maxFeePerGas, maxPriorityFeePerGas + block.basefee);
+    }
+
+    /**
+     * @dev Charge the actual gas cost in tokens and refund the rest of the pre-charge
+     */
+    function _refundTokenPayment(
+        PostOpMode mode,
+        bytes calldata context,
+        uint256 actualGasCost,
+        uint256 gasPrice
+    ) internal {
+        (, address sender, uint256 tokenCharged, uint256 rate) = abi.decode(
+            context[:128],
+            (GasPayment, address, uint256, uint256)
+        );
+
+        uint256 tokenCost = Math.min(
+            Math.mulDiv(actualGasCost + COST_OF_POST * gasPrice, rate, 1 ether, Math.Rounding.Up),
+            tokenCharged
+        );
+
+        // If the refund itself made postOp revert, keep the whole pre-charge
+        if (mode != PostOpMode.postOpReverted && tokenCost < tokenCharged) {
+            gasToken.safeTransfer(sender, tokenCharged - tokenCost);
+        } else {
+            tokenCost = tokenCharged;
+        }
+
+        emit GasPaidInToken(sender, tokenCost, actualGasCost);
+    }
+
+    /**
+     * @dev Check the voucher in the paymaster's data and pack the ERC-4337 validationData
+     * Layout: sigFailed (bit 0) | validUntil (bits 160-207) | validAfter (bits 208-255)
+     */
+    function _validateVoucher(
+        UserOpFields memory userOp,
+        bytes calldata paymasterData
+    ) internal view returns (uint256) {
+        require(verifyingSigner != address(0), "TalismanPaymaster: vouchers disabled");
+        (uint48 validUntil, uint48 validAfter, bytes calldata signature) = _parseVoucher(paymasterData);
+        require(signature.length == 65, "TalismanPaymaster: invalid voucher");
+
+        bytes32 hash = ECDSA.toEthSignedMessageHash(_getVoucherHash(userOp, validUntil, validAfter));
+        (address signer, ECDSA.RecoverError error) = ECDSA.tryRecover(hash, signature);
+        uint256 sigFailed = error == ECDSA.RecoverError.NoError && signer == verifyingSigner ? 0 : 1;
+
+        return sigFailed | (uint256(validUntil) << 160) | (uint256(validAfter) << 208);
+    }
+
+    /**
+     * @dev Validate that every call made by the smart account is an allowed pair
+     */
+    function _validateCalls(bytes calldata callData) internal view returns (bool) {
         if (callData.length < 4) return false;
+        bytes4 accountSelector = bytes4(callData[:4]);
 
-        // Decode the execute call to get the actual target and function
         // Format: execute(address dest, uint256 value, bytes calldata func)
-        if (bytes4(callData[:4]) == bytes4(keccak256("execute(address,uint256,bytes)"))) {
+        if (accountSelector == bytes4(keccak256("execute(address,uint256,bytes)"))) {
             (address dest, , bytes memory func) = abi.decode(callData[4:], (address, uint256, bytes));
+            return _isAllowedFunc(dest, func);
+        }
 
-            // Check destination is game contract
-            if (dest != gameContract) return false;
+        // Format: executeBatch(address[] dest, uint256[] value, bytes[] func)
+        if (accountSelector == bytes4(keccak256("executeBatch(address[],uint256[],bytes[])"))) {
+            (address[] memory dests, , bytes[] memory funcs) = abi.decode(
+                callData[4:],
+                (address[], uint256[], bytes[])
+            );
+            if (dests.length == 0 || dests.length != funcs.length) return false;
 
-            // Check function selector is allowed
-            if (func.length < 4) return false;
-            bytes4 selector;
-            assembly {
-                selector := mload(add(func, 32))
+            for (uint256 i = 0; i < dests.length; i++) {
+                if (!_isAllowedFunc(dests[i], funcs[i])) return false;
             }
-            return allowedSelectors[selector];
+            return true;
         }
 
         return false;
     }
 
+    /**
+     * @dev Check a single inner call against the allowed pairs
+     */
+    function _isAllowedFunc(address dest, bytes memory func) internal view returns (bool) {
+        if (func.length < 4) return false;
+        bytes4 selector;
+        assembly {
+            selector := mload(add(func, 32))
+        }
+        return isAllowedCall(dest, selector);
+    }
+
     /**
      * @dev Reset daily limit if needed
      */
@@ -3,17 +3,29 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Burnable.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/security/Pausable.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
 import "../interfaces/ITalismanGame.sol";
 
 /**
  * @title TalismanGame
  * @dev Core game contract for Talisman
  * Handles game sessions, timer-based rewards, and linear vesting
+ * Every session's reward vests as its own tranche, independently of later sessions
+ * Tranches copy the vesting curve (cliff, step unlocks, instant unlock) in force when they are created
+ * Unvested tokens can be unlocked early for a penalty that shrinks as each tranche vests
+ * Talisman counts can be attested by an off-chain score verifier (EIP-712)
+ * Each session records its game mode, and each mode has its own reward multiplier
+ * Ended sessions are kept in an append-only per-player history
+ * Each active session reserves its worst-case reward, so ending sessions can never outrun the pool
+ * Abandoned sessions expire after a timeout and can then be settled by anyone, or forfeited by the player
+ * Daily quest bonuses are attested by the score verifier and vest like session rewards
  */
-contract TalismanGame is ITalismanGame, ReentrancyGuard, Pausable, Ownable {
+contract TalismanGame is ITalismanGame, EIP712, ReentrancyGuard, Pausable, Ownable {
     using SafeERC20 for IERC20;
 
     /// @dev The TLSM token contract
@@ -31,27 +43,82 @@ contract TalismanGame is ITalismanGame, ReentrancyGuard, Pausable, Ownable {
     /// @dev Minimum session duration (in seconds)
     uint256 public minSessionDuration;
 
+    /// @dev Time after its start when an active session expires and can be settled by anyone (in seconds)
+    uint256 public sessionTimeout;
+
     /// @dev Vesting duration for rewards (in seconds)
     uint256 public vestingDuration;
 
+    /// @dev Time before the linear part of a tranche starts unlocking (in seconds)
+    uint256 public vestingCliff;
+
+    /// @dev Interval of step unlocks (in seconds, zero = continuous)
+    uint256 public vestingStepDuration;
+
+    /// @dev Percent of each tranche unlocked immediately (10 = 10%)
+    uint256 public instantUnlockPercent;
+
+    /// @dev Penalty on unvested tokens unlocked at a tranche's start (50 = 50%), falling linearly to zero at its end
+    uint256 public earlyUnlockPenaltyPercent;
+
+    /// @dev Whether early-unlock penalties are burned (true) or returned to the reward pool (false)
+    bool public burnEarlyUnlockPenalty;
+
     /// @dev Total unclaimed rewards across all players
     uint256 public totalUnclaimedRewards;
 
+    /// @dev Total worst-case rewards reserved for active sessions
+    uint256 public totalReservedRewards;
+
     /// @dev Bonus percent per talisman collected (10 = 10%)
     uint256 public constant TALISMAN_BONUS_PERCENT = 10;
 
     /// @dev Maximum bonus from talismans (200 = 200% bonus = 3x total)
     uint256 public constant MAX_TALISMAN_BONUS = 200;
 
+    /// @dev EIP-712 typehash of the verifier's session attestation
+    bytes32 public constant SESSION_RESULT_TYPEHASH = keccak256(
+        "SessionResult(address player,uint64 sessionStart,uint256 talismansCollected,uint256 deadline)"
+    );
+
+    /// @dev EIP-712 typehash of the verifier's daily quest attestation
+    bytes32 public constant QUEST_COMPLETION_TYPEHASH = keccak256(
+        "QuestCompletion(address player,uint64 day,bytes32 questId,uint256 reward,uint256 deadline)"
+    );
+
+    /// @dev Signer of talisman and quest attestations (zero = client-reported counts are trusted)
+    address public scoreVerifier;
+
+    /// @dev Largest bonus a single quest may pay (in TLSM wei)
+    uint256 public maxQuestBonus;
+
+    /// @dev Upper bound for a game mode's reward multiplier (300 = 3x)
+    uint256 public constant MAX_MODE_MULTIPLIER = 300;
+
+    /// @dev Reward multiplier per game mode (100 = 1x)
+    mapping(GameMode => uint256) public modeRewardMultiplier;
+
     /// @dev Mapping of player to their current session
     mapping(address => GameSession) private _sessions;
 
-    /// @dev Mapping of player to their vesting schedule
-    mapping(address => VestingSchedule) private _vestingSchedules;
+    /// @dev Mapping of player to their vesting tranches, one per rewarded session
+    mapping(address => VestingSchedule[]) private _vestingTranches;
+
+    /// @dev Mapping of player to the index of their oldest tranche with unclaimed tokens
+    mapping(address => uint256) private _firstOpenTranche;
 
     /// @dev Mapping of player to their retry attempt count in current session
     mapping(address => uint256) private _attemptCounts;
 
+    /// @dev Mapping of player to their ended sessions; the session id is the index
+    mapping(address => SessionRecord[]) private _sessionHistory;
+
+    /// @dev Mapping of player to the reward reserved for their active session
+    mapping(address => uint256) private _reservedRewards;
+
+    /// @dev Mapping of player to UTC day to quest id to whether its bonus was paid
+    mapping(address => mapping(uint64 => mapping(bytes32 => bool))) private _questClaimed;
+
     /**
      * @dev Constructor
      * @param tlsmToken_ The TLSM token contract address
@@ -60,7 +127,7 @@ contract TalismanGame is ITalismanGame, ReentrancyGuard, Pausable, Ownable {
     constructor(
         address tlsmToken_,
         address initialOwner
-    ) {
+    ) EIP712("TalismanGame", "1") {
         _transferOwnership(initialOwner);
         require(tlsmToken_ != address(0), "TalismanGame: zero token address");
 
@@ -71,20 +138,28 @@ contract TalismanGame is ITalismanGame, ReentrancyGuard, Pausable, Ownable {
         rewardRatePerSecond = uint256(1e18) / 60; // ~1 TLSM per minute
         maxSessionDuration = 1 hours;
         minSessionDuration = 60; // 1 minute minimum
+        sessionTimeout = 2 hours;
+        maxQuestBonus = 10 * 1e18; // 10 TLSM
         vestingDuration = 7 days;
+        earlyUnlockPenaltyPercent = 50;
+        burnEarlyUnlockPenalty = true;
+        modeRewardMultiplier[GameMode.Dash] = 100;
+        modeRewardMultiplier[GameMode.Search] = 100;
     }
 
     /**
      * @dev Start a new game session
      * Player must have approved sessionCost TLSM tokens
+     * @param gameMode The game played in this session
      */
-    function startSession() external override nonReentrant whenNotPaused {
+    function startSession(GameMode gameMode) external override nonReentrant whenNotPaused {
         require(!_sessions[msg.sender].isActive, "TalismanGame: session already active");
 
-        // Check reward pool has capacity for max potential reward
-        uint256 maxPotentialReward = maxSessionDuration * rewardRatePerSecond;
-        uint256 availableRewards = tlsmToken.balanceOf(address(this)) - totalUnclaimedRewards;
-        require(availableRewards >= maxPotentialReward, "TalismanGame: insufficient reward pool");
+        // Reserve the max potential reward (full duration, max talisman bonus)
+        uint256 maxPotentialReward = _maxPotentialReward(gameMode);
+        require(availableRewards() >= maxPotentialReward, "TalismanGame: insufficient reward pool");
+        _reservedRewards[msg.sender] = maxPotentialReward;
+        totalReservedRewards += maxPotentialReward;
 
         // Transfer session cost from player
         tlsmToken.safeTransferFrom(msg.sender, address(this), sessionCost);
@@ -95,60 +170,144 @@ contract TalismanGame is ITalismanGame, ReentrancyGuard, Pausable, Ownable {
             endTime: 0,
             rewardEarned: 0,
             talismansCollected: 0,
-            isActive: true
+            isActive: true,
+            gameMode: gameMode
         });
 
         // Initialize attempt count
         _attemptCounts[msg.sender] = 1;
 
-        emit SessionStarted(msg.sender, block.timestamp);
+        emit SessionStarted(msg.sender, block.timestamp, gameMode);
     }
 
     /**
      * @dev End the current game session
      * Calculates reward based on session duration and talisman bonus, adds to vesting
+     * Once a score verifier is set, talisman bonuses require endSessionWithProof;
+     * Search sessions have no replay to verify, so they then earn no talisman bonus
      * @param talismansCollected Number of talismans collected during the session
      */
     function endSession(uint256 talismansCollected) external override nonReentrant whenNotPaused {
+        require(scoreVerifier == address(0) || talismansCollected == 0, "TalismanGame: proof required");
+        _endSession(msg.sender, talismansCollected);
+    }
+
+    /**
+     * @dev End the current game session with a talisman count attested by the score verifier
+     * @param talismansCollected Verified number of talismans collected during the session
+     * @param deadline Timestamp after which the attestation expires
+     * @param signature Verifier's EIP-712 signature over the SessionResult
+     */
+    function endSessionWithProof(
+        uint256 talismansCollected,
+        uint256 deadline,
+        bytes calldata signature
+    ) external override nonReentrant whenNotPaused {
+        require(scoreVerifier != address(0), "TalismanGame: no score verifier");
+        require(block.timestamp <= deadline, "TalismanGame: proof expired");
+        require(_sessions[msg.sender].gameMode == GameMode.Dash, "TalismanGame: mode not verifiable");
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                SESSION_RESULT_TYPEHASH,
+                msg.sender,
+                _sessions[msg.sender].startTime,
+                talismansCollected,
+                deadline
+            )
+        );
+        address signer = ECDSA.recover(_hashTypedDataV4(structHash), signature);
+        require(signer == scoreVerifier, "TalismanGame: invalid proof");
+
+        _endSession(msg.sender, talismansCollected);
+    }
+
+    /**
+     * @dev Settle an expired session at its capped duration with zero talismans
+     * Callable by anyone (e.g. a keeper) so abandoned sessions do not stay active forever
+     * @param player The player whose session expired
+     */
+    function settleExpiredSession(address player) external override nonReentrant whenNotPaused {
+        require(isSessionExpired(player), "TalismanGame: session not expired");
+        _endSession(player, 0);
+        emit SessionSettled(player, msg.sender);
+    }
+
+    /**
+     * @dev Give up the current session without a reward
+     * Works at any time, including before the minimum duration
+     */
+    function forfeitSession() external override nonReentrant whenNotPaused {
         GameSession storage session = _sessions[msg.sender];
         require(session.isActive, "TalismanGame: no active session");
-        require(
-            block.timestamp >= session.startTime + minSessionDuration,
-            "TalismanGame: session too short"
-        );
 
-        // Calculate session duration (capped at max)
         uint256 duration = block.timestamp - session.startTime;
         if (duration > maxSessionDuration) {
             duration = maxSessionDuration;
         }
+        _closeSession(msg.sender, duration, 0, 0, 100);
 
-        // Calculate base reward
-        uint256 baseReward = duration * rewardRatePerSecond;
-
-        // Calculate multiplier (10% per talisman, capped at 200% bonus = 3x max)
-        uint256 bonusPercent = talismansCollected * TALISMAN_BONUS_PERCENT;
-        if (bonusPercent > MAX_TALISMAN_BONUS) {
-            bonusPercent = MAX_TALISMAN_BONUS;
-        }
-        uint256 multiplier = 100 + bonusPercent; // 100 = 1x, 200 = 2x, 300 = 3x
+        emit SessionForfeited(msg.sender, duration);
+    }
 
-        // Calculate final reward with multiplier
-        uint256 reward = (baseReward * multiplier) / 100;
+    /**
+     * @dev Check whether a player's active session is past the session timeout
+     * @param player The player address
+     * @return True if the session can be settled by anyone
+     */
+    function isSessionExpired(address player) public view override returns (bool) {
+        GameSession storage session = _sessions[player];
+        return session.isActive && block.timestamp >= session.startTime + sessionTimeout;
+    }
 
-        // Update session
-        session.endTime = uint64(block.timestamp);
-        session.rewardEarned = uint128(reward);
-        session.talismansCollected = uint32(talismansCollected);
-        session.isActive = false;
+    /**
+     * @dev Claim the bonus of a completed daily quest, attested by the score verifier
+     * The bonus vests as its own tranche, like a session reward
+     * @param day UTC day number of the quest (timestamp / 1 days)
+     * @param questId Id of the quest
+     * @param reward Bonus amount
+     * @param deadline Timestamp after which the attestation expires
+     * @param signature Verifier's EIP-712 signature over the QuestCompletion
+     */
+    function claimQuestBonus(
+        uint64 day,
+        bytes32 questId,
+        uint256 reward,
+        uint256 deadline,
+        bytes calldata signature
+    ) external override nonReentrant whenNotPaused {
+        require(scoreVerifier != address(0), "TalismanGame: no score verifier");
+        require(block.timestamp <= deadline, "TalismanGame: proof expired");
+        require(!_questClaimed[msg.sender][day][questId], "TalismanGame: quest already claimed");
+        require(reward > 0 && reward <= maxQuestBonus, "TalismanGame: invalid quest bonus");
+        require(availableRewards() >= reward, "TalismanGame: insufficient reward pool");
+
+        bytes32 structHash = keccak256(
+            abi.encode(QUEST_COMPLETION_TYPEHASH, msg.sender, day, questId, reward, deadline)
+        );
+        address signer = ECDSA.recover(_hashTypedDataV4(structHash), signature);
+        require(signer == scoreVerifier, "TalismanGame: invalid proof");
 
-        // Update vesting schedule
+        _questClaimed[msg.sender][day][questId] = true;
         _addToVesting(msg.sender, reward);
-
-        // Track total unclaimed
         totalUnclaimedRewards += reward;
 
-        emit SessionEnded(msg.sender, duration, reward, talismansCollected, multiplier);
+        emit QuestBonusClaimed(msg.sender, day, questId, reward);
+    }
+
+    /**
+     * @dev Check whether a player was paid a quest's bonus
+     * @param player The player address
+     * @param day UTC day number of the quest
+     * @param questId Id of the quest
+     * @return True if the bonus was claimed
+     */
+    function isQuestClaimed(
+        address player,
+        uint64 day,
+        bytes32 questId
+    ) external view override returns (bool) {
+        return _questClaimed[player][day][questId];
     }
 
     /**
@@ -178,14 +337,77 @@ contract TalismanGame is ITalismanGame, ReentrancyGuard, Pausable, Ownable {
     }
 
     /**
-     * @dev Claim vested rewards
+     * @dev Get the number of ended sessions in a player's history
+     * @param player The player address
+     * @return The session count
+     */
+    function getSessionCount(address player) external view override returns (uint256) {
+        return _sessionHistory[player].length;
+    }
+
+    /**
+     * @dev Get one ended session of a player
+     * @param player The player address
+     * @param sessionId Index of the session in the player's history
+     * @return The session record
+     */
+    function getSessionRecord(
+        address player,
+        uint256 sessionId
+    ) external view override returns (SessionRecord memory) {
+        require(sessionId < _sessionHistory[player].length, "TalismanGame: unknown session");
+        return _sessionHistory[player][sessionId];
+    }
+
+    /**
+     * @dev Get a page of a player's ended sessions, oldest first
+     * @param player The player address
+     * @param offset Id of the first session to return
+     * @param limit Maximum number of sessions to return
+     * @return records The session records (shorter than limit at the end of the history)
+     */
+    function getSessionHistory(
+        address player,
+        uint256 offset,
+        uint256 limit
+    ) external view override returns (SessionRecord[] memory records) {
+        SessionRecord[] storage history = _sessionHistory[player];
+        if (offset >= history.length) return new SessionRecord[](0);
+
+        uint256 end = offset + limit;
+        if (end > history.length) {
+            end = history.length;
+        }
+
+        records = new SessionRecord[](end - offset);
+        for (uint256 i = 0; i < records.length; i++) {
+            records[i] = history[offset + i];
+        }
+    }
+
+    /**
+     * @dev Claim vested rewards from every tranche
      */
     function claimRewards() external override nonReentrant whenNotPaused {
-        uint256 claimable = getClaimableAmount(msg.sender);
+        VestingSchedule[] storage tranches = _vestingTranches[msg.sender];
+        uint256 first = _firstOpenTranche[msg.sender];
+        uint256 claimable = 0;
+
+        for (uint256 i = first; i < tranches.length; i++) {
+            VestingSchedule storage tranche = tranches[i];
+            uint256 amount = _vestedAmount(tranche) - tranche.claimedAmount;
+            if (amount == 0) continue;
+
+            tranche.claimedAmount += uint128(amount);
+            claimable += amount;
+        }
         require(claimable > 0, "TalismanGame: nothing to claim");
 
-        VestingSchedule storage schedule = _vestingSchedules[msg.sender];
-        schedule.claimedAmount += uint128(claimable);
+        // Skip fully drained tranches on later claims
+        while (first < tranches.length && tranches[first].claimedAmount == tranches[first].totalAmount) {
+            first++;
+        }
+        _firstOpenTranche[msg.sender] = first;
 
         // Update total unclaimed
         totalUnclaimedRewards -= claimable;
@@ -197,34 +419,125 @@ contract TalismanGame is ITalismanGame, ReentrancyGuard, Pausable, Ownable {
     }
 
     /**
-     * @dev Get the claimable amount for a player
+     * @dev Claim everything, unlocking unvested tokens early for a penalty
+     * Drains every tranche; the penalty is burned or returned to the reward pool
+     * @param maxPenalty Highest penalty the player accepts (from previewEarlyClaim)
+     */
+    function earlyClaim(uint256 maxPenalty) external override nonReentrant whenNotPaused {
+        (uint256 amount, uint256 penalty) = previewEarlyClaim(msg.sender);
+        require(amount + penalty > 0, "TalismanGame: nothing to claim");
+        require(penalty <= maxPenalty, "TalismanGame: penalty above limit");
+
+        VestingSchedule[] storage tranches = _vestingTranches[msg.sender];
+        for (uint256 i = _firstOpenTranche[msg.sender]; i < tranches.length; i++) {
+            tranches[i].claimedAmount = tranches[i].totalAmount;
+        }
+        _firstOpenTranche[msg.sender] = tranches.length;
+
+        // Update total unclaimed; a returned penalty becomes available rewards again
+        totalUnclaimedRewards -= amount + penalty;
+
+        if (penalty > 0 && burnEarlyUnlockPenalty) {
+            ERC20Burnable(address(tlsmToken)).burn(penalty);
+        }
+
+        // Transfer tokens
+        tlsmToken.safeTransfer(msg.sender, amount);
+
+        emit EarlyClaimed(msg.sender, amount, penalty, burnEarlyUnlockPenalty);
+    }
+
+    /**
+     * @dev Preview an early claim at the current block time
      * @param player The player address
-     * @return The claimable amount
+     * @return amount Tokens the player would receive
+     * @return penalty Tokens the player would forfeit
      */
-    function getClaimableAmount(address player) public view override returns (uint256) {
-        VestingSchedule storage schedule = _vestingSchedules[player];
+    function previewEarlyClaim(
+        address player
+    ) public view override returns (uint256 amount, uint256 penalty) {
+        VestingSchedule[] storage tranches = _vestingTranches[player];
+        for (uint256 i = _firstOpenTranche[player]; i < tranches.length; i++) {
+            VestingSchedule storage tranche = tranches[i];
+            uint256 vested = _vestedAmount(tranche);
+            uint256 unvested = tranche.totalAmount - vested;
+            uint256 tranchePenalty = _earlyUnlockPenalty(tranche, unvested);
+
+            amount += vested - tranche.claimedAmount + unvested - tranchePenalty;
+            penalty += tranchePenalty;
+        }
+    }
 
-        if (schedule.totalAmount == 0) return 0;
-        if (schedule.duration == 0) return 0;
+    /**
+     * @dev Tokens in the pool that are neither owed to players nor reserved for active sessions
+     * @return The available reward amount
+     */
+    function availableRewards() public view override returns (uint256) {
+        uint256 committed = totalUnclaimedRewards + totalReservedRewards;
+        uint256 balance = tlsmToken.balanceOf(address(this));
+        return balance > committed ? balance - committed : 0;
+    }
 
-        uint256 elapsed = block.timestamp - schedule.startTime;
-        if (elapsed >= schedule.duration) {
-            // Fully vested
-            return schedule.totalAmount - schedule.claimedAmount;
+    /**
+     * @dev Get the reward reserved for a player's active session
+     * @param player The player address
+     * @return The reserved amount (zero without an active session)
+     */
+    function getReservedReward(address player) external view override returns (uint256) {
+        return _reservedRewards[player];
+    }
+
+    /**
+     * @dev Get the claimable amount for a player, summed across tranches
+     * @param player The player address
+     * @return claimable The claimable amount
+     */
+    function getClaimableAmount(address player) public view override returns (uint256 claimable) {
+        VestingSchedule[] storage tranches = _vestingTranches[player];
+        for (uint256 i = _firstOpenTranche[player]; i < tranches.length; i++) {
+            claimable += _vestedAmount(tranches[i]) - tranches[i].claimedAmount;
         }
+    }
 
-        // Linear vesting
-        uint256 vested = (schedule.totalAmount * elapsed) / schedule.duration;
-        return vested - schedule.claimedAmount;
+    /**
+     * @dev Get combined vesting info for a player
+     * Amounts are summed over all tranches; the window runs from the start of the
+     * oldest tranche with unclaimed tokens to the end of the latest tranche.
+     * Curve fields are left empty, since tranches can use different curves
+     * @param player The player address
+     * @return info The combined vesting schedule
+     */
+    function getVestingInfo(address player) external view override returns (VestingSchedule memory info) {
+        VestingSchedule[] storage tranches = _vestingTranches[player];
+        if (tranches.length == 0) return info;
+
+        uint256 first = _firstOpenTranche[player];
+        if (first == tranches.length) first = tranches.length - 1;
+        info.startTime = tranches[first].startTime;
+
+        uint256 end = 0;
+        for (uint256 i = 0; i < tranches.length; i++) {
+            info.totalAmount += tranches[i].totalAmount;
+            info.claimedAmount += tranches[i].claimedAmount;
+            uint256 trancheEnd = tranches[i].startTime + tranches[i].duration;
+            if (trancheEnd > end) end = trancheEnd;
+        }
+        info.duration = uint64(end - info.startTime);
     }
 
     /**
-     * @dev Get vesting info for a player
+     * @dev Get a player's vesting tranches that still hold unclaimed tokens, oldest first
      * @param player The player address
-     * @return The vesting schedule
+     * @return tranches The open tranches
      */
-    function getVestingInfo(address player) external view override returns (VestingSchedule memory) {
-        return _vestingSchedules[player];
+    function getVestingTranches(address player) external view override returns (VestingSchedule[] memory tranches) {
+        VestingSchedule[] storage all = _vestingTranches[player];
+        uint256 first = _firstOpenTranche[player];
+
+        tranches = new VestingSchedule[](all.length - first);
+        for (uint256 i = 0; i < tranches.length; i++) {
+            tranches[i] = all[first + i];
+        }
     }
 
     /**
@@ -264,19 +577,67 @@ contract TalismanGame is ITalismanGame, ReentrancyGuard, Pausable, Ownable {
      */
     function setVestingDuration(uint256 duration) external override onlyOwner {
         require(duration > 0, "TalismanGame: zero duration");
+        require(
+            duration >= vestingCliff && duration >= vestingStepDuration,
+            "TalismanGame: duration below curve"
+        );
         vestingDuration = duration;
         emit VestingDurationUpdated(duration);
     }
 
+    /**
+     * @dev Set the vesting curve of future tranches
+     * Existing tranches keep the curve they were created with
+     * @param cliff Time before the linear part starts unlocking
+     * @param stepDuration Interval of step unlocks (zero = continuous)
+     * @param instantUnlockPercent_ Percent unlocked immediately
+     */
+    function setVestingCurve(
+        uint256 cliff,
+        uint256 stepDuration,
+        uint256 instantUnlockPercent_
+    ) external override onlyOwner {
+        require(cliff <= vestingDuration, "TalismanGame: cliff exceeds duration");
+        require(stepDuration <= vestingDuration, "TalismanGame: step exceeds duration");
+        require(instantUnlockPercent_ <= 100, "TalismanGame: invalid unlock percent");
+        vestingCliff = cliff;
+        vestingStepDuration = stepDuration;
+        instantUnlockPercent = instantUnlockPercent_;
+        emit VestingCurveUpdated(cliff, stepDuration, instantUnlockPercent_);
+    }
+
+    /**
+     * @dev Set the early-unlock penalty
+     * @param penaltyPercent Penalty on unvested tokens at a tranche's start
+     * @param burn Burn the penalty (true) or return it to the reward pool (false)
+     */
+    function setEarlyUnlockPenalty(uint256 penaltyPercent, bool burn) external override onlyOwner {
+        require(penaltyPercent <= 100, "TalismanGame: invalid penalty percent");
+        earlyUnlockPenaltyPercent = penaltyPercent;
+        burnEarlyUnlockPenalty = burn;
+        emit EarlyUnlockPenaltyUpdated(penaltyPercent, burn);
+    }
+
     /**
      * @dev Set the maximum session duration
      * @param duration The new max duration
      */
     function setMaxSessionDuration(uint256 duration) external override onlyOwner {
         require(duration > minSessionDuration, "TalismanGame: max must exceed min");
+        require(duration <= sessionTimeout, "TalismanGame: max exceeds timeout");
         maxSessionDuration = duration;
     }
 
+    /**
+     * @dev Set the session timeout
+     * @param timeout Time after its start when a session can be settled by anyone
+     */
+    function setSessionTimeout(uint256 timeout) external override onlyOwner {
+        require(timeout >= maxSessionDuration, "TalismanGame: timeout below max duration");
+        sessionTimeout = timeout;
+        emit SessionTimeoutUpdated(timeout);
+    }
+
     /**
      * @dev Deposit tokens to the reward pool
      * @param amount The amount to deposit
@@ -288,16 +649,47 @@ contract TalismanGame is ITalismanGame, ReentrancyGuard, Pausable, Ownable {
 
     /**
      * @dev Withdraw tokens from the reward pool
-     * Only excess tokens (not reserved for unclaimed rewards) can be withdrawn
+     * Only excess tokens (not owed as unclaimed rewards or reserved for active sessions) can be withdrawn
      * @param amount The amount to withdraw
      */
     function withdrawRewardPool(uint256 amount) external override onlyOwner {
-        uint256 available = tlsmToken.balanceOf(address(this)) - totalUnclaimedRewards;
-        require(amount <= available, "TalismanGame: insufficient available");
+        require(amount <= availableRewards(), "TalismanGame: insufficient available");
         tlsmToken.safeTransfer(msg.sender, amount);
         emit RewardPoolWithdrawn(amount);
     }
 
+    /**
+     * @dev Set the off-chain score verifier
+     * @param verifier The signer address (zero disables proof checks)
+     */
+    function setScoreVerifier(address verifier) external override onlyOwner {
+        scoreVerifier = verifier;
+        emit ScoreVerifierUpdated(verifier);
+    }
+
+    /**
+     * @dev Set the largest bonus a single quest may pay
+     * @param maxBonus The new limit (zero disables quest bonuses)
+     */
+    function setMaxQuestBonus(uint256 maxBonus) external override onlyOwner {
+        maxQuestBonus = maxBonus;
+        emit MaxQuestBonusUpdated(maxBonus);
+    }
+
+    /**
+     * @dev Set the reward multiplier of a game mode
+     * @param gameMode The game mode
+     * @param multiplier The new multiplier (100 = 1x)
+     */
+    function setModeRewardMultiplier(GameMode gameMode, uint256 multiplier) external override onlyOwner {
+        require(
+            multiplier > 0 && multiplier <= MAX_MODE_MULTIPLIER,
+            "TalismanGame: invalid multiplier"
+        );
+        modeRewardMultiplier[gameMode] = multiplier;
+        emit ModeRewardMultiplierUpdated(gameMode, multiplier);
+    }
+
     /**
      * @dev Pause the contract
      */
@@ -315,52 +707,170 @@ contract TalismanGame is ITalismanGame, ReentrancyGuard, Pausable, Ownable {
     // ============ Internal Functions ============
 
     /**
-     * @dev Add rewards to a player's vesting schedule
+     * @dev Close a player's session and vest the reward
+     * @param player The player address
+     * @param talismansCollected Number of talismans collected during the session
+     */
+    function _endSession(address player, uint256 talismansCollected) internal {
+        GameSession storage session = _sessions[player];
+        require(session.isActive, "TalismanGame: no active session");
+        require(
+            block.timestamp >= session.startTime + minSessionDuration,
+            "TalismanGame: session too short"
+        );
+
+        // Calculate session duration (capped at max)
+        uint256 duration = block.timestamp - session.startTime;
+        if (duration > maxSessionDuration) {
+            duration = maxSessionDuration;
+        }
+
+        // Calculate base reward, scaled by the session's game mode
+        uint256 baseReward =
+            (duration * rewardRatePerSecond * modeRewardMultiplier[session.gameMode]) / 100;
+
+        // Calculate multiplier (10% per talisman, capped at 200% bonus = 3x max)
+        uint256 bonusPercent = talismansCollected * TALISMAN_BONUS_PERCENT;
+        if (bonusPercent > MAX_TALISMAN_BONUS) {
+            bonusPercent = MAX_TALISMAN_BONUS;
+        }
+        uint256 multiplier = 100 + bonusPercent; // 100 = 1x, 200 = 2x, 300 = 3x
+
+        // Calculate final reward with multiplier, capped at the reservation in case
+        // the reward config was raised while the session was active
+        uint256 reward = (baseReward * multiplier) / 100;
+        uint256 reserved = _reservedRewards[player];
+        if (reward > reserved) {
+            reward = reserved;
+        }
+
+        _closeSession(player, duration, reward, talismansCollected, multiplier);
+
+        // Update vesting schedule
+        _addToVesting(player, reward);
+
+        // Track total unclaimed
+        totalUnclaimedRewards += reward;
+
+        emit SessionEnded(player, duration, reward, talismansCollected, multiplier);
+    }
+
+    /**
+     * @dev Deactivate a player's session, release its reservation and record it in the history
+     * @param player The player address
+     * @param duration Rewarded duration (capped at max)
+     * @param reward Reward earned
+     * @param talismansCollected Talismans counted for the bonus
+     * @param multiplier Applied reward multiplier (100 = 1x)
+     */
+    function _closeSession(
+        address player,
+        uint256 duration,
+        uint256 reward,
+        uint256 talismansCollected,
+        uint256 multiplier
+    ) internal {
+        GameSession storage session = _sessions[player];
+
+        // Release the reservation
+        totalReservedRewards -= _reservedRewards[player];
+        delete _reservedRewards[player];
+
+        // Update session
+        session.endTime = uint64(block.timestamp);
+        session.rewardEarned = uint128(reward);
+        session.talismansCollected = uint32(talismansCollected);
+        session.isActive = false;
+
+        // Append to the player's history
+        _sessionHistory[player].push(
+            SessionRecord({
+                startTime: session.startTime,
+                endTime: session.endTime,
+                duration: uint64(duration),
+                attempts: uint32(_attemptCounts[player]),
+                gameMode: session.gameMode,
+                reward: uint128(reward),
+                talismansCollected: uint32(talismansCollected),
+                multiplier: uint32(multiplier)
+            })
+        );
+    }
+
+    /**
+     * @dev Worst-case reward of a session: full duration at the max talisman bonus
+     * @param gameMode The session's game mode
+     * @return The maximum reward
+     */
+    function _maxPotentialReward(GameMode gameMode) internal view returns (uint256) {
+        uint256 baseReward =
+            (maxSessionDuration * rewardRatePerSecond * modeRewardMultiplier[gameMode]) / 100;
+        return (baseReward * (100 + MAX_TALISMAN_BONUS)) / 100;
+    }
+
+    /**
+     * @dev Start a new vesting tranche for a player's reward
      * @param player The player address
-     * @param amount The reward amount to add
+     * @param amount The reward amount to vest
      */
     function _addToVesting(address player, uint256 amount) internal {
-        VestingSchedule storage schedule = _vestingSchedules[player];
-
-        if (schedule.totalAmount == 0) {
-            // New vesting schedule
-            schedule.totalAmount = uint128(amount);
-            schedule.claimedAmount = 0;
-            schedule.startTime = uint64(block.timestamp);
-            schedule.duration = uint64(vestingDuration);
-        } else {
-            // Add to existing schedule
-            // Calculate currently vested amount
-            uint256 currentlyVested = getClaimableAmount(player) + schedule.claimedAmount;
-
-            // New total is old total + new amount
-            uint256 newTotal = schedule.totalAmount + amount;
-
-            // Reset vesting with new parameters
-            // Already claimed stays claimed, rest vests from now
-            schedule.totalAmount = uint128(newTotal);
-            schedule.startTime = uint64(block.timestamp);
-            schedule.duration = uint64(vestingDuration);
-
-            // Adjust claimed to account for already vested portion
-            // This ensures previously vested but unclaimed rewards remain claimable
-            schedule.claimedAmount = uint128(schedule.claimedAmount);
-
-            // Recalculate: if currentlyVested > claimedAmount, make difference immediately available
-            // by treating it as if vesting started earlier
-            if (currentlyVested > schedule.claimedAmount) {
-                uint256 alreadyVestedUnclaimed = currentlyVested - schedule.claimedAmount;
-                // Adjust start time backwards to make this amount immediately claimable
-                // vestedRatio = alreadyVestedUnclaimed / newTotal
-                // elapsed / duration = vestedRatio
-                // We keep it simple: just credit the already vested amount
-                // by reducing total and keeping it claimable
-                schedule.totalAmount = uint128(newTotal - alreadyVestedUnclaimed);
-                // Transfer the already vested to claimable by not including in new vesting
-                // Actually, simpler: just add a flag or handle in getClaimable
-                // For simplicity, we reset and user claims what's available before ending session
-                schedule.totalAmount = uint128(newTotal);
-            }
+        if (amount == 0) return;
+
+        _vestingTranches[player].push(
+            VestingSchedule({
+                totalAmount: uint128(amount),
+                claimedAmount: 0,
+                startTime: uint64(block.timestamp),
+                duration: uint64(vestingDuration),
+                cliff: uint64(vestingCliff),
+                stepDuration: uint32(vestingStepDuration),
+                instantUnlockPercent: uint16(instantUnlockPercent)
+            })
+        );
+    }
+
+    /**
+     * @dev Amount of a tranche vested so far, including already claimed tokens
+     * Mirrored by vestedAmount in shared/vesting - keep the two in sync
+     * @param tranche The vesting tranche
+     * @return The vested amount
+     */
+    function _vestedAmount(VestingSchedule storage tranche) internal view returns (uint256) {
+        uint256 elapsed = block.timestamp - tranche.startTime;
+        if (elapsed >= tranche.duration) {
+            // Fully vested
+            return tranche.totalAmount;
+        }
+
+        // Instant unlock is available right away, the rest waits for the cliff
+        uint256 instant = (uint256(tranche.totalAmount) * tranche.instantUnlockPercent) / 100;
+        if (elapsed < tranche.cliff) {
+            return instant;
+        }
+
+        // Step unlocks only release whole steps
+        if (tranche.stepDuration > 0) {
+            elapsed -= elapsed % tranche.stepDuration;
         }
+
+        // Linear vesting
+        return instant + ((tranche.totalAmount - instant) * elapsed) / tranche.duration;
+    }
+
+    /**
+     * @dev Penalty for unlocking a tranche's unvested tokens now
+     * @param tranche The vesting tranche
+     * @param unvested Tokens of the tranche not vested yet
+     * @return The penalty amount
+     */
+    function _earlyUnlockPenalty(
+        VestingSchedule storage tranche,
+        uint256 unvested
+    ) internal view returns (uint256) {
+        uint256 end = uint256(tranche.startTime) + tranche.duration;
+        if (unvested == 0 || block.timestamp >= end) return 0;
+
+        uint256 remaining = end - block.timestamp;
+        return (unvested * earlyUnlockPenaltyPercent * remaining) / (100 * uint256(tranche.duration));
     }
 }
@@ -0,0 +1,319 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/security/Pausable.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "../interfaces/ITalismanRaceEscrow.sol";
+
+/**
+ * @title TalismanRaceEscrow
+ * @dev Asynchronous head-to-head Dash races against another player's ghost
+ * The creator stakes TLSM on a verified run and publishes its replay (the ghost) in RaceCreated
+ * A challenger matches the stake, then races the ghost on the same seed within the race window
+ * The higher verified distance takes both stakes; a tie returns each stake
+ * Distances are attested by the score verifier (EIP-712): the creator's run is bound to the player and
+ * the seed, the challenger's result to the race, the challenger and the time the race was accepted
+ */
+contract TalismanRaceEscrow is ITalismanRaceEscrow, EIP712, ReentrancyGuard, Pausable, Ownable {
+    using SafeERC20 for IERC20;
+
+    /// @dev The TLSM token contract
+    IERC20 public immutable tlsmToken;
+
+    /// @dev Largest ghost replay accepted, to bound the cost of the creation event
+    uint256 public constant MAX_GHOST_BYTES = 16384;
+
+    /// @dev EIP-712 typehash of the verifier's race run attestation
+    bytes32 public constant RACE_RUN_TYPEHASH = keccak256(
+        "RaceRun(address player,uint256 seed,uint256 distance,bytes32 ghostHash,uint256 deadline)"
+    );
+
+    /// @dev EIP-712 typehash of the verifier's attestation of a challenger's result
+    bytes32 public constant RACE_RESULT_TYPEHASH = keccak256(
+        "RaceResult(uint256 raceId,address challenger,uint64 acceptedAt,uint256 distance,uint256 deadline)"
+    );
+
+    /// @dev Signer of race run and race result attestations
+    address public scoreVerifier;
+
+    /// @dev How long an open race can be accepted (seconds)
+    uint256 public challengeWindow = 1 days;
+
+    /// @dev How long the challenger has to post a distance once accepted (seconds)
+    uint256 public raceWindow = 1 hours;
+
+    /// @dev All races; the race id is the index
+    Race[] private _races;
+
+    /**
+     * @dev Constructor
+     * @param tlsmToken_ The TLSM token contract address
+     * @param initialOwner The initial owner address
+     */
+    constructor(
+        address tlsmToken_,
+        address initialOwner
+    ) EIP712("TalismanRaceEscrow", "1") {
+        _transferOwnership(initialOwner);
+        require(tlsmToken_ != address(0), "TalismanRaceEscrow: zero token address");
+
+        tlsmToken = IERC20(tlsmToken_);
+    }
+
+    /**
+     * @dev Open a race on a verified run; the run's replay is published as the ghost
+     * @param stake TLSM staked by each side
+     * @param seed Seed of the run, raced by the challenger
+     * @param distance Verified distance of the run
+     * @param deadline Timestamp after which the attestation expires
+     * @param signature Verifier's EIP-712 signature over the RaceRun
+     * @param ghost Serialized replay of the run, as attested by the verifier
+     * @return raceId The new race's id
+     */
+    function createRace(
+        uint256 stake,
+        uint256 seed,
+        uint256 distance,
+        uint256 deadline,
+        bytes calldata signature,
+        bytes calldata ghost
+    ) external override nonReentrant whenNotPaused returns (uint256 raceId) {
+        require(stake > 0, "TalismanRaceEscrow: zero stake");
+        require(seed <= type(uint32).max, "TalismanRaceEscrow: invalid seed");
+        require(ghost.length > 0 && ghost.length <= MAX_GHOST_BYTES, "TalismanRaceEscrow: invalid ghost");
+        _verifyRun(msg.sender, seed, distance, keccak256(ghost), deadline, signature);
+
+        tlsmToken.safeTransferFrom(msg.sender, address(this), stake);
+
+        raceId = _races.length;
+        uint64 expiresAt = uint64(block.timestamp + challengeWindow);
+        _races.push(
+            Race({
+                creator: msg.sender,
+                seed: uint32(seed),
+                creatorDistance: uint64(distance),
+                challenger: address(0),
+                challengerDistance: 0,
+                stake: uint128(stake),
+                expiresAt: expiresAt,
+                acceptedAt: 0,
+                raceDeadline: 0,
+                status: RaceStatus.Open,
+                winner: address(0)
+            })
+        );
+
+        emit RaceCreated(raceId, msg.sender, seed, distance, stake, expiresAt, ghost);
+    }
+
+    /**
+     * @dev Accept an open race by matching its stake; the race window starts now
+     * @param raceId The race id
+     */
+    function acceptRace(uint256 raceId) external override nonReentrant whenNotPaused {
+        Race storage race = _getRace(raceId);
+        require(race.status == RaceStatus.Open, "TalismanRaceEscrow: race not open");
+        require(block.timestamp < race.expiresAt, "TalismanRaceEscrow: race expired");
+        require(msg.sender != race.creator, "TalismanRaceEscrow: cannot race yourself");
+
+        tlsmToken.safeTransferFrom(msg.sender, address(this), race.stake);
+
+        race.challenger = msg.sender;
+        race.acceptedAt = uint64(block.timestamp);
+        race.raceDeadline = uint64(block.timestamp + raceWindow);
+        race.status = RaceStatus.Accepted;
+
+        emit RaceAccepted(raceId, msg.sender, race.raceDeadline);
+    }
+
+    /**
+     * @dev Post the challenger's verified distance on the race seed and settle the race
+     * @param raceId The race id
+     * @param distance Verified distance of the challenger's run
+     * @param deadline Timestamp after which the attestation expires
+     * @param signature Verifier's EIP-712 signature over the RaceResult
+     */
+    function submitRaceResult(
+        uint256 raceId,
+        uint256 distance,
+        uint256 deadline,
+        bytes calldata signature
+    ) external override nonReentrant whenNotPaused {
+        Race storage race = _getRace(raceId);
+        require(race.status == RaceStatus.Accepted, "TalismanRaceEscrow: race not accepted");
+        require(msg.sender == race.challenger, "TalismanRaceEscrow: not the challenger");
+        require(block.timestamp <= race.raceDeadline, "TalismanRaceEscrow: race window over");
+        _verifyAttestation(
+            keccak256(abi.encode(RACE_RESULT_TYPEHASH, raceId, msg.sender, race.acceptedAt, distance, deadline)),
+            distance,
+            deadline,
+            signature
+        );
+
+        race.challengerDistance = uint64(distance);
+        race.status = RaceStatus.Settled;
+
+        uint256 pot = uint256(race.stake) * 2;
+        if (distance == race.creatorDistance) {
+            // Tie: each side gets their stake back
+            tlsmToken.safeTransfer(race.creator, race.stake);
+            tlsmToken.safeTransfer(race.challenger, race.stake);
+            emit RaceSettled(raceId, address(0), race.creatorDistance, distance, race.stake);
+            return;
+        }
+
+        race.winner = distance > race.creatorDistance ? race.challenger : race.creator;
+        tlsmToken.safeTransfer(race.winner, pot);
+
+        emit RaceSettled(raceId, race.winner, race.creatorDistance, distance, pot);
+    }
+
+    /**
+     * @dev Withdraw a race nobody accepted and get the stake back
+     * Stays available while paused so stakes can always be recovered
+     * @param raceId The race id
+     */
+    function cancelRace(uint256 raceId) external override nonReentrant {
+        Race storage race = _getRace(raceId);
+        require(race.status == RaceStatus.Open, "TalismanRaceEscrow: race not open");
+        require(msg.sender == race.creator, "TalismanRaceEscrow: not the creator");
+
+        race.status = RaceStatus.Cancelled;
+        tlsmToken.safeTransfer(race.creator, race.stake);
+
+        emit RaceCancelled(raceId);
+    }
+
+    /**
+     * @dev Award the pot to the creator when the challenger posted no distance in time
+     * Callable by anyone
+     * @param raceId The race id
+     */
+    function claimExpiredRace(uint256 raceId) external override nonReentrant whenNotPaused {
+        Race storage race = _getRace(raceId);
+        require(race.status == RaceStatus.Accepted, "TalismanRaceEscrow: race not accepted");
+        require(block.timestamp > race.raceDeadline, "TalismanRaceEscrow: race window not over");
+
+        race.status = RaceStatus.Settled;
+        race.winner = race.creator;
+
+        uint256 pot = uint256(race.stake) * 2;
+        tlsmToken.safeTransfer(race.creator, pot);
+
+        emit RaceSettled(raceId, race.creator, race.creatorDistance, 0, pot);
+    }
+
+    // ============ View Functions ============
+
+    /**
+     * @dev Get the number of races ever created
+     */
+    function raceCount() external view override returns (uint256) {
+        return _races.length;
+    }
+
+    /**
+     * @dev Get a race
+     * @param raceId The race id
+     */
+    function getRace(uint256 raceId) external view override returns (Race memory) {
+        require(raceId < _races.length, "TalismanRaceEscrow: unknown race");
+        return _races[raceId];
+    }
+
+    // ============ Admin Functions ============
+
+    /**
+     * @dev Set the off-chain score verifier
+     * @param verifier The signer address (zero disables new races and results)
+     */
+    function setScoreVerifier(address verifier) external override onlyOwner {
+        scoreVerifier = verifier;
+        emit ScoreVerifierUpdated(verifier);
+    }
+
+    /**
+     * @dev Update how long open races can be accepted (applies to new races)
+     * @param newWindow Window in seconds
+     */
+    function setChallengeWindow(uint256 newWindow) external override onlyOwner {
+        require(newWindow > 0, "TalismanRaceEscrow: invalid window");
+        challengeWindow = newWindow;
+        emit ChallengeWindowUpdated(newWindow);
+    }
+
+    /**
+     * @dev Update how long challengers have to post a distance (applies to new acceptances)
+     * @param newWindow Window in seconds
+     */
+    function setRaceWindow(uint256 newWindow) external override onlyOwner {
+        require(newWindow > 0, "TalismanRaceEscrow: invalid window");
+        raceWindow = newWindow;
+        emit RaceWindowUpdated(newWindow);
+    }
+
+    /**
+     * @dev Pause the contract
+     */
+    function pause() external override onlyOwner {
+        _pause();
+    }
+
+    /**
+     * @dev Unpause the contract
+     */
+    function unpause() external override onlyOwner {
+        _unpause();
+    }
+
+    // ============ Internal Functions ============
+
+    /**
+     * @dev Get a race for update, reverting for unknown ids
+     */
+    function _getRace(uint256 raceId) internal view returns (Race storage) {
+        require(raceId < _races.length, "TalismanRaceEscrow: unknown race");
+        return _races[raceId];
+    }
+
+    /**
+     * @dev Check the verifier attested this player's distance on this seed, with this ghost
+     */
+    function _verifyRun(
+        address player,
+        uint256 seed,
+        uint256 distance,
+        bytes32 ghostHash,
+        uint256 deadline,
+        bytes calldata signature
+    ) internal view {
+        _verifyAttestation(
+            keccak256(abi.encode(RACE_RUN_TYPEHASH, player, seed, distance, ghostHash, deadline)),
+            distance,
+            deadline,
+            signature
+        );
+    }
+
+    /**
+     * @dev Check the verifier signed this attestation and it is still valid
+     */
+    function _verifyAttestation(
+        bytes32 structHash,
+        uint256 distance,
+        uint256 deadline,
+        bytes calldata signature
+    ) internal view {
+        require(scoreVerifier != address(0), "TalismanRaceEscrow: no score verifier");
+        require(block.timestamp <= deadline, "TalismanRaceEscrow: proof expired");
+        require(distance > 0 && distance <= type(uint64).max, "TalismanRaceEscrow: invalid distance");
+
+        address signer = ECDSA.recover(_hashTypedDataV4(structHash), signature);
+        require(signer == scoreVerifier, "TalismanRaceEscrow: invalid proof");
+    }
+}
@@ -0,0 +1,424 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/security/Pausable.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "../interfaces/ITalismanTournament.sol";
+
+/**
+ * @title TalismanTournament
+ * @dev Time-boxed Dash tournaments paid in TLSM
+ * Players pay an entry fee into the tournament's prize pool, which anyone can also top up
+ * Each entrant's best distance during the window counts, attested by the score verifier (EIP-712)
+ * Only the ranked places of the payout table are tracked; equal distances rank by who reached them first
+ * At close the pool is split by the payout table, scaled up when fewer players scored than there are places
+ * A tournament nobody scored in refunds entry fees, and returns sponsored funds to the owner
+ */
+contract TalismanTournament is ITalismanTournament, EIP712, ReentrancyGuard, Pausable, Ownable {
+    using SafeERC20 for IERC20;
+
+    /// @dev The TLSM token contract
+    IERC20 public immutable tlsmToken;
+
+    /// @dev Payout table entries are basis points of the prize pool and must sum to this
+    uint256 public constant PAYOUT_DENOMINATOR = 10000;
+
+    /// @dev Largest number of paid places in a payout table
+    uint256 public constant MAX_PAYOUT_PLACES = 10;
+
+    /// @dev EIP-712 typehash of the verifier's tournament score attestation
+    bytes32 public constant TOURNAMENT_SCORE_TYPEHASH = keccak256(
+        "TournamentScore(uint256 tournamentId,address player,uint256 distance,uint256 deadline)"
+    );
+
+    /// @dev Signer of tournament score attestations
+    address public scoreVerifier;
+
+    /// @dev All tournaments; the tournament id is the index
+    Tournament[] private _tournaments;
+
+    /// @dev Mapping of tournament to its payout table (basis points per place, best place first)
+    mapping(uint256 => uint16[]) private _payoutTables;
+
+    /// @dev Mapping of tournament to its ranked players, best first, at most one per paid place
+    mapping(uint256 => address[]) private _standings;
+
+    /// @dev Mapping of tournament to player to when they paid the entry fee (zero if they didn't)
+    mapping(uint256 => mapping(address => uint64)) private _entryTimes;
+
+    /// @dev Mapping of tournament to player to their best verified distance
+    mapping(uint256 => mapping(address => uint256)) private _bestDistance;
+
+    /// @dev Mapping of tournament to player to the prize assigned at finalization
+    mapping(uint256 => mapping(address => uint256)) private _prizes;
+
+    /// @dev Mapping of tournament to player to whether their prize or refund was paid
+    mapping(uint256 => mapping(address => bool)) private _claimed;
+
+    /**
+     * @dev Constructor
+     * @param tlsmToken_ The TLSM token contract address
+     * @param initialOwner The initial owner address
+     */
+    constructor(
+        address tlsmToken_,
+        address initialOwner
+    ) EIP712("TalismanTournament", "1") {
+        _transferOwnership(initialOwner);
+        require(tlsmToken_ != address(0), "TalismanTournament: zero token address");
+
+        tlsmToken = IERC20(tlsmToken_);
+    }
+
+    /**
+     * @dev Enter a tournament by paying its entry fee into the prize pool
+     * Entries are open from creation until the tournament ends
+     * @param tournamentId The tournament id
+     */
+    function enterTournament(uint256 tournamentId) external override nonReentrant whenNotPaused {
+        Tournament storage tournament = _getTournament(tournamentId);
+        require(block.timestamp < tournament.endTime, "TalismanTournament: tournament ended");
+        require(_entryTimes[tournamentId][msg.sender] == 0, "TalismanTournament: already entered");
+
+        tlsmToken.safeTransferFrom(msg.sender, address(this), tournament.entryFee);
+
+        _entryTimes[tournamentId][msg.sender] = uint64(block.timestamp);
+        tournament.entrantCount += 1;
+        tournament.prizePool += tournament.entryFee;
+
+        emit TournamentEntered(tournamentId, msg.sender, tournament.entryFee);
+    }
+
+    /**
+     * @dev Submit a run's distance, attested by the score verifier
+     * Only a new personal best changes the standings; other submissions are recorded as events only
+     * @param tournamentId The tournament id
+     * @param distance Verified distance of the run
+     * @param deadline Timestamp after which the attestation expires
+     * @param signature Verifier's EIP-712 signature over the TournamentScore
+     */
+    function submitScore(
+        uint256 tournamentId,
+        uint256 distance,
+        uint256 deadline,
+        bytes calldata signature
+    ) external override nonReentrant whenNotPaused {
+        Tournament storage tournament = _getTournament(tournamentId);
+        require(scoreVerifier != address(0), "TalismanTournament: no score verifier");
+        require(_entryTimes[tournamentId][msg.sender] != 0, "TalismanTournament: not entered");
+        require(
+            block.timestamp >= tournament.startTime && block.timestamp < tournament.endTime,
+            "TalismanTournament: tournament not running"
+        );
+        require(block.timestamp <= deadline, "TalismanTournament: proof expired");
+        require(distance > 0, "TalismanTournament: zero distance");
+
+        bytes32 structHash = keccak256(
+            abi.encode(TOURNAMENT_SCORE_TYPEHASH, tournamentId, msg.sender, distance, deadline)
+        );
+        address signer = ECDSA.recover(_hashTypedDataV4(structHash), signature);
+        require(signer == scoreVerifier, "TalismanTournament: invalid proof");
+
+        bool isPersonalBest = distance > _bestDistance[tournamentId][msg.sender];
+        if (isPersonalBest) {
+            _bestDistance[tournamentId][msg.sender] = distance;
+            _updateStandings(tournamentId, msg.sender, distance);
+        }
+
+        emit ScoreSubmitted(tournamentId, msg.sender, distance, isPersonalBest);
+    }
+
+    /**
+     * @dev Add tokens to a tournament's prize pool
+     * @param tournamentId The tournament id
+     * @param amount The amount to add
+     */
+    function fundPrizePool(uint256 tournamentId, uint256 amount) external override nonReentrant whenNotPaused {
+        Tournament storage tournament = _getTournament(tournamentId);
+        require(!tournament.finalized, "TalismanTournament: already finalized");
+        require(amount > 0, "TalismanTournament: zero amount");
+
+        tlsmToken.safeTransferFrom(msg.sender, address(this), amount);
+        tournament.prizePool += uint128(amount);
+
+        emit PrizePoolFunded(tournamentId, msg.sender, amount);
+    }
+
+    /**
+     * @dev Close a tournament after its end and assign prizes from the standings
+     * Callable by anyone. When fewer players scored than there are paid places, the
+     * unfilled places' share is spread over the filled ones in proportion to their payouts.
+     * If nobody scored, entrants can reclaim their entry fee and the rest goes back to the owner.
+     * @param tournamentId The tournament id
+     */
+    function finalizeTournament(uint256 tournamentId) external override nonReentrant whenNotPaused {
+        Tournament storage tournament = _getTournament(tournamentId);
+        require(block.timestamp >= tournament.endTime, "TalismanTournament: tournament not ended");
+        require(!tournament.finalized, "TalismanTournament: already finalized");
+
+        tournament.finalized = true;
+
+        address[] storage standings = _standings[tournamentId];
+        uint256 winners = standings.length;
+        uint256 prizePool = tournament.prizePool;
+
+        if (winners == 0) {
+            // Entry fees stay for refunds; only sponsored funds leave
+            uint256 sponsored = prizePool - uint256(tournament.entrantCount) * tournament.entryFee;
+            if (sponsored > 0) {
+                tlsmToken.safeTransfer(owner(), sponsored);
+            }
+        } else {
+            uint16[] storage payoutTable = _payoutTables[tournamentId];
+            uint256 filledShare = 0;
+            for (uint256 i = 0; i < winners; i++) {
+                filledShare += payoutTable[i];
+            }
+
+            // The last winner receives the rounding remainder
+            uint256 assigned = 0;
+            for (uint256 i = 0; i < winners; i++) {
+                uint256 prize = i == winners - 1
+                    ? prizePool - assigned
+                    : (prizePool * payoutTable[i]) / filledShare;
+                _prizes[tournamentId][standings[i]] = prize;
+                assigned += prize;
+            }
+        }
+
+        emit TournamentFinalized(tournamentId, prizePool, winners);
+    }
+
+    /**
+     * @dev Claim a finalized tournament's prize, or the entry fee if nobody scored
+     * @param tournamentId The tournament id
+     */
+    function claimPrize(uint256 tournamentId) external override nonReentrant whenNotPaused {
+        Tournament storage tournament = _getTournament(tournamentId);
+        require(tournament.finalized, "TalismanTournament: not finalized");
+        require(!_claimed[tournamentId][msg.sender], "TalismanTournament: already claimed");
+
+        bool isRefund = _standings[tournamentId].length == 0;
+        uint256 amount = isRefund
+            ? (_entryTimes[tournamentId][msg.sender] != 0 ? tournament.entryFee : 0)
+            : _prizes[tournamentId][msg.sender];
+        require(amount > 0, "TalismanTournament: nothing to claim");
+
+        _claimed[tournamentId][msg.sender] = true;
+        tlsmToken.safeTransfer(msg.sender, amount);
+
+        if (isRefund) {
+            emit EntryRefunded(tournamentId, msg.sender, amount);
+        } else {
+            emit PrizeClaimed(tournamentId, msg.sender, amount);
+        }
+    }
+
+    // ============ View Functions ============
+
+    /**
+     * @dev Get the number of tournaments ever created
+     */
+    function tournamentCount() external view override returns (uint256) {
+        return _tournaments.length;
+    }
+
+    /**
+     * @dev Get a tournament
+     * @param tournamentId The tournament id
+     */
+    function getTournament(uint256 tournamentId) external view override returns (Tournament memory) {
+        require(tournamentId < _tournaments.length, "TalismanTournament: unknown tournament");
+        return _tournaments[tournamentId];
+    }
+
+    /**
+     * @dev Get a tournament's payout table
+     * @param tournamentId The tournament id
+     * @return Basis points of the prize pool per place, best place first
+     */
+    function getPayoutTable(uint256 tournamentId) external view override returns (uint16[] memory) {
+        return _payoutTables[tournamentId];
+    }
+
+    /**
+     * @dev Get the ranked players of a tournament and their best distances
+     * @param tournamentId The tournament id
+     * @return players Ranked players, best first
+     * @return distances Best distance of each ranked player
+     */
+    function getStandings(
+        uint256 tournamentId
+    ) external view override returns (address[] memory players, uint256[] memory distances) {
+        players = _standings[tournamentId];
+        distances = new uint256[](players.length);
+        for (uint256 i = 0; i < players.length; i++) {
+            distances[i] = _bestDistance[tournamentId][players[i]];
+        }
+    }
+
+    /**
+     * @dev Check whether a player entered a tournament
+     */
+    function hasEntered(uint256 tournamentId, address player) external view override returns (bool) {
+        return _entryTimes[tournamentId][player] != 0;
+    }
+
+    /**
+     * @dev Get when a player entered a tournament (zero if they didn't)
+     * The score verifier only accepts runs from sessions started after this
+     */
+    function getEntryTime(uint256 tournamentId, address player) external view override returns (uint64) {
+        return _entryTimes[tournamentId][player];
+    }
+
+    /**
+     * @dev Get a player's best verified distance in a tournament
+     */
+    function getBestDistance(uint256 tournamentId, address player) external view override returns (uint256) {
+        return _bestDistance[tournamentId][player];
+    }
+
+    /**
+     * @dev Get the prize assigned to a player at finalization (zero before)
+     */
+    function getPrize(uint256 tournamentId, address player) external view override returns (uint256) {
+        return _prizes[tournamentId][player];
+    }
+
+    /**
+     * @dev Check whether a player's prize or refund was paid
+     */
+    function isPrizeClaimed(uint256 tournamentId, address player) external view override returns (bool) {
+        return _claimed[tournamentId][player];
+    }
+
+    // ============ Admin Functions ============
+
+    /**
+     * @dev Create a tournament
+     * @param startTime First second scores count
+     * @param endTime First second scores no longer count
+     * @param entryFee TLSM paid into the prize pool by each entrant
+     * @param payoutTable Basis points of the prize pool per place, best place first, summing to PAYOUT_DENOMINATOR
+     * @return tournamentId The new tournament's id
+     */
+    function createTournament(
+        uint64 startTime,
+        uint64 endTime,
+        uint128 entryFee,
+        uint16[] calldata payoutTable
+    ) external override onlyOwner returns (uint256 tournamentId) {
+        require(startTime < endTime, "TalismanTournament: invalid window");
+        require(endTime > block.timestamp, "TalismanTournament: window in the past");
+        require(
+            payoutTable.length > 0 && payoutTable.length <= MAX_PAYOUT_PLACES,
+            "TalismanTournament: invalid payout table"
+        );
+
+        uint256 total = 0;
+        for (uint256 i = 0; i < payoutTable.length; i++) {
+            require(
+                payoutTable[i] > 0 && (i == 0 || payoutTable[i] <= payoutTable[i - 1]),
+                "TalismanTournament: invalid payout table"
+            );
+            total += payoutTable[i];
+        }
+        require(total == PAYOUT_DENOMINATOR, "TalismanTournament: invalid payout table");
+
+        tournamentId = _tournaments.length;
+        _tournaments.push(
+            Tournament({
+                startTime: startTime,
+                endTime: endTime,
+                entryFee: entryFee,
+                prizePool: 0,
+                entrantCount: 0,
+                finalized: false
+            })
+        );
+        _payoutTables[tournamentId] = payoutTable;
+
+        emit TournamentCreated(tournamentId, startTime, endTime, entryFee, payoutTable);
+    }
+
+    /**
+     * @dev Set the off-chain score verifier
+     * @param verifier The signer address (zero disables score submissions)
+     */
+    function setScoreVerifier(address verifier) external override onlyOwner {
+        scoreVerifier = verifier;
+        emit ScoreVerifierUpdated(verifier);
+    }
+
+    /**
+     * @dev Pause the contract
+     */
+    function pause() external override onlyOwner {
+        _pause();
+    }
+
+    /**
+     * @dev Unpause the contract
+     */
+    function unpause() external override onlyOwner {
+        _unpause();
+    }
+
+    // ============ Internal Functions ============
+
+    /**
+     * @dev Get a tournament for update, reverting for unknown ids
+     */
+    function _getTournament(uint256 tournamentId) internal view returns (Tournament storage) {
+        require(tournamentId < _tournaments.length, "TalismanTournament: unknown tournament");
+        return _tournaments[tournamentId];
+    }
+
+    /**
+     * @dev Move a player to their rank for a new best distance
+     * Standings hold at most one player per paid place. A player goes after everyone
+     * with an equal or better distance, so ties rank by who reached the distance first.
+     * @param tournamentId The tournament id
+     * @param player The player with a new best
+     * @param distance The player's new best distance
+     */
+    function _updateStandings(uint256 tournamentId, address player, uint256 distance) internal {
+        address[] storage standings = _standings[tournamentId];
+        uint256 places = _payoutTables[tournamentId].length;
+        uint256 length = standings.length;
+
+        // Take the player out if already ranked
+        for (uint256 i = 0; i < length; i++) {
+            if (standings[i] == player) {
+                for (uint256 j = i; j + 1 < length; j++) {
+                    standings[j] = standings[j + 1];
+                }
+                standings.pop();
+                length -= 1;
+                break;
+            }
+        }
+
+        uint256 rank = 0;
+        while (rank < length && _bestDistance[tournamentId][standings[rank]] >= distance) {
+            rank += 1;
+        }
+        if (rank >= places) return;
+
+        standings.push(player);
+        for (uint256 i = length; i > rank; i--) {
+            standings[i] = standings[i - 1];
+        }
+        standings[rank] = player;
+
+        if (standings.length > places) {
+            standings.pop();
+        }
+    }
+}
@@ -2,6 +2,7 @@
 pragma solidity ^0.8.20;
 
 import "./IEntryPoint.sol";
+import "./PackedUserOperation.sol";
 
 /**
  * @title ITalismanAccount
@@ -21,6 +22,19 @@ interface ITalismanAccount {
         uint256 missingAccountFunds
     ) external returns (uint256 validationData);
 
+    /**
+     * @dev Validate a user operation from an EntryPoint v0.7
+     * @param userOp The packed user operation to validate
+     * @param userOpHash The hash of the user operation
+     * @param missingAccountFunds The amount of funds missing for gas
+     * @return validationData 0 for valid signature, 1 for invalid
+     */
+    function validateUserOp(
+        PackedUserOperation calldata userOp,
+        bytes32 userOpHash,
+        uint256 missingAccountFunds
+    ) external returns (uint256 validationData);
+
     /**
      * @dev Execute a call from the account
      * @param dest The destination address
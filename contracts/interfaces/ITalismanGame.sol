@@ -6,8 +6,14 @@ pragma solidity ^0.8.20;
  * @dev Interface for the Talisman game contract
  */
 interface ITalismanGame {
+    // Enums
+    enum GameMode {
+        Dash,
+        Search
+    }
+
     // Events
-    event SessionStarted(address indexed player, uint256 startTime);
+    event SessionStarted(address indexed player, uint256 startTime, GameMode gameMode);
     event SessionEnded(
         address indexed player,
         uint256 duration,
@@ -15,13 +21,23 @@ interface ITalismanGame {
         uint256 talismansCollected,
         uint256 multiplier
     );
+    event SessionSettled(address indexed player, address indexed settler);
+    event SessionForfeited(address indexed player, uint256 duration);
     event GameRetried(address indexed player, uint256 attemptNumber, uint256 cost);
     event RewardsClaimed(address indexed player, uint256 amount);
+    event EarlyClaimed(address indexed player, uint256 amount, uint256 penalty, bool burned);
     event SessionCostUpdated(uint256 newCost);
     event RewardRateUpdated(uint256 newRate);
     event VestingDurationUpdated(uint256 newDuration);
+    event VestingCurveUpdated(uint256 cliff, uint256 stepDuration, uint256 instantUnlockPercent);
+    event EarlyUnlockPenaltyUpdated(uint256 penaltyPercent, bool burn);
+    event SessionTimeoutUpdated(uint256 timeout);
+    event QuestBonusClaimed(address indexed player, uint64 indexed day, bytes32 indexed questId, uint256 reward);
+    event MaxQuestBonusUpdated(uint256 maxBonus);
     event RewardPoolDeposited(uint256 amount);
     event RewardPoolWithdrawn(uint256 amount);
+    event ScoreVerifierUpdated(address indexed verifier);
+    event ModeRewardMultiplierUpdated(GameMode indexed gameMode, uint256 multiplier);
 
     // Structs
     struct GameSession {
@@ -30,6 +46,18 @@ interface ITalismanGame {
         uint128 rewardEarned;
         uint32 talismansCollected;
         bool isActive;
+        GameMode gameMode;
+    }
+
+    struct SessionRecord {
+        uint64 startTime;
+        uint64 endTime;
+        uint64 duration;
+        uint32 attempts;
+        GameMode gameMode;
+        uint128 reward;
+        uint32 talismansCollected;
+        uint32 multiplier;
     }
 
     struct VestingSchedule {
@@ -37,18 +65,49 @@ interface ITalismanGame {
         uint128 claimedAmount;
         uint64 startTime;
         uint64 duration;
+        uint64 cliff;
+        uint32 stepDuration;
+        uint16 instantUnlockPercent;
     }
 
     // Session Management
-    function startSession() external;
+    function startSession(GameMode gameMode) external;
     function endSession(uint256 talismansCollected) external;
+    function endSessionWithProof(
+        uint256 talismansCollected,
+        uint256 deadline,
+        bytes calldata signature
+    ) external;
     function retryGame() external;
+    function settleExpiredSession(address player) external;
+    function forfeitSession() external;
+    function isSessionExpired(address player) external view returns (bool);
+    function claimQuestBonus(
+        uint64 day,
+        bytes32 questId,
+        uint256 reward,
+        uint256 deadline,
+        bytes calldata signature
+    ) external;
+    function isQuestClaimed(address player, uint64 day, bytes32 questId) external view returns (bool);
     function getAttemptCount(address player) external view returns (uint256);
 
+    // Session History
+    function getSessionCount(address player) external view returns (uint256);
+    function getSessionRecord(address player, uint256 sessionId) external view returns (SessionRecord memory);
+    function getSessionHistory(
+        address player,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (SessionRecord[] memory);
+
     // Rewards & Vesting
     function claimRewards() external;
+    function earlyClaim(uint256 maxPenalty) external;
+    function previewEarlyClaim(address player) external view returns (uint256 amount, uint256 penalty);
     function getClaimableAmount(address player) external view returns (uint256);
     function getVestingInfo(address player) external view returns (VestingSchedule memory);
+    function getVestingTranches(address player) external view returns (VestingSchedule[] memory);
     function getSession(address player) external view returns (GameSession memory);
 
     // View functions
@@ -56,16 +115,34 @@ interface ITalismanGame {
     function rewardRatePerSecond() external view returns (uint256);
     function maxSessionDuration() external view returns (uint256);
     function vestingDuration() external view returns (uint256);
+    function vestingCliff() external view returns (uint256);
+    function vestingStepDuration() external view returns (uint256);
+    function instantUnlockPercent() external view returns (uint256);
+    function earlyUnlockPenaltyPercent() external view returns (uint256);
+    function burnEarlyUnlockPenalty() external view returns (bool);
     function minSessionDuration() external view returns (uint256);
+    function sessionTimeout() external view returns (uint256);
     function totalUnclaimedRewards() external view returns (uint256);
+    function totalReservedRewards() external view returns (uint256);
+    function availableRewards() external view returns (uint256);
+    function getReservedReward(address player) external view returns (uint256);
+    function scoreVerifier() external view returns (address);
+    function maxQuestBonus() external view returns (uint256);
+    function modeRewardMultiplier(GameMode gameMode) external view returns (uint256);
 
     // Admin functions
     function setSessionCost(uint256 cost) external;
     function setRewardRate(uint256 rate) external;
     function setVestingDuration(uint256 duration) external;
+    function setVestingCurve(uint256 cliff, uint256 stepDuration, uint256 instantUnlockPercent) external;
+    function setEarlyUnlockPenalty(uint256 penaltyPercent, bool burn) external;
     function setMaxSessionDuration(uint256 duration) external;
+    function setSessionTimeout(uint256 timeout) external;
     function depositRewardPool(uint256 amount) external;
     function withdrawRewardPool(uint256 amount) external;
+    function setScoreVerifier(address verifier) external;
+    function setMaxQuestBonus(uint256 maxBonus) external;
+    function setModeRewardMultiplier(GameMode gameMode, uint256 multiplier) external;
     function pause() external;
     function unpause() external;
 }
@@ -0,0 +1,88 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title ITalismanRaceEscrow
+ * @dev Interface for the Talisman head-to-head ghost race escrow
+ */
+interface ITalismanRaceEscrow {
+    // Enums
+    enum RaceStatus {
+        None,
+        Open,
+        Accepted,
+        Settled,
+        Cancelled
+    }
+
+    // Events
+    event RaceCreated(
+        uint256 indexed raceId,
+        address indexed creator,
+        uint256 seed,
+        uint256 distance,
+        uint256 stake,
+        uint256 expiresAt,
+        bytes ghost
+    );
+    event RaceAccepted(uint256 indexed raceId, address indexed challenger, uint256 raceDeadline);
+    event RaceSettled(
+        uint256 indexed raceId,
+        address indexed winner,
+        uint256 creatorDistance,
+        uint256 challengerDistance,
+        uint256 payout
+    );
+    event RaceCancelled(uint256 indexed raceId);
+    event ScoreVerifierUpdated(address indexed verifier);
+    event ChallengeWindowUpdated(uint256 newWindow);
+    event RaceWindowUpdated(uint256 newWindow);
+
+    // Structs
+    struct Race {
+        address creator;
+        uint32 seed;
+        uint64 creatorDistance;
+        address challenger;
+        uint64 challengerDistance;
+        uint128 stake;
+        uint64 expiresAt;
+        uint64 acceptedAt;
+        uint64 raceDeadline;
+        RaceStatus status;
+        address winner;
+    }
+
+    // Players
+    function createRace(
+        uint256 stake,
+        uint256 seed,
+        uint256 distance,
+        uint256 deadline,
+        bytes calldata signature,
+        bytes calldata ghost
+    ) external returns (uint256 raceId);
+    function acceptRace(uint256 raceId) external;
+    function submitRaceResult(
+        uint256 raceId,
+        uint256 distance,
+        uint256 deadline,
+        bytes calldata signature
+    ) external;
+    function cancelRace(uint256 raceId) external;
+    function claimExpiredRace(uint256 raceId) external;
+
+    // View functions
+    function raceCount() external view returns (uint256);
+    function getRace(uint256 raceId) external view returns (Race memory);
+    function scoreVerifier() external view returns (address);
+    function challengeWindow() external view returns (uint256);
+    function raceWindow() external view returns (uint256);
+
+    // Admin functions
+    function setScoreVerifier(address verifier) external;
+    function setChallengeWindow(uint256 newWindow) external;
+    function setRaceWindow(uint256 newWindow) external;
+    function pause() external;
+    function unpause() external;
+}
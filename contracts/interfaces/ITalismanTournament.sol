@@ -0,0 +1,71 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title ITalismanTournament
+ * @dev Interface for the Talisman tournament contract
+ */
+interface ITalismanTournament {
+    // Events
+    event TournamentCreated(
+        uint256 indexed tournamentId,
+        uint256 startTime,
+        uint256 endTime,
+        uint256 entryFee,
+        uint16[] payoutTable
+    );
+    event TournamentEntered(uint256 indexed tournamentId, address indexed player, uint256 entryFee);
+    event PrizePoolFunded(uint256 indexed tournamentId, address indexed funder, uint256 amount);
+    event ScoreSubmitted(uint256 indexed tournamentId, address indexed player, uint256 distance, bool isPersonalBest);
+    event TournamentFinalized(uint256 indexed tournamentId, uint256 prizePool, uint256 winners);
+    event PrizeClaimed(uint256 indexed tournamentId, address indexed player, uint256 amount);
+    event EntryRefunded(uint256 indexed tournamentId, address indexed player, uint256 amount);
+    event ScoreVerifierUpdated(address indexed verifier);
+
+    // Structs
+    struct Tournament {
+        uint64 startTime;
+        uint64 endTime;
+        uint128 entryFee;
+        uint128 prizePool;
+        uint32 entrantCount;
+        bool finalized;
+    }
+
+    // Players
+    function enterTournament(uint256 tournamentId) external;
+    function submitScore(
+        uint256 tournamentId,
+        uint256 distance,
+        uint256 deadline,
+        bytes calldata signature
+    ) external;
+    function claimPrize(uint256 tournamentId) external;
+    function fundPrizePool(uint256 tournamentId, uint256 amount) external;
+    function finalizeTournament(uint256 tournamentId) external;
+
+    // View functions
+    function tournamentCount() external view returns (uint256);
+    function getTournament(uint256 tournamentId) external view returns (Tournament memory);
+    function getPayoutTable(uint256 tournamentId) external view returns (uint16[] memory);
+    function getStandings(
+        uint256 tournamentId
+    ) external view returns (address[] memory players, uint256[] memory distances);
+    function hasEntered(uint256 tournamentId, address player) external view returns (bool);
+    function getEntryTime(uint256 tournamentId, address player) external view returns (uint64);
+    function getBestDistance(uint256 tournamentId, address player) external view returns (uint256);
+    function getPrize(uint256 tournamentId, address player) external view returns (uint256);
+    function isPrizeClaimed(uint256 tournamentId, address player) external view returns (bool);
+    function scoreVerifier() external view returns (address);
+
+    // Admin functions
+    function createTournament(
+        uint64 startTime,
+        uint64 endTime,
+        uint128 entryFee,
+        uint16[] calldata payoutTable
+    ) external returns (uint256 tournamentId);
+    function setScoreVerifier(address verifier) external;
+    function pause() external;
+    function unpause() external;
+}
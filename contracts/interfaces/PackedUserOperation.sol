@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @dev User Operation struct as defined by the canonical EntryPoint v0.7.0
+ * Gas limits and fees are packed in pairs of uint128:
+ *   accountGasLimits = verificationGasLimit << 128 | callGasLimit
+ *   gasFees          = maxPriorityFeePerGas << 128 | maxFeePerGas
+ * paymasterAndData = paymaster | paymasterVerificationGasLimit (16) | paymasterPostOpGasLimit (16) | data
+ */
+struct PackedUserOperation {
+    address sender;
+    uint256 nonce;
+    bytes initCode;
+    bytes callData;
+    bytes32 accountGasLimits;
+    uint256 preVerificationGas;
+    bytes32 gasFees;
+    bytes paymasterAndData;
+    bytes signature;
+}
@@ -1,11 +1,17 @@
 import { Routes, Route } from 'react-router-dom';
-import { GamePage, VestingPage } from './pages';
+import { GamePage, VestingPage, ReplayPage, HistoryPage, AchievementsPage, LeaderboardPage, TournamentsPage, RacePage } from './pages';
 
 function App() {
   return (
     <Routes>
       <Route path="/" element={<GamePage />} />
       <Route path="/vesting" element={<VestingPage />} />
+      <Route path="/replay" element={<ReplayPage />} />
+      <Route path="/history" element={<HistoryPage />} />
+      <Route path="/achievements" element={<AchievementsPage />} />
+      <Route path="/leaderboard" element={<LeaderboardPage />} />
+      <Route path="/tournaments" element={<TournamentsPage />} />
+      <Route path="/race" element={<RacePage />} />
     </Routes>
   );
 }
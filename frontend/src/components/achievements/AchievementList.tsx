@@ -0,0 +1,52 @@
+import {
+  ACHIEVEMENT_IDS,
+  ACHIEVEMENT_REGISTRY,
+  type PlayerProgress,
+} from '../../../../shared/achievements';
+
+interface AchievementListProps {
+  progress: PlayerProgress;
+}
+
+export function AchievementList({ progress }: AchievementListProps) {
+  const earned = ACHIEVEMENT_IDS.filter((id) => progress.unlocked[id] !== undefined).length;
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-6 border border-purple-500/20">
+      <div className="flex justify-between items-baseline mb-4">
+        <h3 className="text-lg font-semibold text-white">Achievements</h3>
+        <span className="text-sm text-gray-400">
+          {earned} / {ACHIEVEMENT_IDS.length}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {ACHIEVEMENT_IDS.map((id) => {
+          const { name, description } = ACHIEVEMENT_REGISTRY[id];
+          const unlockedAt = progress.unlocked[id];
+          const isUnlocked = unlockedAt !== undefined;
+
+          return (
+            <div
+              key={id}
+              className={`p-3 rounded-lg border ${
+                isUnlocked ? 'bg-purple-500/10 border-purple-500/40' : 'bg-gray-900/50 border-gray-700 opacity-60'
+              }`}
+            >
+              <p className={`text-sm font-bold ${isUnlocked ? 'text-purple-300' : 'text-gray-300'}`}>
+                {isUnlocked ? '★ ' : ''}
+                {name}
+              </p>
+              <p className="text-xs text-gray-400 mt-1">{description}</p>
+              {isUnlocked && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Unlocked {new Date(unlockedAt * 1000).toLocaleDateString()}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
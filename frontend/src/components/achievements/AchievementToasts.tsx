@@ -0,0 +1,46 @@
+import { useEffect } from 'react';
+import { ACHIEVEMENT_REGISTRY, type AchievementId } from '../../../../shared/achievements';
+
+export interface AchievementToast {
+  key: number;
+  id: AchievementId;
+}
+
+// How long each toast stays up before dismissing itself
+const TOAST_DURATION_MS = 4000;
+
+interface AchievementToastsProps {
+  toasts: AchievementToast[];
+  onDismiss: (key: number) => void;
+}
+
+export function AchievementToasts({ toasts, onDismiss }: AchievementToastsProps) {
+  // Dismiss the oldest toast first
+  const oldest = toasts[0]?.key;
+  useEffect(() => {
+    if (oldest === undefined) return;
+    const timer = setTimeout(() => onDismiss(oldest), TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [oldest, onDismiss]);
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="absolute top-20 left-1/2 -translate-x-1/2 z-40 flex flex-col gap-2 w-full max-w-sm px-4">
+      {toasts.map(({ key, id }) => (
+        <button
+          key={key}
+          onClick={() => onDismiss(key)}
+          className="flex items-center gap-3 bg-gray-900/95 backdrop-blur-sm rounded-xl border border-yellow-500/40 px-4 py-3 text-left shadow-lg shadow-yellow-500/10"
+        >
+          <span className="text-2xl text-yellow-400">★</span>
+          <span>
+            <span className="block text-xs text-yellow-400">Achievement unlocked</span>
+            <span className="block text-sm font-bold text-white">{ACHIEVEMENT_REGISTRY[id].name}</span>
+            <span className="block text-xs text-gray-400">{ACHIEVEMENT_REGISTRY[id].description}</span>
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+}
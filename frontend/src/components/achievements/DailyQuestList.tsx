@@ -0,0 +1,86 @@
+import { formatTokenAmount, formatDuration } from '../../utils/format';
+import type { DailyQuest } from '../../hooks';
+
+interface DailyQuestListProps {
+  quests: DailyQuest[];
+  canClaim: boolean;
+  claimingQuest: string | null;
+  isClaiming: boolean;
+  claimError: Error | null;
+  onClaim: (questId: string) => void;
+}
+
+function formatProgress(quest: DailyQuest): string {
+  if (quest.metric === 'playTime') {
+    return `${formatDuration(Math.min(quest.progress, quest.target))} / ${formatDuration(quest.target)}`;
+  }
+  return `${Math.min(quest.progress, quest.target)} / ${quest.target}`;
+}
+
+export function DailyQuestList({
+  quests,
+  canClaim,
+  claimingQuest,
+  isClaiming,
+  claimError,
+  onClaim,
+}: DailyQuestListProps) {
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-6 border border-purple-500/20">
+      <h3 className="text-lg font-semibold text-white mb-1">Daily Quests</h3>
+      <p className="text-sm text-gray-400 mb-4">
+        New quests every day at midnight UTC. Bonuses vest like session rewards.
+      </p>
+
+      <div className="space-y-3">
+        {quests.map((quest) => {
+          const percent = Math.min((quest.progress / quest.target) * 100, 100);
+
+          return (
+            <div key={quest.id} className="p-3 bg-gray-900/50 rounded-lg">
+              <div className="flex justify-between items-start gap-3">
+                <div>
+                  <p className="text-sm font-bold text-white">{quest.name}</p>
+                  <p className="text-xs text-gray-400">{quest.description}</p>
+                </div>
+                <span className="text-sm font-medium text-purple-400 whitespace-nowrap">
+                  +{formatTokenAmount(quest.reward)} TLSM
+                </span>
+              </div>
+
+              <div className="flex items-center gap-3 mt-3">
+                <div className="flex-1 h-2 bg-gray-700 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-gradient-to-r from-purple-600 to-pink-500"
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+                <span className="text-xs text-gray-400 whitespace-nowrap">{formatProgress(quest)}</span>
+              </div>
+
+              {quest.isComplete && (
+                <div className="mt-3">
+                  {quest.isClaimed ? (
+                    <p className="text-xs text-green-400">Bonus claimed</p>
+                  ) : canClaim ? (
+                    <button
+                      onClick={() => onClaim(quest.id)}
+                      disabled={isClaiming}
+                      className="w-full py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 text-white text-sm font-medium rounded-lg transition-colors"
+                    >
+                      {claimingQuest === quest.id ? 'Claiming...' : 'Claim Bonus'}
+                    </button>
+                  ) : (
+                    <p className="text-xs text-gray-500">Bonuses need the score verifier to be configured</p>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {claimError && <p className="text-sm text-red-400 mt-4">{claimError.message}</p>}
+    </div>
+  );
+}
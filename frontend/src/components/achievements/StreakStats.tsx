@@ -0,0 +1,31 @@
+import type { PlayerProgress } from '../../../../shared/achievements';
+
+interface StreakStatsProps {
+  progress: PlayerProgress;
+}
+
+export function StreakStats({ progress }: StreakStatsProps) {
+  const stats = [
+    { label: 'Runs', value: progress.totalRuns.toLocaleString(), color: 'text-white' },
+    { label: 'Best Distance', value: `${Math.floor(progress.bestDistance).toLocaleString()}m`, color: 'text-white' },
+    { label: 'Day Streak', value: `${progress.dayStreak} (best ${progress.bestDayStreak})`, color: 'text-orange-400' },
+    {
+      label: 'No-Death Streak',
+      value: `${progress.noDeathStreak} (best ${progress.bestNoDeathStreak})`,
+      color: 'text-green-400',
+    },
+  ];
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-6 border border-purple-500/20">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        {stats.map(({ label, value, color }) => (
+          <div key={label}>
+            <p className="text-xs text-gray-400 mb-1">{label}</p>
+            <p className={`text-xl font-bold ${color}`}>{value}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
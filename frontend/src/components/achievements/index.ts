@@ -0,0 +1,5 @@
+export { AchievementList } from './AchievementList';
+export { AchievementToasts } from './AchievementToasts';
+export type { AchievementToast } from './AchievementToasts';
+export { DailyQuestList } from './DailyQuestList';
+export { StreakStats } from './StreakStats';
@@ -1,23 +1,41 @@
-import { useRef, useEffect } from 'react';
+import { useRef, useEffect, useImperativeHandle, type Ref } from 'react';
 import { useDashGame } from '../../hooks/useDashGame';
 import {
   drawGlitchBackground,
   drawScrollingGround,
   drawPlayer,
+  drawGhost,
+  drawGhostHUD,
   drawObstacle,
+  drawPowerUp,
+  drawShield,
   drawRunnerTalisman,
   drawScoreHUD,
   drawGlitchOverlay,
   drawCountdown,
 } from '../../utils/canvas';
 import { CANVAS_WIDTH, CANVAS_HEIGHT } from '../../constants/dashGame';
+import { interpolateDashState, ghostOffset } from '../../../../shared/dash';
+import type { DashRenderFrame, DashReplay, DashRunOwner } from '../../types/dashGame';
+
+// Lets the page end the run in progress, e.g. to submit it when cashing out
+export interface DashGameHandle {
+  finishRun: () => DashReplay | null;
+}
 
 interface DashGameCanvasProps {
   isActive: boolean;
   onScoreUpdate?: (distance: number, talismans: number) => void;
-  onGameOver?: (distance: number, talismans: number) => void;
+  onGameOver?: (distance: number, talismans: number, replay: DashReplay) => void;
   triggerRestart?: boolean;
   onRestartComplete?: () => void;
+  // When set, draws these frames (replay playback) instead of the live game
+  playback?: DashRenderFrame;
+  // Opponent's run to race: same seed, drawn as a translucent second runner
+  ghost?: DashReplay | null;
+  // Latest paid attempt of the player's session; run seeds are derived from it
+  session?: DashRunOwner;
+  ref?: Ref<DashGameHandle>;
 }
 
 export function DashGameCanvas({
@@ -26,20 +44,27 @@ export function DashGameCanvas({
   onGameOver,
   triggerRestart,
   onRestartComplete,
+  playback,
+  ghost,
+  session,
+  ref,
 }: DashGameCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number | undefined>(undefined);
-  const timeRef = useRef(0);
 
-  const { gameState, restartGame } = useDashGame(isActive);
+  const game = useDashGame(isActive && !playback, ghost, session);
+  const { restartGame, getReplay, finishRun } = game;
+  useImperativeHandle(ref, () => ({ finishRun }), [finishRun]);
+  const { gameState, previousState, alpha } = playback ?? game;
 
   // Notify parent of score updates when game over
+  const { isGameOver, distance, talismansCollected } = game.gameState;
   useEffect(() => {
-    if (gameState.isGameOver) {
-      onScoreUpdate?.(gameState.distance, gameState.talismansCollected);
-      onGameOver?.(gameState.distance, gameState.talismansCollected);
+    if (isGameOver) {
+      onScoreUpdate?.(distance, talismansCollected);
+      onGameOver?.(distance, talismansCollected, getReplay());
     }
-  }, [gameState.isGameOver, gameState.distance, gameState.talismansCollected, onScoreUpdate, onGameOver]);
+  }, [isGameOver, distance, talismansCollected, getReplay, onScoreUpdate, onGameOver]);
 
   // Handle external restart trigger
   useEffect(() => {
@@ -82,9 +107,16 @@ export function DashGameCanvas({
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const render = () => {
-      timeRef.current += 0.016;
-      const time = timeRef.current;
+    // Positions are blended between the last two simulation ticks
+    const view = interpolateDashState(previousState, gameState, alpha);
+    const ghostView =
+      gameState.ghost && previousState.ghost
+        ? interpolateDashState(previousState.ghost, gameState.ghost, alpha)
+        : undefined;
+
+    const render = (now: number) => {
+      // Wall-clock animation time, so effects run at the same pace on every display
+      const time = now / 1000;
 
       // Clear canvas
       ctx.clearRect(0, 0, canvas.width, canvas.height);
@@ -93,26 +125,52 @@ export function DashGameCanvas({
       drawGlitchBackground(ctx, canvas, time);
 
       // Draw scrolling ground
-      drawScrollingGround(ctx, canvas, gameState.groundOffset, time);
+      drawScrollingGround(ctx, canvas, view.groundOffset, time);
 
       // Draw obstacles
-      gameState.obstacles.forEach((obstacle) => {
+      view.obstacles.forEach((obstacle) => {
         drawObstacle(ctx, obstacle, time);
       });
 
       // Draw talismans
-      gameState.talismans.forEach((talisman) => {
+      view.talismans.forEach((talisman) => {
         if (!talisman.collected) {
           drawRunnerTalisman(ctx, talisman, time);
         }
       });
 
+      // Draw power-ups
+      view.powerUps.forEach((powerUp) => {
+        if (!powerUp.collected) {
+          drawPowerUp(ctx, powerUp, time);
+        }
+      });
+
+      // Draw the ghost behind the player, shifted by how far apart the two runs are
+      if (ghostView) {
+        const x = ghostView.player.x + ghostOffset(ghostView, view);
+        drawGhost(ctx, { ...ghostView.player, x }, canvas.width, time);
+      }
+
       // Draw player
-      drawPlayer(ctx, gameState.player, time);
+      drawPlayer(ctx, view.player, time);
+      if (view.activePowerUps.shield > 0) {
+        drawShield(ctx, view.player, time);
+      }
 
       // Draw HUD
       if (gameState.isRunning || gameState.isGameOver) {
-        drawScoreHUD(ctx, gameState.distance, gameState.talismansCollected, gameState.speed);
+        drawScoreHUD(
+          ctx,
+          gameState.distance,
+          gameState.talismansCollected,
+          gameState.speed,
+          gameState.activePowerUps
+        );
+        if (gameState.ghost && ghost) {
+          const isGhostDone = gameState.ghost.isGameOver || gameState.ghost.tick >= ghost.ticks;
+          drawGhostHUD(ctx, gameState.ghost.distance - gameState.distance, isGhostDone);
+        }
       }
 
       // Draw countdown overlay
@@ -128,14 +186,14 @@ export function DashGameCanvas({
       animationRef.current = requestAnimationFrame(render);
     };
 
-    render();
+    render(performance.now());
 
     return () => {
       if (animationRef.current) {
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [gameState]);
+  }, [gameState, previousState, alpha, ghost]);
 
   return (
     <div className="absolute inset-0 w-full h-full flex items-center justify-center overflow-hidden bg-gray-950">
@@ -147,9 +205,9 @@ export function DashGameCanvas({
       />
 
       {/* Jump instruction overlay - shows briefly when game starts */}
-      {isActive && gameState.isRunning && gameState.distance < 50 && (
+      {isActive && !playback && gameState.isRunning && gameState.distance < 50 && (
         <div className="absolute bottom-32 left-1/2 -translate-x-1/2 px-4 py-2 bg-gray-900/70 backdrop-blur-sm rounded-lg animate-pulse z-20">
-          <p className="text-sm text-purple-300">Press SPACE or TAP to jump</p>
+          <p className="text-sm text-purple-300">SPACE or TAP to jump (again mid-air to double jump), DOWN or swipe down to duck</p>
         </div>
       )}
     </div>
@@ -12,9 +12,19 @@ import {
 interface GameCanvasProps {
   isActive: boolean;
   onTalismanFound: (count: number) => void;
+  // Called once every talisman in the field has been found
+  onRoundComplete?: (count: number) => void;
+  triggerRestart?: boolean;
+  onRestartComplete?: () => void;
 }
 
-export function GameCanvas({ isActive, onTalismanFound }: GameCanvasProps) {
+export function GameCanvas({
+  isActive,
+  onTalismanFound,
+  onRoundComplete,
+  triggerRestart,
+  onRestartComplete,
+}: GameCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [talismans, setTalismans] = useState<TalismanPosition[]>([]);
   const [foundCount, setFoundCount] = useState(0);
@@ -35,6 +45,14 @@ export function GameCanvas({ isActive, onTalismanFound }: GameCanvasProps) {
     }
   }, [isActive, talismans.length]);
 
+  // Lay out a fresh field for the next round
+  useEffect(() => {
+    if (triggerRestart) {
+      setTalismans([]);
+      onRestartComplete?.();
+    }
+  }, [triggerRestart, onRestartComplete]);
+
   // Animation loop
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -116,12 +134,15 @@ export function GameCanvas({ isActive, onTalismanFound }: GameCanvasProps) {
         if (newFoundCount !== foundCount) {
           setFoundCount(newFoundCount);
           onTalismanFound(newFoundCount);
+          if (newFoundCount === updated.length) {
+            onRoundComplete?.(newFoundCount);
+          }
         }
 
         return updated;
       });
     },
-    [isActive, foundCount, onTalismanFound]
+    [isActive, foundCount, onTalismanFound, onRoundComplete]
   );
 
   return (
@@ -2,8 +2,19 @@ import { useState, useEffect } from 'react';
 import { useAccount } from 'wagmi';
 import { useTalismanToken, useGameSession, useSmartAccount } from '../../hooks';
 import { formatTokenAmount } from '../../utils/format';
+import { GameMode, GAME_MODES } from '../../constants/gameModes';
+import { GasPaymentSelector } from '../wallet/GasPaymentSelector';
 
-export function SessionControls() {
+interface SessionControlsProps {
+  // Continue playing a stale session instead of settling it
+  onResume?: () => void;
+  // Give up a stale session without a reward
+  onForfeit?: () => void;
+  isForfeiting?: boolean;
+  forfeitError?: Error | null;
+}
+
+export function SessionControls({ onResume, onForfeit, isForfeiting, forfeitError }: SessionControlsProps) {
   const { isConnected } = useAccount();
   const { hasAccount, isAccountReady, createAccount, isCreating } = useSmartAccount();
   const {
@@ -13,18 +24,28 @@ export function SessionControls() {
     isApproving,
     isApproveSuccess,
     refetchBalance,
+    sponsorshipNotice: approveNotice,
   } = useTalismanToken();
   const {
+    session,
     isActive,
+    isStale,
+    isExpired,
     sessionCost,
     startSession,
+    settleSession,
     isStarting,
+    isEnding,
     isStartSuccess,
     startError,
+    endError,
     resetStart,
+    resetEnd,
+    sponsorshipNotice: sessionNotice,
   } = useGameSession();
 
   const [showApproval, setShowApproval] = useState(false);
+  const [gameMode, setGameMode] = useState<GameMode>(GameMode.Dash);
 
   const needsApproval = (allowance ?? 0n) < (sessionCost ?? 0n);
   const hasEnoughBalance = (balance ?? 0n) >= (sessionCost ?? 0n);
@@ -34,9 +55,9 @@ export function SessionControls() {
     if (isApproveSuccess && showApproval) {
       setShowApproval(false);
       // Auto-start session after approval
-      startSession?.();
+      startSession?.(gameMode);
     }
-  }, [isApproveSuccess, showApproval, startSession]);
+  }, [isApproveSuccess, showApproval, startSession, gameMode]);
 
   // Refetch balance after starting session
   useEffect(() => {
@@ -49,7 +70,7 @@ export function SessionControls() {
     if (needsApproval) {
       setShowApproval(true);
     } else {
-      startSession?.();
+      startSession?.(gameMode);
     }
   };
 
@@ -101,6 +122,73 @@ export function SessionControls() {
     );
   }
 
+  // Stale session left behind (e.g. tab closed mid-run)
+  if (isActive && isStale && session) {
+    const startedAt = new Date(Number(session.startTime) * 1000).toLocaleString();
+    const modeName = GAME_MODES[session.gameMode].name;
+
+    return (
+      <div className="bg-gray-800/50 rounded-xl p-6 border border-yellow-500/20">
+        <div className="text-center mb-4">
+          <h3 className="text-lg font-bold text-white mb-2">Unfinished Session</h3>
+          <p className="text-sm text-gray-400">
+            Your {modeName} session from {startedAt} is still open and has reached the maximum
+            duration. Resume to collect more talismans, or settle it now for the time reward.
+            {onForfeit && ' Forfeiting closes it without a reward.'}
+          </p>
+          {isExpired && (
+            <p className="text-xs text-yellow-400 mt-2">
+              This session has expired and can be settled by anyone with zero talismans.
+            </p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {onResume && (
+            <button
+              onClick={onResume}
+              disabled={isEnding || isForfeiting}
+              className="flex-1 py-3 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white font-medium rounded-lg transition-colors"
+            >
+              Resume
+            </button>
+          )}
+          <button
+            onClick={() => settleSession?.()}
+            disabled={isEnding || isForfeiting || !isAccountReady}
+            className="flex-1 py-3 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 disabled:from-gray-600 disabled:to-gray-600 text-white font-bold rounded-lg transition-all"
+          >
+            {isEnding ? 'Settling...' : 'Settle Session'}
+          </button>
+        </div>
+        {onForfeit && (
+          <button
+            onClick={onForfeit}
+            disabled={isEnding || isForfeiting || !isAccountReady}
+            className="w-full mt-2 py-2 text-sm text-red-400 hover:text-red-300 disabled:opacity-50 transition-colors"
+          >
+            {isForfeiting ? 'Forfeiting...' : 'Forfeit Session'}
+          </button>
+        )}
+        {forfeitError && <p className="text-xs text-red-400 mt-2 text-center">{forfeitError.message}</p>}
+
+        {/* Error display */}
+        {endError && (
+          <div className="mt-3 p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
+            <div className="flex justify-between items-start">
+              <p className="text-sm text-red-400">{endError.message}</p>
+              <button
+                onClick={resetEnd}
+                className="text-red-400 hover:text-red-300 text-xs ml-2"
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className="bg-gray-800/50 rounded-xl p-6 border border-purple-500/20">
       {/* Session cost info */}
@@ -119,6 +207,34 @@ export function SessionControls() {
         </div>
       </div>
 
+      {/* Gas payment choice for the session's transactions */}
+      {!isActive && (
+        <div className="mb-4">
+          <GasPaymentSelector />
+        </div>
+      )}
+
+      {/* Game mode selector */}
+      {!isActive && (
+        <div className="mb-4 grid grid-cols-2 gap-2">
+          {GAME_MODES.map(({ mode, name, description }) => (
+            <button
+              key={mode}
+              onClick={() => setGameMode(mode)}
+              disabled={isStarting || isApproving}
+              className={`p-3 rounded-lg border text-left transition-colors ${
+                gameMode === mode
+                  ? 'bg-purple-500/20 border-purple-400'
+                  : 'bg-gray-900/50 border-gray-700 hover:border-purple-500/50'
+              }`}
+            >
+              <p className="text-sm font-bold text-white">{name}</p>
+              <p className="text-xs text-gray-400 mt-1">{description}</p>
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Approval modal */}
       {showApproval && (
         <div className="mb-4 p-4 bg-purple-500/10 border border-purple-500/30 rounded-lg">
@@ -179,6 +295,13 @@ export function SessionControls() {
         </button>
       )}
 
+      {/* Gas couldn't be paid the chosen way: the transaction fell back */}
+      {(approveNotice || sessionNotice) && (
+        <div className="mt-3 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+          <p className="text-sm text-yellow-400">{approveNotice ?? sessionNotice}</p>
+        </div>
+      )}
+
       {/* Error display */}
       {startError && (
         <div className="mt-3 p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
@@ -196,7 +319,7 @@ export function SessionControls() {
 
       {/* Help text */}
       <p className="mt-3 text-xs text-gray-500 text-center">
-        Start a session to begin running. Collect talismans for bonus rewards!
+        Start a session to begin playing. Collect talismans for bonus rewards!
       </p>
     </div>
   );
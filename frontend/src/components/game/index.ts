@@ -1,4 +1,6 @@
 export { DashGameCanvas } from './DashGameCanvas';
+export type { DashGameHandle } from './DashGameCanvas';
+export { GameCanvas } from './GameCanvas';
 export { SessionTimer } from './SessionTimer';
 export { SessionControls } from './SessionControls';
 export { RewardDisplay } from './RewardDisplay';
@@ -0,0 +1,35 @@
+import { formatTokenAmount, formatDuration } from '../../utils/format';
+import type { SessionHistoryTotals } from '../../hooks';
+
+interface HistoryTotalsProps {
+  totals: SessionHistoryTotals;
+}
+
+export function HistoryTotals({ totals }: HistoryTotalsProps) {
+  const stats = [
+    { label: 'Sessions', value: totals.sessions.toString(), color: 'text-white' },
+    { label: 'Attempts', value: totals.attempts.toString(), color: 'text-white' },
+    { label: 'Play Time', value: formatDuration(totals.playTime), color: 'text-white' },
+    { label: 'Talismans', value: `★ ${totals.talismans}`, color: 'text-yellow-400' },
+  ];
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-6 border border-purple-500/20">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-6">
+        {stats.map(({ label, value, color }) => (
+          <div key={label}>
+            <p className="text-xs text-gray-400 mb-1">{label}</p>
+            <p className={`text-xl font-bold ${color}`}>{value}</p>
+          </div>
+        ))}
+      </div>
+      <div className="h-px bg-gray-700 mb-4" />
+      <div className="flex justify-between items-baseline">
+        <span className="text-sm text-gray-400">Total Rewards</span>
+        <span className="text-2xl font-bold text-purple-400">
+          {formatTokenAmount(totals.reward)} TLSM
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { formatTokenAmount, formatDuration, formatDate } from '../../utils/format';
+import { GAME_MODES } from '../../constants/gameModes';
+import type { SessionRecord } from '../../hooks';
+
+interface SessionHistoryListProps {
+  records: SessionRecord[];
+}
+
+export function SessionHistoryList({ records }: SessionHistoryListProps) {
+  return (
+    <div className="bg-gray-800/50 rounded-xl border border-purple-500/20 divide-y divide-gray-700/50">
+      {records.map((record) => (
+        <div key={record.id} className="p-4 flex items-center justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-white">Session #{record.id + 1}</span>
+              <span className="px-2 py-0.5 text-xs rounded bg-purple-500/20 text-purple-300">
+                {GAME_MODES[record.gameMode]?.name ?? 'Unknown'}
+              </span>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              {formatDate(Number(record.startTime))} · {formatDuration(Number(record.duration))} ·{' '}
+              {record.attempts} {record.attempts === 1 ? 'attempt' : 'attempts'}
+            </p>
+          </div>
+
+          <div className="text-right">
+            <p className="text-sm font-bold text-purple-400">
+              {formatTokenAmount(record.reward)} TLSM
+            </p>
+            <p className="text-xs text-gray-400 mt-1">
+              <span className="text-yellow-400">★ {record.talismansCollected}</span> ·{' '}
+              <span className="text-green-400">{(record.multiplier / 100).toFixed(1)}x</span>
+            </p>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
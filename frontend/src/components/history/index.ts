@@ -0,0 +1,2 @@
+export { HistoryTotals } from './HistoryTotals';
+export { SessionHistoryList } from './SessionHistoryList';
@@ -2,3 +2,9 @@ export * from './layout';
 export * from './wallet';
 export * from './game';
 export * from './rewards';
+export * from './replay';
+export * from './history';
+export * from './achievements';
+export * from './leaderboard';
+export * from './tournament';
+export * from './race';
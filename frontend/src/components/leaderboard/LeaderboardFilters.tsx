@@ -0,0 +1,55 @@
+import type { LeaderboardPeriod, LeaderboardSort } from '../../utils/indexer';
+
+const PERIODS: { value: LeaderboardPeriod; label: string }[] = [
+  { value: 'daily', label: 'Today' },
+  { value: 'weekly', label: 'This Week' },
+  { value: 'all', label: 'All Time' },
+];
+
+const SORTS: { value: LeaderboardSort; label: string }[] = [
+  { value: 'reward', label: 'Rewards' },
+  { value: 'talismans', label: 'Talismans' },
+  { value: 'sessions', label: 'Sessions' },
+];
+
+interface LeaderboardFiltersProps {
+  period: LeaderboardPeriod;
+  sort: LeaderboardSort;
+  onPeriodChange: (period: LeaderboardPeriod) => void;
+  onSortChange: (sort: LeaderboardSort) => void;
+}
+
+export function LeaderboardFilters({ period, sort, onPeriodChange, onSortChange }: LeaderboardFiltersProps) {
+  return (
+    <div className="flex flex-col sm:flex-row justify-between gap-3">
+      <div className="flex bg-gray-800/50 rounded-lg p-1 border border-purple-500/20">
+        {PERIODS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => onPeriodChange(value)}
+            className={`flex-1 px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+              period === value ? 'bg-purple-600 text-white' : 'text-gray-400 hover:text-white'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-400">
+        Rank by
+        <select
+          value={sort}
+          onChange={(e) => onSortChange(e.target.value as LeaderboardSort)}
+          className="bg-gray-800 border border-purple-500/20 rounded-lg px-3 py-2 text-white"
+        >
+          {SORTS.map(({ value, label }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
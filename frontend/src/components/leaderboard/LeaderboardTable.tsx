@@ -0,0 +1,47 @@
+import { formatTokenAmount, formatDuration, shortenAddress } from '../../utils/format';
+import type { LeaderboardEntry } from '../../utils/indexer';
+
+interface LeaderboardTableProps {
+  entries: LeaderboardEntry[];
+  // Highlighted row, e.g. the connected player's smart account
+  playerAddress?: string;
+}
+
+const PODIUM_COLORS = ['text-yellow-400', 'text-gray-300', 'text-amber-600'];
+
+export function LeaderboardTable({ entries, playerAddress }: LeaderboardTableProps) {
+  return (
+    <div className="bg-gray-800/50 rounded-xl border border-purple-500/20 divide-y divide-gray-700/50">
+      {entries.map((entry) => {
+        const isPlayer = entry.player.toLowerCase() === playerAddress?.toLowerCase();
+
+        return (
+          <div
+            key={entry.player}
+            className={`p-4 flex items-center justify-between gap-4 ${isPlayer ? 'bg-purple-500/10' : ''}`}
+          >
+            <div className="flex items-center gap-4">
+              <span className={`w-8 text-center text-lg font-bold ${PODIUM_COLORS[entry.rank - 1] ?? 'text-gray-500'}`}>
+                {entry.rank}
+              </span>
+              <div>
+                <p className="text-sm font-medium text-white font-mono">
+                  {shortenAddress(entry.player)}
+                  {isPlayer && <span className="ml-2 text-xs text-purple-300 font-sans">You</span>}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {entry.sessions} {entry.sessions === 1 ? 'session' : 'sessions'} · {formatDuration(entry.playTime)}
+                </p>
+              </div>
+            </div>
+
+            <div className="text-right">
+              <p className="text-sm font-bold text-purple-400">{formatTokenAmount(entry.reward)} TLSM</p>
+              <p className="text-xs text-yellow-400 mt-1">★ {entry.talismans}</p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { LeaderboardFilters } from './LeaderboardFilters';
+export { LeaderboardTable } from './LeaderboardTable';
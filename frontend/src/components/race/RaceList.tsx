@@ -0,0 +1,136 @@
+import { zeroAddress } from 'viem';
+import { formatTokenAmount, shortenAddress } from '../../utils/format';
+import type { RaceAction, RaceInfo } from '../../hooks/useRaceEscrow';
+
+interface RaceListProps {
+  races: RaceInfo[];
+  playerAddress?: string;
+  // Stake the escrow may already pull from the smart account
+  allowance: bigint;
+  // Race whose ghost is currently loaded
+  selectedRaceId?: bigint;
+  pending: { raceId?: bigint; action: RaceAction } | null;
+  isPending: boolean;
+  onRace: (race: RaceInfo) => void;
+  onApprove: (race: RaceInfo) => void;
+  onAccept: (raceId: bigint) => void;
+  onCancel: (raceId: bigint) => void;
+  onClaim: (raceId: bigint) => void;
+}
+
+const PENDING_LABELS: Record<RaceAction, string> = {
+  approve: 'Approving...',
+  create: 'Creating...',
+  accept: 'Accepting...',
+  submit: 'Submitting...',
+  cancel: 'Cancelling...',
+  claim: 'Claiming...',
+};
+
+function isSame(a: string, b?: string): boolean {
+  return !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+function describeRace(race: RaceInfo, playerAddress?: string): string {
+  switch (race.status) {
+    case 'open':
+      return race.isExpired ? 'Expired' : 'Open';
+    case 'accepted':
+      return race.isOverdue ? 'Challenger ran out of time' : `Racing ${shortenAddress(race.challenger)}`;
+    case 'settled':
+      if (race.winner === zeroAddress) return 'Tie — stakes returned';
+      return isSame(race.winner, playerAddress) ? 'You won' : `Won by ${shortenAddress(race.winner)}`;
+    case 'cancelled':
+      return 'Cancelled';
+    default:
+      return '';
+  }
+}
+
+export function RaceList({
+  races,
+  playerAddress,
+  allowance,
+  selectedRaceId,
+  pending,
+  isPending,
+  onRace,
+  onApprove,
+  onAccept,
+  onCancel,
+  onClaim,
+}: RaceListProps) {
+  if (races.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-4">No races yet — finish a run and challenge others.</p>;
+  }
+
+  const buttonClass =
+    'px-3 py-1 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 text-white text-xs font-medium rounded-lg transition-colors';
+
+  return (
+    <div className="divide-y divide-gray-700/50">
+      {races.map((race) => {
+        const isCreator = isSame(race.creator, playerAddress);
+        const isChallenger = isSame(race.challenger, playerAddress);
+        const pendingAction = pending?.raceId === race.id ? pending.action : undefined;
+        const canAccept = race.status === 'open' && !race.isExpired && !isCreator;
+        // Practice against open ghosts; the staked attempt is the one after accepting
+        const canRace = canAccept || (race.status === 'accepted' && isChallenger && !race.isOverdue);
+
+        return (
+          <div
+            key={race.id.toString()}
+            className={`py-2 px-3 flex items-center justify-between gap-4 ${
+              race.id === selectedRaceId ? 'bg-purple-500/10 rounded' : ''
+            }`}
+          >
+            <div>
+              <p className="text-sm text-white">
+                <span className="font-bold text-purple-400">{race.creatorDistance.toString()}m</span>
+                <span className="text-gray-400"> by </span>
+                <span className="font-mono">{isCreator ? 'You' : shortenAddress(race.creator)}</span>
+              </p>
+              <p className="text-xs text-gray-400">
+                #{race.id.toString()} · {formatTokenAmount(race.stake)} TLSM each · {describeRace(race, playerAddress)}
+              </p>
+            </div>
+
+            <div className="flex items-center gap-2">
+              {pendingAction ? (
+                <span className="text-xs text-gray-400">{PENDING_LABELS[pendingAction]}</span>
+              ) : (
+                <>
+                  {canRace && (
+                    <button onClick={() => onRace(race)} disabled={isPending} className={buttonClass}>
+                      Race Ghost
+                    </button>
+                  )}
+                  {canAccept &&
+                    (allowance < race.stake ? (
+                      <button onClick={() => onApprove(race)} disabled={isPending} className={buttonClass}>
+                        Approve {formatTokenAmount(race.stake)} TLSM
+                      </button>
+                    ) : (
+                      <button onClick={() => onAccept(race.id)} disabled={isPending} className={buttonClass}>
+                        Accept
+                      </button>
+                    ))}
+                  {race.status === 'open' && isCreator && (
+                    <button onClick={() => onCancel(race.id)} disabled={isPending} className={buttonClass}>
+                      Cancel
+                    </button>
+                  )}
+                  {race.isOverdue && (
+                    <button onClick={() => onClaim(race.id)} disabled={isPending} className={buttonClass}>
+                      Award to Creator
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { parseUnits } from 'viem';
+import { formatTokenAmount } from '../../utils/format';
+import type { RaceAction } from '../../hooks/useRaceEscrow';
+import type { RaceOutcome } from '../../../../shared/dash';
+
+interface RaceResultProps {
+  outcome: RaceOutcome;
+  distance: number;
+  ghostName: string;
+  ghostDistance: number;
+  onRaceAgain: () => void;
+  onDownload: () => void;
+  // Staking needs the escrow and the score verifier; omitted for local-only play
+  staking?: {
+    allowance: bigint;
+    pendingAction?: RaceAction;
+    isPending: boolean;
+    // Set when this run was the challenger's attempt in an accepted race
+    onSubmit?: () => void;
+    onApprove: (amount: bigint) => void;
+    onChallenge: (stake: bigint) => void;
+  };
+}
+
+const OUTCOME_STYLES: Record<RaceOutcome, { label: string; className: string }> = {
+  win: { label: 'You beat the ghost!', className: 'text-green-400' },
+  loss: { label: 'The ghost got away', className: 'text-red-400' },
+  tie: { label: 'Dead heat', className: 'text-yellow-400' },
+};
+
+const DEFAULT_STAKE = '10';
+
+export function RaceResult({
+  outcome,
+  distance,
+  ghostName,
+  ghostDistance,
+  onRaceAgain,
+  onDownload,
+  staking,
+}: RaceResultProps) {
+  const [stakeInput, setStakeInput] = useState(DEFAULT_STAKE);
+  const style = OUTCOME_STYLES[outcome];
+
+  let stake = 0n;
+  try {
+    stake = parseUnits(stakeInput || '0', 18);
+  } catch {
+    // Leave the stake at zero until the input parses
+  }
+
+  const buttonClass =
+    'w-full py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 text-white text-sm font-medium rounded-lg transition-colors';
+
+  return (
+    <div className="bg-gray-900/90 backdrop-blur-sm rounded-xl p-6 border border-purple-500/30 w-full max-w-sm">
+      <h2 className={`text-2xl font-bold text-center mb-4 ${style.className}`}>{style.label}</h2>
+
+      <div className="grid grid-cols-2 gap-3 mb-4 text-center">
+        <div className="bg-gray-800/50 rounded-lg p-3">
+          <p className="text-xs text-gray-400">You</p>
+          <p className="text-lg font-bold text-white">{Math.floor(distance)}m</p>
+        </div>
+        <div className="bg-gray-800/50 rounded-lg p-3">
+          <p className="text-xs text-gray-400">{ghostName}</p>
+          <p className="text-lg font-bold text-cyan-300">{Math.floor(ghostDistance)}m</p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {staking?.onSubmit && (
+          <button onClick={staking.onSubmit} disabled={staking.isPending} className={buttonClass}>
+            {staking.pendingAction === 'submit' ? 'Submitting...' : 'Submit Race Result'}
+          </button>
+        )}
+
+        <button onClick={onRaceAgain} className={buttonClass}>
+          Race Again
+        </button>
+        <button
+          onClick={onDownload}
+          className="w-full py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm font-medium rounded-lg transition-colors"
+        >
+          Download Run
+        </button>
+      </div>
+
+      {/* Stake on this run: it becomes the ghost others race */}
+      {staking && (
+        <div className="mt-4 pt-4 border-t border-gray-700/50">
+          <p className="text-sm text-gray-300 mb-2">Challenge others with this run</p>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min="0"
+              value={stakeInput}
+              onChange={(e) => setStakeInput(e.target.value)}
+              className="w-24 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-sm text-white"
+            />
+            {staking.allowance < stake ? (
+              <button
+                onClick={() => staking.onApprove(stake)}
+                disabled={staking.isPending || stake === 0n}
+                className={buttonClass}
+              >
+                {staking.pendingAction === 'approve' ? 'Approving...' : `Approve ${formatTokenAmount(stake)} TLSM`}
+              </button>
+            ) : (
+              <button
+                onClick={() => staking.onChallenge(stake)}
+                disabled={staking.isPending || stake === 0n}
+                className={buttonClass}
+              >
+                {staking.pendingAction === 'create' ? 'Creating...' : 'Stake & Challenge'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { RaceList } from './RaceList';
+export { RaceResult } from './RaceResult';
@@ -0,0 +1,72 @@
+import { REPLAY_SPEEDS, formatTime, type ReplaySpeed } from '../../hooks';
+import { TICK_RATE } from '../../constants/dashGame';
+
+interface ReplayControlsProps {
+  tick: number;
+  totalTicks: number;
+  isPlaying: boolean;
+  speed: ReplaySpeed;
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (tick: number) => void;
+  onSpeedChange: (speed: ReplaySpeed) => void;
+}
+
+function formatTick(tick: number): string {
+  return formatTime(Math.floor(tick / TICK_RATE));
+}
+
+export function ReplayControls({
+  tick,
+  totalTicks,
+  isPlaying,
+  speed,
+  onPlay,
+  onPause,
+  onSeek,
+  onSpeedChange,
+}: ReplayControlsProps) {
+  return (
+    <div className="bg-gray-900/90 backdrop-blur-sm rounded-xl border border-purple-500/30 p-4 space-y-3">
+      {/* Scrub bar */}
+      <input
+        type="range"
+        min={0}
+        max={totalTicks}
+        value={tick}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        className="w-full accent-purple-500"
+      />
+
+      <div className="flex items-center justify-between gap-4">
+        <button
+          onClick={isPlaying ? onPause : onPlay}
+          className="px-4 py-2 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 rounded-lg font-semibold text-sm transition-all"
+        >
+          {isPlaying ? 'Pause' : 'Play'}
+        </button>
+
+        <p className="text-sm font-mono text-gray-300">
+          {formatTick(tick)} / {formatTick(totalTicks)}
+        </p>
+
+        {/* Playback speed */}
+        <div className="flex gap-1">
+          {REPLAY_SPEEDS.map((option) => (
+            <button
+              key={option}
+              onClick={() => onSpeedChange(option)}
+              className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                option === speed
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-gray-800 text-gray-400 hover:text-white'
+              }`}
+            >
+              {option}x
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { DashGameCanvas } from '../game/DashGameCanvas';
+import { ReplayControls } from './ReplayControls';
+import { useDashReplay } from '../../hooks';
+import type { DashReplay } from '../../types/dashGame';
+
+interface ReplayViewerProps {
+  replay: DashReplay;
+}
+
+export function ReplayViewer({ replay }: ReplayViewerProps) {
+  const playback = useDashReplay(replay);
+
+  return (
+    <>
+      <DashGameCanvas isActive={false} playback={playback} />
+
+      <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 w-full max-w-xl px-4">
+        <ReplayControls
+          tick={playback.tick}
+          totalTicks={playback.totalTicks}
+          isPlaying={playback.isPlaying}
+          speed={playback.speed}
+          onPlay={playback.play}
+          onPause={playback.pause}
+          onSeek={playback.seek}
+          onSpeedChange={playback.setSpeed}
+        />
+      </div>
+    </>
+  );
+}
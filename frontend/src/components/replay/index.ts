@@ -0,0 +1,2 @@
+export { ReplayViewer } from './ReplayViewer';
+export { ReplayControls } from './ReplayControls';
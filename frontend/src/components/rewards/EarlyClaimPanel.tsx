@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { useGameRewards, useTalismanToken } from '../../hooks';
+import { formatTokenAmount } from '../../utils/format';
+
+interface EarlyClaimQuote {
+  amount: bigint;
+  penalty: bigint;
+}
+
+export function EarlyClaimPanel() {
+  const {
+    claimableAmount,
+    earlyClaimPreview,
+    earlyUnlockPenaltyPercent,
+    burnEarlyUnlockPenalty,
+    earlyClaim,
+    refetchEarlyClaim,
+    isClaiming,
+    isClaimSuccess,
+    claimError,
+  } = useGameRewards();
+  const { refetchBalance } = useTalismanToken();
+
+  // Quote the player reviews; its penalty is the most the claim may charge
+  const [quote, setQuote] = useState<EarlyClaimQuote | null>(null);
+
+  // Refetch token balance and close the confirmation after claim succeeds
+  useEffect(() => {
+    if (isClaimSuccess) {
+      refetchBalance();
+      setQuote(null);
+    }
+  }, [isClaimSuccess, refetchBalance]);
+
+  const locked = earlyClaimPreview.amount + earlyClaimPreview.penalty - claimableAmount;
+  if (locked <= 0n) return null;
+
+  const reviewEarlyClaim = async () => {
+    const { data } = await refetchEarlyClaim();
+    if (data) setQuote({ amount: data[0], penalty: data[1] });
+  };
+
+  const shown = quote ?? earlyClaimPreview;
+  const penaltyDestination = burnEarlyUnlockPenalty ? 'Burned' : 'Returned to reward pool';
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-6 border border-amber-500/20">
+      <h3 className="text-lg font-semibold text-white mb-1">Unlock Early</h3>
+      <p className="text-sm text-gray-400 mb-4">
+        Claim your unvested tokens now. The penalty starts at {earlyUnlockPenaltyPercent.toString()}%
+        of the unvested amount and shrinks to zero as each tranche vests.
+      </p>
+
+      {/* Breakdown */}
+      <div className="space-y-3 mb-6">
+        <div className="flex justify-between items-center text-sm">
+          <span className="text-gray-400">Still Vesting</span>
+          <span className="text-gray-300">{formatTokenAmount(locked)} TLSM</span>
+        </div>
+        <div className="flex justify-between items-center text-sm">
+          <span className="text-gray-400">Penalty ({penaltyDestination})</span>
+          <span className="text-amber-400">-{formatTokenAmount(shown.penalty)} TLSM</span>
+        </div>
+        <div className="h-px bg-gray-700" />
+        <div className="flex justify-between items-center text-sm font-medium">
+          <span className="text-gray-300">You Receive</span>
+          <span className="text-white">{formatTokenAmount(shown.amount)} TLSM</span>
+        </div>
+      </div>
+
+      {claimError && (
+        <p className="text-sm text-red-400 mb-4">{claimError.message}</p>
+      )}
+
+      {quote ? (
+        <div className="space-y-3">
+          <p className="text-xs text-gray-400">
+            Penalty is quoted for the latest block and only falls while you sign; the claim reverts
+            if it would exceed {formatTokenAmount(quote.penalty)} TLSM.
+          </p>
+          <div className="flex gap-3">
+            <button
+              onClick={() => setQuote(null)}
+              disabled={isClaiming}
+              className="flex-1 py-3 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white font-medium rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => earlyClaim(quote.penalty)}
+              disabled={isClaiming}
+              className="flex-1 py-3 bg-amber-600 hover:bg-amber-700 disabled:bg-gray-600 text-white font-bold rounded-lg transition-colors"
+            >
+              {isClaiming ? 'Claiming...' : `Confirm and claim ${formatTokenAmount(quote.amount)} TLSM`}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={reviewEarlyClaim}
+          disabled={isClaiming}
+          className="w-full py-3 border border-amber-500/50 hover:bg-amber-500/10 disabled:opacity-50 text-amber-300 font-medium rounded-lg transition-colors"
+        >
+          Review early unlock
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { usePoolHealth } from '../../hooks';
+import { formatTokenAmount } from '../../utils/format';
+
+export function PoolHealthPanel() {
+  const { health } = usePoolHealth();
+
+  if (!health) return null;
+
+  const { balance, unclaimed, reserved, available, sessionCapacity, committedPercent } = health;
+  const isLow = sessionCapacity === 0n;
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-6 border border-purple-500/20">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-white">Reward Pool</h3>
+        <span
+          className={`text-xs font-medium px-2 py-1 rounded-full ${
+            isLow ? 'bg-red-500/20 text-red-300' : 'bg-green-500/20 text-green-300'
+          }`}
+        >
+          {isLow ? 'No room for new sessions' : `Room for ${sessionCapacity.toString()} max sessions`}
+        </span>
+      </div>
+
+      {/* Committed share of the pool */}
+      <div className="h-2 bg-gray-700 rounded-full overflow-hidden mb-4">
+        <div
+          className="h-full bg-gradient-to-r from-purple-600 to-pink-500"
+          style={{ width: `${Math.min(committedPercent, 100)}%` }}
+        />
+      </div>
+
+      {/* Breakdown */}
+      <div className="space-y-3">
+        <div className="flex justify-between items-center text-sm">
+          <span className="text-gray-400">Owed to Players</span>
+          <span className="text-gray-300">{formatTokenAmount(unclaimed)} TLSM</span>
+        </div>
+        <div className="flex justify-between items-center text-sm">
+          <span className="text-gray-400">Reserved for Active Sessions</span>
+          <span className="text-gray-300">{formatTokenAmount(reserved)} TLSM</span>
+        </div>
+        <div className="flex justify-between items-center text-sm">
+          <span className="text-gray-400">Available for New Sessions</span>
+          <span className="text-gray-300">{formatTokenAmount(available)} TLSM</span>
+        </div>
+        <div className="h-px bg-gray-700" />
+        <div className="flex justify-between items-center text-sm font-medium">
+          <span className="text-gray-300">Pool Balance</span>
+          <span className="text-white">{formatTokenAmount(balance)} TLSM</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,19 @@
 import type { VestingSchedule } from '../../hooks';
 import { formatTokenAmount, formatDate } from '../../utils/format';
+import { vestedAmount } from '../../../../shared/vesting';
 
 interface VestingTimelineProps {
-  schedule: VestingSchedule | null;
-  vestingDuration: number;
+  // Open tranches, one per rewarded session
+  tranches: readonly VestingSchedule[];
 }
 
-export function VestingTimeline({ schedule, vestingDuration }: VestingTimelineProps) {
-  if (!schedule || schedule.totalAmount === 0n) {
+// Fraction of a tranche vested at the given time (0-1), following its curve
+function vestedFraction(tranche: VestingSchedule, now: number): number {
+  return Number(vestedAmount(tranche, now)) / Number(tranche.totalAmount);
+}
+
+export function VestingTimeline({ tranches }: VestingTimelineProps) {
+  if (tranches.length === 0) {
     return (
       <div className="bg-gray-800/50 rounded-xl p-6 border border-purple-500/20">
         <h3 className="text-lg font-semibold text-white mb-4">Vesting Schedule</h3>
@@ -36,11 +42,14 @@ export function VestingTimeline({ schedule, vestingDuration }: VestingTimelinePr
     );
   }
 
+  // One timeline spanning every tranche
   const now = Math.floor(Date.now() / 1000);
-  const startTime = Number(schedule.startTime);
-  const endTime = startTime + vestingDuration;
-  const elapsed = now - startTime;
-  const progress = Math.min((elapsed / vestingDuration) * 100, 100);
+  const startTime = Math.min(...tranches.map((t) => Number(t.startTime)));
+  const endTime = Math.max(...tranches.map((t) => Number(t.startTime + t.duration)));
+  const span = Math.max(endTime - startTime, 1);
+  const totalAmount = tranches.reduce((sum, t) => sum + t.totalAmount, 0n);
+  const vested = tranches.reduce((sum, t) => sum + Number(t.totalAmount) * vestedFraction(t, now), 0);
+  const progress = Math.min((vested / Number(totalAmount)) * 100, 100);
   const isComplete = now >= endTime;
 
   return (
@@ -53,7 +62,7 @@ export function VestingTimeline({ schedule, vestingDuration }: VestingTimelinePr
           <span className="text-sm text-gray-400">Total Rewards</span>
           <div className="text-right">
             <span className="text-xl font-bold text-white">
-              {formatTokenAmount(schedule.totalAmount)}
+              {formatTokenAmount(totalAmount)}
             </span>
             <span className="text-purple-400 ml-2">TLSM</span>
           </div>
@@ -80,6 +89,41 @@ export function VestingTimeline({ schedule, vestingDuration }: VestingTimelinePr
         </div>
       </div>
 
+      {/* Tranches - each bar is placed on the shared timeline */}
+      <div className="mb-4 space-y-2">
+        {tranches.map((tranche, index) => {
+          const fraction = vestedFraction(tranche, now);
+          return (
+            <div key={`${tranche.startTime}-${index}`} className="flex items-center gap-3">
+              <div className="relative flex-1 h-2 bg-gray-900/50 rounded-full">
+                <div
+                  className="absolute h-full bg-gray-700 rounded-full overflow-hidden"
+                  style={{
+                    left: `${((Number(tranche.startTime) - startTime) / span) * 100}%`,
+                    width: `${(Number(tranche.duration) / span) * 100}%`,
+                  }}
+                >
+                  <div
+                    className={`h-full ${fraction >= 1 ? 'bg-green-500' : 'bg-purple-500'}`}
+                    style={{ width: `${fraction * 100}%` }}
+                  />
+                  {/* Cliff marker */}
+                  {tranche.cliff > 0n && (
+                    <div
+                      className="absolute top-0 h-full w-0.5 bg-yellow-400"
+                      style={{ left: `${(Number(tranche.cliff) / Number(tranche.duration)) * 100}%` }}
+                    />
+                  )}
+                </div>
+              </div>
+              <span className="w-24 text-right text-xs text-gray-400">
+                {formatTokenAmount(tranche.totalAmount)} TLSM
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
       {/* Timeline dates */}
       <div className="flex justify-between text-xs text-gray-500">
         <div>
@@ -1,3 +1,5 @@
 export { VestingTimeline } from './VestingTimeline';
 export { ClaimableAmount } from './ClaimableAmount';
 export { ClaimButton } from './ClaimButton';
+export { EarlyClaimPanel } from './EarlyClaimPanel';
+export { PoolHealthPanel } from './PoolHealthPanel';
@@ -0,0 +1,136 @@
+import { formatTokenAmount } from '../../utils/format';
+import type { TournamentAction, TournamentInfo, TournamentStatus } from '../../hooks/useTournament';
+import { TournamentStandings } from './TournamentStandings';
+
+interface TournamentCardProps {
+  tournament: TournamentInfo;
+  playerAddress?: string;
+  // Entry fee the tournament may already pull from the smart account
+  allowance: bigint;
+  pendingAction?: TournamentAction;
+  isPending: boolean;
+  onApprove: (tournament: TournamentInfo) => void;
+  onEnter: (tournamentId: bigint) => void;
+  onFinalize: (tournamentId: bigint) => void;
+  onClaim: (tournamentId: bigint) => void;
+}
+
+const STATUS_STYLES: Record<TournamentStatus, { label: string; className: string }> = {
+  upcoming: { label: 'Upcoming', className: 'bg-blue-500/20 text-blue-300' },
+  running: { label: 'Live', className: 'bg-green-500/20 text-green-300' },
+  ended: { label: 'Awaiting Results', className: 'bg-yellow-500/20 text-yellow-300' },
+  finalized: { label: 'Finalized', className: 'bg-gray-500/20 text-gray-300' },
+};
+
+function formatWindowTime(timestamp: bigint): string {
+  return new Date(Number(timestamp) * 1000).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function TournamentCard({
+  tournament,
+  playerAddress,
+  allowance,
+  pendingAction,
+  isPending,
+  onApprove,
+  onEnter,
+  onFinalize,
+  onClaim,
+}: TournamentCardProps) {
+  const { id, status, entryFee, prizePool, entrantCount, hasEntered, bestDistance, prize, isPrizeClaimed } = tournament;
+  const style = STATUS_STYLES[status];
+  const canEnter = !hasEntered && (status === 'upcoming' || status === 'running');
+  const needsApproval = entryFee > 0n && allowance < entryFee;
+  // Nobody scored: entrants get their fee back instead of a prize
+  const isRefund = tournament.finalized && tournament.standings.length === 0;
+
+  const buttonClass =
+    'w-full py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 text-white text-sm font-medium rounded-lg transition-colors';
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-6 border border-purple-500/20">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Tournament #{id.toString()}</h3>
+          <p className="text-xs text-gray-400 mt-1">
+            {formatWindowTime(tournament.startTime)} – {formatWindowTime(tournament.endTime)}
+          </p>
+        </div>
+        <span className={`text-xs font-medium px-2 py-1 rounded-full ${style.className}`}>{style.label}</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mb-4 text-center">
+        <div className="bg-gray-900/50 rounded-lg p-3">
+          <p className="text-xs text-gray-400">Prize Pool</p>
+          <p className="text-sm font-bold text-purple-400">{formatTokenAmount(prizePool)} TLSM</p>
+        </div>
+        <div className="bg-gray-900/50 rounded-lg p-3">
+          <p className="text-xs text-gray-400">Entry Fee</p>
+          <p className="text-sm font-bold text-white">{formatTokenAmount(entryFee)} TLSM</p>
+        </div>
+        <div className="bg-gray-900/50 rounded-lg p-3">
+          <p className="text-xs text-gray-400">Entrants</p>
+          <p className="text-sm font-bold text-white">{entrantCount}</p>
+        </div>
+      </div>
+
+      {/* Live standings, paid out by the payout table at close */}
+      <div className="mb-4">
+        <h4 className="text-sm font-medium text-gray-300 mb-2">Standings</h4>
+        <TournamentStandings
+          standings={tournament.standings}
+          payoutTable={tournament.payoutTable}
+          playerAddress={playerAddress}
+        />
+      </div>
+
+      {hasEntered && status !== 'finalized' && (
+        <p className="text-xs text-gray-400 mb-3">
+          {bestDistance > 0n
+            ? `Your best: ${bestDistance.toString()}m`
+            : 'Entered — your best Dash run during the window will count'}
+        </p>
+      )}
+
+      {canEnter &&
+        (needsApproval ? (
+          <button onClick={() => onApprove(tournament)} disabled={isPending} className={buttonClass}>
+            {pendingAction === 'approve' ? 'Approving...' : `Approve ${formatTokenAmount(entryFee)} TLSM`}
+          </button>
+        ) : (
+          <button onClick={() => onEnter(id)} disabled={isPending} className={buttonClass}>
+            {pendingAction === 'enter' ? 'Entering...' : 'Enter Tournament'}
+          </button>
+        ))}
+
+      {status === 'ended' && (
+        <button onClick={() => onFinalize(id)} disabled={isPending} className={buttonClass}>
+          {pendingAction === 'finalize' ? 'Finalizing...' : 'Finalize Results'}
+        </button>
+      )}
+
+      {tournament.finalized &&
+        hasEntered &&
+        (isPrizeClaimed ? (
+          <p className="text-xs text-green-400 text-center">{isRefund ? 'Entry fee refunded' : 'Prize claimed'}</p>
+        ) : isRefund ? (
+          entryFee > 0n && (
+            <button onClick={() => onClaim(id)} disabled={isPending} className={buttonClass}>
+              {pendingAction === 'claim' ? 'Claiming...' : `Reclaim ${formatTokenAmount(entryFee)} TLSM`}
+            </button>
+          )
+        ) : (
+          prize > 0n && (
+            <button onClick={() => onClaim(id)} disabled={isPending} className={buttonClass}>
+              {pendingAction === 'claim' ? 'Claiming...' : `Claim ${formatTokenAmount(prize)} TLSM`}
+            </button>
+          )
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { shortenAddress } from '../../utils/format';
+import type { TournamentStanding } from '../../hooks/useTournament';
+
+interface TournamentStandingsProps {
+  standings: TournamentStanding[];
+  // Share of the prize pool per place, in basis points
+  payoutTable: number[];
+  // Highlighted row, e.g. the connected player's smart account
+  playerAddress?: string;
+}
+
+const PODIUM_COLORS = ['text-yellow-400', 'text-gray-300', 'text-amber-600'];
+
+export function TournamentStandings({ standings, payoutTable, playerAddress }: TournamentStandingsProps) {
+  if (standings.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-4">No distances recorded yet.</p>;
+  }
+
+  return (
+    <div className="divide-y divide-gray-700/50">
+      {standings.map((standing) => {
+        const isPlayer = standing.player.toLowerCase() === playerAddress?.toLowerCase();
+        const share = payoutTable[standing.rank - 1] ?? 0;
+
+        return (
+          <div
+            key={standing.player}
+            className={`py-2 px-3 flex items-center justify-between gap-4 ${isPlayer ? 'bg-purple-500/10 rounded' : ''}`}
+          >
+            <div className="flex items-center gap-3">
+              <span className={`w-6 text-center font-bold ${PODIUM_COLORS[standing.rank - 1] ?? 'text-gray-500'}`}>
+                {standing.rank}
+              </span>
+              <span className="text-sm text-white font-mono">
+                {shortenAddress(standing.player)}
+                {isPlayer && <span className="ml-2 text-xs text-purple-300 font-sans">You</span>}
+              </span>
+            </div>
+            <div className="text-right">
+              <span className="text-sm font-bold text-purple-400">{standing.distance.toString()}m</span>
+              <span className="ml-3 text-xs text-gray-500">{share / 100}%</span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { TournamentCard } from './TournamentCard';
+export { TournamentStandings } from './TournamentStandings';
@@ -0,0 +1,54 @@
+import { parseUnits } from 'viem';
+import { useGasPayment, useTalismanToken, type GasPayment } from '../../hooks';
+import { formatTokenAmount } from '../../utils/format';
+
+const GAS_PAYMENT_OPTIONS: { payment: GasPayment; label: string }[] = [
+  { payment: 'sponsored', label: 'Sponsored' },
+  { payment: 'token', label: 'TLSM' },
+  { payment: 'self', label: 'Own ETH' },
+];
+
+// Each TLSM-paid operation pre-charges its worst-case cost, so reserve enough for several
+const GAS_RESERVE = parseUnits('50', 18);
+
+export function GasPaymentSelector() {
+  const { gasPayment, setGasPayment } = useGasPayment();
+  const { balance, gasReserve, reserveGas, isApproving } = useTalismanToken();
+
+  return (
+    <div>
+      <p className="text-xs text-gray-400 mb-2">Pay gas with</p>
+      <div className="grid grid-cols-3 gap-2">
+        {GAS_PAYMENT_OPTIONS.map(({ payment, label }) => (
+          <button
+            key={payment}
+            onClick={() => setGasPayment(payment)}
+            className={`py-2 rounded-lg border text-sm transition-colors ${
+              gasPayment === payment
+                ? 'bg-purple-500/20 border-purple-400 text-white'
+                : 'bg-gray-900/50 border-gray-700 text-gray-400 hover:border-purple-500/50'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {/* Sponsorship falls back to TLSM too, so the reserve matters for both */}
+      {gasPayment !== 'self' && (
+        <div className="flex justify-between items-center mt-2">
+          <span className="text-xs text-gray-500">{formatTokenAmount(gasReserve)} TLSM reserved for gas</span>
+          {gasReserve < GAS_RESERVE && (
+            <button
+              onClick={() => reserveGas(GAS_RESERVE)}
+              disabled={isApproving || balance === 0n}
+              className="text-xs text-purple-400 hover:text-purple-300 disabled:text-gray-600"
+            >
+              {isApproving ? 'Reserving...' : `Reserve ${formatTokenAmount(GAS_RESERVE)} TLSM`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@ import { useTalismanToken } from '../../hooks';
 import { formatTokenAmount } from '../../utils/format';
 
 export function TokenBalance() {
-  const { balance, isLoading } = useTalismanToken();
+  const { balance, gasReserve, isLoading } = useTalismanToken();
 
   if (isLoading) {
     return (
@@ -22,6 +22,9 @@ export function TokenBalance() {
         <span className="text-sm font-medium text-white">
           {formatTokenAmount(balance ?? 0n)} TLSM
         </span>
+        {gasReserve > 0n && (
+          <span className="text-xs text-gray-400">{formatTokenAmount(gasReserve)} reserved for gas</span>
+        )}
       </div>
     </div>
   );
@@ -1,3 +1,4 @@
 export { ConnectButton } from './ConnectButton';
 export { TokenBalance } from './TokenBalance';
 export { SmartAccountStatus } from './SmartAccountStatus';
+export { GasPaymentSelector } from './GasPaymentSelector';
@@ -9,10 +9,17 @@ export const CONTRACT_ADDRESSES = {
   [localhost.id]: {
     TalismanToken: getEnvAddress('VITE_TOKEN_ADDRESS', '0x0000000000000000000000000000000000000000'),
     TalismanGame: getEnvAddress('VITE_GAME_ADDRESS', '0x0000000000000000000000000000000000000000'),
+    TalismanTournament: getEnvAddress('VITE_TOURNAMENT_ADDRESS', '0x0000000000000000000000000000000000000000'),
+    TalismanRaceEscrow: getEnvAddress('VITE_RACE_ESCROW_ADDRESS', '0x0000000000000000000000000000000000000000'),
     TalismanAccountFactory: getEnvAddress('VITE_FACTORY_ADDRESS', '0x0000000000000000000000000000000000000000'),
     EntryPoint: getEnvAddress('VITE_ENTRYPOINT_ADDRESS', '0x0000000000000000000000000000000000000000'),
     TalismanPaymaster: getEnvAddress('VITE_PAYMASTER_ADDRESS', '0x0000000000000000000000000000000000000000'),
   },
 } as const;
 
+// EntryPoint the contracts were deployed against (ENTRY_POINT_VERSION in scripts/deploy.ts)
+export type EntryPointVersion = 'mock' | '0.6' | '0.7';
+
+export const ENTRY_POINT_VERSION = (import.meta.env.VITE_ENTRYPOINT_VERSION || 'mock') as EntryPointVersion;
+
 export type ContractName = keyof typeof CONTRACT_ADDRESSES[typeof localhost.id];
@@ -0,0 +1,11 @@
+// Off-chain services used alongside the contracts
+export const SERVICE_URLS = {
+  // Score verifier (services/verifier); empty disables proof requests
+  verifier: import.meta.env.VITE_VERIFIER_URL || '',
+  // Leaderboard indexer (services/indexer); empty hides leaderboards
+  indexer: import.meta.env.VITE_INDEXER_URL || '',
+  // Sponsorship signer (services/sponsor); empty uses the paymaster's allowlist only
+  sponsor: import.meta.env.VITE_SPONSOR_URL || '',
+  // ERC-4337 bundler (services/bundler); empty submits handleOps from the connected wallet
+  bundler: import.meta.env.VITE_BUNDLER_URL || '',
+} as const;
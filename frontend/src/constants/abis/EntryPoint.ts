@@ -74,3 +74,32 @@ export const EntryPointABI = [
     type: 'function',
   },
 ] as const;
+
+// Canonical EntryPoint v0.7 handleOps, taking PackedUserOperations; the other functions match v0.6
+export const EntryPointV07ABI = [
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: 'address', name: 'sender', type: 'address' },
+          { internalType: 'uint256', name: 'nonce', type: 'uint256' },
+          { internalType: 'bytes', name: 'initCode', type: 'bytes' },
+          { internalType: 'bytes', name: 'callData', type: 'bytes' },
+          { internalType: 'bytes32', name: 'accountGasLimits', type: 'bytes32' },
+          { internalType: 'uint256', name: 'preVerificationGas', type: 'uint256' },
+          { internalType: 'bytes32', name: 'gasFees', type: 'bytes32' },
+          { internalType: 'bytes', name: 'paymasterAndData', type: 'bytes' },
+          { internalType: 'bytes', name: 'signature', type: 'bytes' },
+        ],
+        internalType: 'struct PackedUserOperation[]',
+        name: 'ops',
+        type: 'tuple[]',
+      },
+      { internalType: 'address payable', name: 'beneficiary', type: 'address' },
+    ],
+    name: 'handleOps',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const;
@@ -26,6 +26,48 @@ export const TalismanGameABI = [
     name: 'RewardsClaimed',
     type: 'event',
   },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'address', name: 'player', type: 'address' },
+      { indexed: false, internalType: 'uint256', name: 'amount', type: 'uint256' },
+      { indexed: false, internalType: 'uint256', name: 'penalty', type: 'uint256' },
+      { indexed: false, internalType: 'bool', name: 'burned', type: 'bool' },
+    ],
+    name: 'EarlyClaimed',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'address', name: 'player', type: 'address' },
+      { indexed: true, internalType: 'uint64', name: 'day', type: 'uint64' },
+      { indexed: true, internalType: 'bytes32', name: 'questId', type: 'bytes32' },
+      { indexed: false, internalType: 'uint256', name: 'reward', type: 'uint256' },
+    ],
+    name: 'QuestBonusClaimed',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'enum ITalismanGame.GameMode',
+        name: 'gameMode',
+        type: 'uint8',
+      },
+      { indexed: false, internalType: 'uint256', name: 'multiplier', type: 'uint256' },
+    ],
+    name: 'ModeRewardMultiplierUpdated',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: true, internalType: 'address', name: 'verifier', type: 'address' }],
+    name: 'ScoreVerifierUpdated',
+    type: 'event',
+  },
   {
     anonymous: false,
     inputs: [
@@ -43,6 +85,12 @@ export const TalismanGameABI = [
     inputs: [
       { indexed: true, internalType: 'address', name: 'player', type: 'address' },
       { indexed: false, internalType: 'uint256', name: 'startTime', type: 'uint256' },
+      {
+        indexed: false,
+        internalType: 'enum ITalismanGame.GameMode',
+        name: 'gameMode',
+        type: 'uint8',
+      },
     ],
     name: 'SessionStarted',
     type: 'event',
@@ -54,6 +102,23 @@ export const TalismanGameABI = [
     stateMutability: 'nonpayable',
     type: 'function',
   },
+  {
+    inputs: [{ internalType: 'uint256', name: 'maxPenalty', type: 'uint256' }],
+    name: 'earlyClaim',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'address', name: 'player', type: 'address' }],
+    name: 'previewEarlyClaim',
+    outputs: [
+      { internalType: 'uint256', name: 'amount', type: 'uint256' },
+      { internalType: 'uint256', name: 'penalty', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     inputs: [{ internalType: 'uint256', name: 'talismansCollected', type: 'uint256' }],
     name: 'endSession',
@@ -61,6 +126,17 @@ export const TalismanGameABI = [
     stateMutability: 'nonpayable',
     type: 'function',
   },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'talismansCollected', type: 'uint256' },
+      { internalType: 'uint256', name: 'deadline', type: 'uint256' },
+      { internalType: 'bytes', name: 'signature', type: 'bytes' },
+    ],
+    name: 'endSessionWithProof',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
   {
     inputs: [{ internalType: 'address', name: 'player', type: 'address' }],
     name: 'getAttemptCount',
@@ -86,6 +162,7 @@ export const TalismanGameABI = [
           { internalType: 'uint128', name: 'rewardEarned', type: 'uint128' },
           { internalType: 'uint32', name: 'talismansCollected', type: 'uint32' },
           { internalType: 'bool', name: 'isActive', type: 'bool' },
+          { internalType: 'enum ITalismanGame.GameMode', name: 'gameMode', type: 'uint8' },
         ],
         internalType: 'struct ITalismanGame.GameSession',
         name: '',
@@ -95,6 +172,66 @@ export const TalismanGameABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [{ internalType: 'address', name: 'player', type: 'address' }],
+    name: 'getSessionCount',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'address', name: 'player', type: 'address' },
+      { internalType: 'uint256', name: 'offset', type: 'uint256' },
+      { internalType: 'uint256', name: 'limit', type: 'uint256' },
+    ],
+    name: 'getSessionHistory',
+    outputs: [
+      {
+        components: [
+          { internalType: 'uint64', name: 'startTime', type: 'uint64' },
+          { internalType: 'uint64', name: 'endTime', type: 'uint64' },
+          { internalType: 'uint64', name: 'duration', type: 'uint64' },
+          { internalType: 'uint32', name: 'attempts', type: 'uint32' },
+          { internalType: 'enum ITalismanGame.GameMode', name: 'gameMode', type: 'uint8' },
+          { internalType: 'uint128', name: 'reward', type: 'uint128' },
+          { internalType: 'uint32', name: 'talismansCollected', type: 'uint32' },
+          { internalType: 'uint32', name: 'multiplier', type: 'uint32' },
+        ],
+        internalType: 'struct ITalismanGame.SessionRecord[]',
+        name: 'records',
+        type: 'tuple[]',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'address', name: 'player', type: 'address' },
+      { internalType: 'uint256', name: 'sessionId', type: 'uint256' },
+    ],
+    name: 'getSessionRecord',
+    outputs: [
+      {
+        components: [
+          { internalType: 'uint64', name: 'startTime', type: 'uint64' },
+          { internalType: 'uint64', name: 'endTime', type: 'uint64' },
+          { internalType: 'uint64', name: 'duration', type: 'uint64' },
+          { internalType: 'uint32', name: 'attempts', type: 'uint32' },
+          { internalType: 'enum ITalismanGame.GameMode', name: 'gameMode', type: 'uint8' },
+          { internalType: 'uint128', name: 'reward', type: 'uint128' },
+          { internalType: 'uint32', name: 'talismansCollected', type: 'uint32' },
+          { internalType: 'uint32', name: 'multiplier', type: 'uint32' },
+        ],
+        internalType: 'struct ITalismanGame.SessionRecord',
+        name: '',
+        type: 'tuple',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     inputs: [{ internalType: 'address', name: 'player', type: 'address' }],
     name: 'getVestingInfo',
@@ -105,6 +242,9 @@ export const TalismanGameABI = [
           { internalType: 'uint128', name: 'claimedAmount', type: 'uint128' },
           { internalType: 'uint64', name: 'startTime', type: 'uint64' },
           { internalType: 'uint64', name: 'duration', type: 'uint64' },
+          { internalType: 'uint64', name: 'cliff', type: 'uint64' },
+          { internalType: 'uint32', name: 'stepDuration', type: 'uint32' },
+          { internalType: 'uint16', name: 'instantUnlockPercent', type: 'uint16' },
         ],
         internalType: 'struct ITalismanGame.VestingSchedule',
         name: '',
@@ -114,6 +254,28 @@ export const TalismanGameABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [{ internalType: 'address', name: 'player', type: 'address' }],
+    name: 'getVestingTranches',
+    outputs: [
+      {
+        components: [
+          { internalType: 'uint128', name: 'totalAmount', type: 'uint128' },
+          { internalType: 'uint128', name: 'claimedAmount', type: 'uint128' },
+          { internalType: 'uint64', name: 'startTime', type: 'uint64' },
+          { internalType: 'uint64', name: 'duration', type: 'uint64' },
+          { internalType: 'uint64', name: 'cliff', type: 'uint64' },
+          { internalType: 'uint32', name: 'stepDuration', type: 'uint32' },
+          { internalType: 'uint16', name: 'instantUnlockPercent', type: 'uint16' },
+        ],
+        internalType: 'struct ITalismanGame.VestingSchedule[]',
+        name: 'tranches',
+        type: 'tuple[]',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     inputs: [],
     name: 'maxSessionDuration',
@@ -128,6 +290,65 @@ export const TalismanGameABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [{ internalType: 'enum ITalismanGame.GameMode', name: '', type: 'uint8' }],
+    name: 'modeRewardMultiplier',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint64', name: 'day', type: 'uint64' },
+      { internalType: 'bytes32', name: 'questId', type: 'bytes32' },
+      { internalType: 'uint256', name: 'reward', type: 'uint256' },
+      { internalType: 'uint256', name: 'deadline', type: 'uint256' },
+      { internalType: 'bytes', name: 'signature', type: 'bytes' },
+    ],
+    name: 'claimQuestBonus',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'address', name: 'player', type: 'address' },
+      { internalType: 'uint64', name: 'day', type: 'uint64' },
+      { internalType: 'bytes32', name: 'questId', type: 'bytes32' },
+    ],
+    name: 'isQuestClaimed',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'address', name: 'player', type: 'address' }],
+    name: 'settleExpiredSession',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'forfeitSession',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'address', name: 'player', type: 'address' }],
+    name: 'isSessionExpired',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'sessionTimeout',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     inputs: [],
     name: 'retryGame',
@@ -142,6 +363,13 @@ export const TalismanGameABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [],
+    name: 'scoreVerifier',
+    outputs: [{ internalType: 'address', name: '', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     inputs: [],
     name: 'sessionCost',
@@ -150,7 +378,7 @@ export const TalismanGameABI = [
     type: 'function',
   },
   {
-    inputs: [],
+    inputs: [{ internalType: 'enum ITalismanGame.GameMode', name: 'gameMode', type: 'uint8' }],
     name: 'startSession',
     outputs: [],
     stateMutability: 'nonpayable',
@@ -170,6 +398,48 @@ export const TalismanGameABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [],
+    name: 'totalUnclaimedRewards',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'totalReservedRewards',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'availableRewards',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'address', name: 'player', type: 'address' }],
+    name: 'getReservedReward',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'earlyUnlockPenaltyPercent',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'burnEarlyUnlockPenalty',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     inputs: [],
     name: 'TALISMAN_BONUS_PERCENT',
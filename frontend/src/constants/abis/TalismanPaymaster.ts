@@ -0,0 +1,75 @@
+export const TalismanPaymasterABI = [
+  {
+    inputs: [
+      { internalType: 'address', name: 'sender', type: 'address' },
+      { internalType: 'bytes', name: 'callData', type: 'bytes' },
+      { internalType: 'uint256', name: 'maxCost', type: 'uint256' },
+    ],
+    name: 'checkSponsorship',
+    outputs: [
+      { internalType: 'bool', name: 'sponsored', type: 'bool' },
+      { internalType: 'string', name: 'reason', type: 'string' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'address', name: 'sender', type: 'address' },
+      { internalType: 'uint256', name: 'maxCost', type: 'uint256' },
+      { internalType: 'uint256', name: 'maxFeePerGas', type: 'uint256' },
+    ],
+    name: 'checkTokenPayment',
+    outputs: [
+      { internalType: 'uint256', name: 'tokenCost', type: 'uint256' },
+      { internalType: 'string', name: 'reason', type: 'string' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'maxCostPerUserOp',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'address', name: 'user', type: 'address' }],
+    name: 'getRemainingDailyAllowance',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: 'address', name: 'sender', type: 'address' },
+          { internalType: 'uint256', name: 'nonce', type: 'uint256' },
+          { internalType: 'bytes', name: 'initCode', type: 'bytes' },
+          { internalType: 'bytes', name: 'callData', type: 'bytes' },
+          { internalType: 'uint256', name: 'callGasLimit', type: 'uint256' },
+          { internalType: 'uint256', name: 'verificationGasLimit', type: 'uint256' },
+          { internalType: 'uint256', name: 'preVerificationGas', type: 'uint256' },
+          { internalType: 'uint256', name: 'maxFeePerGas', type: 'uint256' },
+          { internalType: 'uint256', name: 'maxPriorityFeePerGas', type: 'uint256' },
+          { internalType: 'bytes', name: 'paymasterAndData', type: 'bytes' },
+          { internalType: 'bytes', name: 'signature', type: 'bytes' },
+        ],
+        internalType: 'struct IEntryPoint.UserOperation',
+        name: 'userOp',
+        type: 'tuple',
+      },
+      { internalType: 'bytes32', name: 'userOpHash', type: 'bytes32' },
+      { internalType: 'uint256', name: 'maxCost', type: 'uint256' },
+    ],
+    name: 'validatePaymasterUserOp',
+    outputs: [
+      { internalType: 'bytes', name: 'context', type: 'bytes' },
+      { internalType: 'uint256', name: 'validationData', type: 'uint256' },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const;
@@ -0,0 +1,147 @@
+export const TalismanRaceEscrowABI = [
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'raceId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'creator', type: 'address' },
+      { indexed: false, internalType: 'uint256', name: 'seed', type: 'uint256' },
+      { indexed: false, internalType: 'uint256', name: 'distance', type: 'uint256' },
+      { indexed: false, internalType: 'uint256', name: 'stake', type: 'uint256' },
+      { indexed: false, internalType: 'uint256', name: 'expiresAt', type: 'uint256' },
+      { indexed: false, internalType: 'bytes', name: 'ghost', type: 'bytes' },
+    ],
+    name: 'RaceCreated',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'raceId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'challenger', type: 'address' },
+      { indexed: false, internalType: 'uint256', name: 'raceDeadline', type: 'uint256' },
+    ],
+    name: 'RaceAccepted',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'raceId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'winner', type: 'address' },
+      { indexed: false, internalType: 'uint256', name: 'creatorDistance', type: 'uint256' },
+      { indexed: false, internalType: 'uint256', name: 'challengerDistance', type: 'uint256' },
+      { indexed: false, internalType: 'uint256', name: 'payout', type: 'uint256' },
+    ],
+    name: 'RaceSettled',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'raceId', type: 'uint256' },
+    ],
+    name: 'RaceCancelled',
+    type: 'event',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'stake', type: 'uint256' },
+      { internalType: 'uint256', name: 'seed', type: 'uint256' },
+      { internalType: 'uint256', name: 'distance', type: 'uint256' },
+      { internalType: 'uint256', name: 'deadline', type: 'uint256' },
+      { internalType: 'bytes', name: 'signature', type: 'bytes' },
+      { internalType: 'bytes', name: 'ghost', type: 'bytes' },
+    ],
+    name: 'createRace',
+    outputs: [{ internalType: 'uint256', name: 'raceId', type: 'uint256' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'raceId', type: 'uint256' }],
+    name: 'acceptRace',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'raceId', type: 'uint256' },
+      { internalType: 'uint256', name: 'distance', type: 'uint256' },
+      { internalType: 'uint256', name: 'deadline', type: 'uint256' },
+      { internalType: 'bytes', name: 'signature', type: 'bytes' },
+    ],
+    name: 'submitRaceResult',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'raceId', type: 'uint256' }],
+    name: 'cancelRace',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'raceId', type: 'uint256' }],
+    name: 'claimExpiredRace',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'raceCount',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'raceId', type: 'uint256' }],
+    name: 'getRace',
+    outputs: [
+      {
+        components: [
+          { internalType: 'address', name: 'creator', type: 'address' },
+          { internalType: 'uint32', name: 'seed', type: 'uint32' },
+          { internalType: 'uint64', name: 'creatorDistance', type: 'uint64' },
+          { internalType: 'address', name: 'challenger', type: 'address' },
+          { internalType: 'uint64', name: 'challengerDistance', type: 'uint64' },
+          { internalType: 'uint128', name: 'stake', type: 'uint128' },
+          { internalType: 'uint64', name: 'expiresAt', type: 'uint64' },
+          { internalType: 'uint64', name: 'acceptedAt', type: 'uint64' },
+          { internalType: 'uint64', name: 'raceDeadline', type: 'uint64' },
+          { internalType: 'enum ITalismanRaceEscrow.RaceStatus', name: 'status', type: 'uint8' },
+          { internalType: 'address', name: 'winner', type: 'address' },
+        ],
+        internalType: 'struct ITalismanRaceEscrow.Race',
+        name: '',
+        type: 'tuple',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'scoreVerifier',
+    outputs: [{ internalType: 'address', name: '', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'challengeWindow',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'raceWindow',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
@@ -0,0 +1,217 @@
+export const TalismanTournamentABI = [
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'tournamentId', type: 'uint256' },
+      { indexed: false, internalType: 'uint256', name: 'startTime', type: 'uint256' },
+      { indexed: false, internalType: 'uint256', name: 'endTime', type: 'uint256' },
+      { indexed: false, internalType: 'uint256', name: 'entryFee', type: 'uint256' },
+      { indexed: false, internalType: 'uint16[]', name: 'payoutTable', type: 'uint16[]' },
+    ],
+    name: 'TournamentCreated',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'tournamentId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'player', type: 'address' },
+      { indexed: false, internalType: 'uint256', name: 'entryFee', type: 'uint256' },
+    ],
+    name: 'TournamentEntered',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'tournamentId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'player', type: 'address' },
+      { indexed: false, internalType: 'uint256', name: 'distance', type: 'uint256' },
+      { indexed: false, internalType: 'bool', name: 'isPersonalBest', type: 'bool' },
+    ],
+    name: 'ScoreSubmitted',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'tournamentId', type: 'uint256' },
+      { indexed: false, internalType: 'uint256', name: 'prizePool', type: 'uint256' },
+      { indexed: false, internalType: 'uint256', name: 'winners', type: 'uint256' },
+    ],
+    name: 'TournamentFinalized',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'tournamentId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'player', type: 'address' },
+      { indexed: false, internalType: 'uint256', name: 'amount', type: 'uint256' },
+    ],
+    name: 'PrizeClaimed',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'tournamentId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'player', type: 'address' },
+      { indexed: false, internalType: 'uint256', name: 'amount', type: 'uint256' },
+    ],
+    name: 'EntryRefunded',
+    type: 'event',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'tournamentId', type: 'uint256' }],
+    name: 'enterTournament',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'tournamentId', type: 'uint256' },
+      { internalType: 'uint256', name: 'distance', type: 'uint256' },
+      { internalType: 'uint256', name: 'deadline', type: 'uint256' },
+      { internalType: 'bytes', name: 'signature', type: 'bytes' },
+    ],
+    name: 'submitScore',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'tournamentId', type: 'uint256' }],
+    name: 'claimPrize',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'tournamentId', type: 'uint256' }],
+    name: 'finalizeTournament',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'tournamentId', type: 'uint256' },
+      { internalType: 'uint256', name: 'amount', type: 'uint256' },
+    ],
+    name: 'fundPrizePool',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'tournamentCount',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'tournamentId', type: 'uint256' }],
+    name: 'getTournament',
+    outputs: [
+      {
+        components: [
+          { internalType: 'uint64', name: 'startTime', type: 'uint64' },
+          { internalType: 'uint64', name: 'endTime', type: 'uint64' },
+          { internalType: 'uint128', name: 'entryFee', type: 'uint128' },
+          { internalType: 'uint128', name: 'prizePool', type: 'uint128' },
+          { internalType: 'uint32', name: 'entrantCount', type: 'uint32' },
+          { internalType: 'bool', name: 'finalized', type: 'bool' },
+        ],
+        internalType: 'struct ITalismanTournament.Tournament',
+        name: '',
+        type: 'tuple',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'tournamentId', type: 'uint256' }],
+    name: 'getPayoutTable',
+    outputs: [{ internalType: 'uint16[]', name: '', type: 'uint16[]' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'tournamentId', type: 'uint256' }],
+    name: 'getStandings',
+    outputs: [
+      { internalType: 'address[]', name: 'players', type: 'address[]' },
+      { internalType: 'uint256[]', name: 'distances', type: 'uint256[]' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'tournamentId', type: 'uint256' },
+      { internalType: 'address', name: 'player', type: 'address' },
+    ],
+    name: 'hasEntered',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'tournamentId', type: 'uint256' },
+      { internalType: 'address', name: 'player', type: 'address' },
+    ],
+    name: 'getEntryTime',
+    outputs: [{ internalType: 'uint64', name: '', type: 'uint64' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'tournamentId', type: 'uint256' },
+      { internalType: 'address', name: 'player', type: 'address' },
+    ],
+    name: 'getBestDistance',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'tournamentId', type: 'uint256' },
+      { internalType: 'address', name: 'player', type: 'address' },
+    ],
+    name: 'getPrize',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'tournamentId', type: 'uint256' },
+      { internalType: 'address', name: 'player', type: 'address' },
+    ],
+    name: 'isPrizeClaimed',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'scoreVerifier',
+    outputs: [{ internalType: 'address', name: '', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'PAYOUT_DENOMINATOR',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
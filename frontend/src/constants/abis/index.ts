@@ -1,5 +1,8 @@
 export { TalismanTokenABI } from './TalismanToken';
 export { TalismanGameABI } from './TalismanGame';
+export { TalismanTournamentABI } from './TalismanTournament';
+export { TalismanRaceEscrowABI } from './TalismanRaceEscrow';
 export { TalismanAccountFactoryABI } from './TalismanAccountFactory';
 export { TalismanAccountABI } from './TalismanAccount';
-export { EntryPointABI } from './EntryPoint';
+export { TalismanPaymasterABI } from './TalismanPaymaster';
+export { EntryPointABI, EntryPointV07ABI } from './EntryPoint';
@@ -1,34 +1,2 @@
-// Canvas dimensions
-export const CANVAS_WIDTH = 800;
-export const CANVAS_HEIGHT = 450;
-export const GROUND_HEIGHT = 80;
-export const GROUND_Y = CANVAS_HEIGHT - GROUND_HEIGHT;
-
-// Player constants
-export const PLAYER_START_X = 100;
-export const PLAYER_WIDTH = 40;
-export const PLAYER_HEIGHT = 50;
-export const JUMP_FORCE = -14;
-export const GRAVITY = 0.7;
-export const MAX_FALL_SPEED = 15;
-
-// Game progression
-export const BASE_SPEED = 6;
-export const MAX_SPEED = 14;
-export const SPEED_INCREMENT = 0.002;
-
-// Spawning
-export const MIN_OBSTACLE_GAP = 250;
-export const MAX_OBSTACLE_GAP = 450;
-export const TALISMAN_SPAWN_CHANCE = 0.012;
-export const OBSTACLE_SPAWN_DISTANCE = 150;
-
-// Obstacle sizes
-export const SPIKE_WIDTH = 30;
-export const SPIKE_HEIGHT = 40;
-export const BLOCK_WIDTH = 40;
-export const BLOCK_HEIGHT = 45;
-
-// Talisman
-export const TALISMAN_RADIUS = 18;
-export const TALISMAN_FLOAT_HEIGHT = 120;
+// Dash game constants live with the shared simulation engine
+export * from '../../../shared/dash/constants';
@@ -0,0 +1,29 @@
+// Mirrors ITalismanGame.GameMode
+export const GameMode = {
+  Dash: 0,
+  Search: 1,
+} as const;
+
+export type GameMode = (typeof GameMode)[keyof typeof GameMode];
+
+export interface GameModeInfo {
+  mode: GameMode;
+  name: string;
+  tagline: string;
+  description: string;
+}
+
+export const GAME_MODES: GameModeInfo[] = [
+  {
+    mode: GameMode.Dash,
+    name: 'Dash',
+    tagline: 'Run & Collect',
+    description: 'Jump and duck past obstacles, grabbing talismans on the way',
+  },
+  {
+    mode: GameMode.Search,
+    name: 'Search',
+    tagline: 'Seek & Reveal',
+    description: 'Find the talismans hidden in the glitch',
+  },
+];
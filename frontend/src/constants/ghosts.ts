@@ -0,0 +1,20 @@
+import practiceGhost from '../assets/ghosts/practice.json?raw';
+import { parseReplay } from '../../../shared/dash';
+import type { DashReplay } from '../types/dashGame';
+
+export interface BundledGhost {
+  id: string;
+  name: string;
+  description: string;
+  replay: DashReplay;
+}
+
+// Ghosts shipped with the app, raced locally with no stake and no server
+export const BUNDLED_GHOSTS: BundledGhost[] = [
+  {
+    id: 'practice',
+    name: 'Practice Ghost',
+    description: 'A steady runner that clears the early patterns and crashes a little past 900m',
+    replay: parseReplay(practiceGhost),
+  },
+];
@@ -6,14 +6,32 @@ export { useGameRewards } from './useGameRewards';
 export type { VestingSchedule } from './useGameRewards';
 export { useSessionTimer, formatTime } from './useSessionTimer';
 export { useRewardCalculator } from './useRewardCalculator';
+export { useScoreVerifier } from './useScoreVerifier';
+export { useSessionHistory } from './useSessionHistory';
+export type { SessionRecord, SessionHistoryTotals } from './useSessionHistory';
+export { usePoolHealth } from './usePoolHealth';
+export type { PoolHealth } from './usePoolHealth';
+export { useAchievements } from './useAchievements';
+export { useDailyQuests } from './useDailyQuests';
+export type { DailyQuest } from './useDailyQuests';
+export { useLeaderboard } from './useLeaderboard';
+export { useTournament } from './useTournament';
+export type { TournamentInfo, TournamentStanding, TournamentStatus, TournamentAction } from './useTournament';
+export { useRaceEscrow } from './useRaceEscrow';
+export type { RaceInfo, RaceStatus, RaceAction } from './useRaceEscrow';
 
 // ERC-4337 Smart Account hooks
 export { useSmartAccount } from './useSmartAccount';
 export { useUserOperation } from './useUserOperation';
 export type { UserOperation } from './useUserOperation';
+export { useGasPayment } from './useGasPayment';
+export type { GasPayment } from './useGasPayment';
 
 // Dash Game hooks
 export { useDashGame } from './useDashGame';
 export { useDashInput } from './useDashInput';
 export { useDashPhysics } from './useDashPhysics';
 export { useDashCollision } from './useDashCollision';
+export { useDashReplay, REPLAY_SPEEDS } from './useDashReplay';
+export type { ReplaySpeed } from './useDashReplay';
+export { useFixedTimestep } from './useFixedTimestep';
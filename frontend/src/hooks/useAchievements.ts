@@ -0,0 +1,53 @@
+import { useState, useCallback } from 'react';
+import { useSmartAccount } from './useSmartAccount';
+import {
+  createProgress,
+  recordRun as addRun,
+  type AchievementId,
+  type PlayerProgress,
+  type RunSummary,
+} from '../../../shared/achievements';
+
+// Achievements are cosmetic, so progress lives in the browser, per smart account
+function storageKey(accountAddress: string | undefined): string | null {
+  return accountAddress ? `talisman:achievements:${accountAddress.toLowerCase()}` : null;
+}
+
+function loadProgress(key: string | null): PlayerProgress {
+  if (!key) return createProgress();
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? { ...createProgress(), ...JSON.parse(stored) } : createProgress();
+  } catch {
+    return createProgress();
+  }
+}
+
+export function useAchievements() {
+  const { accountAddress } = useSmartAccount();
+  const key = storageKey(accountAddress);
+
+  const [stored, setStored] = useState(() => ({ key, progress: loadProgress(key) }));
+
+  // Reload when the smart account changes
+  if (stored.key !== key) {
+    setStored({ key, progress: loadProgress(key) });
+  }
+
+  // Add a finished Dash run and return the achievements it unlocked
+  const recordRun = useCallback(
+    (run: RunSummary): AchievementId[] => {
+      const current = loadProgress(key);
+      const result = addRun(current, run);
+      if (key) localStorage.setItem(key, JSON.stringify(result.progress));
+      setStored({ key, progress: result.progress });
+      return result.unlocked;
+    },
+    [key]
+  );
+
+  return {
+    progress: stored.progress,
+    recordRun,
+  };
+}
@@ -17,6 +17,8 @@ export function useContractAddresses() {
   return {
     tokenAddress: getAddress('TalismanToken'),
     gameAddress: getAddress('TalismanGame'),
+    tournamentAddress: getAddress('TalismanTournament'),
+    raceEscrowAddress: getAddress('TalismanRaceEscrow'),
     factoryAddress: getAddress('TalismanAccountFactory'),
     entryPointAddress: getAddress('EntryPoint'),
     paymasterAddress: getAddress('TalismanPaymaster'),
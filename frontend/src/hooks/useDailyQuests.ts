@@ -0,0 +1,113 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useReadContracts, useWaitForTransactionReceipt } from 'wagmi';
+import { encodeFunctionData, stringToHex, zeroAddress, type Hex } from 'viem';
+import { TalismanGameABI } from '../constants/abis';
+import { SERVICE_URLS } from '../config/services';
+import { useContractAddresses } from './useContractAddresses';
+import { useSmartAccount } from './useSmartAccount';
+import { useUserOperation } from './useUserOperation';
+import { useSessionHistory } from './useSessionHistory';
+import { requestQuestProof } from '../utils/verifier';
+import {
+  dayIndex,
+  getDailyQuests,
+  questProgress,
+  type QuestDefinition,
+} from '../../../shared/achievements';
+
+export interface DailyQuest extends QuestDefinition {
+  progress: number;
+  isComplete: boolean;
+  isClaimed: boolean;
+}
+
+export function useDailyQuests() {
+  const { accountAddress, isAccountReady } = useSmartAccount();
+  const { gameAddress } = useContractAddresses();
+  const { executeViaAccount } = useUserOperation();
+  const { records } = useSessionHistory();
+
+  // Track claim transaction
+  const [claimingQuest, setClaimingQuest] = useState<string | null>(null);
+  const [claimHash, setClaimHash] = useState<Hex | undefined>();
+  const [claimError, setClaimError] = useState<Error | null>(null);
+
+  // Quests rotate at midnight UTC
+  const day = dayIndex(Math.floor(Date.now() / 1000));
+  const quests = useMemo(() => getDailyQuests(day), [day]);
+
+  // Read: Whether today's bonuses were already paid
+  const { data: claimed, refetch: refetchClaimed } = useReadContracts({
+    contracts: quests.map((quest) => ({
+      address: gameAddress,
+      abi: TalismanGameABI,
+      functionName: 'isQuestClaimed' as const,
+      args: [accountAddress ?? zeroAddress, BigInt(day), stringToHex(quest.id, { size: 32 })] as const,
+    })),
+    query: { enabled: !!accountAddress },
+  });
+
+  // Wait for claim transaction
+  const { isLoading: isClaimConfirming, isSuccess: isClaimSuccess } =
+    useWaitForTransactionReceipt({ hash: claimHash });
+
+  // Auto-refetch when claim succeeds
+  useEffect(() => {
+    if (isClaimSuccess) {
+      refetchClaimed();
+      setClaimingQuest(null);
+    }
+  }, [isClaimSuccess, refetchClaimed]);
+
+  const dailyQuests = useMemo<DailyQuest[]>(
+    () =>
+      quests.map((quest, i) => {
+        const progress = questProgress(quest, records, day);
+        return {
+          ...quest,
+          progress,
+          isComplete: progress >= quest.target,
+          isClaimed: claimed?.[i]?.result === true,
+        };
+      }),
+    [quests, records, day, claimed]
+  );
+
+  // Have the verifier attest the quest, then claim its bonus via smart account
+  const claimQuest = useCallback(
+    async (questId: string) => {
+      if (!isAccountReady || !accountAddress) return;
+
+      setClaimError(null);
+      setClaimHash(undefined);
+      setClaimingQuest(questId);
+
+      try {
+        const proof = await requestQuestProof(accountAddress, day, questId);
+        const callData = encodeFunctionData({
+          abi: TalismanGameABI,
+          functionName: 'claimQuestBonus',
+          args: [BigInt(proof.day), proof.questId, BigInt(proof.reward), BigInt(proof.deadline), proof.signature],
+        });
+
+        const hash = await executeViaAccount(gameAddress, 0n, callData);
+        setClaimHash(hash);
+      } catch (err) {
+        setClaimError(err instanceof Error ? err : new Error('Quest claim failed'));
+        setClaimingQuest(null);
+      }
+    },
+    [isAccountReady, accountAddress, day, gameAddress, executeViaAccount]
+  );
+
+  return {
+    day,
+    quests: dailyQuests,
+    // Quest bonuses need the score verifier to attest completion
+    canClaim: !!SERVICE_URLS.verifier,
+    claimQuest,
+    claimingQuest,
+    isClaiming: !!claimingQuest || isClaimConfirming,
+    claimError,
+  };
+}
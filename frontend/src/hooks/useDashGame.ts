@@ -1,94 +1,53 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import type { DashGameState, Player, Obstacle, DashTalisman } from '../types/dashGame';
+import type { DashGameState, DashReplay, DashRunOwner } from '../types/dashGame';
 import {
-  CANVAS_WIDTH,
-  PLAYER_START_X,
-  PLAYER_WIDTH,
-  PLAYER_HEIGHT,
-  GROUND_Y,
-  BASE_SPEED,
-  MAX_SPEED,
-  SPEED_INCREMENT,
-  MIN_OBSTACLE_GAP,
-  MAX_OBSTACLE_GAP,
-  TALISMAN_SPAWN_CHANCE,
-  SPIKE_WIDTH,
-  SPIKE_HEIGHT,
-  BLOCK_WIDTH,
-  BLOCK_HEIGHT,
-  TALISMAN_RADIUS,
-  TALISMAN_FLOAT_HEIGHT,
-} from '../constants/dashGame';
+  createDashState,
+  stepDash,
+  recordInput,
+  createReplay,
+  createGhost,
+  stepGhost,
+  EMPTY_INPUT_LOG,
+} from '../../../shared/dash';
+import { createFrame, advanceFrame, type DashFrame } from '../utils/dashFrame';
+import { runSeed } from '../utils/replay';
 import { useDashInput } from './useDashInput';
-import { useDashPhysics } from './useDashPhysics';
-import { useDashCollision } from './useDashCollision';
+import { useFixedTimestep } from './useFixedTimestep';
 
-function createInitialPlayer(): Player {
-  return {
-    x: PLAYER_START_X,
-    y: GROUND_Y - PLAYER_HEIGHT,
-    width: PLAYER_WIDTH,
-    height: PLAYER_HEIGHT,
-    velocityY: 0,
-    isJumping: false,
-    isGrounded: true,
-  };
-}
-
-function createInitialState(): DashGameState {
+function createInitialState(seed = 0, ghost?: DashReplay | null, owner?: DashRunOwner): DashGameState {
   return {
+    ...createDashState(seed),
     isRunning: false,
-    isGameOver: false,
     isCountingDown: false,
     countdown: 0,
-    player: createInitialPlayer(),
-    obstacles: [],
-    talismans: [],
-    distance: 0,
-    talismansCollected: 0,
-    speed: BASE_SPEED,
-    groundOffset: 0,
-  };
-}
-
-let obstacleId = 0;
-let talismanId = 0;
-
-function createObstacle(lastObstacleX: number): Obstacle {
-  const type = Math.random() > 0.5 ? 'spike' : 'block';
-  const width = type === 'spike' ? SPIKE_WIDTH : BLOCK_WIDTH;
-  const height = type === 'spike' ? SPIKE_HEIGHT : BLOCK_HEIGHT;
-
-  return {
-    id: obstacleId++,
-    x: lastObstacleX + MIN_OBSTACLE_GAP + Math.random() * (MAX_OBSTACLE_GAP - MIN_OBSTACLE_GAP),
-    y: GROUND_Y - height,
-    width,
-    height,
-    type,
-    passed: false,
+    inputLog: EMPTY_INPUT_LOG,
+    ghost: ghost ? createGhost(ghost) : undefined,
+    owner,
   };
 }
 
-function createTalisman(): DashTalisman {
-  return {
-    id: talismanId++,
-    x: CANVAS_WIDTH + 50,
-    y: GROUND_Y - TALISMAN_FLOAT_HEIGHT - Math.random() * 80,
-    radius: TALISMAN_RADIUS,
-    collected: false,
-    hue: 260 + Math.random() * 40 - 20, // Purple range
-  };
+// Runs outside a session have nothing to verify and get a random seed
+function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
 }
 
-export function useDashGame(isSessionActive: boolean) {
-  const [gameState, setGameState] = useState<DashGameState>(createInitialState());
-  const { isJumpPressed } = useDashInput(gameState.isRunning || gameState.isGameOver);
-  const { updatePlayer } = useDashPhysics();
-  const { checkObstacleCollision, checkTalismanCollision } = useDashCollision();
-
-  const gameLoopRef = useRef<number | undefined>(undefined);
-  const lastJumpPressedRef = useRef(false);
+/**
+ * Live Dash run. With a ghost replay every run uses the ghost's seed and the
+ * ghost is stepped along its recorded inputs in lockstep with the player.
+ * In a session the seed is derived from the session and the paid attempt
+ * (`session` is the latest one), which the score verifier recomputes from
+ * the chain, so a run only counts for the attempt it was played for.
+ */
+export function useDashGame(isSessionActive: boolean, ghost?: DashReplay | null, session?: DashRunOwner) {
+  const [frame, setFrame] = useState<DashFrame>(() => createFrame(createInitialState()));
+  const gameState = frame.current;
+  const { isJumpPressed, isDuckPressed } = useDashInput(gameState.isRunning || gameState.isGameOver);
+
+  const jumpPressedRef = useRef(false);
+  const duckPressedRef = useRef(false);
+  const ghostRef = useRef(ghost);
+  // Attempt of the last run; the attempt count may not have refetched yet after a retry
+  const lastAttemptRef = useRef(-1);
 
   // Start game when session becomes active
   useEffect(() => {
@@ -105,18 +64,22 @@ export function useDashGame(isSessionActive: boolean) {
   }, [isSessionActive]);
 
   const startGame = useCallback(() => {
-    obstacleId = 0;
-    talismanId = 0;
-    setGameState({
-      ...createInitialState(),
-      isCountingDown: true,
-      countdown: 3,
-      obstacles: [createObstacle(CANVAS_WIDTH)],
-    });
-  }, []);
+    let initialState: DashGameState;
+    if (ghost) {
+      initialState = createInitialState(ghost.seed, ghost);
+    } else if (session) {
+      const owner = { ...session, attempt: Math.max(session.attempt, lastAttemptRef.current + 1) };
+      lastAttemptRef.current = owner.attempt;
+      initialState = createInitialState(runSeed(owner), null, owner);
+    } else {
+      initialState = createInitialState(createSeed());
+    }
+    setFrame(createFrame({ ...initialState, isCountingDown: true, countdown: 3 }));
+  }, [ghost, session]);
 
   const resetGame = useCallback(() => {
-    setGameState(createInitialState());
+    lastAttemptRef.current = -1;
+    setFrame(createFrame(createInitialState()));
   }, []);
 
   const restartGame = useCallback(() => {
@@ -125,113 +88,75 @@ export function useDashGame(isSessionActive: boolean) {
     }
   }, [gameState.isGameOver, isSessionActive, startGame]);
 
-  // Track jump press for edge detection (but don't auto-restart)
+  // Latest input, sampled by the loop without restarting it
   useEffect(() => {
-    lastJumpPressedRef.current = isJumpPressed;
-  }, [isJumpPressed]);
+    jumpPressedRef.current = isJumpPressed;
+    duckPressedRef.current = isDuckPressed;
+  }, [isJumpPressed, isDuckPressed]);
+
+  useEffect(() => {
+    ghostRef.current = ghost;
+  }, [ghost]);
 
   // Countdown timer effect
   useEffect(() => {
     if (!gameState.isCountingDown || gameState.countdown <= 0) return;
 
     const timer = setTimeout(() => {
-      setGameState((prev) => {
+      setFrame(({ current: prev }) => {
         if (prev.countdown <= 1) {
           // Countdown finished, start the game
-          return { ...prev, isCountingDown: false, countdown: 0, isRunning: true };
+          return createFrame({ ...prev, isCountingDown: false, countdown: 0, isRunning: true });
         }
         // Decrement countdown
-        return { ...prev, countdown: prev.countdown - 1 };
+        return createFrame({ ...prev, countdown: prev.countdown - 1 });
       });
     }, 1000);
 
     return () => clearTimeout(timer);
   }, [gameState.isCountingDown, gameState.countdown]);
 
-  // Main game loop
-  useEffect(() => {
-    if (!gameState.isRunning) return;
+  // Main game loop: the input for each tick is recorded so the run can be replayed
+  const handleFrame = useCallback((steps: number, alpha: number) => {
+    const input = { jump: jumpPressedRef.current, duck: duckPressedRef.current };
 
-    const gameLoop = () => {
-      setGameState((state) => {
+    setFrame((prev) =>
+      advanceFrame(prev, steps, alpha, (state) => {
         if (!state.isRunning) return state;
 
-        // Update player physics
-        const newPlayer = updatePlayer(state.player, isJumpPressed);
-
-        // Move obstacles and remove off-screen ones
-        let newObstacles = state.obstacles
-          .map((obs) => ({ ...obs, x: obs.x - state.speed }))
-          .filter((obs) => obs.x > -100);
-
-        // Spawn new obstacles
-        const lastObstacle = newObstacles[newObstacles.length - 1];
-        if (!lastObstacle || lastObstacle.x < CANVAS_WIDTH - 100) {
-          const spawnX = lastObstacle ? lastObstacle.x + lastObstacle.width : CANVAS_WIDTH;
-          newObstacles.push(createObstacle(spawnX));
-        }
-
-        // Move talismans and remove off-screen/collected ones
-        let newTalismans = state.talismans
-          .map((t) => ({ ...t, x: t.x - state.speed }))
-          .filter((t) => t.x > -50 && !t.collected);
-
-        // Spawn new talismans randomly
-        if (Math.random() < TALISMAN_SPAWN_CHANCE && newTalismans.length < 3) {
-          newTalismans.push(createTalisman());
-        }
-
-        // Check obstacle collision (game over)
-        if (checkObstacleCollision(newPlayer, newObstacles)) {
-          return {
-            ...state,
-            player: newPlayer,
-            isRunning: false,
-            isGameOver: true,
-          };
-        }
-
-        // Check talisman collection
-        const collectedIds = checkTalismanCollision(newPlayer, newTalismans);
-        if (collectedIds.length > 0) {
-          newTalismans = newTalismans.map((t) =>
-            collectedIds.includes(t.id) ? { ...t, collected: true } : t
-          );
-        }
-
-        // Update speed and distance
-        const newSpeed = Math.min(state.speed + SPEED_INCREMENT, MAX_SPEED);
-        const newDistance = state.distance + state.speed / 10;
-        const newGroundOffset = (state.groundOffset + state.speed) % 100;
-
-        return {
-          ...state,
-          player: newPlayer,
-          obstacles: newObstacles,
-          talismans: newTalismans,
-          speed: newSpeed,
-          distance: newDistance,
-          groundOffset: newGroundOffset,
-          talismansCollected: state.talismansCollected + collectedIds.length,
-        };
-      });
+        const inputLog = recordInput(state.inputLog, state.tick, input);
+        const next = stepDash(state, input);
+        const ghostState =
+          state.ghost && ghostRef.current ? stepGhost(state.ghost, ghostRef.current) : state.ghost;
+        return { ...state, ...next, inputLog, ghost: ghostState, isRunning: !next.isGameOver };
+      })
+    );
+  }, []);
 
-      gameLoopRef.current = requestAnimationFrame(gameLoop);
-    };
+  useFixedTimestep(gameState.isRunning, handleFrame);
 
-    gameLoopRef.current = requestAnimationFrame(gameLoop);
+  // Replay of the current run (seed + recorded inputs)
+  const getReplay = useCallback(
+    (): DashReplay => createReplay(gameState, gameState.inputLog, gameState.owner),
+    [gameState]
+  );
 
-    return () => {
-      if (gameLoopRef.current) {
-        cancelAnimationFrame(gameLoopRef.current);
-      }
-    };
-  }, [gameState.isRunning, isJumpPressed, updatePlayer, checkObstacleCollision, checkTalismanCollision]);
+  // Stop a run that is still going (cashing out mid-run) and return its replay.
+  // Null when no run is going: it has not started yet or already ended in a crash.
+  const finishRun = useCallback((): DashReplay | null => {
+    if (!gameState.isRunning) return null;
+    setFrame(createFrame({ ...gameState, isRunning: false }));
+    return createReplay(gameState, gameState.inputLog, gameState.owner);
+  }, [gameState]);
 
   return {
     gameState,
+    previousState: frame.previous,
+    alpha: frame.alpha,
     startGame,
     resetGame,
     restartGame,
+    getReplay,
+    finishRun,
   };
 }
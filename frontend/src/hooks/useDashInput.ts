@@ -1,7 +1,15 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+const JUMP_KEYS = ['Space', 'ArrowUp', 'KeyW'];
+const DUCK_KEYS = ['ArrowDown', 'KeyS'];
+
+// Vertical travel (px) before a touch counts as a swipe down
+const SWIPE_THRESHOLD = 30;
 
 export function useDashInput(isActive: boolean) {
   const [isJumpPressed, setIsJumpPressed] = useState(false);
+  const [isDuckPressed, setIsDuckPressed] = useState(false);
+  const touchStartYRef = useRef<number | null>(null);
 
   const handleJumpStart = useCallback(() => {
     setIsJumpPressed(true);
@@ -11,32 +19,61 @@ export function useDashInput(isActive: boolean) {
     setIsJumpPressed(false);
   }, []);
 
+  const handleDuckStart = useCallback(() => {
+    setIsDuckPressed(true);
+  }, []);
+
+  const handleDuckEnd = useCallback(() => {
+    setIsDuckPressed(false);
+  }, []);
+
   useEffect(() => {
     if (!isActive) {
       setIsJumpPressed(false);
+      setIsDuckPressed(false);
       return;
     }
 
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.code === 'Space' || e.code === 'ArrowUp' || e.code === 'KeyW') {
+      if (JUMP_KEYS.includes(e.code)) {
         e.preventDefault();
         handleJumpStart();
+      } else if (DUCK_KEYS.includes(e.code)) {
+        e.preventDefault();
+        handleDuckStart();
       }
     };
 
     const handleKeyUp = (e: KeyboardEvent) => {
-      if (e.code === 'Space' || e.code === 'ArrowUp' || e.code === 'KeyW') {
+      if (JUMP_KEYS.includes(e.code)) {
         handleJumpEnd();
+      } else if (DUCK_KEYS.includes(e.code)) {
+        handleDuckEnd();
       }
     };
 
     const handleTouchStart = (e: TouchEvent) => {
       e.preventDefault();
+      touchStartYRef.current = e.touches[0]?.clientY ?? null;
       handleJumpStart();
     };
 
+    // A touch that slides down far enough turns from a jump into a duck
+    const handleTouchMove = (e: TouchEvent) => {
+      const startY = touchStartYRef.current;
+      const currentY = e.touches[0]?.clientY;
+      if (startY === null || currentY === undefined) return;
+
+      if (currentY - startY > SWIPE_THRESHOLD) {
+        handleJumpEnd();
+        handleDuckStart();
+      }
+    };
+
     const handleTouchEnd = () => {
+      touchStartYRef.current = null;
       handleJumpEnd();
+      handleDuckEnd();
     };
 
     const handleMouseDown = (e: MouseEvent) => {
@@ -53,6 +90,7 @@ export function useDashInput(isActive: boolean) {
     window.addEventListener('keydown', handleKeyDown);
     window.addEventListener('keyup', handleKeyUp);
     window.addEventListener('touchstart', handleTouchStart, { passive: false });
+    window.addEventListener('touchmove', handleTouchMove);
     window.addEventListener('touchend', handleTouchEnd);
     window.addEventListener('mousedown', handleMouseDown);
     window.addEventListener('mouseup', handleMouseUp);
@@ -61,11 +99,12 @@ export function useDashInput(isActive: boolean) {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
       window.removeEventListener('touchstart', handleTouchStart);
+      window.removeEventListener('touchmove', handleTouchMove);
       window.removeEventListener('touchend', handleTouchEnd);
       window.removeEventListener('mousedown', handleMouseDown);
       window.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [isActive, handleJumpStart, handleJumpEnd]);
+  }, [isActive, handleJumpStart, handleJumpEnd, handleDuckStart, handleDuckEnd]);
 
-  return { isJumpPressed };
+  return { isJumpPressed, isDuckPressed };
 }
@@ -0,0 +1,85 @@
+import { useState, useCallback } from 'react';
+import type { DashGameState, DashReplay } from '../types/dashGame';
+import { simulateReplay, replayInputAt, stepDash } from '../../../shared/dash';
+import { createFrame, advanceFrame, type DashFrame } from '../utils/dashFrame';
+import { useFixedTimestep } from './useFixedTimestep';
+
+export const REPLAY_SPEEDS = [0.5, 1, 2] as const;
+export type ReplaySpeed = (typeof REPLAY_SPEEDS)[number];
+
+function createReplayState(replay: DashReplay, tick: number): DashGameState {
+  return {
+    ...simulateReplay(replay, tick),
+    // Always "running" so the canvas draws the HUD
+    isRunning: true,
+    isCountingDown: false,
+    countdown: 0,
+    inputLog: { jumpToggles: replay.jumpToggles, duckToggles: replay.duckToggles },
+  };
+}
+
+/**
+ * Plays a recorded run back through the engine.
+ * Seeking re-simulates from the start, which is cheap for runs of a few minutes.
+ */
+export function useDashReplay(replay: DashReplay) {
+  const [frame, setFrame] = useState<DashFrame>(() => createFrame(createReplayState(replay, 0)));
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState<ReplaySpeed>(1);
+
+  const gameState = frame.current;
+  const isFinished = gameState.isGameOver || gameState.tick >= replay.ticks;
+
+  const handleFrame = useCallback(
+    (steps: number, alpha: number) => {
+      setFrame((prev) =>
+        advanceFrame(prev, steps, alpha, (state) => {
+          if (state.isGameOver || state.tick >= replay.ticks) return state;
+
+          const next = stepDash(state, replayInputAt(replay, state.tick));
+          return { ...state, ...next };
+        })
+      );
+    },
+    [replay]
+  );
+
+  useFixedTimestep(isPlaying && !isFinished, handleFrame, speed);
+
+  const seek = useCallback(
+    (tick: number) => {
+      setFrame(createFrame(createReplayState(replay, tick)));
+    },
+    [replay]
+  );
+
+  const play = useCallback(() => {
+    // Restart from the beginning once the run has ended
+    if (isFinished) seek(0);
+    setIsPlaying(true);
+  }, [isFinished, seek]);
+
+  const pause = useCallback(() => {
+    setIsPlaying(false);
+  }, []);
+
+  return {
+    // Render frame
+    gameState,
+    previousState: frame.previous,
+    alpha: frame.alpha,
+
+    // Playback state
+    tick: gameState.tick,
+    totalTicks: replay.ticks,
+    isPlaying: isPlaying && !isFinished,
+    isFinished,
+    speed,
+
+    // Controls
+    play,
+    pause,
+    seek,
+    setSpeed,
+  };
+}
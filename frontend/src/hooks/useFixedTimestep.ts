@@ -0,0 +1,51 @@
+import { useEffect, useRef } from 'react';
+import { FIXED_TIMESTEP_MS, MAX_FRAME_TIME_MS } from '../constants/dashGame';
+
+/**
+ * Fixed-timestep accumulator on top of requestAnimationFrame.
+ * Calls onFrame once per animation frame with the number of whole ticks to
+ * simulate and the leftover fraction of a tick for interpolation, so the
+ * simulation advances at the same rate regardless of the display refresh rate.
+ * timeScale speeds up or slows down the clock (replay playback).
+ */
+export function useFixedTimestep(
+  isRunning: boolean,
+  onFrame: (steps: number, alpha: number) => void,
+  timeScale = 1
+) {
+  const onFrameRef = useRef(onFrame);
+  const frameRef = useRef<number | undefined>(undefined);
+
+  useEffect(() => {
+    onFrameRef.current = onFrame;
+  }, [onFrame]);
+
+  useEffect(() => {
+    if (!isRunning) return;
+
+    let lastTime: number | undefined;
+    let accumulator = 0;
+
+    const loop = (now: number) => {
+      // Clamp long gaps (background tabs) so we don't try to catch up all at once
+      const elapsed = lastTime === undefined ? 0 : Math.min(now - lastTime, MAX_FRAME_TIME_MS);
+      lastTime = now;
+      accumulator += elapsed * timeScale;
+
+      const steps = Math.floor(accumulator / FIXED_TIMESTEP_MS);
+      accumulator -= steps * FIXED_TIMESTEP_MS;
+
+      onFrameRef.current(steps, accumulator / FIXED_TIMESTEP_MS);
+
+      frameRef.current = requestAnimationFrame(loop);
+    };
+
+    frameRef.current = requestAnimationFrame(loop);
+
+    return () => {
+      if (frameRef.current) {
+        cancelAnimationFrame(frameRef.current);
+      }
+    };
+  }, [isRunning, timeScale]);
+}
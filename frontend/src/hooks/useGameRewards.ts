@@ -5,12 +5,16 @@ import { TalismanGameABI } from '../constants/abis';
 import { useContractAddresses } from './useContractAddresses';
 import { useSmartAccount } from './useSmartAccount';
 import { useUserOperation } from './useUserOperation';
+import { vestedAmount, claimableAmount as claimableAt, vestingEndTime } from '../../../shared/vesting';
 
 export interface VestingSchedule {
   totalAmount: bigint;
   claimedAmount: bigint;
   startTime: bigint;
   duration: bigint;
+  cliff: bigint;
+  stepDuration: number;
+  instantUnlockPercent: number;
 }
 
 export function useGameRewards() {
@@ -36,6 +40,15 @@ export function useGameRewards() {
     query: { enabled: !!accountAddress },
   });
 
+  // Read: Open vesting tranches, one per rewarded session
+  const { data: vestingTranches, refetch: refetchTranches } = useReadContract({
+    address: gameAddress,
+    abi: TalismanGameABI,
+    functionName: 'getVestingTranches',
+    args: accountAddress ? [accountAddress] : undefined,
+    query: { enabled: !!accountAddress },
+  });
+
   // Read: Claimable amount (poll frequently)
   const {
     data: claimableAmount,
@@ -52,6 +65,31 @@ export function useGameRewards() {
     },
   });
 
+  // Read: Early claim payout and penalty at the latest block (poll frequently)
+  const { data: earlyClaimPreview, refetch: refetchEarlyClaim } = useReadContract({
+    address: gameAddress,
+    abi: TalismanGameABI,
+    functionName: 'previewEarlyClaim',
+    args: accountAddress ? [accountAddress] : undefined,
+    query: {
+      enabled: !!accountAddress,
+      refetchInterval: 5000,
+    },
+  });
+
+  // Read: Early unlock penalty config
+  const { data: earlyUnlockPenaltyPercent } = useReadContract({
+    address: gameAddress,
+    abi: TalismanGameABI,
+    functionName: 'earlyUnlockPenaltyPercent',
+  });
+
+  const { data: burnEarlyUnlockPenalty } = useReadContract({
+    address: gameAddress,
+    abi: TalismanGameABI,
+    functionName: 'burnEarlyUnlockPenalty',
+  });
+
   // Read: Vesting duration
   const { data: vestingDuration } = useReadContract({
     address: gameAddress,
@@ -67,10 +105,12 @@ export function useGameRewards() {
   useEffect(() => {
     if (isClaimSuccess) {
       refetchVesting();
+      refetchTranches();
       refetchClaimable();
+      refetchEarlyClaim();
       setIsClaimPending(false);
     }
-  }, [isClaimSuccess, refetchVesting, refetchClaimable]);
+  }, [isClaimSuccess, refetchVesting, refetchTranches, refetchClaimable, refetchEarlyClaim]);
 
   // Claim rewards via smart account
   const claimRewards = useCallback(async () => {
@@ -94,6 +134,32 @@ export function useGameRewards() {
     }
   }, [isAccountReady, gameAddress, executeViaAccount]);
 
+  // Claim everything now, forfeiting at most maxPenalty of the unvested tokens
+  const earlyClaim = useCallback(
+    async (maxPenalty: bigint) => {
+      if (!isAccountReady) return;
+
+      setClaimError(null);
+      setClaimHash(undefined);
+      setIsClaimPending(true);
+
+      try {
+        const callData = encodeFunctionData({
+          abi: TalismanGameABI,
+          functionName: 'earlyClaim',
+          args: [maxPenalty],
+        });
+
+        const hash = await executeViaAccount(gameAddress, 0n, callData);
+        setClaimHash(hash);
+      } catch (err) {
+        setClaimError(err instanceof Error ? err : new Error('Early claim failed'));
+        setIsClaimPending(false);
+      }
+    },
+    [isAccountReady, gameAddress, executeViaAccount]
+  );
+
   // Reset claim state
   const resetClaim = useCallback(() => {
     setClaimError(null);
@@ -104,35 +170,37 @@ export function useGameRewards() {
   // Refetch all rewards data
   const refetchAll = useCallback(() => {
     refetchVesting();
+    refetchTranches();
     refetchClaimable();
-  }, [refetchVesting, refetchClaimable]);
+    refetchEarlyClaim();
+  }, [refetchVesting, refetchTranches, refetchClaimable, refetchEarlyClaim]);
 
   // Computed values
   const hasClaimable = (claimableAmount ?? 0n) > 0n;
 
-  // Calculate vesting progress
+  const tranches = (vestingTranches ?? []) as readonly VestingSchedule[];
+
+  // Calculate vesting progress across every open tranche
   const vestingProgress = (() => {
-    if (!vestingInfo || vestingInfo.totalAmount === 0n) {
-      return { percent: 0, vestedAmount: 0n, remainingTime: 0 };
+    const total = tranches.reduce((sum, t) => sum + t.totalAmount, 0n);
+    if (total === 0n) {
+      return { percent: 0, vestedAmount: 0n, claimable: 0n, remainingTime: 0 };
     }
 
     const now = BigInt(Math.floor(Date.now() / 1000));
-    const elapsed = now - vestingInfo.startTime;
-    const duration = vestingInfo.duration;
-
-    if (elapsed >= duration) {
-      return {
-        percent: 100,
-        vestedAmount: vestingInfo.totalAmount,
-        remainingTime: 0,
-      };
-    }
+    const vested = tranches.reduce((sum, t) => sum + vestedAmount(t, now), 0n);
+    const endTime = tranches.reduce((end, t) => {
+      const trancheEnd = vestingEndTime(t);
+      return trancheEnd > end ? trancheEnd : end;
+    }, 0n);
+
+    const percent = Number((vested * 100n) / total);
+    const remainingTime = endTime > now ? Number(endTime - now) : 0;
 
-    const vestedAmount = (vestingInfo.totalAmount * elapsed) / duration;
-    const percent = Number((elapsed * 100n) / duration);
-    const remainingTime = Number(duration - elapsed);
+    // Same curve as the contract, so this tracks getClaimableAmount between polls
+    const claimable = claimableAt(tranches, now);
 
-    return { percent, vestedAmount, remainingTime };
+    return { percent, vestedAmount: vested, claimable, remainingTime };
   })();
 
   return {
@@ -140,10 +208,18 @@ export function useGameRewards() {
     accountAddress,
     // Vesting data
     vestingInfo: vestingInfo as VestingSchedule | undefined,
+    vestingTranches: tranches,
     claimableAmount: claimableAmount ?? 0n,
     vestingDuration: vestingDuration ?? 0n,
+    earlyClaimPreview: {
+      amount: earlyClaimPreview?.[0] ?? 0n,
+      penalty: earlyClaimPreview?.[1] ?? 0n,
+    },
+    earlyUnlockPenaltyPercent: earlyUnlockPenaltyPercent ?? 0n,
+    burnEarlyUnlockPenalty: burnEarlyUnlockPenalty ?? true,
     // Actions
     claimRewards,
+    earlyClaim,
     resetClaim,
     // States
     isClaiming: isClaimPending || isClaimConfirming,
@@ -154,7 +230,9 @@ export function useGameRewards() {
     vestingProgress,
     // Utilities
     refetchVesting,
+    refetchTranches,
     refetchClaimable,
+    refetchEarlyClaim,
     refetchAll,
     isLoading: isVestingLoading || isClaimableLoading,
   };
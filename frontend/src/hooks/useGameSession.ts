@@ -5,6 +5,8 @@ import { TalismanGameABI } from '../constants/abis';
 import { useContractAddresses } from './useContractAddresses';
 import { useSmartAccount } from './useSmartAccount';
 import { useUserOperation } from './useUserOperation';
+import type { SessionProof } from '../utils/verifier';
+import type { GameMode } from '../constants/gameModes';
 
 export interface GameSession {
   startTime: bigint;
@@ -12,12 +14,13 @@ export interface GameSession {
   rewardEarned: bigint;
   talismansCollected: number;
   isActive: boolean;
+  gameMode: GameMode;
 }
 
 export function useGameSession() {
   const { accountAddress, hasAccount, isAccountReady } = useSmartAccount();
   const { gameAddress } = useContractAddresses();
-  const { executeViaAccount, isPending: isUserOpPending, reset: resetUserOp } = useUserOperation();
+  const { executeViaAccount, isPending: isUserOpPending, reset: resetUserOp, sponsorshipNotice } = useUserOperation();
 
   // Track transaction hashes for waiting
   const [startHash, setStartHash] = useState<Hex | undefined>();
@@ -75,6 +78,34 @@ export function useGameSession() {
     functionName: 'maxSessionDuration',
   });
 
+  // Read: Session timeout, after which anyone can settle the session
+  const { data: sessionTimeout } = useReadContract({
+    address: gameAddress,
+    abi: TalismanGameABI,
+    functionName: 'sessionTimeout',
+  });
+
+  // Read: Whether the active session is past the timeout (poll occasionally)
+  const { data: isExpired, refetch: refetchExpired } = useReadContract({
+    address: gameAddress,
+    abi: TalismanGameABI,
+    functionName: 'isSessionExpired',
+    args: accountAddress ? [accountAddress] : undefined,
+    query: {
+      enabled: !!accountAddress && !!session?.isActive,
+      refetchInterval: 30000,
+    },
+  });
+
+  // Read: Reward multiplier of the current session's game mode
+  const { data: modeMultiplier } = useReadContract({
+    address: gameAddress,
+    abi: TalismanGameABI,
+    functionName: 'modeRewardMultiplier',
+    args: session ? [session.gameMode] : undefined,
+    query: { enabled: !!session },
+  });
+
   // Read: Attempt count (using smart account address)
   const { data: attemptCount, refetch: refetchAttemptCount } = useReadContract({
     address: gameAddress,
@@ -107,9 +138,10 @@ export function useGameSession() {
   useEffect(() => {
     if (isEndSuccess) {
       refetchSession();
+      refetchExpired();
       setIsEndPending(false);
     }
-  }, [isEndSuccess, refetchSession]);
+  }, [isEndSuccess, refetchSession, refetchExpired]);
 
   // Auto-refetch when retry succeeds
   useEffect(() => {
@@ -119,8 +151,8 @@ export function useGameSession() {
     }
   }, [isRetrySuccess, refetchAttemptCount]);
 
-  // Start session via smart account
-  const startSession = useCallback(async () => {
+  // Start session in the given game mode via smart account
+  const startSession = useCallback(async (gameMode: GameMode) => {
     if (!isAccountReady) return;
 
     setStartError(null);
@@ -131,6 +163,7 @@ export function useGameSession() {
       const callData = encodeFunctionData({
         abi: TalismanGameABI,
         functionName: 'startSession',
+        args: [gameMode],
       });
 
       const hash = await executeViaAccount(gameAddress, 0n, callData);
@@ -141,6 +174,29 @@ export function useGameSession() {
     }
   }, [isAccountReady, gameAddress, executeViaAccount]);
 
+  // End session with a verifier-signed talisman count via smart account
+  const endSessionWithProof = useCallback(async (proof: SessionProof) => {
+    if (!isAccountReady) return;
+
+    setEndError(null);
+    setEndHash(undefined);
+    setIsEndPending(true);
+
+    try {
+      const callData = encodeFunctionData({
+        abi: TalismanGameABI,
+        functionName: 'endSessionWithProof',
+        args: [BigInt(proof.talismansCollected), BigInt(proof.deadline), proof.signature],
+      });
+
+      const hash = await executeViaAccount(gameAddress, 0n, callData);
+      setEndHash(hash);
+    } catch (err) {
+      setEndError(err instanceof Error ? err : new Error('End session failed'));
+      setIsEndPending(false);
+    }
+  }, [isAccountReady, gameAddress, executeViaAccount]);
+
   // End session via smart account
   const endSession = useCallback(async (talismansCollected: number) => {
     if (!isAccountReady) return;
@@ -164,6 +220,58 @@ export function useGameSession() {
     }
   }, [isAccountReady, gameAddress, executeViaAccount]);
 
+  // Settle a stale session at its capped duration with zero talismans via smart account;
+  // expired sessions go through the same path a keeper uses
+  const settleSession = useCallback(async () => {
+    if (!isAccountReady || !accountAddress) return;
+
+    setEndError(null);
+    setEndHash(undefined);
+    setIsEndPending(true);
+
+    try {
+      const callData = isExpired
+        ? encodeFunctionData({
+            abi: TalismanGameABI,
+            functionName: 'settleExpiredSession',
+            args: [accountAddress],
+          })
+        : encodeFunctionData({
+            abi: TalismanGameABI,
+            functionName: 'endSession',
+            args: [0n],
+          });
+
+      const hash = await executeViaAccount(gameAddress, 0n, callData);
+      setEndHash(hash);
+    } catch (err) {
+      setEndError(err instanceof Error ? err : new Error('Settle session failed'));
+      setIsEndPending(false);
+    }
+  }, [isAccountReady, accountAddress, isExpired, gameAddress, executeViaAccount]);
+
+  // Give up the session without a reward via smart account
+  const forfeitSession = useCallback(async () => {
+    if (!isAccountReady) return;
+
+    setEndError(null);
+    setEndHash(undefined);
+    setIsEndPending(true);
+
+    try {
+      const callData = encodeFunctionData({
+        abi: TalismanGameABI,
+        functionName: 'forfeitSession',
+      });
+
+      const hash = await executeViaAccount(gameAddress, 0n, callData);
+      setEndHash(hash);
+    } catch (err) {
+      setEndError(err instanceof Error ? err : new Error('Forfeit session failed'));
+      setIsEndPending(false);
+    }
+  }, [isAccountReady, gameAddress, executeViaAccount]);
+
   // Retry game via smart account
   const retryGame = useCallback(async () => {
     if (!isAccountReady) return;
@@ -215,6 +323,16 @@ export function useGameSession() {
     return now - session.startTime >= minDuration;
   })();
 
+  // A session that can no longer earn time rewards was most likely abandoned
+  // (tab closed mid-run); offer to resume or settle it instead of dropping into the game
+  const isStale = (() => {
+    if (!isActive || !session?.startTime) return false;
+    if (isExpired) return true;
+    if (!maxDuration) return false;
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    return now - session.startTime >= maxDuration;
+  })();
+
   return {
     // Smart account info
     accountAddress,
@@ -226,14 +344,21 @@ export function useGameSession() {
     rewardRate: rewardRate ?? 0n,
     minDuration: minDuration ?? 0n,
     maxDuration: maxDuration ?? 0n,
+    modeMultiplier: modeMultiplier ?? 100n,
     attemptCount: attemptCount ? Number(attemptCount) : 0,
     isActive,
     startTime,
     canEndSession,
+    sessionTimeout: sessionTimeout ?? 0n,
+    isStale,
+    isExpired: isExpired ?? false,
     // Actions
     startSession,
     endSession,
+    endSessionWithProof,
     retryGame,
+    settleSession,
+    forfeitSession,
     // Loading states
     isStarting: isStartPending || isStartConfirming,
     isEnding: isEndPending || isEndConfirming,
@@ -246,6 +371,8 @@ export function useGameSession() {
     startError,
     endError,
     retryError,
+    // Set when the last transaction paid its own gas because the paymaster would reject it
+    sponsorshipNotice,
     // Utilities
     refetchSession,
     isLoading: isSessionLoading,
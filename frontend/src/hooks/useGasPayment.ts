@@ -0,0 +1,37 @@
+import { useCallback, useSyncExternalStore } from 'react';
+
+// How UserOperations pay gas: sponsored by the paymaster, in TLSM through the paymaster, or from the smart account's ETH
+export type GasPayment = 'sponsored' | 'token' | 'self';
+
+const GAS_PAYMENTS: readonly GasPayment[] = ['sponsored', 'token', 'self'];
+
+// One preference per browser, shared by every hook that sends UserOperations
+const STORAGE_KEY = 'talisman:gasPayment';
+const listeners = new Set<() => void>();
+
+function readGasPayment(): GasPayment {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return GAS_PAYMENTS.find((payment) => payment === stored) ?? 'sponsored';
+  } catch {
+    return 'sponsored';
+  }
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useGasPayment() {
+  const gasPayment = useSyncExternalStore(subscribe, readGasPayment);
+
+  const setGasPayment = useCallback((payment: GasPayment) => {
+    localStorage.setItem(STORAGE_KEY, payment);
+    listeners.forEach((listener) => listener());
+  }, []);
+
+  return { gasPayment, setGasPayment };
+}
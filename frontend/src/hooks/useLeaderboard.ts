@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import { SERVICE_URLS } from '../config/services';
+import { fetchLeaderboard, type LeaderboardPeriod, type LeaderboardSort } from '../utils/indexer';
+
+export function useLeaderboard(period: LeaderboardPeriod, sort: LeaderboardSort) {
+  // Fetch: Ranked players from the indexer (poll occasionally)
+  const { data, error, isLoading, refetch } = useQuery({
+    queryKey: ['leaderboard', SERVICE_URLS.indexer, period, sort],
+    queryFn: () => fetchLeaderboard(period, sort),
+    enabled: !!SERVICE_URLS.indexer,
+    refetchInterval: 15000,
+  });
+
+  return {
+    leaderboard: data,
+    isEnabled: !!SERVICE_URLS.indexer,
+    isLoading,
+    error,
+    refetch,
+  };
+}
@@ -0,0 +1,56 @@
+import { useReadContracts } from 'wagmi';
+import { TalismanGameABI, TalismanTokenABI } from '../constants/abis';
+import { useContractAddresses } from './useContractAddresses';
+
+export interface PoolHealth {
+  balance: bigint;
+  unclaimed: bigint;
+  reserved: bigint;
+  available: bigint;
+  maxSessionReward: bigint;
+  sessionCapacity: bigint;
+  committedPercent: number;
+}
+
+export function usePoolHealth() {
+  const { tokenAddress, gameAddress } = useContractAddresses();
+
+  // Read: Pool balance and what it is committed to (poll occasionally)
+  const { data, refetch, isLoading } = useReadContracts({
+    contracts: [
+      { address: tokenAddress, abi: TalismanTokenABI, functionName: 'balanceOf', args: [gameAddress] },
+      { address: gameAddress, abi: TalismanGameABI, functionName: 'totalUnclaimedRewards' },
+      { address: gameAddress, abi: TalismanGameABI, functionName: 'totalReservedRewards' },
+      { address: gameAddress, abi: TalismanGameABI, functionName: 'availableRewards' },
+      { address: gameAddress, abi: TalismanGameABI, functionName: 'maxSessionDuration' },
+      { address: gameAddress, abi: TalismanGameABI, functionName: 'rewardRatePerSecond' },
+      { address: gameAddress, abi: TalismanGameABI, functionName: 'MAX_TALISMAN_BONUS' },
+    ],
+    query: { refetchInterval: 10000 },
+  });
+
+  const [balance, unclaimed, reserved, available, maxDuration, rewardRate, maxBonus] = (
+    data ?? []
+  ).map((entry) => (entry.result as bigint | undefined) ?? 0n);
+
+  // Worst-case reward of a 1x session, as reserved by startSession
+  const maxSessionReward = ((maxDuration ?? 0n) * (rewardRate ?? 0n) * (100n + (maxBonus ?? 0n))) / 100n;
+
+  const health: PoolHealth | undefined = data
+    ? {
+        balance,
+        unclaimed,
+        reserved,
+        available,
+        maxSessionReward,
+        sessionCapacity: maxSessionReward > 0n ? available / maxSessionReward : 0n,
+        committedPercent: balance > 0n ? Number(((unclaimed + reserved) * 100n) / balance) : 0,
+      }
+    : undefined;
+
+  return {
+    health,
+    isLoading,
+    refetch,
+  };
+}
@@ -0,0 +1,277 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { usePublicClient, useReadContract, useReadContracts, useWaitForTransactionReceipt } from 'wagmi';
+import { encodeFunctionData, hexToString, zeroAddress, type Hex } from 'viem';
+import { TalismanRaceEscrowABI, TalismanTokenABI } from '../constants/abis';
+import { SERVICE_URLS } from '../config/services';
+import { useContractAddresses } from './useContractAddresses';
+import { useSmartAccount } from './useSmartAccount';
+import { useUserOperation } from './useUserOperation';
+import { requestRaceProof } from '../utils/verifier';
+import { parseReplay, simulateReplay } from '../../../shared/dash';
+import type { DashReplay } from '../types/dashGame';
+
+// Newest races listed on the race page
+const RECENT_RACES = 20;
+
+// Mirrors ITalismanRaceEscrow.RaceStatus
+const RACE_STATUSES = ['none', 'open', 'accepted', 'settled', 'cancelled'] as const;
+
+export type RaceStatus = (typeof RACE_STATUSES)[number];
+
+export type RaceAction = 'approve' | 'create' | 'accept' | 'submit' | 'cancel' | 'claim';
+
+export interface RaceInfo {
+  id: bigint;
+  creator: `0x${string}`;
+  seed: number;
+  creatorDistance: bigint;
+  challenger: `0x${string}`;
+  challengerDistance: bigint;
+  stake: bigint;
+  expiresAt: bigint;
+  acceptedAt: bigint;
+  raceDeadline: bigint;
+  status: RaceStatus;
+  winner: `0x${string}`;
+  // Open but past its challenge window: only the creator can still cancel it
+  isExpired: boolean;
+  // Accepted but the challenger missed the race window: anyone can award it to the creator
+  isOverdue: boolean;
+}
+
+interface RaceStruct {
+  creator: `0x${string}`;
+  seed: number;
+  creatorDistance: bigint;
+  challenger: `0x${string}`;
+  challengerDistance: bigint;
+  stake: bigint;
+  expiresAt: bigint;
+  acceptedAt: bigint;
+  raceDeadline: bigint;
+  status: number;
+  winner: `0x${string}`;
+}
+
+export function useRaceEscrow() {
+  const { accountAddress, isAccountReady } = useSmartAccount();
+  const { tokenAddress, raceEscrowAddress } = useContractAddresses();
+  const { executeViaAccount } = useUserOperation();
+  const publicClient = usePublicClient();
+  const isEnabled = raceEscrowAddress !== zeroAddress;
+
+  // Track the pending escrow transaction
+  const [pending, setPending] = useState<{ raceId?: bigint; action: RaceAction } | null>(null);
+  const [txHash, setTxHash] = useState<Hex | undefined>();
+  const [txError, setTxError] = useState<Error | null>(null);
+
+  // Tick once a second so challenge and race windows close on time
+  const [now, setNow] = useState(() => BigInt(Math.floor(Date.now() / 1000)));
+  useEffect(() => {
+    const interval = setInterval(() => setNow(BigInt(Math.floor(Date.now() / 1000))), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Read: Number of races created
+  const { data: raceCount, refetch: refetchCount } = useReadContract({
+    address: raceEscrowAddress,
+    abi: TalismanRaceEscrowABI,
+    functionName: 'raceCount',
+    query: { enabled: isEnabled, refetchInterval: 10000 },
+  });
+
+  // Newest first
+  const ids = useMemo(() => {
+    const count = raceCount ?? 0n;
+    const shown = count < BigInt(RECENT_RACES) ? Number(count) : RECENT_RACES;
+    return Array.from({ length: shown }, (_, i) => count - 1n - BigInt(i));
+  }, [raceCount]);
+
+  // Read: Recent races (poll so accepted and settled races show up)
+  const { data, refetch: refetchRaces, isLoading } = useReadContracts({
+    contracts: ids.map((id) => ({
+      address: raceEscrowAddress,
+      abi: TalismanRaceEscrowABI,
+      functionName: 'getRace' as const,
+      args: [id] as const,
+    })),
+    query: { enabled: isEnabled && ids.length > 0, refetchInterval: 10000 },
+  });
+
+  // Read: Allowance from smart account to the escrow
+  const { data: allowance, refetch: refetchAllowance } = useReadContract({
+    address: tokenAddress,
+    abi: TalismanTokenABI,
+    functionName: 'allowance',
+    args: accountAddress ? [accountAddress, raceEscrowAddress] : undefined,
+    query: { enabled: !!accountAddress && isEnabled },
+  });
+
+  // Wait for the escrow transaction
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash: txHash });
+
+  // Auto-refetch when the transaction succeeds
+  useEffect(() => {
+    if (isSuccess) {
+      refetchCount();
+      refetchRaces();
+      refetchAllowance();
+      setPending(null);
+    }
+  }, [isSuccess, refetchCount, refetchRaces, refetchAllowance]);
+
+  const races = useMemo<RaceInfo[]>(() => {
+    if (!data) return [];
+
+    return ids.flatMap((id, i) => {
+      const race = data[i]?.result as RaceStruct | undefined;
+      if (!race) return [];
+
+      const status = RACE_STATUSES[race.status] ?? 'none';
+      return [
+        {
+          ...race,
+          id,
+          seed: Number(race.seed),
+          status,
+          isExpired: status === 'open' && now >= race.expiresAt,
+          isOverdue: status === 'accepted' && now > race.raceDeadline,
+        },
+      ];
+    });
+  }, [data, ids, now]);
+
+  // Send one escrow or token call via smart account
+  const execute = useCallback(
+    async (action: RaceAction, raceId: bigint | undefined, target: `0x${string}`, buildCallData: () => Promise<Hex>) => {
+      if (!isAccountReady || !accountAddress) return;
+
+      setTxError(null);
+      setTxHash(undefined);
+      setPending({ raceId, action });
+
+      try {
+        const callData = await buildCallData();
+        const hash = await executeViaAccount(target, 0n, callData);
+        setTxHash(hash);
+      } catch (err) {
+        setTxError(err instanceof Error ? err : new Error('Race transaction failed'));
+        setPending(null);
+      }
+    },
+    [isAccountReady, accountAddress, executeViaAccount]
+  );
+
+  // Approve the escrow to pull a stake
+  const approveStake = useCallback(
+    (amount: bigint, raceId?: bigint) =>
+      execute('approve', raceId, tokenAddress, async () =>
+        encodeFunctionData({ abi: TalismanTokenABI, functionName: 'approve', args: [raceEscrowAddress, amount] })
+      ),
+    [execute, tokenAddress, raceEscrowAddress]
+  );
+
+  // Have the verifier attest a run, then stake on it with the attested replay published as the ghost
+  const createRace = useCallback(
+    (replay: DashReplay, stake: bigint) =>
+      execute('create', undefined, raceEscrowAddress, async () => {
+        const proof = await requestRaceProof(accountAddress!, replay);
+        if (!proof.ghost) throw new Error('Verifier did not return the ghost');
+        return encodeFunctionData({
+          abi: TalismanRaceEscrowABI,
+          functionName: 'createRace',
+          args: [
+            stake,
+            BigInt(proof.seed),
+            BigInt(proof.distance),
+            BigInt(proof.deadline),
+            proof.signature,
+            proof.ghost,
+          ],
+        });
+      }),
+    [execute, raceEscrowAddress, accountAddress]
+  );
+
+  const acceptRace = useCallback(
+    (raceId: bigint) =>
+      execute('accept', raceId, raceEscrowAddress, async () =>
+        encodeFunctionData({ abi: TalismanRaceEscrowABI, functionName: 'acceptRace', args: [raceId] })
+      ),
+    [execute, raceEscrowAddress]
+  );
+
+  // Have the verifier attest the challenger's run on the race seed, which settles the race
+  const submitResult = useCallback(
+    (raceId: bigint, replay: DashReplay) =>
+      execute('submit', raceId, raceEscrowAddress, async () => {
+        const proof = await requestRaceProof(accountAddress!, replay, Number(raceId));
+        return encodeFunctionData({
+          abi: TalismanRaceEscrowABI,
+          functionName: 'submitRaceResult',
+          args: [raceId, BigInt(proof.distance), BigInt(proof.deadline), proof.signature],
+        });
+      }),
+    [execute, raceEscrowAddress, accountAddress]
+  );
+
+  const cancelRace = useCallback(
+    (raceId: bigint) =>
+      execute('cancel', raceId, raceEscrowAddress, async () =>
+        encodeFunctionData({ abi: TalismanRaceEscrowABI, functionName: 'cancelRace', args: [raceId] })
+      ),
+    [execute, raceEscrowAddress]
+  );
+
+  const claimExpiredRace = useCallback(
+    (raceId: bigint) =>
+      execute('claim', raceId, raceEscrowAddress, async () =>
+        encodeFunctionData({ abi: TalismanRaceEscrowABI, functionName: 'claimExpiredRace', args: [raceId] })
+      ),
+    [execute, raceEscrowAddress]
+  );
+
+  // Fetch a race's ghost from its creation event and check it is the run that was staked on
+  const loadGhost = useCallback(
+    async (race: RaceInfo): Promise<DashReplay> => {
+      if (!publicClient) throw new Error('No public client');
+
+      const [log] = await publicClient.getContractEvents({
+        address: raceEscrowAddress,
+        abi: TalismanRaceEscrowABI,
+        eventName: 'RaceCreated',
+        args: { raceId: race.id },
+        fromBlock: 0n,
+      });
+      if (!log?.args.ghost) throw new Error('Ghost not found');
+
+      const ghost = parseReplay(hexToString(log.args.ghost));
+      const distance = BigInt(Math.floor(simulateReplay(ghost).distance));
+      if (ghost.seed !== race.seed || distance !== race.creatorDistance) {
+        throw new Error('Ghost does not match the race');
+      }
+      return ghost;
+    },
+    [publicClient, raceEscrowAddress]
+  );
+
+  return {
+    isEnabled,
+    races,
+    isLoading,
+    accountAddress,
+    allowance: allowance ?? 0n,
+    // Staked races need the score verifier to attest distances
+    canStake: !!SERVICE_URLS.verifier,
+    approveStake,
+    createRace,
+    acceptRace,
+    submitResult,
+    cancelRace,
+    claimExpiredRace,
+    loadGhost,
+    pending,
+    isPending: !!pending || isConfirming,
+    txError,
+  };
+}
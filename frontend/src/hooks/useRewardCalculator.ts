@@ -3,7 +3,8 @@ import { useMemo } from 'react';
 export function useRewardCalculator(
   elapsedSeconds: number,
   rewardRatePerSecond: bigint | undefined,
-  maxDuration: bigint | undefined
+  maxDuration: bigint | undefined,
+  modeMultiplier = 100n
 ) {
   return useMemo(() => {
     if (!rewardRatePerSecond || rewardRatePerSecond === 0n) return 0n;
@@ -12,6 +13,7 @@ export function useRewardCalculator(
     const maxSeconds = maxDuration ? Number(maxDuration) : Infinity;
     const effectiveElapsed = Math.min(elapsedSeconds, maxSeconds);
 
-    return BigInt(effectiveElapsed) * rewardRatePerSecond;
-  }, [elapsedSeconds, rewardRatePerSecond, maxDuration]);
+    // Game mode multiplier in percent, as applied by the contract
+    return (BigInt(effectiveElapsed) * rewardRatePerSecond * modeMultiplier) / 100n;
+  }, [elapsedSeconds, rewardRatePerSecond, maxDuration, modeMultiplier]);
 }
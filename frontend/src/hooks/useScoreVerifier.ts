@@ -0,0 +1,45 @@
+import { useState, useCallback } from 'react';
+import { useReadContract } from 'wagmi';
+import { zeroAddress } from 'viem';
+import { TalismanGameABI } from '../constants/abis';
+import { useContractAddresses } from './useContractAddresses';
+import { requestSessionProof, type SessionProof } from '../utils/verifier';
+import type { DashReplay } from '../types/dashGame';
+
+export function useScoreVerifier() {
+  const { gameAddress } = useContractAddresses();
+
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [verifyError, setVerifyError] = useState<Error | null>(null);
+
+  // Read: Verifier signer (zero = talisman counts are not checked)
+  const { data: scoreVerifier } = useReadContract({
+    address: gameAddress,
+    abi: TalismanGameABI,
+    functionName: 'scoreVerifier',
+  });
+
+  const requestProof = useCallback(
+    async (player: string, replays: DashReplay[]): Promise<SessionProof | null> => {
+      setVerifyError(null);
+      setIsVerifying(true);
+
+      try {
+        return await requestSessionProof(player, replays);
+      } catch (err) {
+        setVerifyError(err instanceof Error ? err : new Error('Score verification failed'));
+        return null;
+      } finally {
+        setIsVerifying(false);
+      }
+    },
+    []
+  );
+
+  return {
+    isProofRequired: !!scoreVerifier && scoreVerifier !== zeroAddress,
+    requestProof,
+    isVerifying,
+    verifyError,
+  };
+}
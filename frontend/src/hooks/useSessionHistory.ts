@@ -0,0 +1,116 @@
+import { useMemo } from 'react';
+import { useReadContract, useReadContracts } from 'wagmi';
+import { zeroAddress } from 'viem';
+import { TalismanGameABI } from '../constants/abis';
+import { useContractAddresses } from './useContractAddresses';
+import { useSmartAccount } from './useSmartAccount';
+import type { GameMode } from '../constants/gameModes';
+
+// Sessions fetched per getSessionHistory call
+const HISTORY_PAGE_SIZE = 50;
+
+export interface SessionRecord {
+  id: number;
+  startTime: bigint;
+  endTime: bigint;
+  duration: bigint;
+  attempts: number;
+  gameMode: GameMode;
+  reward: bigint;
+  talismansCollected: number;
+  multiplier: number;
+}
+
+export interface SessionHistoryTotals {
+  sessions: number;
+  attempts: number;
+  talismans: number;
+  reward: bigint;
+  playTime: number;
+}
+
+export function useSessionHistory() {
+  const { accountAddress } = useSmartAccount();
+  const { gameAddress } = useContractAddresses();
+
+  // Read: Number of ended sessions (using smart account address)
+  const {
+    data: sessionCount,
+    refetch: refetchCount,
+    isLoading: isCountLoading,
+  } = useReadContract({
+    address: gameAddress,
+    abi: TalismanGameABI,
+    functionName: 'getSessionCount',
+    args: accountAddress ? [accountAddress] : undefined,
+    query: { enabled: !!accountAddress },
+  });
+
+  // Read: The whole history, one page per call
+  const count = Number(sessionCount ?? 0n);
+  const pageCount = Math.ceil(count / HISTORY_PAGE_SIZE);
+  const {
+    data: pages,
+    refetch: refetchPages,
+    isLoading: isPagesLoading,
+  } = useReadContracts({
+    contracts: Array.from({ length: pageCount }, (_, page) => ({
+      address: gameAddress,
+      abi: TalismanGameABI,
+      functionName: 'getSessionHistory' as const,
+      args: [
+        accountAddress ?? zeroAddress,
+        BigInt(page * HISTORY_PAGE_SIZE),
+        BigInt(HISTORY_PAGE_SIZE),
+      ] as const,
+    })),
+    query: { enabled: !!accountAddress && pageCount > 0 },
+  });
+
+  // Newest session first
+  const records = useMemo<SessionRecord[]>(() => {
+    if (!pages) return [];
+    return pages
+      .flatMap((page) => page.result ?? [])
+      .map((record, id) => ({
+        id,
+        startTime: record.startTime,
+        endTime: record.endTime,
+        duration: record.duration,
+        attempts: record.attempts,
+        gameMode: record.gameMode as GameMode,
+        reward: record.reward,
+        talismansCollected: record.talismansCollected,
+        multiplier: record.multiplier,
+      }))
+      .reverse();
+  }, [pages]);
+
+  const totals = useMemo<SessionHistoryTotals>(
+    () =>
+      records.reduce(
+        (sum, record) => ({
+          sessions: sum.sessions + 1,
+          attempts: sum.attempts + record.attempts,
+          talismans: sum.talismans + record.talismansCollected,
+          reward: sum.reward + record.reward,
+          playTime: sum.playTime + Number(record.duration),
+        }),
+        { sessions: 0, attempts: 0, talismans: 0, reward: 0n, playTime: 0 }
+      ),
+    [records]
+  );
+
+  const refetch = async () => {
+    await refetchCount();
+    await refetchPages();
+  };
+
+  return {
+    records,
+    totals,
+    sessionCount: count,
+    isLoading: isCountLoading || isPagesLoading,
+    refetch,
+  };
+}
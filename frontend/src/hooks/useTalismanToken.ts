@@ -1,15 +1,16 @@
 import { useEffect, useCallback, useState } from 'react';
 import { useReadContract, useWaitForTransactionReceipt } from 'wagmi';
-import { encodeFunctionData, type Hex } from 'viem';
+import { encodeFunctionData, type Address, type Hex } from 'viem';
 import { TalismanTokenABI } from '../constants/abis';
 import { useContractAddresses } from './useContractAddresses';
 import { useSmartAccount } from './useSmartAccount';
 import { useUserOperation } from './useUserOperation';
+import type { GasPayment } from './useGasPayment';
 
 export function useTalismanToken() {
   const { accountAddress, isAccountReady } = useSmartAccount();
-  const { tokenAddress, gameAddress } = useContractAddresses();
-  const { executeViaAccount } = useUserOperation();
+  const { tokenAddress, gameAddress, paymasterAddress } = useContractAddresses();
+  const { executeViaAccount, sponsorshipNotice } = useUserOperation();
 
   // Track approve transaction
   const [approveHash, setApproveHash] = useState<Hex | undefined>();
@@ -42,6 +43,15 @@ export function useTalismanToken() {
     query: { enabled: !!accountAddress },
   });
 
+  // Read: Allowance from smart account to the paymaster, the TLSM it may charge for gas
+  const { data: gasAllowance, refetch: refetchGasAllowance } = useReadContract({
+    address: tokenAddress,
+    abi: TalismanTokenABI,
+    functionName: 'allowance',
+    args: accountAddress ? [accountAddress, paymasterAddress] : undefined,
+    query: { enabled: !!accountAddress },
+  });
+
   // Wait for approve transaction
   const { isLoading: isApproveConfirming, isSuccess: isApproveSuccess } =
     useWaitForTransactionReceipt({ hash: approveHash });
@@ -50,13 +60,14 @@ export function useTalismanToken() {
   useEffect(() => {
     if (isApproveSuccess) {
       refetchAllowance();
+      refetchGasAllowance();
       refetchBalance();
       setIsApprovePending(false);
     }
-  }, [isApproveSuccess, refetchAllowance, refetchBalance]);
+  }, [isApproveSuccess, refetchAllowance, refetchGasAllowance, refetchBalance]);
 
-  // Approve via smart account
-  const approveGame = useCallback(async (amount: bigint) => {
+  // Approve a spender via smart account
+  const approve = useCallback(async (spender: Address, amount: bigint, gasPayment?: GasPayment) => {
     if (!isAccountReady) return;
 
     setApproveError(null);
@@ -67,16 +78,24 @@ export function useTalismanToken() {
       const callData = encodeFunctionData({
         abi: TalismanTokenABI,
         functionName: 'approve',
-        args: [gameAddress, amount],
+        args: [spender, amount],
       });
 
-      const hash = await executeViaAccount(tokenAddress, 0n, callData);
+      const hash = await executeViaAccount(tokenAddress, 0n, callData, gasPayment);
       setApproveHash(hash);
     } catch (err) {
       setApproveError(err instanceof Error ? err : new Error('Approve failed'));
       setIsApprovePending(false);
     }
-  }, [isAccountReady, tokenAddress, gameAddress, executeViaAccount]);
+  }, [isAccountReady, tokenAddress, executeViaAccount]);
+
+  const approveGame = useCallback((amount: bigint) => approve(gameAddress, amount), [approve, gameAddress]);
+
+  // Let the paymaster charge up to amount TLSM for gas. Sponsored, as there is no TLSM to pay with yet
+  const reserveGas = useCallback(
+    (amount: bigint) => approve(paymasterAddress, amount, 'sponsored'),
+    [approve, paymasterAddress]
+  );
 
   // Reset approve state
   const resetApprove = useCallback(() => {
@@ -95,7 +114,8 @@ export function useTalismanToken() {
   const refetchAll = useCallback(() => {
     refetchBalance();
     refetchAllowance();
-  }, [refetchBalance, refetchAllowance]);
+    refetchGasAllowance();
+  }, [refetchBalance, refetchAllowance, refetchGasAllowance]);
 
   return {
     // Smart account address (tokens are held here)
@@ -103,13 +123,18 @@ export function useTalismanToken() {
     // Token data
     balance: balance ?? 0n,
     allowance: allowance ?? 0n,
+    // TLSM the paymaster can charge for gas: its allowance, up to the balance
+    gasReserve: (gasAllowance ?? 0n) < (balance ?? 0n) ? (gasAllowance ?? 0n) : (balance ?? 0n),
     // Actions
     approveGame,
+    reserveGas,
     resetApprove,
     // States
     isApproving: isApprovePending || isApproveConfirming,
     isApproveSuccess,
     approveError,
+    // Set when the approval couldn't pay gas the chosen way
+    sponsorshipNotice,
     // Utilities
     needsApproval,
     refetchBalance,
@@ -0,0 +1,265 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useReadContract, useReadContracts, useWaitForTransactionReceipt } from 'wagmi';
+import { encodeFunctionData, zeroAddress, type Hex } from 'viem';
+import { TalismanTokenABI, TalismanTournamentABI } from '../constants/abis';
+import { SERVICE_URLS } from '../config/services';
+import { useContractAddresses } from './useContractAddresses';
+import { useSmartAccount } from './useSmartAccount';
+import { useUserOperation } from './useUserOperation';
+import { requestTournamentProof } from '../utils/verifier';
+import type { DashReplay } from '../types/dashGame';
+
+// Newest tournaments shown on the tournaments page
+const RECENT_TOURNAMENTS = 10;
+// Reads made per tournament, in the order of the contracts list below
+const READS_PER_TOURNAMENT = 7;
+
+export type TournamentStatus = 'upcoming' | 'running' | 'ended' | 'finalized';
+
+export type TournamentAction = 'approve' | 'enter' | 'submit' | 'finalize' | 'claim';
+
+export interface TournamentStanding {
+  rank: number;
+  player: `0x${string}`;
+  distance: bigint;
+}
+
+export interface TournamentInfo {
+  id: bigint;
+  startTime: bigint;
+  endTime: bigint;
+  entryFee: bigint;
+  prizePool: bigint;
+  entrantCount: number;
+  finalized: boolean;
+  status: TournamentStatus;
+  // Share of the prize pool per place, in basis points
+  payoutTable: number[];
+  standings: TournamentStanding[];
+  hasEntered: boolean;
+  bestDistance: bigint;
+  prize: bigint;
+  isPrizeClaimed: boolean;
+}
+
+interface TournamentStruct {
+  startTime: bigint;
+  endTime: bigint;
+  entryFee: bigint;
+  prizePool: bigint;
+  entrantCount: number;
+  finalized: boolean;
+}
+
+export function useTournament() {
+  const { accountAddress, isAccountReady } = useSmartAccount();
+  const { tokenAddress, tournamentAddress } = useContractAddresses();
+  const { executeViaAccount } = useUserOperation();
+  const isEnabled = tournamentAddress !== zeroAddress;
+
+  // Track the pending tournament transaction
+  const [pending, setPending] = useState<{ tournamentId: bigint; action: TournamentAction } | null>(null);
+  const [txHash, setTxHash] = useState<Hex | undefined>();
+  const [txError, setTxError] = useState<Error | null>(null);
+
+  // Tick once a second so statuses flip when a window opens or closes
+  const [now, setNow] = useState(() => BigInt(Math.floor(Date.now() / 1000)));
+  useEffect(() => {
+    const interval = setInterval(() => setNow(BigInt(Math.floor(Date.now() / 1000))), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Read: Number of tournaments created
+  const { data: tournamentCount, refetch: refetchCount } = useReadContract({
+    address: tournamentAddress,
+    abi: TalismanTournamentABI,
+    functionName: 'tournamentCount',
+    query: { enabled: isEnabled, refetchInterval: 10000 },
+  });
+
+  // Newest first
+  const ids = useMemo(() => {
+    const count = tournamentCount ?? 0n;
+    const shown = count < BigInt(RECENT_TOURNAMENTS) ? Number(count) : RECENT_TOURNAMENTS;
+    return Array.from({ length: shown }, (_, i) => count - 1n - BigInt(i));
+  }, [tournamentCount]);
+
+  // Read: Each tournament with its standings and the player's entry (poll for live standings)
+  const player = accountAddress ?? zeroAddress;
+  const { data, refetch: refetchTournaments, isLoading } = useReadContracts({
+    contracts: ids.flatMap((id) => [
+      { address: tournamentAddress, abi: TalismanTournamentABI, functionName: 'getTournament' as const, args: [id] as const },
+      { address: tournamentAddress, abi: TalismanTournamentABI, functionName: 'getPayoutTable' as const, args: [id] as const },
+      { address: tournamentAddress, abi: TalismanTournamentABI, functionName: 'getStandings' as const, args: [id] as const },
+      { address: tournamentAddress, abi: TalismanTournamentABI, functionName: 'hasEntered' as const, args: [id, player] as const },
+      { address: tournamentAddress, abi: TalismanTournamentABI, functionName: 'getBestDistance' as const, args: [id, player] as const },
+      { address: tournamentAddress, abi: TalismanTournamentABI, functionName: 'getPrize' as const, args: [id, player] as const },
+      { address: tournamentAddress, abi: TalismanTournamentABI, functionName: 'isPrizeClaimed' as const, args: [id, player] as const },
+    ]),
+    query: { enabled: isEnabled && ids.length > 0, refetchInterval: 5000 },
+  });
+
+  // Read: Allowance from smart account to the tournament contract
+  const { data: allowance, refetch: refetchAllowance } = useReadContract({
+    address: tokenAddress,
+    abi: TalismanTokenABI,
+    functionName: 'allowance',
+    args: accountAddress ? [accountAddress, tournamentAddress] : undefined,
+    query: { enabled: !!accountAddress && isEnabled },
+  });
+
+  // Wait for the tournament transaction
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash: txHash });
+
+  // Auto-refetch when the transaction succeeds
+  useEffect(() => {
+    if (isSuccess) {
+      refetchCount();
+      refetchTournaments();
+      refetchAllowance();
+      setPending(null);
+    }
+  }, [isSuccess, refetchCount, refetchTournaments, refetchAllowance]);
+
+  const tournaments = useMemo<TournamentInfo[]>(() => {
+    if (!data) return [];
+
+    return ids.flatMap((id, i) => {
+      const reads = data.slice(i * READS_PER_TOURNAMENT, (i + 1) * READS_PER_TOURNAMENT);
+      const tournament = reads[0]?.result as TournamentStruct | undefined;
+      if (!tournament) return [];
+
+      const payoutTable = (reads[1]?.result as readonly number[] | undefined) ?? [];
+      const [players, distances] =
+        (reads[2]?.result as readonly [readonly `0x${string}`[], readonly bigint[]] | undefined) ?? [[], []];
+
+      const status: TournamentStatus = tournament.finalized
+        ? 'finalized'
+        : now < tournament.startTime
+          ? 'upcoming'
+          : now < tournament.endTime
+            ? 'running'
+            : 'ended';
+
+      return [
+        {
+          id,
+          startTime: tournament.startTime,
+          endTime: tournament.endTime,
+          entryFee: tournament.entryFee,
+          prizePool: tournament.prizePool,
+          entrantCount: Number(tournament.entrantCount),
+          finalized: tournament.finalized,
+          status,
+          payoutTable: [...payoutTable],
+          standings: players.map((address, rank) => ({ rank: rank + 1, player: address, distance: distances[rank] })),
+          hasEntered: reads[3]?.result === true,
+          bestDistance: (reads[4]?.result as bigint | undefined) ?? 0n,
+          prize: (reads[5]?.result as bigint | undefined) ?? 0n,
+          isPrizeClaimed: reads[6]?.result === true,
+        },
+      ];
+    });
+  }, [data, ids, now]);
+
+  // Send one tournament call via smart account
+  const execute = useCallback(
+    async (tournamentId: bigint, action: TournamentAction, target: `0x${string}`, buildCallData: () => Promise<Hex>) => {
+      if (!isAccountReady || !accountAddress) return;
+
+      setTxError(null);
+      setTxHash(undefined);
+      setPending({ tournamentId, action });
+
+      try {
+        const callData = await buildCallData();
+        const hash = await executeViaAccount(target, 0n, callData);
+        setTxHash(hash);
+      } catch (err) {
+        setTxError(err instanceof Error ? err : new Error('Tournament transaction failed'));
+        setPending(null);
+      }
+    },
+    [isAccountReady, accountAddress, executeViaAccount]
+  );
+
+  // Approve the tournament to pull its entry fee
+  const approveEntry = useCallback(
+    (tournament: TournamentInfo) =>
+      execute(tournament.id, 'approve', tokenAddress, async () =>
+        encodeFunctionData({
+          abi: TalismanTokenABI,
+          functionName: 'approve',
+          args: [tournamentAddress, tournament.entryFee],
+        })
+      ),
+    [execute, tokenAddress, tournamentAddress]
+  );
+
+  const enterTournament = useCallback(
+    (tournamentId: bigint) =>
+      execute(tournamentId, 'enter', tournamentAddress, async () =>
+        encodeFunctionData({ abi: TalismanTournamentABI, functionName: 'enterTournament', args: [tournamentId] })
+      ),
+    [execute, tournamentAddress]
+  );
+
+  const finalizeTournament = useCallback(
+    (tournamentId: bigint) =>
+      execute(tournamentId, 'finalize', tournamentAddress, async () =>
+        encodeFunctionData({ abi: TalismanTournamentABI, functionName: 'finalizeTournament', args: [tournamentId] })
+      ),
+    [execute, tournamentAddress]
+  );
+
+  // Claims the prize, or the entry fee back when nobody scored
+  const claimPrize = useCallback(
+    (tournamentId: bigint) =>
+      execute(tournamentId, 'claim', tournamentAddress, async () =>
+        encodeFunctionData({ abi: TalismanTournamentABI, functionName: 'claimPrize', args: [tournamentId] })
+      ),
+    [execute, tournamentAddress]
+  );
+
+  // Have the verifier re-simulate a finished run and record it if it beats the player's best.
+  // One user operation at a time, so only the newest running tournament gets the run.
+  const submitRun = useCallback(
+    async (replay: DashReplay) => {
+      if (!SERVICE_URLS.verifier) return;
+
+      const distance = BigInt(Math.floor(replay.distance));
+      const tournament = tournaments.find(
+        (t) => t.status === 'running' && t.hasEntered && distance > t.bestDistance
+      );
+      if (!tournament || !accountAddress) return;
+
+      await execute(tournament.id, 'submit', tournamentAddress, async () => {
+        const proof = await requestTournamentProof(accountAddress, Number(tournament.id), replay);
+        return encodeFunctionData({
+          abi: TalismanTournamentABI,
+          functionName: 'submitScore',
+          args: [tournament.id, BigInt(proof.distance), BigInt(proof.deadline), proof.signature],
+        });
+      });
+    },
+    [tournaments, accountAddress, execute, tournamentAddress]
+  );
+
+  return {
+    isEnabled,
+    tournaments,
+    isLoading,
+    accountAddress,
+    allowance: allowance ?? 0n,
+    // Distances are only recorded through the score verifier
+    canSubmit: !!SERVICE_URLS.verifier,
+    approveEntry,
+    enterTournament,
+    finalizeTournament,
+    claimPrize,
+    submitRun,
+    pending,
+    isPending: !!pending || isConfirming,
+    txError,
+  };
+}
@@ -1,9 +1,38 @@
 import { useState, useCallback } from 'react';
 import { usePublicClient, useWalletClient, useChainId, useReadContract } from 'wagmi';
-import { encodeFunctionData, keccak256, encodeAbiParameters, parseAbiParameters, type Hex, type Address } from 'viem';
+import {
+  encodeFunctionData,
+  encodeAbiParameters,
+  parseAbiParameters,
+  zeroAddress,
+  maxUint256,
+  concat,
+  type Hex,
+  type Address,
+} from 'viem';
 import { useSmartAccount } from './useSmartAccount';
 import { useContractAddresses } from './useContractAddresses';
-import { TalismanAccountABI, EntryPointABI } from '../constants/abis';
+import { useGasPayment, type GasPayment } from './useGasPayment';
+import { TalismanAccountABI, EntryPointABI, EntryPointV07ABI, TalismanPaymasterABI } from '../constants/abis';
+import { SERVICE_URLS } from '../config/services';
+import { ENTRY_POINT_VERSION } from '../config/contracts';
+import { getUserOpHash, packUserOpV07 } from '../utils/userOpHash';
+import { requestSponsorship, placeholderVoucher } from '../utils/sponsor';
+import { formatTokenAmount } from '../utils/format';
+import { getMaxCost, estimateUserOpGas, estimateUserOpFees, getSponsorshipAllowance } from '../utils/gasEstimation';
+import {
+  BundlerRpcError,
+  sendUserOperation,
+  estimateUserOperationGas,
+  waitForUserOperationReceipt,
+} from '../utils/bundler';
+
+// eth_estimateUserOperationGas error code for a call that reverts
+const EXECUTION_REVERTED = -32521;
+
+// The bundler only speaks the v0.6 UserOperation format, and paymasterAndData is built in the v0.6 layout
+const BUNDLER_ENABLED = !!SERVICE_URLS.bundler && ENTRY_POINT_VERSION !== '0.7';
+const PAYMASTER_ENABLED = ENTRY_POINT_VERSION !== '0.7';
 
 // UserOperation type matching ERC-4337
 export interface UserOperation {
@@ -20,33 +49,23 @@ export interface UserOperation {
   signature: Hex;
 }
 
-// Pack UserOperation for hashing (excluding signature)
-function packUserOp(userOp: UserOperation): Hex {
-  return encodeAbiParameters(
-    parseAbiParameters('address, uint256, bytes32, bytes32, uint256, uint256, uint256, uint256, uint256, bytes32'),
-    [
-      userOp.sender,
-      userOp.nonce,
-      keccak256(userOp.initCode),
-      keccak256(userOp.callData),
-      userOp.callGasLimit,
-      userOp.verificationGasLimit,
-      userOp.preVerificationGas,
-      userOp.maxFeePerGas,
-      userOp.maxPriorityFeePerGas,
-      keccak256(userOp.paymasterAndData),
-    ]
-  );
-}
-
-// Calculate UserOperation hash
-function getUserOpHash(userOp: UserOperation, entryPointAddress: Address, chainId: number): Hex {
-  const packed = packUserOp(userOp);
-  const encoded = encodeAbiParameters(
-    parseAbiParameters('bytes32, address, uint256'),
-    [keccak256(packed), entryPointAddress, BigInt(chainId)]
-  );
-  return keccak256(encoded);
+// Why the paymaster declined, keyed by its revert reason
+const SPONSORSHIP_REASONS: Record<string, string> = {
+  'TalismanPaymaster: cost too high': 'its gas cost is above the sponsorship cap',
+  'TalismanPaymaster: daily limit exceeded': "today's gas sponsorship is used up",
+  'TalismanPaymaster: invalid call': "this contract call isn't sponsored",
+};
+
+// Why gas can't be paid in TLSM, keyed by the paymaster's reason
+const TOKEN_PAYMENT_REASONS: Record<string, string> = {
+  'TalismanPaymaster: token gas disabled': 'paying gas in TLSM is turned off',
+  'TalismanPaymaster: insufficient token allowance': 'not enough TLSM is reserved for gas',
+  'TalismanPaymaster: insufficient token balance': "your smart account doesn't hold enough TLSM",
+};
+
+// paymasterAndData paying gas in TLSM, capping the pre-charge at maxTokenCost
+function encodeTokenPayment(paymasterAddress: Address, maxTokenCost: bigint): Hex {
+  return concat([paymasterAddress, encodeAbiParameters(parseAbiParameters('uint256'), [maxTokenCost])]);
 }
 
 export function useUserOperation() {
@@ -55,11 +74,14 @@ export function useUserOperation() {
   const publicClient = usePublicClient();
   const { data: walletClient } = useWalletClient();
   const chainId = useChainId();
+  const { gasPayment: preferredGasPayment } = useGasPayment();
 
   const [isPending, setIsPending] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
   const [error, setError] = useState<Error | null>(null);
   const [txHash, setTxHash] = useState<Hex | null>(null);
+  // Set when the last operation couldn't pay gas the chosen way and fell back
+  const [sponsorshipNotice, setSponsorshipNotice] = useState<string | null>(null);
 
   // Get nonce from EntryPoint
   const { data: nonce, refetch: refetchNonce } = useReadContract({
@@ -70,6 +92,27 @@ export function useUserOperation() {
     query: { enabled: !!accountAddress },
   });
 
+  // Size an operation's gas for its paymasterAndData. The limits are simulated here; the bundler,
+  // when there is one, only prices preVerificationGas, since its verificationGasLimit is a fixed
+  // allowance rather than a simulation and would inflate the cost the paymaster checks
+  const estimateGas = useCallback(async (userOp: UserOperation): Promise<UserOperation> => {
+    if (!publicClient) throw new Error('No public client');
+    if (!entryPointAddress) throw new Error('No entry point address');
+
+    const sized = { ...userOp, ...(await estimateUserOpGas(publicClient, userOp, entryPointAddress, ENTRY_POINT_VERSION)) };
+
+    if (BUNDLER_ENABLED) {
+      try {
+        const { preVerificationGas } = await estimateUserOperationGas(sized, entryPointAddress);
+        return { ...sized, preVerificationGas };
+      } catch (err) {
+        if (err instanceof BundlerRpcError && err.code === EXECUTION_REVERTED) throw err;
+      }
+    }
+
+    return sized;
+  }, [publicClient, entryPointAddress]);
+
   // Build UserOperation
   const buildUserOp = useCallback(async (
     callData: Hex,
@@ -78,33 +121,107 @@ export function useUserOperation() {
     if (!accountAddress) throw new Error('No smart account');
     if (!publicClient) throw new Error('No public client');
 
-    // Get current gas price
-    const gasPrice = await publicClient.getGasPrice();
-
-    // Build the UserOperation
+    // Build the UserOperation; gas limits are estimated below
     const userOp: UserOperation = {
       sender: accountAddress,
       nonce: nonce ?? 0n,
       initCode: '0x', // Account already created
       callData,
-      callGasLimit: 500000n, // Generous gas limit for game operations
-      verificationGasLimit: 150000n,
-      preVerificationGas: 50000n,
-      maxFeePerGas: gasPrice * 2n, // 2x current gas price for buffer
-      maxPriorityFeePerGas: gasPrice / 10n,
-      paymasterAndData: usePaymaster ? paymasterAddress : '0x',
+      callGasLimit: 0n,
+      verificationGasLimit: 0n,
+      preVerificationGas: 0n,
+      ...(await estimateUserOpFees(publicClient)),
+      paymasterAndData: usePaymaster && PAYMASTER_ENABLED && paymasterAddress !== zeroAddress ? paymasterAddress : '0x',
       signature: '0x', // Will be filled after signing
     };
 
-    return userOp;
-  }, [accountAddress, nonce, publicClient, paymasterAddress]);
+    return estimateGas(userOp);
+  }, [accountAddress, nonce, publicClient, paymasterAddress, estimateGas]);
+
+  // Build a UserOperation paid the chosen way, falling back when the paymaster would reject it:
+  // sponsored -> sponsorship voucher -> TLSM -> the smart account's ETH.
+  // Gas is re-estimated for each way of paying, since paymasterAndData changes the cost.
+  const buildPaidUserOp = useCallback(async (
+    callData: Hex,
+    gasPayment: GasPayment
+  ): Promise<UserOperation> => {
+    const userOp = await buildUserOp(callData, gasPayment !== 'self');
+    if (gasPayment !== 'self' && !PAYMASTER_ENABLED) {
+      setSponsorshipNotice(
+        `Gas not ${gasPayment === 'token' ? 'paid in TLSM' : 'sponsored'}: the paymaster isn't supported on EntryPoint v0.7 yet. It is paid from your smart account's ETH instead.`
+      );
+      return userOp;
+    }
+    if (userOp.paymasterAndData === '0x' || !publicClient) return userOp;
+
+    // Why sponsorship was declined, when it was tried
+    let declined: string | undefined;
+
+    if (gasPayment === 'sponsored') {
+      // Check the estimated cost against what the paymaster will still sponsor before anything is signed
+      const maxCost = getMaxCost(userOp);
+      const allowance = await getSponsorshipAllowance(publicClient, paymasterAddress, userOp.sender);
+      const aboveAllowance = (cost: bigint) =>
+        `it could cost up to ${formatTokenAmount(cost, 18, 6)} ETH, above the ${formatTokenAmount(allowance, 18, 6)} ETH that can still be sponsored`;
+
+      if (maxCost > allowance) {
+        declined = aboveAllowance(maxCost);
+      } else {
+        const [sponsored, reason] = await publicClient.readContract({
+          address: paymasterAddress,
+          abi: TalismanPaymasterABI,
+          functionName: 'checkSponsorship',
+          args: [userOp.sender, callData, maxCost],
+        });
+        if (sponsored) return userOp;
+        declined = SPONSORSHIP_REASONS[reason] ?? reason;
+
+        // Calls off the allowlist can still be covered by a campaign voucher from the sponsorship signer.
+        // The voucher is bound to the gas fields, so they are sized for it before it is requested.
+        if (reason === 'TalismanPaymaster: invalid call' && SERVICE_URLS.sponsor) {
+          try {
+            const voucherOp = await estimateGas({ ...userOp, paymasterAndData: placeholderVoucher(paymasterAddress) });
+            const voucherCost = getMaxCost(voucherOp);
+            if (voucherCost > allowance) {
+              declined = aboveAllowance(voucherCost);
+            } else {
+              const { paymasterAndData } = await requestSponsorship(voucherOp);
+              return { ...voucherOp, paymasterAndData };
+            }
+          } catch (err) {
+            declined = err instanceof Error ? err.message : 'sponsorship request failed';
+          }
+        }
+      }
+    }
+
+    // Size the operation for token payment data before pricing it in TLSM
+    const tokenOp = await estimateGas({ ...userOp, paymasterAndData: encodeTokenPayment(paymasterAddress, maxUint256) });
+    const [tokenCost, tokenReason] = await publicClient.readContract({
+      address: paymasterAddress,
+      abi: TalismanPaymasterABI,
+      functionName: 'checkTokenPayment',
+      args: [tokenOp.sender, getMaxCost(tokenOp), tokenOp.maxFeePerGas],
+    });
+    if (!tokenReason) {
+      if (declined) setSponsorshipNotice(`Gas not sponsored: ${declined}. It is paid in TLSM instead.`);
+      return { ...tokenOp, paymasterAndData: encodeTokenPayment(paymasterAddress, tokenCost) };
+    }
+
+    setSponsorshipNotice(
+      declined
+        ? `Gas not sponsored: ${declined}. It is paid from your smart account's ETH instead.`
+        : `Gas not paid in TLSM: ${TOKEN_PAYMENT_REASONS[tokenReason] ?? tokenReason}. It is paid from your smart account's ETH instead.`
+    );
+    return estimateGas({ ...userOp, paymasterAndData: '0x' });
+  }, [buildUserOp, estimateGas, publicClient, paymasterAddress]);
 
   // Sign UserOperation
   const signUserOp = useCallback(async (userOp: UserOperation): Promise<Hex> => {
     if (!walletClient) throw new Error('No wallet client');
     if (!entryPointAddress) throw new Error('No entry point address');
 
-    const userOpHash = getUserOpHash(userOp, entryPointAddress, chainId);
+    const userOpHash = getUserOpHash(userOp, entryPointAddress, chainId, ENTRY_POINT_VERSION);
 
     // Sign with personal_sign (eth_sign style) - this adds the "\x19Ethereum Signed Message:\n32" prefix
     const signature = await walletClient.signMessage({
@@ -114,12 +231,41 @@ export function useUserOperation() {
     return signature;
   }, [walletClient, entryPointAddress, chainId]);
 
-  // Submit UserOperation to EntryPoint
+  // Submit UserOperation through the bundler, or to the EntryPoint directly.
+  // Returns the hash of the transaction that included it.
   const submitUserOp = useCallback(async (userOp: UserOperation): Promise<Hex> => {
-    if (!walletClient) throw new Error('No wallet client');
     if (!entryPointAddress) throw new Error('No entry point address');
 
+    if (BUNDLER_ENABLED) {
+      let userOpHash: Hex | undefined;
+      try {
+        userOpHash = await sendUserOperation(userOp, entryPointAddress);
+      } catch (err) {
+        // The bundler rejected the operation: submitting it ourselves would fail the same way
+        if (err instanceof BundlerRpcError) throw err;
+        setSponsorshipNotice('Bundler unreachable: the transaction is sent from your wallet, which pays its gas.');
+      }
+
+      // Once accepted, the operation is the bundler's to include, so never submit it twice
+      if (userOpHash) {
+        const receipt = await waitForUserOperationReceipt(userOpHash);
+        if (!receipt.success) throw new Error('UserOperation reverted');
+        return receipt.transactionHash;
+      }
+    }
+
+    if (!walletClient) throw new Error('No wallet client');
+
     // Self-bundling: submit directly to EntryPoint.handleOps
+    if (ENTRY_POINT_VERSION === '0.7') {
+      return walletClient.writeContract({
+        address: entryPointAddress,
+        abi: EntryPointV07ABI,
+        functionName: 'handleOps',
+        args: [[packUserOpV07(userOp)], walletClient.account.address],
+      });
+    }
+
     const hash = await walletClient.writeContract({
       address: entryPointAddress,
       abi: EntryPointABI,
@@ -135,7 +281,7 @@ export function useUserOperation() {
     target: Address,
     value: bigint,
     data: Hex,
-    usePaymaster: boolean = true
+    gasPayment: GasPayment = preferredGasPayment
   ): Promise<Hex> => {
     if (!hasAccount) throw new Error('Smart account not created');
 
@@ -143,6 +289,7 @@ export function useUserOperation() {
     setIsSuccess(false);
     setError(null);
     setTxHash(null);
+    setSponsorshipNotice(null);
 
     try {
       // Encode the execute call for the smart account
@@ -153,7 +300,7 @@ export function useUserOperation() {
       });
 
       // Build UserOperation
-      const userOp = await buildUserOp(callData, usePaymaster);
+      const userOp = await buildPaidUserOp(callData, gasPayment);
 
       // Sign UserOperation
       userOp.signature = await signUserOp(userOp);
@@ -175,14 +322,14 @@ export function useUserOperation() {
     } finally {
       setIsPending(false);
     }
-  }, [hasAccount, buildUserOp, signUserOp, submitUserOp, refetchNonce]);
+  }, [hasAccount, preferredGasPayment, buildPaidUserOp, signUserOp, submitUserOp, refetchNonce]);
 
   // Execute batch of operations
   const executeBatchViaAccount = useCallback(async (
     targets: Address[],
     values: bigint[],
     datas: Hex[],
-    usePaymaster: boolean = true
+    gasPayment: GasPayment = preferredGasPayment
   ): Promise<Hex> => {
     if (!hasAccount) throw new Error('Smart account not created');
 
@@ -190,6 +337,7 @@ export function useUserOperation() {
     setIsSuccess(false);
     setError(null);
     setTxHash(null);
+    setSponsorshipNotice(null);
 
     try {
       // Encode the executeBatch call for the smart account
@@ -200,7 +348,7 @@ export function useUserOperation() {
       });
 
       // Build UserOperation
-      const userOp = await buildUserOp(callData, usePaymaster);
+      const userOp = await buildPaidUserOp(callData, gasPayment);
 
       // Sign UserOperation
       userOp.signature = await signUserOp(userOp);
@@ -222,7 +370,7 @@ export function useUserOperation() {
     } finally {
       setIsPending(false);
     }
-  }, [hasAccount, buildUserOp, signUserOp, submitUserOp, refetchNonce]);
+  }, [hasAccount, preferredGasPayment, buildPaidUserOp, signUserOp, submitUserOp, refetchNonce]);
 
   // Reset state
   const reset = useCallback(() => {
@@ -230,6 +378,7 @@ export function useUserOperation() {
     setIsSuccess(false);
     setError(null);
     setTxHash(null);
+    setSponsorshipNotice(null);
   }, []);
 
   return {
@@ -246,6 +395,7 @@ export function useUserOperation() {
     isSuccess,
     error,
     txHash,
+    sponsorshipNotice,
     reset,
     // Nonce
     nonce,
@@ -0,0 +1,63 @@
+import { useAccount } from 'wagmi';
+import { Link } from 'react-router-dom';
+import { Header, AchievementList, DailyQuestList, StreakStats } from '../components';
+import { useAchievements, useDailyQuests } from '../hooks';
+
+export function AchievementsPage() {
+  const { isConnected } = useAccount();
+  const { progress } = useAchievements();
+  const { quests, canClaim, claimQuest, claimingQuest, isClaiming, claimError } = useDailyQuests();
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white">
+        <Header />
+        <main className="container mx-auto px-4 py-20">
+          <div className="text-center">
+            <h2 className="text-2xl font-bold mb-4">Connect Wallet</h2>
+            <p className="text-gray-400">Connect your wallet to view your achievements and daily quests</p>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8">
+        {/* Back to game link */}
+        <Link
+          to="/"
+          className="inline-flex items-center gap-2 mb-8 text-purple-400 hover:text-purple-300 transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+          </svg>
+          Back to Game
+        </Link>
+
+        <div className="max-w-2xl mx-auto space-y-6">
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold mb-2">Achievements</h1>
+            <p className="text-gray-400">Milestones from your Dash runs and today's quests</p>
+          </div>
+
+          <StreakStats progress={progress} />
+
+          <DailyQuestList
+            quests={quests}
+            canClaim={canClaim}
+            claimingQuest={claimingQuest}
+            isClaiming={isClaiming}
+            claimError={claimError}
+            onClaim={claimQuest}
+          />
+
+          <AchievementList progress={progress} />
+        </div>
+      </main>
+    </div>
+  );
+}
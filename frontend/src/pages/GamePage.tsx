@@ -1,7 +1,14 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useAccount } from 'wagmi';
-import { Link } from 'react-router-dom';
-import { DashGameCanvas, SessionControls } from '../components';
+import { Link, useNavigate } from 'react-router-dom';
+import {
+  AchievementToasts,
+  DashGameCanvas,
+  GameCanvas,
+  SessionControls,
+  type AchievementToast,
+  type DashGameHandle,
+} from '../components';
 import { ConnectButton } from '../components/wallet/ConnectButton';
 import { TokenBalance } from '../components/wallet/TokenBalance';
 import { SmartAccountStatus } from '../components/wallet/SmartAccountStatus';
@@ -13,32 +20,77 @@ import {
   formatTime,
   useTalismanToken,
   useSmartAccount,
+  useScoreVerifier,
+  useAchievements,
+  useTournament,
 } from '../hooks';
 import { formatTokenAmount } from '../utils/format';
+import { downloadReplay } from '../utils/replay';
+import type { DashReplay } from '../types/dashGame';
+import { GameMode, GAME_MODES } from '../constants/gameModes';
 
 export function GamePage() {
   const { isConnected } = useAccount();
   const { hasAccount, isAccountReady } = useSmartAccount();
   const {
+    accountAddress,
     session,
-    isActive,
+    isActive: isSessionActive,
+    isStale,
     minDuration,
     maxDuration,
+    modeMultiplier,
     rewardRate,
     sessionCost,
     retryGame,
     endSession,
+    endSessionWithProof,
+    forfeitSession,
     isRetrying,
     isRetrySuccess,
     isEnding,
+    endError,
     resetRetry,
     attemptCount,
+    sponsorshipNotice,
   } = useGameSession();
   const { vestingInfo } = useGameRewards();
+
+  // A stale session is only played once the player chooses to resume it
+  const [resumedSession, setResumedSession] = useState<bigint | null>(null);
+  const isStalePrompt = isSessionActive && isStale && resumedSession !== session?.startTime;
+  const isActive = isSessionActive && !isStalePrompt;
+  const handleResume = useCallback(() => {
+    setResumedSession(session?.startTime ?? null);
+  }, [session?.startTime]);
   const { balance } = useTalismanToken();
+  const { isProofRequired, requestProof, isVerifying, verifyError } = useScoreVerifier();
+  const { recordRun } = useAchievements();
+  const { submitRun } = useTournament();
+
+  // Achievements unlocked this visit, shown as toasts until dismissed
+  const [toasts, setToasts] = useState<AchievementToast[]>([]);
+  const nextToastKey = useRef(0);
+  const recordedSeed = useRef<DashReplay['seed'] | null>(null);
+  const handleDismissToast = useCallback((key: number) => {
+    setToasts((prev) => prev.filter((toast) => toast.key !== key));
+  }, []);
+  const recordDashRun = useCallback(
+    (distance: number, talismans: number, died: boolean) => {
+      const unlocked = recordRun({ distance, talismans, died, endedAt: Math.floor(Date.now() / 1000) });
+      if (unlocked.length === 0) return;
+      setToasts((prev) => [...prev, ...unlocked.map((id) => ({ key: nextToastKey.current++, id }))]);
+    },
+    [recordRun]
+  );
 
   const elapsed = useSessionTimer(session?.startTime, isActive);
-  const currentReward = useRewardCalculator(elapsed, rewardRate, maxDuration);
+  const currentReward = useRewardCalculator(elapsed, rewardRate, maxDuration, modeMultiplier);
+
+  // The session's game mode picks the canvas; HUD, timer and cash out are shared
+  const gameMode = session?.gameMode ?? GameMode.Dash;
+  const isSearchMode = isActive && gameMode === GameMode.Search;
+  const modeInfo = GAME_MODES[isSearchMode ? GameMode.Search : GameMode.Dash];
 
   // Game state
   const [totalTalismans, setTotalTalismans] = useState(0);
@@ -46,6 +98,20 @@ export function GamePage() {
   const [isGameOver, setIsGameOver] = useState(false);
   const [triggerRestart, setTriggerRestart] = useState(false);
   const [lastDistance, setLastDistance] = useState(0);
+  const [lastReplay, setLastReplay] = useState<DashReplay | null>(null);
+  // Every run of the session, submitted to the score verifier on cash out
+  const [sessionReplays, setSessionReplays] = useState<DashReplay[]>([]);
+  const dashGameRef = useRef<DashGameHandle>(null);
+  // Latest paid attempt of the session; the Dash game derives each run's seed from it
+  const sessionStart = session?.startTime;
+  const runSession = useMemo(
+    () =>
+      accountAddress && sessionStart !== undefined && attemptCount > 0
+        ? { player: accountAddress, sessionStart: Number(sessionStart), attempt: attemptCount - 1 }
+        : undefined,
+    [accountAddress, sessionStart, attemptCount]
+  );
+  const navigate = useNavigate();
 
   // Reset game state when session ends
   useEffect(() => {
@@ -54,15 +120,26 @@ export function GamePage() {
       setCurrentRunTalismans(0);
       setIsGameOver(false);
       setLastDistance(0);
+      setLastReplay(null);
+      setSessionReplays([]);
     }
   }, [isActive]);
 
   // Handle game over from canvas
-  const handleGameOver = useCallback((distance: number, talismans: number) => {
+  const handleGameOver = useCallback((distance: number, talismans: number, replay: DashReplay) => {
     setCurrentRunTalismans(talismans);
     setLastDistance(distance);
+    setLastReplay(replay);
+    setSessionReplays((prev) => (prev.some((r) => r.seed === replay.seed) ? prev : [...prev, replay]));
     setIsGameOver(true);
-  }, []);
+    // The canvas can report the same crash again; count each run once
+    if (recordedSeed.current !== replay.seed) {
+      recordedSeed.current = replay.seed;
+      recordDashRun(distance, talismans, true);
+      // Personal bests also count toward any running tournament the player entered
+      submitRun(replay);
+    }
+  }, [recordDashRun, submitRun]);
 
   // Handle score update (just for tracking)
   const handleScoreUpdate = useCallback((distance: number, talismans: number) => {
@@ -70,6 +147,21 @@ export function GamePage() {
     setCurrentRunTalismans(talismans);
   }, []);
 
+  // Search mode: talismans found in the current field
+  const handleTalismanFound = useCallback((count: number) => {
+    setCurrentRunTalismans(count);
+  }, []);
+
+  // Search mode: the round ends once the field is cleared (or the player stops searching)
+  const handleRoundComplete = useCallback((count: number) => {
+    setCurrentRunTalismans(count);
+    setIsGameOver(true);
+  }, []);
+
+  const handleFinishRound = useCallback(() => {
+    setIsGameOver(true);
+  }, []);
+
   // When retry transaction succeeds, restart the game
   useEffect(() => {
     if (isRetrySuccess) {
@@ -93,11 +185,50 @@ export function GamePage() {
   }, [retryGame]);
 
   // Handle cash out click
-  const handleCashOut = useCallback(() => {
+  const handleCashOut = useCallback(async () => {
+    // A Dash run still going when the player cashes out ends without a crash
+    if (!isSearchMode && !isGameOver && lastDistance > 0) {
+      recordDashRun(lastDistance, currentRunTalismans, false);
+    }
+
+    // With a score verifier, the talisman count comes from re-simulating the runs;
+    // Search sessions have nothing to re-simulate, so they end without a talisman bonus
+    if (isProofRequired) {
+      if (isSearchMode) {
+        endSession(0);
+        return;
+      }
+      if (!accountAddress) return;
+      // The run still going counts too; it is kept in case the proof has to be requested again
+      const current = dashGameRef.current?.finishRun();
+      const replays =
+        current && !sessionReplays.some((r) => r.seed === current.seed) ? [...sessionReplays, current] : sessionReplays;
+      if (current) {
+        setSessionReplays(replays);
+        setIsGameOver(true);
+      }
+      const proof = await requestProof(accountAddress, replays);
+      if (proof) endSessionWithProof(proof);
+      return;
+    }
+
     // Include current run's talismans in the total
     const finalTalismans = totalTalismans + currentRunTalismans;
     endSession(finalTalismans);
-  }, [endSession, totalTalismans, currentRunTalismans]);
+  }, [
+    isProofRequired,
+    isSearchMode,
+    isGameOver,
+    lastDistance,
+    recordDashRun,
+    accountAddress,
+    requestProof,
+    sessionReplays,
+    endSessionWithProof,
+    endSession,
+    totalTalismans,
+    currentRunTalismans,
+  ]);
 
   // Check if user has enough balance for retry
   const hasEnoughForRetry = balance >= sessionCost;
@@ -110,20 +241,37 @@ export function GamePage() {
   })();
 
   // Calculate multiplier preview
-  const totalTalismansForBonus = totalTalismans + currentRunTalismans;
+  // Unverifiable Search sessions earn no talisman bonus once a score verifier is set
+  const totalTalismansForBonus = isProofRequired && isSearchMode ? 0 : totalTalismans + currentRunTalismans;
   const bonusPercent = Math.min(totalTalismansForBonus * 10, 200);
   const multiplier = (100 + bonusPercent) / 100;
 
   return (
     <div className="fixed inset-0 bg-gray-900">
       {/* Fullscreen Game Canvas */}
-      <DashGameCanvas
-        isActive={isActive}
-        onScoreUpdate={handleScoreUpdate}
-        onGameOver={handleGameOver}
-        triggerRestart={triggerRestart}
-        onRestartComplete={handleRestartComplete}
-      />
+      {isSearchMode ? (
+        <div className="absolute inset-0 flex items-center justify-center bg-gray-950 px-4">
+          <div className="w-full max-w-5xl">
+            <GameCanvas
+              isActive={isActive}
+              onTalismanFound={handleTalismanFound}
+              onRoundComplete={handleRoundComplete}
+              triggerRestart={triggerRestart}
+              onRestartComplete={handleRestartComplete}
+            />
+          </div>
+        </div>
+      ) : (
+        <DashGameCanvas
+          isActive={isActive}
+          onScoreUpdate={handleScoreUpdate}
+          onGameOver={handleGameOver}
+          triggerRestart={triggerRestart}
+          onRestartComplete={handleRestartComplete}
+          session={runSession}
+          ref={dashGameRef}
+        />
+      )}
 
       {/* Floating Header */}
       <div className="absolute top-0 left-0 right-0 z-10">
@@ -135,7 +283,7 @@ export function GamePage() {
             </div>
             <div>
               <h1 className="text-sm font-bold text-white">Dash Game</h1>
-              <p className="text-xs text-purple-400">Run & Collect</p>
+              <p className="text-xs text-purple-400">{modeInfo.tagline}</p>
             </div>
           </div>
 
@@ -150,11 +298,42 @@ export function GamePage() {
                 >
                   <span className="text-sm text-purple-400">Vesting</span>
                 </Link>
+                <Link
+                  to="/history"
+                  className="bg-gray-900/80 backdrop-blur-sm rounded-lg px-4 py-2 border border-purple-500/30 hover:border-purple-400/50 transition-colors"
+                >
+                  <span className="text-sm text-purple-400">History</span>
+                </Link>
+                <Link
+                  to="/achievements"
+                  className="bg-gray-900/80 backdrop-blur-sm rounded-lg px-4 py-2 border border-purple-500/30 hover:border-purple-400/50 transition-colors"
+                >
+                  <span className="text-sm text-purple-400">Achievements</span>
+                </Link>
+                <Link
+                  to="/leaderboard"
+                  className="bg-gray-900/80 backdrop-blur-sm rounded-lg px-4 py-2 border border-purple-500/30 hover:border-purple-400/50 transition-colors"
+                >
+                  <span className="text-sm text-purple-400">Leaderboard</span>
+                </Link>
+                <Link
+                  to="/tournaments"
+                  className="bg-gray-900/80 backdrop-blur-sm rounded-lg px-4 py-2 border border-purple-500/30 hover:border-purple-400/50 transition-colors"
+                >
+                  <span className="text-sm text-purple-400">Tournaments</span>
+                </Link>
                 <div className="bg-gray-900/80 backdrop-blur-sm rounded-lg px-4 py-2 border border-purple-500/30">
                   <TokenBalance />
                 </div>
               </>
             )}
+            {/* Racing the bundled ghost works without a wallet */}
+            <Link
+              to="/race"
+              className="bg-gray-900/80 backdrop-blur-sm rounded-lg px-4 py-2 border border-purple-500/30 hover:border-purple-400/50 transition-colors"
+            >
+              <span className="text-sm text-purple-400">Race</span>
+            </Link>
             <div className="bg-gray-900/80 backdrop-blur-sm rounded-lg border border-purple-500/30">
               <ConnectButton />
             </div>
@@ -162,6 +341,9 @@ export function GamePage() {
         </div>
       </div>
 
+      {/* Achievement Toasts */}
+      <AchievementToasts toasts={toasts} onDismiss={handleDismissToast} />
+
       {/* Floating Progress - Left Side */}
       {isConnected && isActive && (
         <div className="absolute left-4 top-1/2 -translate-y-1/2 z-10 space-y-3">
@@ -213,6 +395,18 @@ export function GamePage() {
         </div>
       )}
 
+      {/* Finish Round - Search mode has no crash to end a round */}
+      {isConnected && isSearchMode && !isGameOver && (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10">
+          <button
+            onClick={handleFinishRound}
+            className="px-6 py-3 bg-gray-900/80 backdrop-blur-sm rounded-xl border border-purple-500/30 hover:border-purple-400/50 text-sm font-medium text-purple-300 transition-colors"
+          >
+            Finish Round
+          </button>
+        </div>
+      )}
+
       {/* Floating Vesting Info - Right Side */}
       {isConnected && vestingInfo && vestingInfo.totalAmount > 0n && (
         <div className="absolute right-4 top-1/2 -translate-y-1/2 z-10">
@@ -233,7 +427,12 @@ export function GamePage() {
       {isConnected && !isActive && (
         <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 w-full max-w-md px-4">
           <div className="bg-gray-900/90 backdrop-blur-sm rounded-xl border border-purple-500/30">
-            <SessionControls />
+            <SessionControls
+              onResume={handleResume}
+              onForfeit={forfeitSession}
+              isForfeiting={isEnding}
+              forfeitError={endError}
+            />
           </div>
         </div>
       )}
@@ -242,15 +441,21 @@ export function GamePage() {
       {isConnected && isActive && isGameOver && (
         <div className="absolute inset-0 z-30 bg-black/80 flex items-center justify-center">
           <div className="bg-gray-900/95 backdrop-blur-sm rounded-2xl border border-purple-500/30 p-8 max-w-md w-full mx-4 text-center">
-            <h2 className="text-4xl font-bold text-white mb-2">Game Over!</h2>
-            <p className="text-gray-400 mb-6">Keep running to earn more rewards</p>
+            <h2 className="text-4xl font-bold text-white mb-2">
+              {isSearchMode ? 'Round Over!' : 'Game Over!'}
+            </h2>
+            <p className="text-gray-400 mb-6">
+              {isSearchMode ? 'Search a new field to earn more rewards' : 'Keep running to earn more rewards'}
+            </p>
 
             {/* Stats */}
-            <div className="grid grid-cols-2 gap-4 mb-6">
-              <div className="bg-gray-800/50 rounded-lg p-4">
-                <p className="text-xs text-gray-400 mb-1">Distance</p>
-                <p className="text-2xl font-bold text-white">{Math.floor(lastDistance)}m</p>
-              </div>
+            <div className={`grid ${isSearchMode ? 'grid-cols-1' : 'grid-cols-2'} gap-4 mb-6`}>
+              {!isSearchMode && (
+                <div className="bg-gray-800/50 rounded-lg p-4">
+                  <p className="text-xs text-gray-400 mb-1">Distance</p>
+                  <p className="text-2xl font-bold text-white">{Math.floor(lastDistance)}m</p>
+                </div>
+              )}
               <div className="bg-gray-800/50 rounded-lg p-4">
                 <p className="text-xs text-gray-400 mb-1">Talismans</p>
                 <p className="text-2xl font-bold text-yellow-400">★ {currentRunTalismans}</p>
@@ -295,10 +500,14 @@ export function GamePage() {
 
               <button
                 onClick={handleCashOut}
-                disabled={isEnding || !canEndSession}
+                disabled={isEnding || isVerifying || !canEndSession}
                 className="w-full px-6 py-4 bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-500 hover:to-emerald-500 disabled:from-gray-600 disabled:to-gray-600 rounded-xl font-bold text-lg transition-all"
               >
-                {isEnding ? (
+                {isVerifying ? (
+                  <span className="flex items-center justify-center gap-2">
+                    <span className="animate-spin">⏳</span> Verifying runs...
+                  </span>
+                ) : isEnding ? (
                   <span className="flex items-center justify-center gap-2">
                     <span className="animate-spin">⏳</span> Processing...
                   </span>
@@ -310,6 +519,32 @@ export function GamePage() {
               </button>
             </div>
 
+            {verifyError && (
+              <p className="text-xs text-red-400 mt-4">{verifyError.message}</p>
+            )}
+
+            {sponsorshipNotice && (
+              <p className="text-xs text-yellow-400 mt-4">{sponsorshipNotice}</p>
+            )}
+
+            {/* Replay of the run that just ended */}
+            {lastReplay && (
+              <div className="flex justify-center gap-4 mt-4 text-sm">
+                <button
+                  onClick={() => downloadReplay(lastReplay)}
+                  className="text-purple-400 hover:text-purple-300 transition-colors"
+                >
+                  Save Replay
+                </button>
+                <button
+                  onClick={() => navigate('/replay', { state: { replay: lastReplay } })}
+                  className="text-purple-400 hover:text-purple-300 transition-colors"
+                >
+                  Watch Replay
+                </button>
+              </div>
+            )}
+
             {!hasEnoughForRetry && (
               <p className="text-xs text-red-400 mt-4">
                 You need {formatTokenAmount(sessionCost)} TLSM to retry
@@ -0,0 +1,75 @@
+import { useAccount } from 'wagmi';
+import { Link } from 'react-router-dom';
+import { Header, HistoryTotals, SessionHistoryList } from '../components';
+import { useSessionHistory } from '../hooks';
+
+export function HistoryPage() {
+  const { isConnected } = useAccount();
+  const { records, totals, isLoading } = useSessionHistory();
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white">
+        <Header />
+        <main className="container mx-auto px-4 py-20">
+          <div className="text-center">
+            <h2 className="text-2xl font-bold mb-4">Connect Wallet</h2>
+            <p className="text-gray-400">Connect your wallet to view your session history</p>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8">
+        {/* Back to game link */}
+        <Link
+          to="/"
+          className="inline-flex items-center gap-2 mb-8 text-purple-400 hover:text-purple-300 transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+          </svg>
+          Back to Game
+        </Link>
+
+        <div className="max-w-2xl mx-auto space-y-6">
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold mb-2">Session History</h1>
+            <p className="text-gray-400">Every session you have cashed out</p>
+          </div>
+
+          {isLoading && (
+            <p className="text-center text-gray-400">Loading history...</p>
+          )}
+
+          {/* Totals and runs */}
+          {!isLoading && records.length > 0 && (
+            <>
+              <HistoryTotals totals={totals} />
+              <SessionHistoryList records={records} />
+            </>
+          )}
+
+          {/* No sessions yet */}
+          {!isLoading && records.length === 0 && (
+            <div className="bg-gray-800/50 rounded-xl p-8 border border-purple-500/20 text-center">
+              <h3 className="text-lg font-semibold mb-2">No Sessions Yet</h3>
+              <p className="text-gray-400 mb-4">Finished sessions show up here once you cash out.</p>
+              <Link
+                to="/"
+                className="inline-block px-6 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg transition-colors"
+              >
+                Start Playing
+              </Link>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
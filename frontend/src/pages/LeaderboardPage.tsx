@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Header, LeaderboardFilters, LeaderboardTable } from '../components';
+import { useLeaderboard, useSmartAccount } from '../hooks';
+import type { LeaderboardPeriod, LeaderboardSort } from '../utils/indexer';
+
+export function LeaderboardPage() {
+  const { accountAddress } = useSmartAccount();
+  const [period, setPeriod] = useState<LeaderboardPeriod>('daily');
+  const [sort, setSort] = useState<LeaderboardSort>('reward');
+  const { leaderboard, isEnabled, isLoading, error } = useLeaderboard(period, sort);
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8">
+        {/* Back to game link */}
+        <Link
+          to="/"
+          className="inline-flex items-center gap-2 mb-8 text-purple-400 hover:text-purple-300 transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+          </svg>
+          Back to Game
+        </Link>
+
+        <div className="max-w-2xl mx-auto space-y-6">
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold mb-2">Leaderboard</h1>
+            <p className="text-gray-400">Top players by finished sessions (days and weeks in UTC)</p>
+          </div>
+
+          {!isEnabled ? (
+            <div className="bg-gray-800/50 rounded-xl p-8 border border-purple-500/20 text-center">
+              <h3 className="text-lg font-semibold mb-2">Leaderboard Unavailable</h3>
+              <p className="text-gray-400">Set VITE_INDEXER_URL to the leaderboard indexer to see rankings.</p>
+            </div>
+          ) : (
+            <>
+              <LeaderboardFilters
+                period={period}
+                sort={sort}
+                onPeriodChange={setPeriod}
+                onSortChange={setSort}
+              />
+
+              {isLoading && <p className="text-center text-gray-400">Loading leaderboard...</p>}
+
+              {error && <p className="text-center text-red-400">{error.message}</p>}
+
+              {leaderboard && leaderboard.entries.length > 0 && (
+                <LeaderboardTable entries={leaderboard.entries} playerAddress={accountAddress} />
+              )}
+
+              {/* Nobody has finished a session in this period */}
+              {leaderboard && leaderboard.entries.length === 0 && (
+                <div className="bg-gray-800/50 rounded-xl p-8 border border-purple-500/20 text-center">
+                  <h3 className="text-lg font-semibold mb-2">No Sessions Yet</h3>
+                  <p className="text-gray-400 mb-4">Be the first to finish a session in this period.</p>
+                  <Link
+                    to="/"
+                    className="inline-block px-6 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg transition-colors"
+                  >
+                    Start Playing
+                  </Link>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import { useState, useCallback, type ChangeEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { DashGameCanvas, RaceList, RaceResult } from '../components';
+import { useRaceEscrow, type RaceInfo } from '../hooks';
+import { BUNDLED_GHOSTS } from '../constants/ghosts';
+import { DASH_CONSTANTS_VERSION } from '../constants/dashGame';
+import type { DashReplay } from '../types/dashGame';
+import { downloadReplay, readReplayFile } from '../utils/replay';
+import { raceOutcome } from '../../../shared/dash';
+
+interface GhostChoice {
+  name: string;
+  replay: DashReplay;
+  // Set when the ghost was loaded from an on-chain race
+  raceId?: bigint;
+}
+
+export function RacePage() {
+  const {
+    isEnabled,
+    races,
+    accountAddress,
+    allowance,
+    canStake,
+    approveStake,
+    createRace,
+    acceptRace,
+    submitResult,
+    cancelRace,
+    claimExpiredRace,
+    loadGhost,
+    pending,
+    isPending,
+    txError,
+  } = useRaceEscrow();
+
+  const [ghost, setGhost] = useState<GhostChoice>({
+    name: BUNDLED_GHOSTS[0].name,
+    replay: BUNDLED_GHOSTS[0].replay,
+  });
+  const [isRacing, setIsRacing] = useState(false);
+  const [triggerRestart, setTriggerRestart] = useState(false);
+  const [result, setResult] = useState<{ distance: number; replay: DashReplay } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Swapping ghosts ends the current race so the next one starts on the new seed
+  const chooseGhost = (choice: GhostChoice) => {
+    setGhost(choice);
+    setIsRacing(false);
+    setResult(null);
+    setError(null);
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const replay = await readReplayFile(file);
+      chooseGhost({ name: 'Ghost', replay });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load ghost');
+    }
+    e.target.value = '';
+  };
+
+  const handleRaceGhost = async (race: RaceInfo) => {
+    try {
+      const replay = await loadGhost(race);
+      chooseGhost({ name: `Race #${race.id.toString()}`, replay, raceId: race.id });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load ghost');
+    }
+  };
+
+  const handleGameOver = useCallback((distance: number, _talismans: number, replay: DashReplay) => {
+    setResult({ distance, replay });
+  }, []);
+
+  const handleRaceAgain = () => {
+    setResult(null);
+    setTriggerRestart(true);
+  };
+
+  const handleRestartComplete = useCallback(() => {
+    setTriggerRestart(false);
+  }, []);
+
+  // The staked attempt: this player accepted the loaded race and is still inside the race window
+  const activeRace = races.find((race) => race.id === ghost.raceId);
+  const canSubmit =
+    !!result &&
+    !!activeRace &&
+    activeRace.status === 'accepted' &&
+    !activeRace.isOverdue &&
+    activeRace.challenger.toLowerCase() === accountAddress?.toLowerCase() &&
+    result.replay.seed === activeRace.seed;
+
+  const isOutdated = ghost.replay.constantsVersion !== DASH_CONSTANTS_VERSION;
+
+  return (
+    <div className="fixed inset-0 bg-gray-900">
+      <DashGameCanvas
+        isActive={isRacing}
+        onGameOver={handleGameOver}
+        triggerRestart={triggerRestart}
+        onRestartComplete={handleRestartComplete}
+        ghost={ghost.replay}
+      />
+
+      {/* Floating Header */}
+      <div className="absolute top-0 left-0 right-0 z-10">
+        <div className="flex items-center justify-between p-4">
+          <Link
+            to="/"
+            className="bg-gray-900/80 backdrop-blur-sm rounded-lg px-4 py-2 border border-purple-500/30 hover:border-purple-400/50 transition-colors"
+          >
+            <span className="text-sm text-purple-400">← Back to Game</span>
+          </Link>
+
+          <div className="flex items-center gap-3">
+            <div className="bg-gray-900/80 backdrop-blur-sm rounded-lg px-4 py-2 border border-cyan-500/30">
+              <p className="text-xs text-gray-400">
+                <span className="text-cyan-300">{ghost.name}</span> · Seed {ghost.replay.seed} ·{' '}
+                {Math.floor(ghost.replay.distance)}m
+              </p>
+            </div>
+            <label className="cursor-pointer bg-gray-900/80 backdrop-blur-sm rounded-lg px-4 py-2 border border-purple-500/30 hover:border-purple-400/50 transition-colors">
+              <span className="text-sm text-purple-400">Load Ghost</span>
+              <input type="file" accept="application/json,.json" onChange={handleFileChange} className="hidden" />
+            </label>
+          </div>
+        </div>
+
+        {(error || txError) && (
+          <p className="mx-4 px-4 py-2 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400">
+            {error ?? txError?.message}
+          </p>
+        )}
+        {isOutdated && (
+          <p className="mx-4 px-4 py-2 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-sm text-yellow-400">
+            This ghost was recorded with an older version of the game and may not run the same course.
+          </p>
+        )}
+      </div>
+
+      {/* Ghost picker before the first race */}
+      {!isRacing && (
+        <div className="absolute inset-0 z-0 flex items-center justify-center p-4">
+          <div className="bg-gray-900/90 backdrop-blur-sm rounded-xl p-6 border border-purple-500/30 w-full max-w-lg space-y-4">
+            <div className="text-center">
+              <h1 className="text-2xl font-bold text-white mb-1">Ghost Race</h1>
+              <p className="text-sm text-gray-400">
+                Run the same course as the ghost — the longer distance wins
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              {BUNDLED_GHOSTS.map((bundled) => (
+                <button
+                  key={bundled.id}
+                  onClick={() => chooseGhost({ name: bundled.name, replay: bundled.replay })}
+                  className={`w-full text-left px-4 py-3 rounded-lg border transition-colors ${
+                    ghost.replay === bundled.replay
+                      ? 'border-cyan-400/60 bg-cyan-500/10'
+                      : 'border-gray-700 hover:border-purple-400/50'
+                  }`}
+                >
+                  <p className="text-sm font-medium text-white">{bundled.name}</p>
+                  <p className="text-xs text-gray-400">{bundled.description}</p>
+                </button>
+              ))}
+            </div>
+
+            {/* Staked races against other players' ghosts */}
+            {isEnabled && (
+              <div>
+                <h2 className="text-sm font-medium text-gray-300 mb-2">Open Races</h2>
+                <RaceList
+                  races={races}
+                  playerAddress={accountAddress}
+                  allowance={allowance}
+                  selectedRaceId={ghost.raceId}
+                  pending={pending}
+                  isPending={isPending}
+                  onRace={handleRaceGhost}
+                  onApprove={(race) => approveStake(race.stake, race.id)}
+                  onAccept={acceptRace}
+                  onCancel={cancelRace}
+                  onClaim={claimExpiredRace}
+                />
+              </div>
+            )}
+
+            <button
+              onClick={() => setIsRacing(true)}
+              className="w-full py-3 bg-gradient-to-r from-purple-600 to-cyan-600 hover:from-purple-700 hover:to-cyan-700 text-white font-bold rounded-lg transition-colors"
+            >
+              Start Race
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Result once the player's run ends */}
+      {isRacing && result && (
+        <div className="absolute inset-0 z-0 flex items-center justify-center p-4">
+          <RaceResult
+            outcome={raceOutcome(result.distance, ghost.replay.distance)}
+            distance={result.distance}
+            ghostName={ghost.name}
+            ghostDistance={ghost.replay.distance}
+            onRaceAgain={handleRaceAgain}
+            onDownload={() => downloadReplay(result.replay)}
+            staking={
+              isEnabled && canStake && accountAddress
+                ? {
+                    allowance,
+                    pendingAction: pending?.action,
+                    isPending,
+                    onSubmit: canSubmit ? () => submitResult(activeRace.id, result.replay) : undefined,
+                    onApprove: (amount) => approveStake(amount),
+                    onChallenge: (stake) => createRace(result.replay, stake),
+                  }
+                : undefined
+            }
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useState, type ChangeEvent } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { DashGameCanvas, ReplayViewer } from '../components';
+import { DASH_CONSTANTS_VERSION } from '../constants/dashGame';
+import type { DashReplay } from '../types/dashGame';
+import { readReplayFile } from '../utils/replay';
+
+export function ReplayPage() {
+  // A replay can be handed over from the game page via router state
+  const location = useLocation();
+  const [replay, setReplay] = useState<DashReplay | null>(
+    (location.state as { replay?: DashReplay } | null)?.replay ?? null
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setReplay(await readReplayFile(file));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load replay');
+    }
+    e.target.value = '';
+  };
+
+  const isOutdated = replay !== null && replay.constantsVersion !== DASH_CONSTANTS_VERSION;
+
+  return (
+    <div className="fixed inset-0 bg-gray-900">
+      {replay ? (
+        <ReplayViewer key={`${replay.seed}-${replay.recordedAt}`} replay={replay} />
+      ) : (
+        <DashGameCanvas isActive={false} />
+      )}
+
+      {/* Floating Header */}
+      <div className="absolute top-0 left-0 right-0 z-10">
+        <div className="flex items-center justify-between p-4">
+          <Link
+            to="/"
+            className="bg-gray-900/80 backdrop-blur-sm rounded-lg px-4 py-2 border border-purple-500/30 hover:border-purple-400/50 transition-colors"
+          >
+            <span className="text-sm text-purple-400">← Back to Game</span>
+          </Link>
+
+          <div className="flex items-center gap-3">
+            {replay && (
+              <div className="bg-gray-900/80 backdrop-blur-sm rounded-lg px-4 py-2 border border-purple-500/30">
+                <p className="text-xs text-gray-400">
+                  Seed {replay.seed} · {Math.floor(replay.distance)}m ·{' '}
+                  <span className="text-yellow-400">★ {replay.talismans}</span>
+                </p>
+              </div>
+            )}
+            <label className="cursor-pointer bg-gray-900/80 backdrop-blur-sm rounded-lg px-4 py-2 border border-purple-500/30 hover:border-purple-400/50 transition-colors">
+              <span className="text-sm text-purple-400">Load Replay</span>
+              <input type="file" accept="application/json,.json" onChange={handleFileChange} className="hidden" />
+            </label>
+          </div>
+        </div>
+
+        {error && (
+          <p className="mx-4 px-4 py-2 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400">
+            {error}
+          </p>
+        )}
+        {isOutdated && (
+          <p className="mx-4 px-4 py-2 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-sm text-yellow-400">
+            This replay was recorded with an older version of the game and may not play back exactly.
+          </p>
+        )}
+      </div>
+
+      {!replay && (
+        <div className="absolute inset-0 z-0 flex items-center justify-center pointer-events-none">
+          <p className="text-gray-400 bg-gray-900/80 rounded-lg px-6 py-4">
+            Load a replay file to watch a run
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
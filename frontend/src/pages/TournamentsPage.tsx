@@ -0,0 +1,90 @@
+import { Link } from 'react-router-dom';
+import { Header, TournamentCard } from '../components';
+import { useTournament } from '../hooks';
+
+export function TournamentsPage() {
+  const {
+    isEnabled,
+    tournaments,
+    isLoading,
+    accountAddress,
+    allowance,
+    canSubmit,
+    approveEntry,
+    enterTournament,
+    finalizeTournament,
+    claimPrize,
+    pending,
+    isPending,
+    txError,
+  } = useTournament();
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8">
+        {/* Back to game link */}
+        <Link
+          to="/"
+          className="inline-flex items-center gap-2 mb-8 text-purple-400 hover:text-purple-300 transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+          </svg>
+          Back to Game
+        </Link>
+
+        <div className="max-w-2xl mx-auto space-y-6">
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold mb-2">Tournaments</h1>
+            <p className="text-gray-400">
+              Pay the entry fee, then your best Dash distance during the window counts toward the prize pool
+            </p>
+          </div>
+
+          {!isEnabled ? (
+            <div className="bg-gray-800/50 rounded-xl p-8 border border-purple-500/20 text-center">
+              <h3 className="text-lg font-semibold mb-2">Tournaments Unavailable</h3>
+              <p className="text-gray-400">Set VITE_TOURNAMENT_ADDRESS to the tournament contract to join tournaments.</p>
+            </div>
+          ) : (
+            <>
+              {!canSubmit && (
+                <p className="text-center text-sm text-yellow-400">
+                  Distances are recorded through the score verifier — set VITE_VERIFIER_URL to compete.
+                </p>
+              )}
+
+              {isLoading && <p className="text-center text-gray-400">Loading tournaments...</p>}
+
+              {txError && <p className="text-center text-red-400">{txError.message}</p>}
+
+              {tournaments.map((tournament) => (
+                <TournamentCard
+                  key={tournament.id.toString()}
+                  tournament={tournament}
+                  playerAddress={accountAddress}
+                  allowance={allowance}
+                  pendingAction={pending?.tournamentId === tournament.id ? pending.action : undefined}
+                  isPending={isPending}
+                  onApprove={approveEntry}
+                  onEnter={enterTournament}
+                  onFinalize={finalizeTournament}
+                  onClaim={claimPrize}
+                />
+              ))}
+
+              {!isLoading && tournaments.length === 0 && (
+                <div className="bg-gray-800/50 rounded-xl p-8 border border-purple-500/20 text-center">
+                  <h3 className="text-lg font-semibold mb-2">No Tournaments Yet</h3>
+                  <p className="text-gray-400">Check back once the next tournament is scheduled.</p>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -5,13 +5,15 @@ import {
   VestingTimeline,
   ClaimableAmount,
   ClaimButton,
+  EarlyClaimPanel,
+  PoolHealthPanel,
   TokenBalance,
 } from '../components';
 import { useGameRewards } from '../hooks';
 
 export function VestingPage() {
   const { isConnected } = useAccount();
-  const { vestingInfo, claimableAmount, vestingDuration } = useGameRewards();
+  const { vestingInfo, vestingTranches, vestingProgress } = useGameRewards();
 
   if (!isConnected) {
     return (
@@ -56,20 +58,18 @@ export function VestingPage() {
           </div>
 
           {/* Vesting Timeline */}
-          <VestingTimeline
-            schedule={vestingInfo ?? null}
-            vestingDuration={Number(vestingDuration ?? 604800n)}
-          />
+          <VestingTimeline tranches={vestingTranches} />
 
           {/* Claimable and Claim Button */}
           {vestingInfo && vestingInfo.totalAmount > 0n && (
             <>
               <ClaimableAmount
-                claimable={claimableAmount ?? 0n}
+                claimable={vestingProgress.claimable}
                 claimed={vestingInfo.claimedAmount}
                 total={vestingInfo.totalAmount}
               />
               <ClaimButton />
+              <EarlyClaimPanel />
             </>
           )}
 
@@ -91,6 +91,9 @@ export function VestingPage() {
               </Link>
             </div>
           )}
+
+          {/* Reward Pool Health */}
+          <PoolHealthPanel />
         </div>
       </main>
     </div>
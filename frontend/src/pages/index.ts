@@ -1,2 +1,8 @@
 export { GamePage } from './GamePage';
 export { VestingPage } from './VestingPage';
+export { ReplayPage } from './ReplayPage';
+export { HistoryPage } from './HistoryPage';
+export { AchievementsPage } from './AchievementsPage';
+export { LeaderboardPage } from './LeaderboardPage';
+export { TournamentsPage } from './TournamentsPage';
+export { RacePage } from './RacePage';
@@ -1,42 +1,35 @@
-export interface Player {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  velocityY: number;
-  isJumping: boolean;
-  isGrounded: boolean;
-}
-
-export interface Obstacle {
-  id: number;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  type: 'spike' | 'block';
-  passed: boolean;
-}
+import type { DashSimState } from '../../../shared/dash/types';
+import type { DashInputLog, DashRunOwner } from '../../../shared/dash/replay';
 
-export interface DashTalisman {
-  id: number;
-  x: number;
-  y: number;
-  radius: number;
-  collected: boolean;
-  hue: number;
-}
+export type {
+  Player,
+  Obstacle,
+  ObstacleType,
+  DashTalisman,
+  DashPowerUp,
+  PowerUpType,
+  ActivePowerUps,
+  DashInput,
+  DashSimState,
+} from '../../../shared/dash/types';
+export type { DashReplay, DashInputLog, DashRunOwner } from '../../../shared/dash/replay';
 
-export interface DashGameState {
+// Simulation state plus the UI flow around it (countdown, running)
+export interface DashGameState extends DashSimState {
   isRunning: boolean;
-  isGameOver: boolean;
   isCountingDown: boolean;
   countdown: number;
-  player: Player;
-  obstacles: Obstacle[];
-  talismans: DashTalisman[];
-  distance: number;
-  talismansCollected: number;
-  speed: number;
-  groundOffset: number;
+  // Ticks at which each input changed (see recordInput)
+  inputLog: DashInputLog;
+  // Opponent's run stepped in lockstep when racing a ghost
+  ghost?: DashSimState;
+  // Session attempt the seed was derived from; unset on a ghost's seed
+  owner?: DashRunOwner;
+}
+
+// What the canvas needs to draw: the last two ticks and the blend between them
+export interface DashRenderFrame {
+  gameState: DashGameState;
+  previousState: DashGameState;
+  alpha: number;
 }
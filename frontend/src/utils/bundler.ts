@@ -0,0 +1,127 @@
+import { toHex, hexToBigInt, type Address, type Hex } from 'viem';
+import type { UserOperation } from '../hooks/useUserOperation';
+import { SERVICE_URLS } from '../config/services';
+
+// Error returned by the bundler itself, as opposed to the bundler being unreachable
+export class BundlerRpcError extends Error {
+  readonly code: number;
+
+  constructor(message: string, code: number) {
+    super(message);
+    this.code = code;
+  }
+}
+
+// Gas fields filled in by eth_estimateUserOperationGas
+export interface UserOperationGasEstimate {
+  preVerificationGas: bigint;
+  verificationGasLimit: bigint;
+  callGasLimit: bigint;
+}
+
+// What eth_getUserOperationReceipt returns once the operation is bundled
+export interface UserOperationReceipt {
+  userOpHash: Hex;
+  sender: Address;
+  success: boolean;
+  actualGasCost: bigint;
+  transactionHash: Hex;
+}
+
+// Numbers travel as hex quantities over JSON-RPC
+function toRpcUserOp(userOp: UserOperation) {
+  return {
+    sender: userOp.sender,
+    nonce: toHex(userOp.nonce),
+    initCode: userOp.initCode,
+    callData: userOp.callData,
+    callGasLimit: toHex(userOp.callGasLimit),
+    verificationGasLimit: toHex(userOp.verificationGasLimit),
+    preVerificationGas: toHex(userOp.preVerificationGas),
+    maxFeePerGas: toHex(userOp.maxFeePerGas),
+    maxPriorityFeePerGas: toHex(userOp.maxPriorityFeePerGas),
+    paymasterAndData: userOp.paymasterAndData,
+    signature: userOp.signature,
+  };
+}
+
+let nextRequestId = 1;
+
+async function bundlerRequest<T>(method: string, params: unknown[]): Promise<T> {
+  if (!SERVICE_URLS.bundler) throw new Error('Bundler not configured');
+
+  const response = await fetch(SERVICE_URLS.bundler, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: nextRequestId++, method, params }),
+  });
+  const data = await response.json();
+
+  if (data.error) throw new BundlerRpcError(data.error.message ?? 'Bundler request failed', data.error.code);
+  return data.result as T;
+}
+
+/**
+ * Hand a signed UserOperation to the bundler; returns its userOpHash
+ */
+export async function sendUserOperation(userOp: UserOperation, entryPoint: Address): Promise<Hex> {
+  return bundlerRequest<Hex>('eth_sendUserOperation', [toRpcUserOp(userOp), entryPoint]);
+}
+
+/**
+ * Ask the bundler for the operation's gas fields. The signature isn't checked,
+ * so estimate before signing.
+ */
+export async function estimateUserOperationGas(
+  userOp: UserOperation,
+  entryPoint: Address
+): Promise<UserOperationGasEstimate> {
+  const result = await bundlerRequest<Record<keyof UserOperationGasEstimate, Hex>>(
+    'eth_estimateUserOperationGas',
+    [toRpcUserOp(userOp), entryPoint]
+  );
+  return {
+    preVerificationGas: hexToBigInt(result.preVerificationGas),
+    verificationGasLimit: hexToBigInt(result.verificationGasLimit),
+    callGasLimit: hexToBigInt(result.callGasLimit),
+  };
+}
+
+/**
+ * Receipt of a bundled operation, or null while it is still waiting for a bundle
+ */
+export async function getUserOperationReceipt(userOpHash: Hex): Promise<UserOperationReceipt | null> {
+  const result = await bundlerRequest<{
+    userOpHash: Hex;
+    sender: Address;
+    success: boolean;
+    actualGasCost: Hex;
+    receipt: { transactionHash: Hex };
+  } | null>('eth_getUserOperationReceipt', [userOpHash]);
+  if (!result) return null;
+
+  return {
+    userOpHash: result.userOpHash,
+    sender: result.sender,
+    success: result.success,
+    actualGasCost: hexToBigInt(result.actualGasCost),
+    transactionHash: result.receipt.transactionHash,
+  };
+}
+
+/**
+ * Poll the bundler until the operation is bundled
+ */
+export async function waitForUserOperationReceipt(
+  userOpHash: Hex,
+  { pollingInterval = 1000, timeout = 60_000 } = {}
+): Promise<UserOperationReceipt> {
+  const deadline = Date.now() + timeout;
+
+  while (Date.now() < deadline) {
+    const receipt = await getUserOperationReceipt(userOpHash);
+    if (receipt) return receipt;
+    await new Promise((resolve) => setTimeout(resolve, pollingInterval));
+  }
+  throw new Error('Timed out waiting for the bundler to include the operation');
+}
@@ -231,8 +231,17 @@ export function drawGlitchOverlay(
 // DASH GAME - Endless Runner Drawing Functions
 // ============================================
 
-import type { Player, Obstacle, DashTalisman } from '../types/dashGame';
+import type {
+  Player,
+  Obstacle,
+  ObstacleType,
+  DashTalisman,
+  DashPowerUp,
+  PowerUpType,
+  ActivePowerUps,
+} from '../types/dashGame';
 import { GROUND_Y, GROUND_HEIGHT } from '../constants/dashGame';
+import { POWER_UP_DURATIONS } from '../../../shared/dash';
 
 export function drawScrollingGround(
   ctx: CanvasRenderingContext2D,
@@ -355,65 +364,212 @@ export function drawPlayer(
   ctx.restore();
 }
 
-export function drawObstacle(
+// Opponent's run replayed alongside the player: a translucent runner,
+// or an arrow at the screen edge while it is out of view
+export function drawGhost(
   ctx: CanvasRenderingContext2D,
-  obstacle: Obstacle,
+  ghost: Player,
+  canvasWidth: number,
   time: number
 ) {
   ctx.save();
 
-  const pulse = Math.sin(time * 6 + obstacle.x * 0.05) * 0.1 + 1;
-
-  if (obstacle.type === 'spike') {
-    // Spike obstacle - triangle
-    const hue = 0; // Red
+  const hue = 185; // Cyan, to stand apart from the purple player
 
-    // Glow with pulse
-    ctx.shadowColor = `hsl(${hue}, 80%, 50%)`;
-    ctx.shadowBlur = 15 * pulse;
+  if (ghost.x > canvasWidth - ghost.width / 2 || ghost.x + ghost.width < 0) {
+    const isAhead = ghost.x > 0;
+    const tipX = isAhead ? canvasWidth - 8 : 8;
+    const baseX = isAhead ? tipX - 16 : tipX + 16;
+    const y = ghost.y + ghost.height / 2;
 
-    ctx.fillStyle = `hsl(${hue}, 70%, ${45 + pulse * 5}%)`;
+    ctx.fillStyle = `hsla(${hue}, 80%, 60%, ${0.6 + Math.sin(time * 6) * 0.2})`;
     ctx.beginPath();
-    ctx.moveTo(obstacle.x + obstacle.width / 2, obstacle.y);
-    ctx.lineTo(obstacle.x + obstacle.width, obstacle.y + obstacle.height);
-    ctx.lineTo(obstacle.x, obstacle.y + obstacle.height);
+    ctx.moveTo(tipX, y);
+    ctx.lineTo(baseX, y - 10);
+    ctx.lineTo(baseX, y + 10);
     ctx.closePath();
     ctx.fill();
 
-    // Border
-    ctx.strokeStyle = `hsl(${hue}, 80%, 60%)`;
-    ctx.lineWidth = 2;
-    ctx.stroke();
+    ctx.restore();
+    return;
+  }
 
-    ctx.shadowBlur = 0;
-  } else {
-    // Block obstacle
-    const hue = 200; // Blue
+  ctx.globalAlpha = 0.45;
 
-    // Glow
-    ctx.shadowColor = `hsl(${hue}, 70%, 50%)`;
-    ctx.shadowBlur = 10;
+  // Body
+  ctx.fillStyle = `hsl(${hue}, 70%, 55%)`;
+  ctx.beginPath();
+  ctx.roundRect(ghost.x, ghost.y, ghost.width, ghost.height, 8);
+  ctx.fill();
 
-    ctx.fillStyle = `hsl(${hue}, 50%, 30%)`;
-    ctx.fillRect(obstacle.x, obstacle.y, obstacle.width, obstacle.height);
+  ctx.strokeStyle = `hsl(${hue}, 80%, 75%)`;
+  ctx.lineWidth = 2;
+  ctx.stroke();
 
-    // Border
-    ctx.strokeStyle = `hsl(${hue}, 60%, 50%)`;
-    ctx.lineWidth = 2;
-    ctx.strokeRect(obstacle.x, obstacle.y, obstacle.width, obstacle.height);
+  // Eyes
+  ctx.fillStyle = '#fff';
+  ctx.beginPath();
+  ctx.arc(ghost.x + 12, ghost.y + 15, 6, 0, Math.PI * 2);
+  ctx.arc(ghost.x + 28, ghost.y + 15, 6, 0, Math.PI * 2);
+  ctx.fill();
 
-    // Inner pattern
-    ctx.strokeStyle = `hsla(${hue}, 50%, 40%, 0.5)`;
-    ctx.lineWidth = 1;
-    ctx.beginPath();
-    ctx.moveTo(obstacle.x, obstacle.y);
-    ctx.lineTo(obstacle.x + obstacle.width, obstacle.y + obstacle.height);
-    ctx.moveTo(obstacle.x + obstacle.width, obstacle.y);
-    ctx.lineTo(obstacle.x, obstacle.y + obstacle.height);
-    ctx.stroke();
+  ctx.restore();
+}
 
-    ctx.shadowBlur = 0;
+type ObstacleRenderer = (ctx: CanvasRenderingContext2D, obstacle: Obstacle, pulse: number) => void;
+
+// Spike obstacle - triangle
+function drawSpike(ctx: CanvasRenderingContext2D, obstacle: Obstacle, pulse: number) {
+  const hue = 0; // Red
+
+  // Glow with pulse
+  ctx.shadowColor = `hsl(${hue}, 80%, 50%)`;
+  ctx.shadowBlur = 15 * pulse;
+
+  ctx.fillStyle = `hsl(${hue}, 70%, ${45 + pulse * 5}%)`;
+  ctx.beginPath();
+  ctx.moveTo(obstacle.x + obstacle.width / 2, obstacle.y);
+  ctx.lineTo(obstacle.x + obstacle.width, obstacle.y + obstacle.height);
+  ctx.lineTo(obstacle.x, obstacle.y + obstacle.height);
+  ctx.closePath();
+  ctx.fill();
+
+  // Border
+  ctx.strokeStyle = `hsl(${hue}, 80%, 60%)`;
+  ctx.lineWidth = 2;
+  ctx.stroke();
+}
+
+// Crossed box, shared by blocks and walls
+function drawCrate(ctx: CanvasRenderingContext2D, obstacle: Obstacle, hue: number) {
+  // Glow
+  ctx.shadowColor = `hsl(${hue}, 70%, 50%)`;
+  ctx.shadowBlur = 10;
+
+  ctx.fillStyle = `hsl(${hue}, 50%, 30%)`;
+  ctx.fillRect(obstacle.x, obstacle.y, obstacle.width, obstacle.height);
+
+  // Border
+  ctx.strokeStyle = `hsl(${hue}, 60%, 50%)`;
+  ctx.lineWidth = 2;
+  ctx.strokeRect(obstacle.x, obstacle.y, obstacle.width, obstacle.height);
+
+  // Inner pattern
+  ctx.strokeStyle = `hsla(${hue}, 50%, 40%, 0.5)`;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(obstacle.x, obstacle.y);
+  ctx.lineTo(obstacle.x + obstacle.width, obstacle.y + obstacle.height);
+  ctx.moveTo(obstacle.x + obstacle.width, obstacle.y);
+  ctx.lineTo(obstacle.x, obstacle.y + obstacle.height);
+  ctx.stroke();
+}
+
+// Block obstacle - blue crate
+function drawBlock(ctx: CanvasRenderingContext2D, obstacle: Obstacle) {
+  drawCrate(ctx, obstacle, 200);
+}
+
+// Wall - tall crate stack, too high to jump over without a double jump
+function drawWall(ctx: CanvasRenderingContext2D, obstacle: Obstacle) {
+  drawCrate(ctx, obstacle, 30);
+
+  // Seams between the stacked sections
+  ctx.strokeStyle = 'hsla(30, 60%, 55%, 0.6)';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  for (let y = obstacle.y + obstacle.width; y < obstacle.y + obstacle.height; y += obstacle.width) {
+    ctx.moveTo(obstacle.x, y);
+    ctx.lineTo(obstacle.x + obstacle.width, y);
   }
+  ctx.stroke();
+}
+
+// Flyer - hovering pillar to duck under
+function drawFlyer(ctx: CanvasRenderingContext2D, obstacle: Obstacle, pulse: number) {
+  const hue = 120; // Green
+
+  ctx.shadowColor = `hsl(${hue}, 80%, 50%)`;
+  ctx.shadowBlur = 15 * pulse;
+
+  ctx.fillStyle = `hsl(${hue}, 60%, ${30 + pulse * 5}%)`;
+  ctx.beginPath();
+  ctx.roundRect(obstacle.x, obstacle.y, obstacle.width, obstacle.height, obstacle.width / 2);
+  ctx.fill();
+
+  ctx.strokeStyle = `hsl(${hue}, 80%, 60%)`;
+  ctx.lineWidth = 2;
+  ctx.stroke();
+
+  // Thruster glow underneath
+  ctx.fillStyle = `hsla(${hue}, 90%, 70%, ${0.4 * pulse})`;
+  ctx.beginPath();
+  ctx.ellipse(
+    obstacle.x + obstacle.width / 2,
+    obstacle.y + obstacle.height + 4,
+    obstacle.width / 3,
+    4,
+    0,
+    0,
+    Math.PI * 2
+  );
+  ctx.fill();
+}
+
+// Gap - a pit cut into the ground
+function drawGap(ctx: CanvasRenderingContext2D, obstacle: Obstacle) {
+  const gradient = ctx.createLinearGradient(0, obstacle.y, 0, obstacle.y + obstacle.height);
+  gradient.addColorStop(0, '#05010a');
+  gradient.addColorStop(1, '#000');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(obstacle.x, obstacle.y - 1, obstacle.width, obstacle.height + 1);
+
+  // Glowing edges
+  ctx.strokeStyle = 'hsla(260, 70%, 50%, 0.6)';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(obstacle.x, obstacle.y);
+  ctx.lineTo(obstacle.x, obstacle.y + obstacle.height);
+  ctx.moveTo(obstacle.x + obstacle.width, obstacle.y);
+  ctx.lineTo(obstacle.x + obstacle.width, obstacle.y + obstacle.height);
+  ctx.stroke();
+}
+
+// Moving platform - safe to stand on
+function drawPlatform(ctx: CanvasRenderingContext2D, obstacle: Obstacle, pulse: number) {
+  const hue = 180; // Cyan
+
+  ctx.shadowColor = `hsl(${hue}, 80%, 50%)`;
+  ctx.shadowBlur = 12 * pulse;
+
+  ctx.fillStyle = `hsl(${hue}, 50%, 35%)`;
+  ctx.beginPath();
+  ctx.roundRect(obstacle.x, obstacle.y, obstacle.width, obstacle.height, 4);
+  ctx.fill();
+
+  // Top surface highlight
+  ctx.fillStyle = `hsl(${hue}, 80%, 65%)`;
+  ctx.fillRect(obstacle.x + 2, obstacle.y, obstacle.width - 4, 3);
+}
+
+const OBSTACLE_RENDERERS: Record<ObstacleType, ObstacleRenderer> = {
+  spike: drawSpike,
+  block: drawBlock,
+  flyer: drawFlyer,
+  wall: drawWall,
+  gap: drawGap,
+  platform: drawPlatform,
+};
+
+export function drawObstacle(
+  ctx: CanvasRenderingContext2D,
+  obstacle: Obstacle,
+  time: number
+) {
+  ctx.save();
+
+  const pulse = Math.sin(time * 6 + obstacle.x * 0.05) * 0.1 + 1;
+  OBSTACLE_RENDERERS[obstacle.type](ctx, obstacle, pulse);
 
   ctx.restore();
 }
@@ -479,6 +635,101 @@ export function drawRunnerTalisman(
   ctx.restore();
 }
 
+// Colour and HUD label for each power-up
+const POWER_UP_STYLES: Record<PowerUpType, { hue: number; label: string }> = {
+  shield: { hue: 190, label: 'SHIELD' },
+  magnet: { hue: 330, label: 'MAGNET' },
+  slowMotion: { hue: 50, label: 'SLOW-MO' },
+};
+
+function drawPowerUpIcon(ctx: CanvasRenderingContext2D, type: PowerUpType, x: number, y: number, size: number) {
+  ctx.strokeStyle = '#fff';
+  ctx.fillStyle = '#fff';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+
+  if (type === 'shield') {
+    // Shield crest
+    ctx.moveTo(x, y - size);
+    ctx.lineTo(x + size * 0.8, y - size * 0.6);
+    ctx.lineTo(x + size * 0.6, y + size * 0.5);
+    ctx.lineTo(x, y + size);
+    ctx.lineTo(x - size * 0.6, y + size * 0.5);
+    ctx.lineTo(x - size * 0.8, y - size * 0.6);
+    ctx.closePath();
+    ctx.stroke();
+  } else if (type === 'magnet') {
+    // Horseshoe
+    ctx.arc(x, y, size * 0.7, Math.PI, 0, true);
+    ctx.moveTo(x - size * 0.7, y);
+    ctx.lineTo(x - size * 0.7, y - size * 0.8);
+    ctx.moveTo(x + size * 0.7, y);
+    ctx.lineTo(x + size * 0.7, y - size * 0.8);
+    ctx.stroke();
+  } else {
+    // Hourglass
+    ctx.moveTo(x - size * 0.6, y - size);
+    ctx.lineTo(x + size * 0.6, y - size);
+    ctx.lineTo(x - size * 0.6, y + size);
+    ctx.lineTo(x + size * 0.6, y + size);
+    ctx.closePath();
+    ctx.stroke();
+  }
+}
+
+export function drawPowerUp(
+  ctx: CanvasRenderingContext2D,
+  powerUp: DashPowerUp,
+  time: number
+) {
+  ctx.save();
+
+  const { hue } = POWER_UP_STYLES[powerUp.type];
+  const floatY = powerUp.y + Math.sin(time * 3 + powerUp.x * 0.02) * 6;
+  const pulse = Math.sin(time * 6) * 0.1 + 1;
+
+  // Glow
+  ctx.shadowColor = `hsl(${hue}, 90%, 60%)`;
+  ctx.shadowBlur = 20 * pulse;
+
+  // Rounded badge
+  ctx.fillStyle = `hsla(${hue}, 70%, 40%, 0.9)`;
+  ctx.beginPath();
+  ctx.arc(powerUp.x, floatY, powerUp.radius * pulse, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.strokeStyle = `hsl(${hue}, 90%, 70%)`;
+  ctx.lineWidth = 2;
+  ctx.stroke();
+
+  ctx.shadowBlur = 0;
+  drawPowerUpIcon(ctx, powerUp.type, powerUp.x, floatY, powerUp.radius * 0.5);
+
+  ctx.restore();
+}
+
+// Bubble around the player while the shield is up
+export function drawShield(
+  ctx: CanvasRenderingContext2D,
+  player: Player,
+  time: number
+) {
+  ctx.save();
+
+  const { hue } = POWER_UP_STYLES.shield;
+  const pulse = Math.sin(time * 5) * 0.05 + 1;
+  const radius = Math.max(player.width, player.height) * 0.8 * pulse;
+
+  ctx.strokeStyle = `hsla(${hue}, 90%, 65%, 0.8)`;
+  ctx.fillStyle = `hsla(${hue}, 90%, 65%, 0.15)`;
+  ctx.lineWidth = 3;
+  ctx.beginPath();
+  ctx.arc(player.x + player.width / 2, player.y + player.height / 2, radius, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+
+  ctx.restore();
+}
+
 export function drawGameOverScreen(
   ctx: CanvasRenderingContext2D,
   canvas: HTMLCanvasElement,
@@ -512,7 +763,8 @@ export function drawScoreHUD(
   ctx: CanvasRenderingContext2D,
   distance: number,
   talismans: number,
-  speed: number
+  speed: number,
+  activePowerUps: ActivePowerUps
 ) {
   ctx.save();
 
@@ -536,6 +788,43 @@ export function drawScoreHUD(
   const speedPercent = Math.floor((speed / 14) * 100);
   ctx.fillText(`${speedPercent}%`, 100, 35);
 
+  // Active power-ups with a bar for the time left
+  const active = (Object.keys(activePowerUps) as PowerUpType[]).filter((type) => activePowerUps[type] > 0);
+  active.forEach((type, i) => {
+    const { hue, label } = POWER_UP_STYLES[type];
+    const y = 90 + i * 26;
+    const remaining = activePowerUps[type] / POWER_UP_DURATIONS[type];
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.fillRect(10, y, 150, 22);
+    ctx.fillStyle = `hsla(${hue}, 80%, 50%, 0.6)`;
+    ctx.fillRect(10, y, 150 * remaining, 22);
+
+    ctx.font = 'bold 12px system-ui, sans-serif';
+    ctx.fillStyle = '#fff';
+    ctx.fillText(label, 18, y + 15);
+  });
+
+  ctx.restore();
+}
+
+// Gap to the ghost next to the score HUD
+export function drawGhostHUD(ctx: CanvasRenderingContext2D, gap: number, isGhostDone: boolean) {
+  ctx.save();
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+  ctx.fillRect(170, 10, 130, 48);
+
+  ctx.font = 'bold 12px system-ui, sans-serif';
+  ctx.textAlign = 'left';
+  ctx.fillStyle = '#67e8f9';
+  ctx.fillText(isGhostDone ? 'GHOST FINISHED' : 'GHOST', 180, 28);
+
+  const meters = Math.floor(Math.abs(gap));
+  ctx.font = 'bold 18px system-ui, sans-serif';
+  ctx.fillStyle = gap > 0 ? '#f87171' : '#4ade80';
+  ctx.fillText(gap > 0 ? `+${meters}m ahead` : `${meters}m behind`, 180, 50);
+
   ctx.restore();
 }
 
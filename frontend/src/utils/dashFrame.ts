@@ -0,0 +1,36 @@
+import type { DashGameState } from '../types/dashGame';
+
+// The two most recent simulation ticks plus how far (0..1) the clock is
+// between them, so rendering can interpolate independently of the tick rate
+export interface DashFrame {
+  previous: DashGameState;
+  current: DashGameState;
+  alpha: number;
+}
+
+export function createFrame(state: DashGameState): DashFrame {
+  return { previous: state, current: state, alpha: 0 };
+}
+
+/**
+ * Run up to `steps` ticks. `step` returns its input unchanged when the
+ * simulation cannot advance (game over, end of replay).
+ */
+export function advanceFrame(
+  frame: DashFrame,
+  steps: number,
+  alpha: number,
+  step: (state: DashGameState) => DashGameState
+): DashFrame {
+  let previous = frame.previous;
+  let current = frame.current;
+
+  for (let i = 0; i < steps; i++) {
+    const next = step(current);
+    if (next === current) break;
+    previous = current;
+    current = next;
+  }
+
+  return { previous, current, alpha };
+}
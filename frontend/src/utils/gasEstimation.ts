@@ -0,0 +1,201 @@
+import {
+  encodeAbiParameters,
+  encodeFunctionData,
+  parseAbiParameters,
+  hexToBytes,
+  slice,
+  zeroHash,
+  BaseError,
+  type Address,
+  type Hex,
+  type PublicClient,
+} from 'viem';
+import type { UserOperation } from '../hooks/useUserOperation';
+import type { UserOperationGasEstimate } from './bundler';
+import type { EntryPointVersion } from '../config/contracts';
+import { TalismanAccountABI, TalismanPaymasterABI } from '../constants/abis';
+import { packUserOpV07 } from './userOpHash';
+import { PRE_VERIFICATION, preVerificationGasFor } from '../../../shared/userop';
+
+// Stand-in for a signature not made yet: full size, and well-formed so recovery runs as for a real one
+export const PLACEHOLDER_SIGNATURE: Hex = `0x${'01'.repeat(PRE_VERIFICATION.sigSize - 1)}1b`;
+// The EntryPoint's own validation work, charged to verificationGasLimit: the nonce update
+// (a fresh storage slot on the first operation) and the prefund's deposit bookkeeping
+const ENTRY_POINT_VALIDATION_GAS = 25000n;
+
+// Recent blocks the priority fee is taken from, and the percentile paid in each
+const FEE_HISTORY_BLOCKS = 10;
+const PRIORITY_FEE_PERCENTILE = 50;
+// Room for the base fee to rise while the operation waits to be included (+20%)
+const BASE_FEE_MULTIPLIER_PERCENT = 120n;
+
+export interface UserOperationFees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+/**
+ * Most the EntryPoint can charge for a UserOperation (v0.6 triples verification gas when a paymaster is used)
+ */
+export function getMaxCost(userOp: UserOperation): bigint {
+  const verificationMultiplier = userOp.paymasterAndData === '0x' ? 1n : 3n;
+  const gas = userOp.callGasLimit + userOp.verificationGasLimit * verificationMultiplier + userOp.preVerificationGas;
+  return gas * userOp.maxFeePerGas;
+}
+
+/**
+ * preVerificationGas from the operation's calldata, priced the same way as the local bundler
+ */
+export function calcPreVerificationGas(userOp: UserOperation): bigint {
+  // Price a full-size signature so estimating before signing doesn't underprice the real one
+  const signature = hexToBytes(userOp.signature).length < PRE_VERIFICATION.sigSize ? PLACEHOLDER_SIGNATURE : userOp.signature;
+  const packed = encodeAbiParameters(
+    parseAbiParameters(
+      '(address sender, uint256 nonce, bytes initCode, bytes callData, uint256 callGasLimit, uint256 verificationGasLimit, uint256 preVerificationGas, uint256 maxFeePerGas, uint256 maxPriorityFeePerGas, bytes paymasterAndData, bytes signature)'
+    ),
+    [{ ...userOp, preVerificationGas: PRE_VERIFICATION.fixed, signature }]
+  );
+  return preVerificationGasFor(hexToBytes(packed));
+}
+
+function revertMessage(err: unknown): string {
+  return err instanceof BaseError ? err.details || err.shortMessage : 'execution reverted';
+}
+
+/**
+ * verificationGasLimit from simulating validation as the EntryPoint: the account's
+ * validateUserOp and, when paymasterAndData is set, the paymaster's validatePaymasterUserOp.
+ * The EntryPoint's own nonce and deposit updates are added on top. A paymaster that
+ * would reject the operation adds nothing: the payment checks decline it before it is signed.
+ */
+export async function estimateVerificationGas(
+  publicClient: PublicClient,
+  userOp: UserOperation,
+  entryPoint: Address,
+  version: EntryPointVersion
+): Promise<bigint> {
+  if (userOp.initCode !== '0x') throw new Error('Smart account must be deployed to estimate its operations');
+
+  // An unsigned operation fails signature validation without reverting, at the same cost
+  const simulated = { ...userOp, signature: PLACEHOLDER_SIGNATURE };
+  // Without a paymaster the account sends its prefund to the EntryPoint; any amount costs the same
+  const missingAccountFunds = userOp.paymasterAndData === '0x' ? 1n : 0n;
+  const validateUserOp =
+    version === '0.7'
+      ? encodeFunctionData({
+          abi: TalismanAccountABI,
+          functionName: 'validateUserOp',
+          args: [packUserOpV07(simulated), zeroHash, missingAccountFunds],
+        })
+      : encodeFunctionData({
+          abi: TalismanAccountABI,
+          functionName: 'validateUserOp',
+          args: [simulated, zeroHash, missingAccountFunds],
+        });
+
+  let accountGas: bigint;
+  try {
+    accountGas = await publicClient.estimateGas({ account: entryPoint, to: userOp.sender, data: validateUserOp });
+  } catch (err) {
+    throw new Error(`Validation reverted: ${revertMessage(err)}`);
+  }
+  if (userOp.paymasterAndData === '0x') return accountGas + ENTRY_POINT_VALIDATION_GAS;
+
+  try {
+    // Charge a realistic maxCost so the paymaster's accounting writes cost what they will
+    const maxCost = getMaxCost({ ...userOp, verificationGasLimit: accountGas });
+    const paymasterGas = await publicClient.estimateGas({
+      account: entryPoint,
+      to: slice(userOp.paymasterAndData, 0, 20),
+      data: encodeFunctionData({
+        abi: TalismanPaymasterABI,
+        functionName: 'validatePaymasterUserOp',
+        args: [simulated, zeroHash, maxCost],
+      }),
+    });
+    return accountGas + paymasterGas + ENTRY_POINT_VALIDATION_GAS;
+  } catch {
+    return accountGas + ENTRY_POINT_VALIDATION_GAS;
+  }
+}
+
+/**
+ * Size the operation's gas limits for its paymasterAndData: callGasLimit from simulating
+ * the account call as the EntryPoint, verificationGasLimit from simulating validation,
+ * preVerificationGas from its calldata. Throws if the call reverts.
+ */
+export async function estimateUserOpGas(
+  publicClient: PublicClient,
+  userOp: UserOperation,
+  entryPoint: Address,
+  version: EntryPointVersion
+): Promise<UserOperationGasEstimate> {
+  let callGasLimit = 0n;
+  if (userOp.callData !== '0x') {
+    try {
+      callGasLimit = await publicClient.estimateGas({ account: entryPoint, to: userOp.sender, data: userOp.callData });
+    } catch (err) {
+      throw new Error(`Call reverted: ${revertMessage(err)}`);
+    }
+  }
+
+  const sized = { ...userOp, callGasLimit };
+  const verificationGasLimit = await estimateVerificationGas(publicClient, sized, entryPoint, version);
+
+  return {
+    preVerificationGas: calcPreVerificationGas({ ...sized, verificationGasLimit }),
+    verificationGasLimit,
+    callGasLimit,
+  };
+}
+
+/**
+ * EIP-1559 fees from recent blocks: the median priority fee paid, on top of the next
+ * block's base fee with some headroom. Falls back to the legacy gas price on chains
+ * without fee history.
+ */
+export async function estimateUserOpFees(publicClient: PublicClient): Promise<UserOperationFees> {
+  try {
+    const history = await publicClient.getFeeHistory({
+      blockCount: FEE_HISTORY_BLOCKS,
+      rewardPercentiles: [PRIORITY_FEE_PERCENTILE],
+    });
+    // The last entry is the base fee of the block after the newest one
+    const baseFee = history.baseFeePerGas[history.baseFeePerGas.length - 1];
+
+    if (baseFee) {
+      const rewards = (history.reward ?? []).map(([reward]) => reward).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+      const maxPriorityFeePerGas = rewards.length ? rewards[Math.floor(rewards.length / 2)] : 0n;
+      return {
+        maxFeePerGas: (baseFee * BASE_FEE_MULTIPLIER_PERCENT) / 100n + maxPriorityFeePerGas,
+        maxPriorityFeePerGas,
+      };
+    }
+  } catch {
+    // No eth_feeHistory: price it like a legacy transaction
+  }
+
+  const gasPrice = await publicClient.getGasPrice();
+  return { maxFeePerGas: gasPrice, maxPriorityFeePerGas: gasPrice };
+}
+
+/**
+ * Most a single operation from the sender can cost and still be sponsored: the lower of
+ * the paymaster's per-operation cap and what is left of the sender's daily limit
+ */
+export async function getSponsorshipAllowance(
+  publicClient: PublicClient,
+  paymaster: Address,
+  sender: Address
+): Promise<bigint> {
+  const [maxCostPerUserOp, remaining] = await Promise.all([
+    publicClient.readContract({ address: paymaster, abi: TalismanPaymasterABI, functionName: 'maxCostPerUserOp' }),
+    publicClient.readContract({
+      address: paymaster,
+      abi: TalismanPaymasterABI,
+      functionName: 'getRemainingDailyAllowance',
+      args: [sender],
+    }),
+  ]);
+  return maxCostPerUserOp < remaining ? maxCostPerUserOp : remaining;
+}
@@ -0,0 +1,58 @@
+import type { Address } from 'viem';
+import { SERVICE_URLS } from '../config/services';
+
+export type LeaderboardPeriod = 'daily' | 'weekly' | 'all';
+export type LeaderboardSort = 'reward' | 'talismans' | 'sessions';
+
+export interface LeaderboardEntry {
+  rank: number;
+  player: Address;
+  sessions: number;
+  retries: number;
+  talismans: number;
+  playTime: number;
+  reward: bigint;
+  bestReward: bigint;
+  claimed: bigint;
+}
+
+export interface Leaderboard {
+  period: LeaderboardPeriod;
+  sort: LeaderboardSort;
+  // Period bounds in chain time (seconds)
+  from: number;
+  to: number;
+  lastBlock: number | null;
+  entries: LeaderboardEntry[];
+}
+
+// Token amounts arrive as decimal strings
+type LeaderboardResponse = Omit<Leaderboard, 'entries'> & {
+  entries: (Omit<LeaderboardEntry, 'reward' | 'bestReward' | 'claimed'> & {
+    reward: string;
+    bestReward: string;
+    claimed: string;
+  })[];
+};
+
+/**
+ * Fetch a ranked leaderboard from the indexer
+ */
+export async function fetchLeaderboard(period: LeaderboardPeriod, sort: LeaderboardSort): Promise<Leaderboard> {
+  if (!SERVICE_URLS.indexer) throw new Error('Leaderboard indexer not configured');
+
+  const response = await fetch(`${SERVICE_URLS.indexer}/leaderboard?period=${period}&sort=${sort}`);
+  const data = await response.json();
+
+  if (!response.ok) throw new Error(data.error ?? 'Failed to load leaderboard');
+  const { entries, ...board } = data as LeaderboardResponse;
+  return {
+    ...board,
+    entries: entries.map((entry) => ({
+      ...entry,
+      reward: BigInt(entry.reward),
+      bestReward: BigInt(entry.bestReward),
+      claimed: BigInt(entry.claimed),
+    })),
+  };
+}
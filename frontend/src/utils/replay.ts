@@ -0,0 +1,34 @@
+import { encodePacked, keccak256, hexToNumber, slice, type Address } from 'viem';
+import type { DashReplay, DashRunOwner } from '../types/dashGame';
+import { parseReplay, serializeReplay } from '../../../shared/dash';
+
+/**
+ * Seed of a session run: the low 32 bits of keccak256(player, sessionStart, attempt).
+ * Must match runSeed in the score verifier.
+ */
+export function runSeed(owner: DashRunOwner): number {
+  const packed = encodePacked(
+    ['address', 'uint64', 'uint32'],
+    [owner.player as Address, BigInt(owner.sessionStart), owner.attempt]
+  );
+  return hexToNumber(slice(keccak256(packed), 28));
+}
+
+/**
+ * Save a replay as a JSON file via a temporary download link
+ */
+export function downloadReplay(replay: DashReplay) {
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `dash-replay-${replay.seed}-${Math.floor(replay.distance)}m.json`;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
+
+export async function readReplayFile(file: File): Promise<DashReplay> {
+  return parseReplay(await file.text());
+}
@@ -0,0 +1,58 @@
+import { concat, encodeAbiParameters, parseAbiParameters, toHex, type Address, type Hex } from 'viem';
+import type { UserOperation } from '../hooks/useUserOperation';
+import { SERVICE_URLS } from '../config/services';
+import { PLACEHOLDER_SIGNATURE } from './gasEstimation';
+
+// Latest validUntil a voucher can carry (uint48)
+const MAX_VALID_UNTIL = 0xffffffffffff;
+
+// Signed paymaster voucher returned by the sponsorship signer
+export interface SponsorshipVoucher {
+  campaign: string;
+  validUntil: number;
+  validAfter: number;
+  paymasterAndData: Hex;
+}
+
+/**
+ * paymasterAndData the size of a voucher (paymaster, validity window, signature),
+ * for sizing an operation's gas before the voucher is requested
+ */
+export function placeholderVoucher(paymasterAddress: Address): Hex {
+  return concat([
+    paymasterAddress,
+    encodeAbiParameters(parseAbiParameters('uint48, uint48'), [MAX_VALID_UNTIL, 0]),
+    PLACEHOLDER_SIGNATURE,
+  ]);
+}
+
+/**
+ * Ask the sponsorship signer to cover a UserOperation's gas.
+ * The voucher is bound to every field but paymasterAndData and signature,
+ * so request it once the rest of the operation is final.
+ */
+export async function requestSponsorship(userOp: UserOperation): Promise<SponsorshipVoucher> {
+  if (!SERVICE_URLS.sponsor) throw new Error('Sponsorship signer not configured');
+
+  const response = await fetch(`${SERVICE_URLS.sponsor}/sponsor`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      userOp: {
+        sender: userOp.sender,
+        nonce: toHex(userOp.nonce),
+        initCode: userOp.initCode,
+        callData: userOp.callData,
+        callGasLimit: toHex(userOp.callGasLimit),
+        verificationGasLimit: toHex(userOp.verificationGasLimit),
+        preVerificationGas: toHex(userOp.preVerificationGas),
+        maxFeePerGas: toHex(userOp.maxFeePerGas),
+        maxPriorityFeePerGas: toHex(userOp.maxPriorityFeePerGas),
+      },
+    }),
+  });
+  const data = await response.json();
+
+  if (!response.ok) throw new Error(data.error ?? 'Sponsorship request failed');
+  return data as SponsorshipVoucher;
+}
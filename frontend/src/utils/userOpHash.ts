@@ -0,0 +1,96 @@
+import { encodeAbiParameters, parseAbiParameters, keccak256, concat, toHex, type Address, type Hex } from 'viem';
+import type { UserOperation } from '../hooks/useUserOperation';
+import type { EntryPointVersion } from '../config/contracts';
+
+// ERC-4337 v0.7 PackedUserOperation: gas limits and fees packed in pairs of uint128
+export interface PackedUserOperation {
+  sender: Address;
+  nonce: bigint;
+  initCode: Hex;
+  callData: Hex;
+  accountGasLimits: Hex;
+  preVerificationGas: bigint;
+  gasFees: Hex;
+  paymasterAndData: Hex;
+  signature: Hex;
+}
+
+// Two uint128 values in one bytes32, high then low
+function packUint128(high: bigint, low: bigint): Hex {
+  return concat([toHex(high, { size: 16 }), toHex(low, { size: 16 })]);
+}
+
+/**
+ * Convert a UserOperation to the v0.7 layout. paymasterAndData is passed through,
+ * so it must already be in the v0.7 format (or empty).
+ */
+export function packUserOpV07(userOp: UserOperation): PackedUserOperation {
+  return {
+    sender: userOp.sender,
+    nonce: userOp.nonce,
+    initCode: userOp.initCode,
+    callData: userOp.callData,
+    accountGasLimits: packUint128(userOp.verificationGasLimit, userOp.callGasLimit),
+    preVerificationGas: userOp.preVerificationGas,
+    gasFees: packUint128(userOp.maxPriorityFeePerGas, userOp.maxFeePerGas),
+    paymasterAndData: userOp.paymasterAndData,
+    signature: userOp.signature,
+  };
+}
+
+// v0.6 pack: every field but the signature, dynamic fields hashed
+function packUserOpV06(userOp: UserOperation): Hex {
+  return encodeAbiParameters(
+    parseAbiParameters('address, uint256, bytes32, bytes32, uint256, uint256, uint256, uint256, uint256, bytes32'),
+    [
+      userOp.sender,
+      userOp.nonce,
+      keccak256(userOp.initCode),
+      keccak256(userOp.callData),
+      userOp.callGasLimit,
+      userOp.verificationGasLimit,
+      userOp.preVerificationGas,
+      userOp.maxFeePerGas,
+      userOp.maxPriorityFeePerGas,
+      keccak256(userOp.paymasterAndData),
+    ]
+  );
+}
+
+// v0.7 pack: the same, over the packed gas fields
+function packUserOpV07ForHash(userOp: UserOperation): Hex {
+  const packed = packUserOpV07(userOp);
+  return encodeAbiParameters(
+    parseAbiParameters('address, uint256, bytes32, bytes32, bytes32, uint256, bytes32, bytes32'),
+    [
+      packed.sender,
+      packed.nonce,
+      keccak256(packed.initCode),
+      keccak256(packed.callData),
+      packed.accountGasLimits,
+      packed.preVerificationGas,
+      packed.gasFees,
+      keccak256(packed.paymasterAndData),
+    ]
+  );
+}
+
+/**
+ * The hash the EntryPoint passes to validateUserOp, which the account owner signs.
+ * MockEntryPoint doesn't validate signatures, so it gets the v0.6 hash.
+ */
+export function getUserOpHash(
+  userOp: UserOperation,
+  entryPointAddress: Address,
+  chainId: number,
+  version: EntryPointVersion
+): Hex {
+  const packed = version === '0.7' ? packUserOpV07ForHash(userOp) : packUserOpV06(userOp);
+  return keccak256(
+    encodeAbiParameters(parseAbiParameters('bytes32, address, uint256'), [
+      keccak256(packed),
+      entryPointAddress,
+      BigInt(chainId),
+    ])
+  );
+}
@@ -0,0 +1,111 @@
+import type { Hex } from 'viem';
+import type { DashReplay } from '../types/dashGame';
+import { SERVICE_URLS } from '../config/services';
+
+// Signed talisman count returned by the score verifier
+export interface SessionProof {
+  talismansCollected: number;
+  deadline: string;
+  signature: Hex;
+}
+
+/**
+ * Submit the session's replays to the score verifier for re-simulation
+ */
+export async function requestSessionProof(player: string, replays: DashReplay[]): Promise<SessionProof> {
+  if (!SERVICE_URLS.verifier) throw new Error('Score verifier not configured');
+
+  const response = await fetch(`${SERVICE_URLS.verifier}/verify`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ player, replays }),
+  });
+  const data = await response.json();
+
+  if (!response.ok) throw new Error(data.error ?? 'Score verification failed');
+  return data as SessionProof;
+}
+
+// Signed daily quest completion returned by the score verifier
+export interface QuestProof {
+  day: number;
+  questId: Hex;
+  reward: string;
+  deadline: string;
+  signature: Hex;
+}
+
+/**
+ * Ask the score verifier to attest a daily quest from the on-chain session history
+ */
+export async function requestQuestProof(player: string, day: number, questId: string): Promise<QuestProof> {
+  if (!SERVICE_URLS.verifier) throw new Error('Score verifier not configured');
+
+  const response = await fetch(`${SERVICE_URLS.verifier}/quest`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ player, day, questId }),
+  });
+  const data = await response.json();
+
+  if (!response.ok) throw new Error(data.error ?? 'Quest verification failed');
+  return data as QuestProof;
+}
+
+// Signed tournament distance returned by the score verifier
+export interface TournamentProof {
+  tournamentId: number;
+  distance: string;
+  deadline: string;
+  signature: Hex;
+}
+
+/**
+ * Submit one run played during a tournament for re-simulation
+ */
+export async function requestTournamentProof(
+  player: string,
+  tournamentId: number,
+  replay: DashReplay
+): Promise<TournamentProof> {
+  if (!SERVICE_URLS.verifier) throw new Error('Score verifier not configured');
+
+  const response = await fetch(`${SERVICE_URLS.verifier}/tournament`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ player, tournamentId, replay }),
+  });
+  const data = await response.json();
+
+  if (!response.ok) throw new Error(data.error ?? 'Tournament verification failed');
+  return data as TournamentProof;
+}
+
+// Signed ghost race distance returned by the score verifier
+export interface RaceProof {
+  seed: number;
+  distance: string;
+  // Serialized ghost covered by the RaceRun, to publish as is; only set when opening a race
+  ghost?: Hex;
+  deadline: string;
+  // Over a RaceRun when opening a race, over a RaceResult bound to the race when answering one
+  signature: Hex;
+}
+
+/**
+ * Submit a ghost race run for re-simulation: without a race id to open a race
+ * with it, with the accepted race's id to answer that race
+ */
+export async function requestRaceProof(player: string, replay: DashReplay, raceId?: number): Promise<RaceProof> {
+  if (!SERVICE_URLS.verifier) throw new Error('Score verifier not configured');
+
+  const response = await fetch(`${SERVICE_URLS.verifier}/race`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ player, replay, raceId }),
+  });
+  const data = await response.json();
+
+  if (!response.ok) throw new Error(data.error ?? 'Race verification failed');
+  return data as RaceProof;
+}
@@ -5,4 +5,10 @@ import tailwindcss from '@tailwindcss/vite'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react(), tailwindcss()],
+  server: {
+    fs: {
+      // The Dash engine in ../shared is also used by the Node services
+      allow: ['.', '../shared'],
+    },
+  },
 })
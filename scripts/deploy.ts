@@ -1,4 +1,13 @@
 import { ethers, network } from 'hardhat';
+import type { BaseContract } from 'ethers';
+import EntryPointV06 from '@account-abstraction/contracts/artifacts/EntryPoint.json';
+import EntryPointV07 from '@account-abstraction/contracts-v07/artifacts/EntryPoint.json';
+
+// Canonical EntryPoint builds, by ENTRY_POINT_VERSION
+const ENTRY_POINT_ARTIFACTS: Record<string, { abi: unknown[]; bytecode: string }> = {
+  '0.6': EntryPointV06,
+  '0.7': EntryPointV07,
+};
 
 async function main() {
   const [deployer] = await ethers.getSigners();
@@ -18,13 +27,30 @@ async function main() {
   const tokenAddress = await token.getAddress();
   console.log('TalismanToken deployed to:', tokenAddress);
 
-  // ============ 2. Deploy Mock EntryPoint (for testing) ============
-  console.log('\n2. Deploying MockEntryPoint...');
-  const MockEntryPoint = await ethers.getContractFactory('MockEntryPoint');
-  const entryPoint = await MockEntryPoint.deploy();
-  await entryPoint.waitForDeployment();
-  const entryPointAddress = await entryPoint.getAddress();
-  console.log('MockEntryPoint deployed to:', entryPointAddress);
+  // ============ 2. EntryPoint ============
+  // ENTRY_POINT_VERSION: mock (default, skips validation), 0.6 or 0.7 (canonical EntryPoint)
+  // ENTRY_POINT_ADDRESS: use an existing EntryPoint of that version instead of deploying one
+  const entryPointVersion = process.env.ENTRY_POINT_VERSION || 'mock';
+  if (entryPointVersion !== 'mock' && !ENTRY_POINT_ARTIFACTS[entryPointVersion]) {
+    throw new Error(`Unknown ENTRY_POINT_VERSION: ${entryPointVersion}`);
+  }
+  let entryPointAddress = process.env.ENTRY_POINT_ADDRESS ?? '';
+  if (entryPointAddress) {
+    console.log(`\n2. Using EntryPoint ${entryPointVersion} at`, entryPointAddress);
+  } else {
+    console.log(`\n2. Deploying EntryPoint ${entryPointVersion}...`);
+    const EntryPoint =
+      entryPointVersion === 'mock'
+        ? await ethers.getContractFactory('MockEntryPoint')
+        : await ethers.getContractFactory(
+            ENTRY_POINT_ARTIFACTS[entryPointVersion].abi,
+            ENTRY_POINT_ARTIFACTS[entryPointVersion].bytecode
+          );
+    const entryPoint = await EntryPoint.deploy();
+    await entryPoint.waitForDeployment();
+    entryPointAddress = await entryPoint.getAddress();
+    console.log(`EntryPoint ${entryPointVersion} deployed to:`, entryPointAddress);
+  }
 
   // ============ 3. Deploy TalismanAccountFactory ============
   console.log('\n3. Deploying TalismanAccountFactory...');
@@ -43,6 +69,7 @@ async function main() {
   console.log('TalismanGame deployed to:', gameAddress);
 
   // ============ 5. Deploy TalismanPaymaster ============
+  // The paymaster implements both the v0.6 and v0.7 interfaces
   console.log('\n5. Deploying TalismanPaymaster...');
   const TalismanPaymaster = await ethers.getContractFactory('TalismanPaymaster');
   const paymaster = await TalismanPaymaster.deploy(entryPointAddress, deployer.address);
@@ -50,18 +77,83 @@ async function main() {
   const paymasterAddress = await paymaster.getAddress();
   console.log('TalismanPaymaster deployed to:', paymasterAddress);
 
-  // ============ 6. Configure Contracts ============
-  console.log('\n6. Configuring contracts...');
-
-  // Set game contract in paymaster
-  await paymaster.setGameContract(gameAddress);
-  console.log('Paymaster: game contract set');
+  // ============ 6. Deploy TalismanTournament ============
+  console.log('\n6. Deploying TalismanTournament...');
+  const TalismanTournament = await ethers.getContractFactory('TalismanTournament');
+  const tournament = await TalismanTournament.deploy(tokenAddress, deployer.address);
+  await tournament.waitForDeployment();
+  const tournamentAddress = await tournament.getAddress();
+  console.log('TalismanTournament deployed to:', tournamentAddress);
+
+  // ============ 7. Deploy TalismanRaceEscrow ============
+  console.log('\n7. Deploying TalismanRaceEscrow...');
+  const TalismanRaceEscrow = await ethers.getContractFactory('TalismanRaceEscrow');
+  const raceEscrow = await TalismanRaceEscrow.deploy(tokenAddress, deployer.address);
+  await raceEscrow.waitForDeployment();
+  const raceEscrowAddress = await raceEscrow.getAddress();
+  console.log('TalismanRaceEscrow deployed to:', raceEscrowAddress);
+
+  // ============ 8. Configure Contracts ============
+  console.log('\n8. Configuring contracts...');
+
+  // Register the off-chain score verifier (services/verifier), if configured
+  const scoreVerifier = process.env.SCORE_VERIFIER_ADDRESS;
+  if (scoreVerifier) {
+    await game.setScoreVerifier(scoreVerifier);
+    console.log('Game: score verifier set to', scoreVerifier);
+    await tournament.setScoreVerifier(scoreVerifier);
+    console.log('Tournament: score verifier set to', scoreVerifier);
+    await raceEscrow.setScoreVerifier(scoreVerifier);
+    console.log('Race escrow: score verifier set to', scoreVerifier);
+  }
 
   // Transfer tokens to game for reward pool
   const rewardPoolAmount = ethers.parseEther('100000'); // 100k TLSM
   await token.transfer(gameAddress, rewardPoolAmount);
   console.log('Game: reward pool funded with', ethers.formatEther(rewardPoolAmount), 'TLSM');
 
+  // Sponsor the calls players make through their smart accounts (edit later with scripts/paymaster-calls.ts)
+  const sponsoredCalls: { contract: BaseContract; functions: string[] }[] = [
+    {
+      contract: game,
+      functions: [
+        'startSession',
+        'endSession',
+        'endSessionWithProof',
+        'retryGame',
+        'claimRewards',
+        'earlyClaim',
+        'settleExpiredSession',
+        'forfeitSession',
+        'claimQuestBonus',
+      ],
+    },
+    { contract: token, functions: ['approve'] },
+    { contract: tournament, functions: ['enterTournament', 'submitScore', 'claimPrize'] },
+    {
+      contract: raceEscrow,
+      functions: ['createRace', 'acceptRace', 'submitRaceResult', 'cancelRace', 'claimExpiredRace'],
+    },
+  ];
+  for (const { contract, functions } of sponsoredCalls) {
+    const target = await contract.getAddress();
+    const selectors = functions.map((name) => contract.interface.getFunction(name)!.selector);
+    await paymaster.setAllowedCalls(target, selectors, true);
+    console.log(`Paymaster: sponsoring ${functions.join(', ')} on ${target}`);
+  }
+
+  // Let players pay gas in TLSM once sponsorship runs out
+  const gasTokensPerEth = ethers.parseEther(process.env.GAS_TOKENS_PER_ETH || '1000');
+  await paymaster.setGasToken(tokenAddress, gasTokensPerEth);
+  console.log('Paymaster: gas payable in TLSM at', ethers.formatEther(gasTokensPerEth), 'TLSM per ETH');
+
+  // Register the sponsorship voucher signer (services/sponsor), if configured
+  const sponsorSigner = process.env.SPONSOR_SIGNER_ADDRESS;
+  if (sponsorSigner) {
+    await paymaster.setVerifyingSigner(sponsorSigner);
+    console.log('Paymaster: voucher signer set to', sponsorSigner);
+  }
+
   // Deposit ETH to paymaster for gas sponsorship
   if (network.name === 'hardhat' || network.name === 'localhost') {
     const paymasterDeposit = ethers.parseEther('1');
@@ -74,10 +166,12 @@ async function main() {
   console.log('Deployment Summary');
   console.log('========================================');
   console.log('TalismanToken:', tokenAddress);
-  console.log('MockEntryPoint:', entryPointAddress);
+  console.log(`EntryPoint ${entryPointVersion}:`, entryPointAddress);
   console.log('TalismanAccountFactory:', factoryAddress);
   console.log('TalismanGame:', gameAddress);
   console.log('TalismanPaymaster:', paymasterAddress);
+  console.log('TalismanTournament:', tournamentAddress);
+  console.log('TalismanRaceEscrow:', raceEscrowAddress);
   console.log('========================================');
 
   // Wait for block confirmations on non-local networks
@@ -90,6 +184,8 @@ async function main() {
     console.log(`npx hardhat verify --network ${network.name} ${tokenAddress} ${deployer.address} ${initialSupply}`);
     console.log(`npx hardhat verify --network ${network.name} ${gameAddress} ${tokenAddress} ${deployer.address}`);
     console.log(`npx hardhat verify --network ${network.name} ${paymasterAddress} ${entryPointAddress} ${deployer.address}`);
+    console.log(`npx hardhat verify --network ${network.name} ${tournamentAddress} ${tokenAddress} ${deployer.address}`);
+    console.log(`npx hardhat verify --network ${network.name} ${raceEscrowAddress} ${tokenAddress} ${deployer.address}`);
   }
 
   console.log('\nDeployment complete!');
@@ -0,0 +1,61 @@
+import { ethers } from 'hardhat';
+
+// Contracts whose function names are shown when listing sponsored calls
+const KNOWN_CONTRACTS = ['TalismanGame', 'TalismanToken', 'TalismanTournament', 'TalismanRaceEscrow'];
+
+/**
+ * Turn "retryGame()" or "0x1234abcd" into a function selector
+ */
+function toSelector(fn: string): string {
+  if (/^0x[0-9a-fA-F]{8}$/.test(fn)) return fn.toLowerCase();
+  if (!fn.includes('(')) throw new Error(`Expected a selector or full signature like "retryGame()", got "${fn}"`);
+  return ethers.id(fn).slice(0, 10);
+}
+
+/**
+ * Name a selector using the known contract ABIs, e.g. "TalismanGame.retryGame()"
+ */
+async function describeSelector(selector: string): Promise<string> {
+  for (const name of KNOWN_CONTRACTS) {
+    const { interface: iface } = await ethers.getContractFactory(name);
+    const fragment = iface.getFunction(selector);
+    if (fragment) return `${name}.${fragment.format()}`;
+  }
+  return 'unknown';
+}
+
+async function main() {
+  const paymasterAddress = process.env.PAYMASTER_ADDRESS;
+  if (!paymasterAddress) throw new Error('Set PAYMASTER_ADDRESS');
+  const action = process.env.ACTION || 'list';
+
+  const paymaster = await ethers.getContractAt('TalismanPaymaster', paymasterAddress);
+
+  if (action === 'allow' || action === 'revoke') {
+    const target = process.env.TARGET;
+    // Split on commas outside parentheses so signatures like "approve(address,uint256)" stay whole
+    const functions = (process.env.FUNCTIONS || '')
+      .split(/,(?![^(]*\))/)
+      .map((fn) => fn.trim())
+      .filter(Boolean);
+    if (!target || functions.length === 0) throw new Error('Set TARGET and FUNCTIONS (comma-separated)');
+
+    const selectors = functions.map(toSelector);
+    const tx = await paymaster.setAllowedCalls(target, selectors, action === 'allow');
+    await tx.wait();
+    console.log(`${action === 'allow' ? 'Allowed' : 'Revoked'} ${functions.join(', ')} on ${target}`);
+  } else if (action !== 'list') {
+    throw new Error(`Unknown ACTION "${action}" (expected list, allow or revoke)`);
+  }
+
+  const calls = await paymaster.getAllowedCalls();
+  console.log(`\nSponsored calls on ${paymasterAddress} (${calls.length}):`);
+  for (const { target, selector } of calls) {
+    console.log(`  ${target}  ${selector}  ${await describeSelector(selector)}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,148 @@
+import { ethers } from 'ethers';
+import { BundlerError, RPC_ERRORS, calcPreVerificationGas, type UserOperation } from './userop';
+import type { Mempool, PendingUserOp, UserOpLog } from './mempool';
+
+// Verification gas for a deployed account's validateUserOp (plus a paymaster's, when used)
+const VERIFICATION_GAS = 150000n;
+// Extra verification gas when initCode deploys the account
+const ACCOUNT_CREATION_GAS = 300000n;
+
+export interface GasEstimate {
+  preVerificationGas: bigint;
+  verificationGasLimit: bigint;
+  callGasLimit: bigint;
+}
+
+export interface BundleResult {
+  transactionHash?: string;
+  included: PendingUserOp[];
+  dropped: { userOpHash: string; reason: string }[];
+}
+
+/**
+ * Best-effort revert reason from an ethers call error, including the EntryPoint's FailedOp
+ */
+export function revertReason(err: unknown): string {
+  const error = err as { revert?: { name: string; args: ethers.Result }; reason?: string; shortMessage?: string };
+  if (error.revert?.name === 'FailedOp') return String(error.revert.args[1]);
+  return error.reason ?? error.shortMessage ?? (err instanceof Error ? err.message : 'execution reverted');
+}
+
+/**
+ * Run an operation through handleOps without sending it; throws if the EntryPoint would revert
+ */
+export async function simulateUserOp(entryPoint: ethers.Contract, userOp: UserOperation, beneficiary: string) {
+  try {
+    await entryPoint.handleOps.staticCall([userOp], beneficiary);
+  } catch (err) {
+    throw new BundlerError(`UserOperation reverted: ${revertReason(err)}`, RPC_ERRORS.rejected);
+  }
+}
+
+/**
+ * Estimate an operation's gas fields. callGasLimit comes from simulating the
+ * account call as the EntryPoint; preVerificationGas from its calldata size.
+ */
+export async function estimateUserOpGas(entryPoint: ethers.Contract, userOp: UserOperation): Promise<GasEstimate> {
+  const provider = entryPoint.runner?.provider;
+  if (!provider) throw new Error('EntryPoint contract has no provider');
+
+  let callGasLimit = 0n;
+  if (userOp.callData !== '0x') {
+    try {
+      callGasLimit = await provider.estimateGas({
+        from: await entryPoint.getAddress(),
+        to: userOp.sender,
+        data: userOp.callData,
+      });
+    } catch (err) {
+      throw new BundlerError(`Call reverted: ${revertReason(err)}`, RPC_ERRORS.executionReverted);
+    }
+  }
+
+  return {
+    preVerificationGas: calcPreVerificationGas(userOp),
+    verificationGasLimit: VERIFICATION_GAS + (userOp.initCode === '0x' ? 0n : ACCOUNT_CREATION_GAS),
+    callGasLimit,
+  };
+}
+
+/**
+ * Send one handleOps transaction for a bundle and record each operation's receipt.
+ * Operations that no longer simulate (e.g. state changed since they were accepted)
+ * are dropped instead of reverting the whole bundle.
+ */
+export async function sendBundle(
+  entryPoint: ethers.Contract,
+  mempool: Mempool,
+  bundle: readonly PendingUserOp[],
+  beneficiary: string
+): Promise<BundleResult> {
+  const included: PendingUserOp[] = [];
+  const dropped: BundleResult['dropped'] = [];
+
+  for (const entry of bundle) {
+    try {
+      await simulateUserOp(entryPoint, entry.userOp, beneficiary);
+      included.push(entry);
+    } catch (err) {
+      dropped.push({ userOpHash: entry.userOpHash, reason: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  let transactionHash: string | undefined;
+  if (included.length > 0) {
+    try {
+      const tx = await entryPoint.handleOps(
+        included.map(({ userOp }) => userOp),
+        beneficiary
+      );
+      const receipt = await tx.wait();
+      transactionHash = receipt.hash;
+      recordReceipts(entryPoint, mempool, receipt);
+    } catch (err) {
+      const reason = `Bundle reverted: ${revertReason(err)}`;
+      dropped.push(...included.map(({ userOpHash }) => ({ userOpHash, reason })));
+      included.length = 0;
+    }
+  }
+
+  for (const { userOpHash, reason } of dropped) mempool.dropped.set(userOpHash, reason);
+  return { transactionHash, included, dropped };
+}
+
+/**
+ * Store a receipt per UserOperationEvent. The EntryPoint emits the event after
+ * running each operation, so an operation's logs are those since the previous event.
+ */
+function recordReceipts(entryPoint: ethers.Contract, mempool: Mempool, receipt: ethers.TransactionReceipt) {
+  const entryPointAddress = String(entryPoint.target).toLowerCase();
+  let logs: UserOpLog[] = [];
+
+  for (const log of receipt.logs) {
+    const parsed =
+      log.address.toLowerCase() === entryPointAddress ? entryPoint.interface.parseLog(log) : null;
+
+    if (parsed?.name !== 'UserOperationEvent') {
+      logs.push({ address: log.address, topics: log.topics, data: log.data, logIndex: log.index });
+      continue;
+    }
+
+    const { userOpHash, sender, paymaster, nonce, success, actualGasCost, actualGasUsed } = parsed.args;
+    mempool.receipts.set(userOpHash, {
+      userOpHash,
+      entryPoint: log.address,
+      sender,
+      nonce,
+      paymaster,
+      actualGasCost,
+      actualGasUsed,
+      success,
+      logs,
+      transactionHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+      blockHash: receipt.blockHash,
+    });
+    logs = [];
+  }
+}
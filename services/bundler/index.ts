@@ -0,0 +1,13 @@
+export {
+  BUNDLER_ENTRY_POINT_ABI,
+  RPC_ERRORS,
+  BundlerError,
+  parseRpcUserOp,
+  toRpcUserOp,
+  calcPreVerificationGas,
+} from './userop';
+export type { UserOperation, RpcUserOperation } from './userop';
+export { createMempool, addUserOp, takeBundle } from './mempool';
+export type { Mempool, PendingUserOp, UserOpLog, UserOpReceipt } from './mempool';
+export { revertReason, simulateUserOp, estimateUserOpGas, sendBundle } from './bundler';
+export type { GasEstimate, BundleResult } from './bundler';
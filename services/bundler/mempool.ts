@@ -0,0 +1,79 @@
+import { BundlerError, RPC_ERRORS, type UserOperation } from './userop';
+
+export interface PendingUserOp {
+  userOpHash: string;
+  userOp: UserOperation;
+  // Unix ms when the bundler accepted the operation
+  receivedAt: number;
+}
+
+// A log emitted while executing one UserOperation
+export interface UserOpLog {
+  address: string;
+  topics: readonly string[];
+  data: string;
+  logIndex: number;
+}
+
+// What eth_getUserOperationReceipt returns once the operation is mined
+export interface UserOpReceipt {
+  userOpHash: string;
+  entryPoint: string;
+  sender: string;
+  nonce: bigint;
+  paymaster: string;
+  actualGasCost: bigint;
+  actualGasUsed: bigint;
+  success: boolean;
+  logs: UserOpLog[];
+  transactionHash: string;
+  blockNumber: number;
+  blockHash: string;
+}
+
+/**
+ * Operations waiting for a bundle, in arrival order, receipts of bundled ones
+ * and why accepted operations were later dropped from a bundle
+ */
+export interface Mempool {
+  pending: Map<string, PendingUserOp>;
+  receipts: Map<string, UserOpReceipt>;
+  dropped: Map<string, string>;
+}
+
+export function createMempool(): Mempool {
+  return { pending: new Map(), receipts: new Map(), dropped: new Map() };
+}
+
+/**
+ * Queue an operation. A sender's next operation waits until its previous one is bundled,
+ * since nonces must be used in order.
+ */
+export function addUserOp(mempool: Mempool, entry: PendingUserOp) {
+  if (mempool.pending.has(entry.userOpHash) || mempool.receipts.has(entry.userOpHash)) {
+    throw new BundlerError('UserOperation already known', RPC_ERRORS.rejected);
+  }
+  for (const { userOp } of mempool.pending.values()) {
+    if (userOp.sender === entry.userOp.sender && userOp.nonce === entry.userOp.nonce) {
+      throw new BundlerError('A UserOperation with this sender and nonce is already pending', RPC_ERRORS.rejected);
+    }
+  }
+  mempool.pending.set(entry.userOpHash, entry);
+}
+
+/**
+ * Take the oldest pending operations for the next bundle, at most one per sender
+ */
+export function takeBundle(mempool: Mempool, maxSize: number): PendingUserOp[] {
+  const bundle: PendingUserOp[] = [];
+  const senders = new Set<string>();
+
+  for (const entry of mempool.pending.values()) {
+    if (bundle.length >= maxSize) break;
+    if (senders.has(entry.userOp.sender)) continue;
+    senders.add(entry.userOp.sender);
+    bundle.push(entry);
+  }
+  for (const { userOpHash } of bundle) mempool.pending.delete(userOpHash);
+  return bundle;
+}
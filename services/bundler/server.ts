@@ -0,0 +1,211 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { ethers } from 'ethers';
+import { BUNDLER_ENTRY_POINT_ABI, BundlerError, RPC_ERRORS, parseRpcUserOp } from './userop';
+import { createMempool, addUserOp, takeBundle, type UserOpReceipt } from './mempool';
+import { simulateUserOp, estimateUserOpGas, sendBundle } from './bundler';
+
+/**
+ * Local ERC-4337 bundler
+ *
+ * Speaks the bundler JSON-RPC API on POST /:
+ *   eth_sendUserOperation(userOp, entryPoint)         - simulate and queue, returns the userOpHash
+ *   eth_estimateUserOperationGas(userOp, entryPoint)  - preVerificationGas, verificationGasLimit, callGasLimit
+ *   eth_getUserOperationReceipt(userOpHash)           - null until bundled
+ *   eth_supportedEntryPoints(), eth_chainId()
+ *
+ * Every BUNDLE_INTERVAL it sends the queued operations in one handleOps
+ * transaction, paying the gas itself and collecting the refund as beneficiary.
+ *
+ * Environment:
+ *   BUNDLER_PRIVATE_KEY - Account sending handleOps transactions
+ *   ENTRY_POINT_ADDRESS - EntryPoint address
+ *   BENEFICIARY         - Receives the EntryPoint's gas refunds (default: the bundler account)
+ *   RPC_URL             - JSON-RPC endpoint (default: http://127.0.0.1:8545)
+ *   PORT                - HTTP port (default: 4337)
+ *   BUNDLE_INTERVAL     - Milliseconds between bundles (default: 2000)
+ *   MAX_BUNDLE_SIZE     - Operations per bundle (default: 10)
+ */
+
+const PRIVATE_KEY = process.env.BUNDLER_PRIVATE_KEY ?? '';
+const ENTRY_POINT_ADDRESS = process.env.ENTRY_POINT_ADDRESS ?? '';
+const RPC_URL = process.env.RPC_URL ?? 'http://127.0.0.1:8545';
+const PORT = Number(process.env.PORT ?? 4337);
+const BUNDLE_INTERVAL = Number(process.env.BUNDLE_INTERVAL ?? 2000);
+const MAX_BUNDLE_SIZE = Number(process.env.MAX_BUNDLE_SIZE ?? 10);
+
+const MAX_BODY_BYTES = 256 * 1024;
+
+interface RpcRequest {
+  id?: unknown;
+  method?: unknown;
+  params?: unknown;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new BundlerError('Request too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, data: unknown) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(data === null ? undefined : JSON.stringify(data));
+}
+
+function formatReceipt(receipt: UserOpReceipt) {
+  return {
+    userOpHash: receipt.userOpHash,
+    entryPoint: receipt.entryPoint,
+    sender: receipt.sender,
+    nonce: ethers.toQuantity(receipt.nonce),
+    paymaster: receipt.paymaster,
+    actualGasCost: ethers.toQuantity(receipt.actualGasCost),
+    actualGasUsed: ethers.toQuantity(receipt.actualGasUsed),
+    success: receipt.success,
+    logs: receipt.logs.map((log) => ({ ...log, logIndex: ethers.toQuantity(log.logIndex) })),
+    receipt: {
+      transactionHash: receipt.transactionHash,
+      blockNumber: ethers.toQuantity(receipt.blockNumber),
+      blockHash: receipt.blockHash,
+    },
+  };
+}
+
+async function main() {
+  if (!PRIVATE_KEY || !ENTRY_POINT_ADDRESS) {
+    throw new Error('BUNDLER_PRIVATE_KEY and ENTRY_POINT_ADDRESS must be set');
+  }
+
+  const provider = new ethers.JsonRpcProvider(RPC_URL);
+  const signer = new ethers.Wallet(PRIVATE_KEY, provider);
+  const entryPoint = new ethers.Contract(ENTRY_POINT_ADDRESS, BUNDLER_ENTRY_POINT_ABI, signer);
+  const entryPointAddress = ethers.getAddress(ENTRY_POINT_ADDRESS);
+  const beneficiary = process.env.BENEFICIARY ?? signer.address;
+  const { chainId } = await provider.getNetwork();
+  const mempool = createMempool();
+
+  function checkEntryPoint(value: unknown) {
+    if (typeof value !== 'string' || !ethers.isAddress(value) || ethers.getAddress(value) !== entryPointAddress) {
+      throw new BundlerError(`Unsupported EntryPoint, expected ${entryPointAddress}`);
+    }
+  }
+
+  const methods: Record<string, (params: unknown[]) => Promise<unknown>> = {
+    eth_chainId: async () => ethers.toQuantity(chainId),
+
+    eth_supportedEntryPoints: async () => [entryPointAddress],
+
+    eth_sendUserOperation: async ([value, entryPointParam]) => {
+      checkEntryPoint(entryPointParam);
+      const userOp = parseRpcUserOp(value);
+      await simulateUserOp(entryPoint, userOp, beneficiary);
+
+      const userOpHash: string = await entryPoint.getUserOpHash(userOp);
+      addUserOp(mempool, { userOpHash, userOp, receivedAt: Date.now() });
+      console.log('Accepted', userOpHash, 'from', userOp.sender);
+      return userOpHash;
+    },
+
+    eth_estimateUserOperationGas: async ([value, entryPointParam]) => {
+      checkEntryPoint(entryPointParam);
+      const estimate = await estimateUserOpGas(entryPoint, parseRpcUserOp(value, { requireGas: false }));
+      return {
+        preVerificationGas: ethers.toQuantity(estimate.preVerificationGas),
+        verificationGasLimit: ethers.toQuantity(estimate.verificationGasLimit),
+        callGasLimit: ethers.toQuantity(estimate.callGasLimit),
+      };
+    },
+
+    eth_getUserOperationReceipt: async ([userOpHash]) => {
+      if (typeof userOpHash !== 'string' || !ethers.isHexString(userOpHash, 32)) {
+        throw new BundlerError('Invalid userOpHash');
+      }
+      const dropped = mempool.dropped.get(userOpHash);
+      if (dropped) throw new BundlerError(dropped, RPC_ERRORS.rejected);
+
+      const receipt = mempool.receipts.get(userOpHash);
+      return receipt ? formatReceipt(receipt) : null;
+    },
+  };
+
+  async function handleRpc(request: RpcRequest) {
+    const method = typeof request.method === 'string' ? methods[request.method] : undefined;
+    if (!method) {
+      return { jsonrpc: '2.0', id: request.id ?? null, error: { code: RPC_ERRORS.methodNotFound, message: 'Method not found' } };
+    }
+
+    try {
+      const params = Array.isArray(request.params) ? request.params : [];
+      return { jsonrpc: '2.0', id: request.id ?? null, result: await method(params) };
+    } catch (err) {
+      if (err instanceof BundlerError) {
+        return { jsonrpc: '2.0', id: request.id ?? null, error: { code: err.code, message: err.message } };
+      }
+      console.error(err);
+      return { jsonrpc: '2.0', id: request.id ?? null, error: { code: RPC_ERRORS.internal, message: 'Internal error' } };
+    }
+  }
+
+  const server = createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') return sendJson(res, 204, null);
+    if (req.method === 'GET' && req.url === '/health') {
+      return sendJson(res, 200, { ok: true, bundler: signer.address, pending: mempool.pending.size });
+    }
+    if (req.method !== 'POST' || req.url !== '/') {
+      return sendJson(res, 404, { error: 'Not found' });
+    }
+
+    let request: RpcRequest;
+    try {
+      request = JSON.parse(await readBody(req));
+    } catch {
+      return sendJson(res, 200, { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+    }
+    sendJson(res, 200, await handleRpc(request));
+  });
+
+  // One bundle at a time, so a slow transaction never overlaps the next round.
+  // The next round is scheduled even when this one fails, so one error never stops bundling.
+  async function bundleRound() {
+    try {
+      const bundle = takeBundle(mempool, MAX_BUNDLE_SIZE);
+      if (bundle.length > 0) {
+        const result = await sendBundle(entryPoint, mempool, bundle, beneficiary);
+        if (result.transactionHash) {
+          console.log(`Bundled ${result.included.length} operation(s) in`, result.transactionHash);
+        }
+        for (const { userOpHash, reason } of result.dropped) console.error('Dropped', userOpHash + ':', reason);
+      }
+    } catch (error) {
+      console.error('Bundle failed:', error);
+    } finally {
+      setTimeout(bundleRound, BUNDLE_INTERVAL);
+    }
+  }
+
+  server.listen(PORT, () => {
+    console.log('Bundler listening on port', PORT);
+    console.log('Bundler account:', signer.address);
+    console.log('EntryPoint:', entryPointAddress);
+    console.log('Beneficiary:', beneficiary);
+  });
+  await bundleRound();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,130 @@
+import { ethers } from 'ethers';
+import { PRE_VERIFICATION, preVerificationGasFor } from '../../shared/userop';
+
+// JSON-RPC error codes from ERC-4337
+export const RPC_ERRORS = {
+  invalidParams: -32602,
+  rejected: -32500,
+  executionReverted: -32521,
+  internal: -32603,
+  methodNotFound: -32601,
+} as const;
+
+export class BundlerError extends Error {
+  readonly code: number;
+
+  constructor(message: string, code: number = RPC_ERRORS.invalidParams) {
+    super(message);
+    this.code = code;
+  }
+}
+
+// ERC-4337 v0.6 UserOperation
+export interface UserOperation {
+  sender: string;
+  nonce: bigint;
+  initCode: string;
+  callData: string;
+  callGasLimit: bigint;
+  verificationGasLimit: bigint;
+  preVerificationGas: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  paymasterAndData: string;
+  signature: string;
+}
+
+// A UserOperation as sent over JSON-RPC: numbers as hex strings
+export type RpcUserOperation = { [K in keyof UserOperation]: string };
+
+const USER_OP_TUPLE =
+  'tuple(address sender, uint256 nonce, bytes initCode, bytes callData, uint256 callGasLimit, uint256 verificationGasLimit, uint256 preVerificationGas, uint256 maxFeePerGas, uint256 maxPriorityFeePerGas, bytes paymasterAndData, bytes signature)';
+
+/**
+ * EntryPoint functions and events the bundler uses
+ */
+export const BUNDLER_ENTRY_POINT_ABI = [
+  `function handleOps(${USER_OP_TUPLE}[] ops, address beneficiary)`,
+  `function getUserOpHash(${USER_OP_TUPLE} userOp) view returns (bytes32)`,
+  'function getNonce(address sender, uint192 key) view returns (uint256)',
+  'error FailedOp(uint256 opIndex, string reason)',
+  'event UserOperationEvent(bytes32 indexed userOpHash, address indexed sender, address indexed paymaster, uint256 nonce, bool success, uint256 actualGasCost, uint256 actualGasUsed)',
+];
+
+const BYTES_FIELDS = ['initCode', 'callData', 'paymasterAndData', 'signature'] as const;
+const NUMERIC_FIELDS = [
+  'nonce',
+  'callGasLimit',
+  'verificationGasLimit',
+  'preVerificationGas',
+  'maxFeePerGas',
+  'maxPriorityFeePerGas',
+] as const;
+
+/**
+ * Read a UserOperation from JSON-RPC params.
+ * Gas fields may be missing when estimating, so they default to zero.
+ */
+export function parseRpcUserOp(value: unknown, { requireGas = true } = {}): UserOperation {
+  if (!value || typeof value !== 'object') throw new BundlerError('Missing UserOperation');
+  const fields = value as Record<string, unknown>;
+
+  if (typeof fields.sender !== 'string' || !ethers.isAddress(fields.sender)) {
+    throw new BundlerError('Invalid UserOperation.sender');
+  }
+
+  const bytes = {} as Record<(typeof BYTES_FIELDS)[number], string>;
+  for (const field of BYTES_FIELDS) {
+    const raw = fields[field] ?? '0x';
+    if (typeof raw !== 'string' || !ethers.isHexString(raw)) {
+      throw new BundlerError(`Invalid UserOperation.${field}`);
+    }
+    bytes[field] = raw;
+  }
+
+  const numbers = {} as Record<(typeof NUMERIC_FIELDS)[number], bigint>;
+  for (const field of NUMERIC_FIELDS) {
+    const raw = fields[field] ?? (requireGas || field === 'nonce' ? undefined : '0x0');
+    try {
+      numbers[field] = BigInt(raw as string);
+    } catch {
+      throw new BundlerError(`Invalid UserOperation.${field}`);
+    }
+    if (numbers[field] < 0n) throw new BundlerError(`Invalid UserOperation.${field}`);
+  }
+
+  return { sender: ethers.getAddress(fields.sender), ...bytes, ...numbers };
+}
+
+export function toRpcUserOp(userOp: UserOperation): RpcUserOperation {
+  return {
+    sender: userOp.sender,
+    nonce: ethers.toQuantity(userOp.nonce),
+    initCode: userOp.initCode,
+    callData: userOp.callData,
+    callGasLimit: ethers.toQuantity(userOp.callGasLimit),
+    verificationGasLimit: ethers.toQuantity(userOp.verificationGasLimit),
+    preVerificationGas: ethers.toQuantity(userOp.preVerificationGas),
+    maxFeePerGas: ethers.toQuantity(userOp.maxFeePerGas),
+    maxPriorityFeePerGas: ethers.toQuantity(userOp.maxPriorityFeePerGas),
+    paymasterAndData: userOp.paymasterAndData,
+    signature: userOp.signature,
+  };
+}
+
+/**
+ * Gas the bundler spends outside the EntryPoint's metering: the transaction's
+ * calldata for this UserOperation plus its share of the bundle overhead
+ */
+export function calcPreVerificationGas(userOp: UserOperation): bigint {
+  // Price a full-size signature so estimating with a placeholder doesn't underprice the real one
+  const signature =
+    ethers.dataLength(userOp.signature) < PRE_VERIFICATION.sigSize
+      ? ethers.hexlify(new Uint8Array(PRE_VERIFICATION.sigSize).fill(1))
+      : userOp.signature;
+  const packed = ethers.getBytes(
+    ethers.AbiCoder.defaultAbiCoder().encode([USER_OP_TUPLE], [{ ...userOp, preVerificationGas: 21000n, signature }])
+  );
+
+  return preVerificationGasFor(packed);
+}
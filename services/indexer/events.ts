@@ -0,0 +1,110 @@
+import { ethers, type EventLog } from 'ethers';
+
+/**
+ * TalismanGame events the indexer follows
+ */
+export const INDEXER_GAME_ABI = [
+  'event SessionStarted(address indexed player, uint256 startTime, uint8 gameMode)',
+  'event SessionEnded(address indexed player, uint256 duration, uint256 reward, uint256 talismansCollected, uint256 multiplier)',
+  'event GameRetried(address indexed player, uint256 attemptNumber, uint256 cost)',
+  'event RewardsClaimed(address indexed player, uint256 amount)',
+];
+
+interface GameEventBase {
+  player: string;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  // Block timestamp, in seconds
+  timestamp: number;
+}
+
+export interface SessionStartedEvent extends GameEventBase {
+  type: 'SessionStarted';
+  gameMode: number;
+}
+
+export interface SessionEndedEvent extends GameEventBase {
+  type: 'SessionEnded';
+  duration: number;
+  reward: bigint;
+  talismansCollected: number;
+  multiplier: number;
+}
+
+export interface GameRetriedEvent extends GameEventBase {
+  type: 'GameRetried';
+  attemptNumber: number;
+  cost: bigint;
+}
+
+export interface RewardsClaimedEvent extends GameEventBase {
+  type: 'RewardsClaimed';
+  amount: bigint;
+}
+
+export type GameEvent = SessionStartedEvent | SessionEndedEvent | GameRetriedEvent | RewardsClaimedEvent;
+
+export type GameEventType = GameEvent['type'];
+
+export const GAME_EVENT_TYPES: readonly GameEventType[] = [
+  'SessionStarted',
+  'SessionEnded',
+  'GameRetried',
+  'RewardsClaimed',
+];
+
+function toGameEvent(log: EventLog, timestamp: number): GameEvent {
+  const base = {
+    player: ethers.getAddress(log.args.player),
+    blockNumber: log.blockNumber,
+    logIndex: log.index,
+    transactionHash: log.transactionHash,
+    timestamp,
+  };
+  const { args } = log;
+
+  switch (log.eventName as GameEventType) {
+    case 'SessionStarted':
+      return { ...base, type: 'SessionStarted', gameMode: Number(args.gameMode) };
+    case 'SessionEnded':
+      return {
+        ...base,
+        type: 'SessionEnded',
+        duration: Number(args.duration),
+        reward: args.reward,
+        talismansCollected: Number(args.talismansCollected),
+        multiplier: Number(args.multiplier),
+      };
+    case 'GameRetried':
+      return { ...base, type: 'GameRetried', attemptNumber: Number(args.attemptNumber), cost: args.cost };
+    case 'RewardsClaimed':
+      return { ...base, type: 'RewardsClaimed', amount: args.amount };
+  }
+}
+
+/**
+ * Every followed event in the block range, in chain order, stamped with its block time
+ */
+export async function fetchGameEvents(
+  game: ethers.Contract,
+  fromBlock: number,
+  toBlock: number
+): Promise<GameEvent[]> {
+  const logs = (
+    await Promise.all(GAME_EVENT_TYPES.map((type) => game.queryFilter(game.filters[type](), fromBlock, toBlock)))
+  )
+    .flat()
+    .filter((log): log is EventLog => 'args' in log)
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+  // One block lookup per block that emitted something
+  const timestamps = new Map<number, number>();
+  for (const blockNumber of new Set(logs.map((log) => log.blockNumber))) {
+    const block = await game.runner!.provider!.getBlock(blockNumber);
+    if (!block) throw new Error(`Block ${blockNumber} not found`);
+    timestamps.set(blockNumber, block.timestamp);
+  }
+
+  return logs.map((log) => toGameEvent(log, timestamps.get(log.blockNumber)!));
+}
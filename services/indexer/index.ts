@@ -0,0 +1,15 @@
+export { INDEXER_GAME_ABI, GAME_EVENT_TYPES, fetchGameEvents } from './events';
+export type {
+  GameEvent,
+  GameEventType,
+  SessionStartedEvent,
+  SessionEndedEvent,
+  GameRetriedEvent,
+  RewardsClaimedEvent,
+} from './events';
+export { openIndexerDatabase, getLastIndexedBlock, saveEvents } from './store';
+export type { IndexerDatabase } from './store';
+export { syncGameEvents } from './sync';
+export type { SyncOptions } from './sync';
+export { LEADERBOARD_PERIODS, LEADERBOARD_SORTS, periodStart, getLeaderboard } from './leaderboard';
+export type { LeaderboardPeriod, LeaderboardSort, LeaderboardEntry, LeaderboardQuery } from './leaderboard';
@@ -0,0 +1,121 @@
+import type { IndexerDatabase } from './store';
+
+export type LeaderboardPeriod = 'daily' | 'weekly' | 'all';
+export type LeaderboardSort = 'reward' | 'talismans' | 'sessions';
+
+export const LEADERBOARD_PERIODS: readonly LeaderboardPeriod[] = ['daily', 'weekly', 'all'];
+export const LEADERBOARD_SORTS: readonly LeaderboardSort[] = ['reward', 'talismans', 'sessions'];
+
+const SECONDS_PER_DAY = 86400;
+
+// 1970-01-01 was a Thursday; weeks start on Monday
+const EPOCH_WEEKDAY_OFFSET = 3;
+
+export interface LeaderboardEntry {
+  rank: number;
+  player: string;
+  // Ended sessions in the period
+  sessions: number;
+  retries: number;
+  talismans: number;
+  // Seconds played across ended sessions
+  playTime: number;
+  reward: bigint;
+  bestReward: bigint;
+  claimed: bigint;
+}
+
+export interface LeaderboardQuery {
+  period: LeaderboardPeriod;
+  sort?: LeaderboardSort;
+  // Current time in seconds; periods are UTC days and Monday-based UTC weeks
+  now: number;
+  limit?: number;
+}
+
+/**
+ * First second of the period containing `now`
+ */
+export function periodStart(period: LeaderboardPeriod, now: number): number {
+  const day = Math.floor(now / SECONDS_PER_DAY);
+  switch (period) {
+    case 'daily':
+      return day * SECONDS_PER_DAY;
+    case 'weekly':
+      return (day - ((day + EPOCH_WEEKDAY_OFFSET) % 7)) * SECONDS_PER_DAY;
+    case 'all':
+      return 0;
+  }
+}
+
+interface EventRow {
+  type: string;
+  player: string;
+  duration: number | null;
+  reward: string | null;
+  talismans: number | null;
+  amount: string | null;
+}
+
+function compareEntries(sort: LeaderboardSort) {
+  return (a: LeaderboardEntry, b: LeaderboardEntry): number => {
+    const keys: LeaderboardSort[] = [sort, ...LEADERBOARD_SORTS.filter((key) => key !== sort)];
+    for (const key of keys) {
+      if (a[key] !== b[key]) return a[key] > b[key] ? -1 : 1;
+    }
+    return a.player < b.player ? -1 : 1;
+  };
+}
+
+/**
+ * Players ranked over a period. Only players who ended a session in the
+ * period are ranked; uint256 amounts are summed as bigints, not in SQL.
+ */
+export function getLeaderboard(db: IndexerDatabase, query: LeaderboardQuery): LeaderboardEntry[] {
+  const { period, sort = 'reward', now, limit = 50 } = query;
+
+  const rows = db
+    .prepare(
+      `SELECT type, player, duration, reward, talismans, amount FROM events
+       WHERE timestamp >= ? AND timestamp <= ? AND type IN ('SessionEnded', 'GameRetried', 'RewardsClaimed')`
+    )
+    .all(periodStart(period, now), now) as EventRow[];
+
+  const entries = new Map<string, LeaderboardEntry>();
+  for (const row of rows) {
+    let entry = entries.get(row.player);
+    if (!entry) {
+      entry = {
+        rank: 0,
+        player: row.player,
+        sessions: 0,
+        retries: 0,
+        talismans: 0,
+        playTime: 0,
+        reward: 0n,
+        bestReward: 0n,
+        claimed: 0n,
+      };
+      entries.set(row.player, entry);
+    }
+
+    if (row.type === 'SessionEnded') {
+      const reward = BigInt(row.reward ?? 0);
+      entry.sessions += 1;
+      entry.talismans += row.talismans ?? 0;
+      entry.playTime += row.duration ?? 0;
+      entry.reward += reward;
+      if (reward > entry.bestReward) entry.bestReward = reward;
+    } else if (row.type === 'GameRetried') {
+      entry.retries += 1;
+    } else {
+      entry.claimed += BigInt(row.amount ?? 0);
+    }
+  }
+
+  return [...entries.values()]
+    .filter((entry) => entry.sessions > 0)
+    .sort(compareEntries(sort))
+    .slice(0, limit)
+    .map((entry, i) => ({ ...entry, rank: i + 1 }));
+}
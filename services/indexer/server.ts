@@ -0,0 +1,127 @@
+import { createServer, type ServerResponse } from 'http';
+import { ethers } from 'ethers';
+import { INDEXER_GAME_ABI } from './events';
+import { openIndexerDatabase, getLastIndexedBlock } from './store';
+import { syncGameEvents } from './sync';
+import {
+  LEADERBOARD_PERIODS,
+  LEADERBOARD_SORTS,
+  getLeaderboard,
+  periodStart,
+  type LeaderboardPeriod,
+  type LeaderboardSort,
+} from './leaderboard';
+
+/**
+ * Leaderboard indexer
+ *
+ * Follows SessionStarted, SessionEnded, GameRetried and RewardsClaimed into
+ * SQLite and serves leaderboards over HTTP.
+ *
+ * GET /leaderboard?period=daily|weekly|all&sort=reward|talismans|sessions&limit=50
+ *
+ * Environment:
+ *   GAME_ADDRESS      - TalismanGame address
+ *   RPC_URL           - JSON-RPC endpoint (default: http://127.0.0.1:8545)
+ *   INDEXER_DB        - SQLite file (default: indexer.db)
+ *   START_BLOCK       - First block to index on an empty database (default: 0)
+ *   CONFIRMATIONS     - Blocks to stay behind the head (default: 0)
+ *   PORT              - HTTP port (default: 8788)
+ *   INDEXER_INTERVAL  - Seconds between syncs (default: 5)
+ */
+
+const GAME_ADDRESS = process.env.GAME_ADDRESS ?? '';
+const RPC_URL = process.env.RPC_URL ?? 'http://127.0.0.1:8545';
+const INDEXER_DB = process.env.INDEXER_DB ?? 'indexer.db';
+const START_BLOCK = Number(process.env.START_BLOCK ?? 0);
+const CONFIRMATIONS = Number(process.env.CONFIRMATIONS ?? 0);
+const PORT = Number(process.env.PORT ?? 8788);
+const INDEXER_INTERVAL = Number(process.env.INDEXER_INTERVAL ?? 5);
+
+const MAX_LIMIT = 100;
+
+function sendJson(res: ServerResponse, status: number, data: unknown) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.end(JSON.stringify(data, (_, value) => (typeof value === 'bigint' ? value.toString() : value)));
+}
+
+async function main() {
+  if (!GAME_ADDRESS) {
+    throw new Error('GAME_ADDRESS must be set');
+  }
+
+  const provider = new ethers.JsonRpcProvider(RPC_URL);
+  const game = new ethers.Contract(GAME_ADDRESS, INDEXER_GAME_ABI, provider);
+  const db = openIndexerDatabase(INDEXER_DB);
+
+  // Chain time of the last indexed block, so periods follow the chain (e.g. a Hardhat node's time travel)
+  let chainNow = Math.floor(Date.now() / 1000);
+
+  async function runSync() {
+    const toBlock = (await provider.getBlockNumber()) - CONFIRMATIONS;
+    if (toBlock < 0) return;
+
+    const stored = await syncGameEvents(db, game, { startBlock: START_BLOCK, toBlock });
+    if (stored > 0) console.log('Indexed', stored, 'events up to block', toBlock);
+
+    const block = await provider.getBlock(toBlock);
+    if (block) chainNow = block.timestamp;
+  }
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (req.method === 'GET' && url.pathname === '/health') {
+      return sendJson(res, 200, { ok: true, lastBlock: getLastIndexedBlock(db) });
+    }
+    if (req.method !== 'GET' || url.pathname !== '/leaderboard') {
+      return sendJson(res, 404, { error: 'Not found' });
+    }
+
+    const period = (url.searchParams.get('period') ?? 'all') as LeaderboardPeriod;
+    const sort = (url.searchParams.get('sort') ?? 'reward') as LeaderboardSort;
+    const limit = Number(url.searchParams.get('limit') ?? 50);
+    if (!LEADERBOARD_PERIODS.includes(period)) return sendJson(res, 400, { error: 'Invalid period' });
+    if (!LEADERBOARD_SORTS.includes(sort)) return sendJson(res, 400, { error: 'Invalid sort' });
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return sendJson(res, 400, { error: 'Invalid limit' });
+    }
+
+    try {
+      sendJson(res, 200, {
+        period,
+        sort,
+        from: periodStart(period, chainNow),
+        to: chainNow,
+        lastBlock: getLastIndexedBlock(db),
+        entries: getLeaderboard(db, { period, sort, now: chainNow, limit }),
+      });
+    } catch (err) {
+      console.error(err);
+      sendJson(res, 500, { error: 'Leaderboard query failed' });
+    }
+  });
+
+  await runSync();
+  server.listen(PORT, () => {
+    console.log('Leaderboard indexer listening on port', PORT);
+    console.log('Game:', GAME_ADDRESS);
+    console.log('Database:', INDEXER_DB);
+  });
+
+  for (;;) {
+    await new Promise((resolve) => setTimeout(resolve, INDEXER_INTERVAL * 1000));
+    try {
+      await runSync();
+    } catch (err) {
+      console.error(err);
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
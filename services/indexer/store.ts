@@ -0,0 +1,97 @@
+import Database from 'better-sqlite3';
+import type { GameEvent } from './events';
+
+export type IndexerDatabase = Database.Database;
+
+// One row per event; type-specific values live in their own nullable columns.
+// uint256 amounts are stored as decimal text, since SQLite integers are 64-bit.
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    type TEXT NOT NULL,
+    player TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    game_mode INTEGER,
+    duration INTEGER,
+    reward TEXT,
+    talismans INTEGER,
+    multiplier INTEGER,
+    attempt_number INTEGER,
+    amount TEXT,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_type_timestamp ON events (type, timestamp);
+  CREATE INDEX IF NOT EXISTS events_player ON events (player);
+
+  CREATE TABLE IF NOT EXISTS cursor (
+    id INTEGER PRIMARY KEY CHECK (id = 0),
+    last_block INTEGER NOT NULL
+  );
+`;
+
+/**
+ * Open (or create) the indexer database. Use ':memory:' for a throwaway store.
+ */
+export function openIndexerDatabase(filename: string): IndexerDatabase {
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+  return db;
+}
+
+/**
+ * Last block whose events are stored, or null before the first sync
+ */
+export function getLastIndexedBlock(db: IndexerDatabase): number | null {
+  const row = db.prepare('SELECT last_block FROM cursor WHERE id = 0').get() as
+    | { last_block: number }
+    | undefined;
+  return row ? row.last_block : null;
+}
+
+/**
+ * Store a block range's events and advance the cursor to its last block, atomically.
+ * Re-saving an event already stored is a no-op.
+ */
+export function saveEvents(db: IndexerDatabase, events: readonly GameEvent[], lastBlock: number) {
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO events (
+      block_number, log_index, transaction_hash, type, player, timestamp,
+      game_mode, duration, reward, talismans, multiplier, attempt_number, amount
+    ) VALUES (
+      @blockNumber, @logIndex, @transactionHash, @type, @player, @timestamp,
+      @gameMode, @duration, @reward, @talismans, @multiplier, @attemptNumber, @amount
+    )
+  `);
+  const setCursor = db.prepare(
+    'INSERT INTO cursor (id, last_block) VALUES (0, ?) ON CONFLICT (id) DO UPDATE SET last_block = excluded.last_block'
+  );
+
+  db.transaction(() => {
+    for (const event of events) {
+      insert.run({
+        blockNumber: event.blockNumber,
+        logIndex: event.logIndex,
+        transactionHash: event.transactionHash,
+        type: event.type,
+        player: event.player,
+        timestamp: event.timestamp,
+        gameMode: event.type === 'SessionStarted' ? event.gameMode : null,
+        duration: event.type === 'SessionEnded' ? event.duration : null,
+        reward: event.type === 'SessionEnded' ? event.reward.toString() : null,
+        talismans: event.type === 'SessionEnded' ? event.talismansCollected : null,
+        multiplier: event.type === 'SessionEnded' ? event.multiplier : null,
+        attemptNumber: event.type === 'GameRetried' ? event.attemptNumber : null,
+        amount:
+          event.type === 'GameRetried'
+            ? event.cost.toString()
+            : event.type === 'RewardsClaimed'
+              ? event.amount.toString()
+              : null,
+      });
+    }
+    setCursor.run(lastBlock);
+  })();
+}
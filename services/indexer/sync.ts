@@ -0,0 +1,35 @@
+import type { ethers } from 'ethers';
+import { fetchGameEvents } from './events';
+import { getLastIndexedBlock, saveEvents, type IndexerDatabase } from './store';
+
+export interface SyncOptions {
+  // First block to index when the database is empty
+  startBlock?: number;
+  // Last block to index, e.g. the head minus a few confirmations
+  toBlock: number;
+  // Blocks per log query, to stay under RPC range limits
+  chunkSize?: number;
+}
+
+/**
+ * Index every block after the cursor up to `toBlock`, one chunk per transaction,
+ * so an interrupted sync resumes where it stopped. Returns the number of events stored.
+ */
+export async function syncGameEvents(
+  db: IndexerDatabase,
+  game: ethers.Contract,
+  options: SyncOptions
+): Promise<number> {
+  const { startBlock = 0, toBlock, chunkSize = 5000 } = options;
+  const lastBlock = getLastIndexedBlock(db);
+  let stored = 0;
+
+  for (let from = lastBlock === null ? startBlock : lastBlock + 1; from <= toBlock; from += chunkSize) {
+    const to = Math.min(from + chunkSize - 1, toBlock);
+    const events = await fetchGameEvents(game, from, to);
+    saveEvents(db, events, to);
+    stored += events.length;
+  }
+
+  return stored;
+}
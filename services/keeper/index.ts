@@ -0,0 +1,8 @@
+export {
+  KEEPER_GAME_ABI,
+  collectPlayers,
+  findActiveSessions,
+  findExpiredSessions,
+  settleExpiredSessions,
+} from './settle';
+export type { SettlementResult } from './settle';
@@ -0,0 +1,83 @@
+import { ethers } from 'ethers';
+import { KEEPER_GAME_ABI, collectPlayers, findActiveSessions, settleExpiredSessions } from './settle';
+
+/**
+ * Session keeper
+ *
+ * Follows SessionStarted events and settles sessions that are still active
+ * after TalismanGame.sessionTimeout, so abandoned sessions release their
+ * reward reservation and vest the capped reward for the player. Players are
+ * watched from their SessionStarted event until their session is closed.
+ *
+ * Environment:
+ *   KEEPER_PRIVATE_KEY - Account paying gas for settlements
+ *   GAME_ADDRESS       - TalismanGame address
+ *   RPC_URL            - JSON-RPC endpoint (default: http://127.0.0.1:8545)
+ *   START_BLOCK        - First block to scan for sessions (default: 0)
+ *   KEEPER_INTERVAL    - Seconds between rounds (default: 60)
+ */
+
+const PRIVATE_KEY = process.env.KEEPER_PRIVATE_KEY ?? '';
+const GAME_ADDRESS = process.env.GAME_ADDRESS ?? '';
+const RPC_URL = process.env.RPC_URL ?? 'http://127.0.0.1:8545';
+const START_BLOCK = Number(process.env.START_BLOCK ?? 0);
+const KEEPER_INTERVAL = Number(process.env.KEEPER_INTERVAL ?? 60);
+
+// Blocks per log query, to stay under RPC range limits
+const LOG_CHUNK = 5000;
+
+async function main() {
+  if (!PRIVATE_KEY || !GAME_ADDRESS) {
+    throw new Error('KEEPER_PRIVATE_KEY and GAME_ADDRESS must be set');
+  }
+
+  const provider = new ethers.JsonRpcProvider(RPC_URL);
+  const signer = new ethers.Wallet(PRIVATE_KEY, provider);
+  const game = new ethers.Contract(GAME_ADDRESS, KEEPER_GAME_ABI, signer);
+
+  // Players with a session that may still be open
+  const players = new Set<string>();
+  let nextBlock = START_BLOCK;
+
+  async function runRound() {
+    const latest = await provider.getBlockNumber();
+    for (let from = nextBlock; from <= latest; from += LOG_CHUNK) {
+      const to = Math.min(from + LOG_CHUNK - 1, latest);
+      for (const player of await collectPlayers(game, from, to)) players.add(player);
+    }
+    nextBlock = latest + 1;
+
+    // Drop players whose session was ended, settled or forfeited; a new session adds them back
+    const active = new Set(await findActiveSessions(game, [...players]));
+    for (const player of players) {
+      if (!active.has(player)) players.delete(player);
+    }
+
+    for (const result of await settleExpiredSessions(game, [...players])) {
+      if (result.hash) {
+        players.delete(result.player);
+        console.log('Settled session of', result.player, 'in', result.hash);
+      } else {
+        console.error('Failed to settle session of', result.player + ':', result.error);
+      }
+    }
+  }
+
+  console.log('Session keeper running');
+  console.log('Keeper:', signer.address);
+  console.log('Game:', GAME_ADDRESS);
+
+  for (;;) {
+    try {
+      await runRound();
+    } catch (err) {
+      console.error(err);
+    }
+    await new Promise((resolve) => setTimeout(resolve, KEEPER_INTERVAL * 1000));
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
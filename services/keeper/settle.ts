@@ -0,0 +1,78 @@
+import { ethers, type EventLog } from 'ethers';
+
+/**
+ * TalismanGame functions the keeper relies on.
+ * settleExpiredSession ends a session past sessionTimeout at its capped
+ * duration with zero talismans, so anyone may call it.
+ */
+export const KEEPER_GAME_ABI = [
+  'event SessionStarted(address indexed player, uint256 startTime, uint8 gameMode)',
+  'function getSession(address player) view returns (tuple(uint64 startTime, uint64 endTime, uint128 rewardEarned, uint32 talismansCollected, bool isActive, uint8 gameMode))',
+  'function isSessionExpired(address player) view returns (bool)',
+  'function settleExpiredSession(address player)',
+];
+
+export interface SettlementResult {
+  player: string;
+  hash?: string;
+  error?: string;
+}
+
+/**
+ * Players who started a session in the given block range
+ */
+export async function collectPlayers(
+  game: ethers.Contract,
+  fromBlock: number,
+  toBlock: number
+): Promise<string[]> {
+  const events = await game.queryFilter(game.filters.SessionStarted(), fromBlock, toBlock);
+  const players = events.map((event) => (event as EventLog).args.player as string);
+  return [...new Set(players)];
+}
+
+/**
+ * The subset of players with a session still open. Players whose session was
+ * ended, settled or forfeited need no watching until they start another.
+ */
+export async function findActiveSessions(
+  game: ethers.Contract,
+  players: readonly string[]
+): Promise<string[]> {
+  const sessions = await Promise.all(players.map((player) => game.getSession(player)));
+  return players.filter((_, i) => sessions[i].isActive);
+}
+
+/**
+ * The subset of players whose session has expired
+ */
+export async function findExpiredSessions(
+  game: ethers.Contract,
+  players: readonly string[]
+): Promise<string[]> {
+  const expired = await Promise.all(players.map((player) => game.isSessionExpired(player)));
+  return players.filter((_, i) => expired[i]);
+}
+
+/**
+ * Settle every expired session among the players, one transaction each.
+ * A failed settlement (e.g. the player ended the session first) is reported, not thrown.
+ */
+export async function settleExpiredSessions(
+  game: ethers.Contract,
+  players: readonly string[]
+): Promise<SettlementResult[]> {
+  const results: SettlementResult[] = [];
+
+  for (const player of await findExpiredSessions(game, players)) {
+    try {
+      const tx = await game.settleExpiredSession(player);
+      await tx.wait();
+      results.push({ player, hash: tx.hash });
+    } catch (err) {
+      results.push({ player, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  return results;
+}
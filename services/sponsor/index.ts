@@ -0,0 +1,4 @@
+export { decodeAccountCalls, findCampaign, parsePolicy, usageKey, SponsorshipError } from './policy';
+export type { Campaign, SponsoredTarget, SponsorshipPolicy, AccountCall } from './policy';
+export { getVoucherHash, signVoucher, encodePaymasterAndData } from './voucher';
+export type { VoucherUserOp, Voucher } from './voucher';
@@ -0,0 +1,142 @@
+import { ethers } from 'ethers';
+
+export class SponsorshipError extends Error {}
+
+// Functions on one contract a campaign pays for; no selectors means any function
+export interface SponsoredTarget {
+  target: string;
+  selectors?: string[];
+}
+
+/**
+ * A sponsorship campaign: who gets gas paid, for which calls and when.
+ * Omitted fields don't restrict, so { id } alone sponsors every operation.
+ */
+export interface Campaign {
+  id: string;
+  // Unix seconds; vouchers never outlive the campaign end
+  start?: number;
+  end?: number;
+  // Smart accounts eligible for the campaign
+  senders?: string[];
+  // Calls the campaign pays for; every call in a batch must match
+  targets?: SponsoredTarget[];
+  // Vouchers issued per smart account over the campaign
+  maxOpsPerSender?: number;
+}
+
+export interface SponsorshipPolicy {
+  campaigns: Campaign[];
+}
+
+export interface AccountCall {
+  target: string;
+  selector: string;
+}
+
+const ACCOUNT_INTERFACE = new ethers.Interface([
+  'function execute(address dest, uint256 value, bytes func)',
+  'function executeBatch(address[] dest, uint256[] value, bytes[] func)',
+]);
+
+/**
+ * List the calls a smart account makes for a UserOperation's callData
+ */
+export function decodeAccountCalls(callData: string): AccountCall[] {
+  let parsed;
+  try {
+    parsed = ACCOUNT_INTERFACE.parseTransaction({ data: callData });
+  } catch {
+    parsed = null;
+  }
+  if (!parsed) throw new SponsorshipError('Unsupported account call');
+
+  const dests: string[] = parsed.name === 'execute' ? [parsed.args[0]] : [...parsed.args[0]];
+  const funcs: string[] = parsed.name === 'execute' ? [parsed.args[2]] : [...parsed.args[2]];
+
+  return dests.map((dest, i) => {
+    const func = funcs[i];
+    if (ethers.dataLength(func) < 4) throw new SponsorshipError('Call has no function selector');
+    return { target: ethers.getAddress(dest), selector: ethers.dataSlice(func, 0, 4) };
+  });
+}
+
+function isSameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function coversCall(campaign: Campaign, call: AccountCall): boolean {
+  if (!campaign.targets) return true;
+  return campaign.targets.some(
+    ({ target, selectors }) =>
+      isSameAddress(target, call.target) &&
+      (!selectors || selectors.some((selector) => selector.toLowerCase() === call.selector.toLowerCase()))
+  );
+}
+
+/**
+ * Key for counting a sender's vouchers within a campaign
+ */
+export function usageKey(campaignId: string, sender: string): string {
+  return `${campaignId}:${sender.toLowerCase()}`;
+}
+
+/**
+ * Pick the first campaign that sponsors this operation now
+ * @param usage Vouchers issued so far, by usageKey
+ */
+export function findCampaign(
+  policy: SponsorshipPolicy,
+  sender: string,
+  callData: string,
+  now: number,
+  usage: ReadonlyMap<string, number> = new Map()
+): Campaign {
+  const calls = decodeAccountCalls(callData);
+
+  const campaign = policy.campaigns.find(
+    (campaign) =>
+      (campaign.start === undefined || now >= campaign.start) &&
+      (campaign.end === undefined || now < campaign.end) &&
+      (!campaign.senders || campaign.senders.some((eligible) => isSameAddress(eligible, sender))) &&
+      (campaign.maxOpsPerSender === undefined ||
+        (usage.get(usageKey(campaign.id, sender)) ?? 0) < campaign.maxOpsPerSender) &&
+      calls.length > 0 &&
+      calls.every((call) => coversCall(campaign, call))
+  );
+  if (!campaign) throw new SponsorshipError('No campaign sponsors this operation');
+  return campaign;
+}
+
+/**
+ * Parse and check a policy file
+ */
+export function parsePolicy(json: string): SponsorshipPolicy {
+  let policy: SponsorshipPolicy;
+  try {
+    policy = JSON.parse(json);
+  } catch {
+    throw new Error('Sponsorship policy is not valid JSON');
+  }
+  if (!Array.isArray(policy?.campaigns)) throw new Error('Sponsorship policy needs a campaigns array');
+
+  const ids = new Set<string>();
+  for (const campaign of policy.campaigns) {
+    if (typeof campaign.id !== 'string' || !campaign.id) throw new Error('Every campaign needs an id');
+    if (ids.has(campaign.id)) throw new Error(`Duplicate campaign ${campaign.id}`);
+    ids.add(campaign.id);
+
+    for (const sender of campaign.senders ?? []) {
+      if (!ethers.isAddress(sender)) throw new Error(`Campaign ${campaign.id} has an invalid sender ${sender}`);
+    }
+    for (const { target, selectors } of campaign.targets ?? []) {
+      if (!ethers.isAddress(target)) throw new Error(`Campaign ${campaign.id} has an invalid target ${target}`);
+      for (const selector of selectors ?? []) {
+        if (!/^0x[0-9a-fA-F]{8}$/.test(selector)) {
+          throw new Error(`Campaign ${campaign.id} has an invalid selector ${selector}`);
+        }
+      }
+    }
+  }
+  return policy;
+}
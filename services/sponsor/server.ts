@@ -0,0 +1,178 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { readFileSync } from 'fs';
+import { ethers } from 'ethers';
+import { findCampaign, parsePolicy, usageKey, SponsorshipError } from './policy';
+import { signVoucher, encodePaymasterAndData, type VoucherUserOp } from './voucher';
+
+/**
+ * Local sponsorship signer
+ *
+ * POST /sponsor { userOp } checks the UserOperation against the sponsorship
+ * policy and returns paymasterAndData carrying a signed, time-bounded voucher
+ * for TalismanPaymaster. The account signs the operation after this, so the
+ * voucher covers every field except paymasterAndData and signature.
+ *
+ * GET /campaigns lists the policy's campaigns.
+ *
+ * Environment:
+ *   SPONSOR_PRIVATE_KEY - Signer registered with TalismanPaymaster.setVerifyingSigner
+ *   PAYMASTER_ADDRESS   - TalismanPaymaster address
+ *   SPONSOR_POLICY      - Path to the policy JSON file; required, so nothing is sponsored by accident
+ *   RPC_URL             - JSON-RPC endpoint (default: http://127.0.0.1:8545)
+ *   PORT                - HTTP port (default: 8789)
+ *   VOUCHER_TTL         - Voucher lifetime in seconds (default: 300)
+ */
+
+const PRIVATE_KEY = process.env.SPONSOR_PRIVATE_KEY ?? '';
+const PAYMASTER_ADDRESS = process.env.PAYMASTER_ADDRESS ?? '';
+const POLICY_PATH = process.env.SPONSOR_POLICY ?? '';
+const RPC_URL = process.env.RPC_URL ?? 'http://127.0.0.1:8545';
+const PORT = Number(process.env.PORT ?? 8789);
+const VOUCHER_TTL = Number(process.env.VOUCHER_TTL ?? 300);
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+const BYTES_FIELDS = ['sender', 'initCode', 'callData'] as const;
+const NUMERIC_FIELDS = [
+  'nonce',
+  'callGasLimit',
+  'verificationGasLimit',
+  'preVerificationGas',
+  'maxFeePerGas',
+  'maxPriorityFeePerGas',
+] as const;
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new SponsorshipError('Request too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, data: unknown) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(data === null ? undefined : JSON.stringify(data));
+}
+
+/**
+ * Read a UserOperation sent as JSON, numbers as hex or decimal strings
+ */
+function parseUserOp(value: unknown): VoucherUserOp {
+  if (!value || typeof value !== 'object') throw new SponsorshipError('Missing userOp');
+  const fields = value as Record<string, unknown>;
+
+  for (const field of BYTES_FIELDS) {
+    if (typeof fields[field] !== 'string' || !ethers.isHexString(fields[field])) {
+      throw new SponsorshipError(`Invalid userOp.${field}`);
+    }
+  }
+  if (!ethers.isAddress(fields.sender)) throw new SponsorshipError('Invalid userOp.sender');
+
+  const numbers = {} as Record<(typeof NUMERIC_FIELDS)[number], bigint>;
+  for (const field of NUMERIC_FIELDS) {
+    try {
+      numbers[field] = BigInt(fields[field] as string);
+    } catch {
+      throw new SponsorshipError(`Invalid userOp.${field}`);
+    }
+    if (numbers[field] < 0n) throw new SponsorshipError(`Invalid userOp.${field}`);
+  }
+
+  return {
+    sender: ethers.getAddress(fields.sender as string),
+    initCode: fields.initCode as string,
+    callData: fields.callData as string,
+    ...numbers,
+  };
+}
+
+async function main() {
+  if (!PRIVATE_KEY || !PAYMASTER_ADDRESS || !POLICY_PATH) {
+    throw new Error('SPONSOR_PRIVATE_KEY, PAYMASTER_ADDRESS and SPONSOR_POLICY must be set');
+  }
+
+  const policy = parsePolicy(readFileSync(POLICY_PATH, 'utf8'));
+  const provider = new ethers.JsonRpcProvider(RPC_URL);
+  const signer = new ethers.Wallet(PRIVATE_KEY, provider);
+  const paymasterAddress = ethers.getAddress(PAYMASTER_ADDRESS);
+  const { chainId } = await provider.getNetwork();
+
+  // Vouchers issued per campaign and sender since startup
+  const usage = new Map<string, number>();
+
+  async function handleSponsor(req: IncomingMessage) {
+    let body: { userOp?: unknown };
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch {
+      throw new SponsorshipError('Invalid JSON body');
+    }
+    const userOp = parseUserOp(body.userOp);
+
+    // Use chain time: the EntryPoint checks the voucher window against block.timestamp
+    const block = await provider.getBlock('latest');
+    const now = block?.timestamp ?? Math.floor(Date.now() / 1000);
+
+    const campaign = findCampaign(policy, userOp.sender, userOp.callData, now, usage);
+    const validAfter = now;
+    const validUntil = Math.min(now + VOUCHER_TTL, campaign.end ?? Infinity);
+
+    const voucher = await signVoucher(signer, userOp, chainId, paymasterAddress, validUntil, validAfter);
+    const key = usageKey(campaign.id, userOp.sender);
+    usage.set(key, (usage.get(key) ?? 0) + 1);
+
+    return {
+      campaign: campaign.id,
+      validUntil,
+      validAfter,
+      paymasterAndData: encodePaymasterAndData(paymasterAddress, voucher),
+    };
+  }
+
+  const server = createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') return sendJson(res, 204, null);
+    if (req.method === 'GET' && req.url === '/health') {
+      return sendJson(res, 200, { ok: true, signer: signer.address });
+    }
+    if (req.method === 'GET' && req.url === '/campaigns') {
+      return sendJson(res, 200, policy);
+    }
+    if (req.method !== 'POST' || req.url !== '/sponsor') {
+      return sendJson(res, 404, { error: 'Not found' });
+    }
+
+    try {
+      sendJson(res, 200, await handleSponsor(req));
+    } catch (err) {
+      if (err instanceof SponsorshipError) {
+        return sendJson(res, 400, { error: err.message });
+      }
+      console.error(err);
+      sendJson(res, 500, { error: 'Sponsorship failed' });
+    }
+  });
+
+  server.listen(PORT, () => {
+    console.log('Sponsorship signer listening on port', PORT);
+    console.log('Signer:', signer.address);
+    console.log('Paymaster:', paymasterAddress);
+    console.log('Campaigns:', policy.campaigns.map((campaign) => campaign.id).join(', '));
+  });
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,107 @@
+import { ethers, type Signer } from 'ethers';
+
+/**
+ * UserOperation fields covered by a sponsorship voucher.
+ * paymasterAndData and signature are excluded: the voucher goes into the
+ * former and the account signs over it afterwards. Under v0.7 the paymaster's
+ * gas limits, which precede the voucher in paymasterAndData, are covered too.
+ */
+export interface VoucherUserOp {
+  sender: string;
+  nonce: bigint;
+  initCode: string;
+  callData: string;
+  callGasLimit: bigint;
+  verificationGasLimit: bigint;
+  preVerificationGas: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  // v0.7 only (omitted = 0, as for v0.6 operations)
+  paymasterVerificationGasLimit?: bigint;
+  paymasterPostOpGasLimit?: bigint;
+}
+
+export interface Voucher {
+  // Last timestamp the voucher is valid (0 = no expiry)
+  validUntil: number;
+  // First timestamp the voucher is valid
+  validAfter: number;
+  signature: string;
+}
+
+/**
+ * Hash the verifying signer signs for a voucher.
+ * Must match TalismanPaymaster.getVoucherHash.
+ */
+export function getVoucherHash(
+  userOp: VoucherUserOp,
+  chainId: bigint,
+  paymasterAddress: string,
+  validUntil: number,
+  validAfter: number
+): string {
+  return ethers.keccak256(
+    ethers.AbiCoder.defaultAbiCoder().encode(
+      [
+        'address',
+        'uint256',
+        'bytes32',
+        'bytes32',
+        'uint256',
+        'uint256',
+        'uint256',
+        'uint256',
+        'uint256',
+        'uint256',
+        'uint256',
+        'uint256',
+        'address',
+        'uint48',
+        'uint48',
+      ],
+      [
+        userOp.sender,
+        userOp.nonce,
+        ethers.keccak256(userOp.initCode),
+        ethers.keccak256(userOp.callData),
+        userOp.callGasLimit,
+        userOp.verificationGasLimit,
+        userOp.preVerificationGas,
+        userOp.maxFeePerGas,
+        userOp.maxPriorityFeePerGas,
+        userOp.paymasterVerificationGasLimit ?? 0n,
+        userOp.paymasterPostOpGasLimit ?? 0n,
+        chainId,
+        paymasterAddress,
+        validUntil,
+        validAfter,
+      ]
+    )
+  );
+}
+
+export async function signVoucher(
+  signer: Signer,
+  userOp: VoucherUserOp,
+  chainId: bigint,
+  paymasterAddress: string,
+  validUntil: number,
+  validAfter: number
+): Promise<Voucher> {
+  const hash = getVoucherHash(userOp, chainId, paymasterAddress, validUntil, validAfter);
+  // Signed as an Ethereum signed message, as the paymaster recovers it
+  const signature = await signer.signMessage(ethers.getBytes(hash));
+  return { validUntil, validAfter, signature };
+}
+
+/**
+ * paymasterAndData carrying a voucher:
+ * paymaster (20 bytes) | abi.encode(uint48 validUntil, uint48 validAfter) | signature (65 bytes)
+ */
+export function encodePaymasterAndData(paymasterAddress: string, voucher: Voucher): string {
+  return ethers.concat([
+    paymasterAddress,
+    ethers.AbiCoder.defaultAbiCoder().encode(['uint48', 'uint48'], [voucher.validUntil, voucher.validAfter]),
+    voucher.signature,
+  ]);
+}
@@ -0,0 +1,168 @@
+import type { Signer, TypedDataDomain } from 'ethers';
+
+/**
+ * EIP-712 attestation checked by TalismanGame.endSessionWithProof.
+ * Must match SESSION_RESULT_TYPEHASH in the contract.
+ */
+export const SESSION_RESULT_TYPES = {
+  SessionResult: [
+    { name: 'player', type: 'address' },
+    { name: 'sessionStart', type: 'uint64' },
+    { name: 'talismansCollected', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+export interface SessionResult {
+  player: string;
+  sessionStart: bigint;
+  talismansCollected: bigint;
+  deadline: bigint;
+}
+
+export function getGameDomain(chainId: bigint, gameAddress: string): TypedDataDomain {
+  return {
+    name: 'TalismanGame',
+    version: '1',
+    chainId,
+    verifyingContract: gameAddress,
+  };
+}
+
+export async function signSessionResult(
+  signer: Signer,
+  domain: TypedDataDomain,
+  result: SessionResult
+): Promise<string> {
+  return signer.signTypedData(domain, SESSION_RESULT_TYPES, result);
+}
+
+/**
+ * EIP-712 attestation checked by TalismanGame.claimQuestBonus.
+ * Must match QUEST_COMPLETION_TYPEHASH in the contract.
+ */
+export const QUEST_COMPLETION_TYPES = {
+  QuestCompletion: [
+    { name: 'player', type: 'address' },
+    { name: 'day', type: 'uint64' },
+    { name: 'questId', type: 'bytes32' },
+    { name: 'reward', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+export interface QuestCompletion {
+  player: string;
+  day: bigint;
+  questId: string;
+  reward: bigint;
+  deadline: bigint;
+}
+
+export async function signQuestCompletion(
+  signer: Signer,
+  domain: TypedDataDomain,
+  completion: QuestCompletion
+): Promise<string> {
+  return signer.signTypedData(domain, QUEST_COMPLETION_TYPES, completion);
+}
+
+/**
+ * EIP-712 attestation checked by TalismanTournament.submitScore.
+ * Must match TOURNAMENT_SCORE_TYPEHASH in the contract.
+ */
+export const TOURNAMENT_SCORE_TYPES = {
+  TournamentScore: [
+    { name: 'tournamentId', type: 'uint256' },
+    { name: 'player', type: 'address' },
+    { name: 'distance', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+export interface TournamentScore {
+  tournamentId: bigint;
+  player: string;
+  distance: bigint;
+  deadline: bigint;
+}
+
+export function getTournamentDomain(chainId: bigint, tournamentAddress: string): TypedDataDomain {
+  return {
+    name: 'TalismanTournament',
+    version: '1',
+    chainId,
+    verifyingContract: tournamentAddress,
+  };
+}
+
+export async function signTournamentScore(
+  signer: Signer,
+  domain: TypedDataDomain,
+  score: TournamentScore
+): Promise<string> {
+  return signer.signTypedData(domain, TOURNAMENT_SCORE_TYPES, score);
+}
+
+/**
+ * EIP-712 attestation checked by TalismanRaceEscrow when a race is created.
+ * Covers the keccak256 of the ghost bytes, so only the attested replay can be published.
+ * Must match RACE_RUN_TYPEHASH in the contract.
+ */
+export const RACE_RUN_TYPES = {
+  RaceRun: [
+    { name: 'player', type: 'address' },
+    { name: 'seed', type: 'uint256' },
+    { name: 'distance', type: 'uint256' },
+    { name: 'ghostHash', type: 'bytes32' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+export interface RaceRun {
+  player: string;
+  seed: bigint;
+  distance: bigint;
+  ghostHash: string;
+  deadline: bigint;
+}
+
+/**
+ * EIP-712 attestation checked by TalismanRaceEscrow when the challenger posts a result.
+ * Bound to the race and when it was accepted, so it can't settle any other race.
+ * Must match RACE_RESULT_TYPEHASH in the contract.
+ */
+export const RACE_RESULT_TYPES = {
+  RaceResult: [
+    { name: 'raceId', type: 'uint256' },
+    { name: 'challenger', type: 'address' },
+    { name: 'acceptedAt', type: 'uint64' },
+    { name: 'distance', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+export interface RaceResult {
+  raceId: bigint;
+  challenger: string;
+  acceptedAt: bigint;
+  distance: bigint;
+  deadline: bigint;
+}
+
+export function getRaceDomain(chainId: bigint, escrowAddress: string): TypedDataDomain {
+  return {
+    name: 'TalismanRaceEscrow',
+    version: '1',
+    chainId,
+    verifyingContract: escrowAddress,
+  };
+}
+
+export async function signRaceRun(signer: Signer, domain: TypedDataDomain, run: RaceRun): Promise<string> {
+  return signer.signTypedData(domain, RACE_RUN_TYPES, run);
+}
+
+export async function signRaceResult(signer: Signer, domain: TypedDataDomain, result: RaceResult): Promise<string> {
+  return signer.signTypedData(domain, RACE_RESULT_TYPES, result);
+}
@@ -0,0 +1,21 @@
+export { verifySessionReplays, verifyTournamentRun, verifyRaceRun, runSeed, VerificationError, MAX_RUN_TICKS } from './verify';
+export type { SessionContext, TournamentContext, RaceContext, VerifiedSession, VerifiedRun } from './verify';
+export { verifyQuestCompletion } from './quests';
+export { openVerifierDatabase, recordAttestedRuns } from './store';
+export type { VerifierDatabase } from './store';
+export {
+  SESSION_RESULT_TYPES,
+  QUEST_COMPLETION_TYPES,
+  TOURNAMENT_SCORE_TYPES,
+  RACE_RUN_TYPES,
+  RACE_RESULT_TYPES,
+  getGameDomain,
+  getTournamentDomain,
+  getRaceDomain,
+  signSessionResult,
+  signQuestCompletion,
+  signTournamentScore,
+  signRaceRun,
+  signRaceResult,
+} from './attestation';
+export type { SessionResult, QuestCompletion, TournamentScore, RaceRun, RaceResult } from './attestation';
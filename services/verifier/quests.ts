@@ -0,0 +1,30 @@
+import {
+  QUEST_POOL,
+  dayIndex,
+  getDailyQuests,
+  isQuestComplete,
+  type QuestDefinition,
+  type QuestSession,
+} from '../../shared/achievements';
+import { VerificationError } from './verify';
+
+/**
+ * Check that a daily quest was offered on `day` and is complete according to
+ * the player's on-chain session history. `now` is the chain time in seconds.
+ */
+export function verifyQuestCompletion(
+  sessions: readonly QuestSession[],
+  day: number,
+  questId: string,
+  now: number
+): QuestDefinition {
+  if (!Number.isInteger(day) || day < 0) throw new VerificationError('Invalid quest day');
+  if (day > dayIndex(now)) throw new VerificationError('Quest day has not started');
+
+  if (!QUEST_POOL.some((q) => q.id === questId)) throw new VerificationError('Unknown quest');
+  const quest = getDailyQuests(day).find((q) => q.id === questId);
+  if (!quest) throw new VerificationError('Quest not offered on this day');
+
+  if (!isQuestComplete(quest, sessions, day)) throw new VerificationError('Quest not complete');
+  return quest;
+}
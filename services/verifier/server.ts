@@ -0,0 +1,433 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { ethers } from 'ethers';
+import { verifySessionReplays, verifyTournamentRun, verifyRaceRun, VerificationError } from './verify';
+import { validateReplay, serializeReplay } from '../../shared/dash';
+import { verifyQuestCompletion } from './quests';
+import { openVerifierDatabase, recordAttestedRuns } from './store';
+import type { QuestSession } from '../../shared/achievements';
+import {
+  getGameDomain,
+  getTournamentDomain,
+  getRaceDomain,
+  signSessionResult,
+  signQuestCompletion,
+  signTournamentScore,
+  signRaceRun,
+  signRaceResult,
+} from './attestation';
+
+/**
+ * Local score verifier
+ *
+ * POST /verify { player, replays } re-simulates the session's runs and
+ * returns a signed SessionResult for TalismanGame.endSessionWithProof. Each run's
+ * seed must be derived from the player's on-chain session and a paid attempt, and
+ * runs once attested are never accepted for another session.
+ *
+ * POST /quest { player, day, questId } checks a daily quest against the
+ * player's on-chain session history and returns a signed QuestCompletion
+ * for TalismanGame.claimQuestBonus.
+ *
+ * POST /tournament { player, tournamentId, replay } re-simulates one run
+ * played in the player's current Dash session, started after they entered
+ * the tournament, and returns a signed TournamentScore for
+ * TalismanTournament.submitScore.
+ *
+ * POST /race { player, replay, raceId? } re-simulates one ghost race run. Without
+ * raceId it returns a signed RaceRun for TalismanRaceEscrow.createRace, with the
+ * ghost bytes it covers; with the accepted race's id, a signed RaceResult for
+ * submitRaceResult, bound to that race.
+ *
+ * Environment:
+ *   VERIFIER_PRIVATE_KEY - Signer registered with TalismanGame.setScoreVerifier
+ *   GAME_ADDRESS         - TalismanGame address
+ *   TOURNAMENT_ADDRESS   - TalismanTournament address (optional, enables /tournament)
+ *   RACE_ESCROW_ADDRESS  - TalismanRaceEscrow address (optional, enables /race)
+ *   VERIFIER_DB          - SQLite file of attested runs (default: verifier.db)
+ *   RPC_URL              - JSON-RPC endpoint (default: http://127.0.0.1:8545)
+ *   PORT                 - HTTP port (default: 8787)
+ *   PROOF_TTL            - Attestation lifetime in seconds (default: 600)
+ */
+
+const PRIVATE_KEY = process.env.VERIFIER_PRIVATE_KEY ?? '';
+const GAME_ADDRESS = process.env.GAME_ADDRESS ?? '';
+const TOURNAMENT_ADDRESS = process.env.TOURNAMENT_ADDRESS ?? '';
+const RACE_ESCROW_ADDRESS = process.env.RACE_ESCROW_ADDRESS ?? '';
+const VERIFIER_DB = process.env.VERIFIER_DB ?? 'verifier.db';
+const RPC_URL = process.env.RPC_URL ?? 'http://127.0.0.1:8545';
+const PORT = Number(process.env.PORT ?? 8787);
+const PROOF_TTL = BigInt(process.env.PROOF_TTL ?? 600);
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// ITalismanGame.GameMode.Dash - the only mode with replays to re-simulate
+const DASH_GAME_MODE = 0n;
+
+const GAME_ABI = [
+  'function getSession(address player) view returns (tuple(uint64 startTime, uint64 endTime, uint128 rewardEarned, uint32 talismansCollected, bool isActive, uint8 gameMode))',
+  'function getAttemptCount(address player) view returns (uint256)',
+  'function getSessionCount(address player) view returns (uint256)',
+  'function getSessionHistory(address player, uint256 offset, uint256 limit) view returns (tuple(uint64 startTime, uint64 endTime, uint64 duration, uint32 attempts, uint8 gameMode, uint128 reward, uint32 talismansCollected, uint32 multiplier)[])',
+  'function isQuestClaimed(address player, uint64 day, bytes32 questId) view returns (bool)',
+];
+
+const TOURNAMENT_ABI = [
+  'function getTournament(uint256 tournamentId) view returns (tuple(uint64 startTime, uint64 endTime, uint128 entryFee, uint128 prizePool, uint32 entrantCount, bool finalized))',
+  'function getEntryTime(uint256 tournamentId, address player) view returns (uint64)',
+];
+
+const RACE_ESCROW_ABI = [
+  'function getRace(uint256 raceId) view returns (tuple(address creator, uint32 seed, uint64 creatorDistance, address challenger, uint64 challengerDistance, uint128 stake, uint64 expiresAt, uint64 acceptedAt, uint64 raceDeadline, uint8 status, address winner))',
+];
+
+// ITalismanRaceEscrow.RaceStatus.Accepted - the challenger is racing the ghost
+const RACE_ACCEPTED = 2n;
+
+// Sessions fetched per getSessionHistory call
+const HISTORY_PAGE_SIZE = 100;
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new VerificationError('Request too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, data: unknown) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(data === null ? undefined : JSON.stringify(data));
+}
+
+async function main() {
+  if (!PRIVATE_KEY || !GAME_ADDRESS) {
+    throw new Error('VERIFIER_PRIVATE_KEY and GAME_ADDRESS must be set');
+  }
+
+  const db = openVerifierDatabase(VERIFIER_DB);
+  const provider = new ethers.JsonRpcProvider(RPC_URL);
+  const signer = new ethers.Wallet(PRIVATE_KEY, provider);
+  const game = new ethers.Contract(GAME_ADDRESS, GAME_ABI, provider);
+  const { chainId } = await provider.getNetwork();
+  const domain = getGameDomain(chainId, GAME_ADDRESS);
+  const tournaments = TOURNAMENT_ADDRESS ? new ethers.Contract(TOURNAMENT_ADDRESS, TOURNAMENT_ABI, provider) : null;
+  const tournamentDomain = TOURNAMENT_ADDRESS ? getTournamentDomain(chainId, TOURNAMENT_ADDRESS) : null;
+  const races = RACE_ESCROW_ADDRESS ? new ethers.Contract(RACE_ESCROW_ADDRESS, RACE_ESCROW_ABI, provider) : null;
+  const raceDomain = RACE_ESCROW_ADDRESS ? getRaceDomain(chainId, RACE_ESCROW_ADDRESS) : null;
+
+  async function handleVerify(req: IncomingMessage) {
+    let body: { player?: string; replays?: unknown };
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch {
+      throw new VerificationError('Invalid JSON body');
+    }
+    if (!body.player || !ethers.isAddress(body.player)) {
+      throw new VerificationError('Invalid player address');
+    }
+    const player = ethers.getAddress(body.player);
+
+    const [session, attemptCount, block] = await Promise.all([
+      game.getSession(player),
+      game.getAttemptCount(player),
+      provider.getBlock('latest'),
+    ]);
+    if (!session.isActive) throw new VerificationError('No active session');
+    if (session.gameMode !== DASH_GAME_MODE) throw new VerificationError('Session is not a Dash session');
+
+    // Use chain time so the duration check agrees with the contract
+    const now = BigInt(block?.timestamp ?? Math.floor(Date.now() / 1000));
+    const sessionStart = BigInt(session.startTime);
+
+    const result = verifySessionReplays(body.replays, {
+      player,
+      sessionStart: Number(sessionStart),
+      attemptCount: Number(attemptCount),
+      elapsed: Number(now - sessionStart),
+    });
+    recordAttestedRuns(db, player, Number(sessionStart), result.seeds);
+
+    const deadline = now + PROOF_TTL;
+    const signature = await signSessionResult(signer, domain, {
+      player,
+      sessionStart,
+      talismansCollected: BigInt(result.talismansCollected),
+      deadline,
+    });
+
+    return {
+      player,
+      sessionStart: sessionStart.toString(),
+      talismansCollected: result.talismansCollected,
+      distance: result.distance,
+      deadline: deadline.toString(),
+      signature,
+    };
+  }
+
+  async function handleQuest(req: IncomingMessage) {
+    let body: { player?: string; day?: unknown; questId?: unknown };
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch {
+      throw new VerificationError('Invalid JSON body');
+    }
+    if (!body.player || !ethers.isAddress(body.player)) {
+      throw new VerificationError('Invalid player address');
+    }
+    if (typeof body.questId !== 'string' || typeof body.day !== 'number') {
+      throw new VerificationError('Invalid quest');
+    }
+    const player = ethers.getAddress(body.player);
+    const { day, questId } = body;
+
+    const [sessionCount, block] = await Promise.all([
+      game.getSessionCount(player),
+      provider.getBlock('latest'),
+    ]);
+    const now = BigInt(block?.timestamp ?? Math.floor(Date.now() / 1000));
+
+    const sessions: QuestSession[] = [];
+    for (let offset = 0n; offset < sessionCount; offset += BigInt(HISTORY_PAGE_SIZE)) {
+      sessions.push(...(await game.getSessionHistory(player, offset, HISTORY_PAGE_SIZE)));
+    }
+
+    const quest = verifyQuestCompletion(sessions, day, questId, Number(now));
+    const questIdBytes = ethers.encodeBytes32String(quest.id);
+    if (await game.isQuestClaimed(player, day, questIdBytes)) {
+      throw new VerificationError('Quest already claimed');
+    }
+
+    const deadline = now + PROOF_TTL;
+    const signature = await signQuestCompletion(signer, domain, {
+      player,
+      day: BigInt(day),
+      questId: questIdBytes,
+      reward: quest.reward,
+      deadline,
+    });
+
+    return {
+      player,
+      day,
+      questId: questIdBytes,
+      reward: quest.reward.toString(),
+      deadline: deadline.toString(),
+      signature,
+    };
+  }
+
+  async function handleTournament(req: IncomingMessage) {
+    if (!tournaments || !tournamentDomain) throw new VerificationError('Tournaments not enabled');
+
+    let body: { player?: string; tournamentId?: unknown; replay?: unknown };
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch {
+      throw new VerificationError('Invalid JSON body');
+    }
+    if (!body.player || !ethers.isAddress(body.player)) {
+      throw new VerificationError('Invalid player address');
+    }
+    if (typeof body.tournamentId !== 'number' || !Number.isInteger(body.tournamentId) || body.tournamentId < 0) {
+      throw new VerificationError('Invalid tournament');
+    }
+    const player = ethers.getAddress(body.player);
+    const tournamentId = BigInt(body.tournamentId);
+
+    let tournament;
+    try {
+      tournament = await tournaments.getTournament(tournamentId);
+    } catch {
+      throw new VerificationError('Unknown tournament');
+    }
+    const [enteredAt, session, attemptCount, block] = await Promise.all([
+      tournaments.getEntryTime(tournamentId, player),
+      game.getSession(player),
+      game.getAttemptCount(player),
+      provider.getBlock('latest'),
+    ]);
+    const now = BigInt(block?.timestamp ?? Math.floor(Date.now() / 1000));
+
+    if (enteredAt === 0n) throw new VerificationError('Not entered in tournament');
+    if (now < tournament.startTime || now >= tournament.endTime) {
+      throw new VerificationError('Tournament not running');
+    }
+    if (!session.isActive) throw new VerificationError('No active session');
+    if (session.gameMode !== DASH_GAME_MODE) throw new VerificationError('Session is not a Dash session');
+    // The run must have been played inside the tournament window
+    if (session.startTime < tournament.startTime) {
+      throw new VerificationError('Session started before the tournament');
+    }
+
+    const sessionStart = Number(session.startTime);
+    const run = verifyTournamentRun(body.replay, {
+      player,
+      sessionStart,
+      attemptCount: Number(attemptCount),
+      elapsed: Number(now) - sessionStart,
+      enteredAt: Number(enteredAt),
+    });
+    const distance = BigInt(Math.floor(run.distance));
+    if (distance === 0n) throw new VerificationError('Run has no distance');
+    recordAttestedRuns(db, player, sessionStart, [run.seed]);
+
+    const deadline = now + PROOF_TTL;
+    const signature = await signTournamentScore(signer, tournamentDomain, {
+      tournamentId,
+      player,
+      distance,
+      deadline,
+    });
+
+    return {
+      player,
+      tournamentId: body.tournamentId,
+      distance: distance.toString(),
+      deadline: deadline.toString(),
+      signature,
+    };
+  }
+
+  async function handleRace(req: IncomingMessage) {
+    if (!races || !raceDomain) throw new VerificationError('Races not enabled');
+
+    let body: { player?: string; raceId?: unknown; replay?: unknown };
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch {
+      throw new VerificationError('Invalid JSON body');
+    }
+    if (!body.player || !ethers.isAddress(body.player)) {
+      throw new VerificationError('Invalid player address');
+    }
+    if (
+      body.raceId !== undefined &&
+      (typeof body.raceId !== 'number' || !Number.isInteger(body.raceId) || body.raceId < 0)
+    ) {
+      throw new VerificationError('Invalid race');
+    }
+    const player = ethers.getAddress(body.player);
+
+    const block = await provider.getBlock('latest');
+    const now = BigInt(block?.timestamp ?? Math.floor(Date.now() / 1000));
+
+    if (body.raceId === undefined) {
+      // Opening a race: any verified run can become the ghost
+      const run = verifyRaceRun(body.replay);
+      const distance = BigInt(Math.floor(run.distance));
+      if (distance === 0n) throw new VerificationError('Run has no distance');
+
+      // The ghost is published as the verified replay, so the signature can cover its exact bytes
+      const ghost = ethers.toUtf8Bytes(serializeReplay(validateReplay(body.replay)));
+      const deadline = now + PROOF_TTL;
+      const signature = await signRaceRun(signer, raceDomain, {
+        player,
+        seed: BigInt(run.seed),
+        distance,
+        ghostHash: ethers.keccak256(ghost),
+        deadline,
+      });
+
+      return {
+        player,
+        seed: run.seed,
+        distance: distance.toString(),
+        ghost: ethers.hexlify(ghost),
+        deadline: deadline.toString(),
+        signature,
+      };
+    }
+
+    const raceId = BigInt(body.raceId);
+    let race;
+    try {
+      race = await races.getRace(raceId);
+    } catch {
+      throw new VerificationError('Unknown race');
+    }
+    if (race.status !== RACE_ACCEPTED) throw new VerificationError('Race not accepted');
+    if (ethers.getAddress(race.challenger) !== player) throw new VerificationError('Not the challenger');
+    if (now > race.raceDeadline) throw new VerificationError('Race window over');
+
+    // The result must be on this race's seed and played since the race was accepted
+    const acceptedAt = BigInt(race.acceptedAt);
+    const run = verifyRaceRun(body.replay, {
+      seed: Number(race.seed),
+      elapsed: Number(now - acceptedAt),
+    });
+    const distance = BigInt(Math.floor(run.distance));
+    if (distance === 0n) throw new VerificationError('Run has no distance');
+
+    const deadline = now + PROOF_TTL;
+    const signature = await signRaceResult(signer, raceDomain, {
+      raceId,
+      challenger: player,
+      acceptedAt,
+      distance,
+      deadline,
+    });
+
+    return {
+      player,
+      raceId: body.raceId,
+      seed: run.seed,
+      distance: distance.toString(),
+      deadline: deadline.toString(),
+      signature,
+    };
+  }
+
+  const routes: Record<string, (req: IncomingMessage) => Promise<unknown>> = {
+    '/verify': handleVerify,
+    '/quest': handleQuest,
+    '/tournament': handleTournament,
+    '/race': handleRace,
+  };
+
+  const server = createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') return sendJson(res, 204, null);
+    if (req.method === 'GET' && req.url === '/health') {
+      return sendJson(res, 200, { ok: true, verifier: signer.address });
+    }
+    const handler = req.url ? routes[req.url] : undefined;
+    if (req.method !== 'POST' || !handler) {
+      return sendJson(res, 404, { error: 'Not found' });
+    }
+
+    try {
+      sendJson(res, 200, await handler(req));
+    } catch (err) {
+      if (err instanceof VerificationError) {
+        return sendJson(res, 400, { error: err.message });
+      }
+      console.error(err);
+      sendJson(res, 500, { error: 'Verification failed' });
+    }
+  });
+
+  server.listen(PORT, () => {
+    console.log('Score verifier listening on port', PORT);
+    console.log('Signer:', signer.address);
+    console.log('Game:', GAME_ADDRESS);
+    console.log('Database:', VERIFIER_DB);
+    if (TOURNAMENT_ADDRESS) console.log('Tournament:', TOURNAMENT_ADDRESS);
+    if (RACE_ESCROW_ADDRESS) console.log('Race escrow:', RACE_ESCROW_ADDRESS);
+  });
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
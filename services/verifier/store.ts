@@ -0,0 +1,52 @@
+import Database from 'better-sqlite3';
+import { VerificationError } from './verify';
+
+export type VerifierDatabase = Database.Database;
+
+// One row per attested run: the session it was attested for. A session's seeds can be
+// attested again (a proof may expire before it is used), but never for another session.
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS attested_runs (
+    player TEXT NOT NULL,
+    seed INTEGER NOT NULL,
+    session_start INTEGER NOT NULL,
+    PRIMARY KEY (player, seed)
+  );
+`;
+
+/**
+ * Open (or create) the verifier database. Use ':memory:' for a throwaway store.
+ */
+export function openVerifierDatabase(filename: string): VerifierDatabase {
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+  return db;
+}
+
+/**
+ * Record a session's runs as attested, atomically. Throws if any of the seeds was
+ * already attested for another session of the player.
+ */
+export function recordAttestedRuns(
+  db: VerifierDatabase,
+  player: string,
+  sessionStart: number,
+  seeds: readonly number[]
+) {
+  const find = db.prepare('SELECT session_start FROM attested_runs WHERE player = ? AND seed = ?');
+  const insert = db.prepare(
+    'INSERT OR IGNORE INTO attested_runs (player, seed, session_start) VALUES (?, ?, ?)'
+  );
+  const key = player.toLowerCase();
+
+  db.transaction(() => {
+    for (const seed of seeds) {
+      const row = find.get(key, seed) as { session_start: number } | undefined;
+      if (row && row.session_start !== sessionStart) {
+        throw new VerificationError('Run already attested');
+      }
+      insert.run(key, seed, sessionStart);
+    }
+  })();
+}
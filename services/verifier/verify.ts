@@ -0,0 +1,204 @@
+import { ethers } from 'ethers';
+import {
+  validateReplay,
+  simulateReplay,
+  DASH_CONSTANTS_VERSION,
+  TICK_RATE,
+  type DashReplay,
+  type DashRunOwner,
+} from '../../shared/dash';
+
+export class VerificationError extends Error {}
+
+// Longest run the verifier will simulate (30 minutes); a claimed tick count is checked
+// against it and the time available before any simulation work is done
+export const MAX_RUN_TICKS = 30 * 60 * TICK_RATE;
+
+export interface SessionContext {
+  // Player submitting the runs; each run's seed must be derived from their address
+  player: string;
+  // On-chain start time of the player's current session, also part of each run's seed
+  sessionStart: number;
+  // Runs paid for in the session (startSession + retries)
+  attemptCount: number;
+  // Seconds since the session started
+  elapsed: number;
+}
+
+export interface TournamentContext extends SessionContext {
+  // When the player entered the tournament; runs from sessions started earlier don't count
+  enteredAt: number;
+}
+
+export interface VerifiedSession {
+  talismansCollected: number;
+  distance: number;
+  runs: number;
+  seeds: number[];
+}
+
+export interface VerifiedRun {
+  seed: number;
+  talismansCollected: number;
+  distance: number;
+  ticks: number;
+}
+
+function parseReplay(input: unknown): DashReplay {
+  try {
+    return validateReplay(input);
+  } catch (err) {
+    throw new VerificationError(err instanceof Error ? err.message : 'Invalid replay');
+  }
+}
+
+/**
+ * Seed of a session run: the low 32 bits of keccak256(player, sessionStart, attempt).
+ * Must match runSeed in the frontend.
+ */
+export function runSeed(owner: DashRunOwner): number {
+  const hash = ethers.solidityPackedKeccak256(
+    ['address', 'uint64', 'uint32'],
+    [owner.player, owner.sessionStart, owner.attempt]
+  );
+  return Number(BigInt(hash) & 0xffffffffn);
+}
+
+/**
+ * Check the run was played on the seed of one of the paid attempts of the player's
+ * current session. Seeds are never chosen by the client, so runs from earlier sessions
+ * and runs published by others (race ghosts, shared replay files) can't be resubmitted.
+ */
+function checkRunOwner(replay: DashReplay, context: Omit<SessionContext, 'elapsed'>) {
+  if (replay.player === undefined || replay.sessionStart === undefined || replay.attempt === undefined) {
+    throw new VerificationError('Replay is not bound to a session');
+  }
+  if (replay.player.toLowerCase() !== context.player.toLowerCase()) {
+    throw new VerificationError('Replay was recorded by another player');
+  }
+  if (replay.sessionStart !== context.sessionStart) {
+    throw new VerificationError('Replay was recorded in another session');
+  }
+  if (replay.attempt >= context.attemptCount) {
+    throw new VerificationError('Run was not paid for');
+  }
+  const seed = runSeed({ player: context.player, sessionStart: context.sessionStart, attempt: replay.attempt });
+  if (replay.seed !== seed) {
+    throw new VerificationError('Replay seed does not match its session');
+  }
+}
+
+/**
+ * Reject a run whose claimed length could not have been played, before simulating it
+ */
+function checkRunLength(replay: DashReplay) {
+  if (replay.ticks > MAX_RUN_TICKS) {
+    throw new VerificationError('Run exceeds maximum length');
+  }
+}
+
+/**
+ * Re-simulate a single validated run with the shared engine
+ */
+function simulateRun(replay: DashReplay): VerifiedRun {
+  if (replay.constantsVersion !== DASH_CONSTANTS_VERSION) {
+    throw new VerificationError('Replay recorded with different game constants');
+  }
+  checkRunLength(replay);
+
+  const state = simulateReplay(replay);
+  // A run cannot last longer than the simulation allows (it died earlier)
+  if (state.tick !== replay.ticks) {
+    throw new VerificationError('Replay does not match simulation');
+  }
+
+  return {
+    seed: replay.seed,
+    talismansCollected: state.talismansCollected,
+    distance: state.distance,
+    ticks: state.tick,
+  };
+}
+
+/**
+ * Re-simulate every run of a session with the shared engine and return the
+ * authoritative totals. The talisman and distance values stored in the
+ * replay files are ignored.
+ */
+export function verifySessionReplays(input: unknown, context: SessionContext): VerifiedSession {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new VerificationError('No replays submitted');
+  }
+  if (input.length > context.attemptCount) {
+    throw new VerificationError('More runs than paid attempts');
+  }
+
+  const replays = input.map(parseReplay);
+
+  // All runs together cannot take longer than the session has been open. Checked on the
+  // claimed lengths up front; each run is then simulated to exactly its claimed length.
+  const totalTicks = replays.reduce((total, replay) => total + replay.ticks, 0);
+  if (totalTicks / TICK_RATE > context.elapsed) {
+    throw new VerificationError('Runs exceed session duration');
+  }
+
+  const seeds = new Set<number>();
+  let talismansCollected = 0;
+  let distance = 0;
+
+  for (const replay of replays) {
+    if (seeds.has(replay.seed)) {
+      throw new VerificationError('Duplicate run');
+    }
+    seeds.add(replay.seed);
+    checkRunOwner(replay, context);
+
+    const run = simulateRun(replay);
+    talismansCollected += run.talismansCollected;
+    distance += run.distance;
+  }
+
+  return { talismansCollected, distance, runs: replays.length, seeds: [...seeds] };
+}
+
+/**
+ * Re-simulate one run for a tournament score. The run must be on the seed of a paid
+ * attempt of the player's current session, that session must have started after the
+ * player entered the tournament, and the run must fit in the time it has been open.
+ */
+export function verifyTournamentRun(input: unknown, context: TournamentContext): VerifiedRun {
+  const replay = parseReplay(input);
+  if (context.sessionStart < context.enteredAt) {
+    throw new VerificationError('Session started before entering the tournament');
+  }
+  checkRunOwner(replay, context);
+  if (replay.ticks / TICK_RATE > context.elapsed) {
+    throw new VerificationError('Run exceeds session duration');
+  }
+
+  return simulateRun(replay);
+}
+
+export interface RaceContext {
+  // Seed of the race being answered; omitted when opening a race
+  seed?: number;
+  // Seconds since the race was accepted
+  elapsed?: number;
+}
+
+/**
+ * Re-simulate one run for a ghost race. Runs opening a race may be on any seed
+ * (usually another ghost's). When answering a race the run must be on the race's
+ * seed and fit in the time since the race was accepted.
+ */
+export function verifyRaceRun(input: unknown, context: RaceContext = {}): VerifiedRun {
+  const replay = parseReplay(input);
+  if (context.seed !== undefined && replay.seed !== context.seed) {
+    throw new VerificationError('Run is not on the race seed');
+  }
+  if (context.elapsed !== undefined && replay.ticks / TICK_RATE > context.elapsed) {
+    throw new VerificationError('Run exceeds race duration');
+  }
+
+  return simulateRun(replay);
+}
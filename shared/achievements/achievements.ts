@@ -0,0 +1,135 @@
+import type { AchievementId, PlayerProgress, RunSummary } from './types';
+
+const SECONDS_PER_DAY = 86400;
+
+export interface AchievementDefinition {
+  name: string;
+  description: string;
+  // Checked after the run has been added to the progress
+  isEarned(progress: PlayerProgress, run: RunSummary): boolean;
+}
+
+/**
+ * Every achievement the engine knows about.
+ * Adding one means adding its id to AchievementId and an entry here.
+ */
+export const ACHIEVEMENT_REGISTRY: Record<AchievementId, AchievementDefinition> = {
+  'first-run': {
+    name: 'First Steps',
+    description: 'Finish your first run',
+    isEarned: (progress) => progress.totalRuns >= 1,
+  },
+  'distance-1000': {
+    name: 'Sprinter',
+    description: 'Run 1,000m in a single run',
+    isEarned: (_progress, run) => run.distance >= 1000,
+  },
+  'distance-5000': {
+    name: 'Marathoner',
+    description: 'Run 5,000m in a single run',
+    isEarned: (_progress, run) => run.distance >= 5000,
+  },
+  'distance-10000': {
+    name: 'Unstoppable',
+    description: 'Run 10,000m in a single run',
+    isEarned: (_progress, run) => run.distance >= 10000,
+  },
+  'talismans-5': {
+    name: 'Collector',
+    description: 'Collect 5 talismans in a single run',
+    isEarned: (_progress, run) => run.talismans >= 5,
+  },
+  'talismans-15': {
+    name: 'Hoarder',
+    description: 'Collect 15 talismans in a single run',
+    isEarned: (_progress, run) => run.talismans >= 15,
+  },
+  'no-death-3': {
+    name: 'Careful Runner',
+    description: 'Cash out 3 runs in a row without crashing',
+    isEarned: (progress) => progress.noDeathStreak >= 3,
+  },
+  'no-death-10': {
+    name: 'Untouchable',
+    description: 'Cash out 10 runs in a row without crashing',
+    isEarned: (progress) => progress.noDeathStreak >= 10,
+  },
+  'daily-3': {
+    name: 'Regular',
+    description: 'Play on 3 consecutive days',
+    isEarned: (progress) => progress.dayStreak >= 3,
+  },
+  'daily-7': {
+    name: 'Devoted',
+    description: 'Play on 7 consecutive days',
+    isEarned: (progress) => progress.dayStreak >= 7,
+  },
+};
+
+export const ACHIEVEMENT_IDS = Object.keys(ACHIEVEMENT_REGISTRY) as AchievementId[];
+
+/**
+ * UTC day number of a unix timestamp (seconds); quests rotate on this too
+ */
+export function dayIndex(timestamp: number): number {
+  return Math.floor(timestamp / SECONDS_PER_DAY);
+}
+
+export function createProgress(): PlayerProgress {
+  return {
+    totalRuns: 0,
+    totalDistance: 0,
+    totalTalismans: 0,
+    bestDistance: 0,
+    bestTalismans: 0,
+    noDeathStreak: 0,
+    bestNoDeathStreak: 0,
+    dayStreak: 0,
+    bestDayStreak: 0,
+    lastPlayedDay: null,
+    unlocked: {},
+  };
+}
+
+/**
+ * Add a run to the progress and report achievements it unlocked.
+ * Returns a new progress; the input is never mutated.
+ */
+export function recordRun(
+  progress: PlayerProgress,
+  run: RunSummary
+): { progress: PlayerProgress; unlocked: AchievementId[] } {
+  const day = dayIndex(run.endedAt);
+  let dayStreak = progress.dayStreak;
+  if (progress.lastPlayedDay === null || day > progress.lastPlayedDay + 1) {
+    dayStreak = 1;
+  } else if (day === progress.lastPlayedDay + 1) {
+    dayStreak += 1;
+  }
+
+  const noDeathStreak = run.died ? 0 : progress.noDeathStreak + 1;
+
+  const next: PlayerProgress = {
+    totalRuns: progress.totalRuns + 1,
+    totalDistance: progress.totalDistance + run.distance,
+    totalTalismans: progress.totalTalismans + run.talismans,
+    bestDistance: Math.max(progress.bestDistance, run.distance),
+    bestTalismans: Math.max(progress.bestTalismans, run.talismans),
+    noDeathStreak,
+    bestNoDeathStreak: Math.max(progress.bestNoDeathStreak, noDeathStreak),
+    dayStreak,
+    bestDayStreak: Math.max(progress.bestDayStreak, dayStreak),
+    lastPlayedDay: Math.max(progress.lastPlayedDay ?? day, day),
+    unlocked: progress.unlocked,
+  };
+
+  const unlocked = ACHIEVEMENT_IDS.filter(
+    (id) => next.unlocked[id] === undefined && ACHIEVEMENT_REGISTRY[id].isEarned(next, run)
+  );
+  if (unlocked.length > 0) {
+    next.unlocked = { ...next.unlocked };
+    for (const id of unlocked) next.unlocked[id] = run.endedAt;
+  }
+
+  return { progress: next, unlocked };
+}
@@ -0,0 +1,16 @@
+export {
+  ACHIEVEMENT_REGISTRY,
+  ACHIEVEMENT_IDS,
+  dayIndex,
+  createProgress,
+  recordRun,
+} from './achievements';
+export type { AchievementDefinition } from './achievements';
+export {
+  QUEST_POOL,
+  DAILY_QUEST_COUNT,
+  getDailyQuests,
+  questProgress,
+  isQuestComplete,
+} from './quests';
+export * from './types';
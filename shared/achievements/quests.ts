@@ -0,0 +1,117 @@
+import type { QuestDefinition, QuestSession } from './types';
+import { dayIndex } from './achievements';
+import { createRng } from '../dash/random';
+
+const TLSM = 10n ** 18n;
+
+// Quests offered each day
+export const DAILY_QUEST_COUNT = 3;
+
+/**
+ * Quests are measured on the day's ended sessions as recorded on-chain
+ * (TalismanGame.getSessionHistory), so the score verifier can attest them
+ * from the same data the player sees.
+ */
+export const QUEST_POOL: QuestDefinition[] = [
+  {
+    id: 'play-2-sessions',
+    name: 'Warm Up',
+    description: 'Finish 2 sessions',
+    metric: 'sessions',
+    target: 2,
+    reward: 2n * TLSM,
+  },
+  {
+    id: 'play-5-sessions',
+    name: 'Regular Shift',
+    description: 'Finish 5 sessions',
+    metric: 'sessions',
+    target: 5,
+    reward: 5n * TLSM,
+  },
+  {
+    id: 'collect-10',
+    name: 'Talisman Hunt',
+    description: 'Collect 10 talismans',
+    metric: 'talismans',
+    target: 10,
+    reward: 3n * TLSM,
+  },
+  {
+    id: 'collect-30',
+    name: 'Talisman Haul',
+    description: 'Collect 30 talismans',
+    metric: 'talismans',
+    target: 30,
+    reward: 8n * TLSM,
+  },
+  {
+    id: 'play-15-minutes',
+    name: 'Quarter Hour',
+    description: 'Play for 15 minutes',
+    metric: 'playTime',
+    target: 15 * 60,
+    reward: 3n * TLSM,
+  },
+  {
+    id: 'play-45-minutes',
+    name: 'Long Haul',
+    description: 'Play for 45 minutes',
+    metric: 'playTime',
+    target: 45 * 60,
+    reward: 8n * TLSM,
+  },
+  {
+    id: 'best-session-8',
+    name: 'Lucky Streak',
+    description: 'Collect 8 talismans in one session',
+    metric: 'bestSession',
+    target: 8,
+    reward: 4n * TLSM,
+  },
+];
+
+/**
+ * The quests offered on a UTC day; the same for every player
+ */
+export function getDailyQuests(day: number): QuestDefinition[] {
+  const rng = createRng(Math.imul(day, 0x9e3779b1));
+  const pool = [...QUEST_POOL];
+
+  // Partial Fisher-Yates shuffle
+  for (let i = 0; i < DAILY_QUEST_COUNT; i++) {
+    const j = i + Math.floor(rng.next() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, DAILY_QUEST_COUNT);
+}
+
+/**
+ * Progress towards a quest from the sessions ended on the given day
+ */
+export function questProgress(
+  quest: QuestDefinition,
+  sessions: readonly QuestSession[],
+  day: number
+): number {
+  const today = sessions.filter((s) => dayIndex(Number(s.endTime)) === day);
+
+  switch (quest.metric) {
+    case 'sessions':
+      return today.length;
+    case 'talismans':
+      return today.reduce((sum, s) => sum + Number(s.talismansCollected), 0);
+    case 'playTime':
+      return today.reduce((sum, s) => sum + Number(s.duration), 0);
+    case 'bestSession':
+      return today.reduce((best, s) => Math.max(best, Number(s.talismansCollected)), 0);
+  }
+}
+
+export function isQuestComplete(
+  quest: QuestDefinition,
+  sessions: readonly QuestSession[],
+  day: number
+): boolean {
+  return questProgress(quest, sessions, day) >= quest.target;
+}
@@ -0,0 +1,61 @@
+// viem decodes small uints as numbers, ethers as bigints
+export type Uint = bigint | number;
+
+// Outcome of one Dash run, as reported by useDashGame
+export interface RunSummary {
+  distance: number;
+  talismans: number;
+  // False when the player cashed out before crashing
+  died: boolean;
+  // Unix seconds
+  endedAt: number;
+}
+
+export type AchievementId =
+  | 'first-run'
+  | 'distance-1000'
+  | 'distance-5000'
+  | 'distance-10000'
+  | 'talismans-5'
+  | 'talismans-15'
+  | 'no-death-3'
+  | 'no-death-10'
+  | 'daily-3'
+  | 'daily-7';
+
+export interface PlayerProgress {
+  totalRuns: number;
+  totalDistance: number;
+  totalTalismans: number;
+  bestDistance: number;
+  bestTalismans: number;
+  // Consecutive runs cashed out without crashing
+  noDeathStreak: number;
+  bestNoDeathStreak: number;
+  // Consecutive UTC days with at least one run
+  dayStreak: number;
+  bestDayStreak: number;
+  lastPlayedDay: number | null;
+  // Unlock time (unix seconds) of each earned achievement
+  unlocked: Partial<Record<AchievementId, number>>;
+}
+
+export type QuestMetric = 'sessions' | 'talismans' | 'playTime' | 'bestSession';
+
+export interface QuestDefinition {
+  // Fits in a bytes32 on-chain
+  id: string;
+  name: string;
+  description: string;
+  metric: QuestMetric;
+  target: number;
+  // TLSM wei, vested like session rewards
+  reward: bigint;
+}
+
+// The fields of ITalismanGame.SessionRecord that quests are measured on
+export interface QuestSession {
+  endTime: Uint;
+  duration: Uint;
+  talismansCollected: Uint;
+}
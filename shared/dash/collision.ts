@@ -0,0 +1,66 @@
+import type { Player, Obstacle, DashTalisman, DashPowerUp } from './types';
+import { OBSTACLE_REGISTRY } from './obstacles';
+
+// AABB collision against each obstacle type's hitbox; returns every obstacle hit
+export function findObstacleCollisions(player: Player, obstacles: Obstacle[]): Obstacle[] {
+  // Smaller hitbox for more forgiving collision
+  const hitboxPadding = 5;
+  const px = player.x + hitboxPadding;
+  const py = player.y + hitboxPadding;
+  const pw = player.width - hitboxPadding * 2;
+  const ph = player.height - hitboxPadding * 2;
+
+  return obstacles.filter((obstacle) => {
+    const box = OBSTACLE_REGISTRY[obstacle.type].hitbox(obstacle);
+    if (!box) return false;
+
+    return (
+      px < box.x + box.width &&
+      px + pw > box.x &&
+      py < box.y + box.height &&
+      py + ph > box.y
+    );
+  });
+}
+
+export function checkObstacleCollision(player: Player, obstacles: Obstacle[]): boolean {
+  return findObstacleCollisions(player, obstacles).length > 0;
+}
+
+// Circle collision for anything the player picks up
+function collectPickups(
+  player: Player,
+  pickups: (DashTalisman | DashPowerUp)[],
+  pickupBonus: number
+): number[] {
+  const collectedIds: number[] = [];
+  const playerCenterX = player.x + player.width / 2;
+  const playerCenterY = player.y + player.height / 2;
+
+  for (const pickup of pickups) {
+    if (pickup.collected) continue;
+
+    const dx = playerCenterX - pickup.x;
+    const dy = playerCenterY - pickup.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+
+    // Generous pickup radius
+    if (distance < pickup.radius + player.width / 2 + 10 + pickupBonus) {
+      collectedIds.push(pickup.id);
+    }
+  }
+  return collectedIds;
+}
+
+// pickupBonus widens the radius (magnet)
+export function checkTalismanCollision(
+  player: Player,
+  talismans: DashTalisman[],
+  pickupBonus = 0
+): number[] {
+  return collectPickups(player, talismans, pickupBonus);
+}
+
+export function checkPowerUpCollision(player: Player, powerUps: DashPowerUp[]): number[] {
+  return collectPickups(player, powerUps, 0);
+}
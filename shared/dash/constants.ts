@@ -0,0 +1,79 @@
+// Bump whenever a gameplay constant or engine rule changes, so recorded
+// runs can tell whether they still simulate the same way
+export const DASH_CONSTANTS_VERSION = 5;
+
+// Canvas dimensions
+export const CANVAS_WIDTH = 800;
+export const CANVAS_HEIGHT = 450;
+export const GROUND_HEIGHT = 80;
+export const GROUND_Y = CANVAS_HEIGHT - GROUND_HEIGHT;
+
+// Simulation timing (physics constants below are per tick)
+export const TICK_RATE = 60;
+export const FIXED_TIMESTEP_MS = 1000 / TICK_RATE;
+export const MAX_FRAME_TIME_MS = 250; // Clamp long frames (throttled tabs) to avoid a catch-up spiral
+
+// Player constants
+export const PLAYER_START_X = 100;
+export const PLAYER_WIDTH = 40;
+export const PLAYER_HEIGHT = 50;
+export const JUMP_FORCE = -14;
+export const GRAVITY = 0.7;
+export const MAX_FALL_SPEED = 15;
+
+// Jump feel (durations in ticks)
+export const JUMP_CUT_VELOCITY = -9; // Releasing jump while rising caps upward speed (hold to jump higher)
+export const COYOTE_TICKS = 6; // Jump still allowed this long after leaving the ground
+export const JUMP_BUFFER_TICKS = 6; // A press this long before landing still jumps
+export const DOUBLE_JUMP_FORCE = -12;
+export const MAX_AIR_JUMPS = 1;
+export const PLAYER_DUCK_HEIGHT = 26;
+
+// Game progression
+export const BASE_SPEED = 6;
+export const MAX_SPEED = 14;
+export const SPEED_CURVE_DISTANCE = 2500; // Distance over which speed covers ~63% of BASE..MAX
+export const DIFFICULTY_TIER_DISTANCES = [0, 400, 1200, 2400]; // Distance at which each pattern tier unlocks
+
+// Spawning (gaps are between obstacle patterns)
+export const MIN_OBSTACLE_GAP = 250;
+export const MAX_OBSTACLE_GAP = 450;
+export const PATTERN_RUN_UP = 200; // Clear ground the reachability check assumes before each pattern
+export const TALISMAN_SPAWN_CHANCE = 0.012;
+export const OBSTACLE_SPAWN_DISTANCE = 150;
+
+// Obstacle sizes
+export const SPIKE_WIDTH = 30;
+export const SPIKE_HEIGHT = 40;
+export const BLOCK_WIDTH = 40;
+export const BLOCK_HEIGHT = 45;
+export const FLYER_WIDTH = 50;
+export const FLYER_HEIGHT = 90; // Too tall to clear with a single jump
+export const FLYER_CLEARANCE = 32; // Space below a flyer, only passable ducking
+export const WALL_WIDTH = 30;
+export const WALL_HEIGHT = 170; // Needs a double jump
+export const GAP_MIN_WIDTH = 90;
+export const GAP_MAX_WIDTH = 140;
+export const PLATFORM_WIDTH = 120;
+export const PLATFORM_HEIGHT = 14;
+export const PLATFORM_GAP_WIDTH = 320; // Pit under a moving platform
+export const PLATFORM_RIDE_HEIGHT = 80; // Platform centre above the ground
+export const PLATFORM_AMPLITUDE = 30;
+export const PLATFORM_PERIOD = 120; // Ticks per up-and-down cycle
+export const PLATFORM_SNAP = 4; // Vertical tolerance for landing on a moving platform
+
+// Talisman
+export const TALISMAN_RADIUS = 18;
+export const TALISMAN_FLOAT_HEIGHT = 120;
+
+// Power-ups (durations in ticks)
+export const POWER_UP_SPAWN_CHANCE = 0.002;
+export const POWER_UP_RADIUS = 16;
+export const POWER_UP_FLOAT_HEIGHT = 70;
+export const SHIELD_TICKS = 600; // Absorbs one collision while active
+export const MAGNET_TICKS = 480;
+export const MAGNET_RANGE = 180; // Talismans this close are pulled in
+export const MAGNET_PULL = 6; // px per tick
+export const MAGNET_PICKUP_BONUS = 30; // Extra pickup radius while the magnet is active
+export const SLOW_MOTION_TICKS = 300;
+export const SLOW_MOTION_FACTOR = 0.6;
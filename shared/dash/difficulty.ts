@@ -0,0 +1,32 @@
+import {
+  BASE_SPEED,
+  MAX_SPEED,
+  SPEED_CURVE_DISTANCE,
+  DIFFICULTY_TIER_DISTANCES,
+  SLOW_MOTION_FACTOR,
+} from './constants';
+
+/**
+ * Run speed as a function of distance: quick ramp early, easing towards MAX_SPEED
+ */
+export function speedAtDistance(distance: number): number {
+  return MAX_SPEED - (MAX_SPEED - BASE_SPEED) * Math.exp(-distance / SPEED_CURVE_DISTANCE);
+}
+
+/**
+ * Highest pattern tier unlocked at the given distance
+ */
+export function getDifficultyTier(distance: number): number {
+  let tier = 0;
+  for (let i = 1; i < DIFFICULTY_TIER_DISTANCES.length; i++) {
+    if (distance >= DIFFICULTY_TIER_DISTANCES[i]) tier = i;
+  }
+  return tier;
+}
+
+/**
+ * Speed the run actually moves at, including slow motion
+ */
+export function runSpeed(distance: number, slowMotionTicks: number): number {
+  return speedAtDistance(distance) * (slowMotionTicks > 0 ? SLOW_MOTION_FACTOR : 1);
+}
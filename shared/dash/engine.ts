@@ -0,0 +1,196 @@
+import type { DashSimState, DashInput, Obstacle, DashTalisman } from './types';
+import {
+  CANVAS_WIDTH,
+  CANVAS_HEIGHT,
+  GROUND_Y,
+  BASE_SPEED,
+  TALISMAN_SPAWN_CHANCE,
+  TALISMAN_RADIUS,
+  TALISMAN_FLOAT_HEIGHT,
+  POWER_UP_SPAWN_CHANCE,
+  MAGNET_PICKUP_BONUS,
+} from './constants';
+import { createRng, type Rng } from './random';
+import { createInitialPlayer, updatePlayer } from './physics';
+import { applyObstacleMotion } from './obstacles';
+import { generateChunk } from './generator';
+import { runSpeed } from './difficulty';
+import { findObstacleCollisions, checkTalismanCollision, checkPowerUpCollision } from './collision';
+import {
+  createActivePowerUps,
+  createPowerUp,
+  tickPowerUps,
+  activatePowerUps,
+  applyMagnet,
+} from './powerups';
+
+/**
+ * Deterministic Dash simulation.
+ * All randomness comes from the seeded PRNG carried in the state, so the same
+ * seed and the same input sequence always produce the same run.
+ */
+
+export function createTalisman(rng: Rng, id: number): DashTalisman {
+  return {
+    id,
+    x: CANVAS_WIDTH + 50,
+    y: GROUND_Y - TALISMAN_FLOAT_HEIGHT - rng.next() * 80,
+    radius: TALISMAN_RADIUS,
+    collected: false,
+    hue: 260 + rng.next() * 40 - 20, // Purple range
+  };
+}
+
+/**
+ * Create the state of a fresh run for the given seed
+ */
+export function createDashState(seed: number): DashSimState {
+  const rng = createRng(seed);
+  const firstObstacles = generateChunk(rng, 0, CANVAS_WIDTH, {
+    tick: 0,
+    distance: 0,
+    speed: BASE_SPEED,
+    slowMotionTicks: 0,
+  });
+
+  return {
+    seed: seed >>> 0,
+    rngState: rng.state,
+    tick: 0,
+    isGameOver: false,
+    player: createInitialPlayer(),
+    obstacles: firstObstacles,
+    talismans: [],
+    powerUps: [],
+    activePowerUps: createActivePowerUps(),
+    distance: 0,
+    talismansCollected: 0,
+    speed: BASE_SPEED,
+    groundOffset: 0,
+    nextObstacleId: firstObstacles.length,
+    nextTalismanId: 0,
+    nextPowerUpId: 0,
+  };
+}
+
+/**
+ * Advance the simulation by dt ticks (1 tick = 1 / TICK_RATE seconds).
+ * Returns a new state; the input state is never mutated.
+ */
+export function stepDash(state: DashSimState, input: DashInput, dt = 1): DashSimState {
+  if (state.isGameOver) return state;
+
+  const rng = createRng(state.rngState);
+  let nextObstacleId = state.nextObstacleId;
+  let nextTalismanId = state.nextTalismanId;
+  let nextPowerUpId = state.nextPowerUpId;
+  let activePowerUps = tickPowerUps(state.activePowerUps, dt);
+
+  const tick = state.tick + 1;
+
+  // Move obstacles and remove off-screen ones
+  let newObstacles = state.obstacles
+    .map((obs) => applyObstacleMotion({ ...obs, x: obs.x - state.speed * dt }, tick))
+    .filter((obs) => obs.x + obs.width > -100);
+
+  // Update player physics against the moved obstacles
+  const newPlayer = updatePlayer(state.player, input, dt, newObstacles);
+
+  // Move talismans (pulled in by the magnet) and remove off-screen/collected ones
+  let newTalismans = state.talismans
+    .map((t) => ({ ...t, x: t.x - state.speed * dt }))
+    .filter((t) => t.x > -50 && !t.collected);
+  if (activePowerUps.magnet > 0) {
+    newTalismans = applyMagnet(newTalismans, newPlayer, dt);
+  }
+
+  // Spawn new talismans randomly
+  if (rng.next() < TALISMAN_SPAWN_CHANCE * dt && newTalismans.length < 3) {
+    newTalismans.push(createTalisman(rng, nextTalismanId++));
+  }
+
+  // Move power-ups and spawn at most one at a time
+  let newPowerUps = state.powerUps
+    .map((p) => ({ ...p, x: p.x - state.speed * dt }))
+    .filter((p) => p.x > -50 && !p.collected);
+  if (rng.next() < POWER_UP_SPAWN_CHANCE * dt && newPowerUps.length === 0) {
+    newPowerUps.push(createPowerUp(rng, nextPowerUpId++));
+  }
+
+  // Check obstacle collision; a shield smashes through whatever was hit
+  const hits = findObstacleCollisions(newPlayer, newObstacles);
+  const isShielded = hits.length > 0 && activePowerUps.shield > 0;
+  if (isShielded) {
+    newObstacles = newObstacles.filter((obs) => !hits.includes(obs));
+    activePowerUps = { ...activePowerUps, shield: 0 };
+  }
+
+  // Game over on an unshielded hit or a fall into a gap
+  if ((hits.length > 0 && !isShielded) || newPlayer.y > CANVAS_HEIGHT) {
+    return {
+      ...state,
+      rngState: rng.state,
+      tick,
+      player: newPlayer,
+      isGameOver: true,
+      nextObstacleId,
+      nextTalismanId,
+      nextPowerUpId,
+    };
+  }
+  // Check talisman collection
+  const pickupBonus = activePowerUps.magnet > 0 ? MAGNET_PICKUP_BONUS : 0;
+  const collectedIds = checkTalismanCollision(newPlayer, newTalismans, pickupBonus);
+  if (collectedIds.length > 0) {
+    newTalismans = newTalismans.map((t) =>
+      collectedIds.includes(t.id) ? { ...t, collected: true } : t
+    );
+  }
+
+  // Check power-up collection
+  const collectedPowerUpIds = checkPowerUpCollision(newPlayer, newPowerUps);
+  if (collectedPowerUpIds.length > 0) {
+    activePowerUps = activatePowerUps(
+      activePowerUps,
+      newPowerUps.filter((p) => collectedPowerUpIds.includes(p.id))
+    );
+    newPowerUps = newPowerUps.map((p) =>
+      collectedPowerUpIds.includes(p.id) ? { ...p, collected: true } : p
+    );
+  }
+
+  // Speed follows the difficulty curve, slowed while slow motion is active
+  const distance = state.distance + (state.speed / 10) * dt;
+  const speed = runSpeed(distance, activePowerUps.slowMotion);
+
+  // Spawn the next chunk; obstacles can overlap, so follow the farthest right edge
+  const lastObstacle = newObstacles.reduce<Obstacle | undefined>(
+    (last, obs) => (!last || obs.x + obs.width > last.x + last.width ? obs : last),
+    undefined
+  );
+  if (!lastObstacle || lastObstacle.x < CANVAS_WIDTH - 100) {
+    const spawnX = lastObstacle ? lastObstacle.x + lastObstacle.width : CANVAS_WIDTH;
+    const progress = { tick, distance, speed, slowMotionTicks: activePowerUps.slowMotion };
+    const spawned = generateChunk(rng, nextObstacleId, spawnX, progress);
+    newObstacles.push(...spawned);
+    nextObstacleId += spawned.length;
+  }
+
+  return {
+    ...state,
+    rngState: rng.state,
+    tick,
+    player: newPlayer,
+    obstacles: newObstacles,
+    talismans: newTalismans,
+    powerUps: newPowerUps,
+    activePowerUps,
+    speed,
+    distance,
+    groundOffset: (state.groundOffset + state.speed * dt) % 100,
+    talismansCollected: state.talismansCollected + collectedIds.length,
+    nextObstacleId,
+    nextTalismanId,
+    nextPowerUpId,
+  };
+}
@@ -0,0 +1,37 @@
+import type { Obstacle } from './types';
+import type { Rng } from './random';
+import { MIN_OBSTACLE_GAP, MAX_OBSTACLE_GAP } from './constants';
+import { OBSTACLE_REGISTRY, pickObstacleType } from './obstacles';
+import { FALLBACK_PATTERN, pickPattern, type ObstaclePattern } from './patterns';
+import { isChunkClearable, type RunProgress } from './reachability';
+import { getDifficultyTier } from './difficulty';
+
+// Patterns tried before giving up and spawning the fallback
+const MAX_PATTERN_ATTEMPTS = 4;
+
+/**
+ * Spawn every obstacle of a pattern starting at x; ids are consecutive from `id`
+ */
+export function buildChunk(pattern: ObstaclePattern, rng: Rng, id: number, x: number): Obstacle[] {
+  const obstacles: Obstacle[] = [];
+  for (const entry of pattern.entries) {
+    const type = entry.type === 'random' ? pickObstacleType(rng) : entry.type;
+    obstacles.push(...OBSTACLE_REGISTRY[type].spawn(rng, id + obstacles.length, x + entry.offset));
+  }
+  return obstacles;
+}
+
+/**
+ * Spawn the next chunk one random gap after `lastEdgeX`, using a pattern
+ * from the tier unlocked at the current distance that the player can clear.
+ */
+export function generateChunk(rng: Rng, id: number, lastEdgeX: number, progress: RunProgress): Obstacle[] {
+  const x = lastEdgeX + MIN_OBSTACLE_GAP + rng.next() * (MAX_OBSTACLE_GAP - MIN_OBSTACLE_GAP);
+  const tier = getDifficultyTier(progress.distance);
+
+  for (let attempt = 0; attempt < MAX_PATTERN_ATTEMPTS; attempt++) {
+    const chunk = buildChunk(pickPattern(rng, tier), rng, id, x);
+    if (isChunkClearable(chunk, progress)) return chunk;
+  }
+  return buildChunk(FALLBACK_PATTERN, rng, id, x);
+}
@@ -0,0 +1,42 @@
+import type { DashSimState } from './types';
+import type { DashReplay } from './replay';
+import { createDashState, stepDash } from './engine';
+import { replayInputAt } from './replay';
+
+// The world scrolls `speed` pixels per tick while distance grows by speed / 10
+export const PIXELS_PER_DISTANCE = 10;
+
+export type RaceOutcome = 'win' | 'loss' | 'tie';
+
+/**
+ * Start a ghost: the opponent's run re-simulated from its seed
+ */
+export function createGhost(replay: DashReplay): DashSimState {
+  return createDashState(replay.seed);
+}
+
+/**
+ * Advance a ghost by one tick along its recorded inputs.
+ * Returns the same state once the recorded run is over.
+ */
+export function stepGhost(ghost: DashSimState, replay: DashReplay): DashSimState {
+  if (ghost.isGameOver || ghost.tick >= replay.ticks) return ghost;
+  return stepDash(ghost, replayInputAt(replay, ghost.tick));
+}
+
+/**
+ * Horizontal screen offset of the ghost relative to the runner.
+ * Positive when the ghost is ahead.
+ */
+export function ghostOffset(ghost: DashSimState, runner: DashSimState): number {
+  return (ghost.distance - runner.distance) * PIXELS_PER_DISTANCE;
+}
+
+/**
+ * Race result in whole meters, the unit distances are attested in
+ */
+export function raceOutcome(distance: number, ghostDistance: number): RaceOutcome {
+  const mine = Math.floor(distance);
+  const theirs = Math.floor(ghostDistance);
+  return mine > theirs ? 'win' : mine < theirs ? 'loss' : 'tie';
+}
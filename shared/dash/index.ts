@@ -0,0 +1,53 @@
+export * from './constants';
+export * from './types';
+export { createRng } from './random';
+export type { Rng } from './random';
+export { createInitialPlayer, updatePlayer } from './physics';
+export {
+  findObstacleCollisions,
+  checkObstacleCollision,
+  checkTalismanCollision,
+  checkPowerUpCollision,
+} from './collision';
+export {
+  createDashState,
+  stepDash,
+  createTalisman,
+} from './engine';
+export {
+  OBSTACLE_REGISTRY,
+  pickObstacleType,
+  applyObstacleMotion,
+} from './obstacles';
+export type { ObstacleDefinition } from './obstacles';
+export { speedAtDistance, runSpeed, getDifficultyTier } from './difficulty';
+export {
+  POWER_UP_TYPES,
+  POWER_UP_DURATIONS,
+  createActivePowerUps,
+  createPowerUp,
+  tickPowerUps,
+  activatePowerUps,
+  applyMagnet,
+} from './powerups';
+export { OBSTACLE_PATTERNS, FALLBACK_PATTERN, pickPattern } from './patterns';
+export type { ObstaclePattern, PatternEntry } from './patterns';
+export { isChunkClearable } from './reachability';
+export type { RunProgress } from './reachability';
+export { buildChunk, generateChunk } from './generator';
+export { interpolateDashState } from './interpolate';
+export {
+  DASH_REPLAY_VERSION,
+  EMPTY_INPUT_LOG,
+  recordToggle,
+  recordInput,
+  replayInputAt,
+  createReplay,
+  simulateReplay,
+  serializeReplay,
+  validateReplay,
+  parseReplay,
+} from './replay';
+export type { DashReplay, DashInputLog, DashRunOwner } from './replay';
+export { PIXELS_PER_DISTANCE, createGhost, stepGhost, ghostOffset, raceOutcome } from './ghost';
+export type { RaceOutcome } from './ghost';
@@ -0,0 +1,50 @@
+import type { DashSimState } from './types';
+
+// Ground pattern repeats every 100px (see stepDash)
+const GROUND_WRAP = 100;
+
+function lerp(from: number, to: number, alpha: number): number {
+  return from + (to - from) * alpha;
+}
+
+/**
+ * Blend two consecutive simulation states for rendering.
+ * alpha is the fraction of a tick elapsed since `current` was produced;
+ * the render lags the simulation by at most one tick.
+ */
+export function interpolateDashState<T extends DashSimState>(previous: T, current: T, alpha: number): T {
+  if (current.isGameOver || previous.tick === current.tick) return current;
+
+  const t = Math.min(Math.max(alpha, 0), 1);
+  const previousObstacles = new Map(previous.obstacles.map((o) => [o.id, o]));
+  const previousTalismans = new Map(previous.talismans.map((tl) => [tl.id, tl]));
+  const previousPowerUps = new Map(previous.powerUps.map((p) => [p.id, p]));
+  const groundDelta =
+    (((current.groundOffset - previous.groundOffset) % GROUND_WRAP) + GROUND_WRAP) % GROUND_WRAP;
+
+  return {
+    ...current,
+    player: {
+      ...current.player,
+      x: lerp(previous.player.x, current.player.x, t),
+      y: lerp(previous.player.y, current.player.y, t),
+    },
+    obstacles: current.obstacles.map((obstacle) => {
+      const before = previousObstacles.get(obstacle.id);
+      return before
+        ? { ...obstacle, x: lerp(before.x, obstacle.x, t), y: lerp(before.y, obstacle.y, t) }
+        : obstacle;
+    }),
+    talismans: current.talismans.map((talisman) => {
+      const before = previousTalismans.get(talisman.id);
+      return before
+        ? { ...talisman, x: lerp(before.x, talisman.x, t), y: lerp(before.y, talisman.y, t) }
+        : talisman;
+    }),
+    powerUps: current.powerUps.map((powerUp) => {
+      const before = previousPowerUps.get(powerUp.id);
+      return before ? { ...powerUp, x: lerp(before.x, powerUp.x, t) } : powerUp;
+    }),
+    groundOffset: (previous.groundOffset + groundDelta * t) % GROUND_WRAP,
+  };
+}
@@ -0,0 +1,152 @@
+import type { Obstacle, ObstacleType, Box } from './types';
+import type { Rng } from './random';
+import {
+  GROUND_Y,
+  CANVAS_HEIGHT,
+  SPIKE_WIDTH,
+  SPIKE_HEIGHT,
+  BLOCK_WIDTH,
+  BLOCK_HEIGHT,
+  FLYER_WIDTH,
+  FLYER_HEIGHT,
+  FLYER_CLEARANCE,
+  WALL_WIDTH,
+  WALL_HEIGHT,
+  GAP_MIN_WIDTH,
+  GAP_MAX_WIDTH,
+  PLATFORM_WIDTH,
+  PLATFORM_HEIGHT,
+  PLATFORM_GAP_WIDTH,
+  PLATFORM_RIDE_HEIGHT,
+  PLATFORM_AMPLITUDE,
+  PLATFORM_PERIOD,
+} from './constants';
+
+export interface ObstacleDefinition {
+  // Relative spawn weight
+  weight: number;
+  // Create the obstacle(s) for one spawn; ids are consecutive from `id`
+  spawn(rng: Rng, id: number, x: number): Obstacle[];
+  // Lethal area, or null if touching it is harmless
+  hitbox(obstacle: Obstacle): Box | null;
+  // Player can stand on the top surface
+  isPlatform?: boolean;
+  // Removes the ground beneath it
+  isGap?: boolean;
+}
+
+function groundObstacle(id: number, x: number, type: ObstacleType, width: number, height: number): Obstacle {
+  return { id, x, y: GROUND_Y - height, width, height, type, passed: false };
+}
+
+function fullHitbox(obstacle: Obstacle): Box {
+  return { x: obstacle.x, y: obstacle.y, width: obstacle.width, height: obstacle.height };
+}
+
+/**
+ * Every obstacle type the engine knows about.
+ * Adding a type means adding an entry here and a renderer in utils/canvas.ts.
+ */
+export const OBSTACLE_REGISTRY: Record<ObstacleType, ObstacleDefinition> = {
+  spike: {
+    weight: 30,
+    spawn: (_rng, id, x) => [groundObstacle(id, x, 'spike', SPIKE_WIDTH, SPIKE_HEIGHT)],
+    // Triangle - trim the empty corners
+    hitbox: (o) => ({ x: o.x + o.width * 0.2, y: o.y, width: o.width * 0.6, height: o.height }),
+  },
+  block: {
+    weight: 30,
+    spawn: (_rng, id, x) => [groundObstacle(id, x, 'block', BLOCK_WIDTH, BLOCK_HEIGHT)],
+    hitbox: fullHitbox,
+  },
+  flyer: {
+    weight: 15,
+    spawn: (_rng, id, x) => [
+      {
+        id,
+        x,
+        y: GROUND_Y - FLYER_CLEARANCE - FLYER_HEIGHT,
+        width: FLYER_WIDTH,
+        height: FLYER_HEIGHT,
+        type: 'flyer',
+        passed: false,
+      },
+    ],
+    hitbox: fullHitbox,
+  },
+  wall: {
+    weight: 10,
+    spawn: (_rng, id, x) => [groundObstacle(id, x, 'wall', WALL_WIDTH, WALL_HEIGHT)],
+    hitbox: fullHitbox,
+  },
+  gap: {
+    weight: 10,
+    spawn: (rng, id, x) => [
+      {
+        id,
+        x,
+        y: GROUND_Y,
+        width: GAP_MIN_WIDTH + rng.next() * (GAP_MAX_WIDTH - GAP_MIN_WIDTH),
+        height: CANVAS_HEIGHT - GROUND_Y,
+        type: 'gap',
+        passed: false,
+      },
+    ],
+    hitbox: () => null,
+    isGap: true,
+  },
+  platform: {
+    weight: 5,
+    // A wide pit with a moving platform over its middle
+    spawn: (rng, id, x) => {
+      const baseY = GROUND_Y - PLATFORM_RIDE_HEIGHT;
+      const phase = rng.next() * Math.PI * 2;
+      return [
+        {
+          id,
+          x,
+          y: GROUND_Y,
+          width: PLATFORM_GAP_WIDTH,
+          height: CANVAS_HEIGHT - GROUND_Y,
+          type: 'gap',
+          passed: false,
+        },
+        {
+          id: id + 1,
+          x: x + (PLATFORM_GAP_WIDTH - PLATFORM_WIDTH) / 2,
+          y: baseY + PLATFORM_AMPLITUDE * Math.sin(phase),
+          width: PLATFORM_WIDTH,
+          height: PLATFORM_HEIGHT,
+          type: 'platform',
+          passed: false,
+          motion: { baseY, amplitude: PLATFORM_AMPLITUDE, period: PLATFORM_PERIOD, phase },
+        },
+      ];
+    },
+    hitbox: () => null,
+    isPlatform: true,
+  },
+};
+
+const OBSTACLE_TYPES = Object.keys(OBSTACLE_REGISTRY) as ObstacleType[];
+const TOTAL_WEIGHT = OBSTACLE_TYPES.reduce((sum, type) => sum + OBSTACLE_REGISTRY[type].weight, 0);
+
+export function pickObstacleType(rng: Rng): ObstacleType {
+  let roll = rng.next() * TOTAL_WEIGHT;
+  for (const type of OBSTACLE_TYPES) {
+    roll -= OBSTACLE_REGISTRY[type].weight;
+    if (roll < 0) return type;
+  }
+  return OBSTACLE_TYPES[OBSTACLE_TYPES.length - 1];
+}
+
+/**
+ * Position of a moving obstacle at the given tick
+ */
+export function applyObstacleMotion(obstacle: Obstacle, tick: number): Obstacle {
+  const { motion } = obstacle;
+  if (!motion) return obstacle;
+
+  const angle = (tick / motion.period) * Math.PI * 2 + motion.phase;
+  return { ...obstacle, y: motion.baseY + motion.amplitude * Math.sin(angle) };
+}
@@ -0,0 +1,112 @@
+import type { ObstacleType } from './types';
+import type { Rng } from './random';
+
+export interface PatternEntry {
+  // 'random' draws a type using the registry spawn weights
+  type: ObstacleType | 'random';
+  // Left edge, relative to the start of the pattern
+  offset: number;
+}
+
+export interface ObstaclePattern {
+  name: string;
+  // Lowest difficulty tier the pattern appears in
+  tier: number;
+  weight: number;
+  entries: PatternEntry[];
+}
+
+/**
+ * Hand-authored obstacle patterns. Entries are sorted by offset and start at 0.
+ * Any combination too hard at the current speed is rejected by the
+ * reachability check, so these only need to be fair at some speed.
+ */
+export const OBSTACLE_PATTERNS: ObstaclePattern[] = [
+  // Tier 0 - one obstacle at a time
+  { name: 'spike', tier: 0, weight: 3, entries: [{ type: 'spike', offset: 0 }] },
+  { name: 'block', tier: 0, weight: 3, entries: [{ type: 'block', offset: 0 }] },
+  { name: 'gap', tier: 0, weight: 2, entries: [{ type: 'gap', offset: 0 }] },
+
+  // Tier 1 - pairs, ducking
+  {
+    name: 'spike-pair',
+    tier: 1,
+    weight: 2,
+    entries: [{ type: 'spike', offset: 0 }, { type: 'spike', offset: 30 }],
+  },
+  {
+    name: 'block-spike',
+    tier: 1,
+    weight: 2,
+    entries: [{ type: 'block', offset: 0 }, { type: 'spike', offset: 220 }],
+  },
+  { name: 'flyer', tier: 1, weight: 2, entries: [{ type: 'flyer', offset: 0 }] },
+  {
+    name: 'gap-block',
+    tier: 1,
+    weight: 1,
+    entries: [{ type: 'gap', offset: 0 }, { type: 'block', offset: 240 }],
+  },
+
+  // Tier 2 - double jumps and platforms
+  { name: 'random', tier: 2, weight: 3, entries: [{ type: 'random', offset: 0 }] },
+  { name: 'wall', tier: 2, weight: 2, entries: [{ type: 'wall', offset: 0 }] },
+  { name: 'platform', tier: 2, weight: 1, entries: [{ type: 'platform', offset: 0 }] },
+  {
+    name: 'spike-triple',
+    tier: 2,
+    weight: 2,
+    entries: [
+      { type: 'spike', offset: 0 },
+      { type: 'spike', offset: 30 },
+      { type: 'spike', offset: 60 },
+    ],
+  },
+  {
+    name: 'spike-flyer',
+    tier: 2,
+    weight: 2,
+    entries: [{ type: 'spike', offset: 0 }, { type: 'flyer', offset: 240 }],
+  },
+
+  // Tier 3 - mixed combos
+  {
+    name: 'block-wall',
+    tier: 3,
+    weight: 2,
+    entries: [{ type: 'block', offset: 0 }, { type: 'wall', offset: 240 }],
+  },
+  {
+    name: 'flyer-pair',
+    tier: 3,
+    weight: 2,
+    entries: [{ type: 'flyer', offset: 0 }, { type: 'flyer', offset: 160 }],
+  },
+  {
+    name: 'gap-gap',
+    tier: 3,
+    weight: 2,
+    entries: [{ type: 'gap', offset: 0 }, { type: 'gap', offset: 260 }],
+  },
+  {
+    name: 'platform-spike',
+    tier: 3,
+    weight: 1,
+    entries: [{ type: 'platform', offset: 0 }, { type: 'spike', offset: 400 }],
+  },
+];
+
+// Used when no pattern passes the reachability check
+export const FALLBACK_PATTERN = OBSTACLE_PATTERNS[0];
+
+export function pickPattern(rng: Rng, tier: number): ObstaclePattern {
+  const available = OBSTACLE_PATTERNS.filter((pattern) => pattern.tier <= tier);
+  const totalWeight = available.reduce((sum, pattern) => sum + pattern.weight, 0);
+
+  let roll = rng.next() * totalWeight;
+  for (const pattern of available) {
+    roll -= pattern.weight;
+    if (roll < 0) return pattern;
+  }
+  return available[available.length - 1];
+}
@@ -0,0 +1,148 @@
+import type { Player, Obstacle, DashInput } from './types';
+import {
+  GRAVITY,
+  MAX_FALL_SPEED,
+  JUMP_FORCE,
+  JUMP_CUT_VELOCITY,
+  COYOTE_TICKS,
+  JUMP_BUFFER_TICKS,
+  DOUBLE_JUMP_FORCE,
+  MAX_AIR_JUMPS,
+  PLAYER_HEIGHT,
+  PLAYER_DUCK_HEIGHT,
+  PLATFORM_SNAP,
+  GROUND_Y,
+  PLAYER_START_X,
+  PLAYER_WIDTH,
+} from './constants';
+import { OBSTACLE_REGISTRY } from './obstacles';
+
+export function createInitialPlayer(): Player {
+  return {
+    x: PLAYER_START_X,
+    y: GROUND_Y - PLAYER_HEIGHT,
+    width: PLAYER_WIDTH,
+    height: PLAYER_HEIGHT,
+    velocityY: 0,
+    isJumping: false,
+    isGrounded: true,
+    isDucking: false,
+    airJumpsLeft: MAX_AIR_JUMPS,
+    wasJumpPressed: false,
+    jumpBufferTicks: 0,
+    coyoteTicks: COYOTE_TICKS,
+  };
+}
+
+// Feet narrower than the body, so the player doesn't hang on the very edge of a ledge
+const FOOT_INSET = 5;
+
+function overlapsFeet(player: Player, obstacle: Obstacle): boolean {
+  return (
+    player.x + FOOT_INSET < obstacle.x + obstacle.width &&
+    player.x + player.width - FOOT_INSET > obstacle.x
+  );
+}
+
+/**
+ * Height of the surface that stops a player moving from prevFeet to newFeet,
+ * or null if they keep falling. Ground is missing over gaps; platforms are
+ * one-way and only catch the player from above.
+ */
+function findSupport(
+  player: Player,
+  prevFeet: number,
+  newFeet: number,
+  obstacles: Obstacle[]
+): number | null {
+  let support: number | null = null;
+
+  const landsOn = (top: number) =>
+    prevFeet <= top + PLATFORM_SNAP &&
+    (newFeet >= top || (player.isGrounded && top - newFeet <= PLATFORM_SNAP));
+
+  const overGap = obstacles.some((o) => OBSTACLE_REGISTRY[o.type].isGap && overlapsFeet(player, o));
+  if (!overGap && landsOn(GROUND_Y)) {
+    support = GROUND_Y;
+  }
+
+  for (const obstacle of obstacles) {
+    if (!OBSTACLE_REGISTRY[obstacle.type].isPlatform || !overlapsFeet(player, obstacle)) continue;
+    if (landsOn(obstacle.y) && (support === null || obstacle.y < support)) {
+      support = obstacle.y;
+    }
+  }
+
+  return support;
+}
+
+/**
+ * Advance the player by dt ticks (1 tick = 1 / TICK_RATE seconds)
+ */
+export function updatePlayer(
+  player: Player,
+  input: DashInput,
+  dt = 1,
+  obstacles: Obstacle[] = []
+): Player {
+  const newPlayer = { ...player };
+  const prevFeet = player.y + player.height;
+
+  // Duck - start only on the ground, stand up on release; feet stay in place
+  const wantsDuck = input.duck && !input.jump;
+  if (wantsDuck && player.isGrounded) {
+    newPlayer.height = PLAYER_DUCK_HEIGHT;
+  } else if (!wantsDuck) {
+    newPlayer.height = PLAYER_HEIGHT;
+  }
+  newPlayer.isDucking = newPlayer.height === PLAYER_DUCK_HEIGHT;
+  newPlayer.y = prevFeet - newPlayer.height;
+
+  // Jump buffer - a new press is remembered for a few ticks
+  const isNewPress = input.jump && !player.wasJumpPressed;
+  newPlayer.jumpBufferTicks = isNewPress
+    ? JUMP_BUFFER_TICKS
+    : Math.max(player.jumpBufferTicks - dt, 0);
+  newPlayer.wasJumpPressed = input.jump;
+
+  // Variable jump height - releasing while rising cuts the upward velocity
+  if (!input.jump && newPlayer.isJumping && newPlayer.velocityY < JUMP_CUT_VELOCITY) {
+    newPlayer.velocityY = JUMP_CUT_VELOCITY;
+  }
+
+  // Apply gravity
+  newPlayer.velocityY = Math.min(newPlayer.velocityY + GRAVITY * dt, MAX_FALL_SPEED);
+
+  // Apply velocity
+  newPlayer.y += newPlayer.velocityY * dt;
+
+  // Ground and platform collision
+  const support = findSupport(player, prevFeet, newPlayer.y + newPlayer.height, obstacles);
+  if (support !== null) {
+    newPlayer.y = support - newPlayer.height;
+    newPlayer.velocityY = 0;
+    newPlayer.isGrounded = true;
+    newPlayer.isJumping = false;
+    newPlayer.coyoteTicks = COYOTE_TICKS;
+    newPlayer.airJumpsLeft = MAX_AIR_JUMPS;
+  } else {
+    newPlayer.isGrounded = false;
+    newPlayer.coyoteTicks = Math.max(newPlayer.coyoteTicks - dt, 0);
+  }
+
+  // Jump input - buffered press while grounded or within coyote time,
+  // otherwise a fresh press in the air uses up an air jump
+  const canJump = !newPlayer.isJumping && (newPlayer.isGrounded || newPlayer.coyoteTicks > 0);
+  const isGroundJump = newPlayer.jumpBufferTicks > 0 && canJump;
+  const isAirJump = !isGroundJump && isNewPress && !newPlayer.isGrounded && newPlayer.airJumpsLeft > 0;
+  if (isGroundJump || isAirJump) {
+    newPlayer.velocityY = isGroundJump ? JUMP_FORCE : DOUBLE_JUMP_FORCE;
+    if (isAirJump) newPlayer.airJumpsLeft -= 1;
+    newPlayer.isJumping = true;
+    newPlayer.isGrounded = false;
+    newPlayer.jumpBufferTicks = 0;
+    newPlayer.coyoteTicks = 0;
+  }
+
+  return newPlayer;
+}
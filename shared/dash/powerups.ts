@@ -0,0 +1,76 @@
+import type { ActivePowerUps, DashPowerUp, DashTalisman, Player, PowerUpType } from './types';
+import type { Rng } from './random';
+import {
+  CANVAS_WIDTH,
+  GROUND_Y,
+  POWER_UP_RADIUS,
+  POWER_UP_FLOAT_HEIGHT,
+  SHIELD_TICKS,
+  MAGNET_TICKS,
+  MAGNET_RANGE,
+  MAGNET_PULL,
+  SLOW_MOTION_TICKS,
+} from './constants';
+
+export const POWER_UP_TYPES: PowerUpType[] = ['shield', 'magnet', 'slowMotion'];
+
+export const POWER_UP_DURATIONS: Record<PowerUpType, number> = {
+  shield: SHIELD_TICKS,
+  magnet: MAGNET_TICKS,
+  slowMotion: SLOW_MOTION_TICKS,
+};
+
+export function createActivePowerUps(): ActivePowerUps {
+  return { shield: 0, magnet: 0, slowMotion: 0 };
+}
+
+export function createPowerUp(rng: Rng, id: number): DashPowerUp {
+  return {
+    id,
+    x: CANVAS_WIDTH + 50,
+    y: GROUND_Y - POWER_UP_FLOAT_HEIGHT - rng.next() * 60,
+    radius: POWER_UP_RADIUS,
+    type: POWER_UP_TYPES[Math.floor(rng.next() * POWER_UP_TYPES.length)],
+    collected: false,
+  };
+}
+
+/**
+ * Count every active power-up down by dt ticks
+ */
+export function tickPowerUps(active: ActivePowerUps, dt = 1): ActivePowerUps {
+  return {
+    shield: Math.max(active.shield - dt, 0),
+    magnet: Math.max(active.magnet - dt, 0),
+    slowMotion: Math.max(active.slowMotion - dt, 0),
+  };
+}
+
+/**
+ * Start (or restart) the timer of each collected power-up
+ */
+export function activatePowerUps(active: ActivePowerUps, collected: DashPowerUp[]): ActivePowerUps {
+  const next = { ...active };
+  for (const powerUp of collected) {
+    next[powerUp.type] = POWER_UP_DURATIONS[powerUp.type];
+  }
+  return next;
+}
+
+/**
+ * Pull talismans within MAGNET_RANGE towards the player's centre
+ */
+export function applyMagnet(talismans: DashTalisman[], player: Player, dt = 1): DashTalisman[] {
+  const centerX = player.x + player.width / 2;
+  const centerY = player.y + player.height / 2;
+
+  return talismans.map((talisman) => {
+    const dx = centerX - talisman.x;
+    const dy = centerY - talisman.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    if (distance > MAGNET_RANGE || distance === 0) return talisman;
+
+    const step = Math.min(MAGNET_PULL * dt, distance);
+    return { ...talisman, x: talisman.x + (dx / distance) * step, y: talisman.y + (dy / distance) * step };
+  });
+}
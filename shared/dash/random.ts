@@ -0,0 +1,25 @@
+export interface Rng {
+  next(): number;
+  readonly state: number;
+}
+
+/**
+ * Mulberry32 PRNG. The whole generator state is a single uint32, so it can be
+ * stored in the simulation state and resumed from any tick.
+ */
+export function createRng(state: number): Rng {
+  let current = state >>> 0;
+
+  return {
+    next() {
+      current = (current + 0x6d2b79f5) >>> 0;
+      let t = current;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    get state() {
+      return current;
+    },
+  };
+}
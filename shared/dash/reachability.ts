@@ -0,0 +1,98 @@
+import type { DashInput, DashSimState, Obstacle, Player } from './types';
+import { CANVAS_HEIGHT, GROUND_Y, PATTERN_RUN_UP } from './constants';
+import { createInitialPlayer, updatePlayer } from './physics';
+import { applyObstacleMotion } from './obstacles';
+import { checkObstacleCollision } from './collision';
+import { runSpeed } from './difficulty';
+
+// The parts of the run that decide where obstacles will be on later ticks
+export type RunProgress = Pick<DashSimState, 'tick' | 'distance' | 'speed'> & {
+  slowMotionTicks: number;
+};
+
+// Inputs in the order they are tried; jumping early clears most patterns first time
+const SEARCH_INPUTS: DashInput[] = [
+  { jump: true, duck: false },
+  { jump: false, duck: false },
+  { jump: false, duck: true },
+];
+
+// Search limits; hitting either counts as unclearable, which is the safe answer
+const MAX_SEARCH_TICKS = 600;
+const MAX_SEARCH_STATES = 10000;
+
+// Same order as stepDash: obstacles move by the current speed, then speed follows distance.
+// Only slow motion already running is known; one picked up during the chunk is not modelled.
+function advance(obstacles: Obstacle[], progress: RunProgress): [Obstacle[], RunProgress] {
+  const tick = progress.tick + 1;
+  const moved = obstacles.map((obs) => applyObstacleMotion({ ...obs, x: obs.x - progress.speed }, tick));
+  const distance = progress.distance + progress.speed / 10;
+  const slowMotionTicks = Math.max(progress.slowMotionTicks - 1, 0);
+  return [moved, { tick, distance, speed: runSpeed(distance, slowMotionTicks), slowMotionTicks }];
+}
+
+// Coarse grid of player states. Merging near-identical states keeps the search
+// small; every explored state is still a real simulated one, so a path found
+// is a real path - merging can only make the answer more conservative.
+function playerKey(player: Player): string {
+  return [
+    Math.round(player.y / 4),
+    Math.round(player.velocityY / 2),
+    player.airJumpsLeft,
+    player.isDucking,
+    player.wasJumpPressed,
+  ].join();
+}
+
+/**
+ * Whether some input sequence gets the player past every obstacle in `chunk`
+ * and back over solid ground, using the real physics and the exact speed curve.
+ * `chunk` is positioned as freshly spawned by the step that produced `progress`.
+ * The player is assumed to be standing when the chunk is PATTERN_RUN_UP away.
+ */
+export function isChunkClearable(chunk: Obstacle[], progress: RunProgress): boolean {
+  if (chunk.length === 0) return true;
+
+  const start = createInitialPlayer();
+  const playerRight = start.x + start.width;
+  let obstacles = chunk;
+  let current = progress;
+
+  // Fast-forward the run-up; standing still is the same state every tick
+  while (Math.min(...obstacles.map((obs) => obs.x)) - playerRight > PATTERN_RUN_UP) {
+    [obstacles, current] = advance(obstacles, current);
+  }
+
+  // Obstacle positions don't depend on input, so they are shared by every branch
+  const timeline: Obstacle[][] = [];
+  const obstaclesAt = (step: number) => {
+    while (timeline.length <= step) {
+      [obstacles, current] = advance(obstacles, current);
+      timeline.push(obstacles);
+    }
+    return timeline[step];
+  };
+
+  // Depth-first over every input, skipping states already explored at the same tick
+  const visited = new Set<string>();
+  const search = (player: Player, step: number): boolean => {
+    if (step >= MAX_SEARCH_TICKS || visited.size >= MAX_SEARCH_STATES) return false;
+
+    const stepObstacles = obstaclesAt(step);
+    const isCleared = stepObstacles.every((obs) => obs.x + obs.width < start.x);
+
+    for (const input of SEARCH_INPUTS) {
+      const moved = updatePlayer(player, input, 1, stepObstacles);
+      if (checkObstacleCollision(moved, stepObstacles) || moved.y > CANVAS_HEIGHT) continue;
+      if (isCleared && moved.y + moved.height <= GROUND_Y) return true;
+
+      const key = `${step}:${playerKey(moved)}`;
+      if (visited.has(key)) continue;
+      visited.add(key);
+      if (search(moved, step + 1)) return true;
+    }
+    return false;
+  };
+
+  return search(start, 0);
+}
@@ -0,0 +1,188 @@
+import type { DashInput, DashSimState } from './types';
+import { DASH_CONSTANTS_VERSION } from './constants';
+import { createDashState, stepDash } from './engine';
+
+export const DASH_REPLAY_VERSION = 2;
+
+// Version 1 files predate ducking and have no duck log
+const SUPPORTED_REPLAY_VERSIONS = [1, DASH_REPLAY_VERSION];
+
+/**
+ * Per-button input history: the ticks at which each button toggled.
+ * Even entries are presses, odd entries are releases.
+ */
+export interface DashInputLog {
+  jumpToggles: number[];
+  duckToggles: number[];
+}
+
+export const EMPTY_INPUT_LOG: DashInputLog = { jumpToggles: [], duckToggles: [] };
+
+/**
+ * Which paid attempt of which session a run was played for. The run's seed is derived
+ * from these (keccak256 of the packed values, truncated to 32 bits), so a verifier can
+ * recompute it from the on-chain session instead of trusting a seed picked by the client.
+ */
+export interface DashRunOwner {
+  player: string;
+  // Session start time in seconds
+  sessionStart: number;
+  // Zero-based attempt index within the session
+  attempt: number;
+}
+
+/**
+ * A recorded run. The seed plus the tick numbers at which the inputs
+ * changed is enough to re-simulate the whole run deterministically.
+ */
+export interface DashReplay extends DashInputLog {
+  version: number;
+  constantsVersion: number;
+  seed: number;
+  // Number of ticks the run lasted
+  ticks: number;
+  // Final result, for display without re-simulating
+  distance: number;
+  talismans: number;
+  recordedAt: number;
+  // Set on session runs; runs on a ghost's seed have no owner
+  player?: string;
+  sessionStart?: number;
+  attempt?: number;
+}
+
+/**
+ * Record the state of one button for the step starting at `tick`.
+ * Returns the same array when the button did not change.
+ */
+export function recordToggle(toggles: number[], tick: number, pressed: boolean): number[] {
+  const isPressed = toggles.length % 2 === 1;
+  return pressed === isPressed ? toggles : [...toggles, tick];
+}
+
+/**
+ * Record the input used for the step starting at `tick`.
+ * Returns the same log when the input did not change.
+ */
+export function recordInput(log: DashInputLog, tick: number, input: DashInput): DashInputLog {
+  const jumpToggles = recordToggle(log.jumpToggles, tick, input.jump);
+  const duckToggles = recordToggle(log.duckToggles, tick, input.duck);
+  return jumpToggles === log.jumpToggles && duckToggles === log.duckToggles
+    ? log
+    : { jumpToggles, duckToggles };
+}
+
+function isPressedAt(toggles: number[], tick: number): boolean {
+  // Count toggles at or before tick (toggles are sorted)
+  let low = 0;
+  let high = toggles.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (toggles[mid] <= tick) low = mid + 1;
+    else high = mid;
+  }
+  return low % 2 === 1;
+}
+
+/**
+ * Input for the step starting at `tick`
+ */
+export function replayInputAt(log: DashInputLog, tick: number): DashInput {
+  return { jump: isPressedAt(log.jumpToggles, tick), duck: isPressedAt(log.duckToggles, tick) };
+}
+
+export function createReplay(state: DashSimState, log: DashInputLog, owner?: DashRunOwner): DashReplay {
+  return {
+    version: DASH_REPLAY_VERSION,
+    constantsVersion: DASH_CONSTANTS_VERSION,
+    seed: state.seed,
+    ticks: state.tick,
+    jumpToggles: log.jumpToggles,
+    duckToggles: log.duckToggles,
+    distance: state.distance,
+    talismans: state.talismansCollected,
+    recordedAt: Date.now(),
+    ...(owner && { player: owner.player, sessionStart: owner.sessionStart, attempt: owner.attempt }),
+  };
+}
+
+/**
+ * Re-simulate a replay up to the given tick (defaults to the end of the run)
+ */
+export function simulateReplay(replay: DashReplay, toTick = replay.ticks): DashSimState {
+  const target = Math.min(toTick, replay.ticks);
+  let state = createDashState(replay.seed);
+  while (state.tick < target && !state.isGameOver) {
+    state = stepDash(state, replayInputAt(replay, state.tick));
+  }
+  return state;
+}
+
+export function serializeReplay(replay: DashReplay): string {
+  return JSON.stringify(replay);
+}
+
+function isTickList(value: unknown): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.every((tick, i) => Number.isInteger(tick) && tick >= 0 && (i === 0 || tick > value[i - 1]))
+  );
+}
+
+/**
+ * Validate an already-decoded replay object. Throws on malformed input.
+ */
+export function validateReplay(value: unknown): DashReplay {
+  if (!value || typeof value !== 'object') throw new Error('Invalid replay file');
+
+  const data = value as Partial<DashReplay>;
+  if (!SUPPORTED_REPLAY_VERSIONS.includes(data.version!)) throw new Error('Unsupported replay version');
+  if (!Number.isInteger(data.constantsVersion)) throw new Error('Replay is missing the constants version');
+  if (!Number.isInteger(data.seed) || data.seed! < 0 || data.seed! > 0xffffffff) {
+    throw new Error('Invalid replay seed');
+  }
+  if (!Number.isInteger(data.ticks) || data.ticks! < 0) throw new Error('Invalid replay tick count');
+  const duckToggles = data.version === 1 ? [] : data.duckToggles;
+  if (!isTickList(data.jumpToggles) || !isTickList(duckToggles)) {
+    throw new Error('Invalid replay input log');
+  }
+  const hasOwner = data.player !== undefined || data.sessionStart !== undefined || data.attempt !== undefined;
+  if (
+    hasOwner &&
+    (typeof data.player !== 'string' ||
+      !/^0x[0-9a-fA-F]{40}$/.test(data.player) ||
+      !Number.isSafeInteger(data.sessionStart) ||
+      data.sessionStart! < 0 ||
+      !Number.isInteger(data.attempt) ||
+      data.attempt! < 0 ||
+      data.attempt! > 0xffffffff)
+  ) {
+    throw new Error('Invalid replay owner');
+  }
+
+  return {
+    version: data.version!,
+    constantsVersion: data.constantsVersion!,
+    seed: data.seed!,
+    ticks: data.ticks!,
+    jumpToggles: data.jumpToggles,
+    duckToggles,
+    distance: Number(data.distance ?? 0),
+    talismans: Number(data.talismans ?? 0),
+    recordedAt: Number(data.recordedAt ?? 0),
+    ...(hasOwner && { player: data.player, sessionStart: data.sessionStart, attempt: data.attempt }),
+  };
+}
+
+/**
+ * Parse and validate a replay file. Throws on malformed input.
+ */
+export function parseReplay(json: string): DashReplay {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Invalid replay JSON');
+  }
+  return validateReplay(data);
+}
@@ -0,0 +1,96 @@
+export interface Player {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  velocityY: number;
+  isJumping: boolean;
+  isGrounded: boolean;
+  isDucking: boolean;
+  // Extra jumps left before landing (double jump)
+  airJumpsLeft: number;
+  // Jump input on the previous tick, for press detection
+  wasJumpPressed: boolean;
+  // Ticks left in which a buffered press can still trigger a jump
+  jumpBufferTicks: number;
+  // Ticks left in which a jump is allowed after leaving the ground
+  coyoteTicks: number;
+}
+
+export type ObstacleType = 'spike' | 'block' | 'flyer' | 'wall' | 'gap' | 'platform';
+
+// Vertical oscillation for moving obstacles, driven by the simulation tick
+export interface ObstacleMotion {
+  baseY: number;
+  amplitude: number;
+  period: number;
+  phase: number;
+}
+
+export interface Obstacle {
+  id: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  type: ObstacleType;
+  passed: boolean;
+  motion?: ObstacleMotion;
+}
+
+// Axis-aligned rectangle
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DashTalisman {
+  id: number;
+  x: number;
+  y: number;
+  radius: number;
+  collected: boolean;
+  hue: number;
+}
+
+export type PowerUpType = 'shield' | 'magnet' | 'slowMotion';
+
+export interface DashPowerUp {
+  id: number;
+  x: number;
+  y: number;
+  radius: number;
+  type: PowerUpType;
+  collected: boolean;
+}
+
+// Ticks left on each power-up; 0 means inactive
+export type ActivePowerUps = Record<PowerUpType, number>;
+
+// Input sampled once per simulation step
+export interface DashInput {
+  jump: boolean;
+  duck: boolean;
+}
+
+// Everything needed to advance a run deterministically
+export interface DashSimState {
+  seed: number;
+  rngState: number;
+  tick: number;
+  isGameOver: boolean;
+  player: Player;
+  obstacles: Obstacle[];
+  talismans: DashTalisman[];
+  powerUps: DashPowerUp[];
+  activePowerUps: ActivePowerUps;
+  distance: number;
+  talismansCollected: number;
+  speed: number;
+  groundOffset: number;
+  nextObstacleId: number;
+  nextTalismanId: number;
+  nextPowerUpId: number;
+}
@@ -0,0 +1 @@
+export { PRE_VERIFICATION, preVerificationGasFor } from './preVerificationGas';
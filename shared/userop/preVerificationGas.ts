@@ -0,0 +1,36 @@
+/**
+ * preVerificationGas pricing shared by the bundler and the frontend, so the
+ * frontend never prices an operation below what the bundler estimates.
+ * Callers ABI-encode the UserOperation with their own library.
+ */
+
+// Calldata cost parameters, as in the reference bundler
+export const PRE_VERIFICATION = {
+  fixed: 21000n,
+  perUserOp: 18300n,
+  perUserOpWord: 4n,
+  zeroByte: 4n,
+  nonZeroByte: 16n,
+  bundleSize: 1n,
+  sigSize: 65,
+};
+
+/**
+ * Gas the bundler spends outside the EntryPoint's metering: the transaction's
+ * calldata for the ABI-encoded UserOperation plus its share of the bundle overhead.
+ * Encode it with a full-size signature so a placeholder doesn't underprice the real one.
+ */
+export function preVerificationGasFor(packed: Uint8Array): bigint {
+  let callDataCost = 0n;
+  for (const byte of packed) {
+    callDataCost += byte === 0 ? PRE_VERIFICATION.zeroByte : PRE_VERIFICATION.nonZeroByte;
+  }
+  const words = BigInt(Math.ceil(packed.length / 32));
+
+  return (
+    callDataCost +
+    PRE_VERIFICATION.fixed / PRE_VERIFICATION.bundleSize +
+    PRE_VERIFICATION.perUserOp +
+    PRE_VERIFICATION.perUserOpWord * words
+  );
+}
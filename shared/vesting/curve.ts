@@ -0,0 +1,61 @@
+/**
+ * Vesting curve shared by the frontend and the tests.
+ * Mirrors TalismanGame._vestedAmount with the same integer math, so amounts
+ * computed here match what the contract lets a player claim at the same time.
+ */
+
+// viem decodes small uints as numbers, ethers as bigints
+type Uint = bigint | number;
+
+export interface VestingTranche {
+  totalAmount: Uint;
+  claimedAmount: Uint;
+  startTime: Uint;
+  duration: Uint;
+  cliff: Uint;
+  stepDuration: Uint;
+  instantUnlockPercent: Uint;
+}
+
+/**
+ * Amount of a tranche vested at `now` (unix seconds), including claimed tokens
+ */
+export function vestedAmount(tranche: VestingTranche, now: Uint): bigint {
+  const total = BigInt(tranche.totalAmount);
+  const duration = BigInt(tranche.duration);
+  const stepDuration = BigInt(tranche.stepDuration);
+
+  // Client clocks can run behind the chain; treat that as no time elapsed
+  const time = BigInt(now);
+  const startTime = BigInt(tranche.startTime);
+  let elapsed = time > startTime ? time - startTime : 0n;
+  if (elapsed >= duration) return total;
+
+  // Instant unlock is available right away, the rest waits for the cliff
+  const instant = (total * BigInt(tranche.instantUnlockPercent)) / 100n;
+  if (elapsed < BigInt(tranche.cliff)) return instant;
+
+  // Step unlocks only release whole steps
+  if (stepDuration > 0n) {
+    elapsed -= elapsed % stepDuration;
+  }
+
+  return instant + ((total - instant) * elapsed) / duration;
+}
+
+/**
+ * Claimable amount of all tranches at `now`
+ */
+export function claimableAmount(tranches: readonly VestingTranche[], now: Uint): bigint {
+  return tranches.reduce(
+    (sum, tranche) => sum + vestedAmount(tranche, now) - BigInt(tranche.claimedAmount),
+    0n
+  );
+}
+
+/**
+ * Unix time at which a tranche is fully vested
+ */
+export function vestingEndTime(tranche: VestingTranche): bigint {
+  return BigInt(tranche.startTime) + BigInt(tranche.duration);
+}
@@ -0,0 +1,2 @@
+export { vestedAmount, claimableAmount, vestingEndTime } from './curve';
+export type { VestingTranche } from './curve';
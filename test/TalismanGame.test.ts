@@ -1,7 +1,13 @@
 import { expect } from 'chai';
 import { ethers } from 'hardhat';
 import { loadFixture, time } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
 import { TalismanToken, TalismanGame } from '../typechain-types';
+import { getGameDomain, signSessionResult, signQuestCompletion } from '../services/verifier';
+import { vestedAmount, claimableAmount } from '../shared/vesting';
+
+// Mirrors ITalismanGame.GameMode
+const GameMode = { Dash: 0, Search: 1 };
 
 describe('TalismanGame', function () {
   async function deployGameFixture() {
@@ -51,7 +57,7 @@ describe('TalismanGame', function () {
     it('Should start a game session', async function () {
       const { game, player1 } = await loadFixture(deployGameFixture);
 
-      await expect(game.connect(player1).startSession())
+      await expect(game.connect(player1).startSession(GameMode.Dash))
         .to.emit(game, 'SessionStarted');
 
       const session = await game.getSession(player1.address);
@@ -63,7 +69,7 @@ describe('TalismanGame', function () {
       const balanceBefore = await token.balanceOf(player1.address);
       const sessionCost = await game.sessionCost();
 
-      await game.connect(player1).startSession();
+      await game.connect(player1).startSession(GameMode.Dash);
 
       const balanceAfter = await token.balanceOf(player1.address);
       expect(balanceBefore - balanceAfter).to.equal(sessionCost);
@@ -72,17 +78,17 @@ describe('TalismanGame', function () {
     it('Should not allow starting a second session', async function () {
       const { game, player1 } = await loadFixture(deployGameFixture);
 
-      await game.connect(player1).startSession();
+      await game.connect(player1).startSession(GameMode.Dash);
 
       await expect(
-        game.connect(player1).startSession()
+        game.connect(player1).startSession(GameMode.Dash)
       ).to.be.revertedWith('TalismanGame: session already active');
     });
 
     it('Should end a session after minimum duration', async function () {
       const { game, player1 } = await loadFixture(deployGameFixture);
 
-      await game.connect(player1).startSession();
+      await game.connect(player1).startSession(GameMode.Dash);
 
       // Wait for minimum duration (60 seconds)
       await time.increase(61);
@@ -98,7 +104,7 @@ describe('TalismanGame', function () {
     it('Should not allow ending session before minimum duration', async function () {
       const { game, player1 } = await loadFixture(deployGameFixture);
 
-      await game.connect(player1).startSession();
+      await game.connect(player1).startSession(GameMode.Dash);
 
       await expect(
         game.connect(player1).endSession(0)
@@ -108,7 +114,7 @@ describe('TalismanGame', function () {
     it('Should cap rewards at max session duration', async function () {
       const { game, player1 } = await loadFixture(deployGameFixture);
 
-      await game.connect(player1).startSession();
+      await game.connect(player1).startSession(GameMode.Dash);
 
       // Wait for more than max duration (1 hour + extra)
       await time.increase(3700);
@@ -128,7 +134,7 @@ describe('TalismanGame', function () {
     it('Should apply 10% bonus per talisman', async function () {
       const { game, player1 } = await loadFixture(deployGameFixture);
 
-      await game.connect(player1).startSession();
+      await game.connect(player1).startSession(GameMode.Dash);
       await time.increase(120); // 2 minutes
 
       // End with 5 talismans = 1.5x multiplier
@@ -149,7 +155,7 @@ describe('TalismanGame', function () {
     it('Should cap bonus at 200% (3x max)', async function () {
       const { game, player1 } = await loadFixture(deployGameFixture);
 
-      await game.connect(player1).startSession();
+      await game.connect(player1).startSession(GameMode.Dash);
       await time.increase(120);
 
       // End with 30 talismans (would be 300% bonus), should be capped at 200% = 3x
@@ -166,7 +172,7 @@ describe('TalismanGame', function () {
     it('Should emit event with talisman count and multiplier', async function () {
       const { game, player1 } = await loadFixture(deployGameFixture);
 
-      await game.connect(player1).startSession();
+      await game.connect(player1).startSession(GameMode.Dash);
       await time.increase(120);
 
       // 10 talismans = 2x multiplier (100% + 100% bonus)
@@ -181,11 +187,385 @@ describe('TalismanGame', function () {
     });
   });
 
+  describe('Score Verification', function () {
+    async function deployWithVerifierFixture() {
+      const fixture = await deployGameFixture();
+      const [, , , verifier, impostor] = await ethers.getSigners();
+      await fixture.game.setScoreVerifier(verifier.address);
+      return { ...fixture, verifier, impostor };
+    }
+
+    // Signs a SessionResult for the player's current session
+    async function attest(
+      game: TalismanGame,
+      signer: HardhatEthersSigner,
+      player: string,
+      talismansCollected: bigint,
+      deadline?: bigint
+    ) {
+      const session = await game.getSession(player);
+      const { chainId } = await ethers.provider.getNetwork();
+      const expiry = deadline ?? BigInt(await time.latest()) + 600n;
+      const signature = await signSessionResult(signer, getGameDomain(chainId, await game.getAddress()), {
+        player,
+        sessionStart: session.startTime,
+        talismansCollected,
+        deadline: expiry,
+      });
+      return { deadline: expiry, signature };
+    }
+
+    it('Should allow owner to set the score verifier', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+
+      await expect(game.setScoreVerifier(player1.address))
+        .to.emit(game, 'ScoreVerifierUpdated')
+        .withArgs(player1.address);
+      expect(await game.scoreVerifier()).to.equal(player1.address);
+
+      await expect(
+        game.connect(player1).setScoreVerifier(player1.address)
+      ).to.be.revertedWith('Ownable: caller is not the owner');
+    });
+
+    it('Should end a session with a verified talisman count', async function () {
+      const { game, player1, verifier } = await loadFixture(deployWithVerifierFixture);
+
+      await game.connect(player1).startSession(GameMode.Dash);
+      await time.increase(120);
+
+      const { deadline, signature } = await attest(game, verifier, player1.address, 4n);
+      await expect(game.connect(player1).endSessionWithProof(4, deadline, signature))
+        .to.emit(game, 'SessionEnded');
+
+      const session = await game.getSession(player1.address);
+      expect(session.isActive).to.be.false;
+      expect(session.talismansCollected).to.equal(4);
+    });
+
+    it('Should reject a forged talisman count', async function () {
+      const { game, player1, verifier } = await loadFixture(deployWithVerifierFixture);
+
+      await game.connect(player1).startSession(GameMode.Dash);
+      await time.increase(120);
+
+      // Verifier attested 2, player claims 20
+      const { deadline, signature } = await attest(game, verifier, player1.address, 2n);
+      await expect(
+        game.connect(player1).endSessionWithProof(20, deadline, signature)
+      ).to.be.revertedWith('TalismanGame: invalid proof');
+    });
+
+    it('Should reject proofs not signed by the verifier', async function () {
+      const { game, player1, impostor } = await loadFixture(deployWithVerifierFixture);
+
+      await game.connect(player1).startSession(GameMode.Dash);
+      await time.increase(120);
+
+      const { deadline, signature } = await attest(game, impostor, player1.address, 20n);
+      await expect(
+        game.connect(player1).endSessionWithProof(20, deadline, signature)
+      ).to.be.revertedWith('TalismanGame: invalid proof');
+    });
+
+    it('Should reject proofs issued for another player', async function () {
+      const { game, player1, player2, verifier } = await loadFixture(deployWithVerifierFixture);
+
+      await game.connect(player1).startSession(GameMode.Dash);
+      await game.connect(player2).startSession(GameMode.Dash);
+      await time.increase(120);
+
+      const { deadline, signature } = await attest(game, verifier, player1.address, 10n);
+      await expect(
+        game.connect(player2).endSessionWithProof(10, deadline, signature)
+      ).to.be.revertedWith('TalismanGame: invalid proof');
+    });
+
+    it('Should reject a proof reused for a later session', async function () {
+      const { game, player1, verifier } = await loadFixture(deployWithVerifierFixture);
+
+      await game.connect(player1).startSession(GameMode.Dash);
+      await time.increase(120);
+      const proof = await attest(game, verifier, player1.address, 10n, BigInt(await time.latest()) + 3600n);
+      await game.connect(player1).endSessionWithProof(10, proof.deadline, proof.signature);
+
+      await game.connect(player1).startSession(GameMode.Dash);
+      await time.increase(120);
+      await expect(
+        game.connect(player1).endSessionWithProof(10, proof.deadline, proof.signature)
+      ).to.be.revertedWith('TalismanGame: invalid proof');
+    });
+
+    it('Should reject expired proofs', async function () {
+      const { game, player1, verifier } = await loadFixture(deployWithVerifierFixture);
+
+      await game.connect(player1).startSession(GameMode.Dash);
+      await time.increase(120);
+
+      const { deadline, signature } = await attest(game, verifier, player1.address, 3n);
+      await time.increase(601);
+      await expect(
+        game.connect(player1).endSessionWithProof(3, deadline, signature)
+      ).to.be.revertedWith('TalismanGame: proof expired');
+    });
+
+    it('Should require a proof for talisman bonuses once a verifier is set', async function () {
+      const { game, player1 } = await loadFixture(deployWithVerifierFixture);
+
+      await game.connect(player1).startSession(GameMode.Dash);
+      await time.increase(120);
+
+      await expect(
+        game.connect(player1).endSession(20)
+      ).to.be.revertedWith('TalismanGame: proof required');
+
+      // Ending without a bonus is still possible
+      await expect(game.connect(player1).endSession(0)).to.emit(game, 'SessionEnded');
+    });
+
+    it('Should reject proofs when no verifier is set', async function () {
+      const { game, player1, player2 } = await loadFixture(deployGameFixture);
+
+      await game.connect(player1).startSession(GameMode.Dash);
+      await time.increase(120);
+
+      const { deadline, signature } = await attest(game, player2, player1.address, 5n);
+      await expect(
+        game.connect(player1).endSessionWithProof(5, deadline, signature)
+      ).to.be.revertedWith('TalismanGame: no score verifier');
+    });
+  });
+
+  describe('Quest Bonuses', function () {
+    const QUEST_ID = ethers.encodeBytes32String('collect-10');
+    const REWARD = ethers.parseEther('3');
+
+    async function deployWithVerifierFixture() {
+      const fixture = await deployGameFixture();
+      const [, , , verifier, impostor] = await ethers.getSigners();
+      await fixture.game.setScoreVerifier(verifier.address);
+      return { ...fixture, verifier, impostor };
+    }
+
+    // Signs a QuestCompletion for today's quest
+    async function attestQuest(
+      game: TalismanGame,
+      signer: HardhatEthersSigner,
+      player: string,
+      reward = REWARD,
+      deadline?: bigint
+    ) {
+      const now = BigInt(await time.latest());
+      const day = now / 86400n;
+      const { chainId } = await ethers.provider.getNetwork();
+      const expiry = deadline ?? now + 600n;
+      const signature = await signQuestCompletion(signer, getGameDomain(chainId, await game.getAddress()), {
+        player,
+        day,
+        questId: QUEST_ID,
+        reward,
+        deadline: expiry,
+      });
+      return { day, deadline: expiry, signature };
+    }
+
+    it('Should vest an attested quest bonus', async function () {
+      const { game, player1, verifier } = await loadFixture(deployWithVerifierFixture);
+
+      const { day, deadline, signature } = await attestQuest(game, verifier, player1.address);
+      await expect(game.connect(player1).claimQuestBonus(day, QUEST_ID, REWARD, deadline, signature))
+        .to.emit(game, 'QuestBonusClaimed')
+        .withArgs(player1.address, day, QUEST_ID, REWARD);
+
+      const [tranche] = await game.getVestingTranches(player1.address);
+      expect(tranche.totalAmount).to.equal(REWARD);
+      expect(await game.totalUnclaimedRewards()).to.equal(REWARD);
+      expect(await game.isQuestClaimed(player1.address, day, QUEST_ID)).to.be.true;
+    });
+
+    it('Should pay each quest only once per day', async function () {
+      const { game, player1, verifier } = await loadFixture(deployWithVerifierFixture);
+
+      const { day, deadline, signature } = await attestQuest(game, verifier, player1.address);
+      await game.connect(player1).claimQuestBonus(day, QUEST_ID, REWARD, deadline, signature);
+
+      await expect(
+        game.connect(player1).claimQuestBonus(day, QUEST_ID, REWARD, deadline, signature)
+      ).to.be.revertedWith('TalismanGame: quest already claimed');
+    });
+
+    it('Should reject attestations for another player or reward', async function () {
+      const { game, player1, player2, verifier, impostor } = await loadFixture(deployWithVerifierFixture);
+
+      const { day, deadline, signature } = await attestQuest(game, verifier, player1.address);
+      await expect(
+        game.connect(player2).claimQuestBonus(day, QUEST_ID, REWARD, deadline, signature)
+      ).to.be.revertedWith('TalismanGame: invalid proof');
+      await expect(
+        game.connect(player1).claimQuestBonus(day, QUEST_ID, REWARD * 2n, deadline, signature)
+      ).to.be.revertedWith('TalismanGame: invalid proof');
+
+      const forged = await attestQuest(game, impostor, player1.address);
+      await expect(
+        game.connect(player1).claimQuestBonus(day, QUEST_ID, REWARD, forged.deadline, forged.signature)
+      ).to.be.revertedWith('TalismanGame: invalid proof');
+    });
+
+    it('Should reject expired attestations', async function () {
+      const { game, player1, verifier } = await loadFixture(deployWithVerifierFixture);
+
+      const { day, deadline, signature } = await attestQuest(game, verifier, player1.address);
+      await time.increaseTo(deadline + 1n);
+
+      await expect(
+        game.connect(player1).claimQuestBonus(day, QUEST_ID, REWARD, deadline, signature)
+      ).to.be.revertedWith('TalismanGame: proof expired');
+    });
+
+    it('Should cap bonuses at the max quest bonus', async function () {
+      const { game, player1, verifier } = await loadFixture(deployWithVerifierFixture);
+      const tooMuch = (await game.maxQuestBonus()) + 1n;
+
+      const { day, deadline, signature } = await attestQuest(game, verifier, player1.address, tooMuch);
+      await expect(
+        game.connect(player1).claimQuestBonus(day, QUEST_ID, tooMuch, deadline, signature)
+      ).to.be.revertedWith('TalismanGame: invalid quest bonus');
+    });
+
+    it('Should require a score verifier', async function () {
+      const { game, player1, player2 } = await loadFixture(deployGameFixture);
+
+      const { day, deadline, signature } = await attestQuest(game, player2, player1.address);
+      await expect(
+        game.connect(player1).claimQuestBonus(day, QUEST_ID, REWARD, deadline, signature)
+      ).to.be.revertedWith('TalismanGame: no score verifier');
+    });
+
+    it('Should allow owner to set the max quest bonus', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+      expect(await game.maxQuestBonus()).to.equal(ethers.parseEther('10'));
+
+      await expect(game.setMaxQuestBonus(ethers.parseEther('5')))
+        .to.emit(game, 'MaxQuestBonusUpdated')
+        .withArgs(ethers.parseEther('5'));
+      await expect(
+        game.connect(player1).setMaxQuestBonus(0)
+      ).to.be.revertedWith('Ownable: caller is not the owner');
+    });
+  });
+
+  describe('Game Modes', function () {
+    it('Should record the game mode in the session', async function () {
+      const { game, player1, player2 } = await loadFixture(deployGameFixture);
+
+      await expect(game.connect(player1).startSession(GameMode.Search))
+        .to.emit(game, 'SessionStarted')
+        .withArgs(player1.address, await time.latest() + 1, GameMode.Search);
+      await game.connect(player2).startSession(GameMode.Dash);
+
+      expect((await game.getSession(player1.address)).gameMode).to.equal(GameMode.Search);
+      expect((await game.getSession(player2.address)).gameMode).to.equal(GameMode.Dash);
+    });
+
+    it('Should reject an unknown game mode', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+
+      await expect(game.connect(player1).startSession(2)).to.be.reverted;
+    });
+
+    it('Should default every mode to a 1x multiplier', async function () {
+      const { game } = await loadFixture(deployGameFixture);
+      expect(await game.modeRewardMultiplier(GameMode.Dash)).to.equal(100);
+      expect(await game.modeRewardMultiplier(GameMode.Search)).to.equal(100);
+    });
+
+    it('Should scale rewards by the mode multiplier', async function () {
+      const { game, player1, player2 } = await loadFixture(deployGameFixture);
+      await game.setModeRewardMultiplier(GameMode.Search, 50);
+
+      await game.connect(player1).startSession(GameMode.Dash);
+      await game.connect(player2).startSession(GameMode.Search);
+      await time.increase(3700);
+      await game.connect(player1).endSession(2);
+      await game.connect(player2).endSession(2);
+
+      const dash = await game.getSession(player1.address);
+      const search = await game.getSession(player2.address);
+      expect(search.rewardEarned).to.equal(dash.rewardEarned / 2n);
+    });
+
+    it('Should allow owner to set a mode multiplier within bounds', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+
+      await expect(game.setModeRewardMultiplier(GameMode.Search, 150))
+        .to.emit(game, 'ModeRewardMultiplierUpdated')
+        .withArgs(GameMode.Search, 150);
+      expect(await game.modeRewardMultiplier(GameMode.Search)).to.equal(150);
+
+      await expect(
+        game.setModeRewardMultiplier(GameMode.Search, 0)
+      ).to.be.revertedWith('TalismanGame: invalid multiplier');
+      await expect(
+        game.setModeRewardMultiplier(GameMode.Search, 301)
+      ).to.be.revertedWith('TalismanGame: invalid multiplier');
+      await expect(
+        game.connect(player1).setModeRewardMultiplier(GameMode.Dash, 200)
+      ).to.be.revertedWith('Ownable: caller is not the owner');
+    });
+
+    it('Should reserve the mode-scaled reward when starting a session', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+
+      // Leave just enough in the pool for a 1x session at the max talisman bonus
+      const maxReward = (await game.maxSessionDuration()) * (await game.rewardRatePerSecond()) * 3n;
+      await game.withdrawRewardPool(ethers.parseEther('100000') - maxReward);
+      await game.setModeRewardMultiplier(GameMode.Search, 200);
+
+      await expect(
+        game.connect(player1).startSession(GameMode.Search)
+      ).to.be.revertedWith('TalismanGame: insufficient reward pool');
+      await expect(game.connect(player1).startSession(GameMode.Dash)).to.not.be.reverted;
+    });
+
+    it('Should pay no talisman bonus to Search sessions once a verifier is set', async function () {
+      const { game, player1, player2 } = await loadFixture(deployGameFixture);
+      await game.setScoreVerifier(player2.address);
+
+      await game.connect(player1).startSession(GameMode.Search);
+      await time.increase(120);
+
+      await expect(game.connect(player1).endSession(5)).to.be.revertedWith('TalismanGame: proof required');
+      await expect(game.connect(player1).endSession(0)).to.emit(game, 'SessionEnded');
+      expect((await game.getSession(player1.address)).talismansCollected).to.equal(0);
+    });
+
+    it('Should reject proofs for Search sessions', async function () {
+      const { game, player1, player2 } = await loadFixture(deployGameFixture);
+      await game.setScoreVerifier(player2.address);
+
+      await game.connect(player1).startSession(GameMode.Search);
+      await time.increase(120);
+
+      const session = await game.getSession(player1.address);
+      const { chainId } = await ethers.provider.getNetwork();
+      const deadline = BigInt(await time.latest()) + 600n;
+      const signature = await signSessionResult(player2, getGameDomain(chainId, await game.getAddress()), {
+        player: player1.address,
+        sessionStart: session.startTime,
+        talismansCollected: 5n,
+        deadline,
+      });
+      await expect(
+        game.connect(player1).endSessionWithProof(5, deadline, signature)
+      ).to.be.revertedWith('TalismanGame: mode not verifiable');
+    });
+  });
+
   describe('Retry Mechanism', function () {
     it('Should charge session cost on retry', async function () {
       const { token, game, player1 } = await loadFixture(deployGameFixture);
 
-      await game.connect(player1).startSession();
+      await game.connect(player1).startSession(GameMode.Dash);
       const balanceBefore = await token.balanceOf(player1.address);
       const sessionCost = await game.sessionCost();
 
@@ -198,7 +578,7 @@ describe('TalismanGame', function () {
     it('Should increment attempt count on retry', async function () {
       const { game, player1 } = await loadFixture(deployGameFixture);
 
-      await game.connect(player1).startSession();
+      await game.connect(player1).startSession(GameMode.Dash);
       expect(await game.getAttemptCount(player1.address)).to.equal(1);
 
       await game.connect(player1).retryGame();
@@ -211,7 +591,7 @@ describe('TalismanGame', function () {
     it('Should emit GameRetried event', async function () {
       const { game, player1 } = await loadFixture(deployGameFixture);
 
-      await game.connect(player1).startSession();
+      await game.connect(player1).startSession(GameMode.Dash);
       const sessionCost = await game.sessionCost();
 
       await expect(game.connect(player1).retryGame())
@@ -230,7 +610,7 @@ describe('TalismanGame', function () {
     it('Should reset attempt count on new session', async function () {
       const { game, player1 } = await loadFixture(deployGameFixture);
 
-      await game.connect(player1).startSession();
+      await game.connect(player1).startSession(GameMode.Dash);
       await game.connect(player1).retryGame();
       await game.connect(player1).retryGame();
       expect(await game.getAttemptCount(player1.address)).to.equal(3);
@@ -239,16 +619,201 @@ describe('TalismanGame', function () {
       await game.connect(player1).endSession(5);
 
       // Start new session
-      await game.connect(player1).startSession();
+      await game.connect(player1).startSession(GameMode.Dash);
       expect(await game.getAttemptCount(player1.address)).to.equal(1);
     });
   });
 
+  describe('Session Expiry', function () {
+    it('Should default to a two hour timeout', async function () {
+      const { game } = await loadFixture(deployGameFixture);
+      expect(await game.sessionTimeout()).to.equal(2 * 60 * 60);
+    });
+
+    it('Should expire a session after the timeout', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+
+      await game.connect(player1).startSession(GameMode.Dash);
+      expect(await game.isSessionExpired(player1.address)).to.be.false;
+
+      await time.increase(await game.sessionTimeout());
+      expect(await game.isSessionExpired(player1.address)).to.be.true;
+    });
+
+    it('Should let anyone settle an expired session at the capped duration', async function () {
+      const { game, player1, player2 } = await loadFixture(deployGameFixture);
+
+      await game.connect(player1).startSession(GameMode.Dash);
+      await time.increase(await game.sessionTimeout());
+
+      const maxDuration = await game.maxSessionDuration();
+      const expectedReward = maxDuration * (await game.rewardRatePerSecond());
+      await expect(game.connect(player2).settleExpiredSession(player1.address))
+        .to.emit(game, 'SessionSettled')
+        .withArgs(player1.address, player2.address)
+        .and.to.emit(game, 'SessionEnded')
+        .withArgs(player1.address, maxDuration, expectedReward, 0, 100);
+
+      const session = await game.getSession(player1.address);
+      expect(session.isActive).to.be.false;
+      expect(session.talismansCollected).to.equal(0);
+      expect(await game.totalReservedRewards()).to.equal(0);
+
+      // Reward vests for the player, who can start a new session
+      const [tranche] = await game.getVestingTranches(player1.address);
+      expect(tranche.totalAmount).to.equal(expectedReward);
+      await expect(game.connect(player1).startSession(GameMode.Dash)).to.not.be.reverted;
+    });
+
+    it('Should not settle a session before the timeout', async function () {
+      const { game, player1, player2 } = await loadFixture(deployGameFixture);
+
+      await game.connect(player1).startSession(GameMode.Dash);
+      await time.increase(await game.maxSessionDuration());
+
+      await expect(
+        game.connect(player2).settleExpiredSession(player1.address)
+      ).to.be.revertedWith('TalismanGame: session not expired');
+      await expect(
+        game.connect(player2).settleExpiredSession(player2.address)
+      ).to.be.revertedWith('TalismanGame: session not expired');
+    });
+
+    it('Should let the player forfeit a session without a reward', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+
+      await game.connect(player1).startSession(GameMode.Dash);
+      await time.increase(20);
+
+      await expect(game.connect(player1).forfeitSession())
+        .to.emit(game, 'SessionForfeited');
+
+      const session = await game.getSession(player1.address);
+      expect(session.isActive).to.be.false;
+      expect(session.rewardEarned).to.equal(0);
+      expect(await game.totalReservedRewards()).to.equal(0);
+      expect(await game.getVestingTranches(player1.address)).to.have.length(0);
+
+      // Forfeited sessions stay in the history
+      const record = await game.getSessionRecord(player1.address, 0);
+      expect(record.reward).to.equal(0);
+      expect(record.multiplier).to.equal(100);
+
+      await expect(game.connect(player1).forfeitSession())
+        .to.be.revertedWith('TalismanGame: no active session');
+    });
+
+    it('Should keep the timeout at or above the max session duration', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+
+      await expect(game.setSessionTimeout(3 * 60 * 60))
+        .to.emit(game, 'SessionTimeoutUpdated')
+        .withArgs(3 * 60 * 60);
+      await expect(
+        game.setSessionTimeout(30 * 60)
+      ).to.be.revertedWith('TalismanGame: timeout below max duration');
+      await expect(
+        game.setMaxSessionDuration(4 * 60 * 60)
+      ).to.be.revertedWith('TalismanGame: max exceeds timeout');
+      await expect(
+        game.connect(player1).setSessionTimeout(3 * 60 * 60)
+      ).to.be.revertedWith('Ownable: caller is not the owner');
+    });
+  });
+
+  describe('Session History', function () {
+    // Plays a session with the given number of retries and talismans
+    async function playSession(game: TalismanGame, player: HardhatEthersSigner, retries: number, talismans: number) {
+      await game.connect(player).startSession(GameMode.Dash);
+      for (let i = 0; i < retries; i++) {
+        await game.connect(player).retryGame();
+      }
+      await time.increase(120);
+      await game.connect(player).endSession(talismans);
+    }
+
+    it('Should start with an empty history', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+
+      expect(await game.getSessionCount(player1.address)).to.equal(0);
+      expect(await game.getSessionHistory(player1.address, 0, 10)).to.have.length(0);
+    });
+
+    it('Should record each ended session', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+
+      await playSession(game, player1, 2, 5);
+
+      expect(await game.getSessionCount(player1.address)).to.equal(1);
+      const session = await game.getSession(player1.address);
+      const record = await game.getSessionRecord(player1.address, 0);
+      expect(record.startTime).to.equal(session.startTime);
+      expect(record.endTime).to.equal(session.endTime);
+      expect(record.duration).to.equal(session.endTime - session.startTime);
+      expect(record.attempts).to.equal(3);
+      expect(record.gameMode).to.equal(GameMode.Dash);
+      expect(record.talismansCollected).to.equal(5);
+      expect(record.multiplier).to.equal(150);
+      expect(record.reward).to.equal(session.rewardEarned);
+    });
+
+    it('Should keep earlier sessions when a new one ends', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+
+      await playSession(game, player1, 0, 1);
+      await playSession(game, player1, 1, 2);
+      await playSession(game, player1, 0, 3);
+
+      expect(await game.getSessionCount(player1.address)).to.equal(3);
+      expect((await game.getSessionRecord(player1.address, 0)).talismansCollected).to.equal(1);
+      expect((await game.getSessionRecord(player1.address, 1)).attempts).to.equal(2);
+      expect((await game.getSessionRecord(player1.address, 2)).talismansCollected).to.equal(3);
+    });
+
+    it('Should keep a separate history per player', async function () {
+      const { game, player1, player2 } = await loadFixture(deployGameFixture);
+
+      await playSession(game, player1, 0, 1);
+      await playSession(game, player2, 0, 4);
+
+      expect(await game.getSessionCount(player1.address)).to.equal(1);
+      expect(await game.getSessionCount(player2.address)).to.equal(1);
+      expect((await game.getSessionRecord(player2.address, 0)).talismansCollected).to.equal(4);
+    });
+
+    it('Should page through the history', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+
+      for (let i = 1; i <= 5; i++) {
+        await playSession(game, player1, 0, i);
+      }
+
+      const firstPage = await game.getSessionHistory(player1.address, 0, 2);
+      expect(firstPage.map((r) => r.talismansCollected)).to.deep.equal([1n, 2n]);
+
+      const lastPage = await game.getSessionHistory(player1.address, 4, 2);
+      expect(lastPage.map((r) => r.talismansCollected)).to.deep.equal([5n]);
+
+      expect(await game.getSessionHistory(player1.address, 5, 2)).to.have.length(0);
+    });
+
+    it('Should not record a session that is still active', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+
+      await game.connect(player1).startSession(GameMode.Dash);
+
+      expect(await game.getSessionCount(player1.address)).to.equal(0);
+      await expect(
+        game.getSessionRecord(player1.address, 0)
+      ).to.be.revertedWith('TalismanGame: unknown session');
+    });
+  });
+
   describe('Vesting', function () {
     it('Should create vesting schedule on session end', async function () {
       const { game, player1 } = await loadFixture(deployGameFixture);
 
-      await game.connect(player1).startSession();
+      await game.connect(player1).startSession(GameMode.Dash);
       await time.increase(120); // 2 minutes
       await game.connect(player1).endSession(0);
 
@@ -260,7 +825,7 @@ describe('TalismanGame', function () {
     it('Should allow claiming vested rewards over time', async function () {
       const { game, player1 } = await loadFixture(deployGameFixture);
 
-      await game.connect(player1).startSession();
+      await game.connect(player1).startSession(GameMode.Dash);
       await time.increase(120);
       await game.connect(player1).endSession(0);
 
@@ -278,7 +843,7 @@ describe('TalismanGame', function () {
     it('Should allow claiming all rewards after vesting period', async function () {
       const { token, game, player1 } = await loadFixture(deployGameFixture);
 
-      await game.connect(player1).startSession();
+      await game.connect(player1).startSession(GameMode.Dash);
       await time.increase(120);
       await game.connect(player1).endSession(0);
 
@@ -298,7 +863,7 @@ describe('TalismanGame', function () {
     it('Should update claimed amount after claim', async function () {
       const { game, player1 } = await loadFixture(deployGameFixture);
 
-      await game.connect(player1).startSession();
+      await game.connect(player1).startSession(GameMode.Dash);
       await time.increase(120);
       await game.connect(player1).endSession(0);
 
@@ -321,6 +886,485 @@ describe('TalismanGame', function () {
     });
   });
 
+  describe('Vesting Tranches', function () {
+    async function playSession(game: TalismanGame, player: HardhatEthersSigner, seconds: number) {
+      await game.connect(player).startSession(GameMode.Dash);
+      await time.increase(seconds);
+      await game.connect(player).endSession(0);
+    }
+
+    it('Should create a tranche per session', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+
+      await playSession(game, player1, 120);
+      await playSession(game, player1, 180);
+
+      const tranches = await game.getVestingTranches(player1.address);
+      const history = await game.getSessionHistory(player1.address, 0, 2);
+      expect(tranches).to.have.length(2);
+      expect(tranches[0].totalAmount).to.equal(history[0].reward);
+      expect(tranches[1].totalAmount).to.equal(history[1].reward);
+      expect(tranches[0].startTime).to.equal(history[0].endTime);
+      expect(tranches[1].startTime).to.equal(history[1].endTime);
+    });
+
+    it('Should not re-lock a partly vested tranche when another session ends', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+      const vestingDuration = await game.vestingDuration();
+
+      await playSession(game, player1, 120);
+      await time.increase(Number(vestingDuration) / 2);
+      const claimableBefore = await game.getClaimableAmount(player1.address);
+
+      await playSession(game, player1, 120);
+
+      const [first] = await game.getVestingTranches(player1.address);
+      expect(first.duration).to.equal(vestingDuration);
+      expect(await game.getClaimableAmount(player1.address)).to.be.gt(claimableBefore);
+    });
+
+    it('Should sum the claimable amount across overlapping tranches', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+      const vestingDuration = Number(await game.vestingDuration());
+
+      await playSession(game, player1, 120);
+      await time.increase(vestingDuration / 4);
+      await playSession(game, player1, 300);
+      await time.increase(vestingDuration / 4);
+
+      const tranches = await game.getVestingTranches(player1.address);
+      const now = BigInt(await time.latest());
+      expect(await game.getClaimableAmount(player1.address)).to.equal(claimableAmount(tranches, now));
+    });
+
+    it('Should vest each tranche on its own schedule', async function () {
+      const { token, game, player1 } = await loadFixture(deployGameFixture);
+      const vestingDuration = Number(await game.vestingDuration());
+
+      await playSession(game, player1, 120);
+      await time.increase(vestingDuration / 2);
+      await playSession(game, player1, 120);
+      const [first, second] = await game.getVestingTranches(player1.address);
+
+      // First tranche fully vested, second about halfway
+      await time.increaseTo(first.startTime + first.duration);
+
+      const balanceBefore = await token.balanceOf(player1.address);
+      await game.connect(player1).claimRewards();
+      const claimed = (await token.balanceOf(player1.address)) - balanceBefore;
+
+      const claimTime = BigInt(await time.latest());
+      expect(claimed).to.equal(first.totalAmount + vestedAmount(second, claimTime));
+
+      // The drained tranche is dropped, the other keeps its progress
+      const open = await game.getVestingTranches(player1.address);
+      expect(open).to.have.length(1);
+      expect(open[0].startTime).to.equal(second.startTime);
+      expect(open[0].claimedAmount).to.equal(vestedAmount(second, claimTime));
+    });
+
+    it('Should drain every tranche once all have vested', async function () {
+      const { token, game, player1 } = await loadFixture(deployGameFixture);
+      const vestingDuration = Number(await game.vestingDuration());
+
+      await playSession(game, player1, 120);
+      await time.increase(vestingDuration / 3);
+      await playSession(game, player1, 240);
+      await game.connect(player1).claimRewards();
+      await time.increase(vestingDuration / 3);
+      await playSession(game, player1, 360);
+
+      const info = await game.getVestingInfo(player1.address);
+      await time.increase(vestingDuration + 1);
+
+      const balanceBefore = await token.balanceOf(player1.address);
+      await game.connect(player1).claimRewards();
+      const claimed = (await token.balanceOf(player1.address)) - balanceBefore;
+
+      expect(claimed).to.equal(info.totalAmount - info.claimedAmount);
+      expect(await game.totalUnclaimedRewards()).to.equal(0);
+      expect(await game.getVestingTranches(player1.address)).to.have.length(0);
+      await expect(
+        game.connect(player1).claimRewards()
+      ).to.be.revertedWith('TalismanGame: nothing to claim');
+    });
+
+    it('Should combine tranches in the vesting info', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+      const vestingDuration = await game.vestingDuration();
+
+      await playSession(game, player1, 120);
+      await time.increase(Number(vestingDuration) / 2);
+      await playSession(game, player1, 120);
+
+      const [first, second] = await game.getVestingTranches(player1.address);
+      const info = await game.getVestingInfo(player1.address);
+      expect(info.totalAmount).to.equal(first.totalAmount + second.totalAmount);
+      expect(info.claimedAmount).to.equal(0);
+      expect(info.startTime).to.equal(first.startTime);
+      expect(info.duration).to.equal(second.startTime + vestingDuration - first.startTime);
+    });
+  });
+
+  describe('Vesting Curves', function () {
+    const DAY = 24 * 60 * 60;
+
+    async function endSessionAfter(game: TalismanGame, player: HardhatEthersSigner, seconds: number) {
+      await game.connect(player).startSession(GameMode.Dash);
+      await time.increase(seconds);
+      await game.connect(player).endSession(0);
+      const tranches = await game.getVestingTranches(player.address);
+      return tranches[tranches.length - 1];
+    }
+
+    it('Should default to a linear curve', async function () {
+      const { game } = await loadFixture(deployGameFixture);
+      expect(await game.vestingCliff()).to.equal(0);
+      expect(await game.vestingStepDuration()).to.equal(0);
+      expect(await game.instantUnlockPercent()).to.equal(0);
+    });
+
+    it('Should allow owner to set the vesting curve', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+
+      await expect(game.setVestingCurve(2 * DAY, DAY, 25))
+        .to.emit(game, 'VestingCurveUpdated')
+        .withArgs(2 * DAY, DAY, 25);
+      expect(await game.vestingCliff()).to.equal(2 * DAY);
+      expect(await game.vestingStepDuration()).to.equal(DAY);
+      expect(await game.instantUnlockPercent()).to.equal(25);
+
+      await expect(
+        game.connect(player1).setVestingCurve(0, 0, 0)
+      ).to.be.revertedWith('Ownable: caller is not the owner');
+    });
+
+    it('Should reject curves that do not fit the vesting duration', async function () {
+      const { game } = await loadFixture(deployGameFixture);
+
+      await expect(
+        game.setVestingCurve(8 * DAY, 0, 0)
+      ).to.be.revertedWith('TalismanGame: cliff exceeds duration');
+      await expect(
+        game.setVestingCurve(0, 8 * DAY, 0)
+      ).to.be.revertedWith('TalismanGame: step exceeds duration');
+      await expect(
+        game.setVestingCurve(0, 0, 101)
+      ).to.be.revertedWith('TalismanGame: invalid unlock percent');
+
+      await game.setVestingCurve(3 * DAY, 0, 0);
+      await expect(
+        game.setVestingDuration(2 * DAY)
+      ).to.be.revertedWith('TalismanGame: duration below curve');
+    });
+
+    it('Should unlock the instant percentage immediately', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+      await game.setVestingCurve(0, 0, 20);
+
+      const tranche = await endSessionAfter(game, player1, 120);
+
+      expect(tranche.instantUnlockPercent).to.equal(20);
+      expect(await game.getClaimableAmount(player1.address)).to.equal(tranche.totalAmount / 5n);
+    });
+
+    it('Should hold back the linear part until the cliff', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+      await game.setVestingCurve(2 * DAY, 0, 10);
+
+      const tranche = await endSessionAfter(game, player1, 120);
+      const instant = tranche.totalAmount / 10n;
+
+      await time.increase(2 * DAY - 10);
+      expect(await game.getClaimableAmount(player1.address)).to.equal(instant);
+
+      // At the cliff everything vested so far unlocks at once
+      await time.increaseTo(tranche.startTime + BigInt(2 * DAY));
+      const afterCliff = await game.getClaimableAmount(player1.address);
+      expect(afterCliff).to.equal(instant + ((tranche.totalAmount - instant) * 2n) / 7n);
+    });
+
+    it('Should only unlock whole steps', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+      await game.setVestingCurve(0, DAY, 0);
+
+      const tranche = await endSessionAfter(game, player1, 120);
+
+      await time.increase(DAY - 10);
+      expect(await game.getClaimableAmount(player1.address)).to.equal(0);
+
+      await time.increaseTo(tranche.startTime + BigInt(DAY) + 3600n);
+      expect(await game.getClaimableAmount(player1.address)).to.equal(tranche.totalAmount / 7n);
+    });
+
+    it('Should keep the curve of existing tranches when the config changes', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+      await game.setVestingCurve(0, 0, 50);
+
+      const first = await endSessionAfter(game, player1, 120);
+      await game.setVestingCurve(DAY, DAY, 0);
+      const second = await endSessionAfter(game, player1, 120);
+
+      const [stored] = await game.getVestingTranches(player1.address);
+      expect(stored.instantUnlockPercent).to.equal(50);
+      expect(stored.cliff).to.equal(0);
+      expect(second.cliff).to.equal(DAY);
+      expect(second.stepDuration).to.equal(DAY);
+      expect(second.instantUnlockPercent).to.equal(0);
+
+      // Only the first tranche's instant unlock is claimable yet
+      const now = BigInt(await time.latest());
+      expect(await game.getClaimableAmount(player1.address)).to.equal(vestedAmount(first, now));
+    });
+  });
+
+  describe('Early Claim', function () {
+    const DAY = 24 * 60 * 60;
+
+    async function endSessionAfter(game: TalismanGame, player: HardhatEthersSigner, seconds: number) {
+      await game.connect(player).startSession(GameMode.Dash);
+      await time.increase(seconds);
+      await game.connect(player).endSession(0);
+      const tranches = await game.getVestingTranches(player.address);
+      return tranches[tranches.length - 1];
+    }
+
+    it('Should default to a burned 50% penalty', async function () {
+      const { game } = await loadFixture(deployGameFixture);
+      expect(await game.earlyUnlockPenaltyPercent()).to.equal(50);
+      expect(await game.burnEarlyUnlockPenalty()).to.be.true;
+    });
+
+    it('Should charge the full penalty on a fresh tranche', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+      const tranche = await endSessionAfter(game, player1, 120);
+
+      const [amount, penalty] = await game.previewEarlyClaim(player1.address);
+      expect(amount + penalty).to.equal(tranche.totalAmount);
+      expect(penalty).to.equal(tranche.totalAmount / 2n);
+    });
+
+    it('Should slide the penalty down as the tranche vests', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+      const tranche = await endSessionAfter(game, player1, 120);
+
+      await time.increaseTo(tranche.startTime + BigInt(DAY));
+      const [, earlyPenalty] = await game.previewEarlyClaim(player1.address);
+
+      await time.increaseTo(tranche.startTime + BigInt(5 * DAY));
+      const [amount, latePenalty] = await game.previewEarlyClaim(player1.address);
+      expect(latePenalty).to.be.lessThan(earlyPenalty);
+
+      // Penalty applies to the 2/7 still unvested, scaled by the 2/7 remaining
+      const unvested = tranche.totalAmount - (tranche.totalAmount * 5n) / 7n;
+      expect(latePenalty).to.equal((unvested * 50n * BigInt(2 * DAY)) / (100n * BigInt(7 * DAY)));
+      expect(amount).to.equal(tranche.totalAmount - latePenalty);
+
+      await time.increaseTo(tranche.startTime + BigInt(7 * DAY));
+      const [fullAmount, noPenalty] = await game.previewEarlyClaim(player1.address);
+      expect(noPenalty).to.equal(0);
+      expect(fullAmount).to.equal(tranche.totalAmount);
+    });
+
+    it('Should pay out everything minus the penalty and burn it', async function () {
+      const { token, game, player1 } = await loadFixture(deployGameFixture);
+      const tranche = await endSessionAfter(game, player1, 120);
+      await time.increaseTo(tranche.startTime + BigInt(3 * DAY));
+
+      const [, previewPenalty] = await game.previewEarlyClaim(player1.address);
+      const supplyBefore = await token.totalSupply();
+      const balanceBefore = await token.balanceOf(player1.address);
+      const tx = await game.connect(player1).earlyClaim(previewPenalty);
+      const receipt = await tx.wait();
+      const event = game.interface.parseLog(receipt!.logs[receipt!.logs.length - 1])!;
+      const [player, amount, penalty, burned] = event.args;
+
+      // The claim lands a block later, so the penalty can only have shrunk
+      expect(player).to.equal(player1.address);
+      expect(burned).to.be.true;
+      expect(penalty).to.be.greaterThan(0);
+      expect(penalty).to.be.at.most(previewPenalty);
+      expect(amount + penalty).to.equal(tranche.totalAmount);
+      expect(await token.balanceOf(player1.address)).to.equal(balanceBefore + amount);
+      expect(await token.totalSupply()).to.equal(supplyBefore - penalty);
+      expect(await game.totalUnclaimedRewards()).to.equal(0);
+    });
+
+    it('Should return the penalty to the reward pool when not burning', async function () {
+      const { token, game, player1 } = await loadFixture(deployGameFixture);
+      await game.setEarlyUnlockPenalty(40, false);
+      await endSessionAfter(game, player1, 120);
+
+      const supplyBefore = await token.totalSupply();
+      const poolBefore = await token.balanceOf(await game.getAddress());
+      const tx = await game.connect(player1).earlyClaim(ethers.MaxUint256);
+      const receipt = await tx.wait();
+      const event = game.interface.parseLog(receipt!.logs[receipt!.logs.length - 1])!;
+      const [, amount, penalty, burned] = event.args;
+
+      expect(burned).to.be.false;
+      expect(penalty).to.be.greaterThan(0);
+      expect(await token.totalSupply()).to.equal(supplyBefore);
+      expect(await token.balanceOf(await game.getAddress())).to.equal(poolBefore - amount);
+      expect(await game.totalUnclaimedRewards()).to.equal(0);
+    });
+
+    it('Should include already vested tokens without penalty', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+      const first = await endSessionAfter(game, player1, 120);
+      await time.increaseTo(first.startTime + BigInt(7 * DAY));
+      const second = await endSessionAfter(game, player1, 120);
+
+      const [amount, penalty] = await game.previewEarlyClaim(player1.address);
+      expect(amount).to.equal(first.totalAmount + second.totalAmount - penalty);
+      expect(penalty).to.equal(second.totalAmount / 2n);
+    });
+
+    it('Should drain every tranche', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+      await endSessionAfter(game, player1, 120);
+      await endSessionAfter(game, player1, 120);
+
+      await game.connect(player1).earlyClaim(ethers.MaxUint256);
+
+      expect(await game.getVestingTranches(player1.address)).to.have.length(0);
+      expect(await game.getClaimableAmount(player1.address)).to.equal(0);
+      await expect(
+        game.connect(player1).earlyClaim(ethers.MaxUint256)
+      ).to.be.revertedWith('TalismanGame: nothing to claim');
+    });
+
+    it('Should reject a penalty above the accepted limit', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+      await endSessionAfter(game, player1, 120);
+
+      const [, penalty] = await game.previewEarlyClaim(player1.address);
+      await expect(
+        game.connect(player1).earlyClaim(penalty / 2n)
+      ).to.be.revertedWith('TalismanGame: penalty above limit');
+    });
+
+    it('Should allow owner to set the early unlock penalty', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+
+      await expect(game.setEarlyUnlockPenalty(30, false))
+        .to.emit(game, 'EarlyUnlockPenaltyUpdated')
+        .withArgs(30, false);
+      expect(await game.earlyUnlockPenaltyPercent()).to.equal(30);
+      expect(await game.burnEarlyUnlockPenalty()).to.be.false;
+
+      await expect(
+        game.setEarlyUnlockPenalty(101, true)
+      ).to.be.revertedWith('TalismanGame: invalid penalty percent');
+      await expect(
+        game.connect(player1).setEarlyUnlockPenalty(10, true)
+      ).to.be.revertedWith('Ownable: caller is not the owner');
+    });
+  });
+
+  describe('Reward Reservation', function () {
+    async function maxPotentialReward(game: TalismanGame) {
+      // Full duration at the max talisman bonus (3x) for a 1x mode
+      return (await game.maxSessionDuration()) * (await game.rewardRatePerSecond()) * 3n;
+    }
+
+    it('Should reserve the worst-case reward when a session starts', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+      const maxReward = await maxPotentialReward(game);
+      const availableBefore = await game.availableRewards();
+
+      await game.connect(player1).startSession(GameMode.Dash);
+
+      const sessionCost = await game.sessionCost();
+      expect(await game.getReservedReward(player1.address)).to.equal(maxReward);
+      expect(await game.totalReservedRewards()).to.equal(maxReward);
+      expect(await game.availableRewards()).to.equal(availableBefore + sessionCost - maxReward);
+    });
+
+    it('Should release the reservation when the session ends', async function () {
+      const { token, game, player1 } = await loadFixture(deployGameFixture);
+
+      await game.connect(player1).startSession(GameMode.Dash);
+      await time.increase(120);
+      await game.connect(player1).endSession(3);
+
+      const balance = await token.balanceOf(await game.getAddress());
+      expect(await game.getReservedReward(player1.address)).to.equal(0);
+      expect(await game.totalReservedRewards()).to.equal(0);
+      expect(await game.availableRewards()).to.equal(balance - (await game.totalUnclaimedRewards()));
+    });
+
+    it('Should keep concurrent max-multiplier sessions solvent', async function () {
+      const { token, game } = await loadFixture(deployGameFixture);
+      const players = (await ethers.getSigners()).slice(3, 9);
+      const maxReward = await maxPotentialReward(game);
+      const gameAddress = await game.getAddress();
+
+      for (const player of players) {
+        await token.transfer(player.address, ethers.parseEther('100'));
+        await token.connect(player).approve(gameAddress, ethers.MaxUint256);
+      }
+
+      // Leave room for all but the last player's worst case
+      const fundedSessions = BigInt(players.length - 1);
+      await game.withdrawRewardPool((await game.availableRewards()) - fundedSessions * maxReward);
+
+      for (const player of players.slice(0, -1)) {
+        await game.connect(player).startSession(GameMode.Dash);
+      }
+      await expect(
+        game.connect(players[players.length - 1]).startSession(GameMode.Dash)
+      ).to.be.revertedWith('TalismanGame: insufficient reward pool');
+
+      // Nothing reserved can be withdrawn meanwhile
+      await expect(
+        game.withdrawRewardPool((await game.availableRewards()) + 1n)
+      ).to.be.revertedWith('TalismanGame: insufficient available');
+
+      // Every session ends at the full duration and the max talisman bonus
+      await time.increase(await game.maxSessionDuration());
+      for (const player of players.slice(0, -1)) {
+        await game.connect(player).endSession(100);
+      }
+
+      expect(await game.totalUnclaimedRewards()).to.equal(fundedSessions * maxReward);
+      expect(await game.totalReservedRewards()).to.equal(0);
+      expect(await token.balanceOf(gameAddress)).to.be.at.least(await game.totalUnclaimedRewards());
+
+      // And every reward can actually be paid out
+      await time.increase(await game.vestingDuration());
+      for (const player of players.slice(0, -1)) {
+        await game.connect(player).claimRewards();
+      }
+      expect(await game.totalUnclaimedRewards()).to.equal(0);
+      expect(await token.balanceOf(gameAddress)).to.equal(await game.availableRewards());
+    });
+
+    it('Should scale the reservation by the game mode multiplier', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+      await game.setModeRewardMultiplier(GameMode.Search, 250);
+
+      await game.connect(player1).startSession(GameMode.Search);
+
+      const maxReward = await maxPotentialReward(game);
+      expect(await game.getReservedReward(player1.address)).to.equal((maxReward * 250n) / 100n);
+    });
+
+    it('Should cap the reward at the reservation if the rate rises mid-session', async function () {
+      const { game, player1 } = await loadFixture(deployGameFixture);
+
+      await game.connect(player1).startSession(GameMode.Dash);
+      const reserved = await game.getReservedReward(player1.address);
+
+      await game.setRewardRate((await game.rewardRatePerSecond()) * 10n);
+      await time.increase(await game.maxSessionDuration());
+      await game.connect(player1).endSession(100);
+
+      const session = await game.getSession(player1.address);
+      expect(session.rewardEarned).to.equal(reserved);
+    });
+  });
+
   describe('Admin Functions', function () {
     it('Should allow owner to set session cost', async function () {
       const { game, owner } = await loadFixture(deployGameFixture);
@@ -344,12 +1388,12 @@ describe('TalismanGame', function () {
       await game.connect(owner).pause();
 
       await expect(
-        game.connect(player1).startSession()
+        game.connect(player1).startSession(GameMode.Dash)
       ).to.be.revertedWith('Pausable: paused');
 
       await game.connect(owner).unpause();
 
-      await expect(game.connect(player1).startSession()).to.not.be.reverted;
+      await expect(game.connect(player1).startSession(GameMode.Dash)).to.not.be.reverted;
     });
 
     it('Should reject admin functions from non-owner', async function () {
@@ -388,7 +1432,7 @@ describe('TalismanGame', function () {
       const { game, player1 } = await loadFixture(deployGameFixture);
 
       // Start and end a session to create pending rewards
-      await game.connect(player1).startSession();
+      await game.connect(player1).startSession(GameMode.Dash);
       await time.increase(120);
       await game.connect(player1).endSession(0);
 
@@ -1,6 +1,12 @@
 import { expect } from 'chai';
 import { ethers } from 'hardhat';
-import { loadFixture, time } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { loadFixture, time, impersonateAccount, setBalance } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { signVoucher, getVoucherHash, encodePaymasterAndData, type VoucherUserOp } from '../services/sponsor';
+
+// The v0.6 overloads MockEntryPoint calls (v0.7's are covered against the canonical EntryPoint)
+const VALIDATE_V06 =
+  'validatePaymasterUserOp((address,uint256,bytes,bytes,uint256,uint256,uint256,uint256,uint256,bytes,bytes),bytes32,uint256)';
+const POST_OP_V06 = 'postOp(uint8,bytes,uint256)';
 
 describe('TalismanPaymaster', function () {
   async function deployPaymasterFixture() {
@@ -22,13 +28,22 @@ describe('TalismanPaymaster', function () {
     const TalismanPaymaster = await ethers.getContractFactory('TalismanPaymaster');
     const paymaster = await TalismanPaymaster.deploy(await entryPoint.getAddress(), owner.address);
 
-    // Configure paymaster
-    await paymaster.setGameContract(await game.getAddress());
+    // Configure paymaster: sponsor a few game calls and token approvals
+    const gameSelectors = (['startSession', 'retryGame'] as const).map((name) => game.interface.getFunction(name)!.selector);
+    await paymaster.setAllowedCalls(await game.getAddress(), gameSelectors, true);
+    await paymaster.setAllowedCalls(await token.getAddress(), [token.interface.getFunction('approve')!.selector], true);
 
     // Deposit ETH to paymaster
     await paymaster.deposit({ value: ethers.parseEther('10') });
 
-    return { entryPoint, token, game, paymaster, owner, user1, user2 };
+    // Smart account callData for calls made through execute / executeBatch
+    const TalismanAccount = await ethers.getContractFactory('TalismanAccount');
+    const execute = (target: string, data: string) =>
+      TalismanAccount.interface.encodeFunctionData('execute', [target, 0, data]);
+    const executeBatch = (targets: string[], datas: string[]) =>
+      TalismanAccount.interface.encodeFunctionData('executeBatch', [targets, targets.map(() => 0), datas]);
+
+    return { entryPoint, token, game, paymaster, owner, user1, user2, execute, executeBatch };
   }
 
   describe('Deployment', function () {
@@ -48,26 +63,16 @@ describe('TalismanPaymaster', function () {
       expect(await paymaster.dailyLimitPerUser()).to.equal(ethers.parseEther('0.01'));
     });
 
-    it('Should allow game function selectors', async function () {
-      const { paymaster } = await loadFixture(deployPaymasterFixture);
-      const startSessionSelector = '0x' + ethers.keccak256(
-        ethers.toUtf8Bytes('startSession()')
-      ).slice(2, 10);
+    it('Should start with no sponsored calls', async function () {
+      const { entryPoint, owner } = await loadFixture(deployPaymasterFixture);
+      const TalismanPaymaster = await ethers.getContractFactory('TalismanPaymaster');
+      const paymaster = await TalismanPaymaster.deploy(await entryPoint.getAddress(), owner.address);
 
-      expect(await paymaster.allowedSelectors(startSessionSelector)).to.be.true;
+      expect(await paymaster.getAllowedCalls()).to.be.empty;
     });
   });
 
   describe('Configuration', function () {
-    it('Should allow owner to set game contract', async function () {
-      const { paymaster, owner, user1 } = await loadFixture(deployPaymasterFixture);
-
-      await expect(paymaster.setGameContract(user1.address))
-        .to.emit(paymaster, 'GameContractUpdated')
-        .withArgs(user1.address);
-
-      expect(await paymaster.gameContract()).to.equal(user1.address);
-    });
 
     it('Should allow owner to set limits', async function () {
       const { paymaster } = await loadFixture(deployPaymasterFixture);
@@ -80,26 +85,472 @@ describe('TalismanPaymaster', function () {
       expect(await paymaster.dailyLimitPerUser()).to.equal(newDailyLimit);
     });
 
-    it('Should allow owner to add/remove allowed selectors', async function () {
-      const { paymaster } = await loadFixture(deployPaymasterFixture);
+    it('Should allow owner to add/remove allowed calls', async function () {
+      const { paymaster, user1 } = await loadFixture(deployPaymasterFixture);
       const testSelector = '0x12345678';
 
-      await paymaster.setAllowedSelector(testSelector, true);
-      expect(await paymaster.allowedSelectors(testSelector)).to.be.true;
+      await expect(paymaster.setAllowedCalls(user1.address, [testSelector], true))
+        .to.emit(paymaster, 'AllowedCallUpdated')
+        .withArgs(user1.address, testSelector, true);
+      expect(await paymaster.isAllowedCall(user1.address, testSelector)).to.be.true;
+      expect(await paymaster.getAllowedCalls()).to.have.length(4);
+
+      await expect(paymaster.setAllowedCalls(user1.address, [testSelector], false))
+        .to.emit(paymaster, 'AllowedCallUpdated')
+        .withArgs(user1.address, testSelector, false);
+      expect(await paymaster.isAllowedCall(user1.address, testSelector)).to.be.false;
+    });
+
+    it('Should keep the pair list consistent when removing from the middle', async function () {
+      const { paymaster, game, token } = await loadFixture(deployPaymasterFixture);
+      const gameAddress = await game.getAddress();
+      const startSession = game.interface.getFunction('startSession')!.selector;
+      const retryGame = game.interface.getFunction('retryGame')!.selector;
+      const approve = token.interface.getFunction('approve')!.selector;
+
+      await paymaster.setAllowedCalls(gameAddress, [startSession], false);
+      // Removing twice is a no-op
+      await expect(paymaster.setAllowedCalls(gameAddress, [startSession], false)).not.to.emit(
+        paymaster,
+        'AllowedCallUpdated'
+      );
+
+      const pairs = (await paymaster.getAllowedCalls()).map((call) => [call.target, call.selector]);
+      expect(pairs).to.have.deep.members([
+        [gameAddress, retryGame],
+        [await token.getAddress(), approve],
+      ]);
+
+      await paymaster.setAllowedCalls(await token.getAddress(), [approve], false);
+      expect(await paymaster.isAllowedCall(gameAddress, retryGame)).to.be.true;
+      expect(await paymaster.getAllowedCalls()).to.have.length(1);
+    });
+
+    it('Should reject a zero target', async function () {
+      const { paymaster } = await loadFixture(deployPaymasterFixture);
 
-      await paymaster.setAllowedSelector(testSelector, false);
-      expect(await paymaster.allowedSelectors(testSelector)).to.be.false;
+      await expect(paymaster.setAllowedCalls(ethers.ZeroAddress, ['0x12345678'], true)).to.be.revertedWith(
+        'TalismanPaymaster: zero address'
+      );
     });
 
     it('Should reject configuration from non-owner', async function () {
       const { paymaster, user1 } = await loadFixture(deployPaymasterFixture);
 
       await expect(
-        paymaster.connect(user1).setGameContract(user1.address)
+        paymaster.connect(user1).setAllowedCalls(user1.address, ['0x12345678'], true)
       ).to.be.revertedWith('Ownable: caller is not the owner');
     });
   });
 
+  describe('Sponsorship Checks', function () {
+    const MAX_COST = ethers.parseEther('0.0005');
+
+    it('Should sponsor allowed calls, including retryGame and token approvals', async function () {
+      const { paymaster, game, token, user1, execute } = await loadFixture(deployPaymasterFixture);
+      const retry = execute(await game.getAddress(), game.interface.encodeFunctionData('retryGame'));
+      const approve = execute(
+        await token.getAddress(),
+        token.interface.encodeFunctionData('approve', [await game.getAddress(), 1])
+      );
+
+      expect(await paymaster.checkSponsorship(user1.address, retry, MAX_COST)).to.deep.equal([true, '']);
+      expect(await paymaster.checkSponsorship(user1.address, approve, MAX_COST)).to.deep.equal([true, '']);
+    });
+
+    it('Should reject selectors allowed only on another target', async function () {
+      const { paymaster, game, token, user1, execute } = await loadFixture(deployPaymasterFixture);
+      // approve is allowed on the token, not on the game
+      const callData = execute(
+        await game.getAddress(),
+        token.interface.encodeFunctionData('approve', [await game.getAddress(), 1])
+      );
+
+      expect(await paymaster.checkSponsorship(user1.address, callData, MAX_COST)).to.deep.equal([
+        false,
+        'TalismanPaymaster: invalid call',
+      ]);
+    });
+
+    it('Should require every call in a batch to be allowed', async function () {
+      const { paymaster, game, token, user1, executeBatch } = await loadFixture(deployPaymasterFixture);
+      const gameAddress = await game.getAddress();
+      const tokenAddress = await token.getAddress();
+      const approve = token.interface.encodeFunctionData('approve', [gameAddress, 1]);
+      const startSession = game.interface.encodeFunctionData('startSession', [0]);
+      const endSession = game.interface.encodeFunctionData('endSession', [0]);
+
+      const allowed = executeBatch([tokenAddress, gameAddress], [approve, startSession]);
+      expect((await paymaster.checkSponsorship(user1.address, allowed, MAX_COST))[0]).to.be.true;
+
+      const mixed = executeBatch([gameAddress, gameAddress], [startSession, endSession]);
+      expect((await paymaster.checkSponsorship(user1.address, mixed, MAX_COST))[0]).to.be.false;
+    });
+
+    it('Should report cost and daily limit rejections', async function () {
+      const { paymaster, game, user1, execute } = await loadFixture(deployPaymasterFixture);
+      const callData = execute(await game.getAddress(), game.interface.encodeFunctionData('retryGame'));
+
+      expect(await paymaster.checkSponsorship(user1.address, callData, ethers.parseEther('0.002'))).to.deep.equal([
+        false,
+        'TalismanPaymaster: cost too high',
+      ]);
+
+      await paymaster.setLimits(ethers.parseEther('0.001'), ethers.parseEther('0.0001'));
+      expect(await paymaster.checkSponsorship(user1.address, callData, MAX_COST)).to.deep.equal([
+        false,
+        'TalismanPaymaster: daily limit exceeded',
+      ]);
+    });
+
+    it('Should validate user operations against the allowed pairs', async function () {
+      const { paymaster, entryPoint, game, token, user1, execute } = await loadFixture(deployPaymasterFixture);
+      const entryPointAddress = await entryPoint.getAddress();
+      await impersonateAccount(entryPointAddress);
+      await setBalance(entryPointAddress, ethers.parseEther('1'));
+      const entryPointSigner = await ethers.getSigner(entryPointAddress);
+      const paymasterAddress = await paymaster.getAddress();
+
+      const userOp = (callData: string) => ({
+        sender: user1.address,
+        nonce: 0,
+        initCode: '0x',
+        callData,
+        callGasLimit: 0,
+        verificationGasLimit: 0,
+        preVerificationGas: 0,
+        maxFeePerGas: 0,
+        maxPriorityFeePerGas: 0,
+        paymasterAndData: paymasterAddress,
+        signature: '0x',
+      });
+
+      const retry = execute(await game.getAddress(), game.interface.encodeFunctionData('retryGame'));
+      await paymaster.connect(entryPointSigner)[VALIDATE_V06](userOp(retry), ethers.ZeroHash, MAX_COST);
+      expect(await paymaster.dailySponsorshipUsed(user1.address)).to.equal(MAX_COST);
+
+      const transfer = execute(
+        await token.getAddress(),
+        token.interface.encodeFunctionData('transfer', [user1.address, 1])
+      );
+      await expect(
+        paymaster.connect(entryPointSigner)[VALIDATE_V06](userOp(transfer), ethers.ZeroHash, MAX_COST)
+      ).to.be.revertedWith('TalismanPaymaster: invalid call');
+    });
+  });
+
+  describe('Vouchers', function () {
+    const MAX_COST = ethers.parseEther('0.0005');
+
+    async function voucherFixture() {
+      const base = await deployPaymasterFixture();
+      const { paymaster, entryPoint, token, user1, user2, execute } = base;
+      // user2 acts as the off-chain sponsorship signer
+      await paymaster.setVerifyingSigner(user2.address);
+
+      const entryPointAddress = await entryPoint.getAddress();
+      await impersonateAccount(entryPointAddress);
+      await setBalance(entryPointAddress, ethers.parseEther('1'));
+      const entryPointSigner = await ethers.getSigner(entryPointAddress);
+      const paymasterAddress = await paymaster.getAddress();
+      const { chainId } = await ethers.provider.getNetwork();
+
+      // A call off the allowlist, so only a voucher can sponsor it
+      const userOp: VoucherUserOp = {
+        sender: user1.address,
+        nonce: 0n,
+        initCode: '0x',
+        callData: execute(await token.getAddress(), token.interface.encodeFunctionData('transfer', [user1.address, 1])),
+        callGasLimit: 100000n,
+        verificationGasLimit: 100000n,
+        preVerificationGas: 21000n,
+        maxFeePerGas: 1n,
+        maxPriorityFeePerGas: 1n,
+      };
+      const validate = (op: VoucherUserOp, paymasterAndData: string) =>
+        paymaster
+          .connect(entryPointSigner)
+          [VALIDATE_V06].staticCall({ ...op, paymasterAndData, signature: '0x' }, ethers.ZeroHash, MAX_COST);
+
+      return { ...base, entryPointSigner, paymasterAddress, chainId, userOp, validate };
+    }
+
+    // Unpack EntryPoint v0.6 validationData
+    function unpack(validationData: bigint) {
+      return {
+        sigFailed: validationData & ((1n << 160n) - 1n),
+        validUntil: (validationData >> 160n) & ((1n << 48n) - 1n),
+        validAfter: validationData >> 208n,
+      };
+    }
+
+    it('Should let the owner set the verifying signer', async function () {
+      const { paymaster, user1 } = await loadFixture(deployPaymasterFixture);
+
+      await expect(paymaster.setVerifyingSigner(user1.address))
+        .to.emit(paymaster, 'VerifyingSignerUpdated')
+        .withArgs(user1.address);
+      expect(await paymaster.verifyingSigner()).to.equal(user1.address);
+
+      await expect(paymaster.connect(user1).setVerifyingSigner(user1.address)).to.be.revertedWith(
+        'Ownable: caller is not the owner'
+      );
+    });
+
+    it('Should match the off-chain voucher hash', async function () {
+      const { paymaster, paymasterAddress, chainId, userOp } = await loadFixture(voucherFixture);
+      const onChain = await paymaster.getVoucherHash(
+        { ...userOp, paymasterAndData: '0x', signature: '0x' },
+        2000,
+        1000
+      );
+      expect(onChain).to.equal(getVoucherHash(userOp, chainId, paymasterAddress, 2000, 1000));
+    });
+
+    it('Should sponsor a call off the allowlist with a valid voucher', async function () {
+      const { user2, paymasterAddress, chainId, userOp, validate } = await loadFixture(voucherFixture);
+      const voucher = await signVoucher(user2, userOp, chainId, paymasterAddress, 2000, 1000);
+
+      const [, validationData] = await validate(userOp, encodePaymasterAndData(paymasterAddress, voucher));
+      expect(unpack(validationData)).to.deep.equal({ sigFailed: 0n, validUntil: 2000n, validAfter: 1000n });
+    });
+
+    it('Should charge voucher operations against the daily limit', async function () {
+      const { paymaster, user1, user2, entryPointSigner, paymasterAddress, chainId, userOp } =
+        await loadFixture(voucherFixture);
+      const voucher = await signVoucher(user2, userOp, chainId, paymasterAddress, 0, 0);
+      const op = { ...userOp, paymasterAndData: encodePaymasterAndData(paymasterAddress, voucher), signature: '0x' };
+
+      await paymaster.connect(entryPointSigner)[VALIDATE_V06](op, ethers.ZeroHash, MAX_COST);
+      expect(await paymaster.dailySponsorshipUsed(user1.address)).to.equal(MAX_COST);
+
+      await expect(
+        paymaster.connect(entryPointSigner)[VALIDATE_V06](op, ethers.ZeroHash, ethers.parseEther('0.002'))
+      ).to.be.revertedWith('TalismanPaymaster: cost too high');
+    });
+
+    it('Should flag a voucher from another signer', async function () {
+      const { user1, paymasterAddress, chainId, userOp, validate } = await loadFixture(voucherFixture);
+      const voucher = await signVoucher(user1, userOp, chainId, paymasterAddress, 2000, 1000);
+
+      const [, validationData] = await validate(userOp, encodePaymasterAndData(paymasterAddress, voucher));
+      expect(unpack(validationData).sigFailed).to.equal(1n);
+    });
+
+    it('Should flag a voucher reused for different calldata or a different window', async function () {
+      const { game, user2, paymasterAddress, chainId, userOp, execute, validate } = await loadFixture(voucherFixture);
+      const voucher = await signVoucher(user2, userOp, chainId, paymasterAddress, 2000, 1000);
+
+      const tampered = { ...userOp, callData: execute(await game.getAddress(), '0x12345678') };
+      const [, tamperedData] = await validate(tampered, encodePaymasterAndData(paymasterAddress, voucher));
+      expect(unpack(tamperedData).sigFailed).to.equal(1n);
+
+      const extended = encodePaymasterAndData(paymasterAddress, { ...voucher, validUntil: 3000 });
+      const [, extendedData] = await validate(userOp, extended);
+      expect(unpack(extendedData).sigFailed).to.equal(1n);
+    });
+
+    it('Should reject malformed vouchers and vouchers while disabled', async function () {
+      const { paymaster, user2, paymasterAddress, chainId, userOp, validate } = await loadFixture(voucherFixture);
+      const voucher = await signVoucher(user2, userOp, chainId, paymasterAddress, 2000, 1000);
+      const paymasterAndData = encodePaymasterAndData(paymasterAddress, voucher);
+
+      await expect(validate(userOp, ethers.dataSlice(paymasterAndData, 0, 60))).to.be.revertedWith(
+        'TalismanPaymaster: invalid voucher'
+      );
+
+      await paymaster.setVerifyingSigner(ethers.ZeroAddress);
+      await expect(validate(userOp, paymasterAndData)).to.be.revertedWith('TalismanPaymaster: vouchers disabled');
+    });
+  });
+
+  describe('Token Gas', function () {
+    // 1 ETH of gas costs 1000 TLSM
+    const TOKENS_PER_ETH = ethers.parseEther('1000');
+    const MAX_COST = ethers.parseEther('0.0005');
+    const GAS_PRICE = 1_000_000_000n;
+
+    async function tokenGasFixture() {
+      const base = await deployPaymasterFixture();
+      const { paymaster, entryPoint, token, user1, execute } = base;
+      await paymaster.setGasToken(await token.getAddress(), TOKENS_PER_ETH);
+      await token.transfer(user1.address, ethers.parseEther('100'));
+
+      const entryPointAddress = await entryPoint.getAddress();
+      await impersonateAccount(entryPointAddress);
+      await setBalance(entryPointAddress, ethers.parseEther('1'));
+      const entryPointSigner = await ethers.getSigner(entryPointAddress);
+      const paymasterAddress = await paymaster.getAddress();
+
+      // A call off the allowlist: paying in TLSM doesn't need sponsorship
+      const callData = execute(await token.getAddress(), token.interface.encodeFunctionData('transfer', [user1.address, 1]));
+      const userOp = (maxTokenCost: bigint) => ({
+        sender: user1.address,
+        nonce: 0,
+        initCode: '0x',
+        callData,
+        callGasLimit: 0,
+        verificationGasLimit: 0,
+        preVerificationGas: 0,
+        // Equal fees make the charged gas price independent of the base fee
+        maxFeePerGas: GAS_PRICE,
+        maxPriorityFeePerGas: GAS_PRICE,
+        paymasterAndData: ethers.concat([paymasterAddress, ethers.toBeHex(maxTokenCost, 32)]),
+        signature: '0x',
+      });
+
+      // Token cost of a gas cost, including the postOp overhead
+      const tokenCost = (gasCost: bigint) => {
+        const total = (gasCost + 40000n * GAS_PRICE) * TOKENS_PER_ETH;
+        return (total + ethers.WeiPerEther - 1n) / ethers.WeiPerEther;
+      };
+
+      return { ...base, entryPointSigner, paymasterAddress, userOp, tokenCost };
+    }
+
+    it('Should let the owner set the gas token and rate', async function () {
+      const { paymaster, token, user1 } = await loadFixture(deployPaymasterFixture);
+      const tokenAddress = await token.getAddress();
+
+      await expect(paymaster.setGasToken(tokenAddress, TOKENS_PER_ETH))
+        .to.emit(paymaster, 'GasTokenUpdated')
+        .withArgs(tokenAddress, TOKENS_PER_ETH);
+      expect(await paymaster.gasToken()).to.equal(tokenAddress);
+      expect(await paymaster.tokensPerEth()).to.equal(TOKENS_PER_ETH);
+
+      await expect(paymaster.setGasToken(ethers.ZeroAddress, TOKENS_PER_ETH)).to.be.revertedWith(
+        'TalismanPaymaster: zero address'
+      );
+      await expect(paymaster.connect(user1).setGasToken(tokenAddress, 1)).to.be.revertedWith(
+        'Ownable: caller is not the owner'
+      );
+    });
+
+    it('Should report why a token payment would be rejected', async function () {
+      const { paymaster, token, user1, user2, paymasterAddress, tokenCost } = await loadFixture(tokenGasFixture);
+      const cost = tokenCost(MAX_COST);
+
+      expect(await paymaster.checkTokenPayment(user1.address, MAX_COST, GAS_PRICE)).to.deep.equal([
+        cost,
+        'TalismanPaymaster: insufficient token allowance',
+      ]);
+
+      await token.connect(user1).approve(paymasterAddress, cost);
+      expect(await paymaster.checkTokenPayment(user1.address, MAX_COST, GAS_PRICE)).to.deep.equal([cost, '']);
+
+      await token.connect(user2).approve(paymasterAddress, cost);
+      expect(await paymaster.checkTokenPayment(user2.address, MAX_COST, GAS_PRICE)).to.deep.equal([
+        cost,
+        'TalismanPaymaster: insufficient token balance',
+      ]);
+
+      await paymaster.setGasToken(await token.getAddress(), 0);
+      expect(await paymaster.checkTokenPayment(user1.address, MAX_COST, GAS_PRICE)).to.deep.equal([
+        0n,
+        'TalismanPaymaster: token gas disabled',
+      ]);
+    });
+
+    it('Should pre-charge the worst case and refund the difference in postOp', async function () {
+      const { paymaster, token, user1, entryPointSigner, paymasterAddress, userOp, tokenCost } =
+        await loadFixture(tokenGasFixture);
+      const preCharge = tokenCost(MAX_COST);
+      await token.connect(user1).approve(paymasterAddress, preCharge);
+      const balanceBefore = await token.balanceOf(user1.address);
+
+      const op = userOp(preCharge);
+      const [context] = await paymaster
+        .connect(entryPointSigner)
+        [VALIDATE_V06].staticCall(op, ethers.ZeroHash, MAX_COST);
+      await paymaster.connect(entryPointSigner)[VALIDATE_V06](op, ethers.ZeroHash, MAX_COST);
+      expect(await token.balanceOf(user1.address)).to.equal(balanceBefore - preCharge);
+      // Paying in TLSM leaves the sponsorship allowance untouched
+      expect(await paymaster.dailySponsorshipUsed(user1.address)).to.equal(0);
+
+      const actualGasCost = MAX_COST / 4n;
+      const finalCost = tokenCost(actualGasCost);
+      await expect(paymaster.connect(entryPointSigner)[POST_OP_V06](0, context, actualGasCost))
+        .to.emit(paymaster, 'GasPaidInToken')
+        .withArgs(user1.address, finalCost, actualGasCost);
+
+      expect(await token.balanceOf(user1.address)).to.equal(balanceBefore - finalCost);
+      expect(await token.balanceOf(paymasterAddress)).to.equal(finalCost);
+    });
+
+    it('Should keep the whole pre-charge when the refund reverted', async function () {
+      const { paymaster, token, user1, entryPointSigner, paymasterAddress, userOp, tokenCost } =
+        await loadFixture(tokenGasFixture);
+      const preCharge = tokenCost(MAX_COST);
+      await token.connect(user1).approve(paymasterAddress, preCharge);
+
+      const op = userOp(preCharge);
+      const [context] = await paymaster
+        .connect(entryPointSigner)
+        [VALIDATE_V06].staticCall(op, ethers.ZeroHash, MAX_COST);
+      await paymaster.connect(entryPointSigner)[VALIDATE_V06](op, ethers.ZeroHash, MAX_COST);
+
+      await expect(paymaster.connect(entryPointSigner)[POST_OP_V06](2, context, 0))
+        .to.emit(paymaster, 'GasPaidInToken')
+        .withArgs(user1.address, preCharge, 0);
+      expect(await token.balanceOf(paymasterAddress)).to.equal(preCharge);
+    });
+
+    it('Should reject a pre-charge above the sender\'s maxTokenCost or while disabled', async function () {
+      const { paymaster, token, user1, entryPointSigner, paymasterAddress, userOp, tokenCost } =
+        await loadFixture(tokenGasFixture);
+      const preCharge = tokenCost(MAX_COST);
+      await token.connect(user1).approve(paymasterAddress, preCharge);
+
+      await expect(
+        paymaster.connect(entryPointSigner)[VALIDATE_V06](userOp(preCharge - 1n), ethers.ZeroHash, MAX_COST)
+      ).to.be.revertedWith('TalismanPaymaster: token cost too high');
+
+      await paymaster.setGasToken(await token.getAddress(), 0);
+      await expect(
+        paymaster.connect(entryPointSigner)[VALIDATE_V06](userOp(preCharge), ethers.ZeroHash, MAX_COST)
+      ).to.be.revertedWith('TalismanPaymaster: token gas disabled');
+    });
+
+    it('Should let the owner withdraw token payments', async function () {
+      const { paymaster, token, owner, user1, paymasterAddress } = await loadFixture(tokenGasFixture);
+      await token.transfer(paymasterAddress, 50n);
+
+      await expect(paymaster.connect(user1).withdrawTokens(user1.address, 50n)).to.be.revertedWith(
+        'Ownable: caller is not the owner'
+      );
+      await expect(paymaster.withdrawTokens(owner.address, 50n)).to.changeTokenBalances(
+        token,
+        [paymasterAddress, owner.address],
+        [-50n, 50n]
+      );
+    });
+
+    it('Should still release unused sponsorship in postOp', async function () {
+      const { paymaster, game, user1, entryPointSigner, paymasterAddress, execute } = await loadFixture(tokenGasFixture);
+      const op = {
+        sender: user1.address,
+        nonce: 0,
+        initCode: '0x',
+        callData: execute(await game.getAddress(), game.interface.encodeFunctionData('retryGame')),
+        callGasLimit: 0,
+        verificationGasLimit: 0,
+        preVerificationGas: 0,
+        maxFeePerGas: 0,
+        maxPriorityFeePerGas: 0,
+        paymasterAndData: paymasterAddress,
+        signature: '0x',
+      };
+
+      const [context] = await paymaster
+        .connect(entryPointSigner)
+        [VALIDATE_V06].staticCall(op, ethers.ZeroHash, MAX_COST);
+      await paymaster.connect(entryPointSigner)[VALIDATE_V06](op, ethers.ZeroHash, MAX_COST);
+      await paymaster.connect(entryPointSigner)[POST_OP_V06](0, context, MAX_COST / 5n);
+
+      expect(await paymaster.dailySponsorshipUsed(user1.address)).to.equal(MAX_COST / 5n);
+    });
+  });
+
   describe('Deposits', function () {
     it('Should deposit ETH to EntryPoint', async function () {
       const { paymaster, entryPoint } = await loadFixture(deployPaymasterFixture);
@@ -129,6 +580,8 @@ describe('TalismanPaymaster', function () {
   });
 
   describe('Daily Limits', function () {
+    const MAX_COST = ethers.parseEther('0.0005');
+
     it('Should track daily sponsorship usage', async function () {
       const { paymaster, user1 } = await loadFixture(deployPaymasterFixture);
 
@@ -150,6 +603,35 @@ describe('TalismanPaymaster', function () {
       const remaining = await paymaster.getRemainingDailyAllowance(user1.address);
       expect(remaining).to.equal(await paymaster.dailyLimitPerUser());
     });
+
+    it('Should report no allowance when the limit is lowered below the day\'s usage', async function () {
+      const { paymaster, entryPoint, game, user1, execute } = await loadFixture(deployPaymasterFixture);
+      const entryPointAddress = await entryPoint.getAddress();
+      await impersonateAccount(entryPointAddress);
+      await setBalance(entryPointAddress, ethers.parseEther('1'));
+
+      const retry = execute(await game.getAddress(), game.interface.encodeFunctionData('retryGame'));
+      await paymaster.connect(await ethers.getSigner(entryPointAddress))[VALIDATE_V06](
+        {
+          sender: user1.address,
+          nonce: 0,
+          initCode: '0x',
+          callData: retry,
+          callGasLimit: 0,
+          verificationGasLimit: 0,
+          preVerificationGas: 0,
+          maxFeePerGas: 0,
+          maxPriorityFeePerGas: 0,
+          paymasterAndData: await paymaster.getAddress(),
+          signature: '0x',
+        },
+        ethers.ZeroHash,
+        MAX_COST
+      );
+
+      await paymaster.setLimits(MAX_COST, MAX_COST / 2n);
+      expect(await paymaster.getRemainingDailyAllowance(user1.address)).to.equal(0);
+    });
   });
 
   describe('Receive ETH', function () {
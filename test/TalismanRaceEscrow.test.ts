@@ -0,0 +1,315 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { loadFixture, time } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import type { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import { getRaceDomain, signRaceRun, signRaceResult } from '../services/verifier';
+
+describe('TalismanRaceEscrow', function () {
+  const STAKE = ethers.parseEther('25');
+  const SEED = 20241019n;
+  const GHOST = ethers.toUtf8Bytes('{"version":2,"seed":20241019}');
+  // RaceStatus
+  const OPEN = 1n;
+  const ACCEPTED = 2n;
+  const SETTLED = 3n;
+  const CANCELLED = 4n;
+
+  async function deployEscrowFixture() {
+    const [owner, verifier, creator, challenger, other] = await ethers.getSigners();
+
+    const TalismanToken = await ethers.getContractFactory('TalismanToken');
+    const token = await TalismanToken.deploy(owner.address, ethers.parseEther('1000000'));
+
+    const TalismanRaceEscrow = await ethers.getContractFactory('TalismanRaceEscrow');
+    const escrow = await TalismanRaceEscrow.deploy(await token.getAddress(), owner.address);
+    const escrowAddress = await escrow.getAddress();
+    await escrow.setScoreVerifier(verifier.address);
+
+    for (const account of [creator, challenger, other]) {
+      await token.transfer(account.address, ethers.parseEther('1000'));
+      await token.connect(account).approve(escrowAddress, ethers.MaxUint256);
+    }
+
+    const { chainId } = await ethers.provider.getNetwork();
+    const domain = getRaceDomain(chainId, escrowAddress);
+
+    async function proveRun(player: HardhatEthersSigner, distance: bigint, seed = SEED) {
+      const deadline = BigInt(await time.latest()) + 600n;
+      const ghostHash = ethers.keccak256(GHOST);
+      const signature = await signRaceRun(verifier, domain, { player: player.address, seed, distance, ghostHash, deadline });
+      return { distance, deadline, signature };
+    }
+
+    async function createRace(distance: bigint, stake = STAKE) {
+      const proof = await proveRun(creator, distance);
+      return escrow.connect(creator).createRace(stake, SEED, distance, proof.deadline, proof.signature, GHOST);
+    }
+
+    // Attest the challenger's result, bound to the race as accepted
+    async function proveResult(distance: bigint, raceId = 0n, acceptedAt?: bigint) {
+      const deadline = BigInt(await time.latest()) + 600n;
+      const signature = await signRaceResult(verifier, domain, {
+        raceId,
+        challenger: challenger.address,
+        acceptedAt: acceptedAt ?? (await escrow.getRace(raceId)).acceptedAt,
+        distance,
+        deadline,
+      });
+      return { distance, deadline, signature };
+    }
+
+    async function submit(distance: bigint, raceId = 0n) {
+      const proof = await proveResult(distance, raceId);
+      return escrow.connect(challenger).submitRaceResult(raceId, distance, proof.deadline, proof.signature);
+    }
+
+    return { token, escrow, owner, verifier, creator, challenger, other, proveRun, proveResult, createRace, submit };
+  }
+
+  // Creator's ghost ran 900m and the challenger matched the stake
+  async function acceptedRaceFixture() {
+    const fixture = await deployEscrowFixture();
+    await fixture.createRace(900n);
+    await fixture.escrow.connect(fixture.challenger).acceptRace(0);
+    return fixture;
+  }
+
+  describe('Creating Races', function () {
+    it('Should escrow the stake and publish the ghost', async function () {
+      const { token, escrow, creator, createRace } = await loadFixture(deployEscrowFixture);
+
+      await expect(createRace(900n))
+        .to.emit(escrow, 'RaceCreated')
+        .withArgs(0, creator.address, SEED, 900, STAKE, (await time.latest()) + 1 + 24 * 60 * 60, ethers.hexlify(GHOST));
+
+      const race = await escrow.getRace(0);
+      expect(race.creator).to.equal(creator.address);
+      expect(race.seed).to.equal(SEED);
+      expect(race.creatorDistance).to.equal(900);
+      expect(race.status).to.equal(OPEN);
+      expect(await token.balanceOf(await escrow.getAddress())).to.equal(STAKE);
+    });
+
+    it('Should reject runs the verifier did not attest', async function () {
+      const { escrow, creator, challenger, proveRun } = await loadFixture(deployEscrowFixture);
+
+      // Signed for another player
+      const stolen = await proveRun(challenger, 900n);
+      await expect(
+        escrow.connect(creator).createRace(STAKE, SEED, 900n, stolen.deadline, stolen.signature, GHOST)
+      ).to.be.revertedWith('TalismanRaceEscrow: invalid proof');
+
+      // Inflated distance
+      const proof = await proveRun(creator, 900n);
+      await expect(
+        escrow.connect(creator).createRace(STAKE, SEED, 1900n, proof.deadline, proof.signature, GHOST)
+      ).to.be.revertedWith('TalismanRaceEscrow: invalid proof');
+
+      // Another ghost than the attested run
+      const otherGhost = ethers.toUtf8Bytes('{"version":2,"seed":20241019,"ticks":1}');
+      await expect(
+        escrow.connect(creator).createRace(STAKE, SEED, 900n, proof.deadline, proof.signature, otherGhost)
+      ).to.be.revertedWith('TalismanRaceEscrow: invalid proof');
+    });
+
+    it('Should reject a zero stake, a missing ghost and an expired proof', async function () {
+      const { escrow, creator, proveRun, createRace } = await loadFixture(deployEscrowFixture);
+      const proof = await proveRun(creator, 900n);
+
+      await expect(createRace(900n, 0n)).to.be.revertedWith('TalismanRaceEscrow: zero stake');
+      await expect(
+        escrow.connect(creator).createRace(STAKE, SEED, 900n, proof.deadline, proof.signature, '0x')
+      ).to.be.revertedWith('TalismanRaceEscrow: invalid ghost');
+
+      await time.increase(601);
+      await expect(
+        escrow.connect(creator).createRace(STAKE, SEED, 900n, proof.deadline, proof.signature, GHOST)
+      ).to.be.revertedWith('TalismanRaceEscrow: proof expired');
+    });
+
+    it('Should require a score verifier', async function () {
+      const { escrow, createRace } = await loadFixture(deployEscrowFixture);
+      await escrow.setScoreVerifier(ethers.ZeroAddress);
+
+      await expect(createRace(900n)).to.be.revertedWith('TalismanRaceEscrow: no score verifier');
+    });
+  });
+
+  describe('Accepting Races', function () {
+    it('Should match the stake and start the race window', async function () {
+      const { token, escrow, challenger, createRace } = await loadFixture(deployEscrowFixture);
+      await createRace(900n);
+
+      await expect(escrow.connect(challenger).acceptRace(0))
+        .to.emit(escrow, 'RaceAccepted')
+        .withArgs(0, challenger.address, (await time.latest()) + 1 + 60 * 60);
+
+      const race = await escrow.getRace(0);
+      expect(race.challenger).to.equal(challenger.address);
+      expect(race.status).to.equal(ACCEPTED);
+      expect(await token.balanceOf(await escrow.getAddress())).to.equal(STAKE * 2n);
+    });
+
+    it('Should not let the creator race themselves', async function () {
+      const { escrow, creator, createRace } = await loadFixture(deployEscrowFixture);
+      await createRace(900n);
+
+      await expect(escrow.connect(creator).acceptRace(0)).to.be.revertedWith(
+        'TalismanRaceEscrow: cannot race yourself'
+      );
+    });
+
+    it('Should reject accepted and expired races', async function () {
+      const { escrow, other } = await loadFixture(acceptedRaceFixture);
+      await expect(escrow.connect(other).acceptRace(0)).to.be.revertedWith('TalismanRaceEscrow: race not open');
+
+      const fresh = await loadFixture(deployEscrowFixture);
+      await fresh.createRace(900n);
+      await time.increase(24 * 60 * 60);
+      await expect(fresh.escrow.connect(fresh.challenger).acceptRace(0)).to.be.revertedWith(
+        'TalismanRaceEscrow: race expired'
+      );
+    });
+  });
+
+  describe('Settling Races', function () {
+    it('Should pay the pot to a challenger who beats the ghost', async function () {
+      const { token, escrow, challenger, submit } = await loadFixture(acceptedRaceFixture);
+      const before = await token.balanceOf(challenger.address);
+
+      await expect(submit(901n))
+        .to.emit(escrow, 'RaceSettled')
+        .withArgs(0, challenger.address, 900, 901, STAKE * 2n);
+
+      expect(await token.balanceOf(challenger.address)).to.equal(before + STAKE * 2n);
+      const race = await escrow.getRace(0);
+      expect(race.status).to.equal(SETTLED);
+      expect(race.winner).to.equal(challenger.address);
+    });
+
+    it('Should pay the pot to the creator when the ghost wins', async function () {
+      const { token, escrow, creator, submit } = await loadFixture(acceptedRaceFixture);
+      const before = await token.balanceOf(creator.address);
+
+      await submit(450n);
+
+      expect(await token.balanceOf(creator.address)).to.equal(before + STAKE * 2n);
+      expect((await escrow.getRace(0)).winner).to.equal(creator.address);
+    });
+
+    it('Should return both stakes on a tie', async function () {
+      const { token, escrow, creator, challenger, submit } = await loadFixture(acceptedRaceFixture);
+      const creatorBefore = await token.balanceOf(creator.address);
+      const challengerBefore = await token.balanceOf(challenger.address);
+
+      await expect(submit(900n))
+        .to.emit(escrow, 'RaceSettled')
+        .withArgs(0, ethers.ZeroAddress, 900, 900, STAKE);
+
+      expect(await token.balanceOf(creator.address)).to.equal(creatorBefore + STAKE);
+      expect(await token.balanceOf(challenger.address)).to.equal(challengerBefore + STAKE);
+      expect((await escrow.getRace(0)).winner).to.equal(ethers.ZeroAddress);
+    });
+
+    it('Should only accept a result attested for this race', async function () {
+      const { escrow, challenger, other, proveRun, proveResult, createRace } = await loadFixture(acceptedRaceFixture);
+
+      // An attestation for opening a race on the same seed
+      const run = await proveRun(challenger, 901n);
+      await expect(
+        escrow.connect(challenger).submitRaceResult(0, 901n, run.deadline, run.signature)
+      ).to.be.revertedWith('TalismanRaceEscrow: invalid proof');
+
+      // A result for another race on the same seed
+      await createRace(900n);
+      await escrow.connect(challenger).acceptRace(1);
+      const otherRace = await proveResult(901n, 1n);
+      await expect(
+        escrow.connect(challenger).submitRaceResult(0, 901n, otherRace.deadline, otherRace.signature)
+      ).to.be.revertedWith('TalismanRaceEscrow: invalid proof');
+
+      // A result signed before the race was accepted
+      const early = await proveResult(901n, 0n, 0n);
+      await expect(
+        escrow.connect(challenger).submitRaceResult(0, 901n, early.deadline, early.signature)
+      ).to.be.revertedWith('TalismanRaceEscrow: invalid proof');
+    });
+
+    it('Should only accept the challenger\'s result', async function () {
+      const { escrow, other, proveRun } = await loadFixture(acceptedRaceFixture);
+
+      const proof = await proveRun(other, 901n);
+      await expect(
+        escrow.connect(other).submitRaceResult(0, 901n, proof.deadline, proof.signature)
+      ).to.be.revertedWith('TalismanRaceEscrow: not the challenger');
+    });
+
+    it('Should settle only once', async function () {
+      const { submit } = await loadFixture(acceptedRaceFixture);
+      await submit(901n);
+
+      await expect(submit(950n)).to.be.revertedWith('TalismanRaceEscrow: race not accepted');
+    });
+  });
+
+  describe('Expiry and Cancellation', function () {
+    it('Should award the pot to the creator when the challenger misses the window', async function () {
+      const { token, escrow, creator, other, submit } = await loadFixture(acceptedRaceFixture);
+      await expect(escrow.connect(other).claimExpiredRace(0)).to.be.revertedWith(
+        'TalismanRaceEscrow: race window not over'
+      );
+
+      await time.increase(60 * 60 + 1);
+      await expect(submit(901n)).to.be.revertedWith('TalismanRaceEscrow: race window over');
+
+      const before = await token.balanceOf(creator.address);
+      await expect(escrow.connect(other).claimExpiredRace(0))
+        .to.emit(escrow, 'RaceSettled')
+        .withArgs(0, creator.address, 900, 0, STAKE * 2n);
+      expect(await token.balanceOf(creator.address)).to.equal(before + STAKE * 2n);
+    });
+
+    it('Should refund the creator of an unaccepted race, even while paused', async function () {
+      const { token, escrow, creator, other, createRace } = await loadFixture(deployEscrowFixture);
+      await createRace(900n);
+      const before = await token.balanceOf(creator.address);
+
+      await expect(escrow.connect(other).cancelRace(0)).to.be.revertedWith('TalismanRaceEscrow: not the creator');
+
+      await escrow.pause();
+      await expect(escrow.connect(creator).cancelRace(0)).to.emit(escrow, 'RaceCancelled').withArgs(0);
+
+      expect(await token.balanceOf(creator.address)).to.equal(before + STAKE);
+      expect((await escrow.getRace(0)).status).to.equal(CANCELLED);
+    });
+
+    it('Should not cancel an accepted race', async function () {
+      const { escrow, creator } = await loadFixture(acceptedRaceFixture);
+
+      await expect(escrow.connect(creator).cancelRace(0)).to.be.revertedWith('TalismanRaceEscrow: race not open');
+    });
+  });
+
+  describe('Admin Functions', function () {
+    it('Should update the windows', async function () {
+      const { escrow } = await loadFixture(deployEscrowFixture);
+
+      await expect(escrow.setChallengeWindow(3600)).to.emit(escrow, 'ChallengeWindowUpdated').withArgs(3600);
+      await expect(escrow.setRaceWindow(600)).to.emit(escrow, 'RaceWindowUpdated').withArgs(600);
+      expect(await escrow.challengeWindow()).to.equal(3600);
+      expect(await escrow.raceWindow()).to.equal(600);
+
+      await expect(escrow.setRaceWindow(0)).to.be.revertedWith('TalismanRaceEscrow: invalid window');
+    });
+
+    it('Should only let the owner configure the escrow', async function () {
+      const { escrow, other } = await loadFixture(deployEscrowFixture);
+
+      await expect(escrow.connect(other).setScoreVerifier(other.address)).to.be.revertedWith(
+        'Ownable: caller is not the owner'
+      );
+      await expect(escrow.connect(other).setRaceWindow(600)).to.be.revertedWith('Ownable: caller is not the owner');
+      await expect(escrow.connect(other).pause()).to.be.revertedWith('Ownable: caller is not the owner');
+    });
+  });
+});
@@ -0,0 +1,423 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { loadFixture, time } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import type { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import { getTournamentDomain, signTournamentScore } from '../services/verifier';
+
+describe('TalismanTournament', function () {
+  const ENTRY_FEE = ethers.parseEther('10');
+  const DURATION = 24 * 60 * 60;
+  // 50% / 30% / 20%
+  const PAYOUT_TABLE = [5000, 3000, 2000];
+
+  async function deployTournamentFixture() {
+    const [owner, verifier, player1, player2, player3, player4, sponsor] = await ethers.getSigners();
+
+    const TalismanToken = await ethers.getContractFactory('TalismanToken');
+    const token = await TalismanToken.deploy(owner.address, ethers.parseEther('1000000'));
+
+    const TalismanTournament = await ethers.getContractFactory('TalismanTournament');
+    const tournament = await TalismanTournament.deploy(await token.getAddress(), owner.address);
+    const tournamentAddress = await tournament.getAddress();
+    await tournament.setScoreVerifier(verifier.address);
+
+    const players = [player1, player2, player3, player4];
+    for (const account of [...players, sponsor]) {
+      await token.transfer(account.address, ethers.parseEther('1000'));
+      await token.connect(account).approve(tournamentAddress, ethers.MaxUint256);
+    }
+
+    const startTime = (await time.latest()) + 60;
+    await tournament.createTournament(startTime, startTime + DURATION, ENTRY_FEE, PAYOUT_TABLE);
+
+    const { chainId } = await ethers.provider.getNetwork();
+    const domain = getTournamentDomain(chainId, tournamentAddress);
+
+    async function proveScore(player: HardhatEthersSigner, distance: bigint, tournamentId = 0n) {
+      const deadline = BigInt(await time.latest()) + 600n;
+      const signature = await signTournamentScore(verifier, domain, {
+        tournamentId,
+        player: player.address,
+        distance,
+        deadline,
+      });
+      return { distance, deadline, signature };
+    }
+
+    async function submit(player: HardhatEthersSigner, distance: bigint, tournamentId = 0n) {
+      const proof = await proveScore(player, distance, tournamentId);
+      return tournament.connect(player).submitScore(tournamentId, proof.distance, proof.deadline, proof.signature);
+    }
+
+    return { token, tournament, owner, verifier, players, sponsor, startTime, proveScore, submit };
+  }
+
+  // Every player enters and the window opens
+  async function runningTournamentFixture() {
+    const fixture = await deployTournamentFixture();
+    for (const player of fixture.players) {
+      await fixture.tournament.connect(player).enterTournament(0);
+    }
+    await time.increaseTo(fixture.startTime);
+    return fixture;
+  }
+
+  async function standingsOf(tournament: Awaited<ReturnType<typeof deployTournamentFixture>>['tournament']) {
+    const [players, distances] = await tournament.getStandings(0);
+    return players.map((player, i) => ({ player, distance: distances[i] }));
+  }
+
+  describe('Creation', function () {
+    it('Should store the tournament and its payout table', async function () {
+      const { tournament, startTime } = await loadFixture(deployTournamentFixture);
+
+      expect(await tournament.tournamentCount()).to.equal(1);
+      const created = await tournament.getTournament(0);
+      expect(created.startTime).to.equal(startTime);
+      expect(created.endTime).to.equal(startTime + DURATION);
+      expect(created.entryFee).to.equal(ENTRY_FEE);
+      expect(created.prizePool).to.equal(0);
+      expect(created.finalized).to.be.false;
+      expect(await tournament.getPayoutTable(0)).to.deep.equal(PAYOUT_TABLE.map(BigInt));
+    });
+
+    it('Should reject invalid windows and payout tables', async function () {
+      const { tournament } = await loadFixture(deployTournamentFixture);
+      const now = await time.latest();
+
+      await expect(
+        tournament.createTournament(now + 100, now + 100, ENTRY_FEE, [10000])
+      ).to.be.revertedWith('TalismanTournament: invalid window');
+      await expect(
+        tournament.createTournament(now - 200, now - 100, ENTRY_FEE, [10000])
+      ).to.be.revertedWith('TalismanTournament: window in the past');
+
+      const invalidTables = [[], [6000, 3000], [3000, 7000], [10000, 0], Array(11).fill(1000)];
+      for (const table of invalidTables) {
+        await expect(
+          tournament.createTournament(now, now + DURATION, ENTRY_FEE, table)
+        ).to.be.revertedWith('TalismanTournament: invalid payout table');
+      }
+    });
+
+    it('Should only let the owner create tournaments', async function () {
+      const { tournament, players } = await loadFixture(deployTournamentFixture);
+      const now = await time.latest();
+
+      await expect(
+        tournament.connect(players[0]).createTournament(now, now + DURATION, ENTRY_FEE, [10000])
+      ).to.be.revertedWith('Ownable: caller is not the owner');
+    });
+  });
+
+  describe('Entry', function () {
+    it('Should add the entry fee to the prize pool', async function () {
+      const { token, tournament, players } = await loadFixture(deployTournamentFixture);
+
+      await expect(tournament.connect(players[0]).enterTournament(0))
+        .to.emit(tournament, 'TournamentEntered')
+        .withArgs(0, players[0].address, ENTRY_FEE);
+
+      const entered = await tournament.getTournament(0);
+      expect(entered.prizePool).to.equal(ENTRY_FEE);
+      expect(entered.entrantCount).to.equal(1);
+      expect(await tournament.hasEntered(0, players[0].address)).to.be.true;
+      expect(await tournament.getEntryTime(0, players[0].address)).to.equal(await time.latest());
+      expect(await tournament.getEntryTime(0, players[1].address)).to.equal(0);
+      expect(await token.balanceOf(await tournament.getAddress())).to.equal(ENTRY_FEE);
+    });
+
+    it('Should reject a second entry and entries after the end', async function () {
+      const { tournament, players, startTime } = await loadFixture(deployTournamentFixture);
+
+      await tournament.connect(players[0]).enterTournament(0);
+      await expect(tournament.connect(players[0]).enterTournament(0)).to.be.revertedWith(
+        'TalismanTournament: already entered'
+      );
+
+      await time.increaseTo(startTime + DURATION);
+      await expect(tournament.connect(players[1]).enterTournament(0)).to.be.revertedWith(
+        'TalismanTournament: tournament ended'
+      );
+    });
+
+    it('Should let anyone top up the prize pool', async function () {
+      const { tournament, sponsor } = await loadFixture(deployTournamentFixture);
+      const amount = ethers.parseEther('100');
+
+      await expect(tournament.connect(sponsor).fundPrizePool(0, amount))
+        .to.emit(tournament, 'PrizePoolFunded')
+        .withArgs(0, sponsor.address, amount);
+      expect((await tournament.getTournament(0)).prizePool).to.equal(amount);
+    });
+  });
+
+  describe('Scores', function () {
+    it('Should only accept verified scores from entrants during the window', async function () {
+      const { tournament, players, startTime, proveScore, submit } = await loadFixture(deployTournamentFixture);
+      await tournament.connect(players[0]).enterTournament(0);
+
+      await expect(submit(players[0], 100n)).to.be.revertedWith('TalismanTournament: tournament not running');
+
+      await time.increaseTo(startTime);
+      await expect(submit(players[1], 100n)).to.be.revertedWith('TalismanTournament: not entered');
+
+      // Proof signed for another player
+      const proof = await proveScore(players[1], 100n);
+      await expect(
+        tournament.connect(players[0]).submitScore(0, proof.distance, proof.deadline, proof.signature)
+      ).to.be.revertedWith('TalismanTournament: invalid proof');
+
+      // Distance raised after signing
+      const raised = await proveScore(players[0], 100n);
+      await expect(
+        tournament.connect(players[0]).submitScore(0, 1000n, raised.deadline, raised.signature)
+      ).to.be.revertedWith('TalismanTournament: invalid proof');
+
+      await time.increase(601);
+      await expect(
+        tournament.connect(players[0]).submitScore(0, raised.distance, raised.deadline, raised.signature)
+      ).to.be.revertedWith('TalismanTournament: proof expired');
+
+      await expect(submit(players[0], 100n))
+        .to.emit(tournament, 'ScoreSubmitted')
+        .withArgs(0, players[0].address, 100n, true);
+
+      await time.increaseTo(startTime + DURATION);
+      await expect(submit(players[0], 200n)).to.be.revertedWith('TalismanTournament: tournament not running');
+    });
+
+    it('Should keep each player best distance', async function () {
+      const { tournament, players, submit } = await loadFixture(runningTournamentFixture);
+
+      await submit(players[0], 300n);
+      await expect(submit(players[0], 200n))
+        .to.emit(tournament, 'ScoreSubmitted')
+        .withArgs(0, players[0].address, 200n, false);
+      expect(await tournament.getBestDistance(0, players[0].address)).to.equal(300n);
+
+      await submit(players[0], 400n);
+      expect(await tournament.getBestDistance(0, players[0].address)).to.equal(400n);
+      expect(await standingsOf(tournament)).to.deep.equal([{ player: players[0].address, distance: 400n }]);
+    });
+
+    it('Should rank the paid places only, moving players up as they improve', async function () {
+      const { tournament, players, submit } = await loadFixture(runningTournamentFixture);
+      const [alice, bob, carol, dave] = players;
+
+      await submit(alice, 100n);
+      await submit(bob, 300n);
+      await submit(carol, 200n);
+      await submit(dave, 50n); // Below the three paid places
+
+      expect((await standingsOf(tournament)).map((s) => s.player)).to.deep.equal([
+        bob.address,
+        carol.address,
+        alice.address,
+      ]);
+
+      // Dave climbs into second, pushing Alice out
+      await submit(dave, 250n);
+      expect(await standingsOf(tournament)).to.deep.equal([
+        { player: bob.address, distance: 300n },
+        { player: dave.address, distance: 250n },
+        { player: carol.address, distance: 200n },
+      ]);
+
+      // Carol takes the lead
+      await submit(carol, 500n);
+      expect((await standingsOf(tournament)).map((s) => s.player)).to.deep.equal([
+        carol.address,
+        bob.address,
+        dave.address,
+      ]);
+    });
+  });
+
+  describe('Ties', function () {
+    it('Should rank equal distances by who reached them first', async function () {
+      const { tournament, players, submit } = await loadFixture(runningTournamentFixture);
+      const [alice, bob, carol] = players;
+
+      await submit(bob, 200n);
+      await submit(alice, 200n);
+      await submit(carol, 300n);
+
+      expect((await standingsOf(tournament)).map((s) => s.player)).to.deep.equal([
+        carol.address,
+        bob.address,
+        alice.address,
+      ]);
+    });
+
+    it('Should not let a tie displace the last paid place', async function () {
+      const { tournament, players, submit } = await loadFixture(runningTournamentFixture);
+      const [alice, bob, carol, dave] = players;
+
+      await submit(alice, 300n);
+      await submit(bob, 200n);
+      await submit(carol, 100n);
+      await submit(dave, 100n);
+
+      expect((await standingsOf(tournament)).map((s) => s.player)).to.deep.equal([
+        alice.address,
+        bob.address,
+        carol.address,
+      ]);
+    });
+
+    it('Should pay tied players by their rank', async function () {
+      const { tournament, players, startTime, submit } = await loadFixture(runningTournamentFixture);
+      const [alice, bob] = players;
+
+      await submit(alice, 200n);
+      await submit(bob, 200n);
+      await time.increaseTo(startTime + DURATION);
+      await tournament.finalizeTournament(0);
+
+      // Two scorers share the pool 50:30
+      const pool = ENTRY_FEE * 4n;
+      expect(await tournament.getPrize(0, alice.address)).to.equal((pool * 5000n) / 8000n);
+      expect(await tournament.getPrize(0, bob.address)).to.equal(pool - (pool * 5000n) / 8000n);
+    });
+  });
+
+  describe('Finalization', function () {
+    it('Should split the prize pool by the payout table', async function () {
+      const { token, tournament, players, sponsor, startTime, submit } = await loadFixture(runningTournamentFixture);
+      const [alice, bob, carol, dave] = players;
+      await tournament.connect(sponsor).fundPrizePool(0, ethers.parseEther('60'));
+
+      await submit(alice, 400n);
+      await submit(bob, 300n);
+      await submit(carol, 200n);
+      await submit(dave, 100n);
+
+      await expect(tournament.finalizeTournament(0)).to.be.revertedWith(
+        'TalismanTournament: tournament not ended'
+      );
+      await time.increaseTo(startTime + DURATION);
+
+      const pool = ENTRY_FEE * 4n + ethers.parseEther('60');
+      await expect(tournament.connect(dave).finalizeTournament(0))
+        .to.emit(tournament, 'TournamentFinalized')
+        .withArgs(0, pool, 3);
+
+      expect(await tournament.getPrize(0, alice.address)).to.equal(ethers.parseEther('50'));
+      expect(await tournament.getPrize(0, bob.address)).to.equal(ethers.parseEther('30'));
+      expect(await tournament.getPrize(0, carol.address)).to.equal(ethers.parseEther('20'));
+      expect(await tournament.getPrize(0, dave.address)).to.equal(0);
+
+      const balanceBefore = await token.balanceOf(alice.address);
+      await expect(tournament.connect(alice).claimPrize(0))
+        .to.emit(tournament, 'PrizeClaimed')
+        .withArgs(0, alice.address, ethers.parseEther('50'));
+      expect(await token.balanceOf(alice.address)).to.equal(balanceBefore + ethers.parseEther('50'));
+      expect(await tournament.isPrizeClaimed(0, alice.address)).to.be.true;
+
+      await expect(tournament.connect(alice).claimPrize(0)).to.be.revertedWith(
+        'TalismanTournament: already claimed'
+      );
+      await expect(tournament.connect(dave).claimPrize(0)).to.be.revertedWith(
+        'TalismanTournament: nothing to claim'
+      );
+      await expect(tournament.finalizeTournament(0)).to.be.revertedWith('TalismanTournament: already finalized');
+    });
+
+    it('Should pay out the whole pool when fewer players scored than there are places', async function () {
+      const { token, tournament, players, startTime, submit } = await loadFixture(runningTournamentFixture);
+      const [alice] = players;
+
+      await submit(alice, 100n);
+      await time.increaseTo(startTime + DURATION);
+      await tournament.finalizeTournament(0);
+
+      await tournament.connect(alice).claimPrize(0);
+      expect(await tournament.getPrize(0, alice.address)).to.equal(ENTRY_FEE * 4n);
+      expect(await token.balanceOf(await tournament.getAddress())).to.equal(0);
+    });
+
+    it('Should not pay prizes before finalization', async function () {
+      const { tournament, players, submit } = await loadFixture(runningTournamentFixture);
+
+      await submit(players[0], 100n);
+      await expect(tournament.connect(players[0]).claimPrize(0)).to.be.revertedWith(
+        'TalismanTournament: not finalized'
+      );
+    });
+  });
+
+  describe('Empty Tournaments', function () {
+    it('Should return sponsored funds to the owner when nobody entered', async function () {
+      const { token, tournament, owner, sponsor, startTime } = await loadFixture(deployTournamentFixture);
+      const amount = ethers.parseEther('100');
+      await tournament.connect(sponsor).fundPrizePool(0, amount);
+
+      await time.increaseTo(startTime + DURATION);
+      const ownerBefore = await token.balanceOf(owner.address);
+      await expect(tournament.finalizeTournament(0))
+        .to.emit(tournament, 'TournamentFinalized')
+        .withArgs(0, amount, 0);
+
+      expect(await token.balanceOf(owner.address)).to.equal(ownerBefore + amount);
+      expect(await token.balanceOf(await tournament.getAddress())).to.equal(0);
+    });
+
+    it('Should finalize a tournament with nothing in it', async function () {
+      const { tournament, players, startTime } = await loadFixture(deployTournamentFixture);
+
+      await time.increaseTo(startTime + DURATION);
+      await expect(tournament.finalizeTournament(0))
+        .to.emit(tournament, 'TournamentFinalized')
+        .withArgs(0, 0, 0);
+      await expect(tournament.connect(players[0]).claimPrize(0)).to.be.revertedWith(
+        'TalismanTournament: nothing to claim'
+      );
+    });
+
+    it('Should refund entry fees when nobody scored', async function () {
+      const { token, tournament, owner, players, sponsor, startTime } = await loadFixture(deployTournamentFixture);
+      const [alice, bob, carol] = players;
+      await tournament.connect(alice).enterTournament(0);
+      await tournament.connect(bob).enterTournament(0);
+      await tournament.connect(sponsor).fundPrizePool(0, ethers.parseEther('5'));
+
+      await time.increaseTo(startTime + DURATION);
+      const ownerBefore = await token.balanceOf(owner.address);
+      await tournament.finalizeTournament(0);
+      expect(await token.balanceOf(owner.address)).to.equal(ownerBefore + ethers.parseEther('5'));
+
+      const aliceBefore = await token.balanceOf(alice.address);
+      await expect(tournament.connect(alice).claimPrize(0))
+        .to.emit(tournament, 'EntryRefunded')
+        .withArgs(0, alice.address, ENTRY_FEE);
+      expect(await token.balanceOf(alice.address)).to.equal(aliceBefore + ENTRY_FEE);
+
+      await expect(tournament.connect(carol).claimPrize(0)).to.be.revertedWith(
+        'TalismanTournament: nothing to claim'
+      );
+      await tournament.connect(bob).claimPrize(0);
+      expect(await token.balanceOf(await tournament.getAddress())).to.equal(0);
+    });
+  });
+
+  describe('Admin Functions', function () {
+    it('Should reject scores while no verifier is set', async function () {
+      const { tournament, players, submit } = await loadFixture(runningTournamentFixture);
+
+      await expect(tournament.setScoreVerifier(ethers.ZeroAddress))
+        .to.emit(tournament, 'ScoreVerifierUpdated')
+        .withArgs(ethers.ZeroAddress);
+      await expect(submit(players[0], 100n)).to.be.revertedWith('TalismanTournament: no score verifier');
+    });
+
+    it('Should stop entries while paused', async function () {
+      const { tournament, players } = await loadFixture(deployTournamentFixture);
+
+      await tournament.pause();
+      await expect(tournament.connect(players[0]).enterTournament(0)).to.be.revertedWith('Pausable: paused');
+      await tournament.unpause();
+      await expect(tournament.connect(players[0]).enterTournament(0)).to.not.be.reverted;
+    });
+  });
+});
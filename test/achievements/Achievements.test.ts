@@ -0,0 +1,150 @@
+import { expect } from 'chai';
+import {
+  ACHIEVEMENT_IDS,
+  QUEST_POOL,
+  DAILY_QUEST_COUNT,
+  createProgress,
+  recordRun,
+  dayIndex,
+  getDailyQuests,
+  questProgress,
+  isQuestComplete,
+  type PlayerProgress,
+  type RunSummary,
+  type QuestSession,
+} from '../../shared/achievements';
+
+const DAY = 24 * 60 * 60;
+const START = 20000 * DAY;
+
+function run(overrides: Partial<RunSummary> = {}): RunSummary {
+  return { distance: 100, talismans: 0, died: true, endedAt: START, ...overrides };
+}
+
+function playRuns(runs: RunSummary[], progress: PlayerProgress = createProgress()) {
+  const unlocked: string[] = [];
+  for (const r of runs) {
+    const result = recordRun(progress, r);
+    progress = result.progress;
+    unlocked.push(...result.unlocked);
+  }
+  return { progress, unlocked };
+}
+
+describe('Achievements', function () {
+  describe('Engine', function () {
+    it('Should unlock the first run achievement once', function () {
+      const { progress, unlocked } = playRuns([run(), run()]);
+      expect(unlocked).to.deep.equal(['first-run']);
+      expect(progress.unlocked['first-run']).to.equal(START);
+      expect(progress.totalRuns).to.equal(2);
+    });
+
+    it('Should unlock distance thresholds from a single run', function () {
+      const { unlocked: short } = playRuns([run({ distance: 999 })]);
+      expect(short).to.not.include('distance-1000');
+
+      const { unlocked } = playRuns([run({ distance: 5200 })]);
+      expect(unlocked).to.include.members(['distance-1000', 'distance-5000']);
+      expect(unlocked).to.not.include('distance-10000');
+    });
+
+    it('Should count talismans per run, not in total', function () {
+      const { progress, unlocked } = playRuns([run({ talismans: 4 }), run({ talismans: 4 })]);
+      expect(progress.totalTalismans).to.equal(8);
+      expect(progress.bestTalismans).to.equal(4);
+      expect(unlocked).to.not.include('talismans-5');
+    });
+
+    it('Should track and reset the no-death streak', function () {
+      const alive = run({ died: false });
+      const { progress, unlocked } = playRuns([alive, alive, run(), alive, alive, alive]);
+
+      expect(progress.noDeathStreak).to.equal(3);
+      expect(progress.bestNoDeathStreak).to.equal(3);
+      expect(unlocked.filter((id) => id === 'no-death-3')).to.have.length(1);
+    });
+
+    it('Should count consecutive days and restart after a gap', function () {
+      const { progress, unlocked } = playRuns([
+        run({ endedAt: START }),
+        run({ endedAt: START + 100 }),
+        run({ endedAt: START + DAY }),
+        run({ endedAt: START + 2 * DAY }),
+      ]);
+      expect(progress.dayStreak).to.equal(3);
+      expect(unlocked).to.include('daily-3');
+
+      const { progress: afterGap } = playRuns([run({ endedAt: START + 4 * DAY })], progress);
+      expect(afterGap.dayStreak).to.equal(1);
+      expect(afterGap.bestDayStreak).to.equal(3);
+    });
+
+    it('Should not mutate the progress it is given', function () {
+      const before = createProgress();
+      recordRun(before, run({ distance: 20000, talismans: 20 }));
+      expect(before).to.deep.equal(createProgress());
+    });
+
+    it('Should be able to unlock every achievement', function () {
+      const runs: RunSummary[] = [];
+      for (let day = 0; day < 7; day++) {
+        for (let i = 0; i < 2; i++) {
+          runs.push(run({ distance: 12000, talismans: 20, died: false, endedAt: START + day * DAY + i }));
+        }
+      }
+      const { progress } = playRuns(runs);
+      expect(Object.keys(progress.unlocked)).to.have.members(ACHIEVEMENT_IDS);
+    });
+  });
+
+  describe('Daily Quests', function () {
+    const day = dayIndex(START);
+
+    function session(overrides: Partial<QuestSession> = {}): QuestSession {
+      return { endTime: START + 600, duration: 300, talismansCollected: 2, ...overrides };
+    }
+
+    it('Should offer the same distinct quests for a day', function () {
+      const quests = getDailyQuests(day);
+      expect(quests).to.have.length(DAILY_QUEST_COUNT);
+      expect(new Set(quests.map((q) => q.id)).size).to.equal(DAILY_QUEST_COUNT);
+      expect(getDailyQuests(day).map((q) => q.id)).to.deep.equal(quests.map((q) => q.id));
+    });
+
+    it('Should rotate quests across days', function () {
+      const rotations = new Set<string>();
+      for (let d = day; d < day + 10; d++) {
+        rotations.add(getDailyQuests(d).map((q) => q.id).join());
+      }
+      expect(rotations.size).to.be.greaterThan(1);
+    });
+
+    it('Should keep quest ids within a bytes32', function () {
+      for (const quest of QUEST_POOL) {
+        expect(Buffer.byteLength(quest.id)).to.be.at.most(31);
+      }
+    });
+
+    it('Should measure progress on the given day only', function () {
+      const sessions = [
+        session({ talismansCollected: 3, duration: 600 }),
+        session({ talismansCollected: 5, duration: 900, endTime: START + 7200 }),
+        session({ talismansCollected: 9, endTime: START - 10 }),
+      ];
+      const byMetric = (metric: string) => QUEST_POOL.find((q) => q.metric === metric)!;
+
+      expect(questProgress(byMetric('sessions'), sessions, day)).to.equal(2);
+      expect(questProgress(byMetric('talismans'), sessions, day)).to.equal(8);
+      expect(questProgress(byMetric('playTime'), sessions, day)).to.equal(1500);
+      expect(questProgress(byMetric('bestSession'), sessions, day)).to.equal(5);
+    });
+
+    it('Should complete a quest once its target is reached', function () {
+      const quest = QUEST_POOL.find((q) => q.id === 'play-2-sessions')!;
+      expect(isQuestComplete(quest, [session()], day)).to.be.false;
+      expect(isQuestComplete(quest, [session(), session()], day)).to.be.true;
+      expect(isQuestComplete(quest, [session(), session()], day + 1)).to.be.false;
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { loadFixture } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import {
+  BUNDLER_ENTRY_POINT_ABI,
+  BundlerError,
+  RPC_ERRORS,
+  addUserOp,
+  calcPreVerificationGas,
+  createMempool,
+  estimateUserOpGas,
+  parseRpcUserOp,
+  sendBundle,
+  simulateUserOp,
+  takeBundle,
+  toRpcUserOp,
+  type RpcUserOperation,
+  type UserOperation,
+} from '../../services/bundler';
+import { TalismanAccount } from '../../typechain-types';
+
+const RECIPIENT = '0x0000000000000000000000000000000000000e05';
+
+describe('Bundler', function () {
+  async function deployBundlerFixture() {
+    const [bundler, user1, user2] = await ethers.getSigners();
+
+    const MockEntryPoint = await ethers.getContractFactory('MockEntryPoint');
+    const mockEntryPoint = await MockEntryPoint.deploy();
+    const entryPoint = new ethers.Contract(await mockEntryPoint.getAddress(), BUNDLER_ENTRY_POINT_ABI, bundler);
+
+    const TalismanAccountFactory = await ethers.getContractFactory('TalismanAccountFactory');
+    const factory = await TalismanAccountFactory.deploy(await mockEntryPoint.getAddress());
+
+    const accounts: TalismanAccount[] = [];
+    for (const user of [user1, user2]) {
+      await factory.createAccount(user.address, 0);
+      const address = await factory.ownerToAccount(user.address);
+      await bundler.sendTransaction({ to: address, value: ethers.parseEther('1') });
+      accounts.push(await ethers.getContractAt('TalismanAccount', address));
+    }
+
+    return { entryPoint, accounts, bundler, user1, user2 };
+  }
+
+  // An operation sending ETH from the account to RECIPIENT
+  async function transferOp(account: TalismanAccount, value: bigint, nonce = 0n): Promise<UserOperation> {
+    return {
+      sender: await account.getAddress(),
+      nonce,
+      initCode: '0x',
+      callData: account.interface.encodeFunctionData('execute', [RECIPIENT, value, '0x']),
+      callGasLimit: 100000n,
+      verificationGasLimit: 150000n,
+      preVerificationGas: 50000n,
+      maxFeePerGas: ethers.parseUnits('2', 'gwei'),
+      maxPriorityFeePerGas: ethers.parseUnits('1', 'gwei'),
+      paymasterAndData: '0x',
+      signature: '0x' + '11'.repeat(65),
+    };
+  }
+
+  describe('UserOperation', function () {
+    it('Should round-trip through JSON-RPC form', async function () {
+      const { accounts } = await loadFixture(deployBundlerFixture);
+      const userOp = await transferOp(accounts[0], 1n, 7n);
+
+      expect(parseRpcUserOp(toRpcUserOp(userOp))).to.deep.equal(userOp);
+    });
+
+    it('Should only default gas fields when estimating', async function () {
+      const { accounts } = await loadFixture(deployBundlerFixture);
+      const partial: Partial<RpcUserOperation> = toRpcUserOp(await transferOp(accounts[0], 1n));
+      delete partial.callGasLimit;
+
+      expect(() => parseRpcUserOp(partial)).to.throw(BundlerError, 'Invalid UserOperation.callGasLimit');
+      expect(parseRpcUserOp(partial, { requireGas: false }).callGasLimit).to.equal(0n);
+
+      delete partial.nonce;
+      expect(() => parseRpcUserOp(partial, { requireGas: false })).to.throw(BundlerError, 'Invalid UserOperation.nonce');
+    });
+
+    it('Should reject malformed fields', function () {
+      expect(() => parseRpcUserOp(null)).to.throw(BundlerError, 'Missing UserOperation');
+      expect(() => parseRpcUserOp({ sender: 'player' })).to.throw(BundlerError, 'Invalid UserOperation.sender');
+      expect(() => parseRpcUserOp({ sender: RECIPIENT, callData: 'calldata' }, { requireGas: false })).to.throw(
+        BundlerError,
+        'Invalid UserOperation.callData'
+      );
+    });
+
+    it('Should price preVerificationGas by calldata, assuming a full signature', async function () {
+      const { accounts } = await loadFixture(deployBundlerFixture);
+      const userOp = await transferOp(accounts[0], 1n);
+
+      const preVerificationGas = calcPreVerificationGas(userOp);
+      expect(preVerificationGas).to.be.greaterThan(21000n + 18300n);
+      expect(calcPreVerificationGas({ ...userOp, signature: '0x' })).to.equal(preVerificationGas);
+      expect(calcPreVerificationGas({ ...userOp, callData: userOp.callData + 'ff'.repeat(64) })).to.be.greaterThan(
+        preVerificationGas
+      );
+    });
+  });
+
+  describe('Mempool', function () {
+    it('Should reject duplicate operations and reused nonces', async function () {
+      const { accounts } = await loadFixture(deployBundlerFixture);
+      const mempool = createMempool();
+      const userOp = await transferOp(accounts[0], 1n);
+
+      addUserOp(mempool, { userOpHash: ethers.id('a'), userOp, receivedAt: 0 });
+      expect(() => addUserOp(mempool, { userOpHash: ethers.id('a'), userOp, receivedAt: 0 })).to.throw(
+        BundlerError,
+        'already known'
+      );
+      expect(() =>
+        addUserOp(mempool, { userOpHash: ethers.id('b'), userOp: { ...userOp, callGasLimit: 1n }, receivedAt: 0 })
+      ).to.throw(BundlerError, 'sender and nonce is already pending');
+    });
+
+    it('Should bundle the oldest operations, one per sender', async function () {
+      const { accounts } = await loadFixture(deployBundlerFixture);
+      const mempool = createMempool();
+      const first = await transferOp(accounts[0], 1n, 0n);
+      const second = await transferOp(accounts[0], 1n, 1n);
+      const other = await transferOp(accounts[1], 1n, 0n);
+
+      addUserOp(mempool, { userOpHash: ethers.id('first'), userOp: first, receivedAt: 0 });
+      addUserOp(mempool, { userOpHash: ethers.id('second'), userOp: second, receivedAt: 1 });
+      addUserOp(mempool, { userOpHash: ethers.id('other'), userOp: other, receivedAt: 2 });
+
+      expect(takeBundle(mempool, 10).map(({ userOpHash }) => userOpHash)).to.deep.equal([
+        ethers.id('first'),
+        ethers.id('other'),
+      ]);
+      expect(takeBundle(mempool, 10).map(({ userOpHash }) => userOpHash)).to.deep.equal([ethers.id('second')]);
+      expect(takeBundle(mempool, 10)).to.be.empty;
+    });
+
+    it('Should cap the bundle size', async function () {
+      const { accounts } = await loadFixture(deployBundlerFixture);
+      const mempool = createMempool();
+      addUserOp(mempool, { userOpHash: ethers.id('a'), userOp: await transferOp(accounts[0], 1n), receivedAt: 0 });
+      addUserOp(mempool, { userOpHash: ethers.id('b'), userOp: await transferOp(accounts[1], 1n), receivedAt: 0 });
+
+      expect(takeBundle(mempool, 1)).to.have.length(1);
+      expect(mempool.pending.size).to.equal(1);
+    });
+  });
+
+  describe('Simulation and estimation', function () {
+    it('Should accept an operation that executes', async function () {
+      const { entryPoint, accounts, bundler } = await loadFixture(deployBundlerFixture);
+      await simulateUserOp(entryPoint, await transferOp(accounts[0], ethers.parseEther('0.1')), bundler.address);
+    });
+
+    it('Should reject an operation that reverts', async function () {
+      const { entryPoint, accounts, bundler } = await loadFixture(deployBundlerFixture);
+      const userOp = await transferOp(accounts[0], ethers.parseEther('5'));
+
+      const error = await simulateUserOp(entryPoint, userOp, bundler.address).catch((err) => err);
+      expect(error).to.be.instanceOf(BundlerError);
+      expect(error.code).to.equal(RPC_ERRORS.rejected);
+      expect(error.message).to.match(/^UserOperation reverted/);
+    });
+
+    it('Should estimate gas from the call and its calldata', async function () {
+      const { entryPoint, accounts } = await loadFixture(deployBundlerFixture);
+      const userOp = await transferOp(accounts[0], ethers.parseEther('0.1'));
+
+      const estimate = await estimateUserOpGas(entryPoint, userOp);
+      expect(estimate.callGasLimit).to.be.greaterThan(21000n).and.lessThan(100000n);
+      expect(estimate.verificationGasLimit).to.equal(150000n);
+      expect(estimate.preVerificationGas).to.equal(calcPreVerificationGas(userOp));
+
+      const withInitCode = await estimateUserOpGas(entryPoint, { ...userOp, initCode: RECIPIENT });
+      expect(withInitCode.verificationGasLimit).to.be.greaterThan(estimate.verificationGasLimit);
+    });
+
+    it('Should report a reverting call when estimating', async function () {
+      const { entryPoint, accounts } = await loadFixture(deployBundlerFixture);
+      const userOp = await transferOp(accounts[0], ethers.parseEther('5'));
+
+      const error = await estimateUserOpGas(entryPoint, userOp).catch((err) => err);
+      expect(error).to.be.instanceOf(BundlerError);
+      expect(error.code).to.equal(RPC_ERRORS.executionReverted);
+    });
+  });
+
+  describe('Bundling', function () {
+    it('Should send a bundle and record a receipt per operation', async function () {
+      const { entryPoint, accounts, bundler } = await loadFixture(deployBundlerFixture);
+      const mempool = createMempool();
+      const userOpHashes: string[] = [];
+      for (const account of accounts) {
+        const userOp = await transferOp(account, ethers.parseEther('0.1'));
+        const userOpHash: string = await entryPoint.getUserOpHash(userOp);
+        addUserOp(mempool, { userOpHash, userOp, receivedAt: 0 });
+        userOpHashes.push(userOpHash);
+      }
+
+      const result = await sendBundle(entryPoint, mempool, takeBundle(mempool, 10), bundler.address);
+      expect(result.transactionHash).to.be.a('string');
+      expect(result.included).to.have.length(2);
+      expect(result.dropped).to.be.empty;
+      expect(await ethers.provider.getBalance(RECIPIENT)).to.equal(ethers.parseEther('0.2'));
+
+      for (const [i, userOpHash] of userOpHashes.entries()) {
+        const receipt = mempool.receipts.get(userOpHash)!;
+        expect(receipt.sender).to.equal(await accounts[i].getAddress());
+        expect(receipt.success).to.equal(true);
+        expect(receipt.transactionHash).to.equal(result.transactionHash);
+        // Each receipt holds only its own operation's Executed event
+        expect(receipt.logs).to.have.length(1);
+        expect(receipt.logs[0].address).to.equal(await accounts[i].getAddress());
+      }
+    });
+
+    it('Should drop operations that stopped simulating since they were accepted', async function () {
+      const { entryPoint, accounts, bundler, user1 } = await loadFixture(deployBundlerFixture);
+      const mempool = createMempool();
+
+      const stale = await transferOp(accounts[0], ethers.parseEther('0.6'));
+      const staleHash: string = await entryPoint.getUserOpHash(stale);
+      await simulateUserOp(entryPoint, stale, bundler.address);
+      addUserOp(mempool, { userOpHash: staleHash, userOp: stale, receivedAt: 0 });
+
+      const valid = await transferOp(accounts[1], ethers.parseEther('0.1'));
+      const validHash: string = await entryPoint.getUserOpHash(valid);
+      addUserOp(mempool, { userOpHash: validHash, userOp: valid, receivedAt: 1 });
+
+      // The owner spends the ETH the first operation needed
+      await accounts[0].connect(user1).execute(RECIPIENT, ethers.parseEther('0.6'), '0x');
+
+      const result = await sendBundle(entryPoint, mempool, takeBundle(mempool, 10), bundler.address);
+      expect(result.included.map(({ userOpHash }) => userOpHash)).to.deep.equal([validHash]);
+      expect(result.dropped.map(({ userOpHash }) => userOpHash)).to.deep.equal([staleHash]);
+      expect(mempool.dropped.get(staleHash)).to.match(/^UserOperation reverted/);
+      expect(mempool.receipts.has(staleHash)).to.equal(false);
+      expect(mempool.receipts.get(validHash)!.success).to.equal(true);
+    });
+  });
+});
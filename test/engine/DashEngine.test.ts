@@ -0,0 +1,445 @@
+import { expect } from 'chai';
+import {
+  createDashState,
+  stepDash,
+  createRng,
+  updatePlayer,
+  checkObstacleCollision,
+  checkTalismanCollision,
+  createInitialPlayer,
+  interpolateDashState,
+  OBSTACLE_REGISTRY,
+  pickObstacleType,
+  speedAtDistance,
+  applyObstacleMotion,
+  type DashSimState,
+  type Obstacle,
+  type ObstacleType,
+  GROUND_Y,
+  CANVAS_HEIGHT,
+  PLAYER_HEIGHT,
+  PLAYER_DUCK_HEIGHT,
+  JUMP_FORCE,
+  DOUBLE_JUMP_FORCE,
+  MAX_AIR_JUMPS,
+  PLATFORM_AMPLITUDE,
+  JUMP_CUT_VELOCITY,
+  COYOTE_TICKS,
+  JUMP_BUFFER_TICKS,
+  CANVAS_WIDTH,
+  MIN_OBSTACLE_GAP,
+  MAX_OBSTACLE_GAP,
+  BASE_SPEED,
+} from '../../shared/dash';
+
+describe('DashEngine', function () {
+  const JUMP = { jump: true, duck: false };
+  const NONE = { jump: false, duck: false };
+  const DUCK = { jump: false, duck: true };
+
+  // Runs the simulation for a number of ticks with a scripted jump pattern
+  function simulate(seed: number, ticks: number, jumpAt: (tick: number) => boolean = () => false) {
+    let state: DashSimState = createDashState(seed);
+    for (let i = 0; i < ticks && !state.isGameOver; i++) {
+      state = stepDash(state, { jump: jumpAt(state.tick), duck: false });
+    }
+    return state;
+  }
+
+  describe('Random', function () {
+    it('Should produce the same sequence for the same seed', function () {
+      const a = createRng(42);
+      const b = createRng(42);
+      for (let i = 0; i < 100; i++) {
+        expect(a.next()).to.equal(b.next());
+      }
+    });
+
+    it('Should produce values in [0, 1)', function () {
+      const rng = createRng(7);
+      for (let i = 0; i < 1000; i++) {
+        const value = rng.next();
+        expect(value).to.be.gte(0);
+        expect(value).to.be.lt(1);
+      }
+    });
+
+    it('Should resume from a stored state', function () {
+      const rng = createRng(1234);
+      rng.next();
+      rng.next();
+      const resumed = createRng(rng.state);
+      expect(resumed.next()).to.equal(rng.next());
+    });
+  });
+
+  describe('Determinism', function () {
+    it('Should replay the same run for the same seed and inputs', function () {
+      const jumpAt = (tick: number) => tick % 45 < 10;
+      const a = simulate(99, 2000, jumpAt);
+      const b = simulate(99, 2000, jumpAt);
+      expect(a).to.deep.equal(b);
+    });
+
+    it('Should produce different runs for different seeds', function () {
+      const a = createDashState(1);
+      const b = createDashState(2);
+      expect(a.obstacles[0].x).to.not.equal(b.obstacles[0].x);
+    });
+
+    it('Should not mutate the input state', function () {
+      const state = createDashState(5);
+      const snapshot = JSON.parse(JSON.stringify(state));
+      stepDash(state, JUMP);
+      expect(state).to.deep.equal(snapshot);
+    });
+  });
+
+  describe('Spawning', function () {
+    it('Should spawn the first obstacle one gap after the canvas edge', function () {
+      const state = createDashState(3);
+      const first = state.obstacles[0];
+      expect(first.x).to.be.gte(CANVAS_WIDTH + MIN_OBSTACLE_GAP);
+      expect(first.x).to.be.lte(CANVAS_WIDTH + MAX_OBSTACLE_GAP);
+    });
+
+    it('Should speed up along the difficulty curve', function () {
+      let state = createDashState(11);
+      for (let i = 0; i < 600; i++) {
+        state = stepDash({ ...state, player: { ...state.player, y: -1000 } }, NONE);
+      }
+      expect(state.speed).to.equal(speedAtDistance(state.distance));
+      expect(state.speed).to.be.gt(BASE_SPEED);
+    });
+
+    it('Should assign increasing obstacle ids', function () {
+      let state = createDashState(21);
+      for (let i = 0; i < 600; i++) {
+        state = stepDash({ ...state, player: { ...state.player, y: -1000 } }, NONE);
+      }
+      const ids = state.obstacles.map((o) => o.id);
+      expect(ids).to.deep.equal([...ids].sort((a, b) => a - b));
+      expect(state.nextObstacleId).to.be.gt(ids[ids.length - 1]);
+    });
+  });
+
+  describe('Physics', function () {
+    it('Should jump from the ground', function () {
+      const player = updatePlayer(createInitialPlayer(), JUMP);
+      expect(player.velocityY).to.equal(JUMP_FORCE);
+      expect(player.isJumping).to.be.true;
+      expect(player.isGrounded).to.be.false;
+    });
+
+    it('Should not jump while airborne once air jumps are spent', function () {
+      const airborne = {
+        ...createInitialPlayer(), y: 100, velocityY: -2, isGrounded: false, isJumping: true, airJumpsLeft: 0,
+      };
+      const player = updatePlayer(airborne, JUMP);
+      expect(player.velocityY).to.be.gt(-2);
+    });
+
+    it('Should land back on the ground', function () {
+      let player = updatePlayer(createInitialPlayer(), JUMP);
+      for (let i = 0; i < 120; i++) {
+        player = updatePlayer(player, NONE);
+      }
+      expect(player.y).to.equal(GROUND_Y - PLAYER_HEIGHT);
+      expect(player.isGrounded).to.be.true;
+    });
+  });
+
+  describe('Jump Feel', function () {
+    // Highest point reached when holding jump for the given number of ticks
+    function peakHeight(holdTicks: number) {
+      let player = createInitialPlayer();
+      const groundY = player.y;
+      let peak = 0;
+      for (let i = 0; i < 120; i++) {
+        player = updatePlayer(player, i < holdTicks ? JUMP : NONE);
+        peak = Math.max(peak, groundY - player.y);
+      }
+      return peak;
+    }
+
+    it('Should jump higher the longer jump is held', function () {
+      const tap = peakHeight(1);
+      const medium = peakHeight(8);
+      const full = peakHeight(60);
+      expect(tap).to.be.lt(medium);
+      expect(medium).to.be.lt(full);
+    });
+
+    it('Should cut upward velocity on release', function () {
+      let player = updatePlayer(createInitialPlayer(), JUMP);
+      player = updatePlayer(player, NONE);
+      expect(player.velocityY).to.be.gte(JUMP_CUT_VELOCITY);
+    });
+
+    it('Should not jump again while jump is held after landing', function () {
+      let player = createInitialPlayer();
+      for (let i = 0; i < 120; i++) {
+        player = updatePlayer(player, JUMP);
+      }
+      expect(player.isGrounded).to.be.true;
+      expect(player.isJumping).to.be.false;
+    });
+
+    it('Should allow a jump shortly after leaving the ground', function () {
+      // Walked off an edge: airborne, not jumping, still inside the coyote window
+      const falling = { ...createInitialPlayer(), y: 200, isGrounded: false, coyoteTicks: 2 };
+      const player = updatePlayer(falling, JUMP);
+      expect(player.velocityY).to.equal(JUMP_FORCE);
+      expect(player.isJumping).to.be.true;
+    });
+
+    it('Should not allow a jump after coyote time runs out', function () {
+      let player = {
+        ...createInitialPlayer(), y: 100, isGrounded: false, coyoteTicks: COYOTE_TICKS, airJumpsLeft: 0,
+      };
+      for (let i = 0; i < COYOTE_TICKS; i++) {
+        player = updatePlayer(player, NONE);
+      }
+      player = updatePlayer(player, JUMP);
+      expect(player.isJumping).to.be.false;
+      expect(player.velocityY).to.be.gt(0);
+    });
+
+    // Falls from a short height, pressing jump `ticksBeforeLanding` before touching down.
+    // Air jumps are spent so the press can only be buffered.
+    function landWithPress(ticksBeforeLanding: number) {
+      const jump = () => ({ ...updatePlayer(createInitialPlayer(), JUMP), airJumpsLeft: 0 });
+      let player = jump();
+      let airTicks = 0;
+      while (!player.isGrounded) {
+        player = updatePlayer(player, NONE);
+        airTicks++;
+      }
+
+      // Replay the same jump, pressing again just before landing
+      player = jump();
+      for (let i = 1; i <= airTicks; i++) {
+        player = updatePlayer(player, i === airTicks - ticksBeforeLanding + 1 ? JUMP : NONE);
+      }
+      return player;
+    }
+
+    it('Should buffer a press made just before landing', function () {
+      const player = landWithPress(JUMP_BUFFER_TICKS - 2);
+      expect(player.isJumping).to.be.true;
+      expect(player.velocityY).to.equal(JUMP_FORCE);
+    });
+
+    it('Should drop a press made too early', function () {
+      const player = landWithPress(JUMP_BUFFER_TICKS + 2);
+      expect(player.isGrounded).to.be.true;
+      expect(player.isJumping).to.be.false;
+    });
+  });
+
+  describe('Double Jump', function () {
+    // Jumps, then releases for a few ticks so the next press is a fresh one
+    function midAir() {
+      let player = updatePlayer(createInitialPlayer(), JUMP);
+      for (let i = 0; i < 5; i++) {
+        player = updatePlayer(player, NONE);
+      }
+      return player;
+    }
+
+    it('Should jump again on a fresh press in mid-air', function () {
+      const player = updatePlayer(midAir(), JUMP);
+      expect(player.velocityY).to.equal(DOUBLE_JUMP_FORCE);
+      expect(player.airJumpsLeft).to.equal(MAX_AIR_JUMPS - 1);
+    });
+
+    it('Should not jump again while jump stays held', function () {
+      let player = updatePlayer(createInitialPlayer(), JUMP);
+      for (let i = 0; i < 5; i++) {
+        player = updatePlayer(player, JUMP);
+      }
+      expect(player.airJumpsLeft).to.equal(MAX_AIR_JUMPS);
+    });
+
+    it('Should refill air jumps on landing', function () {
+      let player = updatePlayer(midAir(), JUMP);
+      for (let i = 0; i < 200 && !player.isGrounded; i++) {
+        player = updatePlayer(player, NONE);
+      }
+      expect(player.isGrounded).to.be.true;
+      expect(player.airJumpsLeft).to.equal(MAX_AIR_JUMPS);
+    });
+  });
+
+  describe('Ducking', function () {
+    it('Should shrink while ducking and keep the feet on the ground', function () {
+      const player = updatePlayer(createInitialPlayer(), DUCK);
+      expect(player.isDucking).to.be.true;
+      expect(player.height).to.equal(PLAYER_DUCK_HEIGHT);
+      expect(player.y + player.height).to.equal(GROUND_Y);
+    });
+
+    it('Should stand up on release', function () {
+      let player = updatePlayer(createInitialPlayer(), DUCK);
+      player = updatePlayer(player, NONE);
+      expect(player.isDucking).to.be.false;
+      expect(player.height).to.equal(PLAYER_HEIGHT);
+      expect(player.y + player.height).to.equal(GROUND_Y);
+    });
+
+    it('Should not start ducking in the air', function () {
+      const airborne = { ...createInitialPlayer(), y: 100, isGrounded: false };
+      expect(updatePlayer(airborne, DUCK).isDucking).to.be.false;
+    });
+
+    it('Should pass under a flyer only while ducking', function () {
+      const [flyer] = OBSTACLE_REGISTRY.flyer.spawn(createRng(1), 0, createInitialPlayer().x);
+      expect(checkObstacleCollision(createInitialPlayer(), [flyer])).to.be.true;
+      expect(checkObstacleCollision(updatePlayer(createInitialPlayer(), DUCK), [flyer])).to.be.false;
+    });
+  });
+
+  describe('Obstacles', function () {
+    it('Should give every type a positive spawn weight', function () {
+      for (const definition of Object.values(OBSTACLE_REGISTRY)) {
+        expect(definition.weight).to.be.gt(0);
+      }
+    });
+
+    it('Should eventually pick every registered type', function () {
+      const rng = createRng(3);
+      const seen = new Set<ObstacleType>();
+      for (let i = 0; i < 1000; i++) {
+        seen.add(pickObstacleType(rng));
+      }
+      expect([...seen].sort()).to.deep.equal(Object.keys(OBSTACLE_REGISTRY).sort());
+    });
+
+    it('Should spawn a platform over its own gap with consecutive ids', function () {
+      const [gap, platform] = OBSTACLE_REGISTRY.platform.spawn(createRng(1), 10, 500);
+      expect(gap.type).to.equal('gap');
+      expect(platform.type).to.equal('platform');
+      expect(platform.id).to.equal(gap.id + 1);
+      expect(platform.x).to.be.gt(gap.x);
+      expect(platform.x + platform.width).to.be.lt(gap.x + gap.width);
+    });
+
+    it('Should move platforms within their amplitude and leave static obstacles alone', function () {
+      const [spike] = OBSTACLE_REGISTRY.spike.spawn(createRng(1), 0, 500);
+      expect(applyObstacleMotion(spike, 37)).to.equal(spike);
+
+      const [, platform] = OBSTACLE_REGISTRY.platform.spawn(createRng(1), 0, 500);
+      const baseY = platform.motion!.baseY;
+      for (let tick = 0; tick < 200; tick += 7) {
+        const moved = applyObstacleMotion(platform, tick);
+        expect(Math.abs(moved.y - baseY)).to.be.lte(PLATFORM_AMPLITUDE + 1e-9);
+      }
+    });
+  });
+
+  describe('Gaps and Platforms', function () {
+    function gapUnderPlayer(): Obstacle {
+      const player = createInitialPlayer();
+      return { id: 0, x: player.x - 50, y: GROUND_Y, width: 200, height: CANVAS_HEIGHT - GROUND_Y, type: 'gap', passed: false };
+    }
+
+    it('Should fall through the ground over a gap', function () {
+      const player = updatePlayer(createInitialPlayer(), NONE, 1, [gapUnderPlayer()]);
+      expect(player.isGrounded).to.be.false;
+      expect(player.y + player.height).to.be.gt(GROUND_Y);
+    });
+
+    it('Should end the run after falling into a gap', function () {
+      let state = { ...createDashState(4), obstacles: [gapUnderPlayer()] };
+      for (let i = 0; i < 120 && !state.isGameOver; i++) {
+        state = stepDash({ ...state, obstacles: [gapUnderPlayer()] }, NONE);
+      }
+      expect(state.isGameOver).to.be.true;
+    });
+
+    it('Should land on a platform from above', function () {
+      const player = createInitialPlayer();
+      const platform: Obstacle = {
+        id: 1, x: player.x - 20, y: GROUND_Y - 80, width: 120, height: 14, type: 'platform', passed: false,
+      };
+      let falling = { ...player, y: platform.y - player.height - 30, isGrounded: false };
+      for (let i = 0; i < 60 && !falling.isGrounded; i++) {
+        falling = updatePlayer(falling, NONE, 1, [gapUnderPlayer(), platform]);
+      }
+      expect(falling.isGrounded).to.be.true;
+      expect(falling.y + falling.height).to.equal(platform.y);
+    });
+
+    it('Should jump up through a platform from below', function () {
+      const player = createInitialPlayer();
+      const platform: Obstacle = {
+        id: 1, x: player.x - 20, y: GROUND_Y - 60, width: 120, height: 14, type: 'platform', passed: false,
+      };
+      let jumping = updatePlayer(player, JUMP, 1, [platform]);
+      for (let i = 0; i < 3; i++) {
+        jumping = updatePlayer(jumping, JUMP, 1, [platform]);
+      }
+      expect(jumping.isGrounded).to.be.false;
+      expect(jumping.velocityY).to.be.lt(0);
+    });
+  });
+
+  describe('Collision', function () {
+    it('Should detect overlapping obstacles', function () {
+      const player = createInitialPlayer();
+      const obstacle = {
+        id: 0, x: player.x + 10, y: player.y + 10, width: 30, height: 30, type: 'block' as const, passed: false,
+      };
+      expect(checkObstacleCollision(player, [obstacle])).to.be.true;
+      expect(checkObstacleCollision(player, [{ ...obstacle, x: player.x + 200 }])).to.be.false;
+    });
+
+    it('Should collect nearby talismans', function () {
+      const player = createInitialPlayer();
+      const talisman = {
+        id: 7, x: player.x + player.width / 2, y: player.y, radius: 18, collected: false, hue: 260,
+      };
+      expect(checkTalismanCollision(player, [talisman])).to.deep.equal([7]);
+      expect(checkTalismanCollision(player, [{ ...talisman, collected: true }])).to.deep.equal([]);
+    });
+
+    it('Should end the run when hitting an obstacle', function () {
+      const state = simulate(8, 5000);
+      expect(state.isGameOver).to.be.true;
+      expect(state.distance).to.be.gt(0);
+    });
+
+    it('Should stop advancing after game over', function () {
+      const state = simulate(8, 5000);
+      expect(stepDash(state, JUMP)).to.equal(state);
+    });
+  });
+
+  describe('Interpolation', function () {
+    it('Should blend positions between consecutive ticks', function () {
+      const previous = createDashState(13);
+      const current = stepDash(previous, JUMP);
+
+      const start = interpolateDashState(previous, current, 0);
+      const end = interpolateDashState(previous, current, 1);
+      const mid = interpolateDashState(previous, current, 0.5);
+
+      expect(start.player.y).to.equal(previous.player.y);
+      expect(end.player.y).to.equal(current.player.y);
+      expect(mid.obstacles[0].x).to.equal((previous.obstacles[0].x + current.obstacles[0].x) / 2);
+    });
+
+    it('Should not change simulation values', function () {
+      const previous = createDashState(13);
+      const current = stepDash(previous, NONE);
+      const view = interpolateDashState(previous, current, 0.5);
+      expect(view.distance).to.equal(current.distance);
+      expect(view.tick).to.equal(current.tick);
+    });
+
+    it('Should render the final state after game over', function () {
+      const state = simulate(8, 5000);
+      expect(interpolateDashState(createDashState(8), state, 0.5)).to.equal(state);
+    });
+  });
+});
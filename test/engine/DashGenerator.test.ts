@@ -0,0 +1,146 @@
+import { expect } from 'chai';
+import {
+  createRng,
+  createDashState,
+  stepDash,
+  speedAtDistance,
+  getDifficultyTier,
+  pickPattern,
+  buildChunk,
+  generateChunk,
+  isChunkClearable,
+  OBSTACLE_PATTERNS,
+  FALLBACK_PATTERN,
+  type Obstacle,
+  type DashSimState,
+  BASE_SPEED,
+  MAX_SPEED,
+  DIFFICULTY_TIER_DISTANCES,
+  MIN_OBSTACLE_GAP,
+  MAX_OBSTACLE_GAP,
+  GROUND_Y,
+} from '../../shared/dash';
+
+describe('DashGenerator', function () {
+  const START = { tick: 0, distance: 0, speed: BASE_SPEED, slowMotionTicks: 0 };
+
+  // Run progress at the given distance, as the engine would have it
+  function progressAt(distance: number) {
+    return { tick: 0, distance, speed: speedAtDistance(distance), slowMotionTicks: 0 };
+  }
+
+  describe('Difficulty', function () {
+    it('Should start at base speed and ease towards max speed', function () {
+      expect(speedAtDistance(0)).to.equal(BASE_SPEED);
+      expect(speedAtDistance(1000)).to.be.gt(speedAtDistance(500));
+      expect(speedAtDistance(1e6)).to.be.lte(MAX_SPEED);
+      expect(speedAtDistance(1e6)).to.be.closeTo(MAX_SPEED, 1e-6);
+    });
+
+    it('Should unlock tiers as distance grows', function () {
+      expect(getDifficultyTier(0)).to.equal(0);
+      DIFFICULTY_TIER_DISTANCES.forEach((distance, tier) => {
+        expect(getDifficultyTier(distance)).to.equal(tier);
+      });
+      expect(getDifficultyTier(1e6)).to.equal(DIFFICULTY_TIER_DISTANCES.length - 1);
+    });
+  });
+
+  describe('Patterns', function () {
+    it('Should have sorted entries starting at offset 0', function () {
+      for (const pattern of OBSTACLE_PATTERNS) {
+        const offsets = pattern.entries.map((entry) => entry.offset);
+        expect(offsets[0], pattern.name).to.equal(0);
+        expect(offsets, pattern.name).to.deep.equal([...offsets].sort((a, b) => a - b));
+      }
+    });
+
+    it('Should have patterns for every tier', function () {
+      DIFFICULTY_TIER_DISTANCES.forEach((_distance, tier) => {
+        expect(OBSTACLE_PATTERNS.some((pattern) => pattern.tier === tier)).to.be.true;
+      });
+    });
+
+    it('Should only pick patterns unlocked by the tier', function () {
+      const rng = createRng(5);
+      for (let i = 0; i < 200; i++) {
+        expect(pickPattern(rng, 0).tier).to.equal(0);
+        expect(pickPattern(rng, 1).tier).to.be.lte(1);
+      }
+    });
+
+    it('Should build pattern obstacles with consecutive ids', function () {
+      const pattern = OBSTACLE_PATTERNS.find((p) => p.name === 'spike-triple')!;
+      const chunk = buildChunk(pattern, createRng(1), 7, 1000);
+      expect(chunk.map((o) => o.id)).to.deep.equal([7, 8, 9]);
+      expect(chunk.map((o) => o.x)).to.deep.equal([1000, 1030, 1060]);
+    });
+  });
+
+  describe('Reachability', function () {
+    it('Should clear the fallback pattern at every speed', function () {
+      for (let distance = 0; distance <= 20000; distance += 500) {
+        const chunk = buildChunk(FALLBACK_PATTERN, createRng(1), 0, 1000);
+        expect(isChunkClearable(chunk, progressAt(distance)), `distance ${distance}`).to.be.true;
+      }
+    });
+
+    it('Should reject an obstacle too tall to jump', function () {
+      const tower: Obstacle = {
+        id: 0, x: 1000, y: GROUND_Y - 400, width: 40, height: 400, type: 'block', passed: false,
+      };
+      expect(isChunkClearable([tower], START)).to.be.false;
+    });
+
+    it('Should reject a gap too wide to cross', function () {
+      const pit: Obstacle = {
+        id: 0, x: 1000, y: GROUND_Y, width: 1200, height: 80, type: 'gap', passed: false,
+      };
+      expect(isChunkClearable([pit], START)).to.be.false;
+    });
+
+    it('Should reject a double jump wall at max speed', function () {
+      const [wall] = buildChunk(OBSTACLE_PATTERNS.find((p) => p.name === 'wall')!, createRng(1), 0, 1000);
+      expect(isChunkClearable([wall], START)).to.be.true;
+      expect(isChunkClearable([wall], progressAt(1e6))).to.be.false;
+    });
+  });
+
+  describe('Generation', function () {
+    it('Should place each chunk one gap after the previous one', function () {
+      const rng = createRng(9);
+      for (let i = 0; i < 20; i++) {
+        const chunk = generateChunk(rng, 0, 1000, progressAt(i * 500));
+        const start = Math.min(...chunk.map((o) => o.x));
+        expect(start).to.be.gte(1000 + MIN_OBSTACLE_GAP);
+        expect(start).to.be.lte(1000 + MAX_OBSTACLE_GAP);
+      }
+    });
+
+    it('Should only generate clearable chunks', function () {
+      const rng = createRng(17);
+      for (let i = 0; i < 40; i++) {
+        const progress = progressAt(i * 250);
+        expect(isChunkClearable(generateChunk(rng, 0, 1000, progress), progress)).to.be.true;
+      }
+    });
+
+    it('Should be deterministic for the same seed', function () {
+      const a = generateChunk(createRng(3), 0, 1000, progressAt(3000));
+      const b = generateChunk(createRng(3), 0, 1000, progressAt(3000));
+      expect(a).to.deep.equal(b);
+    });
+
+    it('Should generate harder patterns further into a run', function () {
+      // Keep the player out of the way so the run never ends
+      let state: DashSimState = createDashState(23);
+      const types = new Set<string>();
+      for (let i = 0; i < 6000; i++) {
+        state = stepDash({ ...state, player: { ...state.player, y: -1000 } }, { jump: false, duck: false });
+        state.obstacles.forEach((o) => types.add(o.type));
+      }
+      expect(getDifficultyTier(state.distance)).to.equal(DIFFICULTY_TIER_DISTANCES.length - 1);
+      expect(types.size).to.be.gte(5);
+    });
+  });
+});
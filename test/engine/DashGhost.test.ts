@@ -0,0 +1,85 @@
+import { expect } from 'chai';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  createDashState,
+  stepDash,
+  recordInput,
+  EMPTY_INPUT_LOG,
+  createReplay,
+  simulateReplay,
+  parseReplay,
+  createGhost,
+  stepGhost,
+  ghostOffset,
+  raceOutcome,
+  PIXELS_PER_DISTANCE,
+  DASH_CONSTANTS_VERSION,
+  type DashSimState,
+} from '../../shared/dash';
+
+describe('DashGhost', function () {
+  function record(seed: number, jumpAt: (tick: number) => boolean) {
+    let state: DashSimState = createDashState(seed);
+    let log = EMPTY_INPUT_LOG;
+    while (!state.isGameOver && state.tick < 10000) {
+      const input = { jump: jumpAt(state.tick), duck: false };
+      log = recordInput(log, state.tick, input);
+      state = stepDash(state, input);
+    }
+    return { state, replay: createReplay(state, log) };
+  }
+
+  describe('Stepping', function () {
+    it('Should follow the recorded inputs on the replay seed', function () {
+      const { state, replay } = record(7, (tick) => tick % 45 < 10);
+
+      let ghost = createGhost(replay);
+      expect(ghost.seed).to.equal(7);
+      while (ghost.tick < replay.ticks) {
+        ghost = stepGhost(ghost, replay);
+      }
+
+      expect(ghost.distance).to.equal(state.distance);
+      expect(ghost.isGameOver).to.equal(state.isGameOver);
+    });
+
+    it('Should stop where the recorded run ended', function () {
+      const { state, replay } = record(8, (tick) => tick % 45 < 10);
+      // A run cashed out before it crashed
+      const cashedOut = { ...replay, ticks: Math.floor(replay.ticks / 2) };
+
+      const ended = simulateReplay(cashedOut);
+      expect(stepGhost(ended, cashedOut)).to.equal(ended);
+      expect(ended.distance).to.be.below(state.distance);
+    });
+  });
+
+  describe('Racing', function () {
+    it('Should place the ghost by the distance between the runs', function () {
+      const runner = { ...createDashState(1), distance: 100 };
+      const ahead = { ...createDashState(1), distance: 112.5 };
+
+      expect(ghostOffset(ahead, runner)).to.equal(12.5 * PIXELS_PER_DISTANCE);
+      expect(ghostOffset(runner, ahead)).to.equal(-12.5 * PIXELS_PER_DISTANCE);
+    });
+
+    it('Should decide races in whole meters', function () {
+      expect(raceOutcome(901.2, 900.9)).to.equal('win');
+      expect(raceOutcome(899.9, 900.1)).to.equal('loss');
+      expect(raceOutcome(900.9, 900.1)).to.equal('tie');
+    });
+  });
+
+  describe('Bundled Ghost', function () {
+    it('Should re-simulate to its recorded distance with the current constants', function () {
+      const file = join(__dirname, '../../frontend/src/assets/ghosts/practice.json');
+      const ghost = parseReplay(readFileSync(file, 'utf8'));
+
+      expect(ghost.constantsVersion).to.equal(DASH_CONSTANTS_VERSION);
+      const state = simulateReplay(ghost);
+      expect(state.tick).to.equal(ghost.ticks);
+      expect(state.distance).to.equal(ghost.distance);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { expect } from 'chai';
+import {
+  createDashState,
+  stepDash,
+  createRng,
+  createPowerUp,
+  createActivePowerUps,
+  tickPowerUps,
+  activatePowerUps,
+  applyMagnet,
+  checkTalismanCollision,
+  recordInput,
+  createReplay,
+  simulateReplay,
+  speedAtDistance,
+  POWER_UP_DURATIONS,
+  POWER_UP_TYPES,
+  EMPTY_INPUT_LOG,
+  type DashSimState,
+  type Obstacle,
+  type DashTalisman,
+  GROUND_Y,
+  MAGNET_PICKUP_BONUS,
+  MAGNET_RANGE,
+  SLOW_MOTION_FACTOR,
+} from '../../shared/dash';
+
+describe('DashPowerUps', function () {
+  const NONE = { jump: false, duck: false };
+
+  // A block sitting right on top of the player
+  function blockOnPlayer(state: DashSimState): Obstacle {
+    return {
+      id: 99, x: state.player.x, y: GROUND_Y - 45, width: 40, height: 45, type: 'block', passed: false,
+    };
+  }
+
+  function talismanAt(x: number, y: number): DashTalisman {
+    return { id: 1, x, y, radius: 18, collected: false, hue: 260 };
+  }
+
+  describe('Timers', function () {
+    it('Should start with nothing active', function () {
+      expect(createDashState(1).activePowerUps).to.deep.equal(createActivePowerUps());
+    });
+
+    it('Should start each collected power-up at its full duration', function () {
+      const rng = createRng(4);
+      const powerUp = createPowerUp(rng, 0);
+      const active = activatePowerUps(createActivePowerUps(), [powerUp]);
+      expect(active[powerUp.type]).to.equal(POWER_UP_DURATIONS[powerUp.type]);
+    });
+
+    it('Should count down to zero', function () {
+      const active = { shield: 2, magnet: 1, slowMotion: 0 };
+      expect(tickPowerUps(active)).to.deep.equal({ shield: 1, magnet: 0, slowMotion: 0 });
+      expect(tickPowerUps(tickPowerUps(active))).to.deep.equal(createActivePowerUps());
+    });
+
+    it('Should spawn every power-up type over a long run', function () {
+      let state = createDashState(12);
+      const seen = new Set<string>();
+      for (let i = 0; i < 20000; i++) {
+        state = stepDash({ ...state, player: { ...state.player, y: -1000 } }, NONE);
+        state.powerUps.forEach((p) => seen.add(p.type));
+      }
+      expect([...seen].sort()).to.deep.equal([...POWER_UP_TYPES].sort());
+    });
+  });
+
+  describe('Shield', function () {
+    it('Should absorb one collision', function () {
+      const base = createDashState(3);
+      const obstacle = blockOnPlayer(base);
+      const shielded = {
+        ...base,
+        obstacles: [obstacle],
+        activePowerUps: { ...createActivePowerUps(), shield: 100 },
+      };
+
+      const next = stepDash(shielded, NONE);
+      expect(next.isGameOver).to.be.false;
+      expect(next.activePowerUps.shield).to.equal(0);
+      expect(next.obstacles.map((o) => o.id)).to.not.include(obstacle.id);
+    });
+
+    it('Should end the run without a shield', function () {
+      const base = createDashState(3);
+      const next = stepDash({ ...base, obstacles: [blockOnPlayer(base)] }, NONE);
+      expect(next.isGameOver).to.be.true;
+    });
+  });
+
+  describe('Magnet', function () {
+    it('Should widen the pickup radius', function () {
+      const player = createDashState(1).player;
+      const centerY = player.y + player.height / 2;
+      // Just outside the normal pickup radius
+      const talisman = talismanAt(player.x + player.width / 2 + 18 + player.width / 2 + 15, centerY);
+      expect(checkTalismanCollision(player, [talisman])).to.deep.equal([]);
+      expect(checkTalismanCollision(player, [talisman], MAGNET_PICKUP_BONUS)).to.deep.equal([1]);
+    });
+
+    it('Should pull nearby talismans towards the player', function () {
+      const player = createDashState(1).player;
+      const centerX = player.x + player.width / 2;
+      const near = talismanAt(centerX + MAGNET_RANGE - 20, player.y);
+      const far = talismanAt(centerX + MAGNET_RANGE + 200, player.y);
+
+      const [pulled, untouched] = applyMagnet([near, far], player);
+      expect(pulled.x).to.be.lt(near.x);
+      expect(untouched).to.deep.equal(far);
+    });
+  });
+
+  describe('Slow Motion', function () {
+    it('Should slow the run while active and recover afterwards', function () {
+      const base = createDashState(6);
+      let state = {
+        ...base,
+        player: { ...base.player, y: -1000 },
+        activePowerUps: { ...createActivePowerUps(), slowMotion: 3 },
+      };
+
+      state = stepDash(state, NONE);
+      expect(state.speed).to.be.closeTo(speedAtDistance(state.distance) * SLOW_MOTION_FACTOR, 1e-9);
+
+      for (let i = 0; i < 3; i++) {
+        state = stepDash({ ...state, player: { ...state.player, y: -1000 } }, NONE);
+      }
+      expect(state.activePowerUps.slowMotion).to.equal(0);
+      expect(state.speed).to.equal(speedAtDistance(state.distance));
+    });
+  });
+
+  describe('Replays', function () {
+    it('Should reproduce power-ups when replayed', function () {
+      let state: DashSimState = createDashState(3);
+      let log = EMPTY_INPUT_LOG;
+      const spawned = new Set<number>();
+      while (!state.isGameOver && state.tick < 20000) {
+        const input = { jump: state.tick % 30 < 12, duck: false };
+        log = recordInput(log, state.tick, input);
+        state = stepDash(state, input);
+        state.powerUps.forEach((p) => spawned.add(p.id));
+      }
+
+      expect(spawned.size).to.be.gt(0);
+      const replayed = simulateReplay(createReplay(state, log));
+      expect(replayed.powerUps).to.deep.equal(state.powerUps);
+      expect(replayed.activePowerUps).to.deep.equal(state.activePowerUps);
+      expect(replayed).to.deep.equal(state);
+    });
+  });
+});
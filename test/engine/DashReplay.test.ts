@@ -0,0 +1,129 @@
+import { expect } from 'chai';
+import {
+  createDashState,
+  stepDash,
+  recordToggle,
+  recordInput,
+  EMPTY_INPUT_LOG,
+  replayInputAt,
+  createReplay,
+  simulateReplay,
+  serializeReplay,
+  parseReplay,
+  DASH_CONSTANTS_VERSION,
+  DASH_REPLAY_VERSION,
+  type DashSimState,
+} from '../../shared/dash';
+
+describe('DashReplay', function () {
+  // Plays a run the way useDashGame does, recording the input per tick
+  function record(seed: number, jumpAt: (tick: number) => boolean) {
+    let state: DashSimState = createDashState(seed);
+    let log = EMPTY_INPUT_LOG;
+    while (!state.isGameOver && state.tick < 10000) {
+      const input = { jump: jumpAt(state.tick), duck: false };
+      log = recordInput(log, state.tick, input);
+      state = stepDash(state, input);
+    }
+    return { state, replay: createReplay(state, log) };
+  }
+
+  describe('Recording', function () {
+    it('Should only record input changes', function () {
+      let toggles: number[] = [];
+      toggles = recordToggle(toggles, 0, false);
+      toggles = recordToggle(toggles, 1, true);
+      toggles = recordToggle(toggles, 2, true);
+      toggles = recordToggle(toggles, 5, false);
+      expect(toggles).to.deep.equal([1, 5]);
+    });
+
+    it('Should record each button separately', function () {
+      let log = EMPTY_INPUT_LOG;
+      log = recordInput(log, 0, { jump: true, duck: false });
+      log = recordInput(log, 4, { jump: false, duck: true });
+      log = recordInput(log, 9, { jump: false, duck: false });
+      expect(log).to.deep.equal({ jumpToggles: [0, 4], duckToggles: [4, 9] });
+      expect(recordInput(log, 10, { jump: false, duck: false })).to.equal(log);
+    });
+
+    it('Should look up the input for any tick', function () {
+      const log = { jumpToggles: [3, 7, 10], duckToggles: [8, 9] };
+      expect(replayInputAt(log, 0).jump).to.be.false;
+      expect(replayInputAt(log, 3).jump).to.be.true;
+      expect(replayInputAt(log, 6).jump).to.be.true;
+      expect(replayInputAt(log, 7).jump).to.be.false;
+      expect(replayInputAt(log, 10).jump).to.be.true;
+      expect(replayInputAt(log, 500).jump).to.be.true;
+      expect(replayInputAt(log, 7).duck).to.be.false;
+      expect(replayInputAt(log, 8).duck).to.be.true;
+      expect(replayInputAt(log, 9).duck).to.be.false;
+    });
+
+    it('Should store seed, version and result', function () {
+      const { state, replay } = record(31, (tick) => tick % 50 < 8);
+      expect(replay.version).to.equal(DASH_REPLAY_VERSION);
+      expect(replay.constantsVersion).to.equal(DASH_CONSTANTS_VERSION);
+      expect(replay.seed).to.equal(31);
+      expect(replay.ticks).to.equal(state.tick);
+      expect(replay.distance).to.equal(state.distance);
+      expect(replay.talismans).to.equal(state.talismansCollected);
+    });
+  });
+
+  describe('Playback', function () {
+    it('Should reproduce the recorded run', function () {
+      const { state, replay } = record(77, (tick) => tick % 40 < 12);
+      expect(simulateReplay(replay)).to.deep.equal(state);
+    });
+
+    it('Should stop at the requested tick', function () {
+      const { replay } = record(77, (tick) => tick % 40 < 12);
+      const midway = Math.floor(replay.ticks / 2);
+      expect(simulateReplay(replay, midway).tick).to.equal(midway);
+    });
+
+    it('Should survive a file round trip', function () {
+      const { state, replay } = record(5, (tick) => tick % 33 < 5);
+      const loaded = parseReplay(serializeReplay(replay));
+      expect(loaded).to.deep.equal(replay);
+      expect(simulateReplay(loaded)).to.deep.equal(state);
+    });
+  });
+
+  describe('Validation', function () {
+    it('Should reject malformed files', function () {
+      expect(() => parseReplay('not json')).to.throw('Invalid replay JSON');
+      expect(() => parseReplay('{}')).to.throw('Unsupported replay version');
+    });
+
+    it('Should reject unsorted input logs', function () {
+      const { replay } = record(5, (tick) => tick % 33 < 5);
+      const tampered = { ...replay, jumpToggles: [10, 4] };
+      expect(() => parseReplay(JSON.stringify(tampered))).to.throw('Invalid replay input log');
+    });
+
+    it('Should load version 1 files without a duck log', function () {
+      const { replay } = record(5, (tick) => tick % 33 < 5);
+      const { duckToggles: _duckToggles, ...legacy } = { ...replay, version: 1 };
+      expect(parseReplay(JSON.stringify(legacy)).duckToggles).to.deep.equal([]);
+    });
+
+    it('Should keep the session and attempt of an owned run', function () {
+      const { replay } = record(5, (tick) => tick % 33 < 5);
+      const owned = {
+        ...replay,
+        player: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+        sessionStart: 1700000000,
+        attempt: 2,
+      };
+      expect(parseReplay(serializeReplay(owned))).to.deep.equal(owned);
+      expect(parseReplay(serializeReplay(replay))).to.not.have.property('player');
+
+      expect(() => parseReplay(JSON.stringify({ ...owned, player: 'me' }))).to.throw('Invalid replay owner');
+      expect(() => parseReplay(JSON.stringify({ ...owned, attempt: -1 }))).to.throw('Invalid replay owner');
+      expect(() => parseReplay(JSON.stringify({ ...owned, sessionStart: undefined }))).to.throw('Invalid replay owner');
+      expect(() => parseReplay(JSON.stringify({ ...replay, attempt: 0 }))).to.throw('Invalid replay owner');
+    });
+  });
+});
@@ -0,0 +1,277 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { loadFixture, impersonateAccount, setBalance } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import type { Contract } from 'ethers';
+import EntryPointV06 from '@account-abstraction/contracts/artifacts/EntryPoint.json';
+import {
+  calcPreVerificationGas,
+  estimateUserOpFees,
+  estimateUserOpGas,
+  estimateVerificationGas,
+  getSponsorshipAllowance,
+  getMaxCost,
+} from '../../frontend/src/utils/gasEstimation';
+import { calcPreVerificationGas as bundlerPreVerificationGas } from '../../services/bundler';
+import { encodePaymasterAndData } from '../../services/sponsor';
+
+type PublicClient = Parameters<typeof estimateUserOpFees>[0];
+type ClientUserOp = Parameters<typeof calcPreVerificationGas>[0];
+type Hex = ClientUserOp['callData'];
+
+// The PublicClient calls gas estimation makes, answered by the Hardhat network through ethers
+function hardhatClient(overrides: Record<string, unknown> = {}): PublicClient {
+  return {
+    estimateGas: ({ account, to, data }: { account: string; to: string; data: string }) =>
+      ethers.provider.estimateGas({ from: account, to, data }),
+    readContract: ({ address, abi, functionName, args = [] }: { address: string; abi: []; functionName: string; args?: unknown[] }) =>
+      new ethers.Contract(address, abi, ethers.provider).getFunction(functionName)(...args),
+    ...overrides,
+  } as unknown as PublicClient;
+}
+
+// paymasterAndData carrying a sponsorship voucher
+const PAYMASTER = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const VOUCHER = encodePaymasterAndData(PAYMASTER, {
+  validUntil: 2000000000,
+  validAfter: 0,
+  signature: `0x${'cd'.repeat(65)}`,
+}) as `0x${string}`;
+
+// Receives the EntryPoint's gas refunds
+const BENEFICIARY = '0x0000000000000000000000000000000000000be1';
+// TalismanPaymaster's v0.6 validation overload
+const VALIDATE_V06 =
+  'validatePaymasterUserOp((address,uint256,bytes,bytes,uint256,uint256,uint256,uint256,uint256,bytes,bytes),bytes32,uint256)';
+
+describe('Frontend: Gas Estimation', function () {
+  const FEES = {
+    maxFeePerGas: ethers.parseUnits('1.5', 'gwei'),
+    maxPriorityFeePerGas: ethers.parseUnits('1', 'gwei'),
+  };
+
+  const baseOp: ClientUserOp = {
+    sender: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+    nonce: 3n,
+    initCode: '0x',
+    callData: `0x${'ab'.repeat(100)}`,
+    callGasLimit: 60000n,
+    verificationGasLimit: 90000n,
+    preVerificationGas: 0n,
+    ...FEES,
+    paymasterAndData: '0x',
+    signature: '0x',
+  };
+
+  describe('preVerificationGas', function () {
+    it('Should match the local bundler', function () {
+      const ops: ClientUserOp[] = [
+        baseOp,
+        { ...baseOp, signature: `0x${'cd'.repeat(65)}` },
+        { ...baseOp, paymasterAndData: PAYMASTER },
+        { ...baseOp, paymasterAndData: VOUCHER },
+      ];
+      for (const op of ops) {
+        expect(calcPreVerificationGas(op)).to.equal(bundlerPreVerificationGas(op));
+      }
+    });
+
+    it('Should price an unsigned operation like a signed one', function () {
+      expect(calcPreVerificationGas(baseOp)).to.equal(
+        calcPreVerificationGas({ ...baseOp, signature: `0x${'cd'.repeat(65)}` })
+      );
+    });
+
+    it('Should grow with paymasterAndData', function () {
+      const bare = calcPreVerificationGas({ ...baseOp, paymasterAndData: PAYMASTER });
+      expect(calcPreVerificationGas({ ...baseOp, paymasterAndData: VOUCHER })).to.be.greaterThan(bare);
+    });
+  });
+
+  describe('Fees', function () {
+    const gwei = (value: number) => ethers.parseUnits(String(value), 'gwei');
+
+    it('Should price from fee history: next base fee with headroom plus the median tip', async function () {
+      const client = hardhatClient({
+        getFeeHistory: async () => ({
+          baseFeePerGas: [gwei(8), gwei(9), gwei(10)],
+          reward: [[gwei(3)], [gwei(1)], [gwei(2)]],
+        }),
+        getGasPrice: async () => {
+          throw new Error('not used');
+        },
+      });
+
+      const fees = await estimateUserOpFees(client);
+      expect(fees.maxPriorityFeePerGas).to.equal(gwei(2));
+      expect(fees.maxFeePerGas).to.equal(gwei(12) + gwei(2));
+    });
+
+    it('Should fall back to the gas price without fee history', async function () {
+      const gasPrice = async () => gwei(5);
+      const unsupported = hardhatClient({
+        getFeeHistory: async () => {
+          throw new Error('eth_feeHistory not supported');
+        },
+        getGasPrice: gasPrice,
+      });
+      expect(await estimateUserOpFees(unsupported)).to.deep.equal({ maxFeePerGas: gwei(5), maxPriorityFeePerGas: gwei(5) });
+
+      // A chain without base fees reports none
+      const legacy = hardhatClient({
+        getFeeHistory: async () => ({ baseFeePerGas: [0n, 0n], reward: [[0n]] }),
+        getGasPrice: gasPrice,
+      });
+      expect(await estimateUserOpFees(legacy)).to.deep.equal({ maxFeePerGas: gwei(5), maxPriorityFeePerGas: gwei(5) });
+    });
+  });
+
+  describe('Sponsorship Allowance', function () {
+    async function deployPaymasterFixture() {
+      const [owner, user] = await ethers.getSigners();
+      const MockEntryPoint = await ethers.getContractFactory('MockEntryPoint');
+      const entryPoint = await MockEntryPoint.deploy();
+      const TalismanPaymaster = await ethers.getContractFactory('TalismanPaymaster');
+      const paymaster = await TalismanPaymaster.deploy(await entryPoint.getAddress(), owner.address);
+      return { entryPoint, paymaster, user };
+    }
+
+    it('Should be the lower of the per-operation cap and the daily allowance', async function () {
+      const { paymaster, user } = await loadFixture(deployPaymasterFixture);
+      const paymasterAddress = (await paymaster.getAddress()) as Hex;
+
+      await paymaster.setLimits(ethers.parseEther('0.001'), ethers.parseEther('0.01'));
+      expect(await getSponsorshipAllowance(hardhatClient(), paymasterAddress, user.address as Hex)).to.equal(
+        ethers.parseEther('0.001')
+      );
+
+      await paymaster.setLimits(ethers.parseEther('0.001'), ethers.parseEther('0.0004'));
+      expect(await getSponsorshipAllowance(hardhatClient(), paymasterAddress, user.address as Hex)).to.equal(
+        ethers.parseEther('0.0004')
+      );
+    });
+
+    it('Should be zero once the daily limit is lowered below what was used', async function () {
+      const { entryPoint, paymaster, user } = await loadFixture(deployPaymasterFixture);
+      const paymasterAddress = (await paymaster.getAddress()) as Hex;
+      await paymaster.setAllowedCalls(user.address, ['0x12345678'], true);
+
+      // Record some sponsorship for the user, as the EntryPoint would
+      const entryPointAddress = await entryPoint.getAddress();
+      await impersonateAccount(entryPointAddress);
+      await setBalance(entryPointAddress, ethers.parseEther('1'));
+      const callData = new ethers.Interface(['function execute(address,uint256,bytes)']).encodeFunctionData('execute', [
+        user.address,
+        0,
+        '0x12345678',
+      ]);
+      await paymaster
+        .connect(await ethers.getSigner(entryPointAddress))
+        [VALIDATE_V06](
+          { ...baseOp, sender: user.address, callData, paymasterAndData: paymasterAddress },
+          ethers.ZeroHash,
+          ethers.parseEther('0.0005')
+        );
+
+      await paymaster.setLimits(ethers.parseEther('0.001'), ethers.parseEther('0.0001'));
+      expect(await getSponsorshipAllowance(hardhatClient(), paymasterAddress, user.address as Hex)).to.equal(0n);
+    });
+  });
+
+  describe('Verification Gas', function () {
+    async function deployEntryPointFixture() {
+      const [owner, player, other] = await ethers.getSigners();
+
+      const EntryPoint = new ethers.ContractFactory<[], Contract>(EntryPointV06.abi, EntryPointV06.bytecode, owner);
+      const entryPoint = await EntryPoint.deploy();
+      const entryPointAddress = (await entryPoint.getAddress()) as Hex;
+
+      const TalismanToken = await ethers.getContractFactory('TalismanToken');
+      const token = await TalismanToken.deploy(owner.address, ethers.parseEther('1000000'));
+
+      const TalismanAccountFactory = await ethers.getContractFactory('TalismanAccountFactory');
+      const factory = await TalismanAccountFactory.deploy(entryPointAddress);
+      await factory.createAccount(player.address, 0);
+      const account = await ethers.getContractAt('TalismanAccount', await factory.ownerToAccount(player.address));
+      const accountAddress = (await account.getAddress()) as Hex;
+      await owner.sendTransaction({ to: accountAddress, value: ethers.parseEther('1') });
+
+      const TalismanPaymaster = await ethers.getContractFactory('TalismanPaymaster');
+      const paymaster = await TalismanPaymaster.deploy(entryPointAddress, owner.address);
+      const paymasterAddress = (await paymaster.getAddress()) as Hex;
+      await paymaster.setAllowedCalls(await token.getAddress(), [token.interface.getFunction('approve')!.selector], true);
+      await paymaster.deposit({ value: ethers.parseEther('1') });
+
+      const execute = (data: string) =>
+        account.interface.encodeFunctionData('execute', [
+          ethers.getAddress(String(token.target)),
+          0,
+          data,
+        ]) as Hex;
+      const approve = execute(token.interface.encodeFunctionData('approve', [other.address, 1]));
+      const transfer = execute(token.interface.encodeFunctionData('transfer', [other.address, 1]));
+
+      // Size an operation with the frontend's estimates and sign it like the frontend
+      async function estimatedOp(callData: Hex, paymasterAndData: Hex) {
+        const op: ClientUserOp = {
+          ...baseOp,
+          sender: accountAddress,
+          nonce: 0n,
+          callData,
+          callGasLimit: 0n,
+          verificationGasLimit: 0n,
+          paymasterAndData,
+        };
+        const sized = { ...op, ...(await estimateUserOpGas(hardhatClient(), op, entryPointAddress, '0.6')) };
+        const userOpHash: string = await entryPoint.getFunction('getUserOpHash')(sized);
+        return { ...sized, signature: (await player.signMessage(ethers.getBytes(userOpHash))) as Hex };
+      }
+
+      return { entryPoint, entryPointAddress, token, account, accountAddress, paymaster, paymasterAddress, approve, transfer, estimatedOp };
+    }
+
+    it('Should be enough for the EntryPoint to validate a self-paid operation', async function () {
+      const { entryPoint, approve, estimatedOp } = await loadFixture(deployEntryPointFixture);
+
+      const op = await estimatedOp(approve, '0x');
+      expect(op.verificationGasLimit).to.be.greaterThan(0n).and.lessThan(150000n);
+      await expect(entryPoint.handleOps([op], BENEFICIARY)).to.emit(entryPoint, 'UserOperationEvent');
+    });
+
+    it('Should add the paymaster\'s validation and be enough for a sponsored operation', async function () {
+      const { entryPoint, paymaster, paymasterAddress, approve, estimatedOp } = await loadFixture(deployEntryPointFixture);
+
+      const selfPaid = await estimatedOp(approve, '0x');
+      const op = await estimatedOp(approve, paymasterAddress);
+      expect(op.verificationGasLimit).to.be.greaterThan(selfPaid.verificationGasLimit);
+      expect(getMaxCost(op)).to.be.at.most(await paymaster.maxCostPerUserOp());
+
+      const balance = await ethers.provider.getBalance(op.sender);
+      const deposit = await paymaster.getDeposit();
+      await expect(entryPoint.handleOps([op], BENEFICIARY)).to.emit(entryPoint, 'UserOperationEvent');
+      expect(await paymaster.getDeposit()).to.be.lessThan(deposit);
+      expect(await ethers.provider.getBalance(op.sender)).to.equal(balance);
+    });
+
+    it('Should not count a paymaster that would reject the operation', async function () {
+      const { entryPointAddress, accountAddress, paymasterAddress, approve, transfer } =
+        await loadFixture(deployEntryPointFixture);
+      const op = { ...baseOp, sender: accountAddress, nonce: 0n, paymasterAndData: paymasterAddress };
+
+      // Same-size calls: only the sponsored approve adds the paymaster's validation
+      const sponsored = await estimateVerificationGas(hardhatClient(), { ...op, callData: approve }, entryPointAddress, '0.6');
+      const declined = await estimateVerificationGas(hardhatClient(), { ...op, callData: transfer }, entryPointAddress, '0.6');
+      expect(sponsored - declined).to.be.greaterThan(21000n);
+    });
+
+    it('Should refuse to estimate an account that isn\'t deployed', async function () {
+      const { entryPointAddress, approve } = await loadFixture(deployEntryPointFixture);
+      const error = await estimateVerificationGas(
+        hardhatClient(),
+        { ...baseOp, initCode: '0x1234', callData: approve },
+        entryPointAddress,
+        '0.6'
+      ).catch((err) => err);
+      expect(error.message).to.equal('Smart account must be deployed to estimate its operations');
+    });
+  });
+});
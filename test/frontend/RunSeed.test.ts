@@ -0,0 +1,23 @@
+import { expect } from 'chai';
+import { runSeed } from '../../frontend/src/utils/replay';
+import { runSeed as verifierRunSeed } from '../../services/verifier';
+
+describe('Frontend: Run Seed', function () {
+  const owner = { player: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8', sessionStart: 1700000000, attempt: 0 };
+
+  it('Should match the score verifier', function () {
+    for (const attempt of [0, 1, 7, 0xffffffff]) {
+      expect(runSeed({ ...owner, attempt })).to.equal(verifierRunSeed({ ...owner, attempt }));
+    }
+  });
+
+  it('Should give each session and attempt its own seed', function () {
+    const seeds = new Set([
+      runSeed(owner),
+      runSeed({ ...owner, attempt: 1 }),
+      runSeed({ ...owner, sessionStart: owner.sessionStart + 1 }),
+      runSeed({ ...owner, player: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC' }),
+    ]);
+    expect(seeds.size).to.equal(4);
+  });
+});
@@ -0,0 +1,87 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { loadFixture } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import type { Contract } from 'ethers';
+import EntryPointV06 from '@account-abstraction/contracts/artifacts/EntryPoint.json';
+import EntryPointV07 from '@account-abstraction/contracts-v07/artifacts/EntryPoint.json';
+import { getUserOpHash, packUserOpV07 } from '../../frontend/src/utils/userOpHash';
+
+type ClientUserOp = Parameters<typeof getUserOpHash>[0];
+type Address = ClientUserOp['sender'];
+
+describe('Frontend: UserOperation Hash', function () {
+  // Every field set, with values that fill the packed uint128 halves
+  const userOp: ClientUserOp = {
+    sender: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+    nonce: (7n << 64n) | 3n,
+    initCode: `0x${'11'.repeat(20)}${'22'.repeat(40)}`,
+    callData: `0x${'ab'.repeat(100)}`,
+    callGasLimit: 123456n,
+    verificationGasLimit: 234567n,
+    preVerificationGas: 45678n,
+    maxFeePerGas: ethers.parseUnits('31.5', 'gwei'),
+    maxPriorityFeePerGas: ethers.parseUnits('1.25', 'gwei'),
+    paymasterAndData: `0x${'33'.repeat(20)}${'44'.repeat(32)}${'55'.repeat(49)}`,
+    signature: `0x${'66'.repeat(65)}`,
+  };
+
+  async function deployEntryPointsFixture() {
+    const [owner] = await ethers.getSigners();
+    const entryPointV06 = await new ethers.ContractFactory<[], Contract>(
+      EntryPointV06.abi,
+      EntryPointV06.bytecode,
+      owner
+    ).deploy();
+    const entryPointV07 = await new ethers.ContractFactory<[], Contract>(
+      EntryPointV07.abi,
+      EntryPointV07.bytecode,
+      owner
+    ).deploy();
+    const { chainId } = await ethers.provider.getNetwork();
+    return { entryPointV06, entryPointV07, chainId: Number(chainId) };
+  }
+
+  it('Should match EntryPoint v0.6 getUserOpHash', async function () {
+    const { entryPointV06, chainId } = await loadFixture(deployEntryPointsFixture);
+    const address = (await entryPointV06.getAddress()) as Address;
+
+    const onChain = await entryPointV06.getFunction('getUserOpHash')(userOp);
+    expect(getUserOpHash(userOp, address, chainId, '0.6')).to.equal(onChain);
+  });
+
+  it('Should match EntryPoint v0.7 getUserOpHash', async function () {
+    const { entryPointV07, chainId } = await loadFixture(deployEntryPointsFixture);
+    const address = (await entryPointV07.getAddress()) as Address;
+
+    const onChain = await entryPointV07.getFunction('getUserOpHash')(packUserOpV07(userOp));
+    expect(getUserOpHash(userOp, address, chainId, '0.7')).to.equal(onChain);
+  });
+
+  it('Should pack gas limits and fees high then low', function () {
+    const packed = packUserOpV07(userOp);
+    expect(packed.accountGasLimits).to.equal(
+      ethers.solidityPacked(['uint128', 'uint128'], [userOp.verificationGasLimit, userOp.callGasLimit])
+    );
+    expect(packed.gasFees).to.equal(
+      ethers.solidityPacked(['uint128', 'uint128'], [userOp.maxPriorityFeePerGas, userOp.maxFeePerGas])
+    );
+  });
+
+  it('Should give each version, EntryPoint and chain its own hash', async function () {
+    const { entryPointV06, entryPointV07, chainId } = await loadFixture(deployEntryPointsFixture);
+    const v06 = (await entryPointV06.getAddress()) as Address;
+    const v07 = (await entryPointV07.getAddress()) as Address;
+
+    const hashes = new Set([
+      getUserOpHash(userOp, v06, chainId, '0.6'),
+      getUserOpHash(userOp, v06, chainId, '0.7'),
+      getUserOpHash(userOp, v07, chainId, '0.6'),
+      getUserOpHash(userOp, v06, chainId + 1, '0.6'),
+    ]);
+    expect(hashes.size).to.equal(4);
+    // The signature is not part of the hash
+    expect(getUserOpHash({ ...userOp, signature: '0x' }, v06, chainId, '0.6')).to.equal(
+      getUserOpHash(userOp, v06, chainId, '0.6')
+    );
+  });
+});
@@ -0,0 +1,204 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { loadFixture, time } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import type { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import {
+  INDEXER_GAME_ABI,
+  openIndexerDatabase,
+  getLastIndexedBlock,
+  saveEvents,
+  fetchGameEvents,
+  syncGameEvents,
+  getLeaderboard,
+  periodStart,
+} from '../../services/indexer';
+
+// Mirrors ITalismanGame.GameMode
+const GameMode = { Dash: 0, Search: 1 };
+
+describe('LeaderboardIndexer', function () {
+  async function deployGameFixture() {
+    const [owner, indexer, player1, player2, player3] = await ethers.getSigners();
+
+    const TalismanToken = await ethers.getContractFactory('TalismanToken');
+    const token = await TalismanToken.deploy(owner.address, ethers.parseEther('1000000'));
+
+    const TalismanGame = await ethers.getContractFactory('TalismanGame');
+    const game = await TalismanGame.deploy(await token.getAddress(), owner.address);
+    const gameAddress = await game.getAddress();
+    await token.transfer(gameAddress, ethers.parseEther('100000'));
+
+    const players = [player1, player2, player3];
+    for (const player of players) {
+      await token.transfer(player.address, ethers.parseEther('1000'));
+      await token.connect(player).approve(gameAddress, ethers.MaxUint256);
+    }
+
+    // The indexer only sees the game through its own ABI
+    const indexerGame = new ethers.Contract(gameAddress, INDEXER_GAME_ABI, indexer);
+
+    async function playSession(player: HardhatEthersSigner, talismans: number, seconds: number, retries = 0) {
+      await game.connect(player).startSession(GameMode.Dash);
+      for (let i = 0; i < retries; i++) await game.connect(player).retryGame();
+      await time.increase(seconds);
+      await game.connect(player).endSession(talismans);
+    }
+
+    return { game, indexerGame, players, playSession };
+  }
+
+  async function chainNow(): Promise<number> {
+    return (await ethers.provider.getBlock('latest'))!.timestamp;
+  }
+
+  function countRows(db: ReturnType<typeof openIndexerDatabase>): Record<string, number> {
+    const rows = db.prepare('SELECT type, COUNT(*) AS count FROM events GROUP BY type').all() as {
+      type: string;
+      count: number;
+    }[];
+    return Object.fromEntries(rows.map((row) => [row.type, row.count]));
+  }
+
+  describe('Sync', function () {
+    it('Should store each followed event with its block time', async function () {
+      const { game, indexerGame, players, playSession } = await loadFixture(deployGameFixture);
+      await playSession(players[0], 3, 120, 2);
+      await time.increase(await game.vestingDuration());
+      await game.connect(players[0]).claimRewards();
+
+      const db = openIndexerDatabase(':memory:');
+      const toBlock = await ethers.provider.getBlockNumber();
+      await syncGameEvents(db, indexerGame, { toBlock });
+
+      expect(countRows(db)).to.deep.equal({
+        SessionStarted: 1,
+        GameRetried: 2,
+        SessionEnded: 1,
+        RewardsClaimed: 1,
+      });
+      expect(getLastIndexedBlock(db)).to.equal(toBlock);
+
+      const ended = db.prepare("SELECT * FROM events WHERE type = 'SessionEnded'").get() as {
+        block_number: number;
+        timestamp: number;
+        reward: string;
+        talismans: number;
+      };
+      const [record] = await game.getSessionHistory(players[0].address, 0, 1);
+      expect(ended.timestamp).to.equal((await ethers.provider.getBlock(ended.block_number))!.timestamp);
+      expect(ended.timestamp).to.equal(Number(record.endTime));
+      expect(BigInt(ended.reward)).to.equal(record.reward);
+      expect(ended.talismans).to.equal(3);
+    });
+
+    it('Should resume from the cursor without storing events twice', async function () {
+      const { indexerGame, players, playSession } = await loadFixture(deployGameFixture);
+      const db = openIndexerDatabase(':memory:');
+
+      await playSession(players[0], 1, 120);
+      expect(await syncGameEvents(db, indexerGame, { toBlock: await ethers.provider.getBlockNumber() })).to.equal(2);
+
+      await playSession(players[1], 1, 120);
+      const toBlock = await ethers.provider.getBlockNumber();
+      expect(await syncGameEvents(db, indexerGame, { toBlock })).to.equal(2);
+      expect(await syncGameEvents(db, indexerGame, { toBlock })).to.equal(0);
+
+      // Replaying a range that is already stored changes nothing
+      saveEvents(db, await fetchGameEvents(indexerGame, 0, toBlock), toBlock);
+      expect(countRows(db)).to.deep.equal({ SessionStarted: 2, SessionEnded: 2 });
+    });
+
+    it('Should give the same result whatever the chunk size', async function () {
+      const { indexerGame, players, playSession } = await loadFixture(deployGameFixture);
+      await playSession(players[0], 2, 120, 1);
+      await playSession(players[1], 5, 300);
+
+      const toBlock = await ethers.provider.getBlockNumber();
+      const whole = openIndexerDatabase(':memory:');
+      const chunked = openIndexerDatabase(':memory:');
+      await syncGameEvents(whole, indexerGame, { toBlock });
+      await syncGameEvents(chunked, indexerGame, { toBlock, chunkSize: 1 });
+
+      const select = 'SELECT * FROM events ORDER BY block_number, log_index';
+      expect(chunked.prepare(select).all()).to.deep.equal(whole.prepare(select).all());
+    });
+  });
+
+  describe('Leaderboards', function () {
+    it('Should rank players by reward, talismans or sessions', async function () {
+      const { indexerGame, players, playSession } = await loadFixture(deployGameFixture);
+      const [alice, bob, carol] = players;
+      await playSession(alice, 20, 120); // fewest sessions, most talismans
+      await playSession(bob, 0, 1800); // longest session
+      await playSession(carol, 1, 300);
+      await playSession(carol, 1, 300);
+      await playSession(carol, 1, 300);
+
+      const db = openIndexerDatabase(':memory:');
+      await syncGameEvents(db, indexerGame, { toBlock: await ethers.provider.getBlockNumber() });
+      const now = await chainNow();
+
+      const byReward = getLeaderboard(db, { period: 'all', sort: 'reward', now });
+      expect(byReward.map((e) => e.player)).to.deep.equal([bob.address, carol.address, alice.address]);
+      expect(byReward.map((e) => e.rank)).to.deep.equal([1, 2, 3]);
+
+      const byTalismans = getLeaderboard(db, { period: 'all', sort: 'talismans', now });
+      expect(byTalismans.map((e) => e.player)).to.deep.equal([alice.address, carol.address, bob.address]);
+
+      const bySessions = getLeaderboard(db, { period: 'all', sort: 'sessions', now, limit: 1 });
+      expect(bySessions).to.have.length(1);
+      expect(bySessions[0]).to.include({ player: carol.address, sessions: 3, talismans: 3 });
+      expect(bySessions[0].playTime).to.be.at.least(900);
+    });
+
+    it('Should sum rewards exactly and track retries and claims', async function () {
+      const { game, indexerGame, players, playSession } = await loadFixture(deployGameFixture);
+      const [alice] = players;
+      await playSession(alice, 5, 600, 3);
+      await playSession(alice, 10, 900);
+      await time.increase(await game.vestingDuration());
+      await game.connect(alice).claimRewards();
+
+      const db = openIndexerDatabase(':memory:');
+      await syncGameEvents(db, indexerGame, { toBlock: await ethers.provider.getBlockNumber() });
+      const [entry] = getLeaderboard(db, { period: 'all', now: await chainNow() });
+
+      const history = await game.getSessionHistory(alice.address, 0, 2);
+      const totalReward = history.reduce((sum, record) => sum + record.reward, 0n);
+      expect(entry.reward).to.equal(totalReward);
+      expect(entry.bestReward).to.equal(history[0].reward > history[1].reward ? history[0].reward : history[1].reward);
+      expect(entry.retries).to.equal(3);
+      expect(entry.claimed).to.equal(totalReward);
+    });
+
+    it('Should limit daily and weekly boards to the current period', async function () {
+      const { indexerGame, players, playSession } = await loadFixture(deployGameFixture);
+      const [alice, bob] = players;
+      await playSession(alice, 1, 120);
+      await time.increase(8 * 86400);
+      await playSession(bob, 1, 120);
+
+      const db = openIndexerDatabase(':memory:');
+      await syncGameEvents(db, indexerGame, { toBlock: await ethers.provider.getBlockNumber() });
+      const now = await chainNow();
+
+      const ranked = (period: 'daily' | 'weekly' | 'all') =>
+        getLeaderboard(db, { period, now }).map((e) => e.player);
+      expect(ranked('daily')).to.deep.equal([bob.address]);
+      expect(ranked('weekly')).to.deep.equal([bob.address]);
+      expect(ranked('all')).to.have.members([alice.address, bob.address]);
+    });
+
+    it('Should start days at UTC midnight and weeks on Monday', function () {
+      // Wednesday 2024-01-03 12:00 UTC
+      const now = Date.UTC(2024, 0, 3, 12) / 1000;
+      expect(periodStart('daily', now)).to.equal(Date.UTC(2024, 0, 3) / 1000);
+      expect(periodStart('weekly', now)).to.equal(Date.UTC(2024, 0, 1) / 1000);
+      expect(periodStart('all', now)).to.equal(0);
+
+      // Sunday belongs to the week that started the Monday before
+      expect(periodStart('weekly', Date.UTC(2024, 0, 7, 23) / 1000)).to.equal(Date.UTC(2024, 0, 1) / 1000);
+      expect(periodStart('weekly', Date.UTC(2024, 0, 8) / 1000)).to.equal(Date.UTC(2024, 0, 8) / 1000);
+    });
+  });
+});
@@ -0,0 +1,503 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { loadFixture, time } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import type { BaseContract, Contract, Signer } from 'ethers';
+import EntryPointV06 from '@account-abstraction/contracts/artifacts/EntryPoint.json';
+import EntryPointV07 from '@account-abstraction/contracts-v07/artifacts/EntryPoint.json';
+import { signVoucher, encodePaymasterAndData } from '../../services/sponsor';
+
+// ERC-4337 v0.6 UserOperation
+interface UserOperation {
+  sender: string;
+  nonce: bigint;
+  initCode: string;
+  callData: string;
+  callGasLimit: bigint;
+  verificationGasLimit: bigint;
+  preVerificationGas: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  paymasterAndData: string;
+  signature: string;
+}
+
+const GAS = {
+  callGasLimit: 100000n,
+  verificationGasLimit: 150000n,
+  preVerificationGas: 50000n,
+  // Keeps paymaster-paid operations under its 0.001 ETH cost cap
+  maxFeePerGas: ethers.parseUnits('1.5', 'gwei'),
+  maxPriorityFeePerGas: ethers.parseUnits('1', 'gwei'),
+};
+
+// Receives the EntryPoint's gas refunds
+const BENEFICIARY = '0x0000000000000000000000000000000000000be1';
+
+describe('Integration: Canonical EntryPoint', function () {
+  // Sign the EntryPoint's hash of an operation the way the frontend does (personal_sign)
+  async function sign<T extends { signature: string }>(entryPoint: BaseContract, op: T, signer: Signer) {
+    const userOpHash: string = await entryPoint.getFunction('getUserOpHash')(op);
+    return { ...op, signature: await signer.signMessage(ethers.getBytes(userOpHash)) };
+  }
+
+  describe('v0.6', function () {
+    async function deployV06Fixture() {
+      const [owner, player, other] = await ethers.getSigners();
+
+      const EntryPoint = new ethers.ContractFactory<[], Contract>(EntryPointV06.abi, EntryPointV06.bytecode, owner);
+      const entryPoint = await EntryPoint.deploy();
+      const entryPointAddress = await entryPoint.getAddress();
+
+      const TalismanToken = await ethers.getContractFactory('TalismanToken');
+      const token = await TalismanToken.deploy(owner.address, ethers.parseEther('1000000'));
+
+      const TalismanAccountFactory = await ethers.getContractFactory('TalismanAccountFactory');
+      const factory = await TalismanAccountFactory.deploy(entryPointAddress);
+
+      const TalismanPaymaster = await ethers.getContractFactory('TalismanPaymaster');
+      const paymaster = await TalismanPaymaster.deploy(entryPointAddress, owner.address);
+      await paymaster.setAllowedCalls(await token.getAddress(), [token.interface.getFunction('approve')!.selector], true);
+      await paymaster.deposit({ value: ethers.parseEther('1') });
+
+      await factory.createAccount(player.address, 0);
+      const account = await ethers.getContractAt('TalismanAccount', await factory.ownerToAccount(player.address));
+      const accountAddress = await account.getAddress();
+
+      // Account calls: approve is sponsored, transfer isn't
+      const approve = account.interface.encodeFunctionData('execute', [
+        await token.getAddress(),
+        0,
+        token.interface.encodeFunctionData('approve', [other.address, 1]),
+      ]);
+      const transfer = account.interface.encodeFunctionData('execute', [
+        await token.getAddress(),
+        0,
+        token.interface.encodeFunctionData('transfer', [other.address, 1]),
+      ]);
+      const userOp = (callData: string, overrides: Partial<UserOperation> = {}): UserOperation => ({
+        sender: accountAddress,
+        nonce: 0n,
+        initCode: '0x',
+        callData,
+        ...GAS,
+        paymasterAndData: '0x',
+        signature: '0x',
+        ...overrides,
+      });
+
+      return { entryPoint, token, factory, paymaster, account, accountAddress, owner, player, other, approve, transfer, userOp };
+    }
+
+    describe('Accounts', function () {
+      it('Should execute an operation signed by the owner, paid from the account', async function () {
+        const { entryPoint, token, accountAddress, owner, player, other, approve, userOp } =
+          await loadFixture(deployV06Fixture);
+        await owner.sendTransaction({ to: accountAddress, value: ethers.parseEther('1') });
+
+        const op = await sign(entryPoint, userOp(approve), player);
+        await expect(entryPoint.handleOps([op], BENEFICIARY)).to.emit(entryPoint, 'UserOperationEvent');
+
+        expect(await token.allowance(accountAddress, other.address)).to.equal(1n);
+        expect(await entryPoint.getNonce(accountAddress, 0)).to.equal(1n);
+        expect(await ethers.provider.getBalance(BENEFICIARY)).to.be.greaterThan(0n);
+        expect(await ethers.provider.getBalance(accountAddress)).to.be.lessThan(ethers.parseEther('1'));
+      });
+
+      it('Should reject an operation signed by someone else', async function () {
+        const { entryPoint, accountAddress, owner, other, approve, userOp } = await loadFixture(deployV06Fixture);
+        await owner.sendTransaction({ to: accountAddress, value: ethers.parseEther('1') });
+
+        const op = await sign(entryPoint, userOp(approve), other);
+        await expect(entryPoint.handleOps([op], BENEFICIARY))
+          .to.be.revertedWithCustomError(entryPoint, 'FailedOp')
+          .withArgs(0, 'AA24 signature error');
+      });
+
+      it('Should fail a malformed signature instead of reverting', async function () {
+        const { entryPoint, accountAddress, owner, approve, userOp } = await loadFixture(deployV06Fixture);
+        await owner.sendTransaction({ to: accountAddress, value: ethers.parseEther('1') });
+
+        await expect(entryPoint.handleOps([userOp(approve, { signature: '0x1234' })], BENEFICIARY))
+          .to.be.revertedWithCustomError(entryPoint, 'FailedOp')
+          .withArgs(0, 'AA24 signature error');
+      });
+
+      it('Should reject a replayed operation', async function () {
+        const { entryPoint, accountAddress, owner, player, approve, userOp } = await loadFixture(deployV06Fixture);
+        await owner.sendTransaction({ to: accountAddress, value: ethers.parseEther('1') });
+
+        const op = await sign(entryPoint, userOp(approve), player);
+        await entryPoint.handleOps([op], BENEFICIARY);
+        await expect(entryPoint.handleOps([op], BENEFICIARY))
+          .to.be.revertedWithCustomError(entryPoint, 'FailedOp')
+          .withArgs(0, 'AA25 invalid account nonce');
+      });
+
+      it('Should deploy the account from initCode', async function () {
+        const { entryPoint, factory, owner, other, userOp } = await loadFixture(deployV06Fixture);
+        const sender = await factory['getAddress(address,uint256)'](other.address, 0);
+        await owner.sendTransaction({ to: sender, value: ethers.parseEther('1') });
+
+        const initCode = ethers.concat([
+          factory.target as string,
+          factory.interface.encodeFunctionData('createAccount', [other.address, 0]),
+        ]);
+        const op = await sign(
+          entryPoint,
+          userOp('0x', { sender, initCode, verificationGasLimit: 400000n }),
+          other
+        );
+        await expect(entryPoint.handleOps([op], BENEFICIARY)).to.emit(factory, 'AccountCreated');
+
+        expect(await factory.ownerToAccount(other.address)).to.equal(sender);
+      });
+    });
+
+    describe('Paymaster', function () {
+      it('Should sponsor an allowed call from its deposit', async function () {
+        const { entryPoint, paymaster, accountAddress, player, approve, userOp } = await loadFixture(deployV06Fixture);
+        const paymasterAddress = await paymaster.getAddress();
+        const depositBefore = await paymaster.getDeposit();
+
+        const op = await sign(entryPoint, userOp(approve, { paymasterAndData: paymasterAddress }), player);
+        await expect(entryPoint.handleOps([op], BENEFICIARY)).to.emit(paymaster, 'GasSponsored');
+
+        // The account holds no ETH: the paymaster paid
+        const spent = depositBefore - (await paymaster.getDeposit());
+        expect(spent).to.be.greaterThan(0n);
+        expect(await ethers.provider.getBalance(accountAddress)).to.equal(0n);
+
+        // postOp released the unused allowance; the EntryPoint charges postOp's own gas after it reports the cost
+        const maxCost = (op.callGasLimit + op.verificationGasLimit * 3n + op.preVerificationGas) * op.maxFeePerGas;
+        const used = await paymaster.dailySponsorshipUsed(accountAddress);
+        expect(used).to.be.greaterThan(0n).and.lessThanOrEqual(spent).and.lessThan(maxCost);
+      });
+
+      it('Should surface why the paymaster declined', async function () {
+        const { entryPoint, paymaster, player, transfer, userOp } = await loadFixture(deployV06Fixture);
+
+        const op = await sign(entryPoint, userOp(transfer, { paymasterAndData: await paymaster.getAddress() }), player);
+        await expect(entryPoint.handleOps([op], BENEFICIARY))
+          .to.be.revertedWithCustomError(entryPoint, 'FailedOp')
+          .withArgs(0, 'AA33 reverted: TalismanPaymaster: invalid call');
+      });
+
+      it('Should sponsor a vouchered call only within its validity window', async function () {
+        const { entryPoint, paymaster, owner, player, transfer, userOp } = await loadFixture(deployV06Fixture);
+        // owner doubles as the sponsorship signer
+        await paymaster.setVerifyingSigner(owner.address);
+        const paymasterAddress = await paymaster.getAddress();
+        const { chainId } = await ethers.provider.getNetwork();
+        const now = await time.latest();
+
+        const base = userOp(transfer);
+        const expired = await signVoucher(owner, base, chainId, paymasterAddress, now - 10, now - 100);
+        const expiredOp = await sign(
+          entryPoint,
+          { ...base, paymasterAndData: encodePaymasterAndData(paymasterAddress, expired) },
+          player
+        );
+        await expect(entryPoint.handleOps([expiredOp], BENEFICIARY))
+          .to.be.revertedWithCustomError(entryPoint, 'FailedOp')
+          .withArgs(0, 'AA32 paymaster expired or not due');
+
+        const forged = await signVoucher(player, base, chainId, paymasterAddress, now + 300, now - 1);
+        const forgedOp = await sign(
+          entryPoint,
+          { ...base, paymasterAndData: encodePaymasterAndData(paymasterAddress, forged) },
+          player
+        );
+        await expect(entryPoint.handleOps([forgedOp], BENEFICIARY))
+          .to.be.revertedWithCustomError(entryPoint, 'FailedOp')
+          .withArgs(0, 'AA34 signature error');
+
+        const voucher = await signVoucher(owner, base, chainId, paymasterAddress, now + 300, now - 1);
+        const op = await sign(
+          entryPoint,
+          { ...base, paymasterAndData: encodePaymasterAndData(paymasterAddress, voucher) },
+          player
+        );
+        await expect(entryPoint.handleOps([op], BENEFICIARY)).to.emit(paymaster, 'GasSponsored');
+      });
+
+      it('Should charge TLSM for the actual gas and refund the rest', async function () {
+        const { entryPoint, token, paymaster, account, accountAddress, player, transfer, userOp } =
+          await loadFixture(deployV06Fixture);
+        const paymasterAddress = await paymaster.getAddress();
+        await paymaster.setGasToken(await token.getAddress(), ethers.parseEther('1000'));
+        await token.transfer(accountAddress, ethers.parseEther('100'));
+        await account.connect(player).execute(
+          await token.getAddress(),
+          0,
+          token.interface.encodeFunctionData('approve', [paymasterAddress, ethers.MaxUint256])
+        );
+
+        const base = userOp(transfer);
+        const maxCost = (base.callGasLimit + base.verificationGasLimit * 3n + base.preVerificationGas) * base.maxFeePerGas;
+        const [maxTokenCost] = await paymaster.checkTokenPayment(accountAddress, maxCost, base.maxFeePerGas);
+        const op = await sign(
+          entryPoint,
+          { ...base, paymasterAndData: ethers.concat([paymasterAddress, ethers.toBeHex(maxTokenCost, 32)]) },
+          player
+        );
+
+        const balanceBefore = await token.balanceOf(accountAddress);
+        await expect(entryPoint.handleOps([op], BENEFICIARY)).to.emit(paymaster, 'GasPaidInToken');
+
+        // Charged for the gas used (plus the 1 TLSM transfer), well under the worst-case pre-charge
+        const charged = balanceBefore - (await token.balanceOf(accountAddress)) - 1n;
+        expect(charged).to.be.greaterThan(0n).and.lessThan(maxTokenCost);
+        expect(await ethers.provider.getBalance(accountAddress)).to.equal(0n);
+      });
+    });
+  });
+
+  describe('v0.7', function () {
+    // Pack a v0.6-shaped operation into the v0.7 PackedUserOperation
+    function pack(op: UserOperation) {
+      return {
+        sender: op.sender,
+        nonce: op.nonce,
+        initCode: op.initCode,
+        callData: op.callData,
+        accountGasLimits: ethers.solidityPacked(['uint128', 'uint128'], [op.verificationGasLimit, op.callGasLimit]),
+        preVerificationGas: op.preVerificationGas,
+        gasFees: ethers.solidityPacked(['uint128', 'uint128'], [op.maxPriorityFeePerGas, op.maxFeePerGas]),
+        paymasterAndData: op.paymasterAndData,
+        signature: op.signature,
+      };
+    }
+
+    // v0.7 paymasterAndData: the paymaster's own gas limits come before its data
+    const PAYMASTER_GAS = { verificationGasLimit: 100000n, postOpGasLimit: 50000n };
+    function paymasterAndData(paymaster: string, data = '0x') {
+      return ethers.solidityPacked(
+        ['address', 'uint128', 'uint128', 'bytes'],
+        [paymaster, PAYMASTER_GAS.verificationGasLimit, PAYMASTER_GAS.postOpGasLimit, data]
+      );
+    }
+
+    async function deployV07Fixture() {
+      const [owner, player, other] = await ethers.getSigners();
+
+      const EntryPoint = new ethers.ContractFactory<[], Contract>(EntryPointV07.abi, EntryPointV07.bytecode, owner);
+      const entryPoint = await EntryPoint.deploy();
+      const entryPointAddress = await entryPoint.getAddress();
+
+      const TalismanToken = await ethers.getContractFactory('TalismanToken');
+      const token = await TalismanToken.deploy(owner.address, ethers.parseEther('1000000'));
+
+      const TalismanAccountFactory = await ethers.getContractFactory('TalismanAccountFactory');
+      const factory = await TalismanAccountFactory.deploy(entryPointAddress);
+      await factory.createAccount(player.address, 0);
+      const accountAddress = await factory.ownerToAccount(player.address);
+      const account = await ethers.getContractAt('TalismanAccount', accountAddress);
+      await owner.sendTransaction({ to: accountAddress, value: ethers.parseEther('1') });
+
+      const TalismanPaymaster = await ethers.getContractFactory('TalismanPaymaster');
+      const paymaster = await TalismanPaymaster.deploy(entryPointAddress, owner.address);
+      await paymaster.setAllowedCalls(await token.getAddress(), [token.interface.getFunction('approve')!.selector], true);
+      await paymaster.deposit({ value: ethers.parseEther('1') });
+
+      const base: UserOperation = {
+        sender: accountAddress,
+        nonce: 0n,
+        initCode: '0x',
+        callData: account.interface.encodeFunctionData('execute', [other.address, ethers.parseEther('0.1'), '0x']),
+        ...GAS,
+        paymasterAndData: '0x',
+        signature: '0x',
+      };
+      const userOp = pack(base);
+
+      // Account calls for the paymaster: approve is sponsored, transfer isn't
+      const approve = account.interface.encodeFunctionData('execute', [
+        await token.getAddress(),
+        0,
+        token.interface.encodeFunctionData('approve', [other.address, 1]),
+      ]);
+      const transfer = account.interface.encodeFunctionData('execute', [
+        await token.getAddress(),
+        0,
+        token.interface.encodeFunctionData('transfer', [other.address, 1]),
+      ]);
+      const tokenOp = (callData: string): UserOperation => ({ ...base, callData });
+
+      return {
+        entryPoint,
+        token,
+        paymaster,
+        account,
+        accountAddress,
+        owner,
+        player,
+        other,
+        userOp,
+        approve,
+        transfer,
+        tokenOp,
+      };
+    }
+
+    it('Should execute an operation signed by the owner', async function () {
+      const { entryPoint, accountAddress, player, other, userOp } = await loadFixture(deployV07Fixture);
+      const balanceBefore = await ethers.provider.getBalance(other.address);
+
+      const op = await sign(entryPoint, userOp, player);
+      await expect(entryPoint.handleOps([op], BENEFICIARY)).to.emit(entryPoint, 'UserOperationEvent');
+
+      expect(await ethers.provider.getBalance(other.address)).to.equal(balanceBefore + ethers.parseEther('0.1'));
+      expect(await entryPoint.getNonce(accountAddress, 0)).to.equal(1n);
+    });
+
+    it('Should reject an operation signed by someone else', async function () {
+      const { entryPoint, other, userOp } = await loadFixture(deployV07Fixture);
+
+      const op = await sign(entryPoint, userOp, other);
+      await expect(entryPoint.handleOps([op], BENEFICIARY))
+        .to.be.revertedWithCustomError(entryPoint, 'FailedOp')
+        .withArgs(0, 'AA24 signature error');
+    });
+
+    describe('Paymaster', function () {
+      it('Should sponsor an allowed call from its deposit', async function () {
+        const { entryPoint, paymaster, accountAddress, player, approve, tokenOp } = await loadFixture(deployV07Fixture);
+        const depositBefore = await paymaster.getDeposit();
+        const balanceBefore = await ethers.provider.getBalance(accountAddress);
+
+        const op = await sign(
+          entryPoint,
+          pack({ ...tokenOp(approve), paymasterAndData: paymasterAndData(await paymaster.getAddress()) }),
+          player
+        );
+        await expect(entryPoint.handleOps([op], BENEFICIARY)).to.emit(paymaster, 'GasSponsored');
+
+        // The paymaster paid, not the account
+        const spent = depositBefore - (await paymaster.getDeposit());
+        expect(spent).to.be.greaterThan(0n);
+        expect(await ethers.provider.getBalance(accountAddress)).to.equal(balanceBefore);
+
+        // postOp released the unused allowance
+        const used = await paymaster.dailySponsorshipUsed(accountAddress);
+        expect(used).to.be.greaterThan(0n).and.lessThanOrEqual(spent);
+      });
+
+      it('Should surface why the paymaster declined', async function () {
+        const { entryPoint, paymaster, player, transfer, tokenOp } = await loadFixture(deployV07Fixture);
+
+        const op = await sign(
+          entryPoint,
+          pack({ ...tokenOp(transfer), paymasterAndData: paymasterAndData(await paymaster.getAddress()) }),
+          player
+        );
+        // v0.7 passes the paymaster's revert data through
+        const reason = ethers.concat([
+          ethers.id('Error(string)').slice(0, 10),
+          ethers.AbiCoder.defaultAbiCoder().encode(['string'], ['TalismanPaymaster: invalid call']),
+        ]);
+        await expect(entryPoint.handleOps([op], BENEFICIARY))
+          .to.be.revertedWithCustomError(entryPoint, 'FailedOpWithRevert')
+          .withArgs(0, 'AA33 reverted', reason);
+      });
+
+      it('Should sponsor a vouchered call bound to the paymaster gas limits', async function () {
+        const { entryPoint, paymaster, owner, player, transfer, tokenOp } = await loadFixture(deployV07Fixture);
+        await paymaster.setVerifyingSigner(owner.address);
+        const paymasterAddress = await paymaster.getAddress();
+        const { chainId } = await ethers.provider.getNetwork();
+        const now = await time.latest();
+
+        // The voucher covers the unpacked gas fields, the paymaster's own limits included
+        const base = tokenOp(transfer);
+        const voucherOp = {
+          ...base,
+          paymasterVerificationGasLimit: PAYMASTER_GAS.verificationGasLimit,
+          paymasterPostOpGasLimit: PAYMASTER_GAS.postOpGasLimit,
+        };
+        const voucher = await signVoucher(owner, voucherOp, chainId, paymasterAddress, now + 300, now - 1);
+        const voucherData = ethers.dataSlice(encodePaymasterAndData(paymasterAddress, voucher), 20);
+
+        const withVoucher = async (signed: Awaited<ReturnType<typeof signVoucher>>) =>
+          sign(
+            entryPoint,
+            pack({
+              ...base,
+              paymasterAndData: paymasterAndData(
+                paymasterAddress,
+                ethers.dataSlice(encodePaymasterAndData(paymasterAddress, signed), 20)
+              ),
+            }),
+            player
+          );
+
+        const forged = await signVoucher(player, voucherOp, chainId, paymasterAddress, now + 300, now - 1);
+        await expect(entryPoint.handleOps([await withVoucher(forged)], BENEFICIARY))
+          .to.be.revertedWithCustomError(entryPoint, 'FailedOp')
+          .withArgs(0, 'AA34 signature error');
+
+        // A voucher signed without the paymaster's gas limits doesn't cover them
+        const unbound = await signVoucher(owner, base, chainId, paymasterAddress, now + 300, now - 1);
+        await expect(entryPoint.handleOps([await withVoucher(unbound)], BENEFICIARY))
+          .to.be.revertedWithCustomError(entryPoint, 'FailedOp')
+          .withArgs(0, 'AA34 signature error');
+
+        const op = await sign(
+          entryPoint,
+          pack({ ...base, paymasterAndData: paymasterAndData(paymasterAddress, voucherData) }),
+          player
+        );
+        await expect(entryPoint.handleOps([op], BENEFICIARY)).to.emit(paymaster, 'GasSponsored');
+      });
+
+      it('Should charge TLSM for the actual gas and refund the rest', async function () {
+        const { entryPoint, token, paymaster, account, accountAddress, player, transfer, tokenOp } =
+          await loadFixture(deployV07Fixture);
+        const paymasterAddress = await paymaster.getAddress();
+        await paymaster.setGasToken(await token.getAddress(), ethers.parseEther('1000'));
+        await token.transfer(accountAddress, ethers.parseEther('100'));
+        await account.connect(player).execute(
+          await token.getAddress(),
+          0,
+          token.interface.encodeFunctionData('approve', [paymasterAddress, ethers.MaxUint256])
+        );
+
+        // v0.7 prefund: every gas limit once, the paymaster's included
+        const base = tokenOp(transfer);
+        const maxCost =
+          (base.callGasLimit +
+            base.verificationGasLimit +
+            PAYMASTER_GAS.verificationGasLimit +
+            PAYMASTER_GAS.postOpGasLimit +
+            base.preVerificationGas) *
+          base.maxFeePerGas;
+        const [maxTokenCost] = await paymaster.checkTokenPayment(accountAddress, maxCost, base.maxFeePerGas);
+        const op = await sign(
+          entryPoint,
+          pack({ ...base, paymasterAndData: paymasterAndData(paymasterAddress, ethers.toBeHex(maxTokenCost, 32)) }),
+          player
+        );
+
+        const balanceBefore = await token.balanceOf(accountAddress);
+        const ethBefore = await ethers.provider.getBalance(accountAddress);
+        const receipt = await (await entryPoint.handleOps([op], BENEFICIARY)).wait();
+
+        // Charged for the gas used (plus the 1 TLSM transfer), well under the worst-case pre-charge
+        const charged = balanceBefore - (await token.balanceOf(accountAddress)) - 1n;
+        expect(charged).to.be.greaterThan(0n).and.lessThan(maxTokenCost);
+        expect(await ethers.provider.getBalance(accountAddress)).to.equal(ethBefore);
+
+        // The postOp overhead is priced at the gas price the EntryPoint reports
+        const logs = receipt!.logs.map(
+          (log) => entryPoint.interface.parseLog(log) ?? paymaster.interface.parseLog(log)
+        );
+        const userOpEvent = logs.find((log) => log?.name === 'UserOperationEvent')!;
+        const paidEvent = logs.find((log) => log?.name === 'GasPaidInToken')!;
+        const gasPrice = (userOpEvent.args.actualGasCost as bigint) / (userOpEvent.args.actualGasUsed as bigint);
+        const gasCost: bigint = paidEvent.args.gasCost;
+        const tokenCost = (gasCost + (await paymaster.COST_OF_POST()) * gasPrice) * ethers.parseEther('1000');
+        expect(charged).to.equal(paidEvent.args.tokenAmount);
+        expect(charged).to.equal((tokenCost + ethers.WeiPerEther - 1n) / ethers.WeiPerEther);
+      });
+    });
+  });
+});
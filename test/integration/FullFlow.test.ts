@@ -2,6 +2,9 @@ import { expect } from 'chai';
 import { ethers } from 'hardhat';
 import { loadFixture, time } from '@nomicfoundation/hardhat-toolbox/network-helpers';
 
+// Mirrors ITalismanGame.GameMode
+const GameMode = { Dash: 0, Search: 1 };
+
 describe('Integration: Full Game Flow', function () {
   async function deployFullSystemFixture() {
     const [owner, player1, player2] = await ethers.getSigners();
@@ -27,7 +30,10 @@ describe('Integration: Full Game Flow', function () {
     const paymaster = await TalismanPaymaster.deploy(await entryPoint.getAddress(), owner.address);
 
     // Configure system
-    await paymaster.setGameContract(await game.getAddress());
+    const gameSelectors = (['startSession', 'endSession', 'retryGame', 'claimRewards'] as const).map(
+      (name) => game.interface.getFunction(name)!.selector
+    );
+    await paymaster.setAllowedCalls(await game.getAddress(), gameSelectors, true);
     await paymaster.deposit({ value: ethers.parseEther('10') });
 
     // Fund reward pool
@@ -54,7 +60,7 @@ describe('Integration: Full Game Flow', function () {
 
       // 3. Start game session
       const balanceBefore = await token.balanceOf(player1.address);
-      await game.connect(player1).startSession();
+      await game.connect(player1).startSession(GameMode.Dash);
 
       const session = await game.getSession(player1.address);
       expect(session.isActive).to.be.true;
@@ -112,8 +118,8 @@ describe('Integration: Full Game Flow', function () {
       await token.connect(player2).approve(await game.getAddress(), ethers.MaxUint256);
 
       // Both players start sessions
-      await game.connect(player1).startSession();
-      await game.connect(player2).startSession();
+      await game.connect(player1).startSession(GameMode.Dash);
+      await game.connect(player2).startSession(GameMode.Dash);
 
       expect((await game.getSession(player1.address)).isActive).to.be.true;
       expect((await game.getSession(player2.address)).isActive).to.be.true;
@@ -139,7 +145,7 @@ describe('Integration: Full Game Flow', function () {
       await token.connect(player1).approve(await game.getAddress(), ethers.MaxUint256);
 
       // First session
-      await game.connect(player1).startSession();
+      await game.connect(player1).startSession(GameMode.Dash);
       await time.increase(120);
       await game.connect(player1).endSession(0);
 
@@ -147,7 +153,7 @@ describe('Integration: Full Game Flow', function () {
       const reward1 = vesting1.totalAmount;
 
       // Second session
-      await game.connect(player1).startSession();
+      await game.connect(player1).startSession(GameMode.Dash);
       await time.increase(180);
       await game.connect(player1).endSession(0);
 
@@ -178,7 +184,7 @@ describe('Integration: Full Game Flow', function () {
       await account.connect(player1).execute(await token.getAddress(), 0, approveData);
 
       // Start session from smart account
-      const startSessionData = game.interface.encodeFunctionData('startSession');
+      const startSessionData = game.interface.encodeFunctionData('startSession', [GameMode.Dash]);
       await account.connect(player1).execute(await game.getAddress(), 0, startSessionData);
 
       // Verify session started
@@ -192,7 +198,7 @@ describe('Integration: Full Game Flow', function () {
       const { token, game, player1 } = await loadFixture(deployFullSystemFixture);
 
       await token.connect(player1).approve(await game.getAddress(), ethers.MaxUint256);
-      await game.connect(player1).startSession();
+      await game.connect(player1).startSession(GameMode.Dash);
 
       // Wait for much longer than max
       const maxDuration = await game.maxSessionDuration();
@@ -220,7 +226,7 @@ describe('Integration: Full Game Flow', function () {
 
       // Should fail due to insufficient reward pool
       await expect(
-        game.connect(player1).startSession()
+        game.connect(player1).startSession(GameMode.Dash)
       ).to.be.revertedWith('TalismanGame: insufficient reward pool');
     });
   });
@@ -0,0 +1,123 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { loadFixture, time } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import {
+  KEEPER_GAME_ABI,
+  collectPlayers,
+  findActiveSessions,
+  findExpiredSessions,
+  settleExpiredSessions,
+} from '../../services/keeper';
+
+// Mirrors ITalismanGame.GameMode
+const GameMode = { Dash: 0, Search: 1 };
+
+describe('SessionKeeper', function () {
+  async function deployWithSessionsFixture() {
+    const [owner, keeper, player1, player2, player3] = await ethers.getSigners();
+
+    const TalismanToken = await ethers.getContractFactory('TalismanToken');
+    const token = await TalismanToken.deploy(owner.address, ethers.parseEther('1000000'));
+
+    const TalismanGame = await ethers.getContractFactory('TalismanGame');
+    const game = await TalismanGame.deploy(await token.getAddress(), owner.address);
+    const gameAddress = await game.getAddress();
+    await token.transfer(gameAddress, ethers.parseEther('100000'));
+
+    const players = [player1, player2, player3];
+    for (const player of players) {
+      await token.transfer(player.address, ethers.parseEther('100'));
+      await token.connect(player).approve(gameAddress, ethers.MaxUint256);
+      await game.connect(player).startSession(GameMode.Dash);
+    }
+
+    // The keeper only sees the game through its own ABI
+    const keeperGame = new ethers.Contract(gameAddress, KEEPER_GAME_ABI, keeper);
+
+    return { game, keeperGame, keeper, players };
+  }
+
+  it('Should collect each player that started a session once', async function () {
+    const { game, keeperGame, players } = await loadFixture(deployWithSessionsFixture);
+
+    // A second session by the same player
+    await time.increase(120);
+    await game.connect(players[0]).endSession(0);
+    await game.connect(players[0]).startSession(GameMode.Search);
+
+    const latest = await ethers.provider.getBlockNumber();
+    const collected = await collectPlayers(keeperGame, 0, latest);
+    expect(collected).to.have.members(players.map((p) => p.address));
+    expect(collected).to.have.length(players.length);
+  });
+
+  it('Should stop watching players once their session is closed', async function () {
+    const { game, keeperGame, players } = await loadFixture(deployWithSessionsFixture);
+    const addresses = players.map((p) => p.address);
+
+    expect(await findActiveSessions(keeperGame, addresses)).to.have.members(addresses);
+
+    // player1 ends, player2 forfeits, player3's session is settled once expired
+    await time.increase(120);
+    await game.connect(players[0]).endSession(0);
+    await game.connect(players[1]).forfeitSession();
+    expect(await findActiveSessions(keeperGame, addresses)).to.deep.equal([addresses[2]]);
+
+    await time.increase(await game.sessionTimeout());
+    await settleExpiredSessions(keeperGame, [addresses[2]]);
+    expect(await findActiveSessions(keeperGame, addresses)).to.have.length(0);
+
+    // Starting again makes the player active again
+    await game.connect(players[1]).startSession(GameMode.Dash);
+    expect(await findActiveSessions(keeperGame, addresses)).to.deep.equal([addresses[1]]);
+  });
+
+  it('Should only report sessions past the timeout', async function () {
+    const { game, keeperGame, players } = await loadFixture(deployWithSessionsFixture);
+    const addresses = players.map((p) => p.address);
+
+    expect(await findExpiredSessions(keeperGame, addresses)).to.have.length(0);
+
+    // player1 ends in time, the others walk away
+    await time.increase(await game.maxSessionDuration());
+    await game.connect(players[0]).endSession(0);
+    await time.increase(await game.sessionTimeout());
+
+    expect(await findExpiredSessions(keeperGame, addresses)).to.have.members(addresses.slice(1));
+  });
+
+  it('Should settle abandoned sessions so players can start again', async function () {
+    const { game, keeperGame, players } = await loadFixture(deployWithSessionsFixture);
+    const addresses = players.map((p) => p.address);
+
+    await time.increase(await game.sessionTimeout());
+    const results = await settleExpiredSessions(keeperGame, addresses);
+
+    expect(results.map((r) => r.player)).to.have.members(addresses);
+    expect(results.every((r) => r.hash && !r.error)).to.be.true;
+    expect(await game.totalReservedRewards()).to.equal(0);
+
+    const expectedReward = (await game.maxSessionDuration()) * (await game.rewardRatePerSecond());
+    for (const player of players) {
+      const session = await game.getSession(player.address);
+      expect(session.isActive).to.be.false;
+      expect(session.rewardEarned).to.equal(expectedReward);
+      await expect(game.connect(player).startSession(GameMode.Dash)).to.not.be.reverted;
+    }
+
+    // Nothing left to do on the next round
+    expect(await settleExpiredSessions(keeperGame, addresses)).to.have.length(0);
+  });
+
+  it('Should report settlements that fail instead of throwing', async function () {
+    const { game, keeperGame, players } = await loadFixture(deployWithSessionsFixture);
+
+    await time.increase(await game.sessionTimeout());
+    await game.pause();
+
+    const results = await settleExpiredSessions(keeperGame, [players[0].address]);
+    expect(results).to.have.length(1);
+    expect(results[0].hash).to.be.undefined;
+    expect(results[0].error).to.contain('Pausable: paused');
+  });
+});
@@ -0,0 +1,130 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import {
+  decodeAccountCalls,
+  findCampaign,
+  parsePolicy,
+  usageKey,
+  SponsorshipError,
+  type SponsorshipPolicy,
+} from '../../services/sponsor';
+
+const GAME = '0x00000000000000000000000000000000000000a1';
+const TOKEN = '0x00000000000000000000000000000000000000b2';
+const PLAYER = '0x0000000000000000000000000000000000000c03';
+const OTHER_PLAYER = '0x0000000000000000000000000000000000000d04';
+
+const RETRY_GAME = ethers.id('retryGame()').slice(0, 10);
+const APPROVE = ethers.id('approve(address,uint256)').slice(0, 10);
+
+const ACCOUNT = new ethers.Interface([
+  'function execute(address dest, uint256 value, bytes func)',
+  'function executeBatch(address[] dest, uint256[] value, bytes[] func)',
+]);
+
+function execute(target: string, selector: string): string {
+  return ACCOUNT.encodeFunctionData('execute', [target, 0, selector]);
+}
+
+function executeBatch(calls: [string, string][]): string {
+  return ACCOUNT.encodeFunctionData('executeBatch', [
+    calls.map(([target]) => target),
+    calls.map(() => 0),
+    calls.map(([, selector]) => selector),
+  ]);
+}
+
+describe('SponsorPolicy', function () {
+  describe('decodeAccountCalls', function () {
+    it('Should list the target and selector of single and batched calls', function () {
+      expect(decodeAccountCalls(execute(GAME, RETRY_GAME))).to.deep.equal([
+        { target: ethers.getAddress(GAME), selector: RETRY_GAME },
+      ]);
+      expect(
+        decodeAccountCalls(
+          executeBatch([
+            [TOKEN, APPROVE],
+            [GAME, RETRY_GAME],
+          ])
+        )
+      ).to.deep.equal([
+        { target: ethers.getAddress(TOKEN), selector: APPROVE },
+        { target: ethers.getAddress(GAME), selector: RETRY_GAME },
+      ]);
+    });
+
+    it('Should reject other account calls and calls without a selector', function () {
+      expect(() => decodeAccountCalls('0x12345678')).to.throw(SponsorshipError, 'Unsupported account call');
+      expect(() => decodeAccountCalls(execute(GAME, '0x'))).to.throw(SponsorshipError, 'no function selector');
+    });
+  });
+
+  describe('findCampaign', function () {
+    const policy: SponsorshipPolicy = {
+      campaigns: [
+        { id: 'launch-week', start: 1000, end: 2000, targets: [{ target: GAME, selectors: [RETRY_GAME] }] },
+        { id: 'vip', senders: [PLAYER], maxOpsPerSender: 2 },
+      ],
+    };
+
+    it('Should sponsor everything under an open campaign', function () {
+      const open = { campaigns: [{ id: 'default' }] };
+      expect(findCampaign(open, OTHER_PLAYER, execute(TOKEN, APPROVE), 0).id).to.equal('default');
+    });
+
+    it('Should match calls by target and selector', function () {
+      expect(findCampaign(policy, OTHER_PLAYER, execute(GAME, RETRY_GAME), 1500).id).to.equal('launch-week');
+      expect(() => findCampaign(policy, OTHER_PLAYER, execute(TOKEN, RETRY_GAME), 1500)).to.throw(
+        SponsorshipError,
+        'No campaign sponsors this operation'
+      );
+    });
+
+    it('Should require every call in a batch to be covered', function () {
+      const batch = executeBatch([
+        [GAME, RETRY_GAME],
+        [TOKEN, APPROVE],
+      ]);
+      expect(() => findCampaign(policy, OTHER_PLAYER, batch, 1500)).to.throw(SponsorshipError);
+      // The sender campaign covers any call
+      expect(findCampaign(policy, PLAYER, batch, 1500).id).to.equal('vip');
+    });
+
+    it('Should only sponsor inside the campaign window', function () {
+      const callData = execute(GAME, RETRY_GAME);
+      expect(() => findCampaign(policy, OTHER_PLAYER, callData, 999)).to.throw(SponsorshipError);
+      expect(findCampaign(policy, OTHER_PLAYER, callData, 1000).id).to.equal('launch-week');
+      expect(() => findCampaign(policy, OTHER_PLAYER, callData, 2000)).to.throw(SponsorshipError);
+    });
+
+    it('Should stop sponsoring a sender after maxOpsPerSender vouchers', function () {
+      const callData = execute(TOKEN, APPROVE);
+      const usage = new Map([[usageKey('vip', ethers.getAddress(PLAYER)), 1]]);
+      expect(findCampaign(policy, PLAYER, callData, 0, usage).id).to.equal('vip');
+
+      usage.set(usageKey('vip', PLAYER), 2);
+      expect(() => findCampaign(policy, PLAYER, callData, 0, usage)).to.throw(SponsorshipError);
+    });
+  });
+
+  describe('parsePolicy', function () {
+    it('Should parse a valid policy', function () {
+      const policy = parsePolicy(JSON.stringify({ campaigns: [{ id: 'a', targets: [{ target: GAME }] }] }));
+      expect(policy.campaigns[0].id).to.equal('a');
+    });
+
+    it('Should reject malformed policies', function () {
+      expect(() => parsePolicy('{')).to.throw('not valid JSON');
+      expect(() => parsePolicy('{}')).to.throw('campaigns array');
+      expect(() => parsePolicy(JSON.stringify({ campaigns: [{ id: 'a' }, { id: 'a' }] }))).to.throw(
+        'Duplicate campaign a'
+      );
+      expect(() => parsePolicy(JSON.stringify({ campaigns: [{ id: 'a', senders: ['0x1'] }] }))).to.throw(
+        'invalid sender'
+      );
+      expect(() =>
+        parsePolicy(JSON.stringify({ campaigns: [{ id: 'a', targets: [{ target: GAME, selectors: ['0x12'] }] }] }))
+      ).to.throw('invalid selector');
+    });
+  });
+});
@@ -0,0 +1,551 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { loadFixture, time } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import {
+  createDashState,
+  stepDash,
+  recordInput,
+  EMPTY_INPUT_LOG,
+  TICK_RATE,
+  createReplay,
+  serializeReplay,
+  type DashReplay,
+  type DashRunOwner,
+  type DashSimState,
+} from '../../shared/dash';
+import {
+  verifySessionReplays,
+  verifyTournamentRun,
+  verifyRaceRun,
+  verifyQuestCompletion,
+  runSeed,
+  openVerifierDatabase,
+  recordAttestedRuns,
+  VerificationError,
+  MAX_RUN_TICKS,
+  getGameDomain,
+  getTournamentDomain,
+  getRaceDomain,
+  signSessionResult,
+  signQuestCompletion,
+  signTournamentScore,
+  signRaceRun,
+  signRaceResult,
+} from '../../services/verifier';
+import {
+  QUEST_POOL,
+  getDailyQuests,
+  dayIndex,
+  type QuestDefinition,
+  type QuestSession,
+} from '../../shared/achievements';
+
+// Mirrors ITalismanGame.GameMode
+const GameMode = { Dash: 0, Search: 1 };
+
+describe('ScoreVerifier', function () {
+  // Hardhat's second signer, the player in the attestation fixtures
+  const PLAYER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+  const OTHER = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+  // Plays a run on a seed with a scripted jump pattern and records it
+  function playRun(seed: number, owner?: DashRunOwner) {
+    let state: DashSimState = createDashState(seed);
+    let log = EMPTY_INPUT_LOG;
+    while (!state.isGameOver && state.tick < 10000) {
+      const input = { jump: state.tick % 40 < 12, duck: false };
+      log = recordInput(log, state.tick, input);
+      state = stepDash(state, input);
+    }
+    return { state, replay: createReplay(state, log, owner) };
+  }
+
+  const SESSION_START = 1700000000;
+
+  // Plays a run on the seed of a session attempt, as the game does
+  function recordRun(attempt = 0, player = PLAYER, sessionStart = SESSION_START) {
+    const owner = { player, sessionStart, attempt };
+    return playRun(runSeed(owner), owner);
+  }
+
+  // Generous session context: enough attempts and time for any test run
+  const context = { player: PLAYER, sessionStart: SESSION_START, attemptCount: 5, elapsed: 3600 };
+  // Entered the tournament a minute before the session started
+  const tournamentContext = { ...context, enteredAt: SESSION_START - 60 };
+
+  describe('Re-simulation', function () {
+    it('Should compute the talisman count from the inputs', function () {
+      const a = recordRun(0);
+      const b = recordRun(1);
+      const result = verifySessionReplays([a.replay, b.replay], context);
+      expect(result.talismansCollected).to.equal(a.state.talismansCollected + b.state.talismansCollected);
+      expect(result.runs).to.equal(2);
+    });
+
+    it('Should ignore the talisman count claimed in the file', function () {
+      const { state, replay } = recordRun();
+      const forged: DashReplay = { ...replay, talismans: 20 };
+      expect(verifySessionReplays([forged], context).talismansCollected).to.equal(state.talismansCollected);
+    });
+
+    it('Should reject runs that outlive the simulation', function () {
+      const { replay } = recordRun();
+      const forged: DashReplay = { ...replay, ticks: replay.ticks + 600 };
+      expect(() => verifySessionReplays([forged], context)).to.throw(
+        VerificationError,
+        'Replay does not match simulation'
+      );
+    });
+  });
+
+  describe('Session Checks', function () {
+    it('Should reject an empty submission', function () {
+      expect(() => verifySessionReplays([], context)).to.throw(VerificationError, 'No replays submitted');
+    });
+
+    it('Should reject more runs than paid attempts', function () {
+      const runs = [recordRun(0).replay, recordRun(1).replay];
+      expect(() => verifySessionReplays(runs, { ...context, attemptCount: 1 })).to.throw(
+        VerificationError,
+        'More runs than paid attempts'
+      );
+    });
+
+    it('Should reject the same run submitted twice', function () {
+      const { replay } = recordRun();
+      expect(() => verifySessionReplays([replay, replay], context)).to.throw(
+        VerificationError,
+        'Duplicate run'
+      );
+    });
+
+    it('Should reject runs longer than the session', function () {
+      const { replay } = recordRun();
+      expect(() => verifySessionReplays([replay], { ...context, elapsed: 1 })).to.throw(
+        VerificationError,
+        'Runs exceed session duration'
+      );
+    });
+
+    it('Should check the claimed length before simulating', function () {
+      // Too long for the session: rejected on its tick count, not on re-simulation
+      const { replay } = recordRun();
+      const forged: DashReplay = { ...replay, ticks: replay.ticks + 600 };
+      expect(() => verifySessionReplays([forged], { ...context, elapsed: replay.ticks / TICK_RATE + 1 })).to.throw(
+        VerificationError,
+        'Runs exceed session duration'
+      );
+      // The runs' lengths are summed across the session
+      const runs = [recordRun(0).replay, recordRun(1).replay];
+      const elapsed = Math.max(...runs.map((run) => run.ticks)) / TICK_RATE + 1;
+      expect(() => verifySessionReplays(runs, { ...context, elapsed })).to.throw(
+        VerificationError,
+        'Runs exceed session duration'
+      );
+    });
+
+    it('Should reject runs longer than the maximum', function () {
+      const { replay } = recordRun();
+      const forged: DashReplay = { ...replay, ticks: MAX_RUN_TICKS + 1 };
+      expect(() => verifySessionReplays([forged], { ...context, elapsed: 1e9 })).to.throw(
+        VerificationError,
+        'Run exceeds maximum length'
+      );
+    });
+
+    it('Should reject replays from other game constants', function () {
+      const { replay } = recordRun();
+      expect(() => verifySessionReplays([{ ...replay, constantsVersion: 0 }], context)).to.throw(
+        VerificationError,
+        'Replay recorded with different game constants'
+      );
+    });
+  });
+
+  describe('Run Ownership', function () {
+    it('Should reject runs not bound to a session', function () {
+      const { replay } = playRun(14);
+      expect(() => verifySessionReplays([replay], context)).to.throw(
+        VerificationError,
+        'Replay is not bound to a session'
+      );
+    });
+
+    it('Should reject another player\'s run', function () {
+      const { replay } = recordRun(0, OTHER);
+      expect(() => verifySessionReplays([replay], context)).to.throw(
+        VerificationError,
+        'Replay was recorded by another player'
+      );
+      // Claiming it doesn't help: the seed was derived from the other player
+      expect(() => verifyTournamentRun({ ...replay, player: PLAYER }, tournamentContext)).to.throw(
+        VerificationError,
+        'Replay seed does not match its session'
+      );
+    });
+
+    it('Should reject a run from an earlier session', function () {
+      const { replay } = recordRun(0, PLAYER, SESSION_START - 3600);
+      expect(() => verifySessionReplays([replay], context)).to.throw(
+        VerificationError,
+        'Replay was recorded in another session'
+      );
+      // Relabelling it doesn't help: the seed was derived from the earlier session
+      expect(() => verifySessionReplays([{ ...replay, sessionStart: SESSION_START }], context)).to.throw(
+        VerificationError,
+        'Replay seed does not match its session'
+      );
+    });
+
+    it('Should reject a run on an attempt that was not paid for', function () {
+      const { replay } = recordRun(5);
+      expect(() => verifySessionReplays([replay], context)).to.throw(VerificationError, 'Run was not paid for');
+    });
+
+    it('Should reject a race ghost resubmitted as a session run', function () {
+      const { replay } = playRun(16);
+      const claimed = { ...replay, player: PLAYER, sessionStart: SESSION_START, attempt: 0 };
+      expect(() => verifySessionReplays([claimed], context)).to.throw(
+        VerificationError,
+        'Replay seed does not match its session'
+      );
+    });
+  });
+
+  describe('Attested Runs', function () {
+    it('Should attest a session\'s runs again for the same session', function () {
+      const db = openVerifierDatabase(':memory:');
+      recordAttestedRuns(db, PLAYER, SESSION_START, [1, 2]);
+      expect(() => recordAttestedRuns(db, PLAYER, SESSION_START, [1, 2, 3])).to.not.throw();
+    });
+
+    it('Should reject a run already attested for another session', function () {
+      const db = openVerifierDatabase(':memory:');
+      recordAttestedRuns(db, PLAYER, SESSION_START, [1]);
+      expect(() => recordAttestedRuns(db, PLAYER, SESSION_START + 3600, [2, 1])).to.throw(
+        VerificationError,
+        'Run already attested'
+      );
+      // Nothing from the rejected submission is recorded
+      expect(() => recordAttestedRuns(db, PLAYER, SESSION_START, [2])).to.not.throw();
+    });
+
+    it('Should keep each player\'s runs apart', function () {
+      const db = openVerifierDatabase(':memory:');
+      recordAttestedRuns(db, PLAYER, SESSION_START, [1]);
+      expect(() => recordAttestedRuns(db, OTHER, SESSION_START + 3600, [1])).to.not.throw();
+      expect(() => recordAttestedRuns(db, PLAYER.toLowerCase(), SESSION_START + 3600, [1])).to.throw(
+        VerificationError,
+        'Run already attested'
+      );
+    });
+  });
+
+  describe('Tournament Runs', function () {
+    it('Should compute the distance of a single run', function () {
+      const { state, replay } = recordRun();
+      const run = verifyTournamentRun({ ...replay, distance: 99999 }, tournamentContext);
+      expect(run.distance).to.equal(state.distance);
+      expect(run.ticks).to.equal(state.tick);
+    });
+
+    it('Should reject runs longer than the session', function () {
+      const { replay } = recordRun();
+      expect(() => verifyTournamentRun(replay, { ...tournamentContext, elapsed: 1 })).to.throw(
+        VerificationError,
+        'Run exceeds session duration'
+      );
+      // Checked on the claimed length, before re-simulating
+      expect(() => verifyTournamentRun({ ...replay, ticks: 1e9 }, tournamentContext)).to.throw(
+        VerificationError,
+        'Run exceeds session duration'
+      );
+    });
+
+    it('Should reject runs from a session started before entering', function () {
+      const { replay } = recordRun();
+      expect(() => verifyTournamentRun(replay, { ...tournamentContext, enteredAt: SESSION_START + 1 })).to.throw(
+        VerificationError,
+        'Session started before entering the tournament'
+      );
+    });
+
+    it('Should reject runs from an earlier session', function () {
+      const { replay } = recordRun(0, PLAYER, SESSION_START - 3600);
+      expect(() => verifyTournamentRun(replay, tournamentContext)).to.throw(
+        VerificationError,
+        'Replay was recorded in another session'
+      );
+    });
+
+    it('Should reject invalid replays', function () {
+      expect(() => verifyTournamentRun({ seed: 'x' }, tournamentContext)).to.throw(VerificationError);
+    });
+  });
+
+  describe('Race Runs', function () {
+    it('Should verify a run to open a race on its seed', function () {
+      const { state, replay } = playRun(21);
+      const run = verifyRaceRun({ ...replay, distance: 99999 });
+      expect(run.seed).to.equal(21);
+      expect(run.distance).to.equal(state.distance);
+    });
+
+    it('Should reject an answer on another seed', function () {
+      const { replay } = playRun(22);
+      expect(() => verifyRaceRun(replay, { seed: 23 })).to.throw(VerificationError, 'Run is not on the race seed');
+    });
+
+    it('Should reject answers longer than the time since accepting', function () {
+      const { replay } = playRun(24);
+      expect(() => verifyRaceRun(replay, { seed: 24, elapsed: 1 })).to.throw(
+        VerificationError,
+        'Run exceeds race duration'
+      );
+    });
+
+    it('Should reject runs longer than the maximum, even when opening a race', function () {
+      const { replay } = playRun(25);
+      expect(() => verifyRaceRun({ ...replay, ticks: 1e9 })).to.throw(VerificationError, 'Run exceeds maximum length');
+    });
+  });
+
+  describe('Quests', function () {
+    const now = 20000 * 86400 + 3600;
+    const day = dayIndex(now);
+
+    // Sessions ended today that just reach the quest's target
+    function completingSessions(quest: QuestDefinition): QuestSession[] {
+      const endTime = now - 60;
+      switch (quest.metric) {
+        case 'sessions':
+          return Array.from({ length: quest.target }, () => ({ endTime, duration: 60, talismansCollected: 0 }));
+        case 'playTime':
+          return [{ endTime, duration: quest.target, talismansCollected: 0 }];
+        case 'talismans':
+        case 'bestSession':
+          return [{ endTime, duration: 60, talismansCollected: quest.target }];
+      }
+    }
+
+    it('Should accept a completed quest of the day', function () {
+      const [quest] = getDailyQuests(day);
+      expect(verifyQuestCompletion(completingSessions(quest), day, quest.id, now)).to.equal(quest);
+    });
+
+    it('Should reject an incomplete quest', function () {
+      const [quest] = getDailyQuests(day);
+      expect(() => verifyQuestCompletion([], day, quest.id, now)).to.throw(
+        VerificationError,
+        'Quest not complete'
+      );
+    });
+
+    it('Should reject quests not offered that day', function () {
+      const offered = getDailyQuests(day).map((q) => q.id);
+      const other = QUEST_POOL.find((q) => !offered.includes(q.id))!;
+      expect(() => verifyQuestCompletion(completingSessions(other), day, other.id, now)).to.throw(
+        VerificationError,
+        'Quest not offered on this day'
+      );
+      expect(() => verifyQuestCompletion([], day, 'made-up', now)).to.throw(VerificationError, 'Unknown quest');
+    });
+
+    it('Should reject quests of future days', function () {
+      const [quest] = getDailyQuests(day + 1);
+      expect(() => verifyQuestCompletion(completingSessions(quest), day + 1, quest.id, now)).to.throw(
+        VerificationError,
+        'Quest day has not started'
+      );
+    });
+  });
+
+  describe('Attestation', function () {
+    async function deployFixture() {
+      const [owner, player, verifier] = await ethers.getSigners();
+
+      const TalismanToken = await ethers.getContractFactory('TalismanToken');
+      const token = await TalismanToken.deploy(owner.address, ethers.parseEther('1000000'));
+      const TalismanGame = await ethers.getContractFactory('TalismanGame');
+      const game = await TalismanGame.deploy(await token.getAddress(), owner.address);
+
+      await token.transfer(await game.getAddress(), ethers.parseEther('100000'));
+      await token.transfer(player.address, ethers.parseEther('1000'));
+      await token.connect(player).approve(await game.getAddress(), ethers.MaxUint256);
+      await game.setScoreVerifier(verifier.address);
+
+      return { game, player, verifier };
+    }
+
+    it('Should produce a proof the game contract accepts', async function () {
+      const { game, player, verifier } = await loadFixture(deployFixture);
+
+      await game.connect(player).startSession(GameMode.Dash);
+      await time.increase(300);
+
+      const session = await game.getSession(player.address);
+      const sessionStart = Number(session.startTime);
+      const { state, replay } = recordRun(0, player.address, sessionStart);
+      const result = verifySessionReplays([replay], { ...context, sessionStart });
+      expect(result.talismansCollected).to.equal(state.talismansCollected);
+      expect(result.seeds).to.deep.equal([replay.seed]);
+
+      const { chainId } = await ethers.provider.getNetwork();
+      const deadline = BigInt(await time.latest()) + 600n;
+      const signature = await signSessionResult(verifier, getGameDomain(chainId, await game.getAddress()), {
+        player: player.address,
+        sessionStart: session.startTime,
+        talismansCollected: BigInt(result.talismansCollected),
+        deadline,
+      });
+
+      await game.connect(player).endSessionWithProof(result.talismansCollected, deadline, signature);
+      expect((await game.getSession(player.address)).talismansCollected).to.equal(result.talismansCollected);
+    });
+
+    it('Should produce a quest proof the game contract accepts', async function () {
+      const { game, player, verifier } = await loadFixture(deployFixture);
+
+      const now = await time.latest();
+      const day = dayIndex(now);
+      // Enough play today for any quest in the pool
+      const sessions = Array.from({ length: 10 }, () => ({ endTime: now, duration: 3600, talismansCollected: 50 }));
+      const quest = verifyQuestCompletion(sessions, day, getDailyQuests(day)[0].id, now);
+
+      const { chainId } = await ethers.provider.getNetwork();
+      const questId = ethers.encodeBytes32String(quest.id);
+      const deadline = BigInt(now) + 600n;
+      const signature = await signQuestCompletion(verifier, getGameDomain(chainId, await game.getAddress()), {
+        player: player.address,
+        day: BigInt(day),
+        questId,
+        reward: quest.reward,
+        deadline,
+      });
+
+      await game.connect(player).claimQuestBonus(day, questId, quest.reward, deadline, signature);
+      expect(await game.isQuestClaimed(player.address, day, questId)).to.be.true;
+    });
+
+    it('Should produce a tournament proof the tournament contract accepts', async function () {
+      const [owner, player, verifier] = await ethers.getSigners();
+      const { game } = await loadFixture(deployFixture);
+      const TalismanTournament = await ethers.getContractFactory('TalismanTournament');
+      const tournament = await TalismanTournament.deploy(await game.tlsmToken(), owner.address);
+      await tournament.setScoreVerifier(verifier.address);
+
+      const now = await time.latest();
+      await tournament.createTournament(now, now + 3600, 0, [10000]);
+      await tournament.connect(player).enterTournament(0);
+      await game.connect(player).startSession(GameMode.Dash);
+      await time.increase(300);
+
+      // The run is bound to a session started after entering, both read from the chain
+      const sessionStart = Number((await game.getSession(player.address)).startTime);
+      const enteredAt = Number(await tournament.getEntryTime(0, player.address));
+      const { state, replay } = recordRun(0, player.address, sessionStart);
+      const run = verifyTournamentRun(replay, { ...context, sessionStart, enteredAt });
+      const distance = BigInt(Math.floor(run.distance));
+      expect(distance).to.equal(BigInt(Math.floor(state.distance)));
+
+      const { chainId } = await ethers.provider.getNetwork();
+      const deadline = BigInt(now) + 600n;
+      const signature = await signTournamentScore(
+        verifier,
+        getTournamentDomain(chainId, await tournament.getAddress()),
+        { tournamentId: 0n, player: player.address, distance, deadline }
+      );
+
+      await tournament.connect(player).submitScore(0, distance, deadline, signature);
+      expect(await tournament.getBestDistance(0, player.address)).to.equal(distance);
+    });
+
+    it('Should produce a race proof the race escrow accepts', async function () {
+      const [owner, player, verifier] = await ethers.getSigners();
+      const { game } = await loadFixture(deployFixture);
+      const TalismanRaceEscrow = await ethers.getContractFactory('TalismanRaceEscrow');
+      const escrow = await TalismanRaceEscrow.deploy(await game.tlsmToken(), owner.address);
+      await escrow.setScoreVerifier(verifier.address);
+
+      const token = await ethers.getContractAt('TalismanToken', await game.tlsmToken());
+      await token.connect(player).approve(await escrow.getAddress(), ethers.parseEther('10'));
+
+      const { replay } = playRun(25);
+      const run = verifyRaceRun(replay);
+      const distance = BigInt(Math.floor(run.distance));
+
+      const ghost = ethers.toUtf8Bytes(serializeReplay(replay));
+      const { chainId } = await ethers.provider.getNetwork();
+      const deadline = BigInt(await time.latest()) + 600n;
+      const signature = await signRaceRun(verifier, getRaceDomain(chainId, await escrow.getAddress()), {
+        player: player.address,
+        seed: BigInt(run.seed),
+        distance,
+        ghostHash: ethers.keccak256(ghost),
+        deadline,
+      });
+
+      await escrow.connect(player).createRace(ethers.parseEther('10'), run.seed, distance, deadline, signature, ghost);
+      expect((await escrow.getRace(0)).creatorDistance).to.equal(distance);
+    });
+
+    it('Should produce a race result proof bound to the accepted race', async function () {
+      const [owner, creator, verifier, challenger] = await ethers.getSigners();
+      const { game } = await loadFixture(deployFixture);
+      const TalismanRaceEscrow = await ethers.getContractFactory('TalismanRaceEscrow');
+      const escrow = await TalismanRaceEscrow.deploy(await game.tlsmToken(), owner.address);
+      await escrow.setScoreVerifier(verifier.address);
+      const domain = getRaceDomain((await ethers.provider.getNetwork()).chainId, await escrow.getAddress());
+
+      const token = await ethers.getContractAt('TalismanToken', await game.tlsmToken());
+      await token.transfer(challenger.address, ethers.parseEther('10'));
+      for (const account of [creator, challenger]) {
+        await token.connect(account).approve(await escrow.getAddress(), ethers.parseEther('10'));
+      }
+
+      // The creator opens on a short run; the challenger answers on its seed
+      const { replay: ghost } = playRun(26);
+      const ghostDistance = BigInt(Math.floor(verifyRaceRun(ghost).distance));
+      const ghostBytes = ethers.toUtf8Bytes(serializeReplay(ghost));
+      const deadline = BigInt(await time.latest()) + 600n;
+      const opening = { seed: 26n, distance: ghostDistance, ghostHash: ethers.keccak256(ghostBytes), deadline };
+      await escrow.connect(creator).createRace(
+        ethers.parseEther('10'),
+        26,
+        ghostDistance,
+        deadline,
+        await signRaceRun(verifier, domain, { player: creator.address, ...opening }),
+        ghostBytes
+      );
+      await escrow.connect(challenger).acceptRace(0);
+      await time.increase(600);
+
+      const { replay } = playRun(26);
+      const distance = BigInt(Math.floor(verifyRaceRun(replay, { seed: 26, elapsed: 600 }).distance));
+      const race = await escrow.getRace(0);
+      const resultDeadline = BigInt(await time.latest()) + 600n;
+
+      // An opening attestation for the same run can't settle the race
+      const runSignature = await signRaceRun(verifier, domain, {
+        player: challenger.address,
+        seed: 26n,
+        distance,
+        ghostHash: ethers.keccak256(ethers.toUtf8Bytes(serializeReplay(replay))),
+        deadline: resultDeadline,
+      });
+      await expect(
+        escrow.connect(challenger).submitRaceResult(0, distance, resultDeadline, runSignature)
+      ).to.be.revertedWith('TalismanRaceEscrow: invalid proof');
+
+      const signature = await signRaceResult(verifier, domain, {
+        raceId: 0n,
+        challenger: challenger.address,
+        acceptedAt: race.acceptedAt,
+        distance,
+        deadline: resultDeadline,
+      });
+      await escrow.connect(challenger).submitRaceResult(0, distance, resultDeadline, signature);
+      expect((await escrow.getRace(0)).challengerDistance).to.equal(distance);
+    });
+  });
+});
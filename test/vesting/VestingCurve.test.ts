@@ -0,0 +1,116 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { loadFixture, time } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { vestedAmount, claimableAmount, vestingEndTime, type VestingTranche } from '../../shared/vesting';
+
+// Mirrors ITalismanGame.GameMode
+const GameMode = { Dash: 0, Search: 1 };
+
+const DAY = 24n * 60n * 60n;
+
+function tranche(overrides: Partial<VestingTranche> = {}): VestingTranche {
+  return {
+    totalAmount: 7000n,
+    claimedAmount: 0n,
+    startTime: 1000n,
+    duration: 7n * DAY,
+    cliff: 0n,
+    stepDuration: 0n,
+    instantUnlockPercent: 0n,
+    ...overrides,
+  };
+}
+
+describe('VestingCurve', function () {
+  describe('Shape', function () {
+    it('Should vest linearly by default', function () {
+      const t = tranche();
+      expect(vestedAmount(t, 1000n)).to.equal(0n);
+      expect(vestedAmount(t, 1000n + DAY)).to.equal(1000n);
+      expect(vestedAmount(t, 1000n + 7n * DAY)).to.equal(7000n);
+      expect(vestedAmount(t, 1000n + 30n * DAY)).to.equal(7000n);
+    });
+
+    it('Should unlock the instant percentage at the start', function () {
+      const t = tranche({ instantUnlockPercent: 10n });
+      expect(vestedAmount(t, 1000n)).to.equal(700n);
+      expect(vestedAmount(t, 1000n + DAY)).to.equal(700n + 900n);
+    });
+
+    it('Should hold the linear part back until the cliff', function () {
+      const t = tranche({ cliff: 2n * DAY, instantUnlockPercent: 10n });
+      expect(vestedAmount(t, 1000n + 2n * DAY - 1n)).to.equal(700n);
+      expect(vestedAmount(t, 1000n + 2n * DAY)).to.equal(700n + 1800n);
+    });
+
+    it('Should release whole steps only', function () {
+      const t = tranche({ stepDuration: DAY });
+      expect(vestedAmount(t, 1000n + DAY - 1n)).to.equal(0n);
+      expect(vestedAmount(t, 1000n + DAY)).to.equal(1000n);
+      expect(vestedAmount(t, 1000n + 2n * DAY - 1n)).to.equal(1000n);
+    });
+
+    it('Should treat times before the start as no time elapsed', function () {
+      const t = tranche({ instantUnlockPercent: 50n });
+      expect(vestedAmount(t, 0n)).to.equal(3500n);
+    });
+
+    it('Should accept numbers as decoded by viem', function () {
+      const t = tranche({ stepDuration: Number(DAY), instantUnlockPercent: 10 });
+      expect(vestedAmount(t, Number(1000n + DAY))).to.equal(700n + 900n);
+    });
+
+    it('Should sum claimable amounts across tranches', function () {
+      const first = tranche({ claimedAmount: 500n });
+      const second = tranche({ startTime: 1000n + DAY, instantUnlockPercent: 10n });
+      const now = 1000n + 2n * DAY;
+      expect(claimableAmount([first, second], now)).to.equal(2000n - 500n + 700n + 900n);
+    });
+
+    it('Should report the end of a tranche', function () {
+      expect(vestingEndTime(tranche())).to.equal(1000n + 7n * DAY);
+    });
+  });
+
+  describe('Contract Agreement', function () {
+    async function deployWithCurveFixture() {
+      const [owner, player] = await ethers.getSigners();
+
+      const TalismanToken = await ethers.getContractFactory('TalismanToken');
+      const token = await TalismanToken.deploy(owner.address, ethers.parseEther('1000000'));
+      const TalismanGame = await ethers.getContractFactory('TalismanGame');
+      const game = await TalismanGame.deploy(await token.getAddress(), owner.address);
+
+      await token.transfer(await game.getAddress(), ethers.parseEther('100000'));
+      await token.transfer(player.address, ethers.parseEther('1000'));
+      await token.connect(player).approve(await game.getAddress(), ethers.MaxUint256);
+
+      // Cliff, steps and instant unlock all at once
+      await game.setVestingCurve(DAY, 6n * 60n * 60n, 15);
+
+      return { game, player };
+    }
+
+    it('Should match getClaimableAmount across the whole schedule', async function () {
+      const { game, player } = await loadFixture(deployWithCurveFixture);
+
+      await game.connect(player).startSession(GameMode.Dash);
+      await time.increase(600);
+      await game.connect(player).endSession(3);
+      await time.increase(Number(DAY) / 2);
+      await game.connect(player).startSession(GameMode.Dash);
+      await time.increase(1200);
+      await game.connect(player).endSession(0);
+
+      const tranches = await game.getVestingTranches(player.address);
+      const start = tranches[0].startTime;
+      const end = vestingEndTime(tranches[1]);
+
+      for (let i = 1n; i <= 12n; i++) {
+        const at = start + ((end - start) * i) / 11n + 7n;
+        await time.increaseTo(at);
+        expect(await game.getClaimableAmount(player.address)).to.equal(claimableAmount(tranches, at));
+      }
+    });
+  });
+});